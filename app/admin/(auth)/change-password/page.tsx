@@ -0,0 +1,178 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { useRouter } from 'next/navigation';
+import { validatePasswordRules, type PasswordPolicy } from '@/lib/auth/password-rules';
+import type { PasswordStatus } from '@/lib/auth/password-policy';
+
+const inputClassName = 'appearance-none relative block w-full px-3 py-2 border border-gray-700 placeholder-gray-500 text-white bg-gray-800 rounded-md focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm';
+
+export default function ChangePasswordPage() {
+  const [currentPassword, setCurrentPassword] = useState('');
+  const [newPassword, setNewPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [policy, setPolicy] = useState<PasswordPolicy | null>(null);
+  const [requirements, setRequirements] = useState<string[]>([]);
+  const [status, setStatus] = useState<PasswordStatus | null>(null);
+  const [expired, setExpired] = useState(false);
+  const [errors, setErrors] = useState<string[]>([]);
+  const [loading, setLoading] = useState(false);
+  const router = useRouter();
+
+  useEffect(() => {
+    // Set by middleware when the password is past password_expiry_days
+    setExpired(new URLSearchParams(window.location.search).get('expired') === '1');
+
+    fetch('/api/admin/auth/password')
+      .then(async (response) => {
+        if (response.status === 401) {
+          router.push('/admin/login');
+          return;
+        }
+        if (!response.ok) throw new Error('Failed to load password policy');
+
+        const data = await response.json();
+        setPolicy(data.policy);
+        setRequirements(data.requirements);
+        setStatus(data.status);
+      })
+      .catch((error) => console.error('Error loading password policy:', error));
+  }, [router]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    // The server checks again, including against previous passwords
+    const problems = policy ? validatePasswordRules(newPassword, policy) : [];
+    if (newPassword !== confirmPassword) {
+      problems.push('The new passwords do not match');
+    }
+    if (problems.length > 0) {
+      setErrors(problems);
+      return;
+    }
+
+    setErrors([]);
+    setLoading(true);
+
+    try {
+      const response = await fetch('/api/admin/auth/password', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ currentPassword, newPassword }),
+      });
+
+      const data = await response.json().catch(() => ({}));
+
+      if (!response.ok) {
+        setErrors(data.details?.length ? data.details : [data.error || 'Failed to change password']);
+        setLoading(false);
+        return;
+      }
+
+      router.push('/admin/dashboard');
+      router.refresh();
+    } catch (err) {
+      setErrors([err instanceof Error ? err.message : 'An error occurred']);
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-gray-900 to-gray-800">
+      <div className="max-w-md w-full space-y-8">
+        <div>
+          <h2 className="mt-6 text-center text-3xl font-extrabold text-white">
+            Change Password
+          </h2>
+          <p className="mt-2 text-center text-sm text-gray-400">
+            {expired || status?.expired
+              ? 'Your password has expired. Choose a new one to continue.'
+              : status?.expiresAt
+                ? `Your current password expires on ${new Date(status.expiresAt).toLocaleDateString()}`
+                : 'Choose a new password for your admin account'}
+          </p>
+        </div>
+
+        <form className="mt-8 space-y-4" onSubmit={handleSubmit}>
+          <div>
+            <label htmlFor="current-password" className="block text-sm font-medium text-gray-300">
+              Current password
+            </label>
+            <input
+              id="current-password"
+              type="password"
+              autoComplete="current-password"
+              required
+              value={currentPassword}
+              onChange={(e) => setCurrentPassword(e.target.value)}
+              className={`mt-1 ${inputClassName}`}
+            />
+          </div>
+          <div>
+            <label htmlFor="new-password" className="block text-sm font-medium text-gray-300">
+              New password
+            </label>
+            <input
+              id="new-password"
+              type="password"
+              autoComplete="new-password"
+              required
+              value={newPassword}
+              onChange={(e) => setNewPassword(e.target.value)}
+              className={`mt-1 ${inputClassName}`}
+            />
+          </div>
+          <div>
+            <label htmlFor="confirm-password" className="block text-sm font-medium text-gray-300">
+              Confirm new password
+            </label>
+            <input
+              id="confirm-password"
+              type="password"
+              autoComplete="new-password"
+              required
+              value={confirmPassword}
+              onChange={(e) => setConfirmPassword(e.target.value)}
+              className={`mt-1 ${inputClassName}`}
+            />
+          </div>
+
+          {requirements.length > 0 && (
+            <ul className="text-xs text-gray-400 list-disc list-inside space-y-1">
+              {requirements.map((requirement) => (
+                <li key={requirement}>{requirement}</li>
+              ))}
+            </ul>
+          )}
+
+          {errors.length > 0 && (
+            <div className="rounded-md bg-red-900/50 p-4 space-y-1">
+              {errors.map((error) => (
+                <p key={error} className="text-sm text-red-300">{error}</p>
+              ))}
+            </div>
+          )}
+
+          <button
+            type="submit"
+            disabled={loading}
+            className="w-full flex justify-center py-2 px-4 border border-transparent text-sm font-medium rounded-md text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {loading ? 'Saving...' : 'Change password'}
+          </button>
+
+          {!(expired || status?.expired) && (
+            <button
+              type="button"
+              onClick={() => router.back()}
+              className="w-full text-sm text-gray-400 hover:text-gray-300"
+            >
+              Cancel
+            </button>
+          )}
+        </form>
+      </div>
+    </div>
+  );
+}
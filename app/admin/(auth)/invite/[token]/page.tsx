@@ -0,0 +1,166 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { useParams } from 'next/navigation';
+import Link from 'next/link';
+import type { AdminInviteDetails } from '@/lib/admin/invites';
+
+const inputClassName = 'mt-1 appearance-none relative block w-full px-3 py-2 border border-gray-700 placeholder-gray-500 text-white bg-gray-800 rounded-md focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm';
+
+export default function AcceptInvitePage() {
+  const { token } = useParams<{ token: string }>();
+  const [invite, setInvite] = useState<AdminInviteDetails | null>(null);
+  const [fullName, setFullName] = useState('');
+  const [password, setPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [errors, setErrors] = useState<string[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [accepted, setAccepted] = useState(false);
+
+  useEffect(() => {
+    fetch(`/api/invites/${encodeURIComponent(token)}`)
+      .then(async (response) => {
+        const data = await response.json().catch(() => ({}));
+        if (!response.ok) throw new Error(data.error || 'Failed to load invite');
+
+        setInvite(data.invite);
+        setFullName(data.invite.fullName || '');
+      })
+      .catch((error) => setLoadError(error instanceof Error ? error.message : 'Failed to load invite'));
+  }, [token]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (password !== confirmPassword) {
+      setErrors(['The passwords do not match']);
+      return;
+    }
+
+    setErrors([]);
+    setLoading(true);
+
+    try {
+      const response = await fetch(`/api/invites/${encodeURIComponent(token)}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ fullName, password }),
+      });
+
+      const data = await response.json().catch(() => ({}));
+
+      if (!response.ok) {
+        setErrors(data.details?.length ? data.details : [data.error || 'Failed to accept invite']);
+        return;
+      }
+
+      setAccepted(true);
+    } catch (err) {
+      setErrors([err instanceof Error ? err.message : 'An error occurred']);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-gray-900 to-gray-800">
+      <div className="max-w-md w-full space-y-8">
+        <div>
+          <h2 className="mt-6 text-center text-3xl font-extrabold text-white">
+            Join the Admin Team
+          </h2>
+          {invite && !accepted && (
+            <p className="mt-2 text-center text-sm text-gray-400">
+              Set a password for {invite.email} to start as {invite.role.replace(/_/g, ' ')}
+            </p>
+          )}
+        </div>
+
+        {loadError ? (
+          <div className="rounded-md bg-red-900/50 p-4">
+            <p className="text-sm text-red-300">{loadError}</p>
+          </div>
+        ) : accepted ? (
+          <div className="space-y-4 text-center">
+            <p className="text-sm text-gray-300">Your admin account is ready.</p>
+            <Link href="/admin/login" className="text-indigo-400 hover:text-indigo-300 text-sm">
+              Sign in
+            </Link>
+          </div>
+        ) : !invite ? (
+          <div className="flex justify-center">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-indigo-500" />
+          </div>
+        ) : (
+          <form className="mt-8 space-y-4" onSubmit={handleSubmit}>
+            <div>
+              <label htmlFor="full-name" className="block text-sm font-medium text-gray-300">
+                Full name
+              </label>
+              <input
+                id="full-name"
+                type="text"
+                autoComplete="name"
+                maxLength={100}
+                value={fullName}
+                onChange={(e) => setFullName(e.target.value)}
+                className={inputClassName}
+              />
+            </div>
+            <div>
+              <label htmlFor="password" className="block text-sm font-medium text-gray-300">
+                Password
+              </label>
+              <input
+                id="password"
+                type="password"
+                autoComplete="new-password"
+                required
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                className={inputClassName}
+              />
+            </div>
+            <div>
+              <label htmlFor="confirm-password" className="block text-sm font-medium text-gray-300">
+                Confirm password
+              </label>
+              <input
+                id="confirm-password"
+                type="password"
+                autoComplete="new-password"
+                required
+                value={confirmPassword}
+                onChange={(e) => setConfirmPassword(e.target.value)}
+                className={inputClassName}
+              />
+            </div>
+
+            <ul className="text-xs text-gray-400 list-disc list-inside space-y-1">
+              {invite.passwordRequirements.map((requirement) => (
+                <li key={requirement}>{requirement}</li>
+              ))}
+            </ul>
+
+            {errors.length > 0 && (
+              <div className="rounded-md bg-red-900/50 p-4 space-y-1">
+                {errors.map((error) => (
+                  <p key={error} className="text-sm text-red-300">{error}</p>
+                ))}
+              </div>
+            )}
+
+            <button
+              type="submit"
+              disabled={loading}
+              className="w-full flex justify-center py-2 px-4 border border-transparent text-sm font-medium rounded-md text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {loading ? 'Creating account...' : 'Accept invite'}
+            </button>
+          </form>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -3,21 +3,16 @@
 import React, { useState, useEffect, useCallback, Suspense } from 'react';
 import { useRouter, useSearchParams } from 'next/navigation';
 import { TwoFactorVerification } from '@/components/auth/TwoFactorVerification';
-import { TotpUtils } from '@/lib/auth/2fa';
-// QR Code library would be imported here
-// import { QRCodeSVG } from 'qrcode.react';
+import { TwoFactorSetupWizard } from '@/components/auth/TwoFactorSetupWizard';
+import { PasskeyLogin } from '@/components/auth/PasskeyLogin';
 
 function TwoFactorSetupContent() {
   const router = useRouter();
   const searchParams = useSearchParams();
-  const [step, setStep] = useState<'verify' | 'setup'>('verify');
-  const [temporaryToken, setTemporaryToken] = useState<string | null>(null);
-  const [setupData, setSetupData] = useState<{
-    secret: string;
-    qrCodeUrl: string;
-    manualEntryKey: string;
-    backupCodes: string[];
-  } | null>(null);
+  const [step, setStep] = useState<'verify' | 'setup' | 'passkey'>('verify');
+  // Second factor for a sign-in this browser started with a password
+  const [pendingSignIn, setPendingSignIn] = useState(false);
+  const [methods, setMethods] = useState<string[]>(['totp']);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
@@ -25,18 +20,32 @@ function TwoFactorSetupContent() {
   useEffect(() => {
     const checkTwoFactorStatus = async () => {
       try {
-        // Get temporary token from URL params or localStorage
-        const urlToken = searchParams.get('token');
-        const storageToken = localStorage.getItem('temp-2fa-token');
-        const token = urlToken || storageToken;
-
-        if (token) {
-          setTemporaryToken(token);
-          setStep('verify');
+        // Second factors the admin has enrolled, as reported by the login route;
+        // the pending sign-in itself is the server-side login session
+        const storedMethods = localStorage.getItem('temp-2fa-methods');
+        const enrolledMethods: string[] = JSON.parse(storedMethods || '["totp"]');
+        setMethods(enrolledMethods);
+
+        if (searchParams.get('passkey')) {
+          // Passwordless sign-in with a discoverable passkey
+          setStep('passkey');
+        } else if (storedMethods && !searchParams.get('setup')) {
+          // Forced enrollment always shows the wizard, even after a stale sign-in
+          setPendingSignIn(true);
+          setStep(enrolledMethods.includes('totp') ? 'verify' : 'passkey');
         } else {
+          // Enrolled admins without a pending sign-in must sign in again
+          const response = await fetch('/api/admin/auth/2fa/status');
+          const status = response.ok ? await response.json() : null;
+
+          // A 401 means the second factor is owed but the sign-in was not started here
+          if (response.status === 401 || status?.enabled || status?.passkeys > 0) {
+            router.push('/admin/login');
+            return;
+          }
+
           // User needs to set up 2FA
           setStep('setup');
-          await initializeTwoFactorSetup();
         }
       } catch (error) {
         console.error('Error checking 2FA status:', error);
@@ -47,27 +56,13 @@ function TwoFactorSetupContent() {
     };
 
     checkTwoFactorStatus();
-  }, [searchParams]);
-
-  const initializeTwoFactorSetup = useCallback(async () => {
-    try {
-      // Generate TOTP secret and QR code
-      const userEmail = 'admin@example.com'; // This would come from session
-      const totpSecret = TotpUtils.generateSecret(userEmail);
-
-      setSetupData(totpSecret);
-    } catch (error) {
-      console.error('Error initializing 2FA setup:', error);
-      setError('Failed to initialize 2FA setup');
-    }
-  }, []);
+  }, [searchParams, router]);
 
-  const handleVerificationSuccess = useCallback((data: { user: any; token: string }) => {
+  const handleVerificationSuccess = useCallback((data: { user: any }) => {
     // Store session data
     if (typeof window !== 'undefined') {
       localStorage.setItem('admin-user', JSON.stringify(data.user));
-      localStorage.setItem('admin-session-token', data.token);
-      localStorage.removeItem('temp-2fa-token');
+      localStorage.removeItem('temp-2fa-methods');
     }
 
     // Redirect to intended destination
@@ -80,51 +75,11 @@ function TwoFactorSetupContent() {
     setError(error);
   }, []);
 
-  const handleSetupComplete = useCallback(async (verificationCode: string) => {
-    if (!setupData) {
-      setError('Setup data not available');
-      return;
-    }
-
-    try {
-      setIsLoading(true);
-
-      // Validate the setup code
-      const isValid = TotpUtils.validateTotpCode(setupData.secret, verificationCode);
-
-      if (!isValid.isValid) {
-        setError('Invalid verification code. Please try again.');
-        return;
-      }
-
-      // Enable 2FA for the user (this would make an API call)
-      const response = await fetch('/api/admin/auth/2fa/enable', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          secret: setupData.secret,
-          backupCodes: setupData.backupCodes,
-          verificationCode,
-        }),
-      });
-
-      if (!response.ok) {
-        const data = await response.json();
-        throw new Error(data.error || 'Failed to enable 2FA');
-      }
-
-      // 2FA setup complete, redirect to dashboard
-      const redirectTo = searchParams.get('redirect') || '/admin/dashboard';
-      router.push(redirectTo);
-    } catch (error) {
-      console.error('2FA setup error:', error);
-      setError(error instanceof Error ? error.message : 'Failed to complete 2FA setup');
-    } finally {
-      setIsLoading(false);
-    }
-  }, [setupData, searchParams, router]);
+  const handleSetupComplete = useCallback(() => {
+    const redirectTo = searchParams.get('redirect') || '/admin/dashboard';
+    router.push(redirectTo);
+    router.refresh();
+  }, [searchParams, router]);
 
   if (isLoading) {
     return (
@@ -156,19 +111,52 @@ function TwoFactorSetupContent() {
     );
   }
 
-  // Show verification form if user has temporary token
-  if (step === 'verify' && temporaryToken) {
+  // Show verification form for a pending sign-in
+  if (step === 'verify' && pendingSignIn) {
     return (
       <TwoFactorVerification
-        temporaryToken={temporaryToken}
         onSuccess={handleVerificationSuccess}
         onError={handleVerificationError}
+        allowPasskey={methods.includes('webauthn')}
       />
     );
   }
 
-  // Show 2FA setup form
-  if (step === 'setup' && setupData) {
+  // Passkey-only second factor, or passwordless sign-in
+  if (step === 'passkey') {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-gray-900 to-gray-800">
+        <div className="max-w-md w-full space-y-8 p-8">
+          <div className="text-center">
+            <h2 className="text-3xl font-extrabold text-white">
+              Sign in with a passkey
+            </h2>
+            <p className="mt-2 text-sm text-gray-400">
+              Use your security key, phone or this device's screen lock
+            </p>
+          </div>
+
+          <PasskeyLogin
+            secondFactor={pendingSignIn}
+            onSuccess={handleVerificationSuccess}
+          />
+
+          <div className="text-center">
+            <button
+              type="button"
+              onClick={() => router.push('/admin/login')}
+              className="text-sm text-gray-400 hover:text-gray-300"
+            >
+              ← Back to login
+            </button>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  // Show 2FA setup wizard
+  if (step === 'setup') {
     return (
       <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-gray-900 to-gray-800">
         <div className="max-w-md w-full space-y-8 p-8">
@@ -182,86 +170,14 @@ function TwoFactorSetupContent() {
               Set Up Two-Factor Authentication
             </h2>
             <p className="mt-2 text-sm text-gray-400">
-              Secure your account with an additional layer of protection
+              {searchParams.get('setup')
+                ? 'Your organization requires two-factor authentication for all administrators'
+                : 'Secure your account with an additional layer of protection'}
             </p>
           </div>
 
-          <div className="space-y-6">
-            {/* Step 1: QR Code */}
-            <div className="bg-gray-800 rounded-lg p-6">
-              <h3 className="text-lg font-medium text-white mb-4">1. Scan QR Code</h3>
-              <div className="bg-white p-4 rounded-lg mb-4 flex justify-center">
-                {/* QR Code would be displayed here */}
-                <div className="w-48 h-48 bg-gray-200 flex items-center justify-center text-gray-500 text-sm text-center">
-                  QR Code for:<br />
-                  {setupData.qrCodeUrl.substring(0, 50)}...
-                </div>
-              </div>
-              <p className="text-sm text-gray-400">
-                Scan this QR code with your authenticator app (Google Authenticator, Authy, etc.)
-              </p>
-            </div>
-
-            {/* Step 2: Manual Entry */}
-            <div className="bg-gray-800 rounded-lg p-6">
-              <h3 className="text-lg font-medium text-white mb-4">2. Or Enter Manually</h3>
-              <div className="bg-gray-700 p-3 rounded font-mono text-sm text-gray-300 break-all">
-                {setupData.manualEntryKey}
-              </div>
-              <p className="text-sm text-gray-400 mt-2">
-                Enter this key manually if you can't scan the QR code
-              </p>
-            </div>
-
-            {/* Step 3: Verification */}
-            <div className="bg-gray-800 rounded-lg p-6">
-              <h3 className="text-lg font-medium text-white mb-4">3. Verify Setup</h3>
-              <form
-                onSubmit={(e) => {
-                  e.preventDefault();
-                  const formData = new FormData(e.currentTarget);
-                  const code = formData.get('code') as string;
-                  handleSetupComplete(code);
-                }}
-                className="space-y-4"
-              >
-                <input
-                  name="code"
-                  type="text"
-                  inputMode="numeric"
-                  pattern="[0-9]*"
-                  maxLength={6}
-                  required
-                  className="block w-full px-4 py-3 text-center text-lg font-mono border border-gray-700 placeholder-gray-500 text-white bg-gray-700 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 tracking-widest"
-                  placeholder="000000"
-                />
-                <button
-                  type="submit"
-                  disabled={isLoading}
-                  className="w-full py-3 px-4 border border-transparent text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50 disabled:cursor-not-allowed"
-                >
-                  {isLoading ? 'Verifying...' : 'Complete Setup'}
-                </button>
-              </form>
-            </div>
-
-            {/* Backup Codes */}
-            <div className="bg-gray-800 rounded-lg p-6">
-              <h3 className="text-lg font-medium text-white mb-4">Backup Codes</h3>
-              <p className="text-sm text-gray-400 mb-4">
-                Save these backup codes in a safe place. You can use them to access your account if you lose your device.
-              </p>
-              <div className="grid grid-cols-2 gap-2">
-                {setupData.backupCodes.map((code, index) => (
-                  <div
-                    key={index}
-                    className="bg-gray-700 p-2 rounded text-sm font-mono text-center text-gray-300"
-                  >
-                    {code}
-                  </div>
-                ))}
-              </div>
-            </div>
+          <div className="bg-gray-800 rounded-lg p-6">
+            <TwoFactorSetupWizard onComplete={handleSetupComplete} />
           </div>
         </div>
       </div>
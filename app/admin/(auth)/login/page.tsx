@@ -1,6 +1,6 @@
 'use client';
 
-import { useState } from 'react';
+import { useState, useEffect } from 'react';
 import { useRouter } from 'next/navigation';
 
 export default function AdminLoginPage() {
@@ -10,6 +10,13 @@ export default function AdminLoginPage() {
   const [loading, setLoading] = useState(false);
   const router = useRouter();
 
+  // Set by middleware when a session times out or is revoked
+  useEffect(() => {
+    if (new URLSearchParams(window.location.search).get('error') === 'session') {
+      setError('Your session has ended. Please sign in again.');
+    }
+  }, []);
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setError('');
@@ -31,10 +38,24 @@ export default function AdminLoginPage() {
         throw new Error(data.error || 'Login failed');
       }
 
-      // Success - redirect to admin dashboard
+      if (data.requiresTwoFactor) {
+        localStorage.setItem('temp-2fa-methods', JSON.stringify(data.twoFactorMethods));
+      } else {
+        localStorage.removeItem('temp-2fa-methods');
+      }
+
+      // Success - redirect to admin dashboard, or to 2FA verification, enrollment or an expired password
       // Add a small delay to ensure cookies are set
       setTimeout(() => {
-        router.push('/admin/dashboard');
+        router.push(
+          data.requiresTwoFactor
+            ? '/admin/login/2fa'
+            : data.requiresTwoFactorSetup
+              ? '/admin/login/2fa?setup=1'
+              : data.requiresPasswordChange
+                ? '/admin/change-password?expired=1'
+                : '/admin/dashboard'
+        );
         router.refresh();
       }, 100);
     } catch (err) {
@@ -105,6 +126,16 @@ export default function AdminLoginPage() {
               {loading ? 'Signing in...' : 'Sign in'}
             </button>
           </div>
+
+          <div className="text-center">
+            <button
+              type="button"
+              onClick={() => router.push('/admin/login/2fa?passkey=1')}
+              className="text-sm text-indigo-400 hover:text-indigo-300"
+            >
+              Sign in with a passkey
+            </button>
+          </div>
         </form>
       </div>
     </div>
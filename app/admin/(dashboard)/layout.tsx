@@ -1,6 +1,9 @@
 import { requireAdmin } from '@/lib/admin/auth';
+import { getActiveImpersonation, getImpersonationCookie } from '@/lib/admin/impersonation';
 import MobileSidebar from '@/components/admin/layout/MobileSidebar';
 import AdminHeader from '@/components/admin/layout/AdminHeader';
+import ImpersonationBanner from '@/components/admin/layout/ImpersonationBanner';
+import SessionTimeoutWarning from '@/components/admin/layout/SessionTimeoutWarning';
 
 export default async function DashboardLayout({
   children,
@@ -8,16 +11,22 @@ export default async function DashboardLayout({
   children: React.ReactNode;
 }) {
   const session = await requireAdmin();
+  const impersonationId = await getImpersonationCookie();
+  const impersonation = impersonationId
+    ? await getActiveImpersonation(impersonationId, session.user)
+    : null;
 
   return (
     <div className="min-h-screen bg-gray-900 flex">
-      <MobileSidebar />
+      <MobileSidebar permissions={session.permissions} />
       <div className="flex-1 flex flex-col lg:ml-0">
+        <ImpersonationBanner impersonation={impersonation} />
         <AdminHeader user={session.user} />
         <main className="flex-1 p-3 sm:p-4 md:p-6 overflow-y-auto">
           {children}
         </main>
       </div>
+      <SessionTimeoutWarning />
     </div>
   );
-}
\ No newline at end of file
+}
@@ -0,0 +1,191 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import Link from 'next/link';
+import { ArrowLeft, ChevronLeft, ChevronRight } from 'lucide-react';
+import AppealCard from '@/components/moderation/AppealCard';
+import { AppealSlaStats } from '@/components/moderation/ModerationStats';
+import { usePermissions } from '@/hooks/usePermissions';
+import type {
+  Appeal,
+  AppealDecision,
+  AppealListResponse,
+  AppealStats,
+} from '@/lib/admin/appeals';
+
+const EMPTY_APPEAL_STATS: AppealStats = {
+  pending: 0,
+  overdue: 0,
+  decidedToday: 0,
+  oldestPendingAge: '-',
+  avgResolutionTime: '-',
+};
+
+export default function AppealsPage() {
+  const [appeals, setAppeals] = useState<Appeal[]>([]);
+  const [stats, setStats] = useState<AppealStats>(EMPTY_APPEAL_STATS);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [status, setStatus] = useState('pending');
+  const [subjectType, setSubjectType] = useState('all');
+  const [currentPage, setCurrentPage] = useState(1);
+  const [totalPages, setTotalPages] = useState(1);
+  const itemsPerPage = 20;
+
+  const { user } = usePermissions();
+
+  const fetchAppeals = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const params = new URLSearchParams({
+        page: currentPage.toString(),
+        limit: itemsPerPage.toString(),
+        status,
+        subjectType,
+      });
+
+      const response = await fetch(`/api/admin/appeals?${params}`);
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.error || 'Failed to load appeals');
+      }
+
+      const data: AppealListResponse = await response.json();
+      setAppeals(data.appeals);
+      setStats(data.stats);
+      setTotalPages(Math.max(1, data.pagination.totalPages));
+    } catch (error) {
+      console.error('Error fetching appeals:', error);
+      setError(error instanceof Error ? error.message : 'Failed to load appeals');
+    } finally {
+      setLoading(false);
+    }
+  }, [currentPage, status, subjectType]);
+
+  useEffect(() => {
+    fetchAppeals();
+  }, [fetchAppeals]);
+
+  const handleDecide = async (id: string, decision: AppealDecision, reason?: string) => {
+    try {
+      const response = await fetch(`/api/admin/appeals/${id}/${decision}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ reason }),
+      });
+
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.error || `Failed to ${decision} appeal`);
+      }
+
+      await fetchAppeals();
+    } catch (error) {
+      console.error(`Error applying appeal decision "${decision}":`, error);
+      setError(error instanceof Error ? error.message : `Failed to ${decision} appeal`);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-white">Appeals</h1>
+          <p className="text-gray-400 mt-1">Review appeals against bans and rejected content</p>
+        </div>
+        <Link
+          href="/admin/moderation"
+          className="flex items-center px-3 py-1.5 bg-gray-800 border border-gray-700 text-gray-300 rounded-lg hover:bg-gray-700 text-sm"
+        >
+          <ArrowLeft className="h-4 w-4 mr-1" />
+          Moderation queue
+        </Link>
+      </div>
+
+      <AppealSlaStats stats={stats} />
+
+      <div className="flex space-x-4">
+        <select
+          value={status}
+          onChange={(e) => {
+            setStatus(e.target.value);
+            setCurrentPage(1);
+          }}
+          className="px-3 py-2 bg-gray-800 border border-gray-700 rounded-lg text-white text-sm"
+        >
+          <option value="pending">Pending</option>
+          <option value="approved">Approved</option>
+          <option value="denied">Denied</option>
+          <option value="all">All statuses</option>
+        </select>
+        <select
+          value={subjectType}
+          onChange={(e) => {
+            setSubjectType(e.target.value);
+            setCurrentPage(1);
+          }}
+          className="px-3 py-2 bg-gray-800 border border-gray-700 rounded-lg text-white text-sm"
+        >
+          <option value="all">All appeals</option>
+          <option value="ban">Account bans</option>
+          <option value="moderation_item">Rejected content</option>
+        </select>
+      </div>
+
+      {error && (
+        <div className="rounded-md bg-red-900/50 p-4">
+          <p className="text-sm text-red-300">{error}</p>
+        </div>
+      )}
+
+      {loading ? (
+        <div className="flex justify-center items-center py-12">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-indigo-600"></div>
+        </div>
+      ) : appeals.length === 0 ? (
+        <div className="bg-gray-800 rounded-lg p-8 border border-gray-700 text-center">
+          <h3 className="text-lg font-semibold text-white mb-2">No Appeals</h3>
+          <p className="text-gray-400">
+            {status === 'pending' ? 'No appeals are waiting for review.' : `No ${status} appeals found.`}
+          </p>
+        </div>
+      ) : (
+        <div className="space-y-4">
+          {appeals.map((appeal) => (
+            <AppealCard
+              key={appeal.id}
+              appeal={appeal}
+              currentUserId={user?.id}
+              onDecide={(decision, reason) => handleDecide(appeal.id, decision, reason)}
+            />
+          ))}
+        </div>
+      )}
+
+      {totalPages > 1 && (
+        <div className="flex items-center justify-between">
+          <button
+            onClick={() => setCurrentPage(page => Math.max(1, page - 1))}
+            disabled={currentPage === 1}
+            className="flex items-center px-3 py-1.5 bg-gray-800 border border-gray-700 text-gray-300 rounded-lg hover:bg-gray-700 disabled:opacity-50 disabled:cursor-not-allowed text-sm"
+          >
+            <ChevronLeft className="h-4 w-4 mr-1" />
+            Previous
+          </button>
+          <span className="text-sm text-gray-400">
+            Page {currentPage} of {totalPages}
+          </span>
+          <button
+            onClick={() => setCurrentPage(page => Math.min(totalPages, page + 1))}
+            disabled={currentPage === totalPages}
+            className="flex items-center px-3 py-1.5 bg-gray-800 border border-gray-700 text-gray-300 rounded-lg hover:bg-gray-700 disabled:opacity-50 disabled:cursor-not-allowed text-sm"
+          >
+            Next
+            <ChevronRight className="h-4 w-4 ml-1" />
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
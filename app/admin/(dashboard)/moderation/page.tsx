@@ -1,255 +1,286 @@
 'use client';
 
-import { useState, useEffect } from 'react';
-import { Filter, Clock, CheckCircle, XCircle, AlertTriangle, Eye } from 'lucide-react';
-
-interface ContentItem {
-  id: string;
-  type: 'questionnaire' | 'email' | 'feedback' | 'report';
-  userId: string;
-  userName: string;
-  userEmail: string;
-  content: string;
-  submittedAt: string;
-  status: 'pending' | 'approved' | 'rejected' | 'flagged';
-  priority: 'low' | 'medium' | 'high';
-  reason?: string;
-}
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import Link from 'next/link';
+import { Filter, ChevronLeft, ChevronRight, Scale } from 'lucide-react';
+import ContentFilters from '@/components/moderation/ContentFilters';
+import ContentReviewCard from '@/components/moderation/ContentReviewCard';
+import ModerationStats from '@/components/moderation/ModerationStats';
+import { usePermissions } from '@/hooks/usePermissions';
+import { useAdminPresence } from '@/hooks/useAdminPresence';
+import { presenceManager } from '@/lib/realtime/presence';
+import type {
+  ModerationAction,
+  ModerationItem,
+  ModerationListResponse,
+  ModerationQueueStats,
+} from '@/lib/admin/moderation';
+
+const EMPTY_STATS: ModerationQueueStats = {
+  pending: 0,
+  approved: 0,
+  rejected: 0,
+  flagged: 0,
+  todayReviewed: 0,
+  avgReviewTime: '-',
+};
 
 export default function ModerationPage() {
-  const [items, setItems] = useState<ContentItem[]>([]);
+  const [items, setItems] = useState<ModerationItem[]>([]);
+  const [stats, setStats] = useState<ModerationQueueStats>(EMPTY_STATS);
   const [loading, setLoading] = useState(true);
-  const [filterType, setFilterType] = useState('all');
-  const [filterStatus, setFilterStatus] = useState('pending');
+  const [error, setError] = useState<string | null>(null);
+  const [filters, setFilters] = useState({
+    type: 'all',
+    status: 'pending',
+    sortBy: 'date',
+  });
+  const [currentPage, setCurrentPage] = useState(1);
+  const [totalPages, setTotalPages] = useState(1);
+  const [totalItems, setTotalItems] = useState(0);
+  const itemsPerPage = 20;
+
+  const { user, role, hasPermission } = usePermissions();
+  const canAssign = hasPermission('moderation', 'assign');
+  const { onlineAdmins } = useAdminPresence({
+    userId: user?.id || '',
+    email: user?.email || '',
+    role: role || '',
+    enabled: !!user,
+  });
+
+  // Online moderators are the candidates a supervisor can hand items to
+  const assignees = useMemo(() => {
+    const unique = new Map<string, { id: string; email: string }>();
+    onlineAdmins.forEach(admin => unique.set(admin.user_id, { id: admin.user_id, email: admin.email }));
+    return Array.from(unique.values());
+  }, [onlineAdmins]);
+
+  // Re-evaluated whenever a presence sync updates onlineAdmins
+  const reviewersFor = (itemId: string) =>
+    presenceManager.getReviewers(itemId).map(admin => admin.email);
 
+  // Stop advertising a review when leaving the page
   useEffect(() => {
-    fetchModerationItems();
-  }, [filterType, filterStatus]);
+    return () => {
+      presenceManager.setReviewingItem(null);
+    };
+  }, []);
 
-  const fetchModerationItems = async () => {
+  const fetchModerationItems = useCallback(async () => {
     setLoading(true);
+    setError(null);
     try {
-      // TODO: Replace with actual API call
-      setTimeout(() => {
-        setItems([
-          {
-            id: '1',
-            type: 'questionnaire',
-            userId: '1',
-            userName: 'John Doe',
-            userEmail: 'john@example.com',
-            content: 'Sample questionnaire response that might contain inappropriate content...',
-            submittedAt: new Date().toISOString(),
-            status: 'pending',
-            priority: 'medium',
-          },
-          {
-            id: '2',
-            type: 'feedback',
-            userId: '2',
-            userName: 'Jane Smith',
-            userEmail: 'jane@example.com',
-            content: 'User feedback about the platform experience...',
-            submittedAt: new Date(Date.now() - 3600000).toISOString(),
-            status: 'pending',
-            priority: 'low',
-          },
-        ]);
-        setLoading(false);
-      }, 500);
+      const params = new URLSearchParams({
+        page: currentPage.toString(),
+        limit: itemsPerPage.toString(),
+        type: filters.type,
+        status: filters.status,
+        sortBy: filters.sortBy,
+      });
+
+      if (canAssign) {
+        params.set('includeClaimed', 'true');
+      }
+
+      const response = await fetch(`/api/admin/moderation?${params}`);
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.error || 'Failed to load moderation queue');
+      }
+
+      const data: ModerationListResponse = await response.json();
+      setItems(data.items);
+      setStats(data.stats);
+      setTotalPages(Math.max(1, data.pagination.totalPages));
+      setTotalItems(data.pagination.total);
     } catch (error) {
       console.error('Error fetching moderation items:', error);
+      setError(error instanceof Error ? error.message : 'Failed to load moderation queue');
+    } finally {
       setLoading(false);
     }
-  };
+  }, [currentPage, filters, canAssign]);
 
-  const handleApprove = async (id: string) => {
-    // TODO: API call to approve content
-    setItems(items.map(item =>
-      item.id === id ? { ...item, status: 'approved' as const } : item
-    ));
-  };
+  useEffect(() => {
+    fetchModerationItems();
+  }, [fetchModerationItems]);
 
-  const handleReject = async (id: string) => {
-    // TODO: API call to reject content
-    setItems(items.map(item =>
-      item.id === id ? { ...item, status: 'rejected' as const } : item
-    ));
-  };
+  const handleModerate = async (id: string, action: ModerationAction, reason?: string) => {
+    try {
+      const response = await fetch(`/api/admin/moderation/${id}/${action}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ reason }),
+      });
 
-  const handleFlag = async (id: string) => {
-    // TODO: API call to flag content
-    setItems(items.map(item =>
-      item.id === id ? { ...item, status: 'flagged' as const } : item
-    ));
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.error || `Failed to ${action} content`);
+      }
+
+      await presenceManager.setReviewingItem(null);
+
+      // Refetch so the queue and counters reflect the persisted decision
+      await fetchModerationItems();
+    } catch (error) {
+      console.error(`Error applying moderation action "${action}":`, error);
+      setError(error instanceof Error ? error.message : `Failed to ${action} content`);
+    }
   };
 
-  const getTypeColor = (type: ContentItem['type']) => {
-    const colors = {
-      questionnaire: 'bg-blue-500',
-      email: 'bg-purple-500',
-      feedback: 'bg-green-500',
-      report: 'bg-red-500',
-    };
-    return colors[type];
+  const handleClaim = async (id: string) => {
+    try {
+      const response = await fetch(`/api/admin/moderation/${id}/claim`, { method: 'POST' });
+
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.error || 'Failed to claim content');
+      }
+
+      await presenceManager.setReviewingItem(id);
+      await fetchModerationItems();
+    } catch (error) {
+      console.error('Error claiming moderation item:', error);
+      setError(error instanceof Error ? error.message : 'Failed to claim content');
+    }
   };
 
-  const getPriorityColor = (priority: ContentItem['priority']) => {
-    const colors = {
-      low: 'text-gray-400',
-      medium: 'text-yellow-400',
-      high: 'text-red-400',
-    };
-    return colors[priority];
+  const handleRelease = async (id: string) => {
+    try {
+      const response = await fetch(`/api/admin/moderation/${id}/claim`, { method: 'DELETE' });
+
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.error || 'Failed to release content');
+      }
+
+      await presenceManager.setReviewingItem(null);
+      await fetchModerationItems();
+    } catch (error) {
+      console.error('Error releasing moderation item:', error);
+      setError(error instanceof Error ? error.message : 'Failed to release content');
+    }
   };
 
-  const getStatusIcon = (status: ContentItem['status']) => {
-    switch (status) {
-      case 'approved':
-        return <CheckCircle className="h-5 w-5 text-green-400" />;
-      case 'rejected':
-        return <XCircle className="h-5 w-5 text-red-400" />;
-      case 'flagged':
-        return <AlertTriangle className="h-5 w-5 text-yellow-400" />;
-      default:
-        return <Clock className="h-5 w-5 text-gray-400" />;
+  const handleAssign = async (id: string, assignee: { id: string; email: string }) => {
+    try {
+      const response = await fetch(`/api/admin/moderation/${id}/assign`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ assigneeId: assignee.id }),
+      });
+
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.error || 'Failed to assign content');
+      }
+
+      await fetchModerationItems();
+    } catch (error) {
+      console.error('Error assigning moderation item:', error);
+      setError(error instanceof Error ? error.message : 'Failed to assign content');
     }
   };
 
-  const filteredItems = items.filter(item => {
-    if (filterType !== 'all' && item.type !== filterType) return false;
-    if (filterStatus !== 'all' && item.status !== filterStatus) return false;
-    return true;
-  });
+  const handleFilterChange = (newFilters: typeof filters) => {
+    setFilters(newFilters);
+    setCurrentPage(1);
+  };
 
   return (
     <div className="space-y-6">
-      <div>
-        <h1 className="text-2xl font-bold text-white">Content Moderation</h1>
-        <p className="text-gray-400 mt-1">Review and moderate user-generated content</p>
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-white">Content Moderation</h1>
+          <p className="text-gray-400 mt-1">Review and moderate user-generated content</p>
+        </div>
+        <Link
+          href="/admin/moderation/appeals"
+          className="flex items-center px-3 py-1.5 bg-gray-800 border border-gray-700 text-gray-300 rounded-lg hover:bg-gray-700 text-sm"
+        >
+          <Scale className="h-4 w-4 mr-1" />
+          Appeals queue
+          {stats.appeals && stats.appeals.pending > 0 && (
+            <span className="ml-2 px-2 py-0.5 bg-indigo-600 text-white text-xs rounded-full">
+              {stats.appeals.pending}
+            </span>
+          )}
+        </Link>
       </div>
 
-      {/* Filters */}
-      <div className="flex flex-col sm:flex-row gap-4">
-        <select
-          value={filterType}
-          onChange={(e) => setFilterType(e.target.value)}
-          className="px-4 py-2 bg-gray-800 border border-gray-700 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-indigo-500"
-        >
-          <option value="all">All Types</option>
-          <option value="questionnaire">Questionnaires</option>
-          <option value="email">Emails</option>
-          <option value="feedback">Feedback</option>
-          <option value="report">Reports</option>
-        </select>
-        <select
-          value={filterStatus}
-          onChange={(e) => setFilterStatus(e.target.value)}
-          className="px-4 py-2 bg-gray-800 border border-gray-700 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-indigo-500"
-        >
-          <option value="all">All Status</option>
-          <option value="pending">Pending</option>
-          <option value="approved">Approved</option>
-          <option value="rejected">Rejected</option>
-          <option value="flagged">Flagged</option>
-        </select>
-        <div className="flex items-center space-x-2 text-sm text-gray-400">
-          <Filter className="h-4 w-4" />
-          <span>{filteredItems.length} items to review</span>
-        </div>
+      <ModerationStats stats={stats} />
+
+      <ContentFilters filters={filters} onFilterChange={handleFilterChange} />
+
+      <div className="flex items-center space-x-2 text-sm text-gray-400">
+        <Filter className="h-4 w-4" />
+        <span>{totalItems} items matching filters</span>
       </div>
 
+      {error && (
+        <div className="rounded-md bg-red-900/50 p-4">
+          <p className="text-sm text-red-300">{error}</p>
+        </div>
+      )}
+
       {/* Content Cards */}
       {loading ? (
         <div className="flex justify-center items-center py-12">
           <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-indigo-600"></div>
         </div>
-      ) : filteredItems.length === 0 ? (
+      ) : items.length === 0 ? (
         <div className="bg-gray-800 rounded-lg p-8 border border-gray-700 text-center">
           <h3 className="text-lg font-semibold text-white mb-2">No Content to Review</h3>
           <p className="text-gray-400">
-            {filterStatus === 'pending'
+            {filters.status === 'pending'
               ? 'No content requires moderation at this time.'
-              : `No ${filterStatus} content found with current filters.`}
+              : `No ${filters.status} content found with current filters.`}
           </p>
         </div>
       ) : (
         <div className="space-y-4">
-          {filteredItems.map((item) => (
-            <div key={item.id} className="bg-gray-800 rounded-lg border border-gray-700 p-6">
-              <div className="flex items-start justify-between mb-4">
-                <div className="flex items-start space-x-3">
-                  <div className={`h-2 w-2 rounded-full mt-2 ${getTypeColor(item.type)}`} />
-                  <div>
-                    <div className="flex items-center space-x-2">
-                      <h3 className="text-white font-medium">{item.userName}</h3>
-                      <span className="text-gray-500">•</span>
-                      <span className="text-gray-400 text-sm">{item.userEmail}</span>
-                    </div>
-                    <div className="flex items-center space-x-2 mt-1">
-                      <span className="text-xs text-gray-500">
-                        {item.type.charAt(0).toUpperCase() + item.type.slice(1)}
-                      </span>
-                      <span className="text-gray-500">•</span>
-                      <span className={`text-xs ${getPriorityColor(item.priority)}`}>
-                        {item.priority.toUpperCase()} Priority
-                      </span>
-                      <span className="text-gray-500">•</span>
-                      <span className="text-xs text-gray-500">
-                        {new Date(item.submittedAt).toLocaleString()}
-                      </span>
-                    </div>
-                  </div>
-                </div>
-                <div className="flex items-center space-x-2">
-                  {getStatusIcon(item.status)}
-                  <span className="text-sm text-gray-400 capitalize">{item.status}</span>
-                </div>
-              </div>
-
-              <div className="bg-gray-900/50 rounded-lg p-4 mb-4">
-                <p className="text-gray-300 text-sm">{item.content}</p>
-              </div>
-
-              {item.status === 'pending' && (
-                <div className="flex items-center justify-between">
-                  <button className="text-sm text-indigo-400 hover:text-indigo-300 flex items-center space-x-1">
-                    <Eye className="h-4 w-4" />
-                    <span>View Full Content</span>
-                  </button>
-                  <div className="flex items-center space-x-2">
-                    <button
-                      onClick={() => handleApprove(item.id)}
-                      className="px-3 py-1.5 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors text-sm"
-                    >
-                      Approve
-                    </button>
-                    <button
-                      onClick={() => handleFlag(item.id)}
-                      className="px-3 py-1.5 bg-yellow-600 text-white rounded-lg hover:bg-yellow-700 transition-colors text-sm"
-                    >
-                      Flag
-                    </button>
-                    <button
-                      onClick={() => handleReject(item.id)}
-                      className="px-3 py-1.5 bg-red-600 text-white rounded-lg hover:bg-red-700 transition-colors text-sm"
-                    >
-                      Reject
-                    </button>
-                  </div>
-                </div>
-              )}
-
-              {item.reason && (
-                <div className="mt-4 p-3 bg-gray-900/50 rounded-lg">
-                  <p className="text-xs text-gray-500">Moderation Note:</p>
-                  <p className="text-sm text-gray-400">{item.reason}</p>
-                </div>
-              )}
-            </div>
+          {items.map((item) => (
+            <ContentReviewCard
+              key={item.id}
+              content={item}
+              onApprove={(reason) => handleModerate(item.id, 'approve', reason)}
+              onReject={(reason) => handleModerate(item.id, 'reject', reason)}
+              onFlag={(reason) => handleModerate(item.id, 'flag', reason)}
+              currentUserId={user?.id}
+              reviewers={reviewersFor(item.id)}
+              onClaim={() => handleClaim(item.id)}
+              onRelease={() => handleRelease(item.id)}
+              assignees={canAssign ? assignees : undefined}
+              onAssign={(assignee) => handleAssign(item.id, assignee)}
+            />
           ))}
         </div>
       )}
+
+      {totalPages > 1 && (
+        <div className="flex items-center justify-between">
+          <button
+            onClick={() => setCurrentPage(page => Math.max(1, page - 1))}
+            disabled={currentPage === 1}
+            className="flex items-center px-3 py-1.5 bg-gray-800 border border-gray-700 text-gray-300 rounded-lg hover:bg-gray-700 disabled:opacity-50 disabled:cursor-not-allowed text-sm"
+          >
+            <ChevronLeft className="h-4 w-4 mr-1" />
+            Previous
+          </button>
+          <span className="text-sm text-gray-400">
+            Page {currentPage} of {totalPages}
+          </span>
+          <button
+            onClick={() => setCurrentPage(page => Math.min(totalPages, page + 1))}
+            disabled={currentPage === totalPages}
+            className="flex items-center px-3 py-1.5 bg-gray-800 border border-gray-700 text-gray-300 rounded-lg hover:bg-gray-700 disabled:opacity-50 disabled:cursor-not-allowed text-sm"
+          >
+            Next
+            <ChevronRight className="h-4 w-4 ml-1" />
+          </button>
+        </div>
+      )}
     </div>
   );
-}
\ No newline at end of file
+}
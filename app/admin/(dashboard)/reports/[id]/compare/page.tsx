@@ -0,0 +1,39 @@
+'use client'
+
+import Link from 'next/link'
+import { useParams } from 'next/navigation'
+import { ArrowLeft, History } from 'lucide-react'
+import { ExecutionComparison } from '@/components/reports/ExecutionComparison'
+
+export default function CompareReportRunsPage() {
+  const { id } = useParams<{ id: string }>()
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-white">Compare Runs</h1>
+          <p className="text-gray-400 mt-1">How the numbers moved between two runs, and whether the report changed</p>
+        </div>
+        <div className="flex space-x-2">
+          <Link
+            href={`/admin/reports/${id}/history`}
+            className="flex items-center px-3 py-1.5 bg-gray-800 border border-gray-700 text-gray-300 rounded-lg hover:bg-gray-700 text-sm"
+          >
+            <History className="h-4 w-4 mr-1" />
+            History
+          </Link>
+          <Link
+            href="/admin/reports"
+            className="flex items-center px-3 py-1.5 bg-gray-800 border border-gray-700 text-gray-300 rounded-lg hover:bg-gray-700 text-sm"
+          >
+            <ArrowLeft className="h-4 w-4 mr-1" />
+            Reports
+          </Link>
+        </div>
+      </div>
+
+      <ExecutionComparison reportId={id} />
+    </div>
+  )
+}
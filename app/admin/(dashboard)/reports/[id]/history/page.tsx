@@ -0,0 +1,60 @@
+'use client'
+
+import { useCallback, useState } from 'react'
+import Link from 'next/link'
+import { useParams } from 'next/navigation'
+import { ArrowLeft, GitCompare } from 'lucide-react'
+import { ReportVersionHistory } from '@/components/reports/ReportVersionHistory'
+
+export default function ReportHistoryPage() {
+  const { id } = useParams<{ id: string }>()
+  const [templateId, setTemplateId] = useState<string | null>(null)
+  // Restoring the report can point it at another template
+  const [templateKey, setTemplateKey] = useState(0)
+
+  const handleReportLoad = useCallback((data: { templateId?: string | null }) => {
+    setTemplateId(data.templateId || null)
+  }, [])
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-white">Report History</h1>
+          <p className="text-gray-400 mt-1">Every change to this report and its template, with rollback</p>
+        </div>
+        <div className="flex space-x-2">
+          <Link
+            href={`/admin/reports/${id}/compare`}
+            className="flex items-center px-3 py-1.5 bg-gray-800 border border-gray-700 text-gray-300 rounded-lg hover:bg-gray-700 text-sm"
+          >
+            <GitCompare className="h-4 w-4 mr-1" />
+            Compare runs
+          </Link>
+          <Link
+            href="/admin/reports"
+            className="flex items-center px-3 py-1.5 bg-gray-800 border border-gray-700 text-gray-300 rounded-lg hover:bg-gray-700 text-sm"
+          >
+            <ArrowLeft className="h-4 w-4 mr-1" />
+            Reports
+          </Link>
+        </div>
+      </div>
+
+      <ReportVersionHistory
+        title="Report definition"
+        endpoint={`/api/admin/reports/${id}/versions`}
+        onLoad={handleReportLoad}
+        onRolledBack={() => setTemplateKey(key => key + 1)}
+      />
+
+      {templateId && (
+        <ReportVersionHistory
+          key={`${templateId}-${templateKey}`}
+          title="Template"
+          endpoint={`/api/admin/reports/templates/${templateId}/versions`}
+        />
+      )}
+    </div>
+  )
+}
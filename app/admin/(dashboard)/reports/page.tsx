@@ -3,8 +3,8 @@
 import { useState } from 'react'
 import { ReportGenerator } from '@/components/reports/ReportGenerator'
 import { ScheduledReports, ScheduledReport } from '@/components/reports/ScheduledReports'
-import { ReportBuilder } from '@/components/reports/ReportBuilder'
-import { downloadData, prepareTableData, formatDate, formatNumber } from '@/lib/export-utils'
+import { ReportBuilder, ReportQuery, ReportTestResult } from '@/components/reports/ReportBuilder'
+import { downloadData, prepareTableData, formatDate } from '@/lib/export-utils'
 import { ExportFormat } from '@/components/admin/ExportButton'
 
 type TabType = 'generate' | 'scheduled' | 'builder'
@@ -83,12 +83,32 @@ export default function ReportsPage() {
     setScheduledReports(reports => reports.filter(r => r.id !== id))
   }
 
-  const handleTestQuery = async (query: any) => {
-    return generateMockQueryResults()
+  const handleTestQuery = async (query: ReportQuery): Promise<ReportTestResult> => {
+    const response = await fetch('/api/admin/reports/builder/preview', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ query })
+    })
+    const data = await response.json().catch(() => ({}))
+
+    if (!response.ok) {
+      throw new Error([data.error || 'Failed to test query', ...(data.details || [])].join('\n'))
+    }
+
+    return { rows: data.rows, truncated: data.truncated, sql: data.sql }
   }
 
-  const handleSaveReport = (query: any) => {
-    console.log('Saving report query:', query)
+  const handleSaveReport = async (query: ReportQuery) => {
+    const response = await fetch('/api/admin/reports/templates', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ query })
+    })
+
+    if (!response.ok) {
+      const data = await response.json().catch(() => ({}))
+      throw new Error([data.error || 'Failed to save report', ...(data.details || [])].join('\n'))
+    }
   }
 
   const tabs = [
@@ -192,17 +212,6 @@ function generateMockData(reportType: string) {
   return data
 }
 
-function generateMockQueryResults() {
-  return Array.from({ length: 10 }, (_, i) => ({
-    id: `USR-${1000 + i}`,
-    email: `user${i + 1}@example.com`,
-    created_at: formatDate(new Date(Date.now() - Math.random() * 90 * 24 * 60 * 60 * 1000)),
-    last_login: formatDate(new Date(Date.now() - Math.random() * 7 * 24 * 60 * 60 * 1000)),
-    status: Math.random() > 0.8 ? 'inactive' : 'active',
-    total_spent: formatNumber(Math.random() * 10000, { decimals: 2, prefix: '$' })
-  }))
-}
-
 function calculateNextRun(frequency: string): string {
   const now = new Date()
   switch (frequency) {
@@ -0,0 +1,224 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { formatDistanceToNow } from 'date-fns';
+import { Monitor, ShieldCheck, ShieldAlert, LogOut, Users } from 'lucide-react';
+import { usePermissions } from '@/hooks/usePermissions';
+import type { LoginSessionSummary } from '@/lib/auth/session';
+
+export default function SessionsPage() {
+  const { hasPermission } = usePermissions();
+  const canManageAdmins = hasPermission('admins', 'update');
+
+  const [sessions, setSessions] = useState<LoginSessionSummary[]>([]);
+  const [allSessions, setAllSessions] = useState<LoginSessionSummary[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [pending, setPending] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchSessions();
+  }, [canManageAdmins]);
+
+  const fetchSessions = async () => {
+    setLoading(true);
+    try {
+      const [own, all] = await Promise.all([
+        fetchJson('/api/admin/auth/sessions'),
+        canManageAdmins ? fetchJson('/api/admin/admins/sessions') : Promise.resolve({ sessions: [] }),
+      ]);
+      setSessions(own.sessions);
+      setAllSessions(all.sessions);
+      setError(null);
+    } catch (error) {
+      console.error('Error fetching sessions:', error);
+      setError(error instanceof Error ? error.message : 'Failed to load sessions');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const revoke = async (key: string, url: string, confirmation: string) => {
+    if (!confirm(confirmation)) return;
+
+    setPending(key);
+    try {
+      const response = await fetch(url, { method: 'DELETE' });
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok) throw new Error(data.error || 'Failed to sign out');
+
+      // This browser was among the revoked sessions
+      if (data.signedOut || url === '/api/admin/auth/sessions') {
+        window.location.href = '/admin/login';
+        return;
+      }
+
+      await fetchSessions();
+    } catch (error) {
+      console.error('Error revoking session:', error);
+      setError(error instanceof Error ? error.message : 'Failed to sign out');
+    } finally {
+      setPending(null);
+    }
+  };
+
+  // Other admins' sessions, grouped by admin
+  const byAdmin = allSessions.reduce<Record<string, LoginSessionSummary[]>>((groups, session) => {
+    (groups[session.adminUserId] ||= []).push(session);
+    return groups;
+  }, {});
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-indigo-500" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold text-white">My Sessions</h1>
+          <p className="text-gray-400 text-sm mt-1">
+            Browsers and devices signed in to your account
+          </p>
+        </div>
+        <button
+          onClick={() => revoke('all', '/api/admin/auth/sessions', 'Sign out of every session, including this one?')}
+          disabled={pending !== null}
+          className="flex items-center space-x-2 px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 transition-colors disabled:opacity-50"
+        >
+          <LogOut className="h-4 w-4" />
+          <span>{pending === 'all' ? 'Signing out...' : 'Sign out everywhere'}</span>
+        </button>
+      </div>
+
+      {error && (
+        <div className="rounded-md bg-red-900/50 p-4">
+          <p className="text-sm text-red-300">{error}</p>
+        </div>
+      )}
+
+      <div className="bg-gray-800 rounded-lg">
+        <SessionList
+          sessions={sessions}
+          pending={pending}
+          onRevoke={(session) => revoke(
+            session.id,
+            `/api/admin/auth/sessions/${session.id}`,
+            session.current ? 'Sign out of this browser?' : `Sign out ${session.device || 'this session'}?`
+          )}
+        />
+      </div>
+
+      {canManageAdmins && (
+        <div className="space-y-4">
+          <h2 className="text-lg font-semibold text-white flex items-center space-x-2">
+            <Users className="h-5 w-5" />
+            <span>All Admin Sessions</span>
+          </h2>
+
+          {Object.keys(byAdmin).length === 0 ? (
+            <p className="text-gray-400 text-sm">No admin is signed in.</p>
+          ) : Object.entries(byAdmin).map(([adminUserId, adminSessions]) => (
+            <div key={adminUserId} className="bg-gray-800 rounded-lg">
+              <div className="flex items-center justify-between px-4 py-3 border-b border-gray-700">
+                <p className="text-white font-medium">{adminSessions[0].adminEmail || adminUserId}</p>
+                <button
+                  onClick={() => revoke(
+                    `admin:${adminUserId}`,
+                    `/api/admin/admins/${adminUserId}/sessions`,
+                    `Sign ${adminSessions[0].adminEmail || 'this admin'} out of all ${adminSessions.length} session(s)?`
+                  )}
+                  disabled={pending !== null}
+                  className="text-sm text-red-400 hover:text-red-300 disabled:opacity-50"
+                >
+                  {pending === `admin:${adminUserId}` ? 'Signing out...' : 'Sign out everywhere'}
+                </button>
+              </div>
+              <SessionList
+                sessions={adminSessions}
+                pending={pending}
+                onRevoke={(session) => revoke(
+                  session.id,
+                  `/api/admin/admins/sessions/${session.id}`,
+                  `Revoke ${session.device || 'this session'} for ${session.adminEmail || 'this admin'}?`
+                )}
+              />
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+function SessionList({
+  sessions,
+  pending,
+  onRevoke,
+}: {
+  sessions: LoginSessionSummary[];
+  pending: string | null;
+  onRevoke: (session: LoginSessionSummary) => void;
+}) {
+  if (sessions.length === 0) {
+    return <p className="p-4 text-gray-400 text-sm">No active sessions.</p>;
+  }
+
+  return (
+    <ul className="divide-y divide-gray-700">
+      {sessions.map((session) => (
+        <li key={session.id} className="flex items-center justify-between p-4">
+          <div className="flex items-start space-x-3">
+            <Monitor className="h-5 w-5 text-gray-400 mt-0.5" />
+            <div>
+              <p className="text-sm text-white">
+                {session.device || 'Unknown device'}
+                {session.current && (
+                  <span className="ml-2 px-2 py-0.5 text-xs rounded-full bg-green-900/50 text-green-300">This browser</span>
+                )}
+              </p>
+              <p className="text-xs text-gray-400 mt-1">
+                {session.ipAddress || 'Unknown IP'}
+                {' · '}signed in {formatDistanceToNow(new Date(session.createdAt), { addSuffix: true })}
+                {' · '}active {formatDistanceToNow(new Date(session.lastActiveAt), { addSuffix: true })}
+              </p>
+              <p className="text-xs mt-1 flex items-center space-x-1">
+                {session.twoFactorVerified ? (
+                  <>
+                    <ShieldCheck className="h-3 w-3 text-green-400" />
+                    <span className="text-green-400">
+                      Verified with {session.twoFactorMethod === 'webauthn' ? 'passkey' : session.twoFactorMethod === 'backup_code' ? 'backup code' : 'authenticator app'}
+                    </span>
+                  </>
+                ) : (
+                  <>
+                    <ShieldAlert className="h-3 w-3 text-yellow-400" />
+                    <span className="text-yellow-400">Password only</span>
+                  </>
+                )}
+              </p>
+            </div>
+          </div>
+          <button
+            onClick={() => onRevoke(session)}
+            disabled={pending !== null}
+            className="text-sm text-red-400 hover:text-red-300 disabled:opacity-50"
+          >
+            {pending === session.id ? 'Signing out...' : 'Sign out'}
+          </button>
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+async function fetchJson(url: string): Promise<any> {
+  const response = await fetch(url);
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok) throw new Error(data.error || 'Failed to load sessions');
+  return data;
+}
@@ -1,10 +1,18 @@
 'use client';
 
 import { useState } from 'react';
-import { Save, Bell, Shield, Mail, Globe, Database, Key } from 'lucide-react';
+import { Save, Bell, Shield, Mail, Globe, Database, Key, Flag, UserCog } from 'lucide-react';
+import ModerationRulesSettings from '@/components/settings/ModerationRulesSettings';
+import TwoFactorSettings from '@/components/settings/TwoFactorSettings';
+import PasskeySettings from '@/components/settings/PasskeySettings';
+import LoginLockoutSettings from '@/components/settings/LoginLockoutSettings';
+import AdminInvites from '@/components/settings/AdminInvites';
+import RolesSettings from '@/components/settings/RolesSettings';
+import { usePermissions } from '@/hooks/usePermissions';
 
 export default function SettingsPage() {
   const [activeTab, setActiveTab] = useState('general');
+  const { hasPermission } = usePermissions();
 
   const tabs = [
     { id: 'general', label: 'General', icon: Globe },
@@ -12,6 +20,8 @@ export default function SettingsPage() {
     { id: 'notifications', label: 'Notifications', icon: Bell },
     { id: 'email', label: 'Email', icon: Mail },
     { id: 'database', label: 'Database', icon: Database },
+    { id: 'moderation', label: 'Moderation', icon: Flag },
+    ...(hasPermission('admins', 'read') ? [{ id: 'roles', label: 'Roles', icon: UserCog }] : []),
   ];
 
   return (
@@ -97,6 +107,12 @@ export default function SettingsPage() {
             <h3 className="text-lg font-semibold text-white mb-4">Security Settings</h3>
 
             <div className="space-y-4">
+              <TwoFactorSettings />
+
+              <PasskeySettings />
+
+              {hasPermission('admins', 'update') && <LoginLockoutSettings />}
+
               <div className="flex items-center justify-between p-4 bg-gray-700/50 rounded-lg">
                 <div>
                   <p className="text-white font-medium">Two-Factor Authentication</p>
@@ -293,12 +309,25 @@ export default function SettingsPage() {
           </div>
         )}
 
-        <div className="mt-8 pt-6 border-t border-gray-700 flex justify-end">
-          <button className="flex items-center space-x-2 px-4 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 transition-colors">
-            <Save className="h-4 w-4" />
-            <span>Save Changes</span>
-          </button>
-        </div>
+        {activeTab === 'moderation' && <ModerationRulesSettings />}
+
+        {activeTab === 'roles' && (
+          <div className="space-y-8">
+            <RolesSettings />
+
+            {hasPermission('admins', 'create') && <AdminInvites />}
+          </div>
+        )}
+
+        {/* The moderation and roles tabs save their own changes */}
+        {activeTab !== 'moderation' && activeTab !== 'roles' && (
+          <div className="mt-8 pt-6 border-t border-gray-700 flex justify-end">
+            <button className="flex items-center space-x-2 px-4 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 transition-colors">
+              <Save className="h-4 w-4" />
+              <span>Save Changes</span>
+            </button>
+          </div>
+        )}
       </div>
     </div>
   );
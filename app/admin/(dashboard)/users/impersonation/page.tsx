@@ -0,0 +1,176 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import Link from 'next/link';
+import { Eye, User, FileText, Calendar, CheckCircle, Circle } from 'lucide-react';
+import type { ImpersonatedView } from '@/lib/admin/impersonation';
+
+export default function ImpersonationViewPage() {
+  const [view, setView] = useState<ImpersonatedView | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [expandedResponse, setExpandedResponse] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchView();
+  }, []);
+
+  const fetchView = async () => {
+    setLoading(true);
+    try {
+      const response = await fetch('/api/admin/impersonation/view');
+      const data = await response.json();
+      if (response.ok) {
+        setView(data);
+        setError(null);
+      } else {
+        setError(data.error || 'Failed to load user view');
+      }
+    } catch (error) {
+      console.error('Error fetching impersonated view:', error);
+      setError('Failed to load user view');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-indigo-500" />
+      </div>
+    );
+  }
+
+  if (error || !view) {
+    return (
+      <div className="bg-gray-800 rounded-lg p-6 text-center space-y-3">
+        <Eye className="h-8 w-8 text-gray-500 mx-auto" />
+        <p className="text-gray-300">{error || 'No active impersonation session'}</p>
+        <Link href="/admin/users" className="text-indigo-400 hover:text-indigo-300 text-sm">
+          Back to users
+        </Link>
+      </div>
+    );
+  }
+
+  const { user, questionnaireResponses, session } = view;
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold text-white">
+          {user.firstName || user.lastName ? `${user.firstName} ${user.lastName}`.trim() : user.email}
+        </h1>
+        <p className="text-gray-400 text-sm mt-1">
+          What this user sees in VowNow. Reason: {session.reason}
+        </p>
+      </div>
+
+      {/* Account */}
+      <div className="bg-gray-800 rounded-lg p-6">
+        <h2 className="text-lg font-semibold text-white flex items-center space-x-2 mb-4">
+          <User className="h-5 w-5" />
+          <span>Account</span>
+        </h2>
+        <dl className="grid grid-cols-1 md:grid-cols-3 gap-4 text-sm">
+          <div>
+            <dt className="text-gray-400">Email</dt>
+            <dd className="text-white">{user.email}</dd>
+          </div>
+          <div>
+            <dt className="text-gray-400">Plan</dt>
+            <dd className="text-white capitalize">{user.plan}</dd>
+          </div>
+          <div>
+            <dt className="text-gray-400">Status</dt>
+            <dd className="text-white">{user.isActive ? 'Active' : 'Inactive'}</dd>
+          </div>
+          <div>
+            <dt className="text-gray-400">Email verified</dt>
+            <dd className="text-white">{user.emailVerified ? 'Yes' : 'No'}</dd>
+          </div>
+          <div>
+            <dt className="text-gray-400">Profile completeness</dt>
+            <dd className="text-white">{user.profileCompleteness}%</dd>
+          </div>
+          <div>
+            <dt className="text-gray-400">Joined</dt>
+            <dd className="text-white">{new Date(user.createdAt).toLocaleDateString()}</dd>
+          </div>
+        </dl>
+      </div>
+
+      {/* Profile */}
+      <div className="bg-gray-800 rounded-lg p-6">
+        <h2 className="text-lg font-semibold text-white mb-4">Profile</h2>
+        <dl className="grid grid-cols-1 md:grid-cols-2 gap-4 text-sm">
+          {(['age', 'gender', 'location', 'occupation'] as const).map((field) => (
+            <div key={field}>
+              <dt className="text-gray-400 capitalize">{field}</dt>
+              <dd className="text-white">{user.profile[field] ?? 'Not set'}</dd>
+            </div>
+          ))}
+          <div className="md:col-span-2">
+            <dt className="text-gray-400">Bio</dt>
+            <dd className="text-white whitespace-pre-wrap">{user.profile.bio || 'Not set'}</dd>
+          </div>
+          <div className="md:col-span-2">
+            <dt className="text-gray-400">Interests</dt>
+            <dd className="flex flex-wrap gap-2 mt-1">
+              {user.profile.interests.length > 0 ? user.profile.interests.map((interest) => (
+                <span key={interest} className="px-2 py-1 bg-gray-700 text-gray-200 rounded text-xs">
+                  {interest}
+                </span>
+              )) : <span className="text-white">None</span>}
+            </dd>
+          </div>
+        </dl>
+      </div>
+
+      {/* Questionnaire responses */}
+      <div className="bg-gray-800 rounded-lg p-6">
+        <h2 className="text-lg font-semibold text-white flex items-center space-x-2 mb-4">
+          <FileText className="h-5 w-5" />
+          <span>Questionnaire Responses</span>
+        </h2>
+        {questionnaireResponses.length === 0 ? (
+          <p className="text-gray-400 text-sm">This user has not answered any questionnaires.</p>
+        ) : (
+          <div className="space-y-2">
+            {questionnaireResponses.map((response) => (
+              <div key={response.id} className="bg-gray-700/50 rounded-lg">
+                <button
+                  onClick={() => setExpandedResponse(expandedResponse === response.id ? null : response.id)}
+                  className="w-full flex items-center justify-between p-3 text-left"
+                >
+                  <div className="flex items-center space-x-3">
+                    {response.completed
+                      ? <CheckCircle className="h-4 w-4 text-green-400" />
+                      : <Circle className="h-4 w-4 text-yellow-400" />}
+                    <div>
+                      <p className="text-sm text-white">{response.title}</p>
+                      <p className="text-xs text-gray-400 capitalize">{response.category}</p>
+                    </div>
+                  </div>
+                  <div className="flex items-center space-x-4 text-xs text-gray-400">
+                    {response.score !== null && <span>Score {response.score}</span>}
+                    <span className="flex items-center space-x-1">
+                      <Calendar className="h-3 w-3" />
+                      <span>{new Date(response.createdAt).toLocaleDateString()}</span>
+                    </span>
+                  </div>
+                </button>
+                {expandedResponse === response.id && (
+                  <pre className="px-3 pb-3 text-xs text-gray-300 overflow-x-auto whitespace-pre-wrap">
+                    {JSON.stringify(response.responses, null, 2)}
+                  </pre>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -4,6 +4,7 @@ import { useState, useEffect } from 'react';
 import { Search, Download } from 'lucide-react';
 import UserTable, { User } from '@/components/admin/users/UserTable';
 import UserDetailsModal from '@/components/admin/users/UserDetailsModal';
+import { usePermissions } from '@/hooks/usePermissions';
 
 export default function UsersPage() {
   const [users, setUsers] = useState<User[]>([]);
@@ -15,6 +16,7 @@ export default function UsersPage() {
   const [selectedUser, setSelectedUser] = useState<User | null>(null);
   const [modalOpen, setModalOpen] = useState(false);
   const itemsPerPage = 10;
+  const { hasPermission } = usePermissions();
 
   useEffect(() => {
     fetchUsers();
@@ -93,6 +95,22 @@ export default function UsersPage() {
     }
   };
 
+  const handleImpersonate = async (userId: string, reason: string) => {
+    const response = await fetch('/api/admin/impersonation', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ userId, reason }),
+    });
+
+    if (!response.ok) {
+      const data = await response.json().catch(() => ({}));
+      throw new Error(data.error || 'Failed to start impersonation');
+    }
+
+    // Full navigation so the dashboard layout picks up the session banner
+    window.location.assign('/admin/users/impersonation');
+  };
+
   const handleEmailUser = (userId: string) => {
     const user = users.find(u => u.id === userId);
     if (user) {
@@ -202,6 +220,7 @@ export default function UsersPage() {
         onUnbanUser={handleUnbanUser}
         onChangeRole={handleChangeRole}
         onEmailUser={handleEmailUser}
+        onImpersonate={hasPermission('users', 'impersonate') ? handleImpersonate : undefined}
       />
     </div>
   );
@@ -0,0 +1,43 @@
+import { NextResponse } from 'next/server';
+import { PERMISSIONS } from '@/lib/auth/rbac';
+import { withAdminRoute, readJsonBody } from '@/lib/api/route-handler';
+import { updateAdminAccess, validateAdminAccessInput } from '@/lib/admin/roles';
+
+export const PUT = withAdminRoute<{ id: string }>({
+  name: 'update admin access API',
+  permissions: [PERMISSIONS.ADMINS_ROLES],
+}, async ({ request, session, params }) => {
+  const { id: adminId } = params;
+
+  if (!isValidUUID(adminId)) {
+    return NextResponse.json({ error: 'Invalid admin ID format' }, { status: 400 });
+  }
+
+  const validation = validateAdminAccessInput(await readJsonBody(request));
+  if (!validation.isValid || !validation.input) {
+    return NextResponse.json(
+      { error: 'Invalid permissions', details: validation.errors },
+      { status: 400 }
+    );
+  }
+
+  const result = await updateAdminAccess(adminId, validation.input, {
+    id: session.user.id,
+    email: session.user.email,
+    role: session.user.role,
+    permissions: session.permissions,
+    ipAddress: request.headers.get('x-forwarded-for'),
+    userAgent: request.headers.get('user-agent'),
+  });
+
+  if (!result.success) {
+    return NextResponse.json({ error: result.error }, { status: result.status || 500 });
+  }
+
+  return NextResponse.json({ success: true, admin: result.admin, diff: result.diff });
+});
+
+function isValidUUID(str: string): boolean {
+  const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
+  return uuidRegex.test(str);
+}
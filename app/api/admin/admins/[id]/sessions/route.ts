@@ -0,0 +1,40 @@
+import { NextResponse } from 'next/server';
+import { PERMISSIONS } from '@/lib/auth/rbac';
+import { withAdminRoute } from '@/lib/api/route-handler';
+import { ServerSessionManager } from '@/lib/auth/session';
+import { revokeAllLoginSessions } from '@/lib/admin/login-sessions';
+
+// Sign an admin out everywhere, e.g. after a suspected compromise
+export const DELETE = withAdminRoute<{ id: string }>({
+  name: 'revoke admin sessions API',
+  permissions: [PERMISSIONS.ADMINS_UPDATE],
+}, async ({ request, session, params }) => {
+  const { id: adminId } = params;
+
+  if (!isValidUUID(adminId)) {
+    return NextResponse.json({ error: 'Invalid admin ID format' }, { status: 400 });
+  }
+
+  const result = await revokeAllLoginSessions(adminId, {
+    id: session.user.id,
+    email: session.user.email,
+    sessionId: session.sessionId,
+    ipAddress: request.headers.get('x-forwarded-for'),
+    userAgent: request.headers.get('user-agent'),
+  });
+
+  if (!result.success) {
+    return NextResponse.json({ error: result.error }, { status: result.status || 500 });
+  }
+
+  if (result.includesCurrent) {
+    await ServerSessionManager.clearSession();
+  }
+
+  return NextResponse.json({ success: true, revoked: result.revoked, signedOut: !!result.includesCurrent });
+});
+
+function isValidUUID(str: string): boolean {
+  const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
+  return uuidRegex.test(str);
+}
@@ -0,0 +1,35 @@
+import { NextResponse } from 'next/server';
+import { PERMISSIONS } from '@/lib/auth/rbac';
+import { withAdminRoute } from '@/lib/api/route-handler';
+import { revokeAdminInvite } from '@/lib/admin/invites';
+
+export const DELETE = withAdminRoute<{ id: string }>({
+  name: 'revoke admin invite API',
+  permissions: [PERMISSIONS.ADMINS_CREATE],
+}, async ({ request, session, params }) => {
+  const { id: inviteId } = params;
+
+  if (!isValidUUID(inviteId)) {
+    return NextResponse.json({ error: 'Invalid invite ID format' }, { status: 400 });
+  }
+
+  const result = await revokeAdminInvite(inviteId, {
+    id: session.user.id,
+    email: session.user.email,
+    permissions: session.permissions,
+    sessionId: session.sessionId,
+    ipAddress: request.headers.get('x-forwarded-for'),
+    userAgent: request.headers.get('user-agent'),
+  });
+
+  if (!result.success) {
+    return NextResponse.json({ error: result.error }, { status: result.status || 500 });
+  }
+
+  return NextResponse.json({ success: true, invite: result.invite });
+});
+
+function isValidUUID(str: string): boolean {
+  const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
+  return uuidRegex.test(str);
+}
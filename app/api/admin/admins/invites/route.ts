@@ -0,0 +1,43 @@
+import { NextResponse } from 'next/server';
+import { PERMISSIONS } from '@/lib/auth/rbac';
+import { withAdminRoute, readJsonBody } from '@/lib/api/route-handler';
+import { createAdminInvite, fetchAdminInvites, validateAdminInviteInput } from '@/lib/admin/invites';
+
+export const GET = withAdminRoute({
+  name: 'admin invites API',
+  permissions: [PERMISSIONS.ADMINS_READ],
+}, async () => {
+  const invites = await fetchAdminInvites();
+  return NextResponse.json({ invites });
+});
+
+export const POST = withAdminRoute({
+  name: 'create admin invite API',
+  permissions: [PERMISSIONS.ADMINS_CREATE],
+}, async ({ request, session }) => {
+  const validation = validateAdminInviteInput(await readJsonBody(request));
+  if (!validation.isValid || !validation.input) {
+    return NextResponse.json(
+      { error: 'Invalid invite', details: validation.errors },
+      { status: 400 }
+    );
+  }
+
+  const result = await createAdminInvite(validation.input, {
+    id: session.user.id,
+    email: session.user.email,
+    permissions: session.permissions,
+    sessionId: session.sessionId,
+    ipAddress: request.headers.get('x-forwarded-for'),
+    userAgent: request.headers.get('user-agent'),
+  });
+
+  if (!result.success) {
+    return NextResponse.json({ error: result.error }, { status: result.status || 500 });
+  }
+
+  return NextResponse.json(
+    { success: true, invite: result.invite, emailSent: result.emailSent, inviteUrl: result.inviteUrl },
+    { status: 201 }
+  );
+});
@@ -0,0 +1,33 @@
+import { NextResponse } from 'next/server';
+import { PERMISSIONS } from '@/lib/auth/rbac';
+import { withAdminRoute } from '@/lib/api/route-handler';
+import { unlockLogin } from '@/lib/admin/login-lockout';
+
+export const POST = withAdminRoute<{ id: string }>({
+  name: 'unlock login API',
+  permissions: [PERMISSIONS.ADMINS_UPDATE],
+}, async ({ request, session, params }) => {
+  const { id: lockoutId } = params;
+
+  if (!isValidUUID(lockoutId)) {
+    return NextResponse.json({ error: 'Invalid lockout ID format' }, { status: 400 });
+  }
+
+  const result = await unlockLogin(lockoutId, {
+    id: session.user.id,
+    email: session.user.email,
+    ipAddress: request.headers.get('x-forwarded-for'),
+    userAgent: request.headers.get('user-agent'),
+  });
+
+  if (!result.success) {
+    return NextResponse.json({ error: result.error }, { status: result.status || 500 });
+  }
+
+  return NextResponse.json({ success: true, lockout: result.lockout });
+});
+
+function isValidUUID(str: string): boolean {
+  const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
+  return uuidRegex.test(str);
+}
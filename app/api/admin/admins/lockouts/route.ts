@@ -0,0 +1,16 @@
+import { NextResponse } from 'next/server';
+import { PERMISSIONS } from '@/lib/auth/rbac';
+import { withAdminRoute } from '@/lib/api/route-handler';
+import { fetchActiveLockouts, getLockoutPolicy } from '@/lib/admin/login-lockout';
+
+export const GET = withAdminRoute({
+  name: 'login lockouts API',
+  permissions: [PERMISSIONS.ADMINS_UPDATE],
+}, async () => {
+  const [lockouts, policy] = await Promise.all([
+    fetchActiveLockouts(),
+    getLockoutPolicy(),
+  ]);
+
+  return NextResponse.json({ lockouts, policy });
+});
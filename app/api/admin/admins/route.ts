@@ -0,0 +1,12 @@
+import { NextResponse } from 'next/server';
+import { PERMISSIONS } from '@/lib/auth/rbac';
+import { withAdminRoute } from '@/lib/api/route-handler';
+import { fetchAdminAccessEntries } from '@/lib/admin/roles';
+
+export const GET = withAdminRoute({
+  name: 'admins API',
+  permissions: [PERMISSIONS.ADMINS_READ],
+}, async () => {
+  const admins = await fetchAdminAccessEntries();
+  return NextResponse.json({ admins });
+});
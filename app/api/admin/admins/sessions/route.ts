@@ -0,0 +1,15 @@
+import { NextResponse } from 'next/server';
+import { PERMISSIONS } from '@/lib/auth/rbac';
+import { withAdminRoute } from '@/lib/api/route-handler';
+import { ServerSessionManager } from '@/lib/auth/session';
+
+export const GET = withAdminRoute({
+  name: 'admin login sessions API',
+  permissions: [PERMISSIONS.ADMINS_UPDATE],
+}, async ({ session }) => {
+  const sessions = await ServerSessionManager.listLoginSessions();
+
+  return NextResponse.json({
+    sessions: sessions.map(loginSession => ({ ...loginSession, current: loginSession.id === session.sessionId })),
+  });
+});
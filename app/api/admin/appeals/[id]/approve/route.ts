@@ -0,0 +1,48 @@
+import { NextResponse } from 'next/server';
+import { PERMISSIONS } from '@/lib/auth/rbac';
+import { withAdminRoute } from '@/lib/api/route-handler';
+import { invalidateCacheTags } from '@/lib/api/cache';
+import { decideAppeal } from '@/lib/admin/appeals';
+
+export const POST = withAdminRoute<{ id: string }>({
+  name: 'approve appeal API',
+  permissions: [PERMISSIONS.MODERATION_REVIEW],
+  invalidates: ['users', 'analytics'],
+}, async ({ request, session, params }) => {
+  const { id: appealId } = params;
+
+  if (!isValidUUID(appealId)) {
+    return NextResponse.json({ error: 'Invalid appeal ID format' }, { status: 400 });
+  }
+
+  let reason: string | undefined;
+  try {
+    const body = await request.json();
+    reason = typeof body.reason === 'string' && body.reason.trim() ? body.reason.trim() : undefined;
+  } catch {
+    // Body is optional
+  }
+
+  const result = await decideAppeal(appealId, 'approve', {
+    id: session.user.id,
+    email: session.user.email,
+    ipAddress: request.headers.get('x-forwarded-for'),
+    userAgent: request.headers.get('user-agent'),
+  }, reason);
+
+  if (!result.success) {
+    return NextResponse.json({ error: result.error }, { status: result.status || 500 });
+  }
+
+  // The appellant is only known once the appeal is loaded
+  if (result.appeal) {
+    await invalidateCacheTags([`user:${result.appeal.user.id}`]);
+  }
+
+  return NextResponse.json({ success: true, appeal: result.appeal });
+});
+
+function isValidUUID(str: string): boolean {
+  const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
+  return uuidRegex.test(str);
+}
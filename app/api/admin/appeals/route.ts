@@ -0,0 +1,34 @@
+import { NextResponse } from 'next/server';
+import { PERMISSIONS } from '@/lib/auth/rbac';
+import { withAdminRoute } from '@/lib/api/route-handler';
+import { fetchAppeals, validateAppealFilters } from '@/lib/admin/appeals';
+
+export const GET = withAdminRoute({
+  name: 'appeals queue API',
+  permissions: [PERMISSIONS.MODERATION_READ],
+}, async ({ request }) => {
+  const { searchParams } = new URL(request.url);
+  const page = parseInt(searchParams.get('page') || '1');
+  const limit = parseInt(searchParams.get('limit') || '20');
+  const status = searchParams.get('status') || undefined;
+  const subjectType = searchParams.get('subjectType') || undefined;
+
+  const filters = {
+    page,
+    limit,
+    status,
+    subjectType,
+  };
+
+  // Validate filters
+  const validation = await validateAppealFilters(filters);
+  if (!validation.isValid) {
+    return NextResponse.json(
+      { error: validation.errors?.[0] || 'Invalid filter parameters' },
+      { status: 400 }
+    );
+  }
+
+  const result = await fetchAppeals(filters);
+  return NextResponse.json(result);
+});
@@ -0,0 +1,46 @@
+import { NextResponse } from 'next/server';
+import { TwoFactorManager } from '@/lib/auth/2fa';
+import { ServerSessionManager } from '@/lib/auth/session';
+import { recordAuditLog } from '@/lib/admin/audit-logs';
+import { withAdminRoute } from '@/lib/api/route-handler';
+
+export const POST = withAdminRoute({
+  name: '2FA confirm API',
+  rateLimit: 'auth',
+  allowTwoFactorSetup: true,
+}, async ({ request, session }) => {
+  let code: string | undefined;
+  try {
+    const body = await request.json();
+    code = typeof body.code === 'string' ? body.code.trim() : undefined;
+  } catch {
+    // Missing or invalid JSON body
+  }
+
+  if (!code || !/^\d{6}$/.test(code)) {
+    return NextResponse.json(
+      { error: 'A six-digit verification code is required' },
+      { status: 400 }
+    );
+  }
+
+  const result = await TwoFactorManager.confirmEnrollment(session.user.id, code);
+
+  if (!result.success) {
+    return NextResponse.json({ error: result.error }, { status: 400 });
+  }
+
+  // Enrolling counts as verifying for the current session
+  await ServerSessionManager.markLoginSessionVerified(session.user.id, 'totp');
+
+  await recordAuditLog({
+    adminUserId: session.user.id,
+    action: 'two_factor_enable',
+    resourceType: 'admin_users',
+    resourceId: session.user.id,
+    ipAddress: request.headers.get('x-forwarded-for'),
+    userAgent: request.headers.get('user-agent'),
+  });
+
+  return NextResponse.json({ success: true, backupCodes: result.backupCodes });
+});
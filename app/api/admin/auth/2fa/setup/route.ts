@@ -0,0 +1,30 @@
+import { NextResponse } from 'next/server';
+import { TwoFactorManager } from '@/lib/auth/2fa';
+import { withAdminRoute } from '@/lib/api/route-handler';
+
+export const POST = withAdminRoute({
+  name: '2FA setup API',
+  rateLimit: 'auth',
+  allowTwoFactorSetup: true,
+}, async ({ session }) => {
+  const status = await TwoFactorManager.getTwoFactorStatus(session.user.id);
+
+  if (status.enabled) {
+    return NextResponse.json(
+      { error: '2FA is already enabled for this account' },
+      { status: 409 }
+    );
+  }
+
+  const enrollment = await TwoFactorManager.startEnrollment(session.user.id, session.user.email);
+
+  if (!enrollment.success) {
+    return NextResponse.json({ error: enrollment.error }, { status: 500 });
+  }
+
+  return NextResponse.json({
+    success: true,
+    qrCodeUrl: enrollment.qrCodeUrl,
+    manualEntryKey: enrollment.manualEntryKey,
+  });
+});
@@ -0,0 +1,26 @@
+import { NextResponse } from 'next/server';
+import { TwoFactorManager } from '@/lib/auth/2fa';
+import { WebAuthnManager } from '@/lib/auth/webauthn';
+import { withAdminRoute } from '@/lib/api/route-handler';
+
+export const GET = withAdminRoute({
+  name: '2FA status API',
+  allowTwoFactorSetup: true,
+}, async ({ session }) => {
+  const [status, required, passkeys] = await Promise.all([
+    TwoFactorManager.getTwoFactorStatus(session.user.id),
+    TwoFactorManager.isTwoFactorRequired(),
+    WebAuthnManager.listCredentials(session.user.id),
+  ]);
+
+  if (status.error) {
+    return NextResponse.json({ error: status.error }, { status: 500 });
+  }
+
+  return NextResponse.json({
+    enabled: status.enabled,
+    backupCodesRemaining: status.backupCodesRemaining,
+    required,
+    passkeys: passkeys.length,
+  });
+});
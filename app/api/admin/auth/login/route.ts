@@ -1,83 +1,179 @@
-import { NextRequest, NextResponse } from 'next/server';
+import { NextResponse } from 'next/server';
 import { createApiClient } from '@/lib/supabase/api';
 import { createServiceRoleClient } from '@/lib/supabase/server';
+import { TwoFactorManager } from '@/lib/auth/2fa';
+import { WebAuthnManager } from '@/lib/auth/webauthn';
+import { RBACManager } from '@/lib/auth/rbac';
+import { ServerSessionManager } from '@/lib/auth/session';
+import { PasswordPolicyManager } from '@/lib/auth/password-policy';
+import { withPublicRoute, readJsonBody } from '@/lib/api/route-handler';
+import { recordAuditLog } from '@/lib/admin/audit-logs';
+import {
+  checkLoginAllowed,
+  clearAccountFailures,
+  findAdminIdByEmail,
+  getLockoutPolicy,
+  recordLoginFailure,
+} from '@/lib/admin/login-lockout';
 
-export async function POST(request: NextRequest) {
-  try {
-    const { email, password } = await request.json();
+export const POST = withPublicRoute({
+  name: 'login API',
+  rateLimit: 'auth',
+}, async ({ request }) => {
+  const { email, password } = await readJsonBody(request);
 
-    if (!email || !password) {
-      return NextResponse.json(
-        { error: 'Email and password are required' },
-        { status: 400 }
-      );
-    }
+  if (typeof email !== 'string' || !email || !password) {
+    return NextResponse.json(
+      { error: 'Email and password are required' },
+      { status: 400 }
+    );
+  }
 
-    // Use route handler client to ensure cookies are properly set
-    const supabase = await createApiClient();
+  const ipAddress = getClientIp(request);
+  const userAgent = request.headers.get('user-agent');
 
-    const { data, error } = await supabase.auth.signInWithPassword({
-      email,
-      password,
-    });
+  // Locked or throttled attempts are refused without checking the password
+  const policy = await getLockoutPolicy();
+  const check = await checkLoginAllowed(email, ipAddress, policy);
 
-    if (error) {
-      return NextResponse.json(
-        { error: error.message },
-        { status: 401 }
-      );
+  if (!check.allowed) {
+    if (check.reason === 'locked') {
+      const adminUserId = await findAdminIdByEmail(email);
+      await recordAuditLog({
+        adminUserId,
+        action: 'login_blocked',
+        resourceType: 'admin_user',
+        resourceId: adminUserId,
+        metadata: { email, scope: check.scope, locked_until: check.lockedUntil },
+        ipAddress,
+        userAgent,
+        success: false,
+        errorMessage: check.scope === 'ip'
+          ? 'Too many failed sign-ins from this IP address'
+          : 'Account locked after too many failed sign-ins',
+      });
     }
 
-    if (!data.user) {
-      return NextResponse.json(
-        { error: 'User not found' },
-        { status: 401 }
-      );
-    }
+    return NextResponse.json(
+      {
+        error: check.reason === 'locked'
+          ? `Too many failed sign-in attempts. Try again in ${Math.ceil(check.retryAfterSeconds! / 60)} minute(s).`
+          : `Please wait ${check.retryAfterSeconds} second(s) before trying again.`,
+        retryAfter: check.retryAfterSeconds,
+      },
+      { status: 429, headers: { 'Retry-After': String(check.retryAfterSeconds) } }
+    );
+  }
 
-    // Use service role client to check admin role (bypasses RLS)
-    const adminSupabase = createServiceRoleClient();
-    const { data: profile } = await adminSupabase
-      .from('profiles')
-      .select('role, status')
-      .eq('id', data.user.id)
-      .single() as { data: { role: string; status: string } | null };
-
-    if (!profile || !['admin', 'super_admin'].includes(profile.role)) {
-      await supabase.auth.signOut();
-      return NextResponse.json(
-        { error: 'Unauthorized: Admin access only' },
-        { status: 401 }
-      );
-    }
+  // Use route handler client to ensure cookies are properly set
+  const supabase = await createApiClient();
+
+  const { data, error } = await supabase.auth.signInWithPassword({
+    email,
+    password,
+  });
 
-    if (profile.status !== 'active') {
-      await supabase.auth.signOut();
-      return NextResponse.json(
-        { error: 'Account deactivated' },
-        { status: 401 }
-      );
+  if (error) {
+    const adminUserId = await findAdminIdByEmail(email);
+    const failure = await recordLoginFailure(email, ipAddress, adminUserId, policy);
+
+    if (failure.locked.length > 0) {
+      await recordAuditLog({
+        adminUserId,
+        action: 'login_locked_out',
+        resourceType: 'admin_user',
+        resourceId: adminUserId,
+        metadata: { email, scopes: failure.locked, locked_until: failure.lockedUntil },
+        ipAddress,
+        userAgent,
+        success: false,
+        errorMessage: error.message,
+      });
     }
 
-    // Create response - cookies are handled by Supabase auth helpers
-    const response = NextResponse.json(
-      {
-        success: true,
-        user: {
-          id: data.user.id,
-          email: data.user.email,
-          role: profile.role
-        }
-      },
-      { status: 200 }
+    return NextResponse.json(
+      { error: error.message },
+      { status: 401 }
+    );
+  }
+
+  if (!data.user) {
+    return NextResponse.json(
+      { error: 'User not found' },
+      { status: 401 }
     );
+  }
 
-    return response;
-  } catch (error) {
-    console.error('Login error:', error);
+  // Use service role client to check admin role (bypasses RLS)
+  const adminSupabase = createServiceRoleClient();
+  const { data: adminUser } = await adminSupabase
+    .from('admin_users')
+    .select('role, is_active, password_changed_at, created_at')
+    .eq('id', data.user.id)
+    .single() as { data: { role: string; is_active: boolean; password_changed_at: string | null; created_at: string } | null };
+
+  // Any of the four admin roles may sign in; routes enforce what each can do
+  if (!adminUser || !RBACManager.isValidRole(adminUser.role)) {
+    await supabase.auth.signOut();
     return NextResponse.json(
-      { error: 'Internal server error' },
-      { status: 500 }
+      { error: 'Unauthorized: Admin access only' },
+      { status: 401 }
     );
   }
-}
\ No newline at end of file
+
+  if (!adminUser.is_active) {
+    await supabase.auth.signOut();
+    return NextResponse.json(
+      { error: 'Account deactivated' },
+      { status: 401 }
+    );
+  }
+
+  await clearAccountFailures(email);
+
+  // Unverified until the 2FA or passkey verify route marks it; the guard and
+  // middleware hold enrolled admins at the second factor until then
+  await ServerSessionManager.startLoginSession(data.user.id, { ipAddress, userAgent });
+
+  // Admins without 2FA must enroll before using the dashboard when it is required
+  const [twoFactorStatus, twoFactorRequired, hasPasskeys, passwordPolicy] = await Promise.all([
+    TwoFactorManager.getTwoFactorStatus(data.user.id),
+    TwoFactorManager.isTwoFactorRequired(),
+    WebAuthnManager.hasCredentials(data.user.id),
+    PasswordPolicyManager.getPolicy(),
+  ]);
+
+  const twoFactorMethods = [
+    ...(twoFactorStatus.enabled ? ['totp'] : []),
+    ...(hasPasskeys ? ['webauthn'] : []),
+  ];
+
+  // Create response - cookies are handled by Supabase auth helpers
+  const response = NextResponse.json(
+    {
+      success: true,
+      user: {
+        id: data.user.id,
+        email: data.user.email,
+        role: adminUser.role
+      },
+      requiresTwoFactorSetup: twoFactorRequired && twoFactorMethods.length === 0,
+      // Expired passwords must be changed before the dashboard will load
+      requiresPasswordChange: PasswordPolicyManager.getPasswordStatus(adminUser, passwordPolicy).expired,
+      // The 2FA and passkey verify routes finish this login session within five minutes
+      ...(twoFactorMethods.length > 0 ? { requiresTwoFactor: true, twoFactorMethods } : {}),
+    },
+    { status: 200 }
+  );
+
+  return response;
+});
+
+function getClientIp(request: Request): string | null {
+  const forwardedFor = request.headers.get('x-forwarded-for');
+  if (forwardedFor) {
+    return forwardedFor.split(',')[0].trim() || null;
+  }
+
+  return request.headers.get('x-real-ip');
+}
@@ -1,15 +1,10 @@
 import { NextResponse } from 'next/server';
 import { signOutAdmin } from '@/lib/admin/auth';
+import { withPublicRoute } from '@/lib/api/route-handler';
 
-export async function POST() {
-  try {
-    await signOutAdmin();
-    return NextResponse.json({ success: true });
-  } catch (error) {
-    console.error('Logout error:', error);
-    return NextResponse.json(
-      { error: 'Failed to logout' },
-      { status: 500 }
-    );
-  }
-}
\ No newline at end of file
+export const POST = withPublicRoute({
+  name: 'logout API',
+}, async () => {
+  await signOutAdmin();
+  return NextResponse.json({ success: true });
+});
\ No newline at end of file
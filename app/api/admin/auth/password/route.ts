@@ -0,0 +1,65 @@
+import { NextResponse } from 'next/server';
+import { withAdminRoute, readJsonBody } from '@/lib/api/route-handler';
+import { PasswordPolicyManager } from '@/lib/auth/password-policy';
+import { describePasswordPolicy } from '@/lib/auth/password-rules';
+import { changeAdminPassword, validatePasswordChangeInput } from '@/lib/admin/passwords';
+
+// The policy the new password must meet, and when the current one expires
+export const GET = withAdminRoute({
+  name: 'password policy API',
+  allowExpiredPassword: true,
+  allowTwoFactorSetup: true,
+}, async ({ session }) => {
+  const policy = await PasswordPolicyManager.getPolicy();
+
+  return NextResponse.json({
+    policy,
+    requirements: describePasswordPolicy(policy),
+    status: PasswordPolicyManager.getPasswordStatus(session.adminUser, policy),
+  });
+});
+
+export const POST = withAdminRoute({
+  name: 'change password API',
+  rateLimit: 'auth',
+  allowExpiredPassword: true,
+  allowTwoFactorSetup: true,
+}, async ({ request, session }) => {
+  const validation = validatePasswordChangeInput(await readJsonBody(request));
+  if (!validation.isValid || !validation.input) {
+    return NextResponse.json(
+      { error: 'Invalid request', details: validation.errors },
+      { status: 400 }
+    );
+  }
+
+  const result = await changeAdminPassword(validation.input, {
+    id: session.user.id,
+    email: session.user.email,
+    sessionId: session.sessionId,
+    ipAddress: getClientIp(request),
+    userAgent: request.headers.get('user-agent'),
+  });
+
+  if (!result.success) {
+    return NextResponse.json(
+      { error: result.error, details: result.errors },
+      {
+        status: result.status || 500,
+        headers: result.retryAfterSeconds ? { 'Retry-After': String(result.retryAfterSeconds) } : undefined,
+      }
+    );
+  }
+
+  return NextResponse.json({ success: true });
+});
+
+// Matches the login route, so wrong current passwords count against the same IP
+function getClientIp(request: Request): string | null {
+  const forwardedFor = request.headers.get('x-forwarded-for');
+  if (forwardedFor) {
+    return forwardedFor.split(',')[0].trim() || null;
+  }
+
+  return request.headers.get('x-real-ip');
+}
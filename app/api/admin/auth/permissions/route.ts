@@ -0,0 +1,18 @@
+import { NextResponse } from 'next/server';
+import { RBACManager } from '@/lib/auth/rbac';
+import { withAdminRoute } from '@/lib/api/route-handler';
+
+/**
+ * Effective permissions for the signed-in admin, as enforced server-side
+ */
+export const GET = withAdminRoute({
+  name: 'permissions API',
+}, async ({ session }) => {
+  return NextResponse.json({
+    role: session.user.role,
+    customRole: session.customRole,
+    overrides: RBACManager.normalizeOverrides(session.adminUser.permissions),
+    permissions: RBACManager.toKeys(session.permissions),
+    twoFactorVerified: session.twoFactorVerified,
+  });
+});
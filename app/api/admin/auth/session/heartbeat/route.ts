@@ -0,0 +1,23 @@
+import { NextResponse } from 'next/server';
+import { withAdminRoute } from '@/lib/api/route-handler';
+import { ServerSessionManager } from '@/lib/auth/session';
+
+// When the session times out, without counting as activity
+export const GET = withAdminRoute({
+  name: 'session status API',
+  allowExpiredPassword: true,
+  allowTwoFactorSetup: true,
+}, async ({ session }) => {
+  const status = await ServerSessionManager.getLoginSessionStatus(session.sessionId, session.user.id);
+  return NextResponse.json(status);
+});
+
+// "Stay signed in": middleware.ts records the write as activity before this runs
+export const POST = withAdminRoute({
+  name: 'session heartbeat API',
+  allowExpiredPassword: true,
+  allowTwoFactorSetup: true,
+}, async ({ session }) => {
+  const status = await ServerSessionManager.getLoginSessionStatus(session.sessionId, session.user.id);
+  return NextResponse.json(status);
+});
@@ -1,54 +1,46 @@
-import { NextRequest, NextResponse } from 'next/server';
+import { NextResponse } from 'next/server';
 import { ServerSessionManager } from '@/lib/auth/session';
+import { withPublicRoute } from '@/lib/api/route-handler';
 
-export async function GET(request: NextRequest) {
-  try {
-    // Get authorization header
-    const authHeader = request.headers.get('authorization');
-    const token = authHeader?.replace('Bearer ', '');
+export const GET = withPublicRoute({
+  name: 'session validation API',
+  rateLimit: 'adminApi',
+}, async ({ request }) => {
+  // Get authorization header
+  const authHeader = request.headers.get('authorization');
+  const token = authHeader?.replace('Bearer ', '');
 
-    if (!token) {
-      return NextResponse.json(
-        { error: 'No authorization token provided' },
-        { status: 401 }
-      );
-    }
-
-    // Validate session using our session manager
-    const sessionResult = await ServerSessionManager.getCurrentSession();
-
-    if (!sessionResult.success) {
-      return NextResponse.json(
-        {
-          valid: false,
-          error: sessionResult.error.error
-        },
-        { status: 401 }
-      );
-    }
-
-    const { user, adminUser, twoFactorVerified } = sessionResult.session;
+  if (!token) {
+    return NextResponse.json(
+      { error: 'No authorization token provided' },
+      { status: 401 }
+    );
+  }
 
-    // Return session validation response
-    return NextResponse.json({
-      valid: true,
-      user: {
-        id: user.id,
-        email: user.email,
-        role: adminUser.role,
-        twoFactorEnabled: adminUser.two_factor_enabled,
-        twoFactorVerified,
-      },
-    });
+  // Validate session using our session manager
+  const sessionResult = await ServerSessionManager.getCurrentSession();
 
-  } catch (error) {
-    console.error('Session validation error:', error);
+  if (!sessionResult.success) {
     return NextResponse.json(
       {
         valid: false,
-        error: 'Session validation failed'
+        error: sessionResult.error.error
       },
-      { status: 500 }
+      { status: 401 }
     );
   }
-}
\ No newline at end of file
+
+  const { user, adminUser, twoFactorVerified } = sessionResult.session;
+
+  // Return session validation response
+  return NextResponse.json({
+    valid: true,
+    user: {
+      id: user.id,
+      email: user.email,
+      role: adminUser.role,
+      twoFactorEnabled: adminUser.two_factor_enabled,
+      twoFactorVerified,
+    },
+  });
+});
\ No newline at end of file
@@ -0,0 +1,37 @@
+import { NextResponse } from 'next/server';
+import { withAdminRoute } from '@/lib/api/route-handler';
+import { ServerSessionManager } from '@/lib/auth/session';
+import { revokeLoginSession } from '@/lib/admin/login-sessions';
+
+export const DELETE = withAdminRoute<{ id: string }>({
+  name: 'revoke login session API',
+}, async ({ request, session, params }) => {
+  const { id: sessionId } = params;
+
+  if (!isValidUUID(sessionId)) {
+    return NextResponse.json({ error: 'Invalid session ID format' }, { status: 400 });
+  }
+
+  const result = await revokeLoginSession(sessionId, {
+    id: session.user.id,
+    email: session.user.email,
+    sessionId: session.sessionId,
+    ipAddress: request.headers.get('x-forwarded-for'),
+    userAgent: request.headers.get('user-agent'),
+  }, { ownOnly: true });
+
+  if (!result.success) {
+    return NextResponse.json({ error: result.error }, { status: result.status || 500 });
+  }
+
+  if (result.includesCurrent) {
+    await ServerSessionManager.clearSession();
+  }
+
+  return NextResponse.json({ success: true, signedOut: !!result.includesCurrent });
+});
+
+function isValidUUID(str: string): boolean {
+  const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
+  return uuidRegex.test(str);
+}
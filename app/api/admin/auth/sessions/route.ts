@@ -0,0 +1,35 @@
+import { NextResponse } from 'next/server';
+import { withAdminRoute } from '@/lib/api/route-handler';
+import { ServerSessionManager } from '@/lib/auth/session';
+import { revokeAllLoginSessions } from '@/lib/admin/login-sessions';
+
+export const GET = withAdminRoute({
+  name: 'login sessions API',
+}, async ({ session }) => {
+  const sessions = await ServerSessionManager.listLoginSessions(session.user.id);
+
+  return NextResponse.json({
+    sessions: sessions.map(loginSession => ({ ...loginSession, current: loginSession.id === session.sessionId })),
+  });
+});
+
+// Sign out everywhere, this browser included
+export const DELETE = withAdminRoute({
+  name: 'revoke login sessions API',
+}, async ({ request, session }) => {
+  const result = await revokeAllLoginSessions(session.user.id, {
+    id: session.user.id,
+    email: session.user.email,
+    sessionId: session.sessionId,
+    ipAddress: request.headers.get('x-forwarded-for'),
+    userAgent: request.headers.get('user-agent'),
+  });
+
+  if (!result.success) {
+    return NextResponse.json({ error: result.error }, { status: result.status || 500 });
+  }
+
+  await ServerSessionManager.clearSession();
+
+  return NextResponse.json({ success: true, revoked: result.revoked });
+});
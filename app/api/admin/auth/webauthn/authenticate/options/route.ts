@@ -0,0 +1,41 @@
+import { NextResponse } from 'next/server';
+import { WebAuthnManager } from '@/lib/auth/webauthn';
+import { ServerSessionManager } from '@/lib/auth/session';
+import { withPublicRoute } from '@/lib/api/route-handler';
+
+export const POST = withPublicRoute({
+  name: 'passkey authentication options API',
+  rateLimit: 'auth',
+}, async ({ request }) => {
+  let secondFactor = false;
+  try {
+    const body = await request.json();
+    secondFactor = body.secondFactor === true;
+  } catch {
+    // Body is optional
+  }
+
+  // As a second factor the challenge is bound to the admin who just entered their
+  // password; without one it is passwordless login
+  let userId: string | undefined;
+  if (secondFactor) {
+    const pendingUserId = await ServerSessionManager.getPendingTwoFactorUser();
+
+    if (!pendingUserId) {
+      return NextResponse.json(
+        { error: 'Sign-in expired. Please sign in again.' },
+        { status: 401 }
+      );
+    }
+
+    userId = pendingUserId;
+  }
+
+  const result = await WebAuthnManager.startAuthentication(userId);
+
+  if (!result.success) {
+    return NextResponse.json({ error: result.error }, { status: 400 });
+  }
+
+  return NextResponse.json({ challengeId: result.challengeId, options: result.options });
+});
@@ -0,0 +1,135 @@
+import { NextResponse } from 'next/server';
+import { WebAuthnManager } from '@/lib/auth/webauthn';
+import { createServiceRoleClient } from '@/lib/supabase/server';
+import { createApiClient } from '@/lib/supabase/api';
+import { ServerSessionManager } from '@/lib/auth/session';
+import { withPublicRoute, readJsonBody } from '@/lib/api/route-handler';
+
+export const POST = withPublicRoute({
+  name: 'passkey verification API',
+  rateLimit: 'auth',
+}, async ({ request }) => {
+  const { challengeId, response, secondFactor } = await readJsonBody(request);
+
+  if (!challengeId || !response) {
+    return NextResponse.json(
+      { error: 'Challenge ID and credential response are required' },
+      { status: 400 }
+    );
+  }
+
+  // The login session the password step started in this browser
+  let pendingUserId: string | null = null;
+  if (secondFactor) {
+    pendingUserId = await ServerSessionManager.getPendingTwoFactorUser();
+
+    if (!pendingUserId) {
+      return NextResponse.json(
+        { error: 'Sign-in expired. Please sign in again.' },
+        { status: 401 }
+      );
+    }
+  }
+
+  const result = await WebAuthnManager.finishAuthentication(challengeId, response);
+
+  if (!result.success || !result.userId) {
+    await ServerSessionManager.logAction('webauthn_verification_failed', {
+      reason: result.error,
+      userAgent: request.headers.get('user-agent') || 'unknown',
+      ip: request.headers.get('x-forwarded-for') || 'unknown',
+    });
+
+    return NextResponse.json(
+      { error: result.error || 'Passkey could not be verified' },
+      { status: 400 }
+    );
+  }
+
+  // A second-factor assertion must come from the admin who entered the password,
+  // and a passwordless one must not have been bound to anyone
+  if (pendingUserId ? pendingUserId !== result.userId || result.passwordless : !result.passwordless) {
+    return NextResponse.json(
+      { error: 'Passkey does not belong to this account' },
+      { status: 400 }
+    );
+  }
+
+  const supabase = createServiceRoleClient();
+
+  const { data: adminUser, error: userError } = await supabase
+    .from('admin_users')
+    .select('id, email, role, is_active')
+    .eq('id', result.userId)
+    .single() as { data: any; error: any };
+
+  if (userError || !adminUser) {
+    return NextResponse.json(
+      { error: 'User not found' },
+      { status: 404 }
+    );
+  }
+
+  if (!adminUser.is_active) {
+    return NextResponse.json(
+      { error: 'Account is deactivated' },
+      { status: 401 }
+    );
+  }
+
+  if (result.passwordless) {
+    // No password was entered, so establish the Supabase session from the passkey
+    const { data: link, error: linkError } = await supabase.auth.admin.generateLink({
+      type: 'magiclink',
+      email: adminUser.email,
+    });
+
+    if (linkError || !link.properties?.hashed_token) {
+      console.error('Error creating passwordless session link:', linkError);
+      return NextResponse.json(
+        { error: 'Failed to create session' },
+        { status: 500 }
+      );
+    }
+
+    const authClient = await createApiClient();
+    const { error: otpError } = await authClient.auth.verifyOtp({
+      type: 'magiclink',
+      token_hash: link.properties.hashed_token,
+    });
+
+    if (otpError) {
+      console.error('Error establishing passwordless session:', otpError);
+      return NextResponse.json(
+        { error: 'Failed to create session' },
+        { status: 500 }
+      );
+    }
+  }
+
+  if (result.passwordless) {
+    // A user-verified passkey satisfies both factors on its own
+    await ServerSessionManager.startLoginSession(adminUser.id, {
+      ipAddress: request.headers.get('x-forwarded-for')?.split(',')[0].trim() || null,
+      userAgent: request.headers.get('user-agent'),
+    }, { verified: true, method: 'webauthn' });
+  } else {
+    await ServerSessionManager.markLoginSessionVerified(adminUser.id, 'webauthn');
+  }
+
+  await ServerSessionManager.logAction('webauthn_verification_success', {
+    userId: adminUser.id,
+    passwordless: result.passwordless,
+    userAgent: request.headers.get('user-agent') || 'unknown',
+    ip: request.headers.get('x-forwarded-for') || 'unknown',
+  });
+
+  return NextResponse.json({
+    success: true,
+    user: {
+      id: adminUser.id,
+      email: adminUser.email,
+      role: adminUser.role,
+    },
+  });
+});
@@ -0,0 +1,39 @@
+import { NextResponse } from 'next/server';
+import { WebAuthnManager } from '@/lib/auth/webauthn';
+import { recordAuditLog } from '@/lib/admin/audit-logs';
+import { withAdminRoute } from '@/lib/api/route-handler';
+
+export const DELETE = withAdminRoute<{ id: string }>({
+  name: 'delete passkey API',
+}, async ({ request, session, params }) => {
+  const { id: credentialId } = params;
+
+  if (!isValidUUID(credentialId)) {
+    return NextResponse.json({ error: 'Invalid passkey ID format' }, { status: 400 });
+  }
+
+  const result = await WebAuthnManager.deleteCredential(session.user.id, credentialId);
+
+  if (!result.success) {
+    return NextResponse.json(
+      { error: result.error },
+      { status: result.error === 'Passkey not found' ? 404 : 500 }
+    );
+  }
+
+  await recordAuditLog({
+    adminUserId: session.user.id,
+    action: 'passkey_delete',
+    resourceType: 'admin_webauthn_credentials',
+    resourceId: credentialId,
+    ipAddress: request.headers.get('x-forwarded-for'),
+    userAgent: request.headers.get('user-agent'),
+  });
+
+  return NextResponse.json({ success: true });
+});
+
+function isValidUUID(str: string): boolean {
+  const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
+  return uuidRegex.test(str);
+}
@@ -0,0 +1,10 @@
+import { NextResponse } from 'next/server';
+import { WebAuthnManager } from '@/lib/auth/webauthn';
+import { withAdminRoute } from '@/lib/api/route-handler';
+
+export const GET = withAdminRoute({
+  name: 'passkeys API',
+}, async ({ session }) => {
+  const credentials = await WebAuthnManager.listCredentials(session.user.id);
+  return NextResponse.json({ credentials });
+});
@@ -0,0 +1,19 @@
+import { NextResponse } from 'next/server';
+import { WebAuthnManager } from '@/lib/auth/webauthn';
+import { withAdminRoute } from '@/lib/api/route-handler';
+
+export const POST = withAdminRoute({
+  name: 'passkey registration options API',
+  allowTwoFactorSetup: true,
+}, async ({ session }) => {
+  const result = await WebAuthnManager.startRegistration({
+    id: session.user.id,
+    email: session.user.email,
+  });
+
+  if (!result.success) {
+    return NextResponse.json({ error: result.error }, { status: 500 });
+  }
+
+  return NextResponse.json({ challengeId: result.challengeId, options: result.options });
+});
@@ -0,0 +1,45 @@
+import { NextResponse } from 'next/server';
+import { WebAuthnManager } from '@/lib/auth/webauthn';
+import { ServerSessionManager } from '@/lib/auth/session';
+import { recordAuditLog } from '@/lib/admin/audit-logs';
+import { withAdminRoute, readJsonBody } from '@/lib/api/route-handler';
+
+export const POST = withAdminRoute({
+  name: 'passkey registration verify API',
+  allowTwoFactorSetup: true,
+}, async ({ request, session }) => {
+  const { challengeId, response, name } = (await readJsonBody(request)) || {};
+
+  if (!challengeId || !response) {
+    return NextResponse.json(
+      { error: 'Challenge ID and credential response are required' },
+      { status: 400 }
+    );
+  }
+
+  const result = await WebAuthnManager.finishRegistration(
+    session.user.id,
+    challengeId,
+    response,
+    typeof name === 'string' ? name : undefined
+  );
+
+  if (!result.success) {
+    return NextResponse.json({ error: result.error }, { status: 400 });
+  }
+
+  // Enrolling counts as verifying for the current session
+  await ServerSessionManager.markLoginSessionVerified(session.user.id, 'webauthn');
+
+  await recordAuditLog({
+    adminUserId: session.user.id,
+    action: 'passkey_register',
+    resourceType: 'admin_webauthn_credentials',
+    resourceId: result.credential?.id,
+    newValues: { name: result.credential?.name },
+    ipAddress: request.headers.get('x-forwarded-for'),
+    userAgent: request.headers.get('user-agent'),
+  });
+
+  return NextResponse.json({ success: true, credential: result.credential });
+});
@@ -1,5 +1,6 @@
-import { NextRequest, NextResponse } from 'next/server';
-import { cookies } from 'next/headers';
+import { NextResponse } from 'next/server';
+import { PERMISSIONS } from '@/lib/auth/rbac';
+import { withAdminRoute } from '@/lib/api/route-handler';
 import { fetchDashboardStats } from '@/lib/analytics';
 import { DashboardStats } from '@/lib/analytics';
 
@@ -15,37 +16,27 @@ export interface MetricsResponse extends DashboardStats {
   };
 }
 
-export async function GET(request: NextRequest) {
-  try {
-    const cookieStore = await cookies();
-    const adminToken = cookieStore.get('admin_token');
-
-    if (!adminToken) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
-    }
-
-    const { searchParams } = new URL(request.url);
-    const startDate = searchParams.get('startDate');
-    const endDate = searchParams.get('endDate');
-
-    // For now, we'll use the existing fetchDashboardStats function
-    // In a real implementation, you'd modify it to accept date range parameters
-    const stats = await fetchDashboardStats();
-
-    const response: MetricsResponse = {
-      ...stats,
-      period: {
-        start: startDate || new Date(Date.now() - 30 * 24 * 60 * 60 * 1000).toISOString(),
-        end: endDate || new Date().toISOString(),
-      },
-    };
+export const GET = withAdminRoute({
+  name: 'dashboard metrics API',
+  permissions: [PERMISSIONS.ANALYTICS_READ],
+  rateLimit: 'analytics',
+  cache: { name: 'analytics', shared: true },
+}, async ({ request }) => {
+  const { searchParams } = new URL(request.url);
+  const startDate = searchParams.get('startDate');
+  const endDate = searchParams.get('endDate');
+
+  // For now, we'll use the existing fetchDashboardStats function
+  // In a real implementation, you'd modify it to accept date range parameters
+  const stats = await fetchDashboardStats();
+
+  const response: MetricsResponse = {
+    ...stats,
+    period: {
+      start: startDate || new Date(Date.now() - 30 * 24 * 60 * 60 * 1000).toISOString(),
+      end: endDate || new Date().toISOString(),
+    },
+  };
 
-    return NextResponse.json(response);
-  } catch (error) {
-    console.error('Error fetching dashboard metrics:', error);
-    return NextResponse.json(
-      { error: 'Failed to fetch dashboard metrics' },
-      { status: 500 }
-    );
-  }
-}
\ No newline at end of file
+  return NextResponse.json(response);
+});
@@ -0,0 +1,67 @@
+import { NextResponse } from 'next/server';
+import { PERMISSIONS } from '@/lib/auth/rbac';
+import { withAdminRoute } from '@/lib/api/route-handler';
+import {
+  deleteFilterPreset,
+  updateFilterPreset,
+  validateFilterPresetInput,
+} from '@/lib/admin/filter-presets';
+import { toScopeContext } from '@/lib/admin/scope';
+
+export const PUT = withAdminRoute<{ id: string }>({
+  name: 'update filter preset API',
+  permissions: [PERMISSIONS.PRESETS_UPDATE],
+}, async ({ request, session, params }) => {
+  const { id: presetId } = params;
+
+  if (!isValidUUID(presetId)) {
+    return NextResponse.json({ error: 'Invalid filter preset ID format' }, { status: 400 });
+  }
+
+  let body: any;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON in request body' }, { status: 400 });
+  }
+
+  const validation = validateFilterPresetInput(body);
+  if (!validation.isValid || !validation.input) {
+    return NextResponse.json(
+      { error: 'Invalid filter preset', details: validation.errors },
+      { status: 400 }
+    );
+  }
+
+  const result = await updateFilterPreset(presetId, validation.input, toScopeContext(session));
+
+  if (!result.success) {
+    return NextResponse.json({ error: result.error }, { status: result.status || 500 });
+  }
+
+  return NextResponse.json({ success: true, preset: result.preset });
+});
+
+export const DELETE = withAdminRoute<{ id: string }>({
+  name: 'delete filter preset API',
+  permissions: [PERMISSIONS.PRESETS_DELETE],
+}, async ({ session, params }) => {
+  const { id: presetId } = params;
+
+  if (!isValidUUID(presetId)) {
+    return NextResponse.json({ error: 'Invalid filter preset ID format' }, { status: 400 });
+  }
+
+  const result = await deleteFilterPreset(presetId, toScopeContext(session));
+
+  if (!result.success) {
+    return NextResponse.json({ error: result.error }, { status: result.status || 500 });
+  }
+
+  return NextResponse.json({ success: true });
+});
+
+function isValidUUID(str: string): boolean {
+  const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
+  return uuidRegex.test(str);
+}
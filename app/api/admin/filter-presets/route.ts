@@ -0,0 +1,48 @@
+import { NextResponse } from 'next/server';
+import { PERMISSIONS } from '@/lib/auth/rbac';
+import { withAdminRoute } from '@/lib/api/route-handler';
+import {
+  createFilterPreset,
+  fetchFilterPresets,
+  validateFilterPresetInput,
+} from '@/lib/admin/filter-presets';
+import { toScopeContext } from '@/lib/admin/scope';
+
+export const GET = withAdminRoute({
+  name: 'filter presets API',
+  permissions: [PERMISSIONS.PRESETS_READ],
+}, async ({ request, session }) => {
+  const { searchParams } = new URL(request.url);
+  const category = searchParams.get('category') || undefined;
+
+  const presets = await fetchFilterPresets(toScopeContext(session), category);
+  return NextResponse.json({ presets });
+});
+
+export const POST = withAdminRoute({
+  name: 'create filter preset API',
+  permissions: [PERMISSIONS.PRESETS_CREATE],
+}, async ({ request, session }) => {
+  let body: any;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON in request body' }, { status: 400 });
+  }
+
+  const validation = validateFilterPresetInput(body);
+  if (!validation.isValid || !validation.input) {
+    return NextResponse.json(
+      { error: 'Invalid filter preset', details: validation.errors },
+      { status: 400 }
+    );
+  }
+
+  const result = await createFilterPreset(validation.input, toScopeContext(session));
+
+  if (!result.success) {
+    return NextResponse.json({ error: result.error }, { status: result.status || 500 });
+  }
+
+  return NextResponse.json({ success: true, preset: result.preset }, { status: 201 });
+});
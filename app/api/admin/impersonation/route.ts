@@ -0,0 +1,86 @@
+import { NextResponse } from 'next/server';
+import { PERMISSIONS } from '@/lib/auth/rbac';
+import { withAdminRoute } from '@/lib/api/route-handler';
+import {
+  clearImpersonationCookie,
+  endImpersonation,
+  getImpersonationCookie,
+  setImpersonationCookie,
+  startImpersonation,
+  validateImpersonationInput,
+} from '@/lib/admin/impersonation';
+
+export const GET = withAdminRoute({
+  name: 'impersonation API',
+  permissions: [PERMISSIONS.USERS_IMPERSONATE],
+}, async ({ session }) => {
+  // Drop the cookie once its session has ended or expired
+  if (!session.impersonation && await getImpersonationCookie()) {
+    await clearImpersonationCookie();
+  }
+
+  return NextResponse.json({ impersonation: session.impersonation });
+});
+
+export const POST = withAdminRoute({
+  name: 'start impersonation API',
+  permissions: [PERMISSIONS.USERS_IMPERSONATE],
+}, async ({ request, session }) => {
+  let body;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json(
+      { error: 'Invalid JSON in request body' },
+      { status: 400 }
+    );
+  }
+
+  const validation = validateImpersonationInput(body);
+  if (!validation.isValid || !validation.input) {
+    return NextResponse.json(
+      { error: 'Invalid impersonation request', details: validation.errors },
+      { status: 400 }
+    );
+  }
+
+  const result = await startImpersonation(validation.input, {
+    id: session.user.id,
+    email: session.user.email,
+    ipAddress: request.headers.get('x-forwarded-for'),
+    userAgent: request.headers.get('user-agent'),
+  });
+
+  if (!result.success || !result.session) {
+    return NextResponse.json({ error: result.error }, { status: result.status || 500 });
+  }
+
+  await setImpersonationCookie(result.session);
+
+  return NextResponse.json({ success: true, impersonation: result.session }, { status: 201 });
+});
+
+// Any admin may end a session, even after losing the impersonate permission
+export const DELETE = withAdminRoute({
+  name: 'end impersonation API',
+}, async ({ request, session }) => {
+  const sessionId = await getImpersonationCookie();
+  if (!sessionId) {
+    return NextResponse.json({ success: true, impersonation: null });
+  }
+
+  const result = await endImpersonation(sessionId, {
+    id: session.user.id,
+    email: session.user.email,
+    ipAddress: request.headers.get('x-forwarded-for'),
+    userAgent: request.headers.get('user-agent'),
+  });
+
+  await clearImpersonationCookie();
+
+  if (!result.success) {
+    return NextResponse.json({ error: result.error }, { status: result.status || 500 });
+  }
+
+  return NextResponse.json({ success: true, impersonation: result.session });
+});
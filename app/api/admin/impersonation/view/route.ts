@@ -0,0 +1,24 @@
+import { NextResponse } from 'next/server';
+import { PERMISSIONS } from '@/lib/auth/rbac';
+import { withAdminRoute } from '@/lib/api/route-handler';
+import { fetchImpersonatedView } from '@/lib/admin/impersonation';
+
+export const GET = withAdminRoute({
+  name: 'impersonated view API',
+  permissions: [PERMISSIONS.USERS_IMPERSONATE],
+}, async ({ session }) => {
+  if (!session.impersonation) {
+    return NextResponse.json(
+      { error: 'No active impersonation session', code: 'IMPERSONATION_INACTIVE' },
+      { status: 404 }
+    );
+  }
+
+  const view = await fetchImpersonatedView(session.impersonation);
+
+  if (!view) {
+    return NextResponse.json({ error: 'User not found' }, { status: 404 });
+  }
+
+  return NextResponse.json(view);
+});
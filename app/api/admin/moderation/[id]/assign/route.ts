@@ -0,0 +1,56 @@
+import { NextResponse } from 'next/server';
+import { PERMISSIONS } from '@/lib/auth/rbac';
+import { withAdminRoute, readJsonBody } from '@/lib/api/route-handler';
+import { checkModerationAccess, reassignModerationItem } from '@/lib/admin/moderation';
+import { toScopeContext } from '@/lib/admin/scope';
+
+export const POST = withAdminRoute<{ id: string }>({
+  name: 'assign moderation item API',
+  permissions: [PERMISSIONS.MODERATION_ASSIGN],
+}, async ({ request, session, params }) => {
+  const { id: itemId } = params;
+
+  if (!isValidUUID(itemId)) {
+    return NextResponse.json({ error: 'Invalid moderation item ID format' }, { status: 400 });
+  }
+
+  const access = await checkModerationAccess(itemId, 'assign', toScopeContext(session));
+  if (!access.allowed) {
+    return NextResponse.json({ error: access.error }, { status: access.status || 403 });
+  }
+
+  const { assigneeId, ttlMinutes } = (await readJsonBody(request)) || {};
+
+  if (typeof assigneeId !== 'string' || !isValidUUID(assigneeId)) {
+    return NextResponse.json({ error: 'Invalid assignee ID format' }, { status: 400 });
+  }
+
+  const result = await reassignModerationItem(
+    itemId,
+    assigneeId,
+    {
+      id: session.user.id,
+      email: session.user.email,
+      ipAddress: request.headers.get('x-forwarded-for'),
+      userAgent: request.headers.get('user-agent'),
+    },
+    typeof ttlMinutes === 'number' ? ttlMinutes : undefined
+  );
+
+  if (!result.success) {
+    if (result.error === 'Moderation item not found') {
+      return NextResponse.json({ error: result.error }, { status: 404 });
+    }
+    if (result.conflict) {
+      return NextResponse.json({ error: result.error }, { status: 409 });
+    }
+    return NextResponse.json({ error: result.error }, { status: result.status || 500 });
+  }
+
+  return NextResponse.json({ success: true, claim: result.claim });
+});
+
+function isValidUUID(str: string): boolean {
+  const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
+  return uuidRegex.test(str);
+}
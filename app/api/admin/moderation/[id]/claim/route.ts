@@ -0,0 +1,86 @@
+import { NextResponse } from 'next/server';
+import { forbiddenResponse } from '@/lib/auth/guard';
+import { RBACManager, PERMISSIONS } from '@/lib/auth/rbac';
+import { checkModerationAccess, claimModerationItem, releaseModerationItem } from '@/lib/admin/moderation';
+import { toScopeContext } from '@/lib/admin/scope';
+import { withAdminRoute } from '@/lib/api/route-handler';
+
+export const POST = withAdminRoute<{ id: string }>({
+  name: 'claim moderation item API',
+  permissions: [PERMISSIONS.MODERATION_REVIEW],
+}, async ({ request, session, params }) => {
+  const { id: itemId } = params;
+
+  if (!isValidUUID(itemId)) {
+    return NextResponse.json({ error: 'Invalid moderation item ID format' }, { status: 400 });
+  }
+
+  const access = await checkModerationAccess(itemId, 'review', toScopeContext(session));
+  if (!access.allowed) {
+    return NextResponse.json({ error: access.error }, { status: access.status || 403 });
+  }
+
+  let ttlMinutes: number | undefined;
+  try {
+    const body = await request.json();
+    ttlMinutes = typeof body.ttlMinutes === 'number' ? body.ttlMinutes : undefined;
+  } catch {
+    // Body is optional
+  }
+
+  const result = await claimModerationItem(itemId, {
+    id: session.user.id,
+    email: session.user.email,
+  }, ttlMinutes);
+
+  if (!result.success) {
+    if (result.error === 'Moderation item not found') {
+      return NextResponse.json({ error: result.error }, { status: 404 });
+    }
+    if (result.conflict) {
+      return NextResponse.json({ error: result.error, claim: result.claim }, { status: 409 });
+    }
+    return NextResponse.json({ error: result.error }, { status: 500 });
+  }
+
+  return NextResponse.json({ success: true, claim: result.claim });
+});
+
+export const DELETE = withAdminRoute<{ id: string }>({
+  name: 'release moderation item API',
+  permissions: [PERMISSIONS.MODERATION_REVIEW],
+}, async ({ request, session, params }) => {
+  const { id: itemId } = params;
+
+  if (!isValidUUID(itemId)) {
+    return NextResponse.json({ error: 'Invalid moderation item ID format' }, { status: 400 });
+  }
+
+  // Supervisors can break another moderator's lease
+  const force = request.nextUrl.searchParams.get('force') === 'true';
+  if (force && !RBACManager.hasPermissionIn(session.permissions, 'moderation', 'assign')) {
+    return forbiddenResponse(session, [PERMISSIONS.MODERATION_ASSIGN]);
+  }
+
+  const result = await releaseModerationItem(itemId, {
+    id: session.user.id,
+    email: session.user.email,
+  }, { force });
+
+  if (!result.success) {
+    if (result.error === 'Moderation item not found') {
+      return NextResponse.json({ error: result.error }, { status: 404 });
+    }
+    if (result.conflict) {
+      return NextResponse.json({ error: result.error, claim: result.claim }, { status: 409 });
+    }
+    return NextResponse.json({ error: result.error }, { status: 500 });
+  }
+
+  return NextResponse.json({ success: true });
+});
+
+function isValidUUID(str: string): boolean {
+  const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
+  return uuidRegex.test(str);
+}
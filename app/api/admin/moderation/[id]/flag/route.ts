@@ -0,0 +1,58 @@
+import { NextResponse } from 'next/server';
+import { PERMISSIONS } from '@/lib/auth/rbac';
+import { withAdminRoute } from '@/lib/api/route-handler';
+import { checkModerationAccess, moderateContent } from '@/lib/admin/moderation';
+import { toScopeContext } from '@/lib/admin/scope';
+
+export const POST = withAdminRoute<{ id: string }>({
+  name: 'flag content API',
+  permissions: [PERMISSIONS.MODERATION_REVIEW],
+  invalidates: ['analytics'],
+}, async ({ request, session, params }) => {
+  const { id: itemId } = params;
+
+  if (!isValidUUID(itemId)) {
+    return NextResponse.json({ error: 'Invalid moderation item ID format' }, { status: 400 });
+  }
+
+  const access = await checkModerationAccess(itemId, 'review', toScopeContext(session));
+  if (!access.allowed) {
+    return NextResponse.json({ error: access.error }, { status: access.status || 403 });
+  }
+
+  let reason: string | undefined;
+  try {
+    const body = await request.json();
+    reason = typeof body.reason === 'string' && body.reason.trim() ? body.reason.trim() : undefined;
+  } catch {
+    // Missing or invalid JSON body
+  }
+
+  if (!reason) {
+    return NextResponse.json({ error: 'A reason is required' }, { status: 400 });
+  }
+
+  const result = await moderateContent(itemId, 'flag', {
+    id: session.user.id,
+    email: session.user.email,
+    ipAddress: request.headers.get('x-forwarded-for'),
+    userAgent: request.headers.get('user-agent'),
+  }, reason);
+
+  if (!result.success) {
+    if (result.error === 'Moderation item not found') {
+      return NextResponse.json({ error: result.error }, { status: 404 });
+    }
+    if (result.conflict) {
+      return NextResponse.json({ error: result.error }, { status: 409 });
+    }
+    return NextResponse.json({ error: result.error }, { status: 500 });
+  }
+
+  return NextResponse.json({ success: true, item: result.item });
+});
+
+function isValidUUID(str: string): boolean {
+  const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
+  return uuidRegex.test(str);
+}
@@ -0,0 +1,22 @@
+import { NextResponse } from 'next/server';
+import { PERMISSIONS } from '@/lib/auth/rbac';
+import { withAdminRoute } from '@/lib/api/route-handler';
+import { runAutoModeration } from '@/lib/admin/moderation-rules';
+
+export const POST = withAdminRoute({
+  name: 'auto-moderation API',
+  permissions: [PERMISSIONS.MODERATION_REVIEW],
+  rateLimit: 'system',
+}, async ({ request }) => {
+  const { searchParams } = new URL(request.url);
+  const limit = Math.min(200, Math.max(1, parseInt(searchParams.get('limit') || '50')));
+
+  const decisions = await runAutoModeration(limit);
+
+  return NextResponse.json({
+    processed: decisions.length,
+    flagged: decisions.filter(decision => decision.outcome === 'flag').length,
+    approved: decisions.filter(decision => decision.outcome === 'approve').length,
+    decisions,
+  });
+});
@@ -0,0 +1,44 @@
+import { NextResponse } from 'next/server';
+import { RBACManager, PERMISSIONS } from '@/lib/auth/rbac';
+import { fetchModerationItems, validateModerationFilters } from '@/lib/admin/moderation';
+import { toScopeContext } from '@/lib/admin/scope';
+import { withAdminRoute } from '@/lib/api/route-handler';
+
+export const GET = withAdminRoute({
+  name: 'moderation queue API',
+  permissions: [PERMISSIONS.MODERATION_READ],
+}, async ({ request, session }) => {
+  const { searchParams } = new URL(request.url);
+  const page = parseInt(searchParams.get('page') || '1');
+  const limit = parseInt(searchParams.get('limit') || '20');
+  const type = searchParams.get('type') || undefined;
+  const status = searchParams.get('status') || undefined;
+  const priority = searchParams.get('priority') || undefined;
+  const sortBy = searchParams.get('sortBy') || undefined;
+  // Only supervisors may look at items leased by other moderators
+  const includeClaimed = searchParams.get('includeClaimed') === 'true'
+    && RBACManager.hasPermissionIn(session.permissions, 'moderation', 'assign');
+
+  const filters = {
+    page,
+    limit,
+    type,
+    status,
+    priority,
+    sortBy,
+    viewerId: session.user.id,
+    includeClaimed,
+  };
+
+  // Validate filters
+  const validation = await validateModerationFilters(filters);
+  if (!validation.isValid) {
+    return NextResponse.json(
+      { error: validation.errors?.[0] || 'Invalid filter parameters' },
+      { status: 400 }
+    );
+  }
+
+  const result = await fetchModerationItems(filters, toScopeContext(session));
+  return NextResponse.json(result);
+});
@@ -0,0 +1,24 @@
+import { NextResponse } from 'next/server';
+import { PERMISSIONS } from '@/lib/auth/rbac';
+import { withAdminRoute, readJsonBody } from '@/lib/api/route-handler';
+import { previewModerationRules, validateModerationRules } from '@/lib/admin/moderation-rules';
+
+export const POST = withAdminRoute({
+  name: 'moderation rules preview API',
+  permissions: [PERMISSIONS.SETTINGS_READ],
+}, async ({ request }) => {
+  const body = await readJsonBody(request);
+
+  const validation = validateModerationRules(body?.config);
+  if (!validation.isValid) {
+    return NextResponse.json(
+      { error: 'Invalid moderation rules', details: validation.errors },
+      { status: 400 }
+    );
+  }
+
+  const limit = typeof body.limit === 'number' ? body.limit : 25;
+  const decisions = await previewModerationRules(body.config, limit);
+
+  return NextResponse.json({ decisions });
+});
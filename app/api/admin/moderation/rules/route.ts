@@ -0,0 +1,48 @@
+import { NextResponse } from 'next/server';
+import { PERMISSIONS } from '@/lib/auth/rbac';
+import { withAdminRoute, readJsonBody } from '@/lib/api/route-handler';
+import { recordAuditLog } from '@/lib/admin/audit-logs';
+import {
+  fetchModerationRules,
+  saveModerationRules,
+  validateModerationRules,
+} from '@/lib/admin/moderation-rules';
+
+export const GET = withAdminRoute({
+  name: 'moderation rules API',
+  permissions: [PERMISSIONS.SETTINGS_READ],
+}, async () => {
+  const config = await fetchModerationRules();
+  return NextResponse.json({ config });
+});
+
+export const PUT = withAdminRoute({
+  name: 'save moderation rules API',
+  permissions: [PERMISSIONS.SETTINGS_UPDATE],
+}, async ({ request, session }) => {
+  const body = await readJsonBody(request);
+
+  const validation = validateModerationRules(body?.config);
+  if (!validation.isValid) {
+    return NextResponse.json(
+      { error: 'Invalid moderation rules', details: validation.errors },
+      { status: 400 }
+    );
+  }
+
+  const previous = await fetchModerationRules();
+  await saveModerationRules(body.config);
+
+  await recordAuditLog({
+    adminUserId: session.user.id,
+    action: 'moderation_rules_update',
+    resourceType: 'system_settings',
+    resourceId: 'moderation_rules',
+    oldValues: { ...previous },
+    newValues: body.config,
+    ipAddress: request.headers.get('x-forwarded-for'),
+    userAgent: request.headers.get('user-agent'),
+  });
+
+  return NextResponse.json({ success: true, config: body.config });
+});
@@ -0,0 +1,42 @@
+import { NextResponse } from 'next/server';
+import { PERMISSIONS } from '@/lib/auth/rbac';
+import { withAdminRoute } from '@/lib/api/route-handler';
+import { checkReportAccess } from '@/lib/admin/reports';
+import { compareReportExecutions } from '@/lib/admin/report-comparison';
+import { toScopeContext } from '@/lib/admin/scope';
+
+export const GET = withAdminRoute<{ id: string }>({
+  name: 'compare report executions API',
+  permissions: [PERMISSIONS.REPORTS_READ],
+}, async ({ request, session, params }) => {
+  const { id: reportId } = params;
+  const { searchParams } = new URL(request.url);
+  const base = searchParams.get('base') || '';
+  const target = searchParams.get('target') || '';
+
+  if (!isValidUUID(reportId)) {
+    return NextResponse.json({ error: 'Invalid report ID format' }, { status: 400 });
+  }
+
+  if (!isValidUUID(base) || !isValidUUID(target)) {
+    return NextResponse.json({ error: 'base and target must be execution IDs' }, { status: 400 });
+  }
+
+  const access = await checkReportAccess(reportId, 'read', toScopeContext(session));
+  if (!access.allowed) {
+    return NextResponse.json({ error: access.error }, { status: access.status || 403 });
+  }
+
+  const result = await compareReportExecutions(reportId, base, target);
+
+  if (!result.success) {
+    return NextResponse.json({ error: result.error }, { status: result.status || 500 });
+  }
+
+  return NextResponse.json({ comparison: result.comparison });
+});
+
+function isValidUUID(str: string): boolean {
+  const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
+  return uuidRegex.test(str);
+}
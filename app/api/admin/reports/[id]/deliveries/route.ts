@@ -0,0 +1,41 @@
+import { NextResponse } from 'next/server';
+import { PERMISSIONS } from '@/lib/auth/rbac';
+import { withAdminRoute } from '@/lib/api/route-handler';
+import { checkReportAccess } from '@/lib/admin/reports';
+import { fetchReportDeliveries } from '@/lib/admin/report-delivery';
+import { toScopeContext } from '@/lib/admin/scope';
+
+export const GET = withAdminRoute<{ id: string }>({
+  name: 'report deliveries API',
+  permissions: [PERMISSIONS.REPORTS_READ],
+}, async ({ request, session, params }) => {
+  const { id: reportId } = params;
+
+  if (!isValidUUID(reportId)) {
+    return NextResponse.json({ error: 'Invalid report ID format' }, { status: 400 });
+  }
+
+  const { searchParams } = new URL(request.url);
+  const limit = parseInt(searchParams.get('limit') || '50');
+
+  if (isNaN(limit) || limit < 1 || limit > 100) {
+    return NextResponse.json(
+      { error: 'Limit must be between 1 and 100' },
+      { status: 400 }
+    );
+  }
+
+  const access = await checkReportAccess(reportId, 'read', toScopeContext(session));
+  if (!access.allowed) {
+    return NextResponse.json({ error: access.error }, { status: access.status || 403 });
+  }
+
+  const deliveries = await fetchReportDeliveries(reportId, limit);
+
+  return NextResponse.json({ deliveries });
+});
+
+function isValidUUID(str: string): boolean {
+  const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
+  return uuidRegex.test(str);
+}
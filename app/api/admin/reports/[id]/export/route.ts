@@ -1,76 +1,73 @@
-import { NextRequest, NextResponse } from 'next/server';
-import { cookies } from 'next/headers';
-import { exportReport } from '@/lib/admin/reports';
+import { NextResponse } from 'next/server';
+import { PERMISSIONS } from '@/lib/auth/rbac';
+import { withAdminRoute } from '@/lib/api/route-handler';
+import { checkReportAccess } from '@/lib/admin/reports';
+import { exportReport, parseExportFormat, REPORT_EXPORT_FORMATS } from '@/lib/admin/report-exports';
+import { toScopeContext } from '@/lib/admin/scope';
 
-export async function POST(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
-  try {
-    const cookieStore = await cookies();
-    const adminToken = cookieStore.get('admin_token');
+export const POST = withAdminRoute<{ id: string }>({
+  name: 'export report API',
+  permissions: [PERMISSIONS.REPORTS_READ],
+  rateLimit: 'reports',
+  invalidates: ({ id }) => ['reports', `report:${id}`],
+}, async ({ request, session, params }) => {
+  const { id: reportId } = params;
 
-    if (!adminToken) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
-    }
-
-    const { id: reportId } = await params;
-
-    // Validate report ID
-    if (!reportId) {
-      return NextResponse.json({ error: 'Report ID is required' }, { status: 400 });
-    }
-
-    if (!isValidUUID(reportId)) {
-      return NextResponse.json({ error: 'Invalid report ID format' }, { status: 400 });
-    }
-
-    // Get format from query parameters or body
-    const { searchParams } = new URL(request.url);
-    let format = searchParams.get('format');
+  // Validate report ID
+  if (!reportId) {
+    return NextResponse.json({ error: 'Report ID is required' }, { status: 400 });
+  }
 
-    if (!format) {
-      try {
-        const body = await request.json();
-        format = body.format;
-      } catch {
-        // If no body, default format
-        format = 'csv';
-      }
-    }
+  if (!isValidUUID(reportId)) {
+    return NextResponse.json({ error: 'Invalid report ID format' }, { status: 400 });
+  }
 
-    // Validate format
-    const validFormats = ['csv', 'pdf', 'excel'];
-    if (!format || !validFormats.includes(format)) {
-      return NextResponse.json(
-        {
-          error: 'Invalid format. Must be one of: csv, pdf, excel'
-        },
-        { status: 400 }
-      );
-    }
+  const access = await checkReportAccess(reportId, 'read', toScopeContext(session));
+  if (!access.allowed) {
+    return NextResponse.json({ error: access.error }, { status: access.status || 403 });
+  }
 
-    const result = await exportReport(reportId, format as 'csv' | 'pdf' | 'excel');
+  // Get format from query parameters or body
+  const { searchParams } = new URL(request.url);
+  let format = searchParams.get('format');
 
-    if (!result.success) {
-      if (result.error === 'Report not found') {
-        return NextResponse.json({ error: 'Report not found' }, { status: 404 });
-      }
-      return NextResponse.json({ error: result.error }, { status: 500 });
+  if (!format) {
+    try {
+      const body = await request.json();
+      format = body.format;
+    } catch {
+      // If no body, default format
+      format = 'csv';
     }
+  }
 
-    return NextResponse.json({
-      success: true,
-      downloadUrl: result.url,
-      format,
-      reportId,
-      generatedAt: new Date().toISOString(),
-    });
-  } catch (error) {
-    console.error('Error exporting report:', error);
+  // Validate format
+  const exportFormat = parseExportFormat(format);
+  if (!exportFormat) {
     return NextResponse.json(
-      { error: 'Failed to export report' },
-      { status: 500 }
+      {
+        error: `Invalid format. Must be one of: ${REPORT_EXPORT_FORMATS.join(', ')}`
+      },
+      { status: 400 }
     );
   }
-}
+
+  const result = await exportReport(reportId, exportFormat);
+
+  if (!result.success || !result.downloadPath) {
+    return NextResponse.json({ error: result.error }, { status: result.status || 500 });
+  }
+
+  return NextResponse.json({
+    success: true,
+    downloadUrl: new URL(result.downloadPath, request.url).toString(),
+    expiresAt: result.expiresAt,
+    format: exportFormat,
+    size: result.size,
+    reportId,
+    generatedAt: new Date().toISOString(),
+  });
+});
 
 function isValidUUID(str: string): boolean {
   const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
@@ -0,0 +1,74 @@
+import { NextResponse } from 'next/server';
+import { PERMISSIONS } from '@/lib/auth/rbac';
+import { withAdminRoute, readJsonBody } from '@/lib/api/route-handler';
+import { checkReportAccess, updateReport } from '@/lib/admin/reports';
+import { toScopeContext } from '@/lib/admin/scope';
+
+export const PATCH = withAdminRoute<{ id: string }>({
+  name: 'update report API',
+  permissions: [PERMISSIONS.REPORTS_UPDATE],
+  invalidates: ({ id }) => ['reports', `report:${id}`],
+}, async ({ request, session, params }) => {
+  const { id: reportId } = params;
+
+  if (!isValidUUID(reportId)) {
+    return NextResponse.json({ error: 'Invalid report ID format' }, { status: 400 });
+  }
+
+  const body = (await readJsonBody(request)) || {};
+
+  if (body.name !== undefined && (typeof body.name !== 'string' || body.name.trim() === '')) {
+    return NextResponse.json({ error: 'Name cannot be empty' }, { status: 400 });
+  }
+
+  if (typeof body.name === 'string' && body.name.length > 255) {
+    return NextResponse.json(
+      { error: 'Name is too long (maximum 255 characters)' },
+      { status: 400 }
+    );
+  }
+
+  if (body.description !== undefined && (typeof body.description !== 'string' || body.description.trim() === '')) {
+    return NextResponse.json({ error: 'Description cannot be empty' }, { status: 400 });
+  }
+
+  const validTypes = ['analytics', 'users', 'surveys', 'financial', 'system'];
+  if (body.type !== undefined && !validTypes.includes(body.type)) {
+    return NextResponse.json({ error: 'Invalid report type' }, { status: 400 });
+  }
+
+  if (body.templateId !== undefined && body.templateId !== null && !isValidUUID(body.templateId)) {
+    return NextResponse.json({ error: 'Invalid template ID format' }, { status: 400 });
+  }
+
+  for (const field of ['parameters', 'filters']) {
+    if (body[field] !== undefined && (typeof body[field] !== 'object' || body[field] === null || Array.isArray(body[field]))) {
+      return NextResponse.json(
+        { error: `${field === 'parameters' ? 'Parameters' : 'Filters'} must be a valid object` },
+        { status: 400 }
+      );
+    }
+  }
+
+  if (body.isPublic !== undefined && typeof body.isPublic !== 'boolean') {
+    return NextResponse.json({ error: 'isPublic must be a boolean' }, { status: 400 });
+  }
+
+  const access = await checkReportAccess(reportId, 'update', toScopeContext(session));
+  if (!access.allowed) {
+    return NextResponse.json({ error: access.error }, { status: access.status || 403 });
+  }
+
+  const result = await updateReport(reportId, body, session.user.email);
+
+  if (!result.success) {
+    return NextResponse.json({ error: result.error }, { status: result.status || 500 });
+  }
+
+  return NextResponse.json({ success: true, report: result.report, version: result.version ?? null });
+});
+
+function isValidUUID(str: string): boolean {
+  const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
+  return uuidRegex.test(str);
+}
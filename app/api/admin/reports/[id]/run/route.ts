@@ -1,50 +1,47 @@
-import { NextRequest, NextResponse } from 'next/server';
-import { cookies } from 'next/headers';
-import { runReport } from '@/lib/admin/reports';
-
-export async function POST(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
-  try {
-    const cookieStore = await cookies();
-    const adminToken = cookieStore.get('admin_token');
-
-    if (!adminToken) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
-    }
-
-    const { id: reportId } = await params;
-
-    // Validate report ID
-    if (!reportId) {
-      return NextResponse.json({ error: 'Report ID is required' }, { status: 400 });
-    }
-
-    if (!isValidUUID(reportId)) {
-      return NextResponse.json({ error: 'Invalid report ID format' }, { status: 400 });
-    }
-
-    const result = await runReport(reportId);
-
-    if (!result.success) {
-      if (result.error === 'Report not found') {
-        return NextResponse.json({ error: 'Report not found' }, { status: 404 });
-      }
-      return NextResponse.json({ error: result.error }, { status: 500 });
-    }
-
-    return NextResponse.json({
-      success: true,
-      message: 'Report execution started',
-      reportId,
-      executionTime: new Date().toISOString(),
-    });
-  } catch (error) {
-    console.error('Error running report:', error);
+import { NextResponse } from 'next/server';
+import { PERMISSIONS } from '@/lib/auth/rbac';
+import { withAdminRoute } from '@/lib/api/route-handler';
+import { checkReportAccess, runReport } from '@/lib/admin/reports';
+import { toScopeContext } from '@/lib/admin/scope';
+
+export const POST = withAdminRoute<{ id: string }>({
+  name: 'run report API',
+  permissions: [PERMISSIONS.REPORTS_UPDATE],
+  rateLimit: 'reports',
+  invalidates: ({ id }) => ['reports', `report:${id}`],
+}, async ({ session, params }) => {
+  const { id: reportId } = params;
+
+  // Validate report ID
+  if (!reportId) {
+    return NextResponse.json({ error: 'Report ID is required' }, { status: 400 });
+  }
+
+  if (!isValidUUID(reportId)) {
+    return NextResponse.json({ error: 'Invalid report ID format' }, { status: 400 });
+  }
+
+  const access = await checkReportAccess(reportId, 'update', toScopeContext(session));
+  if (!access.allowed) {
+    return NextResponse.json({ error: access.error }, { status: access.status || 403 });
+  }
+
+  const result = await runReport(reportId, session.user.email);
+
+  if (!result.success) {
     return NextResponse.json(
-      { error: 'Failed to run report' },
-      { status: 500 }
+      { error: result.error, execution: result.execution },
+      { status: result.status || 500 }
     );
   }
-}
+
+  return NextResponse.json({
+    success: true,
+    reportId,
+    execution: result.execution,
+    data: result.data,
+  });
+});
 
 function isValidUUID(str: string): boolean {
   const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
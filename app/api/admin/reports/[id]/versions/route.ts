@@ -0,0 +1,74 @@
+import { NextResponse } from 'next/server';
+import { PERMISSIONS } from '@/lib/auth/rbac';
+import { supabase } from '@/lib/supabase';
+import { withAdminRoute, readJsonBody } from '@/lib/api/route-handler';
+import { checkReportAccess } from '@/lib/admin/reports';
+import { fetchReportVersions, rollbackToVersion } from '@/lib/admin/report-versions';
+import { toScopeContext } from '@/lib/admin/scope';
+
+export const GET = withAdminRoute<{ id: string }>({
+  name: 'report versions API',
+  permissions: [PERMISSIONS.REPORTS_READ],
+}, async ({ session, params }) => {
+  const { id: reportId } = params;
+
+  if (!isValidUUID(reportId)) {
+    return NextResponse.json({ error: 'Invalid report ID format' }, { status: 400 });
+  }
+
+  const access = await checkReportAccess(reportId, 'read', toScopeContext(session));
+  if (!access.allowed) {
+    return NextResponse.json({ error: access.error }, { status: access.status || 403 });
+  }
+
+  const [versions, { data: report }] = await Promise.all([
+    fetchReportVersions('report', reportId),
+    supabase.from('reports').select('version, template_id').eq('id', reportId).single(),
+  ]);
+
+  // The template's history is listed under /api/admin/reports/templates/:id/versions
+  return NextResponse.json({
+    versions,
+    currentVersion: report?.version || null,
+    templateId: report?.template_id || null,
+  });
+});
+
+/**
+ * Roll the report back to an earlier version
+ */
+export const POST = withAdminRoute<{ id: string }>({
+  name: 'rollback report API',
+  permissions: [PERMISSIONS.REPORTS_UPDATE],
+  invalidates: ({ id }) => ['reports', `report:${id}`],
+}, async ({ request, session, params }) => {
+  const { id: reportId } = params;
+
+  if (!isValidUUID(reportId)) {
+    return NextResponse.json({ error: 'Invalid report ID format' }, { status: 400 });
+  }
+
+  const body = (await readJsonBody(request)) || {};
+
+  if (!Number.isInteger(body.version) || body.version < 1) {
+    return NextResponse.json({ error: 'Version must be a positive integer' }, { status: 400 });
+  }
+
+  const access = await checkReportAccess(reportId, 'update', toScopeContext(session));
+  if (!access.allowed) {
+    return NextResponse.json({ error: access.error }, { status: access.status || 403 });
+  }
+
+  const result = await rollbackToVersion('report', reportId, body.version, session.user.email);
+
+  if (!result.success) {
+    return NextResponse.json({ error: result.error }, { status: result.status || 500 });
+  }
+
+  return NextResponse.json({ success: true, version: result.version || null });
+});
+
+function isValidUUID(str: string): boolean {
+  const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
+  return uuidRegex.test(str);
+}
@@ -0,0 +1,28 @@
+import { NextResponse } from 'next/server';
+import { PERMISSIONS } from '@/lib/auth/rbac';
+import { withAdminRoute, readJsonBody } from '@/lib/api/route-handler';
+import { previewReportQuery } from '@/lib/admin/report-builder';
+
+export const POST = withAdminRoute({
+  name: 'report builder preview API',
+  permissions: [PERMISSIONS.REPORTS_CREATE],
+  rateLimit: 'reports',
+}, async ({ request }) => {
+  const body = (await readJsonBody(request)) || {};
+  const result = await previewReportQuery(body.query);
+
+  if (!result.success) {
+    return NextResponse.json(
+      { error: result.error, details: result.details },
+      { status: result.status || 500 }
+    );
+  }
+
+  return NextResponse.json({
+    success: true,
+    columns: result.columns,
+    rows: result.rows,
+    truncated: result.truncated,
+    sql: result.sql,
+  });
+});
@@ -0,0 +1,103 @@
+import { NextResponse } from 'next/server';
+import { RBACManager, PERMISSIONS } from '@/lib/auth/rbac';
+import { withAdminRoute, readJsonBody } from '@/lib/api/route-handler';
+import { updateReportTemplate } from '@/lib/admin/report-builder';
+import { checkReportTemplateAccess } from '@/lib/admin/reports';
+import { toScopeContext } from '@/lib/admin/scope';
+
+const PARAMETER_TYPES = ['string', 'number', 'integer', 'boolean', 'date'];
+
+export const PATCH = withAdminRoute<{ id: string }>({
+  name: 'update report template API',
+  permissions: [PERMISSIONS.REPORTS_UPDATE],
+  invalidates: ['reports'],
+}, async ({ request, session, params }) => {
+  const { id: templateId } = params;
+
+  if (!isValidUUID(templateId)) {
+    return NextResponse.json({ error: 'Invalid template ID format' }, { status: 400 });
+  }
+
+  const body = (await readJsonBody(request)) || {};
+
+  if (body.name !== undefined && typeof body.name !== 'string') {
+    return NextResponse.json({ error: 'Name must be a string' }, { status: 400 });
+  }
+
+  if (body.description !== undefined && body.description !== null && typeof body.description !== 'string') {
+    return NextResponse.json({ error: 'Description must be a string' }, { status: 400 });
+  }
+
+  if (body.isActive !== undefined && typeof body.isActive !== 'boolean') {
+    return NextResponse.json({ error: 'isActive must be a boolean' }, { status: 400 });
+  }
+
+  if (body.sqlQuery !== undefined && typeof body.sqlQuery !== 'string') {
+    return NextResponse.json({ error: 'sqlQuery must be a string' }, { status: 400 });
+  }
+
+  if (body.chartConfig !== undefined && (typeof body.chartConfig !== 'object' || body.chartConfig === null)) {
+    return NextResponse.json({ error: 'chartConfig must be a valid object' }, { status: 400 });
+  }
+
+  if (body.parameters !== undefined) {
+    const errors = validateParameterDefinitions(body.parameters);
+    if (errors.length > 0) {
+      return NextResponse.json({ error: 'Invalid parameters', details: errors }, { status: 400 });
+    }
+  }
+
+  const access = await checkReportTemplateAccess(templateId, 'update', toScopeContext(session));
+  if (!access.allowed) {
+    return NextResponse.json({ error: access.error }, { status: access.status || 403 });
+  }
+
+  const result = await updateReportTemplate(templateId, body, session.user.email, {
+    allowRawSql: RBACManager.hasPermissionIn(session.permissions, 'reports', 'sql'),
+  });
+
+  if (!result.success) {
+    return NextResponse.json(
+      { error: result.error, details: result.details },
+      { status: result.status || 500 }
+    );
+  }
+
+  return NextResponse.json({ success: true, template: result.template, version: result.version ?? null });
+});
+
+function validateParameterDefinitions(parameters: unknown): string[] {
+  if (!Array.isArray(parameters)) {
+    return ['Parameters must be an array'];
+  }
+
+  const errors: string[] = [];
+  const names = new Set<string>();
+
+  parameters.forEach((parameter, index) => {
+    if (!parameter || typeof parameter.name !== 'string' || !/^[a-zA-Z_][a-zA-Z0-9_]*$/.test(parameter.name)) {
+      errors.push(`Parameter ${index + 1} needs a name of letters, numbers and underscores`);
+      return;
+    }
+
+    if (names.has(parameter.name)) {
+      errors.push(`Parameter "${parameter.name}" is declared more than once`);
+    }
+    names.add(parameter.name);
+
+    if (parameter.type !== undefined && !PARAMETER_TYPES.includes(parameter.type)) {
+      errors.push(`Parameter "${parameter.name}" has an invalid type`);
+    }
+
+    if (parameter.required !== undefined && typeof parameter.required !== 'boolean') {
+      errors.push(`Parameter "${parameter.name}" required must be a boolean`);
+    }
+  });
+
+  return errors;
+}
+
+function isValidUUID(str: string): boolean {
+  const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
+  return uuidRegex.test(str);
+}
@@ -0,0 +1,63 @@
+import { NextResponse } from 'next/server';
+import { RBACManager, PERMISSIONS } from '@/lib/auth/rbac';
+import { withAdminRoute, readJsonBody } from '@/lib/api/route-handler';
+import { fetchReportVersions } from '@/lib/admin/report-versions';
+import { rollbackReportTemplate } from '@/lib/admin/report-builder';
+import { checkReportTemplateAccess } from '@/lib/admin/reports';
+import { toScopeContext } from '@/lib/admin/scope';
+
+export const GET = withAdminRoute<{ id: string }>({
+  name: 'report template versions API',
+  permissions: [PERMISSIONS.REPORTS_READ],
+}, async ({ params }) => {
+  const { id: templateId } = params;
+
+  if (!isValidUUID(templateId)) {
+    return NextResponse.json({ error: 'Invalid template ID format' }, { status: 400 });
+  }
+
+  const versions = await fetchReportVersions('template', templateId);
+
+  return NextResponse.json({ versions });
+});
+
+/**
+ * Roll the template back to an earlier version
+ */
+export const POST = withAdminRoute<{ id: string }>({
+  name: 'rollback report template API',
+  permissions: [PERMISSIONS.REPORTS_UPDATE],
+  invalidates: ['reports'],
+}, async ({ request, session, params }) => {
+  const { id: templateId } = params;
+
+  if (!isValidUUID(templateId)) {
+    return NextResponse.json({ error: 'Invalid template ID format' }, { status: 400 });
+  }
+
+  const body = (await readJsonBody(request)) || {};
+
+  if (!Number.isInteger(body.version) || body.version < 1) {
+    return NextResponse.json({ error: 'Version must be a positive integer' }, { status: 400 });
+  }
+
+  const access = await checkReportTemplateAccess(templateId, 'update', toScopeContext(session));
+  if (!access.allowed) {
+    return NextResponse.json({ error: access.error }, { status: access.status || 403 });
+  }
+
+  const result = await rollbackReportTemplate(templateId, body.version, session.user.email, {
+    allowRawSql: RBACManager.hasPermissionIn(session.permissions, 'reports', 'sql'),
+  });
+
+  if (!result.success) {
+    return NextResponse.json({ error: result.error }, { status: result.status || 500 });
+  }
+
+  return NextResponse.json({ success: true, version: result.version || null });
+});
+
+function isValidUUID(str: string): boolean {
+  const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
+  return uuidRegex.test(str);
+}
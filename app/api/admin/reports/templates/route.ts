@@ -0,0 +1,22 @@
+import { NextResponse } from 'next/server';
+import { PERMISSIONS } from '@/lib/auth/rbac';
+import { withAdminRoute, readJsonBody } from '@/lib/api/route-handler';
+import { saveReportQueryTemplate } from '@/lib/admin/report-builder';
+
+export const POST = withAdminRoute({
+  name: 'create report template API',
+  permissions: [PERMISSIONS.REPORTS_CREATE],
+  invalidates: ['reports'],
+}, async ({ request, session }) => {
+  const body = (await readJsonBody(request)) || {};
+  const result = await saveReportQueryTemplate(body.query, session.user.email);
+
+  if (!result.success) {
+    return NextResponse.json(
+      { error: result.error, details: result.details },
+      { status: result.status || 500 }
+    );
+  }
+
+  return NextResponse.json({ success: true, template: result.template }, { status: 201 });
+});
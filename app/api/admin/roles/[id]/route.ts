@@ -0,0 +1,76 @@
+import { NextResponse } from 'next/server';
+import { PERMISSIONS } from '@/lib/auth/rbac';
+import { withAdminRoute } from '@/lib/api/route-handler';
+import { deleteCustomRole, updateCustomRole, validateCustomRoleInput } from '@/lib/admin/roles';
+
+export const PUT = withAdminRoute<{ id: string }>({
+  name: 'update role API',
+  permissions: [PERMISSIONS.ADMINS_ROLES],
+}, async ({ request, session, params }) => {
+  const { id: roleId } = params;
+
+  if (!isValidUUID(roleId)) {
+    return NextResponse.json({ error: 'Invalid role ID format' }, { status: 400 });
+  }
+
+  let body: any;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON in request body' }, { status: 400 });
+  }
+
+  const validation = validateCustomRoleInput(body);
+  if (!validation.isValid || !validation.input) {
+    return NextResponse.json(
+      { error: 'Invalid role', details: validation.errors },
+      { status: 400 }
+    );
+  }
+
+  const result = await updateCustomRole(roleId, validation.input, {
+    id: session.user.id,
+    email: session.user.email,
+    role: session.user.role,
+    permissions: session.permissions,
+    ipAddress: request.headers.get('x-forwarded-for'),
+    userAgent: request.headers.get('user-agent'),
+  });
+
+  if (!result.success) {
+    return NextResponse.json({ error: result.error }, { status: result.status || 500 });
+  }
+
+  return NextResponse.json({ success: true, role: result.role, diff: result.diff });
+});
+
+export const DELETE = withAdminRoute<{ id: string }>({
+  name: 'delete role API',
+  permissions: [PERMISSIONS.ADMINS_ROLES],
+}, async ({ request, session, params }) => {
+  const { id: roleId } = params;
+
+  if (!isValidUUID(roleId)) {
+    return NextResponse.json({ error: 'Invalid role ID format' }, { status: 400 });
+  }
+
+  const result = await deleteCustomRole(roleId, {
+    id: session.user.id,
+    email: session.user.email,
+    role: session.user.role,
+    permissions: session.permissions,
+    ipAddress: request.headers.get('x-forwarded-for'),
+    userAgent: request.headers.get('user-agent'),
+  });
+
+  if (!result.success) {
+    return NextResponse.json({ error: result.error }, { status: result.status || 500 });
+  }
+
+  return NextResponse.json({ success: true, diff: result.diff });
+});
+
+function isValidUUID(str: string): boolean {
+  const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
+  return uuidRegex.test(str);
+}
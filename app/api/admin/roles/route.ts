@@ -0,0 +1,47 @@
+import { NextResponse } from 'next/server';
+import { PERMISSIONS } from '@/lib/auth/rbac';
+import { withAdminRoute } from '@/lib/api/route-handler';
+import { createCustomRole, fetchCustomRoles, validateCustomRoleInput } from '@/lib/admin/roles';
+
+export const GET = withAdminRoute({
+  name: 'roles API',
+  permissions: [PERMISSIONS.ADMINS_READ],
+}, async () => {
+  const roles = await fetchCustomRoles();
+  return NextResponse.json({ roles });
+});
+
+export const POST = withAdminRoute({
+  name: 'create role API',
+  permissions: [PERMISSIONS.ADMINS_ROLES],
+}, async ({ request, session }) => {
+  let body: any;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON in request body' }, { status: 400 });
+  }
+
+  const validation = validateCustomRoleInput(body);
+  if (!validation.isValid || !validation.input) {
+    return NextResponse.json(
+      { error: 'Invalid role', details: validation.errors },
+      { status: 400 }
+    );
+  }
+
+  const result = await createCustomRole(validation.input, {
+    id: session.user.id,
+    email: session.user.email,
+    role: session.user.role,
+    permissions: session.permissions,
+    ipAddress: request.headers.get('x-forwarded-for'),
+    userAgent: request.headers.get('user-agent'),
+  });
+
+  if (!result.success) {
+    return NextResponse.json({ error: result.error }, { status: result.status || 500 });
+  }
+
+  return NextResponse.json({ success: true, role: result.role, diff: result.diff }, { status: 201 });
+});
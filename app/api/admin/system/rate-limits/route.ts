@@ -0,0 +1,25 @@
+import { NextResponse } from 'next/server';
+import { PERMISSIONS } from '@/lib/auth/rbac';
+import { getRateLimitOverview } from '@/lib/api/rate-limit';
+import { withAdminRoute } from '@/lib/api/route-handler';
+
+// Limited keys include admin IDs and client IPs
+export const GET = withAdminRoute({
+  name: 'rate limits API',
+  permissions: [PERMISSIONS.SYSTEM_LOGS],
+  rateLimit: 'system',
+}, async ({ request }) => {
+  const { searchParams } = new URL(request.url);
+  const limit = parseInt(searchParams.get('limit') || '20');
+
+  if (isNaN(limit) || limit < 1 || limit > 100) {
+    return NextResponse.json(
+      { error: 'Limit must be between 1 and 100' },
+      { status: 400 }
+    );
+  }
+
+  const overview = await getRateLimitOverview(limit);
+
+  return NextResponse.json(overview);
+});
@@ -1,89 +1,63 @@
 import { NextResponse } from 'next/server';
-import { cookies } from 'next/headers';
+import { PERMISSIONS } from '@/lib/auth/rbac';
+import { withAdminRoute } from '@/lib/api/route-handler';
 import { supabase } from '@/lib/supabase';
 
-export async function POST(
-  request: Request,
-  { params }: { params: Promise<{ id: string }> }
-) {
-  try {
-    const cookieStore = await cookies();
-    const adminToken = cookieStore.get('admin_token');
-
-    if (!adminToken) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
-    }
-
-    const { id } = await params;
-    const userId = id;
-
-    const { error } = await supabase
-      .from('profiles')
-      .update({ status: 'banned', updated_at: new Date().toISOString() })
-      .eq('id', userId);
-
-    if (error) {
-      console.error('Error banning user:', error);
-      return NextResponse.json({ error: 'Failed to ban user' }, { status: 500 });
-    }
-
-    await supabase
-      .from('activity_logs')
-      .insert({
-        user_id: userId,
-        action: 'user_banned',
-        metadata: { banned_by: 'admin' },
-      });
-
-    return NextResponse.json({ success: true });
-  } catch (error) {
-    console.error('Error in ban user API:', error);
-    return NextResponse.json(
-      { error: 'Internal server error' },
-      { status: 500 }
-    );
+export const POST = withAdminRoute<{ id: string }>({
+  name: 'ban user API',
+  permissions: [PERMISSIONS.USERS_DELETE],
+  invalidates: ({ id }) => ['users', `user:${id}`, 'analytics'],
+}, async ({ session, params }) => {
+  const { id } = params;
+  const userId = id;
+
+  const { error } = await supabase
+    .from('profiles')
+    .update({ status: 'banned', updated_at: new Date().toISOString() })
+    .eq('id', userId);
+
+  if (error) {
+    console.error('Error banning user:', error);
+    return NextResponse.json({ error: 'Failed to ban user' }, { status: 500 });
   }
-}
 
-export async function DELETE(
-  request: Request,
-  { params }: { params: Promise<{ id: string }> }
-) {
-  try {
-    const cookieStore = await cookies();
-    const adminToken = cookieStore.get('admin_token');
-
-    if (!adminToken) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
-    }
-
-    const { id } = await params;
-    const userId = id;
-
-    const { error } = await supabase
-      .from('profiles')
-      .update({ status: 'active', updated_at: new Date().toISOString() })
-      .eq('id', userId);
-
-    if (error) {
-      console.error('Error unbanning user:', error);
-      return NextResponse.json({ error: 'Failed to unban user' }, { status: 500 });
-    }
+  await supabase
+    .from('activity_logs')
+    .insert({
+      user_id: userId,
+      action: 'user_banned',
+      // The banning admin is kept so a different admin reviews any appeal
+      metadata: { banned_by: session.user.id },
+    });
+
+  return NextResponse.json({ success: true });
+});
+
+export const DELETE = withAdminRoute<{ id: string }>({
+  name: 'unban user API',
+  permissions: [PERMISSIONS.USERS_DELETE],
+  invalidates: ({ id }) => ['users', `user:${id}`, 'analytics'],
+}, async ({ session, params }) => {
+  const { id } = params;
+  const userId = id;
+
+  const { error } = await supabase
+    .from('profiles')
+    .update({ status: 'active', updated_at: new Date().toISOString() })
+    .eq('id', userId);
+
+  if (error) {
+    console.error('Error unbanning user:', error);
+    return NextResponse.json({ error: 'Failed to unban user' }, { status: 500 });
+  }
 
-    await supabase
-      .from('activity_logs')
-      .insert({
-        user_id: userId,
-        action: 'user_unbanned',
-        metadata: { unbanned_by: 'admin' },
-      });
+  await supabase
+    .from('activity_logs')
+    .insert({
+      user_id: userId,
+      action: 'user_unbanned',
+      metadata: { unbanned_by: session.user.id },
+    });
 
-    return NextResponse.json({ success: true });
-  } catch (error) {
-    console.error('Error in unban user API:', error);
-    return NextResponse.json(
-      { error: 'Internal server error' },
-      { status: 500 }
-    );
-  }
-}
\ No newline at end of file
+  return NextResponse.json({ success: true });
+});
@@ -1,51 +1,38 @@
 import { NextResponse } from 'next/server';
-import { cookies } from 'next/headers';
+import { PERMISSIONS } from '@/lib/auth/rbac';
+import { withAdminRoute, readJsonBody } from '@/lib/api/route-handler';
 import { supabase } from '@/lib/supabase';
 
-export async function PUT(
-  request: Request,
-  { params }: { params: Promise<{ id: string }> }
-) {
-  try {
-    const cookieStore = await cookies();
-    const adminToken = cookieStore.get('admin_token');
-
-    if (!adminToken) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
-    }
-
-    const { id } = await params;
-    const userId = id;
-    const { role } = await request.json();
-
-    if (!['user', 'admin'].includes(role)) {
-      return NextResponse.json({ error: 'Invalid role' }, { status: 400 });
-    }
+export const PUT = withAdminRoute<{ id: string }>({
+  name: 'update user role API',
+  permissions: [PERMISSIONS.ADMINS_ROLES],
+  invalidates: ({ id }) => ['users', `user:${id}`],
+}, async ({ request, params }) => {
+  const { id } = params;
+  const userId = id;
+  const { role } = (await readJsonBody(request)) || {};
+
+  if (!['user', 'admin'].includes(role)) {
+    return NextResponse.json({ error: 'Invalid role' }, { status: 400 });
+  }
 
-    const { error } = await supabase
-      .from('profiles')
-      .update({ role, updated_at: new Date().toISOString() })
-      .eq('id', userId);
+  const { error } = await supabase
+    .from('profiles')
+    .update({ role, updated_at: new Date().toISOString() })
+    .eq('id', userId);
 
-    if (error) {
-      console.error('Error updating user role:', error);
-      return NextResponse.json({ error: 'Failed to update user role' }, { status: 500 });
-    }
+  if (error) {
+    console.error('Error updating user role:', error);
+    return NextResponse.json({ error: 'Failed to update user role' }, { status: 500 });
+  }
 
-    await supabase
-      .from('activity_logs')
-      .insert({
-        user_id: userId,
-        action: 'role_changed',
-        metadata: { new_role: role, changed_by: 'admin' },
-      });
+  await supabase
+    .from('activity_logs')
+    .insert({
+      user_id: userId,
+      action: 'role_changed',
+      metadata: { new_role: role, changed_by: 'admin' },
+    });
 
-    return NextResponse.json({ success: true, role });
-  } catch (error) {
-    console.error('Error in update role API:', error);
-    return NextResponse.json(
-      { error: 'Internal server error' },
-      { status: 500 }
-    );
-  }
-}
\ No newline at end of file
+  return NextResponse.json({ success: true, role });
+});
@@ -1,42 +1,32 @@
-import { NextRequest, NextResponse } from 'next/server';
-import { cookies } from 'next/headers';
+import { NextResponse } from 'next/server';
+import { PERMISSIONS } from '@/lib/auth/rbac';
+import { withAdminRoute } from '@/lib/api/route-handler';
 import { fetchUserById } from '@/lib/admin/users';
 
-export async function GET(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
-  try {
-    const cookieStore = await cookies();
-    const adminToken = cookieStore.get('admin_token');
+export const GET = withAdminRoute<{ id: string }>({
+  name: 'user details API',
+  permissions: [PERMISSIONS.USERS_READ],
+  cache: { name: 'short', tags: ({ id }) => [`user:${id}`] },
+}, async ({ params }) => {
+  const { id: userId } = params;
 
-    if (!adminToken) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
-    }
-
-    const { id: userId } = await params;
-
-    // Validate user ID
-    if (!userId) {
-      return NextResponse.json({ error: 'User ID is required' }, { status: 400 });
-    }
-
-    if (!isValidUUID(userId)) {
-      return NextResponse.json({ error: 'Invalid user ID format' }, { status: 400 });
-    }
+  // Validate user ID
+  if (!userId) {
+    return NextResponse.json({ error: 'User ID is required' }, { status: 400 });
+  }
 
-    const user = await fetchUserById(userId);
+  if (!isValidUUID(userId)) {
+    return NextResponse.json({ error: 'Invalid user ID format' }, { status: 400 });
+  }
 
-    if (!user) {
-      return NextResponse.json({ error: 'User not found' }, { status: 404 });
-    }
+  const user = await fetchUserById(userId);
 
-    return NextResponse.json({ user });
-  } catch (error) {
-    console.error('Error fetching user details:', error);
-    return NextResponse.json(
-      { error: 'Failed to fetch user details' },
-      { status: 500 }
-    );
+  if (!user) {
+    return NextResponse.json({ error: 'User not found' }, { status: 404 });
   }
-}
+
+  return NextResponse.json({ user });
+});
 
 function isValidUUID(str: string): boolean {
   const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
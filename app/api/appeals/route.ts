@@ -0,0 +1,65 @@
+import { NextResponse } from 'next/server';
+import { supabase } from '@/lib/supabase';
+import { withPublicRoute, readJsonBody } from '@/lib/api/route-handler';
+import { createAppeal } from '@/lib/admin/appeals';
+
+const MAX_MESSAGE_LENGTH = 2000;
+
+// Called by the member-facing app with the user's own access token
+export const POST = withPublicRoute({
+  name: 'appeals API',
+  rateLimit: 'appeals',
+}, async ({ request }) => {
+  const authHeader = request.headers.get('authorization');
+  const accessToken = authHeader?.startsWith('Bearer ') ? authHeader.slice(7) : null;
+
+  if (!accessToken) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const { data: { user }, error: userError } = await supabase.auth.getUser(accessToken);
+
+  if (userError || !user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const body = await readJsonBody(request);
+  const { subjectType, moderationItemId, message } = body || {};
+
+  if (subjectType !== 'ban' && subjectType !== 'moderation_item') {
+    return NextResponse.json({ error: 'Invalid appeal subject' }, { status: 400 });
+  }
+
+  if (subjectType === 'moderation_item' && (typeof moderationItemId !== 'string' || !isValidUUID(moderationItemId))) {
+    return NextResponse.json({ error: 'Invalid moderation item ID format' }, { status: 400 });
+  }
+
+  if (typeof message !== 'string' || !message.trim()) {
+    return NextResponse.json({ error: 'An appeal message is required' }, { status: 400 });
+  }
+
+  if (message.length > MAX_MESSAGE_LENGTH) {
+    return NextResponse.json(
+      { error: `Appeal message must be at most ${MAX_MESSAGE_LENGTH} characters` },
+      { status: 400 }
+    );
+  }
+
+  const result = await createAppeal({
+    userId: user.id,
+    subjectType,
+    moderationItemId: subjectType === 'moderation_item' ? moderationItemId : undefined,
+    message: message.trim(),
+  });
+
+  if (!result.success) {
+    return NextResponse.json({ error: result.error }, { status: result.status || 500 });
+  }
+
+  return NextResponse.json({ success: true, appeal: result.appeal }, { status: 201 });
+});
+
+function isValidUUID(str: string): boolean {
+  const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
+  return uuidRegex.test(str);
+}
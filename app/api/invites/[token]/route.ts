@@ -0,0 +1,46 @@
+import { NextResponse } from 'next/server';
+import { withPublicRoute, readJsonBody } from '@/lib/api/route-handler';
+import { acceptAdminInvite, getAdminInviteDetails } from '@/lib/admin/invites';
+
+// The invite link is the credential, so the invitee needs no session
+export const GET = withPublicRoute<{ token: string }>({
+  name: 'admin invite API',
+  rateLimit: 'auth',
+}, async ({ params }) => {
+  const result = await getAdminInviteDetails(params.token);
+
+  if (!result.success) {
+    return NextResponse.json({ error: result.error }, { status: result.status || 500 });
+  }
+
+  return NextResponse.json({ invite: result.details });
+});
+
+export const POST = withPublicRoute<{ token: string }>({
+  name: 'accept admin invite API',
+  rateLimit: 'auth',
+}, async ({ request, params }) => {
+  const { fullName, password } = await readJsonBody(request);
+
+  if (typeof password !== 'string' || !password) {
+    return NextResponse.json({ error: 'Password is required' }, { status: 400 });
+  }
+
+  if (fullName !== undefined && fullName !== null && (typeof fullName !== 'string' || fullName.length > 100)) {
+    return NextResponse.json({ error: 'Full name must be a string of at most 100 characters' }, { status: 400 });
+  }
+
+  const result = await acceptAdminInvite(params.token, { fullName: fullName || null, password }, {
+    ipAddress: request.headers.get('x-forwarded-for'),
+    userAgent: request.headers.get('user-agent'),
+  });
+
+  if (!result.success) {
+    return NextResponse.json(
+      { error: result.error, details: result.errors },
+      { status: result.status || 500 }
+    );
+  }
+
+  return NextResponse.json({ success: true, email: result.invite?.email });
+});
@@ -0,0 +1,32 @@
+import { NextResponse } from 'next/server';
+import { withPublicRoute } from '@/lib/api/route-handler';
+import { resolveReportDownload } from '@/lib/admin/report-exports';
+
+// Signed links are the credential, so recipients need no admin session
+export const GET = withPublicRoute<{ token: string }>({
+  name: 'report download API',
+  rateLimit: 'downloads',
+}, async ({ request, params }) => {
+  const { searchParams } = new URL(request.url);
+
+  const result = await resolveReportDownload(
+    params.token,
+    searchParams.get('expires'),
+    searchParams.get('signature')
+  );
+
+  if (!result.success || !result.download) {
+    return NextResponse.json({ error: result.error }, { status: result.status || 500 });
+  }
+
+  const { body, contentType, filename } = result.download;
+
+  return new NextResponse(body as BodyInit, {
+    headers: {
+      'Content-Type': contentType,
+      'Content-Length': String(body.byteLength),
+      'Content-Disposition': `attachment; filename="${filename}"`,
+      'Cache-Control': 'private, no-store',
+    },
+  });
+});
@@ -0,0 +1,20 @@
+import { NextResponse } from 'next/server';
+import { ApiError, withPublicRoute } from '@/lib/api/route-handler';
+import { runSchedulerTick, verifySchedulerSecret } from '@/lib/admin/report-scheduler';
+
+// Called by an external cron (GET, as Vercel Cron does, or POST) with
+// `Authorization: Bearer $REPORT_SCHEDULER_SECRET` instead of an admin session
+const tick = withPublicRoute({
+  name: 'report scheduler tick API',
+}, async ({ request }) => {
+  if (!verifySchedulerSecret(request.headers.get('authorization'))) {
+    throw new ApiError(401, 'Unauthorized');
+  }
+
+  const result = await runSchedulerTick();
+
+  return NextResponse.json(result);
+});
+
+export const GET = tick;
+export const POST = tick;
@@ -92,6 +92,18 @@ export default function AdminHeader({ user }: AdminHeaderProps) {
                   >
                     Settings
                   </a>
+                  <a
+                    href="/admin/sessions"
+                    className="block px-4 py-2 text-sm text-gray-300 hover:bg-gray-700 hover:text-white"
+                  >
+                    My sessions
+                  </a>
+                  <a
+                    href="/admin/change-password"
+                    className="block px-4 py-2 text-sm text-gray-300 hover:bg-gray-700 hover:text-white"
+                  >
+                    Change password
+                  </a>
                   <hr className="my-1 border-gray-700" />
                   <button
                     onClick={() => {
@@ -0,0 +1,110 @@
+'use client'
+
+import { Eye, Clock, LogOut } from 'lucide-react'
+import { useState, useEffect, useCallback } from 'react'
+import { useRouter, usePathname } from 'next/navigation'
+import Link from 'next/link'
+import type { ImpersonationSession } from '@/lib/admin/impersonation'
+
+interface ImpersonationBannerProps {
+  impersonation: ImpersonationSession | null
+}
+
+const VIEW_PATH = '/admin/users/impersonation'
+
+function formatRemaining(ms: number) {
+  const totalSeconds = Math.max(0, Math.floor(ms / 1000))
+  const minutes = Math.floor(totalSeconds / 60)
+  const seconds = totalSeconds % 60
+  return `${minutes}:${seconds.toString().padStart(2, '0')}`
+}
+
+export default function ImpersonationBanner({ impersonation }: ImpersonationBannerProps) {
+  const router = useRouter()
+  const pathname = usePathname()
+  const [session, setSession] = useState(impersonation)
+  const [remaining, setRemaining] = useState(() =>
+    impersonation ? new Date(impersonation.expiresAt).getTime() - Date.now() : 0
+  )
+  const [ending, setEnding] = useState(false)
+
+  useEffect(() => {
+    setSession(impersonation)
+  }, [impersonation])
+
+  const endSession = useCallback(async () => {
+    setEnding(true)
+    try {
+      await fetch('/api/admin/impersonation', { method: 'DELETE' })
+    } catch (error) {
+      console.error('Error ending impersonation:', error)
+    } finally {
+      setEnding(false)
+      setSession(null)
+      if (pathname.startsWith(VIEW_PATH)) {
+        router.push('/admin/users')
+      }
+      router.refresh()
+    }
+  }, [pathname, router])
+
+  useEffect(() => {
+    if (!session) return
+
+    const tick = () => {
+      const left = new Date(session.expiresAt).getTime() - Date.now()
+      setRemaining(left)
+      // The server closes expired sessions too; this just tidies up the UI
+      if (left <= 0) {
+        endSession()
+      }
+    }
+
+    tick()
+    const interval = setInterval(tick, 1000)
+    return () => clearInterval(interval)
+  }, [session, endSession])
+
+  if (!session) return null
+
+  const label = session.targetName || session.targetEmail || session.targetUserId
+
+  return (
+    <div
+      role="status"
+      className="sticky top-0 z-40 bg-amber-500 text-gray-900 px-3 sm:px-4 md:px-6 py-2"
+    >
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2">
+        <div className="flex items-center space-x-2 text-sm">
+          <Eye className="h-4 w-4 flex-shrink-0" />
+          <span>
+            Viewing as <strong>{label}</strong>
+            {session.targetEmail && session.targetName && (
+              <span className="hidden md:inline"> ({session.targetEmail})</span>
+            )}
+            {' '}&middot; read-only
+          </span>
+        </div>
+        <div className="flex items-center space-x-3 text-sm">
+          <span className="flex items-center space-x-1 font-mono">
+            <Clock className="h-4 w-4" />
+            <span>{formatRemaining(remaining)}</span>
+          </span>
+          {!pathname.startsWith(VIEW_PATH) && (
+            <Link href={VIEW_PATH} className="underline font-medium hover:text-gray-700">
+              Open view
+            </Link>
+          )}
+          <button
+            onClick={endSession}
+            disabled={ending}
+            className="px-3 py-1 bg-gray-900 text-white rounded-md hover:bg-gray-800 transition-colors flex items-center space-x-1 disabled:opacity-50"
+          >
+            <LogOut className="h-4 w-4" />
+            <span>{ending ? 'Ending...' : 'End impersonation'}</span>
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -14,6 +14,7 @@ import {
   Menu,
   X
 } from 'lucide-react'
+import { RBACManager } from '@/lib/auth/rbac'
 
 const menuItems = [
   {
@@ -48,10 +49,14 @@ const menuItems = [
   },
 ]
 
-export default function MobileSidebar() {
+export default function MobileSidebar({ permissions }: { permissions: string[] }) {
   const pathname = usePathname()
   const [isOpen, setIsOpen] = useState(false)
 
+  // Only show the sections the admin's effective permissions can open
+  const granted = RBACManager.fromKeys(permissions)
+  const visibleItems = menuItems.filter(item => RBACManager.canAccessRouteWith(granted, item.href))
+
   useEffect(() => {
     setIsOpen(false)
   }, [pathname])
@@ -102,7 +107,7 @@ export default function MobileSidebar() {
           </div>
 
           <nav className="flex-1 p-4 space-y-1 overflow-y-auto">
-            {menuItems.map((item) => {
+            {visibleItems.map((item) => {
               const Icon = item.icon
               const isActive = pathname === item.href ||
                 (item.href !== '/admin' && pathname.startsWith(item.href))
@@ -143,7 +148,7 @@ export default function MobileSidebar() {
           </div>
 
           <nav className="flex-1 p-4 space-y-1">
-            {menuItems.map((item) => {
+            {visibleItems.map((item) => {
               const Icon = item.icon
               const isActive = pathname === item.href ||
                 (item.href !== '/admin' && pathname.startsWith(item.href))
@@ -0,0 +1,172 @@
+'use client'
+
+import { Clock } from 'lucide-react'
+import { useState, useEffect, useCallback, useRef } from 'react'
+import { IdleTracker } from '@/lib/realtime/session-duration'
+import type { LoginSessionStatus } from '@/lib/auth/session'
+
+const STATUS_URL = '/api/admin/auth/session/heartbeat'
+const EXPIRED_URL = '/admin/login?error=session'
+
+// Interaction is reported to the server at most this often...
+const HEARTBEAT_INTERVAL_MS = 5 * 60 * 1000
+// ...and only when it happened this recently
+const RECENT_ACTIVITY_MS = 60 * 1000
+
+function formatRemaining(ms: number) {
+  const totalSeconds = Math.max(0, Math.floor(ms / 1000))
+  const minutes = Math.floor(totalSeconds / 60)
+  const seconds = totalSeconds % 60
+  return `${minutes}:${seconds.toString().padStart(2, '0')}`
+}
+
+export default function SessionTimeoutWarning() {
+  const [status, setStatus] = useState<LoginSessionStatus | null>(null)
+  const [remaining, setRemaining] = useState(0)
+  const [showWarning, setShowWarning] = useState(false)
+  const [extending, setExtending] = useState(false)
+  const trackerRef = useRef<IdleTracker | null>(null)
+  const lastHeartbeatRef = useRef(Date.now())
+  const checkingRef = useRef(false)
+
+  // GET only reads the expiry; POST also counts as activity
+  const refreshStatus = useCallback(async (method: 'GET' | 'POST') => {
+    try {
+      const response = await fetch(STATUS_URL, { method })
+      if (response.status === 401) {
+        window.location.href = EXPIRED_URL
+        return null
+      }
+      if (!response.ok) throw new Error('Failed to check session')
+
+      const data: LoginSessionStatus = await response.json()
+      if (data.state !== 'active' || !data.expiresAt) {
+        window.location.href = EXPIRED_URL
+        return null
+      }
+
+      setStatus(data)
+      return data
+    } catch (error) {
+      console.error('Error checking session:', error)
+      return null
+    }
+  }, [])
+
+  useEffect(() => {
+    refreshStatus('GET')
+
+    // Another tab may have kept the session alive meanwhile
+    const handleVisibility = () => {
+      if (document.visibilityState === 'visible') refreshStatus('GET')
+    }
+    document.addEventListener('visibilitychange', handleVisibility)
+
+    return () => {
+      document.removeEventListener('visibilitychange', handleVisibility)
+      trackerRef.current?.stop()
+    }
+  }, [refreshStatus])
+
+  useEffect(() => {
+    if (!status?.expiresAt) return
+
+    if (!trackerRef.current && status.idleTimeoutMinutes) {
+      trackerRef.current = new IdleTracker(status.idleTimeoutMinutes)
+      trackerRef.current.start()
+    }
+
+    const warningMs = (status.warningSeconds || 120) * 1000
+
+    const tick = async () => {
+      const left = new Date(status.expiresAt!).getTime() - Date.now()
+      setRemaining(left)
+
+      if (checkingRef.current) return
+
+      // Keep the server's idle clock in step with what the admin is doing
+      const tracker = trackerRef.current
+      if (!showWarning && tracker && tracker.getIdleTime() < RECENT_ACTIVITY_MS &&
+          Date.now() - lastHeartbeatRef.current > HEARTBEAT_INTERVAL_MS) {
+        lastHeartbeatRef.current = Date.now()
+        checkingRef.current = true
+        await refreshStatus('POST')
+        checkingRef.current = false
+        return
+      }
+
+      // Confirm with the server before warning or signing out
+      if ((left <= warningMs && !showWarning) || left <= 0) {
+        checkingRef.current = true
+        const latest = await refreshStatus('GET')
+        checkingRef.current = false
+
+        if (latest?.expiresAt) {
+          setShowWarning(new Date(latest.expiresAt).getTime() - Date.now() <= warningMs)
+        }
+      }
+    }
+
+    const interval = setInterval(tick, 1000)
+    return () => clearInterval(interval)
+  }, [status, showWarning, refreshStatus])
+
+  const staySignedIn = async () => {
+    setExtending(true)
+    lastHeartbeatRef.current = Date.now()
+    const latest = await refreshStatus('POST')
+    setExtending(false)
+
+    const warningMs = (latest?.warningSeconds || 120) * 1000
+    if (latest?.expiresAt && new Date(latest.expiresAt).getTime() - Date.now() > warningMs) {
+      setShowWarning(false)
+    }
+  }
+
+  const signOut = async () => {
+    try {
+      await fetch('/api/admin/auth/logout', { method: 'POST' })
+    } finally {
+      window.location.href = '/admin/login'
+    }
+  }
+
+  if (!showWarning || !status) return null
+
+  // Activity cannot extend a session past its maximum length
+  const atMaximumLength = status.expiresAt === status.absoluteExpiresAt
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 p-4">
+      <div role="alertdialog" aria-modal="true" className="w-full max-w-md bg-gray-800 border border-gray-700 rounded-lg shadow-xl p-6 space-y-4">
+        <div className="flex items-center space-x-3">
+          <Clock className="h-6 w-6 text-yellow-400" />
+          <h2 className="text-lg font-semibold text-white">Your session is about to end</h2>
+        </div>
+        <p className="text-sm text-gray-300">
+          {atMaximumLength
+            ? 'You have reached the maximum session length and will need to sign in again in'
+            : 'You will be signed out for inactivity in'}
+          {' '}<span className="font-mono text-white">{formatRemaining(remaining)}</span>.
+        </p>
+        <div className="flex justify-end space-x-3">
+          <button
+            onClick={signOut}
+            className="px-4 py-2 text-sm text-gray-300 bg-gray-700 rounded-lg hover:bg-gray-600"
+          >
+            Sign out now
+          </button>
+          {!atMaximumLength && (
+            <button
+              onClick={staySignedIn}
+              disabled={extending}
+              className="px-4 py-2 text-sm text-white bg-indigo-600 rounded-lg hover:bg-indigo-700 disabled:opacity-50"
+            >
+              {extending ? 'Extending...' : 'Stay signed in'}
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -1,6 +1,7 @@
 'use client';
 
-import { X, Mail, Calendar, Activity, FileText, Shield, Ban, Clock } from 'lucide-react';
+import { useState, useEffect } from 'react';
+import { X, Mail, Calendar, Activity, FileText, Shield, Ban, Clock, Eye } from 'lucide-react';
 import { User } from './UserTable';
 
 interface UserDetailsModalProps {
@@ -11,6 +12,8 @@ interface UserDetailsModalProps {
   onUnbanUser: (userId: string) => void;
   onChangeRole: (userId: string, role: 'user' | 'admin') => void;
   onEmailUser: (userId: string) => void;
+  // Only passed when the admin may impersonate; rejects with a displayable error
+  onImpersonate?: (userId: string, reason: string) => Promise<void>;
 }
 
 export default function UserDetailsModal({
@@ -21,9 +24,35 @@ export default function UserDetailsModal({
   onUnbanUser,
   onChangeRole,
   onEmailUser,
+  onImpersonate,
 }: UserDetailsModalProps) {
+  const [showImpersonate, setShowImpersonate] = useState(false);
+  const [impersonationReason, setImpersonationReason] = useState('');
+  const [impersonationError, setImpersonationError] = useState<string | null>(null);
+  const [startingImpersonation, setStartingImpersonation] = useState(false);
+
+  useEffect(() => {
+    setShowImpersonate(false);
+    setImpersonationReason('');
+    setImpersonationError(null);
+  }, [user?.id, isOpen]);
+
   if (!isOpen || !user) return null;
 
+  const handleStartImpersonation = async () => {
+    if (!onImpersonate || !impersonationReason.trim()) return;
+
+    setStartingImpersonation(true);
+    setImpersonationError(null);
+    try {
+      await onImpersonate(user.id, impersonationReason.trim());
+    } catch (error) {
+      setImpersonationError(error instanceof Error ? error.message : 'Failed to start impersonation');
+    } finally {
+      setStartingImpersonation(false);
+    }
+  };
+
   const getStatusColor = (status: User['status']) => {
     switch (status) {
       case 'active':
@@ -191,6 +220,15 @@ export default function UserDetailsModal({
                   <Shield className="h-4 w-4" />
                   <span>{user.role === 'admin' ? 'Remove Admin' : 'Make Admin'}</span>
                 </button>
+                {onImpersonate && (
+                  <button
+                    onClick={() => setShowImpersonate(!showImpersonate)}
+                    className="px-4 py-2 bg-gray-700 text-white rounded-lg hover:bg-gray-600 transition-colors flex items-center space-x-2"
+                  >
+                    <Eye className="h-4 w-4" />
+                    <span>View as User</span>
+                  </button>
+                )}
               </div>
               {user.status === 'banned' ? (
                 <button
@@ -210,6 +248,42 @@ export default function UserDetailsModal({
                 </button>
               )}
             </div>
+
+            {/* Impersonation */}
+            {onImpersonate && showImpersonate && (
+              <div className="mt-4 bg-gray-700/50 rounded-lg p-4 space-y-3">
+                <p className="text-sm text-gray-300">
+                  Opens a read-only view of this user&apos;s account for 15 minutes. The reason and
+                  every request made while viewing are recorded in the audit log.
+                </p>
+                <input
+                  type="text"
+                  value={impersonationReason}
+                  onChange={(e) => setImpersonationReason(e.target.value)}
+                  placeholder="Reason, e.g. support ticket number"
+                  maxLength={500}
+                  className="w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                />
+                {impersonationError && (
+                  <p className="text-sm text-red-400">{impersonationError}</p>
+                )}
+                <div className="flex justify-end space-x-2">
+                  <button
+                    onClick={() => setShowImpersonate(false)}
+                    className="px-4 py-2 text-gray-300 hover:text-white transition-colors"
+                  >
+                    Cancel
+                  </button>
+                  <button
+                    onClick={handleStartImpersonation}
+                    disabled={!impersonationReason.trim() || startingImpersonation}
+                    className="px-4 py-2 bg-amber-500 text-gray-900 rounded-lg hover:bg-amber-400 transition-colors disabled:opacity-50"
+                  >
+                    {startingImpersonation ? 'Starting...' : 'Start Read-only Session'}
+                  </button>
+                </div>
+              </div>
+            )}
           </div>
         </div>
       </div>
@@ -15,7 +15,7 @@ const loginSchema = z.object({
 type LoginFormData = z.infer<typeof loginSchema>;
 
 interface LoginFormProps {
-  onSuccess?: (data: { user: any; requiresTwoFactor?: boolean; temporaryToken?: string }) => void;
+  onSuccess?: (data: { user: any; requiresTwoFactor?: boolean; twoFactorMethods?: string[] }) => void;
   onError?: (error: string) => void;
   className?: string;
 }
@@ -83,11 +83,11 @@ export function LoginForm({ onSuccess, onError, className }: LoginFormProps) {
 
       if (result.success) {
         if (result.requiresTwoFactor) {
-          // Handle 2FA requirement
+          // Handle 2FA requirement; the pending sign-in lives in the session cookie
           onSuccess?.({
             user: result.user,
             requiresTwoFactor: true,
-            temporaryToken: result.temporaryToken,
+            twoFactorMethods: result.twoFactorMethods,
           });
         } else {
           // Regular login success
@@ -0,0 +1,81 @@
+'use client';
+
+import React, { useState, useCallback } from 'react';
+import { startAuthentication } from '@simplewebauthn/browser';
+
+interface PasskeyLoginProps {
+  // The passkey is a second factor after a password, for this browser's pending sign-in
+  secondFactor?: boolean;
+  onSuccess: (data: { user: any }) => void;
+  onError?: (error: string) => void;
+  className?: string;
+}
+
+export function PasskeyLogin({ secondFactor, onSuccess, onError, className }: PasskeyLoginProps) {
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const authenticate = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const optionsResponse = await fetch('/api/admin/auth/webauthn/authenticate/options', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ secondFactor: !!secondFactor }),
+      });
+      const optionsData = await optionsResponse.json();
+
+      if (!optionsResponse.ok) {
+        throw new Error(optionsData.error || 'Failed to start passkey sign-in');
+      }
+
+      const assertion = await startAuthentication({ optionsJSON: optionsData.options });
+
+      const verifyResponse = await fetch('/api/admin/auth/webauthn/authenticate/verify', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          challengeId: optionsData.challengeId,
+          response: assertion,
+          secondFactor: !!secondFactor,
+        }),
+      });
+      const verifyData = await verifyResponse.json();
+
+      if (!verifyResponse.ok) {
+        throw new Error(verifyData.error || 'Passkey could not be verified');
+      }
+
+      onSuccess({ user: verifyData.user });
+    } catch (error) {
+      // The browser rejects with NotAllowedError when the prompt is dismissed
+      const message = error instanceof Error && error.name === 'NotAllowedError'
+        ? 'Passkey sign-in was cancelled'
+        : error instanceof Error ? error.message : 'Passkey sign-in failed';
+      setError(message);
+      onError?.(message);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [secondFactor, onSuccess, onError]);
+
+  return (
+    <div className={className}>
+      <button
+        type="button"
+        onClick={authenticate}
+        disabled={isLoading}
+        className="w-full flex justify-center items-center py-3 px-4 border border-gray-600 text-sm font-medium rounded-md text-white bg-gray-700 hover:bg-gray-600 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50 disabled:cursor-not-allowed"
+      >
+        <svg className="h-5 w-5 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M15 7a2 2 0 012 2m4 0a6 6 0 01-7.743 5.743L11 17H9v2H7v2H4a1 1 0 01-1-1v-2.586a1 1 0 01.293-.707l5.964-5.964A6 6 0 1121 9z" />
+        </svg>
+        {isLoading ? 'Waiting for passkey...' : 'Use a passkey'}
+      </button>
+      {error && (
+        <p className="mt-2 text-sm text-red-300 text-center">{error}</p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,52 @@
+'use client';
+
+import React, { useMemo } from 'react';
+import QRCode from 'qrcode';
+
+interface QrCodeSvgProps {
+  value: string;
+  size?: number;
+  className?: string;
+}
+
+// Light border around the symbol, in modules, as required by the QR spec
+const QUIET_ZONE = 4;
+
+/**
+ * Renders a QR code as inline SVG so secrets never leave the browser
+ */
+export function QrCodeSvg({ value, size = 192, className }: QrCodeSvgProps) {
+  const { path, dimension } = useMemo(() => {
+    const { modules } = QRCode.create(value, { errorCorrectionLevel: 'M' });
+    const segments: string[] = [];
+
+    for (let row = 0; row < modules.size; row++) {
+      for (let col = 0; col < modules.size; col++) {
+        if (modules.get(row, col)) {
+          segments.push(`M${col + QUIET_ZONE} ${row + QUIET_ZONE}h1v1h-1z`);
+        }
+      }
+    }
+
+    return {
+      path: segments.join(''),
+      dimension: modules.size + QUIET_ZONE * 2,
+    };
+  }, [value]);
+
+  return (
+    <svg
+      xmlns="http://www.w3.org/2000/svg"
+      viewBox={`0 0 ${dimension} ${dimension}`}
+      width={size}
+      height={size}
+      shapeRendering="crispEdges"
+      role="img"
+      aria-label="QR code"
+      className={className}
+    >
+      <rect width={dimension} height={dimension} fill="#ffffff" />
+      <path d={path} fill="#000000" />
+    </svg>
+  );
+}
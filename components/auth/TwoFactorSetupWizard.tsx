@@ -0,0 +1,272 @@
+'use client';
+
+import React, { useState, useEffect, useCallback } from 'react';
+import { QrCodeSvg } from '@/components/auth/QrCodeSvg';
+
+type WizardStep = 'scan' | 'verify' | 'backup';
+
+interface TwoFactorSetupWizardProps {
+  onComplete: () => void;
+  onCancel?: () => void;
+  className?: string;
+}
+
+interface EnrollmentData {
+  qrCodeUrl: string;
+  manualEntryKey: string;
+}
+
+const STEPS: { id: WizardStep; label: string }[] = [
+  { id: 'scan', label: 'Scan' },
+  { id: 'verify', label: 'Verify' },
+  { id: 'backup', label: 'Backup codes' },
+];
+
+export function TwoFactorSetupWizard({ onComplete, onCancel, className }: TwoFactorSetupWizardProps) {
+  const [step, setStep] = useState<WizardStep>('scan');
+  const [enrollment, setEnrollment] = useState<EnrollmentData | null>(null);
+  const [code, setCode] = useState('');
+  const [backupCodes, setBackupCodes] = useState<string[]>([]);
+  const [downloaded, setDownloaded] = useState(false);
+  const [acknowledged, setAcknowledged] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const startEnrollment = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const response = await fetch('/api/admin/auth/2fa/setup', { method: 'POST' });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to start 2FA setup');
+      }
+
+      setEnrollment({ qrCodeUrl: data.qrCodeUrl, manualEntryKey: data.manualEntryKey });
+      setCode('');
+      setStep('scan');
+    } catch (error) {
+      console.error('Error starting 2FA setup:', error);
+      setError(error instanceof Error ? error.message : 'Failed to start 2FA setup');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    startEnrollment();
+  }, [startEnrollment]);
+
+  const confirmEnrollment = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsLoading(true);
+    setError(null);
+    try {
+      const response = await fetch('/api/admin/auth/2fa/confirm', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ code }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Invalid verification code');
+      }
+
+      setBackupCodes(data.backupCodes || []);
+      setStep('backup');
+    } catch (error) {
+      console.error('Error confirming 2FA setup:', error);
+      setError(error instanceof Error ? error.message : 'Invalid verification code');
+      setCode('');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const downloadBackupCodes = () => {
+    const contents = [
+      'VowNow admin backup codes',
+      `Generated ${new Date().toISOString()}`,
+      '',
+      'Each code can be used once if you lose access to your authenticator app.',
+      '',
+      ...backupCodes,
+      '',
+    ].join('\n');
+
+    const url = URL.createObjectURL(new Blob([contents], { type: 'text/plain' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'vownow-backup-codes.txt';
+    link.click();
+    URL.revokeObjectURL(url);
+    setDownloaded(true);
+  };
+
+  const currentIndex = STEPS.findIndex(s => s.id === step);
+
+  return (
+    <div className={`space-y-6 ${className || ''}`}>
+      <ol className="flex items-center space-x-4 text-sm">
+        {STEPS.map((s, index) => (
+          <li
+            key={s.id}
+            className={`flex items-center space-x-2 ${
+              index <= currentIndex ? 'text-white' : 'text-gray-500'
+            }`}
+          >
+            <span
+              className={`flex h-6 w-6 items-center justify-center rounded-full text-xs ${
+                index < currentIndex
+                  ? 'bg-green-600'
+                  : index === currentIndex
+                    ? 'bg-blue-600'
+                    : 'bg-gray-700'
+              }`}
+            >
+              {index + 1}
+            </span>
+            <span>{s.label}</span>
+          </li>
+        ))}
+      </ol>
+
+      {error && (
+        <div className="rounded-md bg-red-900/50 border border-red-700 p-4">
+          <p className="text-sm text-red-300">{error}</p>
+        </div>
+      )}
+
+      {step === 'scan' && (
+        <div className="space-y-4">
+          {isLoading || !enrollment ? (
+            <div className="flex justify-center items-center py-12">
+              {isLoading ? (
+                <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+              ) : (
+                <button
+                  onClick={startEnrollment}
+                  className="px-4 py-2 text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 rounded-md"
+                >
+                  Try again
+                </button>
+              )}
+            </div>
+          ) : (
+            <>
+              <p className="text-sm text-gray-400">
+                Scan this QR code with your authenticator app (Google Authenticator, Authy, 1Password, etc.)
+              </p>
+              <div className="flex justify-center">
+                <div className="bg-white p-2 rounded-lg">
+                  <QrCodeSvg value={enrollment.qrCodeUrl} />
+                </div>
+              </div>
+              <div>
+                <p className="text-sm text-gray-400 mb-2">Or enter this key manually:</p>
+                <div className="bg-gray-700 p-3 rounded font-mono text-sm text-gray-300 break-all select-all">
+                  {enrollment.manualEntryKey}
+                </div>
+              </div>
+              <div className="flex justify-end space-x-2">
+                {onCancel && (
+                  <button
+                    onClick={onCancel}
+                    className="px-4 py-2 text-sm font-medium text-gray-300 hover:bg-gray-700 rounded-md"
+                  >
+                    Cancel
+                  </button>
+                )}
+                <button
+                  onClick={() => setStep('verify')}
+                  className="px-4 py-2 text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 rounded-md"
+                >
+                  Next
+                </button>
+              </div>
+            </>
+          )}
+        </div>
+      )}
+
+      {step === 'verify' && (
+        <form onSubmit={confirmEnrollment} className="space-y-4">
+          <p className="text-sm text-gray-400">
+            Enter the 6-digit code shown in your authenticator app to confirm it is set up correctly.
+          </p>
+          <input
+            type="text"
+            inputMode="numeric"
+            autoComplete="one-time-code"
+            pattern="[0-9]*"
+            maxLength={6}
+            value={code}
+            onChange={(e) => setCode(e.target.value.replace(/\D/g, ''))}
+            autoFocus
+            className="block w-full px-4 py-3 text-center text-lg font-mono border border-gray-700 placeholder-gray-500 text-white bg-gray-700 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 tracking-widest"
+            placeholder="000000"
+          />
+          <div className="flex justify-between">
+            <button
+              type="button"
+              onClick={() => setStep('scan')}
+              className="px-4 py-2 text-sm font-medium text-gray-300 hover:bg-gray-700 rounded-md"
+            >
+              Back
+            </button>
+            <button
+              type="submit"
+              disabled={isLoading || code.length !== 6}
+              className="px-4 py-2 text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 rounded-md disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {isLoading ? 'Verifying...' : 'Verify and enable'}
+            </button>
+          </div>
+        </form>
+      )}
+
+      {step === 'backup' && (
+        <div className="space-y-4">
+          <p className="text-sm text-gray-400">
+            Two-factor authentication is now enabled. Save these backup codes somewhere safe; each one
+            can be used once if you lose your device. They will not be shown again.
+          </p>
+          <div className="grid grid-cols-2 gap-2">
+            {backupCodes.map((backupCode) => (
+              <div
+                key={backupCode}
+                className="bg-gray-700 p-2 rounded text-sm font-mono text-center text-gray-300"
+              >
+                {backupCode}
+              </div>
+            ))}
+          </div>
+          <button
+            onClick={downloadBackupCodes}
+            className="w-full py-2 px-4 text-sm font-medium text-white bg-gray-700 hover:bg-gray-600 rounded-md"
+          >
+            {downloaded ? 'Downloaded' : 'Download as .txt'}
+          </button>
+          <label className="flex items-center space-x-2 text-sm text-gray-300">
+            <input
+              type="checkbox"
+              checked={acknowledged}
+              onChange={(e) => setAcknowledged(e.target.checked)}
+              className="h-4 w-4 rounded border-gray-600 text-blue-600 focus:ring-blue-500"
+            />
+            <span>I have saved my backup codes</span>
+          </label>
+          <button
+            onClick={onComplete}
+            disabled={!downloaded && !acknowledged}
+            className="w-full py-3 px-4 text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 rounded-md disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Finish
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -5,6 +5,7 @@ import { useRouter, useSearchParams } from 'next/navigation';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
+import { PasskeyLogin } from '@/components/auth/PasskeyLogin';
 
 // Validation schema
 const twoFactorSchema = z.object({
@@ -16,16 +17,17 @@ const twoFactorSchema = z.object({
 type TwoFactorFormData = z.infer<typeof twoFactorSchema>;
 
 interface TwoFactorVerificationProps {
-  temporaryToken?: string;
-  onSuccess?: (data: { user: any; token: string }) => void;
+  onSuccess?: (data: { user: any }) => void;
   onError?: (error: string) => void;
+  // Offer the admin's registered passkeys as an alternative to the code
+  allowPasskey?: boolean;
   className?: string;
 }
 
 export function TwoFactorVerification({
-  temporaryToken,
   onSuccess,
   onError,
+  allowPasskey,
   className,
 }: TwoFactorVerificationProps) {
   const router = useRouter();
@@ -84,11 +86,6 @@ export function TwoFactorVerification({
   }, [setValue, handleSubmit]);
 
   const handleVerificationSubmit = useCallback(async (data: TwoFactorFormData) => {
-    if (!temporaryToken) {
-      setError('No temporary token available. Please login again.');
-      return;
-    }
-
     setIsLoading(true);
     clearErrors();
 
@@ -99,7 +96,6 @@ export function TwoFactorVerification({
           'Content-Type': 'application/json',
         },
         body: JSON.stringify({
-          temporaryToken,
           code: data.code,
         }),
       });
@@ -107,7 +103,9 @@ export function TwoFactorVerification({
       const result = await response.json();
 
       if (!response.ok) {
-        if (response.status === 400) {
+        if (response.status === 401) {
+          setError(result.error || 'Sign-in expired. Please sign in again.');
+        } else if (response.status === 400) {
           setError(result.error || 'Invalid verification code');
         } else if (response.status === 429) {
           setError('Too many attempts. Please try again later.');
@@ -123,20 +121,11 @@ export function TwoFactorVerification({
       }
 
       if (result.success) {
-        onSuccess?.({
-          user: result.user,
-          token: result.token,
-        });
+        onSuccess?.({ user: result.user });
 
-        // Store session data
-        if (typeof window !== 'undefined' && result.user && result.token) {
+        // Store session data; the server records the verified second factor
+        if (typeof window !== 'undefined' && result.user) {
           window.localStorage.setItem('admin-user', JSON.stringify(result.user));
-          // Store 2FA verification status
-          window.localStorage.setItem('admin-2fa-verified', JSON.stringify({
-            userId: result.user.id,
-            timestamp: Date.now(),
-            verified: true,
-          }));
         }
 
         // Redirect to intended page or dashboard
@@ -150,13 +139,20 @@ export function TwoFactorVerification({
     } finally {
       setIsLoading(false);
     }
-  }, [temporaryToken, clearErrors, onError, onSuccess, searchParams, router, reset]);
+  }, [clearErrors, onError, onSuccess, searchParams, router, reset]);
 
   const handleBackupCode = useCallback(() => {
     // TODO: Implement backup code verification
     setError('Backup code verification not yet implemented');
   }, []);
 
+  const handlePasskeySuccess = useCallback((data: { user: any }) => {
+    onSuccess?.(data);
+
+    const redirectTo = searchParams.get('redirect') || '/admin/dashboard';
+    router.push(redirectTo);
+  }, [onSuccess, searchParams, router]);
+
   const handleBackToLogin = useCallback(() => {
     router.push('/admin/login');
   }, [router]);
@@ -257,6 +253,14 @@ export function TwoFactorVerification({
 
             {/* Alternative Options */}
             <div className="space-y-3">
+              {allowPasskey && (
+                <PasskeyLogin
+                  secondFactor
+                  onSuccess={handlePasskeySuccess}
+                  onError={onError}
+                />
+              )}
+
               <div className="text-center">
                 <button
                   type="button"
@@ -0,0 +1,175 @@
+'use client';
+
+import { useState } from 'react';
+import {
+  CheckIcon,
+  XMarkIcon,
+  ClockIcon,
+  NoSymbolIcon,
+  DocumentTextIcon,
+  ExclamationTriangleIcon
+} from '@heroicons/react/24/outline';
+import { formatDistanceToNow } from 'date-fns';
+import type { Appeal, AppealDecision } from '@/lib/admin/appeals';
+
+interface AppealCardProps {
+  appeal: Appeal;
+  currentUserId?: string;
+  onDecide: (decision: AppealDecision, reason?: string) => void;
+}
+
+export default function AppealCard({ appeal, currentUserId, onDecide }: AppealCardProps) {
+  const [currentDecision, setCurrentDecision] = useState<AppealDecision | null>(null);
+  const [reason, setReason] = useState('');
+
+  const isOriginalDecider = !!currentUserId && appeal.originalDeciderId === currentUserId;
+  const isPending = appeal.status === 'pending';
+  const isOverdue = isPending && new Date(appeal.slaDueAt).getTime() < Date.now();
+
+  const submitDecision = () => {
+    if (!currentDecision) return;
+    onDecide(currentDecision, reason.trim() || undefined);
+    setCurrentDecision(null);
+    setReason('');
+  };
+
+  const getStatusColor = () => {
+    switch (appeal.status) {
+      case 'pending':
+        return 'bg-yellow-100 text-yellow-800';
+      case 'approved':
+        return 'bg-green-100 text-green-800';
+      case 'denied':
+        return 'bg-red-100 text-red-800';
+      default:
+        return 'bg-gray-100 text-gray-800';
+    }
+  };
+
+  return (
+    <>
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700 p-6">
+        <div className="flex items-start justify-between mb-4">
+          <div className="flex-1">
+            <div className="flex items-center space-x-2 mb-1">
+              <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${getStatusColor()}`}>
+                {appeal.status}
+              </span>
+              <span className="inline-flex items-center space-x-1 text-xs text-gray-500">
+                {appeal.subjectType === 'ban' ? (
+                  <NoSymbolIcon className="h-4 w-4" />
+                ) : (
+                  <DocumentTextIcon className="h-4 w-4" />
+                )}
+                <span>{appeal.subjectType === 'ban' ? 'Account ban' : 'Rejected content'}</span>
+              </span>
+              {isPending && (
+                <span className={`inline-flex items-center space-x-1 text-xs ${isOverdue ? 'text-red-600 dark:text-red-400' : 'text-gray-500 dark:text-gray-400'}`}>
+                  <ClockIcon className="h-4 w-4" />
+                  <span>
+                    {isOverdue
+                      ? `SLA breached ${formatDistanceToNow(new Date(appeal.slaDueAt), { addSuffix: true })}`
+                      : `SLA due ${formatDistanceToNow(new Date(appeal.slaDueAt), { addSuffix: true })}`}
+                  </span>
+                </span>
+              )}
+            </div>
+            <h3 className="text-lg font-medium text-gray-900 dark:text-white mb-1">
+              {appeal.user.name}
+              <span className="ml-2 text-sm font-normal text-gray-500 dark:text-gray-400">{appeal.user.email}</span>
+            </h3>
+            {appeal.moderationItem && (
+              <p className="text-sm text-gray-600 dark:text-gray-400 mb-2">
+                Appealing &quot;{appeal.moderationItem.title}&quot;
+                {appeal.moderationItem.reason && ` (rejected: ${appeal.moderationItem.reason})`}
+              </p>
+            )}
+            <p className="text-sm text-gray-700 dark:text-gray-300 bg-gray-50 dark:bg-gray-900 p-3 rounded-md">
+              {appeal.message}
+            </p>
+            {appeal.decisionReason && (
+              <p className="text-xs text-gray-500 dark:text-gray-400 mt-2">
+                Decision: {appeal.decisionReason}
+              </p>
+            )}
+          </div>
+        </div>
+
+        <div className="flex items-center justify-between border-t border-gray-200 dark:border-gray-700 pt-4">
+          <span className="flex items-center space-x-1 text-xs text-gray-500 dark:text-gray-400">
+            <ClockIcon className="h-4 w-4" />
+            <span>Filed {formatDistanceToNow(new Date(appeal.createdAt), { addSuffix: true })}</span>
+          </span>
+
+          {isPending && (
+            isOriginalDecider ? (
+              <span className="flex items-center space-x-1 text-xs text-orange-600 dark:text-orange-400">
+                <ExclamationTriangleIcon className="h-4 w-4" />
+                <span>You made the original decision; another admin must review this appeal</span>
+              </span>
+            ) : (
+              <div className="flex items-center space-x-2">
+                <button
+                  onClick={() => setCurrentDecision('approve')}
+                  className="inline-flex items-center px-3 py-2 border border-transparent text-sm leading-4 font-medium rounded-md text-white bg-green-600 hover:bg-green-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-green-500"
+                >
+                  <CheckIcon className="h-4 w-4 mr-1" />
+                  Approve
+                </button>
+                <button
+                  onClick={() => setCurrentDecision('deny')}
+                  className="inline-flex items-center px-3 py-2 border border-transparent text-sm leading-4 font-medium rounded-md text-white bg-red-600 hover:bg-red-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-red-500"
+                >
+                  <XMarkIcon className="h-4 w-4 mr-1" />
+                  Deny
+                </button>
+              </div>
+            )
+          )}
+        </div>
+      </div>
+
+      {currentDecision && (
+        <div className="fixed inset-0 bg-gray-500 bg-opacity-75 flex items-center justify-center z-50">
+          <div className="bg-white dark:bg-gray-800 rounded-lg p-6 max-w-md w-full">
+            <h3 className="text-lg font-medium text-gray-900 dark:text-white mb-2">
+              {currentDecision === 'approve' ? 'Approve appeal' : 'Deny appeal'}
+            </h3>
+            <p className="text-sm text-gray-500 dark:text-gray-400 mb-4">
+              {currentDecision === 'approve'
+                ? appeal.subjectType === 'ban'
+                  ? 'The user will be unbanned and notified.'
+                  : 'The content will be restored and the user notified.'
+                : 'The original decision stands and the user will be notified.'}
+            </p>
+            <textarea
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:ring-indigo-500 focus:border-indigo-500 dark:bg-gray-700 dark:text-white"
+              rows={4}
+              placeholder={currentDecision === 'deny' ? 'Enter reason...' : 'Optional note to the user...'}
+            />
+            <div className="mt-4 flex justify-end space-x-2">
+              <button
+                onClick={() => {
+                  setCurrentDecision(null);
+                  setReason('');
+                }}
+                className="px-4 py-2 text-sm font-medium text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700 rounded-md"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={submitDecision}
+                disabled={currentDecision === 'deny' && !reason.trim()}
+                className="px-4 py-2 text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700 rounded-md disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                Submit
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </>
+  );
+}
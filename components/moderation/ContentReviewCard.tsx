@@ -10,57 +10,53 @@ import {
   UserIcon,
   MusicalNoteIcon,
   ExclamationTriangleIcon,
-  ClockIcon
+  ClockIcon,
+  EyeIcon,
+  LockClosedIcon,
+  LockOpenIcon
 } from '@heroicons/react/24/outline';
 import Image from 'next/image';
 import { formatDistanceToNow } from 'date-fns';
+import type { ModerationItem } from '@/lib/admin/moderation';
 
 interface ContentReviewCardProps {
-  content: {
-    id: string;
-    type: 'video' | 'comment' | 'profile' | 'audio';
-    status: 'pending' | 'approved' | 'rejected' | 'flagged';
-    title: string;
-    description: string;
-    author: {
-      id: string;
-      name: string;
-      email: string;
-      avatar: string;
-    };
-    content: {
-      url?: string;
-      text?: string;
-      duration?: number;
-      thumbnail?: string;
-    };
-    reports: number;
-    created_at: string;
-    reported_at?: string;
-    moderation_history: Array<{
-      id: string;
-      action: string;
-      moderator: string;
-      timestamp: string;
-      reason?: string;
-    }>;
-  };
+  content: ModerationItem;
   onApprove: (reason?: string) => void;
   onReject: (reason?: string) => void;
   onFlag: (reason?: string) => void;
+  currentUserId?: string;
+  reviewers?: string[];
+  onClaim?: () => void;
+  onRelease?: () => void;
+  assignees?: Array<{ id: string; email: string }>;
+  onAssign?: (assignee: { id: string; email: string }) => void;
 }
 
 export default function ContentReviewCard({
   content,
   onApprove,
   onReject,
-  onFlag
+  onFlag,
+  currentUserId,
+  reviewers = [],
+  onClaim,
+  onRelease,
+  assignees,
+  onAssign
 }: ContentReviewCardProps) {
   const [showReasonModal, setShowReasonModal] = useState(false);
   const [currentAction, setCurrentAction] = useState<'approve' | 'reject' | 'flag' | null>(null);
   const [reason, setReason] = useState('');
   const [showHistory, setShowHistory] = useState(false);
 
+  const claimedByMe = !!content.claim && content.claim.moderatorId === currentUserId;
+  const lockedByOther = !!content.claim && !claimedByMe;
+  // Live presence and the persisted lease can both name a reviewer
+  const activeReviewers = Array.from(new Set([
+    ...reviewers,
+    ...(lockedByOther ? [content.claim!.moderatorEmail] : []),
+  ]));
+
   const handleAction = (action: 'approve' | 'reject' | 'flag') => {
     if (action === 'approve') {
       onApprove();
@@ -147,6 +143,18 @@ export default function ContentReviewCard({
                     <span>{content.reports} reports</span>
                   </span>
                 )}
+                {activeReviewers.length > 0 && (
+                  <span className="inline-flex items-center space-x-1 px-2.5 py-0.5 rounded-full text-xs font-medium bg-blue-100 text-blue-800">
+                    <EyeIcon className="h-4 w-4" />
+                    <span>Being reviewed by {activeReviewers.join(', ')}</span>
+                  </span>
+                )}
+                {claimedByMe && (
+                  <span className="inline-flex items-center space-x-1 text-xs text-indigo-600 dark:text-indigo-400">
+                    <LockClosedIcon className="h-4 w-4" />
+                    <span>Claimed by you, expires {formatDistanceToNow(new Date(content.claim!.expiresAt), { addSuffix: true })}</span>
+                  </span>
+                )}
               </div>
               <h3 className="text-lg font-medium text-gray-900 dark:text-white mb-1">
                 {content.title}
@@ -205,23 +213,61 @@ export default function ContentReviewCard({
                 History ({content.moderation_history.length})
               </button>
             )}
+            {assignees && onAssign && (
+              <select
+                value=""
+                onChange={(e) => {
+                  const assignee = assignees.find(a => a.id === e.target.value);
+                  if (assignee) onAssign(assignee);
+                }}
+                className="text-sm px-2 py-2 border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-800 text-gray-700 dark:text-gray-300"
+              >
+                <option value="">Assign to...</option>
+                {assignees.map((assignee) => (
+                  <option key={assignee.id} value={assignee.id}>
+                    {assignee.email}
+                  </option>
+                ))}
+              </select>
+            )}
+            {claimedByMe && onRelease && (
+              <button
+                onClick={onRelease}
+                className="inline-flex items-center px-3 py-2 border border-gray-300 dark:border-gray-600 text-sm leading-4 font-medium rounded-md text-gray-700 dark:text-gray-300 bg-white dark:bg-gray-800 hover:bg-gray-50 dark:hover:bg-gray-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
+              >
+                <LockOpenIcon className="h-4 w-4 mr-1" />
+                Release
+              </button>
+            )}
+            {!content.claim && onClaim && (
+              <button
+                onClick={onClaim}
+                className="inline-flex items-center px-3 py-2 border border-gray-300 dark:border-gray-600 text-sm leading-4 font-medium rounded-md text-gray-700 dark:text-gray-300 bg-white dark:bg-gray-800 hover:bg-gray-50 dark:hover:bg-gray-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
+              >
+                <LockClosedIcon className="h-4 w-4 mr-1" />
+                Claim
+              </button>
+            )}
             <button
               onClick={() => handleAction('approve')}
-              className="inline-flex items-center px-3 py-2 border border-transparent text-sm leading-4 font-medium rounded-md text-white bg-green-600 hover:bg-green-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-green-500"
+              disabled={lockedByOther}
+              className="inline-flex items-center px-3 py-2 border border-transparent text-sm leading-4 font-medium rounded-md text-white bg-green-600 hover:bg-green-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-green-500 disabled:opacity-50 disabled:cursor-not-allowed"
             >
               <CheckIcon className="h-4 w-4 mr-1" />
               Approve
             </button>
             <button
               onClick={() => handleAction('reject')}
-              className="inline-flex items-center px-3 py-2 border border-transparent text-sm leading-4 font-medium rounded-md text-white bg-red-600 hover:bg-red-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-red-500"
+              disabled={lockedByOther}
+              className="inline-flex items-center px-3 py-2 border border-transparent text-sm leading-4 font-medium rounded-md text-white bg-red-600 hover:bg-red-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-red-500 disabled:opacity-50 disabled:cursor-not-allowed"
             >
               <XMarkIcon className="h-4 w-4 mr-1" />
               Reject
             </button>
             <button
               onClick={() => handleAction('flag')}
-              className="inline-flex items-center px-3 py-2 border border-gray-300 dark:border-gray-600 text-sm leading-4 font-medium rounded-md text-gray-700 dark:text-gray-300 bg-white dark:bg-gray-800 hover:bg-gray-50 dark:hover:bg-gray-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
+              disabled={lockedByOther}
+              className="inline-flex items-center px-3 py-2 border border-gray-300 dark:border-gray-600 text-sm leading-4 font-medium rounded-md text-gray-700 dark:text-gray-300 bg-white dark:bg-gray-800 hover:bg-gray-50 dark:hover:bg-gray-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 disabled:opacity-50 disabled:cursor-not-allowed"
             >
               <FlagIcon className="h-4 w-4 mr-1" />
               Flag
@@ -6,7 +6,10 @@ import {
   XCircleIcon,
   FlagIcon,
   ChartBarIcon,
+  ScaleIcon,
+  ExclamationTriangleIcon,
 } from '@heroicons/react/24/outline';
+import type { AppealStats } from '@/lib/admin/appeals';
 
 interface ModerationStatsProps {
   stats: {
@@ -16,6 +19,7 @@ interface ModerationStatsProps {
     flagged: number;
     todayReviewed: number;
     avgReviewTime: string;
+    appeals?: AppealStats;
   };
 }
 
@@ -66,8 +70,70 @@ export default function ModerationStats({ stats }: ModerationStatsProps) {
   ];
 
   return (
-    <div className="grid grid-cols-1 gap-5 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-6">
-      {statItems.map((item) => (
+    <div className="space-y-5">
+      <div className="grid grid-cols-1 gap-5 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-6">
+        {statItems.map((item) => (
+          <div
+            key={item.name}
+            className="relative bg-white dark:bg-gray-800 pt-5 px-4 pb-4 overflow-hidden rounded-lg shadow-sm border border-gray-200 dark:border-gray-700"
+          >
+            <dt>
+              <div className={`absolute rounded-md p-3 ${item.color} ${item.darkColor}`}>
+                <item.icon className="h-6 w-6" aria-hidden="true" />
+              </div>
+              <p className="ml-16 text-sm font-medium text-gray-500 dark:text-gray-400 truncate">
+                {item.name}
+              </p>
+            </dt>
+            <dd className="ml-16 flex items-baseline">
+              <p className="text-2xl font-semibold text-gray-900 dark:text-white">
+                {typeof item.value === 'number' ? item.value.toLocaleString() : item.value}
+              </p>
+            </dd>
+          </div>
+        ))}
+      </div>
+      {stats.appeals && <AppealSlaStats stats={stats.appeals} />}
+    </div>
+  );
+}
+
+// SLA timers for the appeals queue
+export function AppealSlaStats({ stats }: { stats: AppealStats }) {
+  const appealItems = [
+    {
+      name: 'Appeals Pending',
+      value: stats.pending,
+      icon: ScaleIcon,
+      color: 'text-blue-600 bg-blue-100',
+      darkColor: 'dark:text-blue-400 dark:bg-blue-900/20',
+    },
+    {
+      name: 'Appeals Over SLA',
+      value: stats.overdue,
+      icon: ExclamationTriangleIcon,
+      color: stats.overdue > 0 ? 'text-red-600 bg-red-100' : 'text-green-600 bg-green-100',
+      darkColor: stats.overdue > 0 ? 'dark:text-red-400 dark:bg-red-900/20' : 'dark:text-green-400 dark:bg-green-900/20',
+    },
+    {
+      name: 'Oldest Appeal Waiting',
+      value: stats.oldestPendingAge,
+      icon: ClockIcon,
+      color: 'text-orange-600 bg-orange-100',
+      darkColor: 'dark:text-orange-400 dark:bg-orange-900/20',
+    },
+    {
+      name: 'Avg Appeal Resolution',
+      value: stats.avgResolutionTime,
+      icon: ClockIcon,
+      color: 'text-purple-600 bg-purple-100',
+      darkColor: 'dark:text-purple-400 dark:bg-purple-900/20',
+    },
+  ];
+
+  return (
+    <div className="grid grid-cols-1 gap-5 sm:grid-cols-2 lg:grid-cols-4">
+      {appealItems.map((item) => (
         <div
           key={item.name}
           className="relative bg-white dark:bg-gray-800 pt-5 px-4 pb-4 overflow-hidden rounded-lg shadow-sm border border-gray-200 dark:border-gray-700"
@@ -89,4 +155,4 @@ export default function ModerationStats({ stats }: ModerationStatsProps) {
       ))}
     </div>
   );
-}
\ No newline at end of file
+}
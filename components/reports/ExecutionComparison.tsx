@@ -0,0 +1,231 @@
+'use client'
+
+import React, { useEffect, useState } from 'react'
+import { ArrowRight, AlertTriangle, CheckCircle } from 'lucide-react'
+import type { ReportExecutionSummary } from '@/lib/admin/report-engine'
+import type { ExecutionComparison as Comparison } from '@/lib/admin/report-comparison'
+import type { FieldChange } from '@/lib/admin/report-versions'
+
+interface ExecutionComparisonProps {
+  reportId: string
+}
+
+export const ExecutionComparison: React.FC<ExecutionComparisonProps> = ({ reportId }) => {
+  const [executions, setExecutions] = useState<ReportExecutionSummary[]>([])
+  const [baseId, setBaseId] = useState('')
+  const [targetId, setTargetId] = useState('')
+  const [comparison, setComparison] = useState<Comparison | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    const fetchExecutions = async () => {
+      try {
+        const response = await fetch(`/api/admin/reports/${reportId}/executions?limit=50`)
+        if (!response.ok) {
+          const data = await response.json().catch(() => ({}))
+          throw new Error(data.error || 'Failed to load runs')
+        }
+
+        const data = await response.json()
+        const completed = (data.executions as ReportExecutionSummary[]).filter(e => e.status === 'completed')
+        setExecutions(completed)
+
+        // Latest run against the one before it
+        if (completed.length >= 2) {
+          setTargetId(completed[0].id)
+          setBaseId(completed[1].id)
+        }
+      } catch (error) {
+        console.error('Error fetching report executions:', error)
+        setError(error instanceof Error ? error.message : 'Failed to load runs')
+      }
+    }
+
+    fetchExecutions()
+  }, [reportId])
+
+  useEffect(() => {
+    if (!baseId || !targetId || baseId === targetId) {
+      setComparison(null)
+      return
+    }
+
+    const fetchComparison = async () => {
+      setLoading(true)
+      setError(null)
+      try {
+        const params = new URLSearchParams({ base: baseId, target: targetId })
+        const response = await fetch(`/api/admin/reports/${reportId}/compare?${params}`)
+        if (!response.ok) {
+          const data = await response.json().catch(() => ({}))
+          throw new Error(data.error || 'Failed to compare runs')
+        }
+
+        const data = await response.json()
+        setComparison(data.comparison)
+      } catch (error) {
+        console.error('Error comparing report executions:', error)
+        setComparison(null)
+        setError(error instanceof Error ? error.message : 'Failed to compare runs')
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    fetchComparison()
+  }, [reportId, baseId, targetId])
+
+  const executionLabel = (execution: ReportExecutionSummary) =>
+    `${new Date(execution.startedAt).toLocaleString()}${execution.reportVersion ? ` · v${execution.reportVersion}` : ''}`
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-gray-800 rounded-lg border border-gray-700 p-4 flex flex-col md:flex-row md:items-end gap-4">
+        <div className="flex-1">
+          <label className="block text-sm font-medium text-gray-300 mb-2">Earlier run</label>
+          <select
+            value={baseId}
+            onChange={(e) => setBaseId(e.target.value)}
+            className="w-full px-3 py-2 bg-gray-700 text-white border border-gray-600 rounded-md"
+          >
+            <option value="">Select a run</option>
+            {executions.map(execution => (
+              <option key={execution.id} value={execution.id}>{executionLabel(execution)}</option>
+            ))}
+          </select>
+        </div>
+        <ArrowRight className="hidden md:block w-5 h-5 mb-2.5 text-gray-500" />
+        <div className="flex-1">
+          <label className="block text-sm font-medium text-gray-300 mb-2">Later run</label>
+          <select
+            value={targetId}
+            onChange={(e) => setTargetId(e.target.value)}
+            className="w-full px-3 py-2 bg-gray-700 text-white border border-gray-600 rounded-md"
+          >
+            <option value="">Select a run</option>
+            {executions.map(execution => (
+              <option key={execution.id} value={execution.id}>{executionLabel(execution)}</option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      {error && (
+        <div className="rounded-md bg-red-900/50 p-4">
+          <p className="text-sm text-red-300">{error}</p>
+        </div>
+      )}
+
+      {executions.length < 2 && !error && (
+        <p className="text-gray-400 text-sm">This report needs at least two completed runs to compare.</p>
+      )}
+
+      {loading && (
+        <div className="flex justify-center items-center py-8">
+          <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-indigo-600"></div>
+        </div>
+      )}
+
+      {comparison && !loading && (
+        <>
+          <DefinitionSummary comparison={comparison} />
+
+          <div className="bg-gray-800 rounded-lg border border-gray-700 overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b border-gray-700 text-gray-400">
+                  <th className="text-left px-4 py-3">Metric</th>
+                  <th className="text-right px-4 py-3">Earlier</th>
+                  <th className="text-right px-4 py-3">Later</th>
+                  <th className="text-right px-4 py-3">Change</th>
+                  <th className="text-right px-4 py-3">%</th>
+                </tr>
+              </thead>
+              <tbody>
+                {comparison.metrics.map(metric => (
+                  <tr key={metric.metric} className="border-b border-gray-700/50">
+                    <td className="px-4 py-2 text-gray-200">{metric.label}</td>
+                    <td className="px-4 py-2 text-right text-gray-300">{formatNumber(metric.base)}</td>
+                    <td className="px-4 py-2 text-right text-gray-300">{formatNumber(metric.target)}</td>
+                    <td className={`px-4 py-2 text-right ${deltaColor(metric.delta)}`}>
+                      {metric.delta === null ? '–' : `${metric.delta > 0 ? '+' : ''}${formatNumber(metric.delta)}`}
+                    </td>
+                    <td className={`px-4 py-2 text-right ${deltaColor(metric.delta)}`}>
+                      {metric.percentChange === null ? '–' : `${metric.percentChange > 0 ? '+' : ''}${metric.percentChange.toFixed(1)}%`}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </>
+      )}
+    </div>
+  )
+}
+
+const DefinitionSummary: React.FC<{ comparison: Comparison }> = ({ comparison }) => {
+  const { changes } = comparison
+
+  if (!comparison.definitionChanged) {
+    return (
+      <div className="flex items-start rounded-md bg-green-900/20 border border-green-800 p-4">
+        <CheckCircle className="w-5 h-5 mr-3 text-green-400 flex-shrink-0" />
+        <p className="text-sm text-green-200">
+          Both runs used the same report definition and parameters, so any difference comes from the data.
+        </p>
+      </div>
+    )
+  }
+
+  const sections: Array<[string, FieldChange[]]> = [
+    ['Report', changes.report],
+    ['Template', changes.template],
+    ['Parameters', changes.parameters]
+  ]
+
+  return (
+    <div className="rounded-md bg-yellow-900/20 border border-yellow-800 p-4 space-y-3">
+      <div className="flex items-start">
+        <AlertTriangle className="w-5 h-5 mr-3 text-yellow-400 flex-shrink-0" />
+        <p className="text-sm text-yellow-200">
+          {changes.known
+            ? 'The definition changed between these runs.'
+            : 'At least one of these runs predates report versioning, so definition changes cannot be ruled out.'}
+          {' '}Report v{comparison.base.reportVersion ?? '?'} → v{comparison.target.reportVersion ?? '?'}
+          {comparison.target.templateId && `, template v${comparison.base.templateVersion ?? '?'} → v${comparison.target.templateVersion ?? '?'}`}
+        </p>
+      </div>
+      {sections.filter(([, fieldChanges]) => fieldChanges.length > 0).map(([label, fieldChanges]) => (
+        <div key={label} className="ml-8">
+          <h4 className="text-xs font-medium text-yellow-300 uppercase mb-1">{label}</h4>
+          <ul className="space-y-1">
+            {fieldChanges.map(change => (
+              <li key={change.field} className="text-xs text-gray-300 font-mono break-all">
+                {change.field}: {formatValue(change.before)} → {formatValue(change.after)}
+              </li>
+            ))}
+          </ul>
+        </div>
+      ))}
+    </div>
+  )
+}
+
+function formatNumber(value: number | null): string {
+  return value === null ? '–' : value.toLocaleString('en-US', { maximumFractionDigits: 2 })
+}
+
+function formatValue(value: unknown): string {
+  if (value === null || value === undefined) {
+    return '(empty)'
+  }
+
+  return typeof value === 'object' ? JSON.stringify(value) : String(value)
+}
+
+function deltaColor(delta: number | null): string {
+  if (!delta) return 'text-gray-400'
+  return delta > 0 ? 'text-green-400' : 'text-red-400'
+}
@@ -2,92 +2,26 @@
 
 import React, { useState } from 'react'
 import { Plus, X, Database, Filter, Group, Calculator, Save, Play, Code } from 'lucide-react'
-
-export type DataSource = 'users' | 'content' | 'transactions' | 'analytics' | 'logs'
-export type AggregationType = 'count' | 'sum' | 'avg' | 'min' | 'max' | 'distinct'
-export type FilterOperator = 'equals' | 'not_equals' | 'contains' | 'greater_than' | 'less_than' | 'between'
-
-interface DataField {
-  name: string
-  type: 'string' | 'number' | 'date' | 'boolean'
-  label: string
-}
-
-interface QueryFilter {
-  id: string
-  field: string
-  operator: FilterOperator
-  value: string | number | [string | number, string | number]
-}
-
-interface QueryGroup {
-  field: string
-  aggregations: Array<{
-    field: string
-    type: AggregationType
-    alias?: string
-  }>
-}
-
-interface ReportQuery {
-  name: string
-  description: string
-  dataSources: DataSource[]
-  selectedFields: string[]
-  filters: QueryFilter[]
-  groupBy?: string[]
-  aggregations?: QueryGroup[]
-  orderBy?: Array<{ field: string; direction: 'asc' | 'desc' }>
-  limit?: number
-}
-
-const dataSourceFields: Record<DataSource, DataField[]> = {
-  users: [
-    { name: 'id', type: 'string', label: 'User ID' },
-    { name: 'email', type: 'string', label: 'Email' },
-    { name: 'created_at', type: 'date', label: 'Registration Date' },
-    { name: 'last_login', type: 'date', label: 'Last Login' },
-    { name: 'status', type: 'string', label: 'Status' },
-    { name: 'role', type: 'string', label: 'Role' }
-  ],
-  content: [
-    { name: 'id', type: 'string', label: 'Content ID' },
-    { name: 'title', type: 'string', label: 'Title' },
-    { name: 'type', type: 'string', label: 'Type' },
-    { name: 'author_id', type: 'string', label: 'Author ID' },
-    { name: 'created_at', type: 'date', label: 'Created Date' },
-    { name: 'views', type: 'number', label: 'View Count' },
-    { name: 'likes', type: 'number', label: 'Like Count' }
-  ],
-  transactions: [
-    { name: 'id', type: 'string', label: 'Transaction ID' },
-    { name: 'user_id', type: 'string', label: 'User ID' },
-    { name: 'amount', type: 'number', label: 'Amount' },
-    { name: 'currency', type: 'string', label: 'Currency' },
-    { name: 'status', type: 'string', label: 'Status' },
-    { name: 'created_at', type: 'date', label: 'Date' }
-  ],
-  analytics: [
-    { name: 'event_type', type: 'string', label: 'Event Type' },
-    { name: 'user_id', type: 'string', label: 'User ID' },
-    { name: 'session_id', type: 'string', label: 'Session ID' },
-    { name: 'page_url', type: 'string', label: 'Page URL' },
-    { name: 'timestamp', type: 'date', label: 'Timestamp' },
-    { name: 'duration', type: 'number', label: 'Duration (ms)' }
-  ],
-  logs: [
-    { name: 'level', type: 'string', label: 'Log Level' },
-    { name: 'message', type: 'string', label: 'Message' },
-    { name: 'source', type: 'string', label: 'Source' },
-    { name: 'timestamp', type: 'date', label: 'Timestamp' },
-    { name: 'user_id', type: 'string', label: 'User ID' },
-    { name: 'ip_address', type: 'string', label: 'IP Address' }
-  ]
+import {
+  REPORT_QUERY_SCHEMA,
+  type DataSource,
+  type FilterOperator,
+  type QueryFilter,
+  type ReportQuery
+} from '@/lib/report-query'
+
+export type { DataSource, AggregationType, FilterOperator, QueryFilter, ReportQuery } from '@/lib/report-query'
+
+export interface ReportTestResult {
+  rows: any[]
+  truncated?: boolean
+  // The SQL the server compiled the query to
+  sql?: string
 }
 
 interface ReportBuilderProps {
-  onSave?: (query: ReportQuery) => void
-  onTest?: (query: ReportQuery) => Promise<any[]>
+  onSave?: (query: ReportQuery) => void | Promise<void>
+  onTest?: (query: ReportQuery) => Promise<ReportTestResult>
 }
 
 export const ReportBuilder: React.FC<ReportBuilderProps> = ({ onSave, onTest }) => {
@@ -102,13 +36,18 @@ export const ReportBuilder: React.FC<ReportBuilderProps> = ({ onSave, onTest })
   })
 
   const [showSQL, setShowSQL] = useState(false)
-  const [testResults, setTestResults] = useState<any[] | null>(null)
+  const [testResults, setTestResults] = useState<ReportTestResult | null>(null)
+  const [testError, setTestError] = useState<string | null>(null)
   const [isTesting, setIsTesting] = useState(false)
+  const [isSaving, setIsSaving] = useState(false)
+  const [saveMessage, setSaveMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null)
 
   const availableFields = query.dataSources.flatMap(source =>
-    dataSourceFields[source].map(field => ({
-      ...field,
-      fullName: `${source}.${field.name}`
+    REPORT_QUERY_SCHEMA[source].fields.map(({ name, type, label }) => ({
+      name,
+      type,
+      label,
+      fullName: `${source}.${name}`
     }))
   )
 
@@ -125,7 +64,8 @@ export const ReportBuilder: React.FC<ReportBuilderProps> = ({ onSave, onTest })
     setQuery({
       ...query,
       dataSources: query.dataSources.filter(s => s !== source),
-      selectedFields: query.selectedFields.filter(f => !f.startsWith(`${source}.`))
+      selectedFields: query.selectedFields.filter(f => !f.startsWith(`${source}.`)),
+      filters: query.filters.filter(f => !f.field.startsWith(`${source}.`))
     })
   }
 
@@ -161,49 +101,41 @@ export const ReportBuilder: React.FC<ReportBuilderProps> = ({ onSave, onTest })
   const handleTestQuery = async () => {
     if (onTest) {
       setIsTesting(true)
+      setTestError(null)
       try {
         const results = await onTest(query)
         setTestResults(results)
       } catch (error) {
         console.error('Test failed:', error)
-        setTestResults([])
+        setTestResults(null)
+        setTestError(error instanceof Error ? error.message : 'Test failed')
       } finally {
         setIsTesting(false)
       }
     }
   }
 
-  const generateSQL = () => {
-    const fields = query.selectedFields.length > 0
-      ? query.selectedFields.join(', ')
-      : '*'
-
-    const tables = query.dataSources.join(', ')
-
-    const whereClause = query.filters.length > 0
-      ? ' WHERE ' + query.filters.map(f => {
-          const op = f.operator === 'equals' ? '='
-            : f.operator === 'not_equals' ? '!='
-            : f.operator === 'contains' ? 'LIKE'
-            : f.operator === 'greater_than' ? '>'
-            : f.operator === 'less_than' ? '<'
-            : 'BETWEEN'
-
-          const value = f.operator === 'contains' ? `'%${f.value}%'`
-            : typeof f.value === 'string' ? `'${f.value}'`
-            : f.value
-
-          return `${f.field} ${op} ${value}`
-        }).join(' AND ')
-      : ''
-
-    const groupByClause = query.groupBy && query.groupBy.length > 0
-      ? ` GROUP BY ${query.groupBy.join(', ')}`
-      : ''
-
-    const limitClause = query.limit ? ` LIMIT ${query.limit}` : ''
+  const handleSave = async () => {
+    if (onSave) {
+      setIsSaving(true)
+      setSaveMessage(null)
+      try {
+        await onSave(query)
+        setSaveMessage({ type: 'success', text: `Saved "${query.name}" as a report template` })
+      } catch (error) {
+        console.error('Save failed:', error)
+        setSaveMessage({ type: 'error', text: error instanceof Error ? error.message : 'Save failed' })
+      } finally {
+        setIsSaving(false)
+      }
+    }
+  }
 
-    return `SELECT ${fields}\nFROM ${tables}${whereClause}${groupByClause}${limitClause};`
+  const handleUpdateFilter = (filterId: string, changes: Partial<QueryFilter>) => {
+    setQuery({
+      ...query,
+      filters: query.filters.map(f => (f.id === filterId ? { ...f, ...changes } : f))
+    })
   }
 
   return (
@@ -245,7 +177,7 @@ export const ReportBuilder: React.FC<ReportBuilderProps> = ({ onSave, onTest })
               Data Sources
             </h3>
             <div className="flex flex-wrap gap-2">
-              {Object.keys(dataSourceFields).map((source) => (
+              {Object.keys(REPORT_QUERY_SCHEMA).map((source) => (
                 <button
                   key={source}
                   onClick={() =>
@@ -304,12 +236,7 @@ export const ReportBuilder: React.FC<ReportBuilderProps> = ({ onSave, onTest })
                 <div key={filter.id} className="flex items-center space-x-2">
                   <select
                     value={filter.field}
-                    onChange={(e) => {
-                      const updated = query.filters.map(f =>
-                        f.id === filter.id ? { ...f, field: e.target.value } : f
-                      )
-                      setQuery({ ...query, filters: updated })
-                    }}
+                    onChange={(e) => handleUpdateFilter(filter.id, { field: e.target.value })}
                     className="flex-1 px-3 py-2 bg-gray-700 text-white border border-gray-600 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
                   >
                     {availableFields.map(field => (
@@ -321,10 +248,12 @@ export const ReportBuilder: React.FC<ReportBuilderProps> = ({ onSave, onTest })
                   <select
                     value={filter.operator}
                     onChange={(e) => {
-                      const updated = query.filters.map(f =>
-                        f.id === filter.id ? { ...f, operator: e.target.value as FilterOperator } : f
-                      )
-                      setQuery({ ...query, filters: updated })
+                      const operator = e.target.value as FilterOperator
+                      // Between takes a from and to value, everything else a single one
+                      const value = operator === 'between'
+                        ? (Array.isArray(filter.value) ? filter.value : [String(filter.value), ''] as [string, string])
+                        : (Array.isArray(filter.value) ? filter.value[0] : filter.value)
+                      handleUpdateFilter(filter.id, { operator, value })
                     }}
                     className="px-3 py-2 bg-gray-700 text-white border border-gray-600 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
                   >
@@ -335,18 +264,32 @@ export const ReportBuilder: React.FC<ReportBuilderProps> = ({ onSave, onTest })
                     <option value="less_than">Less Than</option>
                     <option value="between">Between</option>
                   </select>
-                  <input
-                    type="text"
-                    value={filter.value as string}
-                    onChange={(e) => {
-                      const updated = query.filters.map(f =>
-                        f.id === filter.id ? { ...f, value: e.target.value } : f
-                      )
-                      setQuery({ ...query, filters: updated })
-                    }}
-                    className="flex-1 px-3 py-2 bg-gray-700 text-white border border-gray-600 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
-                    placeholder="Value"
-                  />
+                  {Array.isArray(filter.value) ? (
+                    <>
+                      <input
+                        type="text"
+                        value={String(filter.value[0])}
+                        onChange={(e) => handleUpdateFilter(filter.id, { value: [e.target.value, (filter.value as [string, string])[1]] })}
+                        className="flex-1 px-3 py-2 bg-gray-700 text-white border border-gray-600 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                        placeholder="From"
+                      />
+                      <input
+                        type="text"
+                        value={String(filter.value[1])}
+                        onChange={(e) => handleUpdateFilter(filter.id, { value: [(filter.value as [string, string])[0], e.target.value] })}
+                        className="flex-1 px-3 py-2 bg-gray-700 text-white border border-gray-600 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                        placeholder="To"
+                      />
+                    </>
+                  ) : (
+                    <input
+                      type="text"
+                      value={String(filter.value)}
+                      onChange={(e) => handleUpdateFilter(filter.id, { value: e.target.value })}
+                      className="flex-1 px-3 py-2 bg-gray-700 text-white border border-gray-600 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      placeholder="Value"
+                    />
+                  )}
                   <button
                     onClick={() => handleRemoveFilter(filter.id)}
                     className="p-2 text-red-400 hover:text-red-300"
@@ -401,35 +344,47 @@ export const ReportBuilder: React.FC<ReportBuilderProps> = ({ onSave, onTest })
             </button>
           </div>
           <button
-            onClick={() => onSave && onSave(query)}
-            disabled={!query.name || query.dataSources.length === 0}
+            onClick={handleSave}
+            disabled={!query.name || query.dataSources.length === 0 || isSaving}
             className="flex items-center px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
           >
             <Save className="w-4 h-4 mr-2" />
-            Save Report
+            {isSaving ? 'Saving...' : 'Save Report'}
           </button>
         </div>
 
+        {saveMessage && (
+          <p className={`mb-4 text-sm whitespace-pre-wrap ${saveMessage.type === 'success' ? 'text-green-400' : 'text-red-400'}`}>
+            {saveMessage.text}
+          </p>
+        )}
+
         {showSQL && (
           <div className="mb-4 p-4 bg-gray-900 rounded-md border border-gray-700">
             <h4 className="text-sm font-medium text-gray-300 mb-2">Generated SQL</h4>
             <pre className="text-sm text-gray-400 font-mono whitespace-pre-wrap">
-              {generateSQL()}
+              {testResults?.sql || 'Test the query to see the SQL it compiles to'}
             </pre>
           </div>
         )}
 
+        {testError && (
+          <div className="mb-4 p-4 bg-red-900/20 rounded-md border border-red-700">
+            <p className="text-sm text-red-400 whitespace-pre-wrap">{testError}</p>
+          </div>
+        )}
+
         {testResults !== null && (
           <div className="p-4 bg-gray-900 rounded-md border border-gray-700">
             <h4 className="text-sm font-medium text-gray-300 mb-2">
-              Test Results ({testResults.length} rows)
+              Test Results ({testResults.rows.length}{testResults.truncated ? '+' : ''} rows)
             </h4>
-            {testResults.length > 0 ? (
+            {testResults.rows.length > 0 ? (
               <div className="overflow-x-auto">
                 <table className="w-full text-sm">
                   <thead>
                     <tr className="border-b border-gray-700">
-                      {Object.keys(testResults[0]).map(key => (
+                      {Object.keys(testResults.rows[0]).map(key => (
                         <th key={key} className="text-left px-2 py-1 text-gray-400">
                           {key}
                         </th>
@@ -437,7 +392,7 @@ export const ReportBuilder: React.FC<ReportBuilderProps> = ({ onSave, onTest })
                     </tr>
                   </thead>
                   <tbody>
-                    {testResults.slice(0, 5).map((row, index) => (
+                    {testResults.rows.slice(0, 5).map((row, index) => (
                       <tr key={index} className="border-b border-gray-800">
                         {Object.values(row).map((value, i) => (
                           <td key={i} className="px-2 py-1 text-gray-300">
@@ -448,9 +403,9 @@ export const ReportBuilder: React.FC<ReportBuilderProps> = ({ onSave, onTest })
                     ))}
                   </tbody>
                 </table>
-                {testResults.length > 5 && (
+                {testResults.rows.length > 5 && (
                   <p className="text-xs text-gray-500 mt-2">
-                    Showing first 5 of {testResults.length} rows
+                    Showing first 5 of {testResults.rows.length}{testResults.truncated ? '+' : ''} rows
                   </p>
                 )}
               </div>
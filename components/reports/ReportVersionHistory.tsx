@@ -0,0 +1,186 @@
+'use client'
+
+import React, { useCallback, useEffect, useState } from 'react'
+import { History, RotateCcw, ChevronDown, ChevronRight } from 'lucide-react'
+import type { ReportVersionSummary } from '@/lib/admin/report-versions'
+
+interface ReportVersionHistoryProps {
+  title: string
+  // Lists versions on GET and rolls back on POST { version }
+  endpoint: string
+  canRollback?: boolean
+  // Receives the whole response, e.g. a report's templateId
+  onLoad?: (data: Record<string, any>) => void
+  onRolledBack?: () => void
+}
+
+export const ReportVersionHistory: React.FC<ReportVersionHistoryProps> = ({
+  title,
+  endpoint,
+  canRollback = true,
+  onLoad,
+  onRolledBack
+}) => {
+  const [versions, setVersions] = useState<ReportVersionSummary[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [expanded, setExpanded] = useState<number | null>(null)
+  const [rollingBack, setRollingBack] = useState<number | null>(null)
+
+  const fetchVersions = useCallback(async () => {
+    setLoading(true)
+    setError(null)
+    try {
+      const response = await fetch(endpoint)
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}))
+        throw new Error(data.error || 'Failed to load versions')
+      }
+
+      const data = await response.json()
+      setVersions(data.versions)
+      onLoad?.(data)
+    } catch (error) {
+      console.error('Error fetching versions:', error)
+      setError(error instanceof Error ? error.message : 'Failed to load versions')
+    } finally {
+      setLoading(false)
+    }
+  }, [endpoint, onLoad])
+
+  useEffect(() => {
+    fetchVersions()
+  }, [fetchVersions])
+
+  const handleRollback = async (version: number) => {
+    if (!confirm(`Restore version ${version}? This is saved as a new version; nothing is deleted.`)) {
+      return
+    }
+
+    setRollingBack(version)
+    try {
+      const response = await fetch(endpoint, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ version })
+      })
+
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}))
+        throw new Error(data.error || 'Failed to roll back')
+      }
+
+      await fetchVersions()
+      onRolledBack?.()
+    } catch (error) {
+      console.error('Error rolling back:', error)
+      setError(error instanceof Error ? error.message : 'Failed to roll back')
+    } finally {
+      setRollingBack(null)
+    }
+  }
+
+  return (
+    <div className="bg-gray-800 rounded-lg border border-gray-700">
+      <div className="p-4 border-b border-gray-700 flex items-center">
+        <History className="w-4 h-4 mr-2 text-gray-400" />
+        <h2 className="text-lg font-semibold text-white">{title}</h2>
+      </div>
+
+      {error && (
+        <div className="m-4 rounded-md bg-red-900/50 p-3">
+          <p className="text-sm text-red-300">{error}</p>
+        </div>
+      )}
+
+      {loading ? (
+        <div className="flex justify-center items-center py-8">
+          <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-indigo-600"></div>
+        </div>
+      ) : versions.length === 0 ? (
+        <p className="p-4 text-gray-400 text-sm">No versions recorded yet. One is created with every change.</p>
+      ) : (
+        <ul className="divide-y divide-gray-700">
+          {versions.map((version, index) => {
+            const previous = versions[index + 1]
+            const isCurrent = index === 0
+            const isExpanded = expanded === version.version
+            const fields = previous ? version.changedFields : Object.keys(version.snapshot)
+
+            return (
+              <li key={version.id} className="p-4">
+                <div className="flex items-start justify-between">
+                  <button
+                    onClick={() => setExpanded(isExpanded ? null : version.version)}
+                    className="flex items-start text-left"
+                  >
+                    {isExpanded
+                      ? <ChevronDown className="w-4 h-4 mt-1 mr-2 text-gray-400" />
+                      : <ChevronRight className="w-4 h-4 mt-1 mr-2 text-gray-400" />}
+                    <div>
+                      <div className="flex items-center space-x-2">
+                        <span className="text-white font-medium">Version {version.version}</span>
+                        {isCurrent && (
+                          <span className="px-2 py-0.5 text-xs rounded-full bg-green-900/50 text-green-300">Current</span>
+                        )}
+                        {version.restoredFrom && (
+                          <span className="px-2 py-0.5 text-xs rounded-full bg-blue-900/50 text-blue-300">
+                            Restored from v{version.restoredFrom}
+                          </span>
+                        )}
+                      </div>
+                      <p className="text-sm text-gray-400 mt-1">
+                        {version.changeSummary || (version.changedFields.length > 0 ? `Changed ${version.changedFields.join(', ')}` : 'No changes')}
+                      </p>
+                      <p className="text-xs text-gray-500 mt-1">
+                        {new Date(version.createdAt).toLocaleString()}{version.createdBy ? ` by ${version.createdBy}` : ''}
+                      </p>
+                    </div>
+                  </button>
+                  {canRollback && !isCurrent && (
+                    <button
+                      onClick={() => handleRollback(version.version)}
+                      disabled={rollingBack !== null}
+                      className="flex items-center px-3 py-1.5 text-sm bg-gray-700 text-gray-200 rounded-md hover:bg-gray-600 disabled:opacity-50"
+                    >
+                      <RotateCcw className="w-4 h-4 mr-1" />
+                      {rollingBack === version.version ? 'Restoring...' : 'Restore'}
+                    </button>
+                  )}
+                </div>
+
+                {isExpanded && (
+                  <div className="mt-3 ml-6 space-y-2">
+                    {fields.map(field => (
+                      <div key={field} className="grid grid-cols-1 md:grid-cols-2 gap-2 text-xs">
+                        <div className="md:col-span-2 text-gray-300 font-medium">{field}</div>
+                        {previous && (
+                          <pre className="p-2 bg-red-900/20 border border-red-900/40 rounded text-red-200 whitespace-pre-wrap break-all">
+                            {formatValue(previous.snapshot[field])}
+                          </pre>
+                        )}
+                        <pre className={`p-2 rounded whitespace-pre-wrap break-all ${previous
+                          ? 'bg-green-900/20 border border-green-900/40 text-green-200'
+                          : 'md:col-span-2 bg-gray-900 border border-gray-700 text-gray-300'}`}>
+                          {formatValue(version.snapshot[field])}
+                        </pre>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </li>
+            )
+          })}
+        </ul>
+      )}
+    </div>
+  )
+}
+
+function formatValue(value: unknown): string {
+  if (value === null || value === undefined) {
+    return '(empty)'
+  }
+
+  return typeof value === 'object' ? JSON.stringify(value, null, 2) : String(value)
+}
@@ -0,0 +1,210 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { toast } from 'react-hot-toast';
+import { formatDistanceToNow } from 'date-fns';
+import { ROLE_PERMISSIONS } from '@/lib/auth/rbac';
+import type { AdminInviteSummary } from '@/lib/admin/invites';
+import type { AdminUserRole } from '@/lib/types/database.types';
+
+const BUILT_IN_ROLES = Object.keys(ROLE_PERMISSIONS) as AdminUserRole[];
+
+const inputClassName = 'mt-1 block w-full border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm dark:bg-gray-700 dark:text-white';
+
+const STATUS_STYLES: Record<AdminInviteSummary['status'], string> = {
+  pending: 'bg-yellow-900/50 text-yellow-300',
+  accepted: 'bg-green-900/50 text-green-300',
+  expired: 'bg-gray-600 text-gray-300',
+  revoked: 'bg-red-900/50 text-red-300',
+};
+
+export default function AdminInvites() {
+  const [invites, setInvites] = useState<AdminInviteSummary[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [email, setEmail] = useState('');
+  const [fullName, setFullName] = useState('');
+  const [role, setRole] = useState<AdminUserRole>('viewer');
+  const [sending, setSending] = useState(false);
+  const [revoking, setRevoking] = useState<string | null>(null);
+  // Shown when the invite email could not be sent
+  const [inviteUrl, setInviteUrl] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadInvites();
+  }, []);
+
+  const loadInvites = async () => {
+    setLoading(true);
+    try {
+      const response = await fetch('/api/admin/admins/invites');
+      if (!response.ok) throw new Error('Failed to load invites');
+
+      const data = await response.json();
+      setInvites(data.invites);
+    } catch (error) {
+      console.error('Error loading invites:', error);
+      toast.error('Failed to load invites');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleInvite = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSending(true);
+    setInviteUrl(null);
+
+    try {
+      const response = await fetch('/api/admin/admins/invites', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ email, fullName: fullName || null, role }),
+      });
+
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        throw new Error(data.details?.join(', ') || data.error || 'Failed to send invite');
+      }
+
+      if (data.emailSent) {
+        toast.success(`Invite sent to ${email}`);
+      } else {
+        toast.error('The invite email could not be sent; share the link below instead');
+        setInviteUrl(data.inviteUrl);
+      }
+
+      setEmail('');
+      setFullName('');
+      loadInvites();
+    } catch (error) {
+      console.error('Error sending invite:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to send invite');
+    } finally {
+      setSending(false);
+    }
+  };
+
+  const handleRevoke = async (invite: AdminInviteSummary) => {
+    if (!confirm(`Withdraw the invite for ${invite.email}?`)) return;
+
+    setRevoking(invite.id);
+    try {
+      const response = await fetch(`/api/admin/admins/invites/${invite.id}`, { method: 'DELETE' });
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.error || 'Failed to withdraw invite');
+      }
+
+      toast.success('Invite withdrawn');
+      loadInvites();
+    } catch (error) {
+      console.error('Error withdrawing invite:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to withdraw invite');
+    } finally {
+      setRevoking(null);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <h4 className="text-sm font-medium text-gray-900 dark:text-white">Invite Admins</h4>
+        <p className="mt-1 text-sm text-gray-500 dark:text-gray-400">
+          Invitees set their own password, which must meet the password policy.
+        </p>
+      </div>
+
+      <form onSubmit={handleInvite} className="grid grid-cols-1 sm:grid-cols-4 gap-3 items-end">
+        <div>
+          <label htmlFor="invite-email" className="block text-sm font-medium text-gray-700 dark:text-gray-300">Email</label>
+          <input
+            id="invite-email"
+            type="email"
+            required
+            value={email}
+            onChange={(e) => setEmail(e.target.value)}
+            className={inputClassName}
+          />
+        </div>
+        <div>
+          <label htmlFor="invite-name" className="block text-sm font-medium text-gray-700 dark:text-gray-300">Full name</label>
+          <input
+            id="invite-name"
+            type="text"
+            maxLength={100}
+            value={fullName}
+            onChange={(e) => setFullName(e.target.value)}
+            className={inputClassName}
+          />
+        </div>
+        <div>
+          <label htmlFor="invite-role" className="block text-sm font-medium text-gray-700 dark:text-gray-300">Role</label>
+          <select
+            id="invite-role"
+            value={role}
+            onChange={(e) => setRole(e.target.value as AdminUserRole)}
+            className={inputClassName}
+          >
+            {BUILT_IN_ROLES.map((builtIn) => (
+              <option key={builtIn} value={builtIn}>{builtIn}</option>
+            ))}
+          </select>
+        </div>
+        <button
+          type="submit"
+          disabled={sending}
+          className="px-4 py-2 bg-indigo-600 text-white rounded-md hover:bg-indigo-700 text-sm disabled:opacity-50"
+        >
+          {sending ? 'Sending...' : 'Send invite'}
+        </button>
+      </form>
+
+      {inviteUrl && (
+        <div className="p-3 bg-gray-700/50 rounded-lg">
+          <p className="text-xs text-gray-400">Invite link</p>
+          <p className="text-sm text-white font-mono break-all">{inviteUrl}</p>
+        </div>
+      )}
+
+      {loading ? (
+        <div className="flex justify-center py-2">
+          <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-indigo-600"></div>
+        </div>
+      ) : invites.length === 0 ? (
+        <p className="text-sm text-gray-500 dark:text-gray-400">No recent invites.</p>
+      ) : (
+        <ul className="divide-y divide-gray-600">
+          {invites.map((invite) => (
+            <li key={invite.id} className="flex items-center justify-between py-2">
+              <div>
+                <p className="text-sm text-gray-900 dark:text-white">
+                  {invite.fullName ? `${invite.fullName} <${invite.email}>` : invite.email}
+                  <span className={`ml-2 px-2 py-0.5 text-xs rounded-full ${STATUS_STYLES[invite.status]}`}>
+                    {invite.status}
+                  </span>
+                </p>
+                <p className="text-xs text-gray-400">
+                  {invite.role}
+                  {invite.invitedByEmail && ` · invited by ${invite.invitedByEmail}`}
+                  {' · '}
+                  {invite.status === 'pending'
+                    ? `expires ${formatDistanceToNow(new Date(invite.expiresAt), { addSuffix: true })}`
+                    : `sent ${formatDistanceToNow(new Date(invite.createdAt), { addSuffix: true })}`}
+                </p>
+              </div>
+              {invite.status === 'pending' && (
+                <button
+                  onClick={() => handleRevoke(invite)}
+                  disabled={revoking !== null}
+                  className="text-sm text-red-400 hover:text-red-300 disabled:opacity-50"
+                >
+                  {revoking === invite.id ? 'Withdrawing...' : 'Withdraw'}
+                </button>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,103 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { toast } from 'react-hot-toast';
+import { formatDistanceToNow } from 'date-fns';
+import type { LockoutPolicy, LoginLockoutSummary } from '@/lib/admin/login-lockout';
+
+export default function LoginLockoutSettings() {
+  const [lockouts, setLockouts] = useState<LoginLockoutSummary[]>([]);
+  const [policy, setPolicy] = useState<LockoutPolicy | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [unlocking, setUnlocking] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadLockouts();
+  }, []);
+
+  const loadLockouts = async () => {
+    setLoading(true);
+    try {
+      const response = await fetch('/api/admin/admins/lockouts');
+      if (!response.ok) throw new Error('Failed to load lockouts');
+
+      const data = await response.json();
+      setLockouts(data.lockouts);
+      setPolicy(data.policy);
+    } catch (error) {
+      console.error('Error loading lockouts:', error);
+      toast.error('Failed to load lockouts');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleUnlock = async (lockout: LoginLockoutSummary) => {
+    if (!confirm(`Unlock ${lockout.identifier}?`)) return;
+
+    setUnlocking(lockout.id);
+    try {
+      const response = await fetch(`/api/admin/admins/lockouts/${lockout.id}/unlock`, { method: 'POST' });
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.error || 'Failed to unlock');
+      }
+
+      toast.success(`${lockout.identifier} unlocked`);
+      loadLockouts();
+    } catch (error) {
+      console.error('Error unlocking:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to unlock');
+    } finally {
+      setUnlocking(null);
+    }
+  };
+
+  return (
+    <div className="p-4 bg-gray-700/50 rounded-lg space-y-4">
+      <div>
+        <p className="text-white font-medium">Locked Sign-ins</p>
+        <p className="text-gray-400 text-sm">
+          {policy
+            ? `Accounts lock for ${policy.lockoutMinutes} minutes after ${policy.maxAttempts} failed sign-ins, IP addresses after ${policy.ipMaxAttempts}`
+            : 'Accounts and IP addresses locked after repeated failed sign-ins'}
+        </p>
+      </div>
+
+      {loading ? (
+        <div className="flex justify-center py-2">
+          <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-indigo-600"></div>
+        </div>
+      ) : lockouts.length === 0 ? (
+        <p className="text-sm text-gray-400">Nothing is locked right now.</p>
+      ) : (
+        <ul className="divide-y divide-gray-600">
+          {lockouts.map((lockout) => (
+            <li key={lockout.id} className="flex items-center justify-between py-2">
+              <div>
+                <p className="text-sm text-white">
+                  {lockout.identifier}
+                  <span className="ml-2 text-xs text-gray-400">
+                    {lockout.scope === 'ip' ? 'IP address' : lockout.adminUserId ? 'admin account' : 'unknown account'}
+                  </span>
+                </p>
+                <p className="text-xs text-gray-400">
+                  {lockout.failedAttempts} failed attempts
+                  {lockout.lockedUntil &&
+                    ` · unlocks ${formatDistanceToNow(new Date(lockout.lockedUntil), { addSuffix: true })}`}
+                </p>
+              </div>
+              <button
+                onClick={() => handleUnlock(lockout)}
+                disabled={unlocking !== null}
+                className="text-sm text-indigo-400 hover:text-indigo-300 disabled:opacity-50"
+              >
+                {unlocking === lockout.id ? 'Unlocking...' : 'Unlock'}
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
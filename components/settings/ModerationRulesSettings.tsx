@@ -0,0 +1,438 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { toast } from 'react-hot-toast';
+import type {
+  AutoModerationDecision,
+  ModerationRule,
+  ModerationRuleType,
+  ModerationRulesConfig,
+} from '@/lib/admin/moderation-rules';
+
+const RULE_TYPES: Array<{ value: ModerationRuleType; label: string }> = [
+  { value: 'keyword', label: 'Keyword list' },
+  { value: 'regex', label: 'Regular expression' },
+  { value: 'report_threshold', label: 'Report count' },
+  { value: 'new_account', label: 'New account' },
+  { value: 'repeat_offender', label: 'Repeat offender' },
+];
+
+const inputClassName = 'mt-1 block w-full border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm dark:bg-gray-700 dark:text-white';
+
+export default function ModerationRulesSettings() {
+  const [config, setConfig] = useState<ModerationRulesConfig | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [previewing, setPreviewing] = useState(false);
+  const [preview, setPreview] = useState<AutoModerationDecision[] | null>(null);
+
+  useEffect(() => {
+    loadRules();
+  }, []);
+
+  const loadRules = async () => {
+    setLoading(true);
+    try {
+      const response = await fetch('/api/admin/moderation/rules');
+      if (!response.ok) throw new Error('Failed to load moderation rules');
+
+      const data = await response.json();
+      setConfig(data.config);
+    } catch (error) {
+      console.error('Error loading moderation rules:', error);
+      toast.error('Failed to load moderation rules');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSave = async () => {
+    if (!config) return;
+
+    setSaving(true);
+    try {
+      const response = await fetch('/api/admin/moderation/rules', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ config }),
+      });
+
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        throw new Error(data.details?.[0] || data.error || 'Failed to save moderation rules');
+      }
+
+      toast.success('Moderation rules saved successfully');
+    } catch (error) {
+      console.error('Error saving moderation rules:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to save moderation rules');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handlePreview = async () => {
+    if (!config) return;
+
+    setPreviewing(true);
+    try {
+      const response = await fetch('/api/admin/moderation/rules/preview', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ config, limit: 25 }),
+      });
+
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        throw new Error(data.details?.[0] || data.error || 'Failed to preview moderation rules');
+      }
+
+      setPreview(data.decisions);
+    } catch (error) {
+      console.error('Error previewing moderation rules:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to preview moderation rules');
+    } finally {
+      setPreviewing(false);
+    }
+  };
+
+  const handleChange = (field: keyof ModerationRulesConfig, value: any) => {
+    setConfig(prev => (prev ? { ...prev, [field]: value } : prev));
+  };
+
+  const updateRule = (ruleId: string, changes: Partial<ModerationRule>) => {
+    if (!config) return;
+    handleChange('rules', config.rules.map(rule => (rule.id === ruleId ? { ...rule, ...changes } : rule)));
+  };
+
+  const addRule = () => {
+    if (!config) return;
+    handleChange('rules', [
+      ...config.rules,
+      {
+        id: `rule-${Date.now()}`,
+        name: 'New rule',
+        type: 'keyword',
+        enabled: true,
+        score: 20,
+        keywords: [],
+      },
+    ]);
+  };
+
+  const removeRule = (ruleId: string) => {
+    if (!config) return;
+    handleChange('rules', config.rules.filter(rule => rule.id !== ruleId));
+  };
+
+  const parseOptionalNumber = (value: string) => (value === '' ? null : parseInt(value));
+
+  if (loading || !config) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-indigo-600"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h3 className="text-lg leading-6 font-medium text-gray-900 dark:text-white">
+          Auto-Moderation Rules
+        </h3>
+        <p className="mt-1 text-sm text-gray-500 dark:text-gray-400">
+          Score incoming content and set its priority, flag it or approve it automatically.
+        </p>
+      </div>
+
+      <div className="flex items-start">
+        <div className="flex items-center h-5">
+          <input
+            id="auto_moderation_enabled"
+            type="checkbox"
+            checked={config.enabled}
+            onChange={(e) => handleChange('enabled', e.target.checked)}
+            className="focus:ring-indigo-500 h-4 w-4 text-indigo-600 border-gray-300 rounded"
+          />
+        </div>
+        <div className="ml-3 text-sm">
+          <label htmlFor="auto_moderation_enabled" className="font-medium text-gray-700 dark:text-gray-300">
+            Enable Auto-Moderation
+          </label>
+          <p className="text-gray-500 dark:text-gray-400">Apply these rules to new items entering the queue</p>
+        </div>
+      </div>
+
+      {/* Score Thresholds */}
+      <div className="space-y-4">
+        <h4 className="text-sm font-medium text-gray-900 dark:text-white">Score Thresholds</h4>
+
+        <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
+          <div>
+            <label htmlFor="high_priority_score" className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+              High Priority Score
+            </label>
+            <input
+              type="number"
+              id="high_priority_score"
+              value={config.highPriorityScore}
+              onChange={(e) => handleChange('highPriorityScore', parseInt(e.target.value))}
+              className={inputClassName}
+            />
+          </div>
+
+          <div>
+            <label htmlFor="medium_priority_score" className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+              Medium Priority Score
+            </label>
+            <input
+              type="number"
+              id="medium_priority_score"
+              value={config.mediumPriorityScore}
+              onChange={(e) => handleChange('mediumPriorityScore', parseInt(e.target.value))}
+              className={inputClassName}
+            />
+          </div>
+
+          <div>
+            <label htmlFor="auto_flag_score" className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+              Auto-Flag at Score
+            </label>
+            <input
+              type="number"
+              id="auto_flag_score"
+              value={config.autoFlagScore ?? ''}
+              placeholder="Disabled"
+              onChange={(e) => handleChange('autoFlagScore', parseOptionalNumber(e.target.value))}
+              className={inputClassName}
+            />
+          </div>
+
+          <div>
+            <label htmlFor="auto_approve_score" className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+              Auto-Approve up to Score
+            </label>
+            <input
+              type="number"
+              id="auto_approve_score"
+              value={config.autoApproveMaxScore ?? ''}
+              placeholder="Disabled"
+              onChange={(e) => handleChange('autoApproveMaxScore', parseOptionalNumber(e.target.value))}
+              className={inputClassName}
+            />
+          </div>
+        </div>
+      </div>
+
+      {/* Rules */}
+      <div className="space-y-4 pt-6 border-t border-gray-200 dark:border-gray-700">
+        <div className="flex items-center justify-between">
+          <h4 className="text-sm font-medium text-gray-900 dark:text-white">Rules</h4>
+          <button
+            onClick={addRule}
+            className="px-3 py-2 bg-indigo-600 text-white rounded-md hover:bg-indigo-700 text-sm"
+          >
+            Add Rule
+          </button>
+        </div>
+
+        {config.rules.map((rule) => (
+          <div key={rule.id} className="p-4 border border-gray-200 dark:border-gray-700 rounded-md space-y-3">
+            <div className="grid grid-cols-1 gap-4 sm:grid-cols-4">
+              <div className="sm:col-span-2">
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">Name</label>
+                <input
+                  type="text"
+                  value={rule.name}
+                  onChange={(e) => updateRule(rule.id, { name: e.target.value })}
+                  className={inputClassName}
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">Type</label>
+                <select
+                  value={rule.type}
+                  onChange={(e) => updateRule(rule.id, { type: e.target.value as ModerationRuleType })}
+                  className={inputClassName}
+                >
+                  {RULE_TYPES.map(type => (
+                    <option key={type.value} value={type.value}>{type.label}</option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">Score</label>
+                <input
+                  type="number"
+                  min={0}
+                  max={100}
+                  value={rule.score}
+                  onChange={(e) => updateRule(rule.id, { score: parseInt(e.target.value) })}
+                  className={inputClassName}
+                />
+              </div>
+            </div>
+
+            {rule.type === 'keyword' && (
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">Keywords (comma separated)</label>
+                <input
+                  type="text"
+                  value={(rule.keywords || []).join(', ')}
+                  onChange={(e) => updateRule(rule.id, {
+                    keywords: e.target.value.split(',').map(keyword => keyword.trim()).filter(Boolean),
+                  })}
+                  className={inputClassName}
+                />
+              </div>
+            )}
+
+            {rule.type === 'regex' && (
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">Pattern</label>
+                <input
+                  type="text"
+                  value={rule.pattern || ''}
+                  onChange={(e) => updateRule(rule.id, { pattern: e.target.value })}
+                  className={`${inputClassName} font-mono`}
+                />
+              </div>
+            )}
+
+            {rule.type === 'report_threshold' && (
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">Minimum reports</label>
+                <input
+                  type="number"
+                  value={rule.threshold ?? 1}
+                  onChange={(e) => updateRule(rule.id, { threshold: parseInt(e.target.value) })}
+                  className={inputClassName}
+                />
+              </div>
+            )}
+
+            {rule.type === 'new_account' && (
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">Account younger than (days)</label>
+                <input
+                  type="number"
+                  value={rule.accountAgeDays ?? 7}
+                  onChange={(e) => updateRule(rule.id, { accountAgeDays: parseInt(e.target.value) })}
+                  className={inputClassName}
+                />
+              </div>
+            )}
+
+            {rule.type === 'repeat_offender' && (
+              <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">Prior offenses</label>
+                  <input
+                    type="number"
+                    value={rule.offenseCount ?? 1}
+                    onChange={(e) => updateRule(rule.id, { offenseCount: parseInt(e.target.value) })}
+                    className={inputClassName}
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">Lookback (days)</label>
+                  <input
+                    type="number"
+                    value={rule.lookbackDays ?? 90}
+                    onChange={(e) => updateRule(rule.id, { lookbackDays: parseInt(e.target.value) })}
+                    className={inputClassName}
+                  />
+                </div>
+              </div>
+            )}
+
+            <div className="flex items-center justify-between">
+              <label className="flex items-center text-sm text-gray-700 dark:text-gray-300">
+                <input
+                  type="checkbox"
+                  checked={rule.enabled}
+                  onChange={(e) => updateRule(rule.id, { enabled: e.target.checked })}
+                  className="focus:ring-indigo-500 h-4 w-4 text-indigo-600 border-gray-300 rounded mr-2"
+                />
+                Enabled
+              </label>
+              <button
+                onClick={() => removeRule(rule.id)}
+                className="text-sm text-red-600 hover:text-red-500 dark:text-red-400"
+              >
+                Remove
+              </button>
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {/* Dry Run */}
+      <div className="space-y-4 pt-6 border-t border-gray-200 dark:border-gray-700">
+        <div className="flex items-center justify-between">
+          <div>
+            <h4 className="text-sm font-medium text-gray-900 dark:text-white">Dry Run</h4>
+            <p className="text-sm text-gray-500 dark:text-gray-400">
+              Evaluate the current (unsaved) rules against the 25 most recent items. Nothing is changed.
+            </p>
+          </div>
+          <button
+            onClick={handlePreview}
+            disabled={previewing}
+            className="px-3 py-2 bg-gray-700 text-white rounded-md hover:bg-gray-600 text-sm disabled:opacity-50"
+          >
+            {previewing ? 'Running...' : 'Preview'}
+          </button>
+        </div>
+
+        {preview && (
+          preview.length === 0 ? (
+            <p className="text-sm text-gray-500 dark:text-gray-400">No recent items to evaluate.</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700 text-sm">
+                <thead>
+                  <tr className="text-left text-gray-500 dark:text-gray-400">
+                    <th className="py-2 pr-4 font-medium">Item</th>
+                    <th className="py-2 pr-4 font-medium">Score</th>
+                    <th className="py-2 pr-4 font-medium">Matched rules</th>
+                    <th className="py-2 pr-4 font-medium">Priority</th>
+                    <th className="py-2 font-medium">Outcome</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+                  {preview.map((decision) => (
+                    <tr key={decision.itemId} className="text-gray-700 dark:text-gray-300">
+                      <td className="py-2 pr-4">{decision.title}</td>
+                      <td className="py-2 pr-4">{decision.score}</td>
+                      <td className="py-2 pr-4">
+                        {decision.matches.length > 0
+                          ? decision.matches.map(match => `${match.ruleName} (${match.detail})`).join(', ')
+                          : '-'}
+                      </td>
+                      <td className="py-2 pr-4">
+                        {decision.currentPriority} &rarr; {decision.priority}
+                      </td>
+                      <td className="py-2">{decision.outcome}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )
+        )}
+      </div>
+
+      <div className="flex justify-end">
+        <button
+          onClick={handleSave}
+          disabled={saving}
+          className="inline-flex justify-center py-2 px-4 border border-transparent shadow-sm text-sm font-medium rounded-md text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 disabled:opacity-50"
+        >
+          {saving ? 'Saving...' : 'Save Changes'}
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,148 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { toast } from 'react-hot-toast';
+import { startRegistration } from '@simplewebauthn/browser';
+import { formatDistanceToNow } from 'date-fns';
+import type { WebAuthnCredentialSummary } from '@/lib/auth/webauthn';
+
+export default function PasskeySettings() {
+  const [credentials, setCredentials] = useState<WebAuthnCredentialSummary[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [registering, setRegistering] = useState(false);
+  const [name, setName] = useState('');
+
+  useEffect(() => {
+    loadCredentials();
+  }, []);
+
+  const loadCredentials = async () => {
+    setLoading(true);
+    try {
+      const response = await fetch('/api/admin/auth/webauthn/credentials');
+      if (!response.ok) throw new Error('Failed to load passkeys');
+
+      const data = await response.json();
+      setCredentials(data.credentials);
+    } catch (error) {
+      console.error('Error loading passkeys:', error);
+      toast.error('Failed to load passkeys');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleRegister = async () => {
+    setRegistering(true);
+    try {
+      const optionsResponse = await fetch('/api/admin/auth/webauthn/register/options', { method: 'POST' });
+      const optionsData = await optionsResponse.json();
+      if (!optionsResponse.ok) throw new Error(optionsData.error || 'Failed to start passkey registration');
+
+      const attestation = await startRegistration({ optionsJSON: optionsData.options });
+
+      const verifyResponse = await fetch('/api/admin/auth/webauthn/register/verify', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          challengeId: optionsData.challengeId,
+          response: attestation,
+          name,
+        }),
+      });
+      const verifyData = await verifyResponse.json();
+      if (!verifyResponse.ok) throw new Error(verifyData.error || 'Failed to register passkey');
+
+      toast.success('Passkey added');
+      setName('');
+      loadCredentials();
+    } catch (error) {
+      console.error('Error registering passkey:', error);
+      toast.error(
+        error instanceof Error && error.name === 'NotAllowedError'
+          ? 'Passkey registration was cancelled'
+          : error instanceof Error ? error.message : 'Failed to register passkey'
+      );
+    } finally {
+      setRegistering(false);
+    }
+  };
+
+  const handleDelete = async (credential: WebAuthnCredentialSummary) => {
+    if (!confirm(`Remove passkey "${credential.name}"?`)) return;
+
+    try {
+      const response = await fetch(`/api/admin/auth/webauthn/credentials/${credential.id}`, { method: 'DELETE' });
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.error || 'Failed to remove passkey');
+      }
+
+      toast.success('Passkey removed');
+      loadCredentials();
+    } catch (error) {
+      console.error('Error removing passkey:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to remove passkey');
+    }
+  };
+
+  return (
+    <div className="p-4 bg-gray-700/50 rounded-lg space-y-4">
+      <div>
+        <p className="text-white font-medium">Passkeys</p>
+        <p className="text-gray-400 text-sm">
+          Sign in with a security key or device screen lock, as a second factor or without a password
+        </p>
+      </div>
+
+      {loading ? (
+        <div className="flex justify-center py-2">
+          <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-indigo-600"></div>
+        </div>
+      ) : credentials.length > 0 && (
+        <ul className="divide-y divide-gray-600">
+          {credentials.map((credential) => (
+            <li key={credential.id} className="flex items-center justify-between py-2">
+              <div>
+                <p className="text-sm text-white">
+                  {credential.name}
+                  {credential.backedUp && (
+                    <span className="ml-2 text-xs text-gray-400">synced</span>
+                  )}
+                </p>
+                <p className="text-xs text-gray-400">
+                  Added {formatDistanceToNow(new Date(credential.createdAt), { addSuffix: true })}
+                  {credential.lastUsedAt &&
+                    ` · last used ${formatDistanceToNow(new Date(credential.lastUsedAt), { addSuffix: true })}`}
+                </p>
+              </div>
+              <button
+                onClick={() => handleDelete(credential)}
+                className="text-sm text-red-400 hover:text-red-300"
+              >
+                Remove
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="flex space-x-2">
+        <input
+          type="text"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder="Passkey name (e.g. YubiKey, MacBook)"
+          className="flex-1 px-3 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500"
+        />
+        <button
+          onClick={handleRegister}
+          disabled={registering}
+          className="px-4 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 transition-colors text-sm disabled:opacity-50"
+        >
+          {registering ? 'Waiting...' : 'Add passkey'}
+        </button>
+      </div>
+    </div>
+  );
+}
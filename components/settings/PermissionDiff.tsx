@@ -0,0 +1,42 @@
+'use client';
+
+import type { PermissionDiff as PermissionDiffValue } from '@/lib/auth/rbac';
+
+interface PermissionDiffProps {
+  diff: PermissionDiffValue;
+}
+
+export default function PermissionDiff({ diff }: PermissionDiffProps) {
+  if (diff.added.length === 0 && diff.removed.length === 0) {
+    return <p className="text-sm text-gray-400">No permission changes.</p>;
+  }
+
+  return (
+    <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
+      <div>
+        <h5 className="text-xs font-medium uppercase tracking-wide text-green-400 mb-2">
+          Added ({diff.added.length})
+        </h5>
+        <ul className="space-y-1">
+          {diff.added.map((key) => (
+            <li key={key} className="font-mono text-sm text-green-300 bg-green-900/30 rounded px-2 py-1">
+              + {key}
+            </li>
+          ))}
+        </ul>
+      </div>
+      <div>
+        <h5 className="text-xs font-medium uppercase tracking-wide text-red-400 mb-2">
+          Removed ({diff.removed.length})
+        </h5>
+        <ul className="space-y-1">
+          {diff.removed.map((key) => (
+            <li key={key} className="font-mono text-sm text-red-300 bg-red-900/30 rounded px-2 py-1">
+              - {key}
+            </li>
+          ))}
+        </ul>
+      </div>
+    </div>
+  );
+}
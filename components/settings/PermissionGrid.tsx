@@ -0,0 +1,72 @@
+'use client';
+
+import { RBACManager, PERMISSION_SCOPES, SCOPED_RESOURCES, type PermissionScope } from '@/lib/auth/rbac';
+
+interface PermissionGridProps {
+  // Effective keys after the editable layer is applied
+  value: string[];
+  // Keys inherited from the layers below, used to mark what was changed
+  baseline: string[];
+  // A null scope removes the permission
+  onChange: (baseKey: string, scope: PermissionScope | null) => void;
+  disabled?: boolean;
+}
+
+const PERMISSION_GROUPS = RBACManager.getAllPermissionKeys().reduce<Record<string, string[]>>((groups, key) => {
+  const [resource] = key.split(':');
+  groups[resource] = [...(groups[resource] || []), key];
+  return groups;
+}, {});
+
+function findKey(keys: string[], baseKey: string): string | undefined {
+  return keys.find(key => RBACManager.permissionBaseKey(key) === baseKey);
+}
+
+export default function PermissionGrid({ value, baseline, onChange, disabled }: PermissionGridProps) {
+  return (
+    <div className="grid grid-cols-1 gap-4 sm:grid-cols-2 lg:grid-cols-3">
+      {Object.entries(PERMISSION_GROUPS).map(([resource, keys]) => (
+        <div key={resource} className="p-3 bg-gray-700/50 rounded-lg">
+          <h5 className="text-sm font-medium text-white capitalize mb-2">{resource}</h5>
+          <div className="space-y-1">
+            {keys.map((baseKey) => {
+              const held = findKey(value, baseKey);
+              const inherited = findKey(baseline, baseKey);
+              const scope = held ? RBACManager.parsePermissionKey(held)?.scope || 'all' : null;
+              const action = baseKey.split(':')[1];
+
+              return (
+                <div key={baseKey} className="flex items-center justify-between text-sm text-gray-300">
+                  <label className="flex items-center space-x-2">
+                    <input
+                      type="checkbox"
+                      checked={!!held}
+                      disabled={disabled}
+                      onChange={(e) => onChange(baseKey, e.target.checked ? 'all' : null)}
+                      className="focus:ring-indigo-500 h-4 w-4 text-indigo-600 border-gray-300 rounded"
+                    />
+                    <span>{action}</span>
+                  </label>
+                  <span className="flex items-center space-x-2">
+                    {held && SCOPED_RESOURCES.includes(resource) && (
+                      <select
+                        value={scope || 'all'}
+                        disabled={disabled}
+                        onChange={(e) => onChange(baseKey, e.target.value as PermissionScope)}
+                        className="px-1 py-0.5 bg-gray-700 border border-gray-600 rounded text-white text-xs"
+                      >
+                        {PERMISSION_SCOPES.map(option => <option key={option} value={option}>{option}</option>)}
+                      </select>
+                    )}
+                    {held && held !== inherited && <span className="text-xs text-green-400">{inherited ? 'changed' : 'granted'}</span>}
+                    {!held && inherited && <span className="text-xs text-red-400">revoked</span>}
+                  </span>
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,491 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { toast } from 'react-hot-toast';
+import {
+  RBACManager,
+  ROLE_PERMISSIONS,
+  type PermissionDiff as PermissionDiffValue,
+  type PermissionScope,
+} from '@/lib/auth/rbac';
+import { usePermissions } from '@/hooks/usePermissions';
+import PermissionGrid from '@/components/settings/PermissionGrid';
+import PermissionDiff from '@/components/settings/PermissionDiff';
+import type { AdminAccessEntry, CustomRole } from '@/lib/admin/roles';
+import type { AdminUserRole } from '@/lib/types/database.types';
+
+const BUILT_IN_ROLES = Object.keys(ROLE_PERMISSIONS) as AdminUserRole[];
+
+const inputClassName = 'mt-1 block w-full border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm dark:bg-gray-700 dark:text-white';
+
+interface RoleDraft {
+  id?: string;
+  name: string;
+  description: string;
+  inherits: AdminUserRole;
+  grants: string[];
+  revokes: string[];
+}
+
+interface AccessDraft {
+  admin: AdminAccessEntry;
+  role: AdminUserRole;
+  customRoleId: string | null;
+  grant: string[];
+  revoke: string[];
+}
+
+interface PendingReview {
+  title: string;
+  diff: PermissionDiffValue;
+  confirm: () => Promise<void>;
+}
+
+// Set one permission in a grant/revoke layer relative to what the layers below provide
+function setLayerPermission(
+  baseline: string[],
+  grant: string[],
+  revoke: string[],
+  baseKey: string,
+  scope: PermissionScope | null
+) {
+  const [resource, action] = baseKey.split(':');
+  const inherited = baseline.find(key => RBACManager.permissionBaseKey(key) === baseKey);
+  const desired = scope ? RBACManager.permissionKey({ resource, action, scope }) : null;
+  const otherGrants = grant.filter(key => RBACManager.permissionBaseKey(key) !== baseKey);
+  const otherRevokes = revoke.filter(key => RBACManager.permissionBaseKey(key) !== baseKey);
+
+  return {
+    grant: desired && desired !== inherited ? [...otherGrants, desired] : otherGrants,
+    revoke: !desired && inherited ? [...otherRevokes, baseKey] : otherRevokes,
+  };
+}
+
+function diffKeys(before: string[], after: string[]): PermissionDiffValue {
+  return RBACManager.diffPermissions(RBACManager.fromKeys(before), RBACManager.fromKeys(after));
+}
+
+export default function RolesSettings() {
+  const { user, hasPermission } = usePermissions();
+  const canEdit = hasPermission('admins', 'roles');
+
+  const [roles, setRoles] = useState<CustomRole[]>([]);
+  const [admins, setAdmins] = useState<AdminAccessEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [roleDraft, setRoleDraft] = useState<RoleDraft | null>(null);
+  const [accessDraft, setAccessDraft] = useState<AccessDraft | null>(null);
+  const [review, setReview] = useState<PendingReview | null>(null);
+
+  useEffect(() => {
+    loadData();
+  }, []);
+
+  const loadData = async () => {
+    setLoading(true);
+    try {
+      const [rolesResponse, adminsResponse] = await Promise.all([
+        fetch('/api/admin/roles'),
+        fetch('/api/admin/admins'),
+      ]);
+      if (!rolesResponse.ok || !adminsResponse.ok) throw new Error('Failed to load roles');
+
+      const [rolesData, adminsData] = await Promise.all([rolesResponse.json(), adminsResponse.json()]);
+      setRoles(rolesData.roles);
+      setAdmins(adminsData.admins);
+    } catch (error) {
+      console.error('Error loading roles:', error);
+      toast.error('Failed to load roles');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const submit = async (url: string, method: string, body: unknown, successMessage: string) => {
+    setSaving(true);
+    try {
+      const response = await fetch(url, {
+        method,
+        headers: { 'Content-Type': 'application/json' },
+        body: body === undefined ? undefined : JSON.stringify(body),
+      });
+
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        throw new Error(data.details?.[0] || data.error || 'Failed to save changes');
+      }
+
+      toast.success(successMessage);
+      setReview(null);
+      setRoleDraft(null);
+      setAccessDraft(null);
+      await loadData();
+    } catch (error) {
+      console.error('Error saving permissions:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to save changes');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  // Custom role editor
+  const roleBaseline = roleDraft ? RBACManager.toKeys(RBACManager.getRolePermissions(roleDraft.inherits)) : [];
+  const roleEffective = roleDraft ? RBACManager.toKeys(RBACManager.resolvePermissions(roleDraft.inherits, roleDraft)) : [];
+
+  const changeRoleBase = (inherits: AdminUserRole) => {
+    if (!roleDraft) return;
+    const baseline = RBACManager.toKeys(RBACManager.getRolePermissions(inherits));
+    const inheritedBases = baseline.map(key => RBACManager.permissionBaseKey(key));
+    // Drop grants and revokes that became no-ops against the new base role
+    setRoleDraft({
+      ...roleDraft,
+      inherits,
+      grants: roleDraft.grants.filter(key => !baseline.includes(key)),
+      revokes: roleDraft.revokes.filter(key => inheritedBases.includes(RBACManager.permissionBaseKey(key))),
+    });
+  };
+
+  const changeRolePermission = (baseKey: string, scope: PermissionScope | null) => {
+    if (!roleDraft) return;
+    const layer = setLayerPermission(roleBaseline, roleDraft.grants, roleDraft.revokes, baseKey, scope);
+    setRoleDraft({ ...roleDraft, grants: layer.grant, revokes: layer.revoke });
+  };
+
+  const reviewRole = () => {
+    if (!roleDraft) return;
+    const existing = roles.find(role => role.id === roleDraft.id);
+    const body = {
+      name: roleDraft.name,
+      description: roleDraft.description || null,
+      inherits: roleDraft.inherits,
+      grants: roleDraft.grants,
+      revokes: roleDraft.revokes,
+    };
+
+    setReview({
+      title: existing ? `Update role "${existing.name}"` : `Create role "${roleDraft.name}"`,
+      diff: diffKeys(existing?.permissions || [], roleEffective),
+      confirm: () => existing
+        ? submit(`/api/admin/roles/${existing.id}`, 'PUT', body, 'Role updated')
+        : submit('/api/admin/roles', 'POST', body, 'Role created'),
+    });
+  };
+
+  const reviewRoleDelete = (role: CustomRole) => {
+    setReview({
+      title: `Delete role "${role.name}"`,
+      diff: diffKeys(role.permissions, []),
+      confirm: () => submit(`/api/admin/roles/${role.id}`, 'DELETE', undefined, 'Role deleted'),
+    });
+  };
+
+  // Per-admin access editor
+  const draftCustomRole = accessDraft?.customRoleId
+    ? roles.find(role => role.id === accessDraft.customRoleId) || null
+    : null;
+  const accessRole = draftCustomRole ? draftCustomRole.inherits : accessDraft?.role || 'viewer';
+  const accessBaseline = accessDraft ? RBACManager.toKeys(RBACManager.resolvePermissions(accessRole, draftCustomRole)) : [];
+  const accessEffective = accessDraft
+    ? RBACManager.toKeys(RBACManager.resolvePermissions(accessRole, draftCustomRole, {
+        grant: accessDraft.grant,
+        revoke: accessDraft.revoke,
+      }))
+    : [];
+
+  const changeAccessPermission = (baseKey: string, scope: PermissionScope | null) => {
+    if (!accessDraft) return;
+    const layer = setLayerPermission(accessBaseline, accessDraft.grant, accessDraft.revoke, baseKey, scope);
+    setAccessDraft({ ...accessDraft, ...layer });
+  };
+
+  const reviewAccess = () => {
+    if (!accessDraft) return;
+    const { admin } = accessDraft;
+
+    setReview({
+      title: `Update access for ${admin.email}`,
+      diff: diffKeys(admin.permissions, accessEffective),
+      confirm: () => submit(`/api/admin/admins/${admin.id}/access`, 'PUT', {
+        role: accessRole,
+        customRoleId: accessDraft.customRoleId,
+        overrides: { grant: accessDraft.grant, revoke: accessDraft.revoke },
+      }, 'Admin permissions updated'),
+    });
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-indigo-600"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h3 className="text-lg leading-6 font-medium text-gray-900 dark:text-white">
+          Roles &amp; Permissions
+        </h3>
+        <p className="mt-1 text-sm text-gray-500 dark:text-gray-400">
+          Build custom roles on top of the built-in ones and fine-tune individual admins.
+        </p>
+      </div>
+
+      {/* Custom roles */}
+      <div className="space-y-4">
+        <div className="flex items-center justify-between">
+          <h4 className="text-sm font-medium text-gray-900 dark:text-white">Custom Roles</h4>
+          {canEdit && !roleDraft && (
+            <button
+              onClick={() => setRoleDraft({ name: '', description: '', inherits: 'viewer', grants: [], revokes: [] })}
+              className="px-3 py-2 bg-gray-700 text-white rounded-md hover:bg-gray-600 text-sm"
+            >
+              New role
+            </button>
+          )}
+        </div>
+
+        {roles.length === 0 ? (
+          <p className="text-sm text-gray-500 dark:text-gray-400">No custom roles yet.</p>
+        ) : (
+          <div className="space-y-2">
+            {roles.map((role) => (
+              <div key={role.id} className="flex items-center justify-between p-4 bg-gray-700/50 rounded-lg">
+                <div>
+                  <p className="text-white font-medium">{role.name}</p>
+                  <p className="text-gray-400 text-sm">
+                    Based on {role.inherits} &middot; +{role.grants.length} / -{role.revokes.length} &middot;{' '}
+                    {role.assignedCount} admin{role.assignedCount === 1 ? '' : 's'}
+                  </p>
+                  {role.description && <p className="text-gray-400 text-sm mt-1">{role.description}</p>}
+                </div>
+                {canEdit && (
+                  <div className="flex space-x-2">
+                    <button
+                      onClick={() => setRoleDraft({
+                        id: role.id,
+                        name: role.name,
+                        description: role.description || '',
+                        inherits: role.inherits,
+                        grants: role.grants,
+                        revokes: role.revokes,
+                      })}
+                      className="px-3 py-1.5 bg-gray-700 text-white rounded hover:bg-gray-600 text-sm"
+                    >
+                      Edit
+                    </button>
+                    <button
+                      onClick={() => reviewRoleDelete(role)}
+                      disabled={role.assignedCount > 0}
+                      title={role.assignedCount > 0 ? 'Reassign its admins first' : undefined}
+                      className="px-3 py-1.5 bg-red-600 text-white rounded hover:bg-red-700 text-sm disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                      Delete
+                    </button>
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+
+        {roleDraft && (
+          <div className="space-y-4 p-4 border border-gray-200 dark:border-gray-700 rounded-lg">
+            <div className="grid grid-cols-1 gap-4 sm:grid-cols-3">
+              <div>
+                <label htmlFor="role_name" className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+                  Name
+                </label>
+                <input
+                  id="role_name"
+                  type="text"
+                  value={roleDraft.name}
+                  placeholder="support_lead"
+                  onChange={(e) => setRoleDraft({ ...roleDraft, name: e.target.value })}
+                  className={inputClassName}
+                />
+              </div>
+              <div>
+                <label htmlFor="role_inherits" className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+                  Based on
+                </label>
+                <select
+                  id="role_inherits"
+                  value={roleDraft.inherits}
+                  onChange={(e) => changeRoleBase(e.target.value as AdminUserRole)}
+                  className={inputClassName}
+                >
+                  {BUILT_IN_ROLES.map(role => <option key={role} value={role}>{role}</option>)}
+                </select>
+              </div>
+              <div>
+                <label htmlFor="role_description" className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+                  Description
+                </label>
+                <input
+                  id="role_description"
+                  type="text"
+                  value={roleDraft.description}
+                  onChange={(e) => setRoleDraft({ ...roleDraft, description: e.target.value })}
+                  className={inputClassName}
+                />
+              </div>
+            </div>
+
+            <PermissionGrid value={roleEffective} baseline={roleBaseline} onChange={changeRolePermission} />
+
+            <div className="flex justify-end space-x-2">
+              <button
+                onClick={() => setRoleDraft(null)}
+                className="px-4 py-2 text-sm font-medium text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700 rounded-md"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={reviewRole}
+                disabled={!roleDraft.name.trim()}
+                className="px-4 py-2 text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700 rounded-md disabled:opacity-50"
+              >
+                Review changes
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+
+      {/* Admin access */}
+      <div className="space-y-4 pt-6 border-t border-gray-200 dark:border-gray-700">
+        <h4 className="text-sm font-medium text-gray-900 dark:text-white">Admin Access</h4>
+
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700 text-sm">
+            <thead>
+              <tr className="text-left text-gray-500 dark:text-gray-400">
+                <th className="py-2 pr-4 font-medium">Admin</th>
+                <th className="py-2 pr-4 font-medium">Role</th>
+                <th className="py-2 pr-4 font-medium">Overrides</th>
+                <th className="py-2 pr-4 font-medium">Permissions</th>
+                <th className="py-2 font-medium"></th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+              {admins.map((admin) => {
+                const customRole = roles.find(role => role.id === admin.customRoleId);
+                const isSelf = admin.id === user?.id;
+
+                return (
+                  <tr key={admin.id} className="text-gray-700 dark:text-gray-300">
+                    <td className="py-2 pr-4">
+                      {admin.fullName || admin.email}
+                      {admin.fullName && <span className="block text-xs text-gray-500">{admin.email}</span>}
+                    </td>
+                    <td className="py-2 pr-4">{customRole ? `${customRole.name} (${admin.role})` : admin.role}</td>
+                    <td className="py-2 pr-4">+{admin.overrides.grant.length} / -{admin.overrides.revoke.length}</td>
+                    <td className="py-2 pr-4">{admin.permissions.length}</td>
+                    <td className="py-2 text-right">
+                      {canEdit && !isSelf && (
+                        <button
+                          onClick={() => setAccessDraft({
+                            admin,
+                            role: admin.role,
+                            customRoleId: admin.customRoleId,
+                            grant: admin.overrides.grant,
+                            revoke: admin.overrides.revoke,
+                          })}
+                          className="px-3 py-1.5 bg-gray-700 text-white rounded hover:bg-gray-600 text-sm"
+                        >
+                          Edit
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+
+        {accessDraft && (
+          <div className="space-y-4 p-4 border border-gray-200 dark:border-gray-700 rounded-lg">
+            <p className="text-white font-medium">{accessDraft.admin.email}</p>
+            <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
+              <div>
+                <label htmlFor="access_role" className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+                  Built-in role
+                </label>
+                <select
+                  id="access_role"
+                  value={accessRole}
+                  disabled={!!draftCustomRole}
+                  onChange={(e) => setAccessDraft({ ...accessDraft, role: e.target.value as AdminUserRole })}
+                  className={inputClassName}
+                >
+                  {BUILT_IN_ROLES.map(role => <option key={role} value={role}>{role}</option>)}
+                </select>
+              </div>
+              <div>
+                <label htmlFor="access_custom_role" className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+                  Custom role
+                </label>
+                <select
+                  id="access_custom_role"
+                  value={accessDraft.customRoleId || ''}
+                  onChange={(e) => setAccessDraft({ ...accessDraft, customRoleId: e.target.value || null })}
+                  className={inputClassName}
+                >
+                  <option value="">None</option>
+                  {roles.map(role => <option key={role.id} value={role.id}>{role.name}</option>)}
+                </select>
+              </div>
+            </div>
+
+            <p className="text-sm text-gray-500 dark:text-gray-400">
+              Changes below apply to this admin only, on top of their role.
+            </p>
+            <PermissionGrid value={accessEffective} baseline={accessBaseline} onChange={changeAccessPermission} />
+
+            <div className="flex justify-end space-x-2">
+              <button
+                onClick={() => setAccessDraft(null)}
+                className="px-4 py-2 text-sm font-medium text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700 rounded-md"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={reviewAccess}
+                className="px-4 py-2 text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700 rounded-md"
+              >
+                Review changes
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+
+      {review && (
+        <div className="fixed inset-0 bg-gray-500 bg-opacity-75 flex items-center justify-center z-50">
+          <div className="bg-white dark:bg-gray-800 rounded-lg p-6 max-w-2xl w-full">
+            <h3 className="text-lg font-medium text-gray-900 dark:text-white mb-4">{review.title}</h3>
+            <PermissionDiff diff={review.diff} />
+            <div className="mt-6 flex justify-end space-x-2">
+              <button
+                onClick={() => setReview(null)}
+                className="px-4 py-2 text-sm font-medium text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700 rounded-md"
+              >
+                Back
+              </button>
+              <button
+                onClick={review.confirm}
+                disabled={saving}
+                className="px-4 py-2 text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700 rounded-md disabled:opacity-50"
+              >
+                {saving ? 'Saving...' : 'Confirm'}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
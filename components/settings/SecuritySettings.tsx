@@ -13,9 +13,11 @@ interface SecuritySettingsData {
   password_require_numbers: boolean;
   password_require_special: boolean;
   password_expiry_days: number;
+  password_history_count: number;
   max_login_attempts: number;
   lockout_duration_minutes: number;
   session_timeout_minutes: number;
+  session_absolute_timeout_hours: number;
   ip_whitelist_enabled: boolean;
   ip_whitelist: string[];
   ip_blacklist_enabled: boolean;
@@ -35,9 +37,11 @@ export default function SecuritySettings() {
     password_require_numbers: true,
     password_require_special: false,
     password_expiry_days: 90,
+    password_history_count: 5,
     max_login_attempts: 5,
     lockout_duration_minutes: 30,
     session_timeout_minutes: 60,
+    session_absolute_timeout_hours: 12,
     ip_whitelist_enabled: false,
     ip_whitelist: [],
     ip_blacklist_enabled: false,
@@ -240,6 +244,19 @@ export default function SecuritySettings() {
               className="mt-1 block w-full border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm dark:bg-gray-700 dark:text-white"
             />
           </div>
+
+          <div>
+            <label htmlFor="session_absolute_timeout_hours" className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+              Maximum Session Length (hours)
+            </label>
+            <input
+              type="number"
+              id="session_absolute_timeout_hours"
+              value={settings.session_absolute_timeout_hours}
+              onChange={(e) => handleChange('session_absolute_timeout_hours', parseInt(e.target.value))}
+              className="mt-1 block w-full border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm dark:bg-gray-700 dark:text-white"
+            />
+          </div>
         </div>
       </div>
 
@@ -273,6 +290,20 @@ export default function SecuritySettings() {
               className="mt-1 block w-full border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm dark:bg-gray-700 dark:text-white"
             />
           </div>
+
+          <div>
+            <label htmlFor="password_history_count" className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+              Previous Passwords Blocked From Reuse
+            </label>
+            <input
+              type="number"
+              id="password_history_count"
+              min={0}
+              value={settings.password_history_count}
+              onChange={(e) => handleChange('password_history_count', parseInt(e.target.value))}
+              className="mt-1 block w-full border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm dark:bg-gray-700 dark:text-white"
+            />
+          </div>
         </div>
 
         <div className="space-y-2">
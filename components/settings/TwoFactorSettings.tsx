@@ -0,0 +1,86 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { toast } from 'react-hot-toast';
+import { TwoFactorSetupWizard } from '@/components/auth/TwoFactorSetupWizard';
+
+interface TwoFactorStatus {
+  enabled: boolean;
+  backupCodesRemaining: number;
+  required: boolean;
+}
+
+export default function TwoFactorSettings() {
+  const [status, setStatus] = useState<TwoFactorStatus | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [settingUp, setSettingUp] = useState(false);
+
+  useEffect(() => {
+    loadStatus();
+  }, []);
+
+  const loadStatus = async () => {
+    setLoading(true);
+    try {
+      const response = await fetch('/api/admin/auth/2fa/status');
+      if (!response.ok) throw new Error('Failed to load 2FA status');
+
+      setStatus(await response.json());
+    } catch (error) {
+      console.error('Error loading 2FA status:', error);
+      toast.error('Failed to load two-factor authentication status');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleComplete = () => {
+    setSettingUp(false);
+    toast.success('Two-factor authentication enabled');
+    loadStatus();
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center p-4 bg-gray-700/50 rounded-lg">
+        <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-indigo-600"></div>
+      </div>
+    );
+  }
+
+  if (settingUp) {
+    return (
+      <div className="p-4 bg-gray-700/50 rounded-lg">
+        <p className="text-white font-medium mb-4">Set up two-factor authentication</p>
+        <TwoFactorSetupWizard onComplete={handleComplete} onCancel={() => setSettingUp(false)} />
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex items-center justify-between p-4 bg-gray-700/50 rounded-lg">
+      <div>
+        <p className="text-white font-medium">Your Two-Factor Authentication</p>
+        <p className="text-gray-400 text-sm">
+          {status?.enabled
+            ? `Enabled · ${status.backupCodesRemaining} backup codes remaining`
+            : status?.required
+              ? 'Required for all administrators but not yet set up'
+              : 'Protect your account with an authenticator app'}
+        </p>
+      </div>
+      {status?.enabled ? (
+        <span className="px-2.5 py-0.5 rounded-full text-xs font-medium bg-green-100 text-green-800">
+          Enabled
+        </span>
+      ) : (
+        <button
+          onClick={() => setSettingUp(true)}
+          className="px-4 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 transition-colors text-sm"
+        >
+          Set up
+        </button>
+      )}
+    </div>
+  );
+}
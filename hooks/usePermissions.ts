@@ -3,7 +3,7 @@
 import { useState, useEffect, useMemo, useCallback } from 'react';
 import { useRouter, usePathname } from 'next/navigation';
 import { createBrowserClient } from '@/lib/supabase/client';
-import { RBACManager, PermissionChecks } from '@/lib/auth/rbac';
+import { RBACManager, PermissionChecks, type Permission } from '@/lib/auth/rbac';
 import { ClientSessionManager } from '@/lib/auth/session';
 import type { AdminUserRole, AdminUser } from '@/lib/types/database.types';
 import type { User } from '@supabase/supabase-js';
@@ -12,6 +12,9 @@ interface UsePermissionsState {
   user: User | null;
   adminUser: AdminUser | null;
   role: AdminUserRole | null;
+  // Effective permissions resolved server-side (role, custom role, overrides)
+  permissions: Permission[];
+  customRole: { id: string; name: string; inherits: AdminUserRole } | null;
   loading: boolean;
   error: string | null;
   twoFactorVerified: boolean;
@@ -47,6 +50,8 @@ export function usePermissions(): PermissionHookResult {
     user: null,
     adminUser: null,
     role: null,
+    permissions: [],
+    customRole: null,
     loading: true,
     error: null,
     twoFactorVerified: false,
@@ -65,6 +70,8 @@ export function usePermissions(): PermissionHookResult {
           user: null,
           adminUser: null,
           role: null,
+          permissions: [],
+          customRole: null,
           loading: false,
           error: userError?.message || 'No user found',
           twoFactorVerified: false,
@@ -84,6 +91,8 @@ export function usePermissions(): PermissionHookResult {
           user,
           adminUser: null,
           role: null,
+          permissions: [],
+          customRole: null,
           loading: false,
           error: 'User is not an admin',
           twoFactorVerified: false,
@@ -96,6 +105,8 @@ export function usePermissions(): PermissionHookResult {
           user,
           adminUser,
           role: adminUser.role,
+          permissions: [],
+          customRole: null,
           loading: false,
           error: 'Admin account is deactivated',
           twoFactorVerified: false,
@@ -103,33 +114,29 @@ export function usePermissions(): PermissionHookResult {
         return;
       }
 
-      // Check 2FA verification status from localStorage or cookie
+      // Custom roles, overrides and the login session's second factor are only resolved on the server
+      let permissions: Permission[] = [];
+      let customRole: UsePermissionsState['customRole'] = null;
       let twoFactorVerified = false;
-      if (typeof window !== 'undefined') {
-        const twoFactorData = localStorage.getItem('admin-2fa-verified');
-        if (twoFactorData) {
-          try {
-            const parsed = JSON.parse(twoFactorData);
-            const now = Date.now();
-            const sessionAge = now - parsed.timestamp;
-            const oneHour = 60 * 60 * 1000;
-
-            twoFactorVerified = sessionAge <= oneHour && parsed.userId === user.id;
-          } catch {
-            twoFactorVerified = false;
-          }
-        }
+      const response = await fetch('/api/admin/auth/permissions');
+      if (response.ok) {
+        const data = await response.json();
+        permissions = RBACManager.fromKeys(data.permissions || []);
+        customRole = data.customRole || null;
+        twoFactorVerified = !!data.twoFactorVerified;
+      }
 
-        // If 2FA is not enabled, consider as verified
-        if (!adminUser.two_factor_enabled) {
-          twoFactorVerified = true;
-        }
+      // If 2FA is not enabled, consider as verified
+      if (!adminUser.two_factor_enabled) {
+        twoFactorVerified = true;
       }
 
       setState({
         user,
         adminUser,
         role: adminUser.role,
+        permissions,
+        customRole,
         loading: false,
         error: null,
         twoFactorVerified,
@@ -146,60 +153,50 @@ export function usePermissions(): PermissionHookResult {
   // Permission checking functions
   const hasPermission = useCallback(
     (resource: string, action: string, scope?: string): boolean => {
-      if (!state.role) return false;
-      return RBACManager.hasPermission(state.role, resource, action, scope);
+      return RBACManager.hasPermissionIn(state.permissions, resource, action, scope);
     },
-    [state.role]
+    [state.permissions]
   );
 
   const hasAnyPermission = useCallback(
     (permissions: Array<{ resource: string; action: string; scope?: string }>): boolean => {
-      if (!state.role) return false;
-      return RBACManager.hasAnyPermission(state.role, permissions);
+      return permissions.some(permission =>
+        RBACManager.hasPermissionIn(state.permissions, permission.resource, permission.action, permission.scope)
+      );
     },
-    [state.role]
+    [state.permissions]
   );
 
   const hasAllPermissions = useCallback(
     (permissions: Array<{ resource: string; action: string; scope?: string }>): boolean => {
-      if (!state.role) return false;
-      return RBACManager.hasAllPermissions(state.role, permissions);
+      return RBACManager.hasAllPermissionsIn(state.permissions, permissions);
     },
-    [state.role]
+    [state.permissions]
   );
 
   const canAccessRoute = useCallback(
     (route: string): boolean => {
       if (!state.role) return false;
-      return RBACManager.canAccessRoute(state.role, route);
+      return RBACManager.canAccessRouteWith(state.permissions, route);
     },
-    [state.role]
+    [state.role, state.permissions]
   );
 
   // Common permission checks
-  const permissions = useMemo(() => {
-    if (!state.role) {
-      return {
-        canManageUsers: false,
-        canCreateReports: false,
-        canViewAnalytics: false,
-        canManageSettings: false,
-        canViewAudit: false,
-        canManageAdmins: false,
-        isSuperAdmin: false,
-      };
-    }
+  const commonChecks = useMemo(() => {
+    const has = (resource: string, action: string) =>
+      RBACManager.hasPermissionIn(state.permissions, resource, action);
 
     return {
-      canManageUsers: PermissionChecks.canManageUsers(state.role),
-      canCreateReports: PermissionChecks.canCreateReports(state.role),
-      canViewAnalytics: PermissionChecks.canViewAnalytics(state.role),
-      canManageSettings: PermissionChecks.canManageSettings(state.role),
-      canViewAudit: PermissionChecks.canViewAudit(state.role),
-      canManageAdmins: PermissionChecks.canManageAdmins(state.role),
-      isSuperAdmin: PermissionChecks.isSuperAdmin(state.role),
+      canManageUsers: has('users', 'update'),
+      canCreateReports: has('reports', 'create'),
+      canViewAnalytics: has('analytics', 'read'),
+      canManageSettings: has('settings', 'update'),
+      canViewAudit: has('audit', 'read'),
+      canManageAdmins: has('admins', 'update'),
+      isSuperAdmin: !!state.role && PermissionChecks.isSuperAdmin(state.role),
     };
-  }, [state.role]);
+  }, [state.role, state.permissions]);
 
   // Sign out function
   const signOut = useCallback(async () => {
@@ -209,6 +206,8 @@ export function usePermissions(): PermissionHookResult {
         user: null,
         adminUser: null,
         role: null,
+        permissions: [],
+        customRole: null,
         loading: false,
         error: null,
         twoFactorVerified: false,
@@ -238,6 +237,8 @@ export function usePermissions(): PermissionHookResult {
             user: null,
             adminUser: null,
             role: null,
+            permissions: [],
+            customRole: null,
             loading: false,
             error: null,
             twoFactorVerified: false,
@@ -273,14 +274,13 @@ export function usePermissions(): PermissionHookResult {
           user: null,
           adminUser: null,
           role: null,
+          permissions: [],
+          customRole: null,
           loading: false,
           error: null,
           twoFactorVerified: false,
         });
         router.replace('/admin/login');
-      } else if (event.key === 'admin-2fa-verified') {
-        // 2FA status changed in another tab
-        loadUserData();
       }
     };
 
@@ -290,7 +290,7 @@ export function usePermissions(): PermissionHookResult {
 
   return {
     ...state,
-    ...permissions,
+    ...commonChecks,
     hasPermission,
     hasAnyPermission,
     hasAllPermissions,
@@ -0,0 +1,138 @@
+/** @jest-environment node */
+import {
+  checkRegexPattern,
+  evaluateModerationItem,
+  type ModerationRule,
+  type ModerationRulesConfig,
+} from '@/lib/admin/moderation-rules';
+import { RegexTimeoutError, matchRegex, stopWorker } from '@/lib/admin/regex-worker';
+
+jest.mock('@/lib/supabase', () => ({ supabase: {} }));
+
+function configWith(rule: Partial<ModerationRule>): ModerationRulesConfig {
+  return {
+    enabled: true,
+    rules: [{ id: 'regex', name: 'Regex', type: 'regex', enabled: true, score: 50, ...rule }],
+    highPriorityScore: 60,
+    mediumPriorityScore: 30,
+    autoFlagScore: 80,
+    autoApproveMaxScore: null,
+  };
+}
+
+function item(text: string) {
+  return {
+    id: 'item-1',
+    user_id: 'user-1',
+    title: 'Listing',
+    description: text,
+    status: 'pending',
+    priority: 'low',
+    reports_count: 0,
+    author: null,
+  };
+}
+
+afterAll(() => {
+  stopWorker();
+});
+
+describe('checkRegexPattern', () => {
+  it.each([
+    ['(a+)+b'],
+    ['((a+))+b'],
+    ['(?:(?:a*)b?)*c'],
+    ['(a|ab)*c'],
+    ['(\\w+\\s?)*$'],
+    ['(x{2,})+'],
+    ['(a|b){20}'],
+  ])('refuses nested repetition: %s', pattern => {
+    expect(checkRegexPattern(pattern)).toMatch(/must not repeat a group/);
+  });
+
+  it.each([
+    ['a*a*a*a*a*b'],
+    ['.*.*=.*'],
+    ['\\d+\\d+x'],
+    ['(ab)+(ab)+'],
+  ])('refuses the same element repeated twice in a row: %s', pattern => {
+    expect(checkRegexPattern(pattern)).toMatch(/twice in a row/);
+  });
+
+  it('refuses backreferences, invalid and overlong patterns', () => {
+    expect(checkRegexPattern('(a)\\1')).toMatch(/backreferences/);
+    expect(checkRegexPattern('(?<x>a)\\k<x>')).toMatch(/backreferences/);
+    expect(checkRegexPattern('(a')).toBe('invalid regular expression');
+    expect(checkRegexPattern('a'.repeat(201))).toBe('pattern must be at most 200 characters');
+  });
+
+  it.each([
+    ['\\bfree\\s+money\\b'],
+    ['(buy|cheap) pills'],
+    ['[a-z]+@[a-z]+\\.com'],
+    ['(ab)+c'],
+    ['(?:https?://)?bit\\.ly/\\w+'],
+    ['[(+]+\\d{3}[)]?'],
+    ['a{2}b{1,3}'],
+  ])('accepts %s', pattern => {
+    expect(checkRegexPattern(pattern)).toBeNull();
+  });
+});
+
+describe('matchRegex', () => {
+  it('matches in the worker', async () => {
+    await expect(matchRegex('free\\s+money', 'i', 'Get FREE   money now')).resolves.toBe(true);
+    await expect(matchRegex('free\\s+money', 'i', 'Nothing to see')).resolves.toBe(false);
+  });
+
+  it('abandons a catastrophic match and serves the next one from a fresh worker', async () => {
+    const started = Date.now();
+
+    await expect(matchRegex('((a+))+b', '', 'a'.repeat(40), 100)).rejects.toThrow(RegexTimeoutError);
+    expect(Date.now() - started).toBeLessThan(2000);
+
+    await expect(matchRegex('a+b', '', 'aaab')).resolves.toBe(true);
+  });
+
+  it('times out adjacent quantifiers too', async () => {
+    await expect(matchRegex('a*a*a*a*a*a*b', '', 'a'.repeat(2000), 100)).rejects.toThrow(RegexTimeoutError);
+  });
+});
+
+describe('evaluateModerationItem', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('scores regex matches', async () => {
+    const decision = await evaluateModerationItem(item('Get free money now'), configWith({ pattern: 'free\\s+money' }));
+
+    expect(decision.matches).toEqual([
+      { ruleId: 'regex', ruleName: 'Regex', score: 50, detail: 'Matches /free\\s+money/' },
+    ]);
+    expect(decision.priority).toBe('medium');
+  });
+
+  it('skips saved patterns that fail the checks without running them', async () => {
+    const decision = await evaluateModerationItem(item('a'.repeat(30)), configWith({ pattern: '((a+))+b' }));
+
+    expect(decision.matches).toEqual([]);
+    expect(console.error).toHaveBeenCalledWith(expect.stringContaining('Skipping moderation rule "Regex"'));
+  });
+
+  it('treats a slow pattern the checks miss as not matching instead of blocking', async () => {
+    const pattern = 'a*[ab]*a*[ab]*a*[ab]*a*c';
+    expect(checkRegexPattern(pattern)).toBeNull();
+
+    const started = Date.now();
+    const decision = await evaluateModerationItem(item('a'.repeat(5000)), configWith({ pattern }));
+
+    expect(decision.matches).toEqual([]);
+    expect(Date.now() - started).toBeLessThan(2000);
+    expect(console.error).toHaveBeenCalledWith('Error evaluating moderation rule "Regex":', expect.any(RegexTimeoutError));
+  });
+});
@@ -0,0 +1,177 @@
+/** @jest-environment node */
+import { ReportQueryError, compileReportQuery, validateReportQuery } from '@/lib/admin/report-builder';
+import { bindParameters, bindReportQuery } from '@/lib/admin/report-engine';
+
+jest.mock('@/lib/supabase', () => ({ supabase: {} }));
+
+function errorsOf(input: unknown): string[] {
+  try {
+    compileReportQuery(input);
+  } catch (error) {
+    if (error instanceof ReportQueryError) return error.errors;
+    throw error;
+  }
+  return [];
+}
+
+describe('compileReportQuery', () => {
+  it('quotes every identifier and aliases each source', () => {
+    const { sql, columns } = compileReportQuery({
+      dataSources: ['users'],
+      selectedFields: ['users.id', 'users.email', 'users.last_login'],
+    });
+
+    expect(sql).toBe([
+      'SELECT "users"."id" AS "id", "users"."email" AS "email", "users"."last_seen_at" AS "last_login"',
+      'FROM "profiles" AS "users"',
+      'LIMIT 10000',
+    ].join('\n'));
+    expect(columns).toEqual(['id', 'email', 'last_login']);
+  });
+
+  it('joins sources on their declared columns', () => {
+    const { sql } = compileReportQuery({
+      dataSources: ['users', 'transactions'],
+      selectedFields: ['users.email', 'transactions.amount'],
+    });
+
+    expect(sql).toContain('FROM "profiles" AS "users"\nLEFT JOIN "transactions" AS "transactions" ON "transactions"."user_id" = "users"."id"');
+    expect(sql).toContain('"users"."email" AS "users_email", "transactions"."amount" AS "transactions_amount"');
+  });
+
+  it('reads JSON fields with a quoted key and a cast', () => {
+    const { sql } = compileReportQuery({
+      dataSources: ['analytics'],
+      selectedFields: ['analytics.session_id', 'analytics.duration'],
+    });
+
+    expect(sql).toContain(`("analytics"."metadata"->>'session_id') AS "session_id"`);
+    expect(sql).toContain(`("analytics"."metadata"->>'duration')::numeric AS "duration"`);
+  });
+
+  describe('filter values', () => {
+    const injection = "x' OR 1=1; DROP TABLE profiles; --";
+
+    it('become typed parameters and never appear in the SQL', () => {
+      const { sql, parameters } = compileReportQuery({
+        dataSources: ['users', 'transactions'],
+        selectedFields: ['users.email'],
+        filters: [
+          { id: 'a', field: 'users.email', operator: 'equals', value: injection },
+          { id: 'b', field: 'transactions.amount', operator: 'between', value: [10, 20] },
+          { id: 'c', field: 'users.created_at', operator: 'greater_than', value: '2026-01-01' },
+        ],
+      });
+
+      expect(sql).not.toContain('DROP');
+      expect(sql).toContain('WHERE "users"."email" = :filter_1 AND "transactions"."amount" BETWEEN :filter_2_from::numeric AND :filter_2_to::numeric AND "users"."created_at" > :filter_3::timestamptz');
+      expect(parameters).toEqual([
+        { name: 'filter_1', type: 'string', required: true, default: injection },
+        { name: 'filter_2_from', type: 'number', required: true, default: 10 },
+        { name: 'filter_2_to', type: 'number', required: true, default: 20 },
+        { name: 'filter_3', type: 'date', required: true, default: '2026-01-01' },
+      ]);
+    });
+
+    it('match LIKE wildcards literally in "contains"', () => {
+      const { sql } = compileReportQuery({
+        dataSources: ['content'],
+        selectedFields: ['content.title'],
+        filters: [{ id: 'a', field: 'content.title', operator: 'contains', value: '100%_off' }],
+      });
+
+      expect(sql).toContain(`WHERE "content"."title" ILIKE '%' || replace(replace(replace(:filter_1, '\\', '\\\\'), '%', '\\%'), '_', '\\_') || '%'`);
+    });
+
+    it('compile to SQL that the template binder accepts, with the value bound as JSON', () => {
+      const { sql, parameters } = compileReportQuery({
+        dataSources: ['content'],
+        selectedFields: ['content.title'],
+        filters: [
+          { id: 'a', field: 'content.title', operator: 'contains', value: injection },
+          { id: 'b', field: 'content.reports_count', operator: 'greater_than', value: 2 },
+        ],
+      });
+
+      const { query, params } = bindReportQuery(sql, bindParameters(parameters, {}));
+
+      expect(query).toContain(`replace(replace(replace(($1->>'filter_1'), '\\', '\\\\')`);
+      expect(query).toContain(`"content"."reports_count" > ($1->>'filter_2')::numeric`);
+      expect(query).not.toContain(injection);
+      expect(params).toEqual({ filter_1: injection, filter_2: 2 });
+    });
+
+    it('reject values that do not fit the field type', () => {
+      expect(errorsOf({
+        dataSources: ['transactions'],
+        selectedFields: ['transactions.amount'],
+        filters: [{ id: 'a', field: 'transactions.amount', operator: 'greater_than', value: '1; DROP TABLE x' }],
+      })).toEqual(['Filter on "Amount": value must be a number']);
+    });
+  });
+
+  describe('untrusted names', () => {
+    it('refuses sources, fields and operators outside the schema', () => {
+      expect(errorsOf({
+        dataSources: ['users', 'admin_users'],
+        selectedFields: ['users.id', 'users.password_hash', 'users.id" FROM admin_users --'],
+        filters: [
+          { id: 'a', field: 'admin_users.email', operator: 'equals', value: 'x' },
+          { id: 'b', field: 'users.email', operator: 'equals; DROP TABLE profiles', value: 'x' },
+        ],
+      })).toEqual([
+        'Unknown data source "admin_users"',
+        'Unknown selected field "users.password_hash"',
+        'Unknown selected field "users.id" FROM admin_users --"',
+        'Unknown filter field "admin_users.email"',
+        'Unknown filter operator "equals; DROP TABLE profiles"',
+      ]);
+    });
+
+    it('refuses aggregation names that are not plain identifiers', () => {
+      expect(errorsOf({
+        dataSources: ['transactions'],
+        selectedFields: [],
+        aggregations: [{
+          field: 'transactions.status',
+          aggregations: [{ field: 'transactions.amount', type: 'sum', alias: 'total" FROM admin_users --' }],
+        }],
+      })).toEqual(['Aggregation name "total" FROM admin_users --" may only use letters, numbers and underscores']);
+    });
+
+    it('refuses unknown aggregation types', () => {
+      expect(errorsOf({
+        dataSources: ['transactions'],
+        selectedFields: [],
+        aggregations: [{ field: 'transactions.status', aggregations: [{ field: 'transactions.amount', type: 'pg_sleep' }] }],
+      })).toEqual(['Unknown aggregation "pg_sleep"']);
+    });
+
+    it('orders only by result columns and reduces directions to ASC or DESC', () => {
+      expect(errorsOf({
+        dataSources: ['users'],
+        selectedFields: ['users.email'],
+        orderBy: [{ field: '1; DROP TABLE profiles', direction: 'asc' }],
+      })).toEqual(['Cannot order by "1; DROP TABLE profiles" because it is not in the results']);
+
+      const { sql } = compileReportQuery({
+        dataSources: ['users'],
+        selectedFields: ['users.email'],
+        orderBy: [{ field: 'users.email', direction: 'asc; DROP TABLE profiles' }],
+      });
+      expect(sql).toContain('ORDER BY "email" ASC');
+    });
+
+    it('accepts only whole-number limits in range', () => {
+      expect(errorsOf({ dataSources: ['users'], selectedFields: ['users.id'], limit: '1; DROP TABLE profiles' }))
+        .toEqual(['Limit must be a whole number between 1 and 10000']);
+      expect(compileReportQuery({ dataSources: ['users'], selectedFields: ['users.id'], limit: 25 }, { maxRows: 5 }).sql)
+        .toMatch(/\nLIMIT 5$/);
+    });
+  });
+
+  it('reports every problem through validateReportQuery', () => {
+    expect(validateReportQuery({ dataSources: [] })).toEqual({ isValid: false, errors: ['Choose at least one data source'] });
+    expect(validateReportQuery({ dataSources: ['logs'], selectedFields: ['logs.action'] })).toEqual({ isValid: true });
+  });
+});
@@ -0,0 +1,177 @@
+/** @jest-environment node */
+import { bindReportQuery } from '@/lib/admin/report-engine';
+
+jest.mock('@/lib/supabase', () => ({ supabase: {} }));
+
+describe('bindReportQuery', () => {
+  describe('placeholders', () => {
+    it('binds placeholders as JSON lookups and keeps casts', () => {
+      expect(bindReportQuery('select created_at::date as day from profiles where created_at >= :start::date', { start: '2026-01-01' }))
+        .toEqual({
+          query: "select created_at::date as day from profiles where created_at >= ($1->>'start')::date",
+          params: { start: '2026-01-01' },
+        });
+    });
+
+    it('leaves placeholder lookalikes in literals, quoted identifiers and comments alone', () => {
+      const sql = [
+        "select ':not_bound' as label, id as \":nor_this\" from profiles",
+        '-- :nor_in_line_comments',
+        'where role = :role /* :nor_in_block_comments */',
+      ].join('\n');
+
+      expect(bindReportQuery(sql, { role: 'user' })).toEqual({
+        query: sql.replace('= :role', "= ($1->>'role')"),
+        params: { role: 'user' },
+      });
+    });
+
+    it('keeps values out of the SQL text', () => {
+      const role = "x' or 1=1; drop table profiles; --";
+
+      const { query, params } = bindReportQuery('select id from profiles where role = :role', { role });
+
+      expect(query).toBe("select id from profiles where role = ($1->>'role')");
+      expect(params).toEqual({ role });
+    });
+
+    it('requires a value for every placeholder', () => {
+      expect(() => bindReportQuery('select id from profiles where role = :role', {}))
+        .toThrow('No value for query parameter :role');
+    });
+
+    it('passes only the parameters the query uses', () => {
+      expect(bindReportQuery('select id from profiles where role = :role', { role: 'user', extra: 1 }).params)
+        .toEqual({ role: 'user' });
+    });
+  });
+
+  describe('statements', () => {
+    it('accepts one SELECT or WITH, with or without a trailing semicolon', () => {
+      expect(bindReportQuery('select id from profiles;', {}).query).toBe('select id from profiles');
+      expect(bindReportQuery("with recent as (select id from profiles) select ';' as s, id from recent", {}).query)
+        .toBe("with recent as (select id from profiles) select ';' as s, id from recent");
+    });
+
+    it.each([
+      ['select id from profiles; delete from profiles'],
+      ['select id from profiles; select 1'],
+      ['select id from profiles /* ; */; drop table profiles'],
+    ])('refuses multiple statements: %s', sql => {
+      expect(() => bindReportQuery(sql, {})).toThrow('Report queries must be a single statement');
+    });
+
+    it.each([
+      ['delete from profiles'],
+      ['/* select */ update profiles set role = 1'],
+      ['-- select\ninsert into profiles default values'],
+    ])('refuses statements that are not queries: %s', sql => {
+      expect(() => bindReportQuery(sql, {})).toThrow('Report queries must start with SELECT or WITH');
+    });
+
+    it.each([
+      ['with gone as (delete from profiles returning *) select * from gone', 'DELETE'],
+      ['select id from profiles for update', 'UPDATE'],
+      ['select id from profiles where id in (select id from profiles) union table profiles', 'TABLE'],
+      ['with x as (insert into transactions default values returning id) select id from x', 'INSERT'],
+    ])('refuses forbidden keywords: %s', (sql, keyword) => {
+      expect(() => bindReportQuery(sql, {})).toThrow(`Report queries may not use ${keyword}`);
+    });
+
+    it('ignores forbidden keywords inside literals and comments', () => {
+      expect(() => bindReportQuery("select 'drop table profiles' as s from profiles -- delete", {})).not.toThrow();
+    });
+  });
+
+  describe('tables', () => {
+    it.each([
+      ['select * from admin_users'],
+      ['select * from auth.users'],
+      ['select * from public.admin_users'],
+      ['select * from "admin_users"'],
+      ['select * from profiles, admin_users'],
+      ['select * from profiles p join admin_users a on a.id = p.id'],
+      ['select * from profiles p left join lateral (select * from admin_users) a on true'],
+      ['select * from (select * from admin_users) a'],
+      ['select (select count(*) from admin_users) as n from profiles'],
+      ['select * from profiles where exists (select 1 from auth.sessions)'],
+      ['with a as (select 1) select * from a, pg_catalog.pg_authid'],
+      ['select * from "Profiles"'],
+    ])('refuses tables outside the allowlist: %s', sql => {
+      expect(() => bindReportQuery(sql, {})).toThrow('is not allowed');
+    });
+
+    it.each([
+      ['select * from profiles'],
+      ['select * from public.profiles p join transactions t on t.user_id = p.id'],
+      ['with recent as (select * from activity_logs) select * from recent, audit_logs'],
+      ['select * from moderation_items m, generate_series(1, 3) g'],
+      ['select extract(year from created_at) as y from profiles'],
+    ])('accepts the report tables, CTEs and series functions: %s', sql => {
+      expect(() => bindReportQuery(sql, {})).not.toThrow();
+    });
+
+    it('refuses other functions where a table belongs', () => {
+      expect(() => bindReportQuery('select * from lo_export(1, 2)', {})).toThrow('may not call lo_export');
+      expect(() => bindReportQuery('select * from public.generate_series(1, 3)', {}))
+        .toThrow('Report queries may not read from public.generate_series()');
+      expect(() => bindReportQuery('select * from json_populate_record(null, null)', {}))
+        .toThrow('Report queries may not read from json_populate_record()');
+    });
+  });
+
+  describe('functions', () => {
+    it.each([
+      ["select pg_read_file('/etc/passwd') from profiles", 'pg_read_file'],
+      ['select "pg_sleep"(10) from profiles', 'pg_sleep'],
+      ["select current_setting('role') from profiles", 'current_setting'],
+      ["select set_config('role', 'postgres', false) from profiles", 'set_config'],
+      ["select query_to_xml('select 1', true, true, '') from profiles", 'query_to_xml'],
+      ["select * from dblink('host=x', 'select 1') as t(a int)", 'dblink'],
+    ])('refuses functions that reach the server: %s', (sql, name) => {
+      expect(() => bindReportQuery(sql, {})).toThrow(`Report queries may not call ${name}`);
+    });
+
+    it('allows ordinary functions', () => {
+      expect(() => bindReportQuery("select count(*), date_trunc('day', created_at) from profiles group by 2", {})).not.toThrow();
+    });
+  });
+
+  describe('literals the table allowlist could be hidden behind', () => {
+    it.each([
+      ["select $$'$$ as a, * from admin_users --'"],
+      ["select $tag$'$tag$ as a, * from admin_users --'"],
+      ["select $1 from profiles"],
+    ])('refuses dollar quoting and $ parameters: %s', sql => {
+      expect(() => bindReportQuery(sql, {})).toThrow('Report queries may not use dollar-quoted strings or $ parameters');
+    });
+
+    it.each([
+      ["select E'\\'' as a, * from auth.users --'"],
+      ["select e'\\'' as a, * from auth.users --'"],
+      ["select id from profiles where full_name = E'x'"],
+    ])('refuses escape strings: %s', sql => {
+      expect(() => bindReportQuery(sql, {})).toThrow("Report queries may not use escape strings (E'...')");
+    });
+
+    it('sees through nested block comments as Postgres does', () => {
+      expect(() => bindReportQuery("select 1 /* /* */ ' */ as a, * from admin_users --'", {}))
+        .toThrow('admin_users is not allowed');
+    });
+
+    it('refuses unterminated quotes and comments', () => {
+      expect(() => bindReportQuery("select 'open from profiles", {})).toThrow('unterminated quote');
+      expect(() => bindReportQuery('select id from "profiles', {})).toThrow('unterminated quote');
+      expect(() => bindReportQuery('select id from profiles /* /* */', {})).toThrow('unterminated comment');
+    });
+
+    it('still accepts $ inside identifiers and literals, and E as an identifier', () => {
+      const sql = "select e.id as id$1, 'costs $5' as label, 'E''s' as quoted from profiles e where e.role = :role";
+
+      expect(bindReportQuery(sql, { role: 'user' })).toEqual({
+        query: "select e.id as id$1, 'costs $5' as label, 'E''s' as quoted from profiles e where e.role = ($1->>'role')",
+        params: { role: 'user' },
+      });
+    });
+  });
+});
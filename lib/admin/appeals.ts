@@ -0,0 +1,657 @@
+import { supabase } from '@/lib/supabase';
+import { recordAuditLog } from '@/lib/admin/audit-logs';
+import type {
+  AppealStatus,
+  AppealSubjectType,
+  ModerationHistoryEntry,
+} from '@/lib/types/database.types';
+
+export interface Appeal {
+  id: string;
+  subjectType: AppealSubjectType;
+  status: AppealStatus;
+  message: string;
+  user: {
+    id: string;
+    name: string;
+    email: string;
+  };
+  moderationItem?: {
+    id: string;
+    title: string;
+    status: string;
+    reason?: string;
+  };
+  originalDeciderId: string | null;
+  decidedBy: string | null;
+  decidedAt: string | null;
+  decisionReason: string | null;
+  slaDueAt: string;
+  createdAt: string;
+}
+
+export interface AppealStats {
+  pending: number;
+  overdue: number;
+  decidedToday: number;
+  oldestPendingAge: string;
+  avgResolutionTime: string;
+}
+
+export interface PaginationInfo {
+  page: number;
+  limit: number;
+  total: number;
+  totalPages: number;
+  hasNextPage: boolean;
+  hasPreviousPage: boolean;
+}
+
+export interface AppealListResponse {
+  appeals: Appeal[];
+  pagination: PaginationInfo;
+  filters: {
+    status?: string;
+    subjectType?: string;
+  };
+  stats: AppealStats;
+}
+
+export interface CreateAppealParams {
+  userId: string;
+  subjectType: AppealSubjectType;
+  moderationItemId?: string;
+  message: string;
+}
+
+export type AppealDecision = 'approve' | 'deny';
+
+export interface AppealActor {
+  id: string;
+  email: string;
+  ipAddress?: string | null;
+  userAgent?: string | null;
+}
+
+export interface AppealResult {
+  success: boolean;
+  appeal?: Appeal;
+  error?: string;
+  status?: number;
+}
+
+interface AppealFilters {
+  page?: number;
+  limit?: number;
+  status?: string;
+  subjectType?: string;
+}
+
+export const APPEAL_SLA_HOURS = parseInt(process.env.APPEAL_SLA_HOURS || '72');
+
+const VALID_STATUSES: AppealStatus[] = ['pending', 'approved', 'denied'];
+const VALID_SUBJECT_TYPES: AppealSubjectType[] = ['ban', 'moderation_item'];
+const RESTORE_ATTEMPTS = 3;
+
+const APPEAL_SELECT = `
+  id,
+  user_id,
+  subject_type,
+  moderation_item_id,
+  original_decider_id,
+  message,
+  status,
+  decided_by,
+  decided_at,
+  decision_reason,
+  sla_due_at,
+  created_at,
+  user:profiles!moderation_appeals_user_id_fkey (
+    id,
+    email,
+    full_name
+  ),
+  moderation_item:moderation_items!moderation_appeals_moderation_item_id_fkey (
+    id,
+    title,
+    status,
+    reason
+  )
+`;
+
+export async function fetchAppeals(filters: AppealFilters = {}): Promise<AppealListResponse> {
+  try {
+    const page = Math.max(1, filters.page || 1);
+    const limit = Math.min(100, Math.max(1, filters.limit || 20));
+    const offset = (page - 1) * limit;
+
+    let query = supabase
+      .from('moderation_appeals')
+      .select(APPEAL_SELECT, { count: 'exact' });
+
+    if (filters.status && filters.status !== 'all') {
+      query = query.eq('status', filters.status);
+    }
+
+    if (filters.subjectType && filters.subjectType !== 'all') {
+      query = query.eq('subject_type', filters.subjectType);
+    }
+
+    // Closest to breaching the SLA first
+    const { data, count, error } = await query
+      .order('sla_due_at', { ascending: true })
+      .range(offset, offset + limit - 1);
+
+    if (error) {
+      throw error;
+    }
+
+    const total = count || 0;
+    const totalPages = Math.ceil(total / limit);
+
+    const stats = await fetchAppealStats();
+
+    return {
+      appeals: (data || []).map(mapAppeal),
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages,
+        hasNextPage: page < totalPages,
+        hasPreviousPage: page > 1,
+      },
+      filters: {
+        status: filters.status,
+        subjectType: filters.subjectType,
+      },
+      stats,
+    };
+  } catch (error) {
+    console.error('Error fetching appeals:', error);
+    throw error;
+  }
+}
+
+export async function fetchAppealById(appealId: string): Promise<Appeal | null> {
+  const { data, error } = await supabase
+    .from('moderation_appeals')
+    .select(APPEAL_SELECT)
+    .eq('id', appealId)
+    .single();
+
+  if (error || !data) {
+    return null;
+  }
+
+  return mapAppeal(data);
+}
+
+export async function fetchAppealStats(): Promise<AppealStats> {
+  try {
+    const now = new Date();
+    const startOfDay = new Date();
+    startOfDay.setHours(0, 0, 0, 0);
+
+    const [pendingResult, overdueResult, decidedTodayResult, oldestResult, recentResult] = await Promise.all([
+      supabase
+        .from('moderation_appeals')
+        .select('*', { count: 'exact', head: true })
+        .eq('status', 'pending'),
+      supabase
+        .from('moderation_appeals')
+        .select('*', { count: 'exact', head: true })
+        .eq('status', 'pending')
+        .lt('sla_due_at', now.toISOString()),
+      supabase
+        .from('moderation_appeals')
+        .select('*', { count: 'exact', head: true })
+        .gte('decided_at', startOfDay.toISOString()),
+      supabase
+        .from('moderation_appeals')
+        .select('created_at')
+        .eq('status', 'pending')
+        .order('created_at', { ascending: true })
+        .limit(1),
+      supabase
+        .from('moderation_appeals')
+        .select('created_at, decided_at')
+        .not('decided_at', 'is', null)
+        .order('decided_at', { ascending: false })
+        .limit(100),
+    ]);
+
+    const oldest = oldestResult.data?.[0]?.created_at;
+    const resolutionDurations = (recentResult.data || [])
+      .map((row: any) => new Date(row.decided_at).getTime() - new Date(row.created_at).getTime())
+      .filter((duration: number) => duration >= 0);
+
+    const avgResolutionMs = resolutionDurations.length > 0
+      ? resolutionDurations.reduce((sum: number, duration: number) => sum + duration, 0) / resolutionDurations.length
+      : 0;
+
+    return {
+      pending: pendingResult.count || 0,
+      overdue: overdueResult.count || 0,
+      decidedToday: decidedTodayResult.count || 0,
+      oldestPendingAge: oldest ? formatDuration(now.getTime() - new Date(oldest).getTime()) : '-',
+      avgResolutionTime: formatDuration(avgResolutionMs),
+    };
+  } catch (error) {
+    console.error('Error calculating appeal stats:', error);
+    return {
+      pending: 0,
+      overdue: 0,
+      decidedToday: 0,
+      oldestPendingAge: '-',
+      avgResolutionTime: '-',
+    };
+  }
+}
+
+export async function createAppeal(params: CreateAppealParams): Promise<AppealResult> {
+  try {
+    let originalDeciderId: string | null = null;
+
+    if (params.subjectType === 'ban') {
+      const { data: profile } = await supabase
+        .from('profiles')
+        .select('status')
+        .eq('id', params.userId)
+        .single();
+
+      if (!profile || profile.status !== 'banned') {
+        return { success: false, status: 400, error: 'Account is not banned' };
+      }
+
+      const { data: banLog } = await supabase
+        .from('activity_logs')
+        .select('metadata')
+        .eq('user_id', params.userId)
+        .eq('action', 'user_banned')
+        .order('created_at', { ascending: false })
+        .limit(1);
+
+      // Older ban logs record banned_by as the string 'admin' rather than an ID
+      const bannedBy = banLog?.[0]?.metadata?.banned_by;
+      originalDeciderId = typeof bannedBy === 'string' && isValidUUID(bannedBy) ? bannedBy : null;
+    } else {
+      if (!params.moderationItemId) {
+        return { success: false, status: 400, error: 'A moderation item is required' };
+      }
+
+      const { data: item } = await supabase
+        .from('moderation_items')
+        .select('id, user_id, status, reviewed_by')
+        .eq('id', params.moderationItemId)
+        .single();
+
+      if (!item || item.user_id !== params.userId) {
+        return { success: false, status: 404, error: 'Moderation item not found' };
+      }
+
+      if (item.status !== 'rejected') {
+        return { success: false, status: 400, error: 'Only rejected content can be appealed' };
+      }
+
+      originalDeciderId = item.reviewed_by || null;
+    }
+
+    // One open appeal per decision
+    let existingQuery = supabase
+      .from('moderation_appeals')
+      .select('id')
+      .eq('user_id', params.userId)
+      .eq('subject_type', params.subjectType)
+      .eq('status', 'pending');
+
+    if (params.moderationItemId) {
+      existingQuery = existingQuery.eq('moderation_item_id', params.moderationItemId);
+    }
+
+    const { data: existing } = await existingQuery.limit(1);
+
+    if (existing && existing.length > 0) {
+      return { success: false, status: 409, error: 'An appeal is already pending' };
+    }
+
+    const slaDueAt = new Date(Date.now() + APPEAL_SLA_HOURS * 60 * 60 * 1000);
+
+    const { data, error } = await supabase
+      .from('moderation_appeals')
+      .insert({
+        user_id: params.userId,
+        subject_type: params.subjectType,
+        moderation_item_id: params.moderationItemId || null,
+        original_decider_id: originalDeciderId,
+        message: params.message,
+        status: 'pending',
+        sla_due_at: slaDueAt.toISOString(),
+      })
+      .select('id')
+      .single();
+
+    if (error || !data) {
+      throw error;
+    }
+
+    const appeal = await fetchAppealById(data.id);
+
+    return { success: true, appeal: appeal || undefined };
+  } catch (error) {
+    console.error('Error creating appeal:', error);
+    return { success: false, status: 500, error: 'Failed to create appeal' };
+  }
+}
+
+export async function decideAppeal(
+  appealId: string,
+  decision: AppealDecision,
+  actor: AppealActor,
+  reason?: string
+): Promise<AppealResult> {
+  try {
+    const { data: appeal, error: fetchError } = await supabase
+      .from('moderation_appeals')
+      .select('id, user_id, subject_type, moderation_item_id, original_decider_id, status')
+      .eq('id', appealId)
+      .single();
+
+    if (fetchError || !appeal) {
+      return { success: false, status: 404, error: 'Appeal not found' };
+    }
+
+    if (appeal.status !== 'pending') {
+      return { success: false, status: 409, error: 'Appeal has already been decided' };
+    }
+
+    // Four-eyes rule: the admin who made the original call cannot review it
+    if (appeal.original_decider_id && appeal.original_decider_id === actor.id) {
+      return {
+        success: false,
+        status: 403,
+        error: 'Appeals must be decided by a different admin than the original decision',
+      };
+    }
+
+    const now = new Date().toISOString();
+    const newStatus: AppealStatus = decision === 'approve' ? 'approved' : 'denied';
+
+    // Guard on status so two reviewers cannot both decide the same appeal
+    const { data: updated, error: updateError } = await supabase
+      .from('moderation_appeals')
+      .update({
+        status: newStatus,
+        decided_by: actor.id,
+        decided_at: now,
+        decision_reason: reason || null,
+        updated_at: now,
+      })
+      .eq('id', appealId)
+      .eq('status', 'pending')
+      .select('id');
+
+    if (updateError) {
+      throw updateError;
+    }
+
+    if (!updated || updated.length === 0) {
+      return { success: false, status: 409, error: 'Appeal has already been decided' };
+    }
+
+    if (decision === 'approve') {
+      try {
+        if (appeal.subject_type === 'ban') {
+          await liftBan(appeal.user_id, appealId, actor);
+        } else if (appeal.moderation_item_id) {
+          await restoreContent(appeal.moderation_item_id, appealId, actor, reason);
+        }
+      } catch (error) {
+        // Reopen the appeal so it is not recorded as approved with the ban or removal still in place
+        await reopenAppeal(appealId, actor.id, newStatus);
+        throw error;
+      }
+    }
+
+    await notifyUser(appeal.user_id, appeal.subject_type, newStatus, appealId, reason);
+
+    await recordAuditLog({
+      adminUserId: actor.id,
+      action: `appeal_${decision}`,
+      resourceType: 'moderation_appeal',
+      resourceId: appealId,
+      oldValues: { status: 'pending' },
+      newValues: { status: newStatus, decision_reason: reason || null },
+      metadata: {
+        subject_type: appeal.subject_type,
+        moderation_item_id: appeal.moderation_item_id,
+        original_decider_id: appeal.original_decider_id,
+        reviewer: actor.email,
+      },
+      ipAddress: actor.ipAddress,
+      userAgent: actor.userAgent,
+    });
+
+    const result = await fetchAppealById(appealId);
+
+    return { success: true, appeal: result || undefined };
+  } catch (error) {
+    console.error(`Error applying appeal decision "${decision}":`, error);
+    return { success: false, status: 500, error: `Failed to ${decision} appeal` };
+  }
+}
+
+export async function validateAppealFilters(
+  filters: AppealFilters = {}
+): Promise<{ isValid: boolean; errors?: string[] }> {
+  const errors: string[] = [];
+
+  if (filters.status && filters.status !== 'all' && !VALID_STATUSES.includes(filters.status as AppealStatus)) {
+    errors.push('Invalid status');
+  }
+
+  if (filters.subjectType && filters.subjectType !== 'all' && !VALID_SUBJECT_TYPES.includes(filters.subjectType as AppealSubjectType)) {
+    errors.push('Invalid subject type');
+  }
+
+  if (filters.page !== undefined && filters.page < 1) {
+    errors.push('Page must be greater than 0');
+  }
+
+  if (filters.limit !== undefined && (filters.limit < 1 || filters.limit > 100)) {
+    errors.push('Limit must be between 1 and 100');
+  }
+
+  return {
+    isValid: errors.length === 0,
+    errors: errors.length > 0 ? errors : undefined,
+  };
+}
+
+async function reopenAppeal(appealId: string, deciderId: string, status: AppealStatus): Promise<void> {
+  const { error } = await supabase
+    .from('moderation_appeals')
+    .update({
+      status: 'pending',
+      decided_by: null,
+      decided_at: null,
+      decision_reason: null,
+      updated_at: new Date().toISOString(),
+    })
+    .eq('id', appealId)
+    .eq('status', status)
+    .eq('decided_by', deciderId);
+
+  if (error) {
+    console.error('Error reopening appeal after a failed decision:', error);
+  }
+}
+
+async function liftBan(userId: string, appealId: string, actor: AppealActor): Promise<void> {
+  const { error } = await supabase
+    .from('profiles')
+    .update({ status: 'active', updated_at: new Date().toISOString() })
+    .eq('id', userId);
+
+  if (error) {
+    throw error;
+  }
+
+  await supabase
+    .from('activity_logs')
+    .insert({
+      user_id: userId,
+      action: 'user_unbanned',
+      metadata: { unbanned_by: actor.id, appeal_id: appealId },
+    });
+}
+
+async function restoreContent(
+  itemId: string,
+  appealId: string,
+  actor: AppealActor,
+  reason?: string
+): Promise<void> {
+  // Retry when a moderator touches the item between the read and the write,
+  // since the update is conditional on updated_at to keep their history entry
+  for (let attempt = 0; attempt < RESTORE_ATTEMPTS; attempt++) {
+    const { data: item, error: fetchError } = await supabase
+      .from('moderation_items')
+      .select('moderation_history, updated_at')
+      .eq('id', itemId)
+      .single();
+
+    if (fetchError || !item) {
+      throw fetchError || new Error('Moderation item not found');
+    }
+
+    const now = new Date().toISOString();
+    const history: ModerationHistoryEntry[] = Array.isArray(item.moderation_history)
+      ? item.moderation_history
+      : [];
+
+    const historyEntry: ModerationHistoryEntry = {
+      id: crypto.randomUUID(),
+      action: 'appeal_restored',
+      moderator: actor.email,
+      moderator_id: actor.id,
+      timestamp: now,
+      reason: reason || `Restored on appeal ${appealId}`,
+    };
+
+    const { data: updated, error } = await supabase
+      .from('moderation_items')
+      .update({
+        status: 'approved',
+        reason: null,
+        reviewed_by: actor.id,
+        reviewed_at: now,
+        moderation_history: [...history, historyEntry],
+        updated_at: now,
+      })
+      .eq('id', itemId)
+      .eq('updated_at', item.updated_at)
+      .select('id');
+
+    if (error) {
+      throw error;
+    }
+
+    if (updated && updated.length > 0) {
+      return;
+    }
+  }
+
+  throw new Error('Moderation item kept changing while restoring it');
+}
+
+async function notifyUser(
+  userId: string,
+  subjectType: AppealSubjectType,
+  status: AppealStatus,
+  appealId: string,
+  reason?: string
+): Promise<void> {
+  const subject = subjectType === 'ban' ? 'account suspension' : 'removed content';
+  const title = status === 'approved' ? 'Your appeal was approved' : 'Your appeal was denied';
+  const body = status === 'approved'
+    ? `We reviewed your appeal about your ${subject} and reversed the decision.`
+    : `We reviewed your appeal about your ${subject} and upheld the original decision.`;
+
+  const { error } = await supabase
+    .from('user_notifications')
+    .insert({
+      user_id: userId,
+      type: 'appeal_decision',
+      title,
+      body: reason ? `${body} ${reason}` : body,
+      metadata: { appeal_id: appealId, status },
+    });
+
+  // A failed notification must not roll back the decision
+  if (error) {
+    console.error('Error notifying user of appeal decision:', error);
+  }
+}
+
+function mapAppeal(row: any): Appeal {
+  const user = Array.isArray(row.user) ? row.user[0] : row.user;
+  const item = Array.isArray(row.moderation_item) ? row.moderation_item[0] : row.moderation_item;
+
+  return {
+    id: row.id,
+    subjectType: row.subject_type,
+    status: row.status,
+    message: row.message,
+    user: {
+      id: row.user_id,
+      name: user?.full_name || user?.email?.split('@')[0] || 'Unknown user',
+      email: user?.email || '',
+    },
+    moderationItem: item
+      ? {
+          id: item.id,
+          title: item.title,
+          status: item.status,
+          reason: item.reason || undefined,
+        }
+      : undefined,
+    originalDeciderId: row.original_decider_id,
+    decidedBy: row.decided_by,
+    decidedAt: row.decided_at,
+    decisionReason: row.decision_reason,
+    slaDueAt: row.sla_due_at,
+    createdAt: row.created_at,
+  };
+}
+
+function formatDuration(ms: number): string {
+  if (ms <= 0) {
+    return '-';
+  }
+
+  const totalMinutes = Math.round(ms / 60000);
+  if (totalMinutes < 1) {
+    return '<1m';
+  }
+
+  const hours = Math.floor(totalMinutes / 60);
+  const minutes = totalMinutes % 60;
+
+  if (hours >= 24) {
+    const days = Math.floor(hours / 24);
+    const remainingHours = hours % 24;
+    return remainingHours > 0 ? `${days}d ${remainingHours}h` : `${days}d`;
+  }
+
+  if (hours === 0) {
+    return `${minutes}m`;
+  }
+
+  return minutes > 0 ? `${hours}h ${minutes}m` : `${hours}h`;
+}
+
+function isValidUUID(str: string): boolean {
+  const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
+  return uuidRegex.test(str);
+}
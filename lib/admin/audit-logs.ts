@@ -387,4 +387,46 @@ async function calculateSummaryStats(filters: AuditLogFilters = {}): Promise<Aud
       mostCommonActions: [],
     };
   }
-}
\ No newline at end of file
+}
+export interface RecordAuditLogParams {
+  adminUserId: string | null;
+  action: string;
+  resourceType: string;
+  resourceId?: string | null;
+  oldValues?: Record<string, any> | null;
+  newValues?: Record<string, any> | null;
+  metadata?: Record<string, any>;
+  ipAddress?: string | null;
+  userAgent?: string | null;
+  sessionId?: string | null;
+  success?: boolean;
+  errorMessage?: string | null;
+}
+
+export async function recordAuditLog(params: RecordAuditLogParams): Promise<void> {
+  try {
+    const { error } = await supabase
+      .from('audit_logs')
+      .insert({
+        admin_user_id: params.adminUserId,
+        action: params.action,
+        resource_type: params.resourceType,
+        resource_id: params.resourceId ?? null,
+        old_values: params.oldValues ?? null,
+        new_values: params.newValues ?? null,
+        metadata: params.metadata || {},
+        ip_address: params.ipAddress ?? null,
+        user_agent: params.userAgent ?? null,
+        session_id: params.sessionId ?? null,
+        success: params.success ?? true,
+        error_message: params.errorMessage ?? null,
+      });
+
+    if (error) {
+      console.error('Failed to write audit log:', error);
+    }
+  } catch (error) {
+    // Audit failures must never break the action being audited
+    console.error('Error writing audit log:', error);
+  }
+}
@@ -3,6 +3,9 @@ import { cookies } from 'next/headers';
 import { redirect } from 'next/navigation';
 import { createServiceRoleClient, createServerClient } from '@/lib/supabase/server';
 import { ServerSessionManager } from '@/lib/auth/session';
+import { RBACManager } from '@/lib/auth/rbac';
+import { resolveAdminPermissions } from '@/lib/admin/roles';
+import { endImpersonation, getImpersonationCookie } from '@/lib/admin/impersonation';
 import type { AdminUser } from '@/lib/types/database.types';
 
 const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!;
@@ -21,6 +24,7 @@ export async function getAdminSession() {
   }
 
   const { user, adminUser } = sessionResult.session;
+  const { permissions } = await resolveAdminPermissions(adminUser);
 
   // Return session data
   return {
@@ -33,7 +37,9 @@ export async function getAdminSession() {
       role: adminUser.role,
       id: adminUser.id,
       email: adminUser.email,
-    }
+    },
+    // Effective "resource:action" keys, safe to hand to client components
+    permissions: RBACManager.toKeys(permissions),
   };
 }
 
@@ -79,25 +85,13 @@ export async function signInAdmin(email: string, password: string) {
 
     console.log('User authenticated, checking admin role for ID:', data.user.id);
 
-    // Use service role client to check admin role in profiles table
+    // Use service role client to check admin role in admin_users
     const adminSupabase = createServiceRoleClient();
-    const { data: profile, error: profileError } = await adminSupabase
-      .from('profiles')
-      .select('id, email, role, status')
+    const { data: adminUser, error: adminUserError } = await adminSupabase
+      .from('admin_users')
+      .select('id, email, role, is_active, two_factor_enabled')
       .eq('id', data.user.id)
-      .single() as { data: { id: string; email: string | null; role: string; status: string } | null; error: any };
-
-    // Map profile data to AdminUser structure
-    const adminUser = profile ? {
-      id: profile.id,
-      email: profile.email || data.user.email,
-      role: profile.role,
-      is_active: profile.status === 'active',
-      two_factor_enabled: false,
-      two_factor_secret: undefined
-    } : null;
-
-    const adminUserError = profileError;
+      .single() as { data: { id: string; email: string; role: string; is_active: boolean; two_factor_enabled: boolean } | null; error: any };
 
     if (adminUserError || !adminUser) {
       console.error('Admin user fetch error:', adminUserError);
@@ -107,8 +101,8 @@ export async function signInAdmin(email: string, password: string) {
 
     console.log('User admin role:', adminUser.role);
 
-    // Check if user has admin role
-    if (!['admin', 'super_admin'].includes(adminUser.role)) {
+    // Check if user has one of the admin roles
+    if (!RBACManager.isValidRole(adminUser.role)) {
       console.error('User does not have admin role:', adminUser.role);
       await supabase.auth.signOut();
       return { error: 'Unauthorized: Admin access only' };
@@ -119,20 +113,12 @@ export async function signInAdmin(email: string, password: string) {
       return { error: 'Account deactivated' };
     }
 
-    // Check if 2FA is enabled
-    if (adminUser.two_factor_enabled && adminUser.two_factor_secret) {
-      // Create temporary token for 2FA flow
-      const temporaryToken = Buffer.from(JSON.stringify({
-        userId: data.user.id,
-        timestamp: Date.now(),
-        step: '2fa_required',
-      })).toString('base64');
-
-      // Don't set session cookie yet - wait for 2FA verification
+    // The second factor is verified against the login session, which the
+    // /api/admin/auth/login route starts; this helper does not
+    if (adminUser.two_factor_enabled) {
       return {
         success: true,
         requiresTwoFactor: true,
-        temporaryToken,
         user: {
           id: data.user.id,
           email: data.user.email,
@@ -171,6 +157,15 @@ export async function signOutAdmin() {
       await ServerSessionManager.logAction('admin_logout', {
         userId: sessionResult.session.user.id,
       });
+
+      // Signing out ends any impersonation still running
+      const impersonationId = await getImpersonationCookie();
+      if (impersonationId) {
+        await endImpersonation(impersonationId, {
+          id: sessionResult.session.user.id,
+          email: sessionResult.session.user.email || sessionResult.session.adminUser.email,
+        }, 'logout');
+      }
     }
 
     // Clear all session data using ServerSessionManager
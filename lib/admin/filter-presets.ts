@@ -0,0 +1,246 @@
+import { supabase } from '@/lib/supabase';
+import { RBACManager } from '@/lib/auth/rbac';
+import { resolveOwnership, resolveScopeOwners, toInList, type ScopeContext } from '@/lib/admin/scope';
+import type { AdminFilterPreset } from '@/lib/types/database.types';
+
+export interface SavedFilterPreset {
+  id: string;
+  ownerId: string;
+  name: string;
+  description: string | null;
+  category: string | null;
+  filters: Record<string, any>;
+  isShared: boolean;
+  // Whether the caller's scope lets them change this preset
+  canEdit: boolean;
+  canDelete: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface FilterPresetInput {
+  name: string;
+  description: string | null;
+  category: string | null;
+  filters: Record<string, any>;
+  isShared: boolean;
+}
+
+export interface FilterPresetResult {
+  success: boolean;
+  preset?: SavedFilterPreset;
+  error?: string;
+  status?: number;
+}
+
+export async function fetchFilterPresets(
+  context: ScopeContext,
+  category?: string
+): Promise<SavedFilterPreset[]> {
+  let query = supabase
+    .from('admin_filter_presets')
+    .select('*')
+    .order('name', { ascending: true });
+
+  if (category) {
+    query = query.eq('category', category);
+  }
+
+  // Scoped readers see their own (or their team's) presets plus shared ones
+  const owners = await resolveScopeOwners(context, 'presets', 'read');
+  if (owners) {
+    query = owners.ids.length > 0
+      ? query.or(`is_shared.eq.true,admin_user_id.in.${toInList(owners.ids)}`)
+      : query.eq('is_shared', true);
+  }
+
+  const { data, error } = await query;
+
+  if (error) {
+    throw error;
+  }
+
+  const [updateOwners, deleteOwners] = await Promise.all([
+    resolveScopeOwners(context, 'presets', 'update'),
+    resolveScopeOwners(context, 'presets', 'delete'),
+  ]);
+
+  return (data || []).map((row: AdminFilterPreset) => mapFilterPreset(row, {
+    canEdit: !updateOwners || updateOwners.ids.includes(row.admin_user_id),
+    canDelete: !deleteOwners || deleteOwners.ids.includes(row.admin_user_id),
+  }));
+}
+
+export function validateFilterPresetInput(
+  body: any
+): { isValid: boolean; errors?: string[]; input?: FilterPresetInput } {
+  const errors: string[] = [];
+
+  if (!body || typeof body !== 'object') {
+    return { isValid: false, errors: ['Invalid request body'] };
+  }
+
+  const name = typeof body.name === 'string' ? body.name.trim() : '';
+  if (!name || name.length > 100) {
+    errors.push('Name is required and must be at most 100 characters');
+  }
+
+  if (!body.filters || typeof body.filters !== 'object' || Array.isArray(body.filters)) {
+    errors.push('Filters must be an object');
+  }
+
+  if (body.isShared !== undefined && typeof body.isShared !== 'boolean') {
+    errors.push('isShared must be a boolean');
+  }
+
+  if (errors.length > 0) {
+    return { isValid: false, errors };
+  }
+
+  return {
+    isValid: true,
+    input: {
+      name,
+      description: typeof body.description === 'string' && body.description.trim() ? body.description.trim() : null,
+      category: typeof body.category === 'string' && body.category.trim() ? body.category.trim() : null,
+      filters: body.filters,
+      isShared: !!body.isShared,
+    },
+  };
+}
+
+export async function createFilterPreset(
+  input: FilterPresetInput,
+  context: ScopeContext
+): Promise<FilterPresetResult> {
+  try {
+    const { data, error } = await supabase
+      .from('admin_filter_presets')
+      .insert({
+        admin_user_id: context.adminUserId,
+        name: input.name,
+        description: input.description,
+        category: input.category,
+        filters: input.filters,
+        is_shared: input.isShared,
+      })
+      .select('*')
+      .single();
+
+    if (error) {
+      throw error;
+    }
+
+    return { success: true, preset: mapFilterPreset(data, { canEdit: true, canDelete: true }) };
+  } catch (error) {
+    console.error('Error creating filter preset:', error);
+    return { success: false, status: 500, error: 'Failed to create filter preset' };
+  }
+}
+
+export async function updateFilterPreset(
+  presetId: string,
+  input: FilterPresetInput,
+  context: ScopeContext
+): Promise<FilterPresetResult> {
+  try {
+    const access = await checkFilterPresetAccess(presetId, 'update', context);
+    if (!access.success) {
+      return access;
+    }
+
+    const { data, error } = await supabase
+      .from('admin_filter_presets')
+      .update({
+        name: input.name,
+        description: input.description,
+        category: input.category,
+        filters: input.filters,
+        is_shared: input.isShared,
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', presetId)
+      .select('*')
+      .single();
+
+    if (error) {
+      throw error;
+    }
+
+    const canDelete = await checkFilterPresetAccess(presetId, 'delete', context);
+
+    return { success: true, preset: mapFilterPreset(data, { canEdit: true, canDelete: canDelete.success }) };
+  } catch (error) {
+    console.error('Error updating filter preset:', error);
+    return { success: false, status: 500, error: 'Failed to update filter preset' };
+  }
+}
+
+export async function deleteFilterPreset(
+  presetId: string,
+  context: ScopeContext
+): Promise<FilterPresetResult> {
+  try {
+    const access = await checkFilterPresetAccess(presetId, 'delete', context);
+    if (!access.success) {
+      return access;
+    }
+
+    const { error } = await supabase
+      .from('admin_filter_presets')
+      .delete()
+      .eq('id', presetId);
+
+    if (error) {
+      throw error;
+    }
+
+    return { success: true };
+  } catch (error) {
+    console.error('Error deleting filter preset:', error);
+    return { success: false, status: 500, error: 'Failed to delete filter preset' };
+  }
+}
+
+async function checkFilterPresetAccess(
+  presetId: string,
+  action: 'update' | 'delete',
+  context: ScopeContext
+): Promise<FilterPresetResult> {
+  const { data: preset, error } = await supabase
+    .from('admin_filter_presets')
+    .select('id, admin_user_id')
+    .eq('id', presetId)
+    .single();
+
+  if (error || !preset) {
+    return { success: false, status: 404, error: 'Filter preset not found' };
+  }
+
+  const ownership = await resolveOwnership(context, { id: preset.admin_user_id });
+
+  if (!RBACManager.canAccessResource(context.permissions, 'presets', action, ownership)) {
+    return { success: false, status: 403, error: `You cannot ${action} presets saved by other admins` };
+  }
+
+  return { success: true };
+}
+
+function mapFilterPreset(
+  row: AdminFilterPreset,
+  access: { canEdit: boolean; canDelete: boolean }
+): SavedFilterPreset {
+  return {
+    id: row.id,
+    ownerId: row.admin_user_id,
+    name: row.name,
+    description: row.description,
+    category: row.category,
+    filters: row.filters || {},
+    isShared: !!row.is_shared,
+    canEdit: access.canEdit,
+    canDelete: access.canDelete,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
@@ -1,4 +1,5 @@
 import { supabase } from '@/lib/supabase';
+import type { CacheMetrics } from '@/lib/api/cache';
 
 export interface ComponentHealth {
   status: 'healthy' | 'degraded' | 'unhealthy';
@@ -91,6 +92,7 @@ export interface SystemHealthResponse {
   };
   uptime: number; // in seconds
   version: string;
+  cache?: CacheMetrics; // API response cache hit/miss counters for this instance
 }
 
 const startTime = Date.now();
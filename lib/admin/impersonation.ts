@@ -0,0 +1,438 @@
+import { cookies, headers } from 'next/headers';
+import { supabase } from '@/lib/supabase';
+import { recordAuditLog } from '@/lib/admin/audit-logs';
+import { fetchUserById, type UserDetail } from '@/lib/admin/users';
+import type { AdminImpersonationSession, ImpersonationEndReason } from '@/lib/types/database.types';
+
+// httpOnly cookie holding the active impersonation session ID
+export const IMPERSONATION_COOKIE = 'admin-impersonation';
+
+export const DEFAULT_IMPERSONATION_MINUTES = 15;
+export const MAX_IMPERSONATION_MINUTES = 60;
+
+export interface ImpersonationSession {
+  id: string;
+  adminUserId: string;
+  targetUserId: string;
+  targetEmail: string | null;
+  targetName: string | null;
+  reason: string;
+  startedAt: string;
+  expiresAt: string;
+  endedAt: string | null;
+  endReason: ImpersonationEndReason | null;
+}
+
+export interface ImpersonationActor {
+  id: string;
+  email: string;
+  ipAddress?: string | null;
+  userAgent?: string | null;
+}
+
+export interface ImpersonationInput {
+  targetUserId: string;
+  reason: string;
+  durationMinutes: number;
+}
+
+export interface ImpersonationResult {
+  success: boolean;
+  session?: ImpersonationSession;
+  error?: string;
+  status?: number;
+}
+
+/**
+ * What the impersonated user sees in the VowNow app
+ */
+export interface ImpersonatedView {
+  session: ImpersonationSession;
+  user: UserDetail;
+  questionnaireResponses: Array<{
+    id: string;
+    questionnaireId: string | null;
+    title: string;
+    category: string;
+    completed: boolean;
+    score: number | null;
+    responses: any;
+    createdAt: string;
+  }>;
+}
+
+export function validateImpersonationInput(
+  body: any
+): { isValid: boolean; errors?: string[]; input?: ImpersonationInput } {
+  const errors: string[] = [];
+
+  if (!body || typeof body !== 'object') {
+    return { isValid: false, errors: ['Invalid request body'] };
+  }
+
+  const targetUserId = typeof body.userId === 'string' ? body.userId : '';
+  if (!isValidUUID(targetUserId)) {
+    errors.push('userId must be a valid user ID');
+  }
+
+  const reason = typeof body.reason === 'string' ? body.reason.trim() : '';
+  if (!reason || reason.length > 500) {
+    errors.push('A reason is required and must be at most 500 characters');
+  }
+
+  const durationMinutes = body.durationMinutes === undefined
+    ? DEFAULT_IMPERSONATION_MINUTES
+    : Number(body.durationMinutes);
+  if (!Number.isInteger(durationMinutes) || durationMinutes < 1 || durationMinutes > MAX_IMPERSONATION_MINUTES) {
+    errors.push(`durationMinutes must be between 1 and ${MAX_IMPERSONATION_MINUTES}`);
+  }
+
+  if (errors.length > 0) {
+    return { isValid: false, errors };
+  }
+
+  return { isValid: true, input: { targetUserId, reason, durationMinutes } };
+}
+
+/**
+ * Start a read-only impersonation session, replacing any the admin already has
+ */
+export async function startImpersonation(
+  input: ImpersonationInput,
+  actor: ImpersonationActor
+): Promise<ImpersonationResult> {
+  try {
+    if (input.targetUserId === actor.id) {
+      return { success: false, status: 400, error: 'You cannot impersonate yourself' };
+    }
+
+    const { data: target, error: targetError } = await supabase
+      .from('profiles')
+      .select('id, email, full_name')
+      .eq('id', input.targetUserId)
+      .single();
+
+    if (targetError || !target) {
+      return { success: false, status: 404, error: 'User not found' };
+    }
+
+    // Admin accounts are never impersonated, only app users
+    const { data: targetAdmin } = await supabase
+      .from('admin_users')
+      .select('id')
+      .eq('id', input.targetUserId)
+      .maybeSingle();
+
+    if (targetAdmin) {
+      return { success: false, status: 403, error: 'Admin accounts cannot be impersonated' };
+    }
+
+    const { data: previous } = await supabase
+      .from('admin_impersonation_sessions')
+      .select('*')
+      .eq('admin_user_id', actor.id)
+      .is('ended_at', null);
+
+    for (const row of previous || []) {
+      await closeSession(row, 'replaced', actor);
+    }
+
+    const expiresAt = new Date(Date.now() + input.durationMinutes * 60 * 1000).toISOString();
+
+    const { data, error } = await supabase
+      .from('admin_impersonation_sessions')
+      .insert({
+        admin_user_id: actor.id,
+        target_user_id: input.targetUserId,
+        reason: input.reason,
+        expires_at: expiresAt,
+        ended_at: null,
+        end_reason: null,
+        ip_address: actor.ipAddress ?? null,
+        user_agent: actor.userAgent ?? null,
+      })
+      .select('*')
+      .single();
+
+    if (error) {
+      throw error;
+    }
+
+    await recordAuditLog({
+      adminUserId: actor.id,
+      action: 'impersonation_start',
+      resourceType: 'user',
+      resourceId: input.targetUserId,
+      newValues: { reason: input.reason, expires_at: expiresAt },
+      metadata: {
+        admin_email: actor.email,
+        impersonated_user_id: input.targetUserId,
+        impersonated_user_email: target.email,
+        impersonation_session_id: data.id,
+        duration_minutes: input.durationMinutes,
+      },
+      ipAddress: actor.ipAddress,
+      userAgent: actor.userAgent,
+    });
+
+    return { success: true, session: mapImpersonationSession(data, target) };
+  } catch (error) {
+    console.error('Error starting impersonation:', error);
+    return { success: false, status: 500, error: 'Failed to start impersonation' };
+  }
+}
+
+/**
+ * Look up an admin's live session, closing it if it has run past its expiry
+ */
+export async function getActiveImpersonation(
+  sessionId: string,
+  actor: ImpersonationActor
+): Promise<ImpersonationSession | null> {
+  if (!isValidUUID(sessionId)) {
+    return null;
+  }
+
+  const { data, error } = await supabase
+    .from('admin_impersonation_sessions')
+    .select('*')
+    .eq('id', sessionId)
+    .eq('admin_user_id', actor.id)
+    .maybeSingle();
+
+  if (error || !data || data.ended_at) {
+    return null;
+  }
+
+  if (new Date(data.expires_at).getTime() <= Date.now()) {
+    await closeSession(data, 'expired', actor);
+    return null;
+  }
+
+  const { data: target } = await supabase
+    .from('profiles')
+    .select('email, full_name')
+    .eq('id', data.target_user_id)
+    .maybeSingle();
+
+  return mapImpersonationSession(data, target);
+}
+
+export async function endImpersonation(
+  sessionId: string,
+  actor: ImpersonationActor,
+  reason: ImpersonationEndReason = 'manual'
+): Promise<ImpersonationResult> {
+  try {
+    if (!isValidUUID(sessionId)) {
+      return { success: false, status: 404, error: 'Impersonation session not found' };
+    }
+
+    const { data, error } = await supabase
+      .from('admin_impersonation_sessions')
+      .select('*')
+      .eq('id', sessionId)
+      .eq('admin_user_id', actor.id)
+      .maybeSingle();
+
+    if (error || !data) {
+      return { success: false, status: 404, error: 'Impersonation session not found' };
+    }
+
+    if (data.ended_at) {
+      return { success: true, session: mapImpersonationSession(data) };
+    }
+
+    // Ending after the deadline is recorded as an expiry, not a manual end
+    const expired = new Date(data.expires_at).getTime() <= Date.now();
+    const closed = await closeSession(data, expired ? 'expired' : reason, actor);
+
+    return { success: true, session: mapImpersonationSession(closed) };
+  } catch (error) {
+    console.error('Error ending impersonation:', error);
+    return { success: false, status: 500, error: 'Failed to end impersonation' };
+  }
+}
+
+/**
+ * Resolve the impersonation session attached to the current request, if any
+ *
+ * Each call audits the request with both the admin and the impersonated
+ * user, so everything done while viewing as a user can be traced.
+ */
+export async function resolveRequestImpersonation(
+  actor: ImpersonationActor
+): Promise<ImpersonationSession | null> {
+  const sessionId = await getImpersonationCookie();
+
+  if (!sessionId) {
+    return null;
+  }
+
+  const session = await getActiveImpersonation(sessionId, actor);
+  if (!session) {
+    return null;
+  }
+
+  const headerStore = await headers();
+
+  await recordAuditLog({
+    adminUserId: actor.id,
+    action: 'impersonation_request',
+    resourceType: 'user',
+    resourceId: session.targetUserId,
+    metadata: {
+      admin_email: actor.email,
+      impersonated_user_id: session.targetUserId,
+      impersonated_user_email: session.targetEmail,
+      impersonation_session_id: session.id,
+      method: headerStore.get('x-admin-request-method'),
+      path: headerStore.get('x-admin-request-path'),
+    },
+    ipAddress: actor.ipAddress ?? headerStore.get('x-forwarded-for'),
+    userAgent: actor.userAgent ?? headerStore.get('user-agent'),
+    sessionId: session.id,
+  });
+
+  return session;
+}
+
+export async function setImpersonationCookie(session: ImpersonationSession): Promise<void> {
+  const cookieStore = await cookies();
+  const maxAge = Math.max(0, Math.floor((new Date(session.expiresAt).getTime() - Date.now()) / 1000));
+
+  // Expires with the session so a forgotten tab cannot outlive it
+  cookieStore.set(IMPERSONATION_COOKIE, session.id, {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'strict',
+    maxAge,
+    path: '/',
+  });
+}
+
+export async function getImpersonationCookie(): Promise<string | null> {
+  const cookieStore = await cookies();
+  return cookieStore.get(IMPERSONATION_COOKIE)?.value || null;
+}
+
+export async function clearImpersonationCookie(): Promise<void> {
+  const cookieStore = await cookies();
+  cookieStore.delete(IMPERSONATION_COOKIE);
+}
+
+/**
+ * Build the user's own view from profiles and questionnaire_responses
+ */
+export async function fetchImpersonatedView(
+  session: ImpersonationSession
+): Promise<ImpersonatedView | null> {
+  const user = await fetchUserById(session.targetUserId);
+  if (!user) {
+    return null;
+  }
+
+  const { data: responses, error } = await supabase
+    .from('questionnaire_responses')
+    .select(`
+      id,
+      questionnaire_id,
+      completed,
+      score,
+      responses,
+      created_at,
+      questionnaires (
+        title,
+        category
+      )
+    `)
+    .eq('user_id', session.targetUserId)
+    .order('created_at', { ascending: false })
+    .limit(50);
+
+  if (error) {
+    throw error;
+  }
+
+  return {
+    session,
+    user,
+    questionnaireResponses: (responses || []).map((row: any) => ({
+      id: row.id,
+      questionnaireId: row.questionnaire_id ?? null,
+      title: row.questionnaires?.title || 'Unknown Survey',
+      category: row.questionnaires?.category || 'general',
+      completed: !!row.completed,
+      score: row.score ?? null,
+      responses: row.responses ?? null,
+      createdAt: row.created_at,
+    })),
+  };
+}
+
+async function closeSession(
+  row: AdminImpersonationSession,
+  reason: ImpersonationEndReason,
+  actor: ImpersonationActor
+): Promise<AdminImpersonationSession> {
+  const endedAt = reason === 'expired' ? row.expires_at : new Date().toISOString();
+
+  // Only the first caller closes the session, so the end is audited once
+  const { data, error } = await supabase
+    .from('admin_impersonation_sessions')
+    .update({ ended_at: endedAt, end_reason: reason })
+    .eq('id', row.id)
+    .is('ended_at', null)
+    .select('*');
+
+  if (error) {
+    throw error;
+  }
+
+  if (!data || data.length === 0) {
+    return row;
+  }
+
+  await recordAuditLog({
+    adminUserId: row.admin_user_id,
+    action: reason === 'expired' ? 'impersonation_expire' : 'impersonation_end',
+    resourceType: 'user',
+    resourceId: row.target_user_id,
+    oldValues: { ended_at: null },
+    newValues: { ended_at: endedAt, end_reason: reason },
+    metadata: {
+      admin_email: actor.email,
+      impersonated_user_id: row.target_user_id,
+      impersonation_session_id: row.id,
+      started_at: row.started_at,
+    },
+    ipAddress: actor.ipAddress,
+    userAgent: actor.userAgent,
+    sessionId: row.id,
+  });
+
+  return data[0];
+}
+
+function mapImpersonationSession(
+  row: AdminImpersonationSession,
+  target?: { email?: string | null; full_name?: string | null } | null
+): ImpersonationSession {
+  return {
+    id: row.id,
+    adminUserId: row.admin_user_id,
+    targetUserId: row.target_user_id,
+    targetEmail: target?.email ?? null,
+    targetName: target?.full_name ?? null,
+    reason: row.reason,
+    startedAt: row.started_at,
+    expiresAt: row.expires_at,
+    endedAt: row.ended_at,
+    endReason: row.end_reason,
+  };
+}
+
+function isValidUUID(str: string): boolean {
+  const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
+  return uuidRegex.test(str);
+}
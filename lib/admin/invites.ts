@@ -0,0 +1,484 @@
+import crypto from 'crypto';
+import { supabase } from '@/lib/supabase';
+import { createServiceRoleClient } from '@/lib/supabase/server';
+import { recordAuditLog } from '@/lib/admin/audit-logs';
+import { sendMail } from '@/lib/mail/mailer';
+import { RBACManager, type Permission } from '@/lib/auth/rbac';
+import { PasswordPolicyManager } from '@/lib/auth/password-policy';
+import { describePasswordPolicy } from '@/lib/auth/password-rules';
+import type { AdminUserRole, Database } from '@/lib/types/database.types';
+
+/**
+ * Inviting new admins
+ *
+ * Holders of admins:create invite someone by email with a built-in role no
+ * more powerful than their own. The invitee follows the emailed link to
+ * /admin/invite/<token>, picks a password that passes the password policy
+ * and gets an admin account. Only a SHA-256 hash of the token is stored.
+ */
+
+export const ADMIN_INVITE_TTL_HOURS = parseInt(process.env.ADMIN_INVITE_TTL_HOURS || '72');
+
+const EMAIL_PATTERN = /^[^\s@<>]+@[^\s@<>]+\.[^\s@<>]+$/;
+
+export type AdminInviteStatus = 'pending' | 'accepted' | 'expired' | 'revoked';
+
+export interface AdminInviteInput {
+  email: string;
+  fullName: string | null;
+  role: AdminUserRole;
+}
+
+export interface AdminInviteSummary {
+  id: string;
+  email: string;
+  fullName: string | null;
+  role: AdminUserRole;
+  status: AdminInviteStatus;
+  invitedBy: string | null;
+  invitedByEmail?: string | null;
+  expiresAt: string;
+  acceptedAt: string | null;
+  revokedAt: string | null;
+  createdAt: string;
+}
+
+// What the invitee sees before accepting
+export interface AdminInviteDetails {
+  email: string;
+  fullName: string | null;
+  role: AdminUserRole;
+  expiresAt: string;
+  passwordRequirements: string[];
+}
+
+export interface InviteActor {
+  id: string;
+  email: string;
+  permissions: Permission[];
+  sessionId?: string | null;
+  ipAddress?: string | null;
+  userAgent?: string | null;
+}
+
+export interface InviteResult {
+  success: boolean;
+  invite?: AdminInviteSummary;
+  // Set when the email could not be sent, so the link can be passed on another way
+  inviteUrl?: string;
+  emailSent?: boolean;
+  error?: string;
+  errors?: string[];
+  status?: number;
+}
+
+/**
+ * Validate an invite request body
+ */
+export function validateAdminInviteInput(body: any): { isValid: boolean; errors?: string[]; input?: AdminInviteInput } {
+  const errors: string[] = [];
+
+  if (!body || typeof body !== 'object') {
+    return { isValid: false, errors: ['Request body must be an object'] };
+  }
+
+  const email = typeof body.email === 'string' ? body.email.trim().toLowerCase() : '';
+  if (!EMAIL_PATTERN.test(email)) {
+    errors.push('A valid email address is required');
+  }
+
+  if (body.fullName !== undefined && body.fullName !== null &&
+      (typeof body.fullName !== 'string' || body.fullName.length > 100)) {
+    errors.push('Full name must be a string of at most 100 characters');
+  }
+
+  if (!RBACManager.isValidRole(body.role)) {
+    errors.push('Role must be one of the built-in admin roles');
+  }
+
+  if (errors.length > 0) {
+    return { isValid: false, errors };
+  }
+
+  return {
+    isValid: true,
+    input: { email, fullName: body.fullName?.trim() || null, role: body.role },
+  };
+}
+
+/**
+ * Invite someone to become an admin and email them the link
+ */
+export async function createAdminInvite(input: AdminInviteInput, actor: InviteActor): Promise<InviteResult> {
+  try {
+    // An invite hands out every permission of its role
+    const granted = RBACManager.getRolePermissions(input.role)
+      .map(permission => ({ ...permission, scope: permission.scope || 'all' }));
+    if (!RBACManager.hasAllPermissionsIn(actor.permissions, granted)) {
+      return { success: false, status: 403, error: 'You cannot invite an admin with permissions you do not hold' };
+    }
+
+    const { data: existingAdmin } = await supabase
+      .from('admin_users')
+      .select('id')
+      .ilike('email', escapeLike(input.email))
+      .maybeSingle();
+
+    if (existingAdmin) {
+      return { success: false, status: 409, error: 'An admin with this email already exists' };
+    }
+
+    const { data: pending } = await supabase
+      .from('admin_invites')
+      .select('id')
+      .ilike('email', escapeLike(input.email))
+      .is('accepted_at', null)
+      .is('revoked_at', null)
+      .gt('expires_at', new Date().toISOString())
+      .limit(1);
+
+    if (pending && pending.length > 0) {
+      return { success: false, status: 409, error: 'This email already has a pending invite' };
+    }
+
+    const appUrl = getAppUrl();
+    const token = crypto.randomBytes(32).toString('base64url');
+
+    const { data, error } = await supabase
+      .from('admin_invites')
+      .insert({
+        email: input.email,
+        full_name: input.fullName,
+        role: input.role,
+        token_hash: hashToken(token),
+        invited_by: actor.id,
+        expires_at: new Date(Date.now() + ADMIN_INVITE_TTL_HOURS * 60 * 60 * 1000).toISOString(),
+        accepted_at: null,
+        accepted_admin_id: null,
+        revoked_at: null,
+        revoked_by: null,
+      })
+      .select('*')
+      .single();
+
+    if (error || !data) {
+      throw error;
+    }
+
+    const invite = toAdminInviteSummary(data);
+    const inviteUrl = new URL(`/admin/invite/${token}`, appUrl).toString();
+
+    let emailSent = true;
+    try {
+      await sendMail({
+        to: [invite.email],
+        subject: 'You have been invited to the VowNow admin dashboard',
+        text: [
+          `Hi${invite.fullName ? ` ${invite.fullName}` : ''},`,
+          '',
+          `${actor.email} has invited you to the VowNow admin dashboard as ${invite.role.replace(/_/g, ' ')}.`,
+          '',
+          `Set your password to accept: ${inviteUrl}`,
+          '',
+          `This link expires ${new Date(invite.expiresAt).toUTCString()}.`,
+        ].join('\n'),
+      });
+    } catch (mailError) {
+      console.error('Error sending admin invite email:', mailError);
+      emailSent = false;
+    }
+
+    await recordAuditLog({
+      adminUserId: actor.id,
+      action: 'admin_invite_create',
+      resourceType: 'admin_invite',
+      resourceId: invite.id,
+      newValues: { email: invite.email, role: invite.role, expires_at: invite.expiresAt },
+      metadata: { email_sent: emailSent },
+      ipAddress: actor.ipAddress,
+      userAgent: actor.userAgent,
+      sessionId: actor.sessionId,
+    });
+
+    return { success: true, invite, emailSent, ...(emailSent ? {} : { inviteUrl }) };
+  } catch (error) {
+    console.error('Error creating admin invite:', error);
+    return { success: false, status: 500, error: 'Failed to create invite' };
+  }
+}
+
+/**
+ * Invites sent in the last 30 days and any still pending
+ */
+export async function fetchAdminInvites(): Promise<AdminInviteSummary[]> {
+  const since = new Date(Date.now() - 30 * 24 * 60 * 60 * 1000).toISOString();
+
+  const { data, error } = await supabase
+    .from('admin_invites')
+    .select('*, inviter:admin_users!invited_by(email)')
+    .or(`created_at.gte.${since},and(accepted_at.is.null,revoked_at.is.null)`)
+    .order('created_at', { ascending: false });
+
+  if (error) {
+    console.error('Error fetching admin invites:', error);
+    throw error;
+  }
+
+  return (data || []).map(toAdminInviteSummary);
+}
+
+/**
+ * Withdraw a pending invite so its link stops working
+ */
+export async function revokeAdminInvite(inviteId: string, actor: InviteActor): Promise<InviteResult> {
+  try {
+    const { data, error } = await supabase
+      .from('admin_invites')
+      .update({ revoked_at: new Date().toISOString(), revoked_by: actor.id, updated_at: new Date().toISOString() })
+      .eq('id', inviteId)
+      .is('accepted_at', null)
+      .is('revoked_at', null)
+      .select('*')
+      .maybeSingle();
+
+    if (error) {
+      throw error;
+    }
+
+    if (!data) {
+      return { success: false, status: 404, error: 'No pending invite found' };
+    }
+
+    const invite = toAdminInviteSummary(data);
+
+    await recordAuditLog({
+      adminUserId: actor.id,
+      action: 'admin_invite_revoke',
+      resourceType: 'admin_invite',
+      resourceId: invite.id,
+      oldValues: { email: invite.email, role: invite.role },
+      newValues: { revoked: true },
+      ipAddress: actor.ipAddress,
+      userAgent: actor.userAgent,
+      sessionId: actor.sessionId,
+    });
+
+    return { success: true, invite };
+  } catch (error) {
+    console.error('Error revoking admin invite:', error);
+    return { success: false, status: 500, error: 'Failed to revoke invite' };
+  }
+}
+
+/**
+ * The invite behind a link, for the acceptance page
+ */
+export async function getAdminInviteDetails(
+  token: string
+): Promise<{ success: boolean; details?: AdminInviteDetails; error?: string; status?: number }> {
+  try {
+    const found = await findUsableInvite(token);
+    if (!found.invite) {
+      return { success: false, status: found.status, error: found.error };
+    }
+
+    const policy = await PasswordPolicyManager.getPolicy();
+
+    return {
+      success: true,
+      details: {
+        email: found.invite.email,
+        fullName: found.invite.fullName,
+        role: found.invite.role,
+        expiresAt: found.invite.expiresAt,
+        passwordRequirements: describePasswordPolicy({ ...policy, historyCount: 0 }),
+      },
+    };
+  } catch (error) {
+    console.error('Error loading admin invite:', error);
+    return { success: false, status: 500, error: 'Failed to load invite' };
+  }
+}
+
+/**
+ * Accept an invite: create the admin account with a password that passes the policy
+ */
+export async function acceptAdminInvite(
+  token: string,
+  input: { fullName: string | null; password: string },
+  client: { ipAddress?: string | null; userAgent?: string | null }
+): Promise<InviteResult> {
+  try {
+    const found = await findUsableInvite(token);
+    if (!found.invite) {
+      return { success: false, status: found.status, error: found.error };
+    }
+
+    const invite = found.invite;
+    const fullName = input.fullName?.trim() || invite.fullName;
+    const policy = await PasswordPolicyManager.getPolicy();
+    const check = await PasswordPolicyManager.checkPassword(input.password, { email: invite.email, fullName }, policy);
+
+    if (!check.isValid) {
+      return { success: false, status: 400, error: 'Password does not meet the policy', errors: check.errors };
+    }
+
+    // Claim the invite first so two submissions cannot both create an account
+    const { data: claimed, error: claimError } = await supabase
+      .from('admin_invites')
+      .update({ accepted_at: new Date().toISOString(), updated_at: new Date().toISOString() })
+      .eq('id', invite.id)
+      .is('accepted_at', null)
+      .is('revoked_at', null)
+      .select('id')
+      .maybeSingle();
+
+    if (claimError) {
+      throw claimError;
+    }
+
+    if (!claimed) {
+      return { success: false, status: 410, error: 'This invite has already been used' };
+    }
+
+    const serviceClient = createServiceRoleClient();
+    const { data: created, error: createError } = await serviceClient.auth.admin.createUser({
+      email: invite.email,
+      password: input.password,
+      email_confirm: true,
+    });
+
+    if (createError || !created.user) {
+      await supabase
+        .from('admin_invites')
+        .update({ accepted_at: null, updated_at: new Date().toISOString() })
+        .eq('id', invite.id);
+
+      console.error('Error creating invited admin:', createError);
+      return createError?.status === 422
+        ? { success: false, status: 409, error: 'An account already exists for this email' }
+        : { success: false, status: 500, error: 'Failed to create account' };
+    }
+
+    const adminId = created.user.id;
+
+    const adminRow: Database['public']['Tables']['admin_users']['Insert'] = {
+      id: adminId,
+      user_id: adminId,
+      email: invite.email,
+      full_name: fullName,
+      role: invite.role,
+      permissions: {},
+      is_active: true,
+      last_login_at: null,
+      created_by: invite.invitedBy,
+      updated_by: null,
+    };
+
+    const { error: adminError } = await supabase.from('admin_users').insert(adminRow);
+
+    if (adminError) {
+      await serviceClient.auth.admin.deleteUser(adminId);
+      await supabase
+        .from('admin_invites')
+        .update({ accepted_at: null, updated_at: new Date().toISOString() })
+        .eq('id', invite.id);
+
+      throw adminError;
+    }
+
+    await PasswordPolicyManager.recordPasswordChange(adminId, input.password, policy);
+
+    await supabase
+      .from('admin_invites')
+      .update({ accepted_admin_id: adminId })
+      .eq('id', invite.id);
+
+    await recordAuditLog({
+      adminUserId: adminId,
+      action: 'admin_invite_accept',
+      resourceType: 'admin_invite',
+      resourceId: invite.id,
+      newValues: { admin_user_id: adminId, email: invite.email, role: invite.role },
+      metadata: { invited_by: invite.invitedBy },
+      ipAddress: client.ipAddress,
+      userAgent: client.userAgent,
+    });
+
+    return { success: true, invite: { ...invite, status: 'accepted' } };
+  } catch (error) {
+    console.error('Error accepting admin invite:', error);
+    return { success: false, status: 500, error: 'Failed to accept invite' };
+  }
+}
+
+async function findUsableInvite(
+  token: string
+): Promise<{ invite?: AdminInviteSummary; error?: string; status?: number }> {
+  const { data, error } = await supabase
+    .from('admin_invites')
+    .select('*')
+    .eq('token_hash', hashToken(token))
+    .maybeSingle();
+
+  if (error) {
+    throw error;
+  }
+
+  const invite = data ? toAdminInviteSummary(data) : null;
+
+  if (!invite || invite.status === 'revoked') {
+    return { status: 404, error: 'Invite not found' };
+  }
+
+  if (invite.status === 'accepted') {
+    return { status: 410, error: 'This invite has already been used' };
+  }
+
+  if (invite.status === 'expired') {
+    return { status: 410, error: 'This invite has expired. Ask for a new one.' };
+  }
+
+  return { invite };
+}
+
+function toAdminInviteSummary(row: any): AdminInviteSummary {
+  const inviter = Array.isArray(row.inviter) ? row.inviter[0] : row.inviter;
+
+  return {
+    id: row.id,
+    email: row.email,
+    fullName: row.full_name,
+    role: row.role,
+    status: row.revoked_at
+      ? 'revoked'
+      : row.accepted_at
+        ? 'accepted'
+        : new Date(row.expires_at).getTime() <= Date.now() ? 'expired' : 'pending',
+    invitedBy: row.invited_by,
+    invitedByEmail: inviter?.email ?? undefined,
+    expiresAt: row.expires_at,
+    acceptedAt: row.accepted_at,
+    revokedAt: row.revoked_at,
+    createdAt: row.created_at,
+  };
+}
+
+// Emails may contain _, which ilike would treat as a wildcard
+function escapeLike(value: string): string {
+  return value.replace(/[\\%_]/g, character => `\\${character}`);
+}
+
+function hashToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+function getAppUrl(): string {
+  const url = process.env.APP_URL;
+
+  if (!url) {
+    throw new Error('Missing APP_URL environment variable');
+  }
+
+  return url;
+}
@@ -0,0 +1,446 @@
+import { supabase } from '@/lib/supabase';
+import { recordAuditLog } from '@/lib/admin/audit-logs';
+import type { LoginLockout, LoginLockoutScope } from '@/lib/types/database.types';
+
+/**
+ * Failed sign-in tracking
+ *
+ * Failed password attempts are counted per account (by email, whether or not
+ * it belongs to an admin, so responses do not reveal which emails exist) and
+ * per client IP. Each failure makes the next attempt wait longer, and reaching
+ * the security settings' max_login_attempts locks the account for
+ * lockout_duration_minutes. An IP is allowed LOGIN_IP_ATTEMPTS_FACTOR times as
+ * many failures, since several admins may sign in from one office address.
+ * Failures older than the lockout duration are forgotten.
+ */
+
+const DEFAULT_MAX_LOGIN_ATTEMPTS = 5;
+const DEFAULT_LOCKOUT_MINUTES = 30;
+
+export const LOGIN_IP_ATTEMPTS_FACTOR = parseInt(process.env.LOGIN_IP_ATTEMPTS_FACTOR || '4');
+export const LOGIN_DELAY_BASE_SECONDS = parseInt(process.env.LOGIN_DELAY_BASE_SECONDS || '1');
+export const LOGIN_DELAY_MAX_SECONDS = parseInt(process.env.LOGIN_DELAY_MAX_SECONDS || '30');
+
+// Attempts at a conditional update before giving up on a racing counter
+const UPDATE_RETRIES = 3;
+
+export interface LockoutPolicy {
+  maxAttempts: number;
+  ipMaxAttempts: number;
+  lockoutMinutes: number;
+}
+
+export interface LoginLockoutSummary {
+  id: string;
+  scope: LoginLockoutScope;
+  identifier: string;
+  adminUserId: string | null;
+  failedAttempts: number;
+  lastFailedAt: string | null;
+  lockedUntil: string | null;
+  unlockedBy: string | null;
+  unlockedAt: string | null;
+}
+
+export interface LoginCheckResult {
+  allowed: boolean;
+  // Why the attempt is refused: a lockout, or too soon after the last failure
+  reason?: 'locked' | 'delayed';
+  scope?: LoginLockoutScope;
+  retryAfterSeconds?: number;
+  lockedUntil?: string;
+}
+
+export interface LoginFailureResult {
+  // Scopes that became locked with this failure
+  locked: LoginLockoutScope[];
+  lockedUntil: string | null;
+}
+
+export interface LockoutActor {
+  id: string;
+  email: string;
+  ipAddress?: string | null;
+  userAgent?: string | null;
+}
+
+export interface UnlockResult {
+  success: boolean;
+  lockout?: LoginLockoutSummary;
+  error?: string;
+  status?: number;
+}
+
+/**
+ * Attempt limits from the security settings
+ */
+export async function getLockoutPolicy(): Promise<LockoutPolicy> {
+  const { data, error } = await supabase
+    .from('system_settings')
+    .select('settings')
+    .eq('category', 'security')
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error reading security settings for login lockout:', error);
+  }
+
+  const settings = data?.settings || {};
+  const maxAttempts = positiveInteger(settings.max_login_attempts, DEFAULT_MAX_LOGIN_ATTEMPTS);
+
+  return {
+    maxAttempts,
+    ipMaxAttempts: maxAttempts * Math.max(LOGIN_IP_ATTEMPTS_FACTOR, 1),
+    lockoutMinutes: positiveInteger(settings.lockout_duration_minutes, DEFAULT_LOCKOUT_MINUTES),
+  };
+}
+
+/**
+ * Whether a sign-in attempt may go ahead, checked before the password is
+ */
+export async function checkLoginAllowed(
+  email: string,
+  ipAddress: string | null,
+  policy: LockoutPolicy
+): Promise<LoginCheckResult> {
+  const now = Date.now();
+  const rows = await fetchLockoutRows(email, ipAddress);
+
+  for (const row of rows) {
+    if (row.locked_until && new Date(row.locked_until).getTime() > now) {
+      return {
+        allowed: false,
+        reason: 'locked',
+        scope: row.scope,
+        retryAfterSeconds: Math.ceil((new Date(row.locked_until).getTime() - now) / 1000),
+        lockedUntil: row.locked_until,
+      };
+    }
+  }
+
+  for (const row of rows) {
+    const failures = activeFailures(row, policy, now);
+    if (failures === 0 || !row.last_failed_at) {
+      continue;
+    }
+
+    const availableAt = new Date(row.last_failed_at).getTime() + delaySeconds(failures) * 1000;
+    if (availableAt > now) {
+      return {
+        allowed: false,
+        reason: 'delayed',
+        scope: row.scope,
+        retryAfterSeconds: Math.ceil((availableAt - now) / 1000),
+      };
+    }
+  }
+
+  return { allowed: true };
+}
+
+/**
+ * Count a failed password against the account and the IP
+ */
+export async function recordLoginFailure(
+  email: string,
+  ipAddress: string | null,
+  adminUserId: string | null,
+  policy: LockoutPolicy
+): Promise<LoginFailureResult> {
+  const targets: Array<[LoginLockoutScope, string, number]> = [
+    ['account', normalizeEmail(email), policy.maxAttempts],
+  ];
+  if (ipAddress) {
+    targets.push(['ip', ipAddress, policy.ipMaxAttempts]);
+  }
+
+  const results = await Promise.all(
+    targets.map(([scope, identifier, threshold]) =>
+      incrementFailures(scope, identifier, scope === 'account' ? adminUserId : null, threshold, policy)
+    )
+  );
+
+  const locked = targets
+    .filter((_target, index) => results[index])
+    .map(([scope]) => scope);
+
+  return { locked, lockedUntil: results.find(Boolean) || null };
+}
+
+/**
+ * Forget an account's failures after a successful sign-in
+ *
+ * The IP counter is left to expire on its own, so one valid account cannot
+ * be used to reset it.
+ */
+export async function clearAccountFailures(email: string): Promise<void> {
+  const { error } = await supabase
+    .from('login_lockouts')
+    .update({ failed_attempts: 0, locked_until: null, updated_at: new Date().toISOString() })
+    .eq('scope', 'account')
+    .eq('identifier', normalizeEmail(email))
+    .gt('failed_attempts', 0);
+
+  if (error) {
+    console.error('Error clearing login failures:', error);
+  }
+}
+
+/**
+ * Accounts and IPs that are locked now
+ */
+export async function fetchActiveLockouts(): Promise<LoginLockoutSummary[]> {
+  const { data, error } = await supabase
+    .from('login_lockouts')
+    .select('*')
+    .gt('locked_until', new Date().toISOString())
+    .order('locked_until', { ascending: false });
+
+  if (error) {
+    console.error('Error fetching login lockouts:', error);
+    throw error;
+  }
+
+  return (data || []).map(toLockoutSummary);
+}
+
+/**
+ * Lift a lockout before it expires
+ */
+export async function unlockLogin(lockoutId: string, actor: LockoutActor): Promise<UnlockResult> {
+  const { data: existing, error: fetchError } = await supabase
+    .from('login_lockouts')
+    .select('*')
+    .eq('id', lockoutId)
+    .maybeSingle();
+
+  if (fetchError) {
+    console.error('Error loading login lockout:', fetchError);
+    return { success: false, error: 'Failed to load lockout', status: 500 };
+  }
+
+  if (!existing) {
+    return { success: false, error: 'Lockout not found', status: 404 };
+  }
+
+  if (!existing.locked_until || new Date(existing.locked_until).getTime() <= Date.now()) {
+    return { success: false, error: 'This lockout has already expired', status: 409 };
+  }
+
+  const now = new Date().toISOString();
+  const { data: updated, error } = await supabase
+    .from('login_lockouts')
+    .update({
+      failed_attempts: 0,
+      locked_until: null,
+      unlocked_by: actor.id,
+      unlocked_at: now,
+      updated_at: now,
+    })
+    .eq('id', lockoutId)
+    .select()
+    .single();
+
+  if (error) {
+    console.error('Error unlocking login:', error);
+    return { success: false, error: 'Failed to unlock', status: 500 };
+  }
+
+  await recordAuditLog({
+    adminUserId: actor.id,
+    action: 'login_unlock',
+    resourceType: existing.scope === 'account' ? 'admin_user' : 'login_lockout',
+    resourceId: existing.scope === 'account' ? existing.admin_user_id : existing.id,
+    oldValues: {
+      failed_attempts: existing.failed_attempts,
+      locked_until: existing.locked_until,
+    },
+    newValues: { failed_attempts: 0, locked_until: null },
+    metadata: { scope: existing.scope, identifier: existing.identifier, actor: actor.email },
+    ipAddress: actor.ipAddress,
+    userAgent: actor.userAgent,
+  });
+
+  return { success: true, lockout: toLockoutSummary(updated) };
+}
+
+/**
+ * The admin an email belongs to, if any
+ */
+export async function findAdminIdByEmail(email: string): Promise<string | null> {
+  const { data } = await supabase
+    .from('admin_users')
+    .select('id')
+    .eq('email', normalizeEmail(email))
+    .maybeSingle();
+
+  return data?.id ?? null;
+}
+
+/**
+ * Seconds to wait after the given number of consecutive failures
+ */
+export function delaySeconds(failures: number): number {
+  if (failures <= 0) {
+    return 0;
+  }
+
+  return Math.min(LOGIN_DELAY_BASE_SECONDS * 2 ** (failures - 1), LOGIN_DELAY_MAX_SECONDS);
+}
+
+export function normalizeEmail(email: string): string {
+  return email.trim().toLowerCase();
+}
+
+async function fetchLockoutRows(email: string, ipAddress: string | null): Promise<LoginLockout[]> {
+  const lookups: Array<[LoginLockoutScope, string]> = [['account', normalizeEmail(email)]];
+  if (ipAddress) {
+    lookups.push(['ip', ipAddress]);
+  }
+
+  const results = await Promise.all(
+    lookups.map(([scope, identifier]) =>
+      supabase
+        .from('login_lockouts')
+        .select('*')
+        .eq('scope', scope)
+        .eq('identifier', identifier)
+        .maybeSingle()
+    )
+  );
+
+  const rows: LoginLockout[] = [];
+  for (const { data, error } of results) {
+    if (error) {
+      // Fail open: a broken counter must not lock every admin out
+      console.error('Error reading login lockouts:', error);
+      continue;
+    }
+
+    if (data) {
+      rows.push(data);
+    }
+  }
+
+  return rows;
+}
+
+// Returns the lock expiry when this failure locked the scope
+async function incrementFailures(
+  scope: LoginLockoutScope,
+  identifier: string,
+  adminUserId: string | null,
+  threshold: number,
+  policy: LockoutPolicy
+): Promise<string | null> {
+  for (let attempt = 0; attempt < UPDATE_RETRIES; attempt++) {
+    const now = Date.now();
+    const nowIso = new Date(now).toISOString();
+
+    const { data: row, error } = await supabase
+      .from('login_lockouts')
+      .select('*')
+      .eq('scope', scope)
+      .eq('identifier', identifier)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error reading login lockout:', error);
+      return null;
+    }
+
+    const failures = (row ? activeFailures(row, policy, now) : 0) + 1;
+    const lockedUntil = failures >= threshold
+      ? new Date(now + policy.lockoutMinutes * 60 * 1000).toISOString()
+      : null;
+
+    if (!row) {
+      const { error: insertError } = await supabase
+        .from('login_lockouts')
+        .insert({
+          scope,
+          identifier,
+          admin_user_id: adminUserId,
+          failed_attempts: failures,
+          last_failed_at: nowIso,
+          locked_until: lockedUntil,
+          unlocked_by: null,
+          unlocked_at: null,
+        });
+
+      // Another failure created the row first; count against it instead
+      if (insertError?.code === '23505') {
+        continue;
+      }
+
+      if (insertError) {
+        console.error('Error recording login failure:', insertError);
+        return null;
+      }
+
+      return lockedUntil;
+    }
+
+    // Conditional on the row as read, so concurrent failures are all counted
+    const { data: updated, error: updateError } = await supabase
+      .from('login_lockouts')
+      .update({
+        admin_user_id: adminUserId ?? row.admin_user_id,
+        failed_attempts: failures,
+        last_failed_at: nowIso,
+        locked_until: lockedUntil,
+        updated_at: nowIso,
+      })
+      .eq('id', row.id)
+      .eq('updated_at', row.updated_at)
+      .select('id');
+
+    if (updateError) {
+      console.error('Error recording login failure:', updateError);
+      return null;
+    }
+
+    if (updated && updated.length > 0) {
+      return lockedUntil;
+    }
+  }
+
+  console.error(`Gave up recording login failure for ${scope} ${identifier} after ${UPDATE_RETRIES} attempts`);
+  return null;
+}
+
+// Failures that still count: none once a lock has run out or the last one is older than the lockout duration
+function activeFailures(row: LoginLockout, policy: LockoutPolicy, now: number): number {
+  if (!row.failed_attempts || !row.last_failed_at) {
+    return 0;
+  }
+
+  if (row.locked_until && new Date(row.locked_until).getTime() <= now) {
+    return 0;
+  }
+
+  if (new Date(row.last_failed_at).getTime() < now - policy.lockoutMinutes * 60 * 1000) {
+    return 0;
+  }
+
+  return row.failed_attempts;
+}
+
+function positiveInteger(value: unknown, fallback: number): number {
+  const parsed = typeof value === 'number' ? value : parseInt(String(value ?? ''));
+  return Number.isInteger(parsed) && parsed > 0 ? parsed : fallback;
+}
+
+function toLockoutSummary(row: LoginLockout): LoginLockoutSummary {
+  return {
+    id: row.id,
+    scope: row.scope,
+    identifier: row.identifier,
+    adminUserId: row.admin_user_id,
+    failedAttempts: row.failed_attempts,
+    lastFailedAt: row.last_failed_at,
+    lockedUntil: row.locked_until,
+    unlockedBy: row.unlocked_by,
+    unlockedAt: row.unlocked_at,
+  };
+}
@@ -0,0 +1,114 @@
+import { recordAuditLog } from '@/lib/admin/audit-logs';
+import { ServerSessionManager, type LoginSessionSummary } from '@/lib/auth/session';
+
+/**
+ * Revoking admin login sessions
+ *
+ * Admins can end their own sessions from the sessions page; holders of
+ * admins:update can end anyone's. A revoked session keeps its row for the
+ * inventory and is refused by middleware.ts on its next request.
+ */
+
+export interface SessionActor {
+  id: string;
+  email: string;
+  sessionId?: string | null;
+  ipAddress?: string | null;
+  userAgent?: string | null;
+}
+
+export interface RevokeSessionsResult {
+  success: boolean;
+  revoked?: string[];
+  // Whether the actor's own current session was among them
+  includesCurrent?: boolean;
+  error?: string;
+  status?: number;
+}
+
+/**
+ * Revoke one session
+ *
+ * With ownOnly the session must belong to the actor; otherwise a missing
+ * session and someone else's look the same.
+ */
+export async function revokeLoginSession(
+  sessionId: string,
+  actor: SessionActor,
+  options: { ownOnly: boolean }
+): Promise<RevokeSessionsResult> {
+  try {
+    const session = await ServerSessionManager.getLoginSession(sessionId);
+
+    if (!session || (options.ownOnly && session.adminUserId !== actor.id)) {
+      return { success: false, error: 'Session not found', status: 404 };
+    }
+
+    if (session.revokedAt) {
+      return { success: false, error: 'This session has already ended', status: 409 };
+    }
+
+    const revoked = await ServerSessionManager.revokeLoginSessions(session.adminUserId, sessionId, actor.id, 'revoked');
+
+    await recordAuditLog({
+      adminUserId: actor.id,
+      action: 'session_revoke',
+      resourceType: 'admin_login_session',
+      resourceId: sessionId,
+      oldValues: sessionAuditValues(session),
+      newValues: { revoked: true },
+      metadata: { admin_user_id: session.adminUserId, admin_email: session.adminEmail, actor: actor.email },
+      ipAddress: actor.ipAddress,
+      userAgent: actor.userAgent,
+      sessionId: actor.sessionId,
+    });
+
+    return { success: true, revoked, includesCurrent: sessionId === actor.sessionId };
+  } catch (error) {
+    console.error('Error revoking login session:', error);
+    return { success: false, error: 'Failed to revoke session', status: 500 };
+  }
+}
+
+/**
+ * Revoke every session of an admin, such as "sign out everywhere"
+ */
+export async function revokeAllLoginSessions(
+  adminUserId: string,
+  actor: SessionActor
+): Promise<RevokeSessionsResult> {
+  try {
+    const revoked = await ServerSessionManager.revokeLoginSessions(adminUserId, null, actor.id, 'revoked_all');
+
+    await recordAuditLog({
+      adminUserId: actor.id,
+      action: 'session_revoke_all',
+      resourceType: 'admin_user',
+      resourceId: adminUserId,
+      newValues: { revoked_sessions: revoked },
+      metadata: { own: adminUserId === actor.id, actor: actor.email },
+      ipAddress: actor.ipAddress,
+      userAgent: actor.userAgent,
+      sessionId: actor.sessionId,
+    });
+
+    return {
+      success: true,
+      revoked,
+      includesCurrent: !!actor.sessionId && revoked.includes(actor.sessionId),
+    };
+  } catch (error) {
+    console.error('Error revoking login sessions:', error);
+    return { success: false, error: 'Failed to revoke sessions', status: 500 };
+  }
+}
+
+function sessionAuditValues(session: LoginSessionSummary): Record<string, any> {
+  return {
+    device: session.device,
+    ip_address: session.ipAddress,
+    two_factor_verified: session.twoFactorVerified,
+    created_at: session.createdAt,
+    last_active_at: session.lastActiveAt,
+  };
+}
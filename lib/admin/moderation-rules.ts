@@ -0,0 +1,549 @@
+import { supabase } from '@/lib/supabase';
+import { matchRegex } from '@/lib/admin/regex-worker';
+import type {
+  ModerationHistoryEntry,
+  ModerationPriority,
+  ModerationStatus,
+} from '@/lib/types/database.types';
+
+export type ModerationRuleType =
+  | 'keyword'
+  | 'regex'
+  | 'report_threshold'
+  | 'new_account'
+  | 'repeat_offender';
+
+export type AutoModerationOutcome = 'flag' | 'approve' | 'prioritize';
+
+export interface ModerationRule {
+  id: string;
+  name: string;
+  type: ModerationRuleType;
+  enabled: boolean;
+  // Points added to the item's score when the rule matches
+  score: number;
+  keywords?: string[];
+  pattern?: string;
+  threshold?: number;
+  accountAgeDays?: number;
+  offenseCount?: number;
+  lookbackDays?: number;
+}
+
+export interface ModerationRulesConfig {
+  enabled: boolean;
+  rules: ModerationRule[];
+  highPriorityScore: number;
+  mediumPriorityScore: number;
+  // null disables the automated decision
+  autoFlagScore: number | null;
+  autoApproveMaxScore: number | null;
+}
+
+export interface RuleMatch {
+  ruleId: string;
+  ruleName: string;
+  score: number;
+  detail: string;
+}
+
+export interface AutoModerationDecision {
+  itemId: string;
+  title: string;
+  currentStatus: ModerationStatus;
+  currentPriority: ModerationPriority;
+  score: number;
+  matches: RuleMatch[];
+  priority: ModerationPriority;
+  outcome: AutoModerationOutcome;
+}
+
+export interface RuleContext {
+  text: string;
+  reportsCount: number;
+  authorCreatedAt: string | null;
+  priorOffenses: (lookbackDays: number) => Promise<number>;
+}
+
+export type RuleEvaluator = (
+  rule: ModerationRule,
+  context: RuleContext
+) => Promise<string | null> | string | null;
+
+export const DEFAULT_MODERATION_RULES: ModerationRulesConfig = {
+  enabled: false,
+  rules: [
+    {
+      id: 'reports-threshold',
+      name: 'Heavily reported',
+      type: 'report_threshold',
+      enabled: true,
+      score: 40,
+      threshold: 5,
+    },
+    {
+      id: 'new-account',
+      name: 'New account',
+      type: 'new_account',
+      enabled: true,
+      score: 20,
+      accountAgeDays: 3,
+    },
+    {
+      id: 'repeat-offender',
+      name: 'Repeat offender',
+      type: 'repeat_offender',
+      enabled: true,
+      score: 40,
+      offenseCount: 2,
+      lookbackDays: 90,
+    },
+  ],
+  highPriorityScore: 60,
+  mediumPriorityScore: 30,
+  autoFlagScore: 80,
+  autoApproveMaxScore: null,
+};
+
+// activity_logs actions that count against a user as prior offenses
+const OFFENSE_ACTIONS = ['content_rejected', 'content_flagged', 'user_banned', 'user_suspended'];
+
+const SETTINGS_CATEGORY = 'moderation_rules';
+
+// Regex rules run on the server, so patterns and the text they scan are bounded
+export const MAX_REGEX_PATTERN_LENGTH = 200;
+const MAX_REGEX_INPUT_LENGTH = 10000;
+const QUANTIFIER = /^(?:[*+?]|\{(\d+)(?:(,)(\d*))?\})\??/;
+const GROUP_PREFIX = /^\((?:\?(?::|=|!|<=|<!|<[^>]+>))?/;
+const BACKREFERENCE = /\\(?:[1-9]|k<)/;
+
+const RULE_ITEM_SELECT = `
+  id,
+  user_id,
+  title,
+  description,
+  content,
+  status,
+  priority,
+  reports_count,
+  moderation_history,
+  updated_at,
+  author:profiles!moderation_items_user_id_fkey (
+    created_at
+  )
+`;
+
+const ruleEvaluators: Record<string, RuleEvaluator> = {
+  keyword: (rule, context) => {
+    const text = context.text.toLowerCase();
+    const hit = (rule.keywords || []).find(keyword => keyword && text.includes(keyword.toLowerCase()));
+    return hit ? `Contains "${hit}"` : null;
+  },
+  regex: async (rule, context) => {
+    if (!rule.pattern) return null;
+    // Rules saved before the pattern checks existed are skipped rather than run
+    const problem = checkRegexPattern(rule.pattern);
+    if (problem) {
+      console.error(`Skipping moderation rule "${rule.name}": ${problem}`);
+      return null;
+    }
+    // In a worker with a time limit, since the checks cannot rule out every slow pattern
+    const matched = await matchRegex(rule.pattern, 'i', context.text.slice(0, MAX_REGEX_INPUT_LENGTH));
+    return matched ? `Matches /${rule.pattern}/` : null;
+  },
+  report_threshold: (rule, context) => {
+    const threshold = rule.threshold ?? 1;
+    return context.reportsCount >= threshold ? `${context.reportsCount} reports (threshold ${threshold})` : null;
+  },
+  new_account: (rule, context) => {
+    if (!context.authorCreatedAt) return null;
+    const ageDays = (Date.now() - new Date(context.authorCreatedAt).getTime()) / (24 * 60 * 60 * 1000);
+    return ageDays < (rule.accountAgeDays ?? 7) ? `Account is ${Math.floor(ageDays)} days old` : null;
+  },
+  repeat_offender: async (rule, context) => {
+    const offenses = await context.priorOffenses(rule.lookbackDays ?? 90);
+    return offenses >= (rule.offenseCount ?? 1) ? `${offenses} prior offenses` : null;
+  },
+};
+
+/**
+ * Register an evaluator for a custom rule type
+ */
+export function registerRuleEvaluator(type: string, evaluator: RuleEvaluator): void {
+  ruleEvaluators[type] = evaluator;
+}
+
+export async function fetchModerationRules(): Promise<ModerationRulesConfig> {
+  const { data, error } = await supabase
+    .from('system_settings')
+    .select('settings')
+    .eq('category', SETTINGS_CATEGORY)
+    .single();
+
+  if (error && error.code !== 'PGRST116') {
+    console.error('Error loading moderation rules:', error);
+  }
+
+  return { ...DEFAULT_MODERATION_RULES, ...(data?.settings || {}) };
+}
+
+export async function saveModerationRules(config: ModerationRulesConfig): Promise<void> {
+  const { error } = await supabase
+    .from('system_settings')
+    .upsert({
+      category: SETTINGS_CATEGORY,
+      settings: config,
+      updated_at: new Date().toISOString(),
+    });
+
+  if (error) {
+    throw error;
+  }
+}
+
+export function validateModerationRules(config: ModerationRulesConfig): { isValid: boolean; errors?: string[] } {
+  const errors: string[] = [];
+
+  if (!config || !Array.isArray(config.rules)) {
+    return { isValid: false, errors: ['Rules must be an array'] };
+  }
+
+  const ids = new Set<string>();
+  config.rules.forEach((rule, index) => {
+    const label = rule.name || `Rule ${index + 1}`;
+
+    if (!rule.id || ids.has(rule.id)) {
+      errors.push(`${label}: rule ID must be unique`);
+    }
+    ids.add(rule.id);
+
+    if (!ruleEvaluators[rule.type]) {
+      errors.push(`${label}: unknown rule type "${rule.type}"`);
+    }
+
+    if (typeof rule.score !== 'number' || rule.score < 0 || rule.score > 100) {
+      errors.push(`${label}: score must be between 0 and 100`);
+    }
+
+    if (rule.type === 'keyword' && (!rule.keywords || rule.keywords.length === 0)) {
+      errors.push(`${label}: at least one keyword is required`);
+    }
+
+    if (rule.type === 'regex') {
+      const problem = rule.pattern ? checkRegexPattern(rule.pattern) : 'pattern is required';
+      if (problem) {
+        errors.push(`${label}: ${problem}`);
+      }
+    }
+  });
+
+  if (config.mediumPriorityScore > config.highPriorityScore) {
+    errors.push('Medium priority score cannot exceed high priority score');
+  }
+
+  if (
+    config.autoFlagScore !== null &&
+    config.autoApproveMaxScore !== null &&
+    config.autoApproveMaxScore >= config.autoFlagScore
+  ) {
+    errors.push('Auto-approve score must be below the auto-flag score');
+  }
+
+  return {
+    isValid: errors.length === 0,
+    errors: errors.length > 0 ? errors : undefined,
+  };
+}
+
+/**
+ * Reject patterns that are too long, invalid or prone to catastrophic backtracking
+ *
+ * The backtracking check is conservative: it refuses any repeated group that
+ * contains a quantifier or an alternation at any depth, the same element
+ * repeated twice in a row (a*a*), and backreferences. It cannot catch every
+ * slow pattern, which is why matches also run under a time limit.
+ */
+export function checkRegexPattern(pattern: string): string | null {
+  if (pattern.length > MAX_REGEX_PATTERN_LENGTH) {
+    return `pattern must be at most ${MAX_REGEX_PATTERN_LENGTH} characters`;
+  }
+
+  try {
+    new RegExp(pattern);
+  } catch {
+    return 'invalid regular expression';
+  }
+
+  if (hasRiskyRepetition(pattern) || BACKREFERENCE.test(pattern)) {
+    return 'pattern must not repeat a group containing a quantifier or alternation, repeat the same element twice in a row, or use backreferences';
+  }
+
+  return null;
+}
+
+/**
+ * Walk a valid pattern element by element, tracking per open group whether
+ * anything inside it repeats or alternates
+ */
+function hasRiskyRepetition(pattern: string): boolean {
+  const groups = [{ start: 0, repeats: false, previous: '' }];
+  // The previous element when it was repeated, for spotting a*a*
+  let repeatedElement = '';
+  let index = 0;
+
+  while (index < pattern.length) {
+    const char = pattern[index];
+
+    if (char === '(') {
+      // The element before the group, compared with the whole group once it closes
+      groups.push({ start: index, repeats: false, previous: repeatedElement });
+      index += pattern.slice(index).match(GROUP_PREFIX)![0].length;
+      repeatedElement = '';
+      continue;
+    }
+
+    if (char === '|') {
+      groups[groups.length - 1].repeats = true;
+      repeatedElement = '';
+      index++;
+      continue;
+    }
+
+    // The element ending here: a closed group, an escape, a class or a single character
+    let start = index;
+    let innerRepeats = false;
+    if (char === ')') {
+      const group = groups.pop()!;
+      start = group.start;
+      innerRepeats = group.repeats;
+      repeatedElement = group.previous;
+      index++;
+    } else if (char === '\\') {
+      index += 2;
+    } else if (char === '[') {
+      index = classEnd(pattern, index);
+    } else {
+      index++;
+    }
+
+    const element = pattern.slice(start, index);
+    const quantifier = pattern.slice(index).match(QUANTIFIER);
+    const repeats = !!quantifier && quantifierMax(quantifier) > 1;
+
+    if (repeats && (innerRepeats || element === repeatedElement)) {
+      return true;
+    }
+
+    const parent = groups[groups.length - 1];
+    parent.repeats = parent.repeats || repeats || innerRepeats;
+    repeatedElement = repeats ? element : '';
+    index += quantifier ? quantifier[0].length : 0;
+  }
+
+  return false;
+}
+
+function quantifierMax([quantifier, min, comma, max]: RegExpMatchArray): number {
+  if (quantifier[0] === '*' || quantifier[0] === '+') return Infinity;
+  if (quantifier[0] === '?') return 1;
+  if (!comma) return Number(min);
+  return max === '' ? Infinity : Number(max);
+}
+
+// Index just past the character class opening at start
+function classEnd(pattern: string, start: number): number {
+  let index = start + 1;
+  if (pattern[index] === '^') index++;
+  if (pattern[index] === ']') index++;
+
+  while (index < pattern.length && pattern[index] !== ']') {
+    index += pattern[index] === '\\' ? 2 : 1;
+  }
+
+  return index + 1;
+}
+
+/**
+ * Score a single item against the configured rules without persisting anything
+ */
+export async function evaluateModerationItem(
+  row: any,
+  config: ModerationRulesConfig
+): Promise<AutoModerationDecision> {
+  const author = Array.isArray(row.author) ? row.author[0] : row.author;
+  const offenseCache = new Map<number, number>();
+
+  const context: RuleContext = {
+    text: [row.title, row.description, row.content?.text].filter(Boolean).join('\n'),
+    reportsCount: row.reports_count || 0,
+    authorCreatedAt: author?.created_at || null,
+    priorOffenses: async (lookbackDays) => {
+      if (!offenseCache.has(lookbackDays)) {
+        offenseCache.set(lookbackDays, await countPriorOffenses(row.user_id, lookbackDays));
+      }
+      return offenseCache.get(lookbackDays)!;
+    },
+  };
+
+  const matches: RuleMatch[] = [];
+  for (const rule of config.rules) {
+    const evaluator = ruleEvaluators[rule.type];
+    if (!rule.enabled || !evaluator) continue;
+
+    try {
+      const detail = await evaluator(rule, context);
+      if (detail) {
+        matches.push({ ruleId: rule.id, ruleName: rule.name, score: rule.score, detail });
+      }
+    } catch (error) {
+      console.error(`Error evaluating moderation rule "${rule.name}":`, error);
+    }
+  }
+
+  const score = matches.reduce((sum, match) => sum + match.score, 0);
+
+  let priority: ModerationPriority = 'low';
+  if (score >= config.highPriorityScore) {
+    priority = 'high';
+  } else if (score >= config.mediumPriorityScore) {
+    priority = 'medium';
+  }
+
+  let outcome: AutoModerationOutcome = 'prioritize';
+  if (config.autoFlagScore !== null && score >= config.autoFlagScore) {
+    outcome = 'flag';
+  } else if (config.autoApproveMaxScore !== null && score <= config.autoApproveMaxScore) {
+    outcome = 'approve';
+  }
+
+  return {
+    itemId: row.id,
+    title: row.title,
+    currentStatus: row.status,
+    currentPriority: row.priority,
+    score,
+    matches,
+    priority,
+    outcome,
+  };
+}
+
+/**
+ * Dry run: evaluate recent items with a candidate config and report what would happen
+ */
+export async function previewModerationRules(
+  config: ModerationRulesConfig,
+  limit: number = 25
+): Promise<AutoModerationDecision[]> {
+  const { data, error } = await supabase
+    .from('moderation_items')
+    .select(RULE_ITEM_SELECT)
+    .order('created_at', { ascending: false })
+    .limit(Math.min(100, Math.max(1, limit)));
+
+  if (error) {
+    throw error;
+  }
+
+  return Promise.all((data || []).map(row => evaluateModerationItem(row, config)));
+}
+
+/**
+ * Apply the saved rules to pending items that have not been evaluated yet
+ */
+export async function runAutoModeration(limit: number = 50): Promise<AutoModerationDecision[]> {
+  const config = await fetchModerationRules();
+
+  if (!config.enabled) {
+    return [];
+  }
+
+  const { data, error } = await supabase
+    .from('moderation_items')
+    .select(RULE_ITEM_SELECT)
+    .eq('status', 'pending')
+    .is('auto_moderated_at', null)
+    .order('created_at', { ascending: true })
+    .limit(limit);
+
+  if (error) {
+    throw error;
+  }
+
+  const decisions: AutoModerationDecision[] = [];
+
+  for (const row of data || []) {
+    const decision = await evaluateModerationItem(row, config);
+    await applyDecision(row, decision);
+    decisions.push(decision);
+  }
+
+  return decisions;
+}
+
+async function applyDecision(row: any, decision: AutoModerationDecision): Promise<void> {
+  const now = new Date().toISOString();
+  const summary = decision.matches.length > 0
+    ? decision.matches.map(match => `${match.ruleName}: ${match.detail}`).join('; ')
+    : 'No rules matched';
+
+  const historyEntry: ModerationHistoryEntry = {
+    id: crypto.randomUUID(),
+    action: `auto_${decision.outcome}`,
+    moderator: 'system',
+    moderator_id: null,
+    timestamp: now,
+    reason: `Score ${decision.score} (${decision.priority} priority). ${summary}`,
+  };
+
+  const history: ModerationHistoryEntry[] = Array.isArray(row.moderation_history)
+    ? row.moderation_history
+    : [];
+
+  const update: Record<string, any> = {
+    priority: decision.priority,
+    auto_moderated_at: now,
+    auto_moderation_score: decision.score,
+    moderation_history: [...history, historyEntry],
+    updated_at: now,
+  };
+
+  if (decision.outcome === 'flag') {
+    update.status = 'flagged';
+    update.reason = summary;
+  } else if (decision.outcome === 'approve') {
+    update.status = 'approved';
+    update.reviewed_at = now;
+  }
+
+  // Guard on status and updated_at so a moderator's action made in the meantime
+  // wins; a skipped item is evaluated again on the next run
+  const { error } = await supabase
+    .from('moderation_items')
+    .update(update)
+    .eq('id', row.id)
+    .eq('status', 'pending')
+    .eq('updated_at', row.updated_at);
+
+  if (error) {
+    console.error('Error applying auto-moderation decision:', error);
+  }
+}
+
+async function countPriorOffenses(userId: string, lookbackDays: number): Promise<number> {
+  const since = new Date(Date.now() - lookbackDays * 24 * 60 * 60 * 1000);
+
+  const { count, error } = await supabase
+    .from('activity_logs')
+    .select('*', { count: 'exact', head: true })
+    .eq('user_id', userId)
+    .in('action', OFFENSE_ACTIONS)
+    .gte('created_at', since.toISOString());
+
+  if (error) {
+    console.error('Error counting prior offenses:', error);
+    return 0;
+  }
+
+  return count || 0;
+}
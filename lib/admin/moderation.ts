@@ -0,0 +1,780 @@
+import { supabase } from '@/lib/supabase';
+import { recordAuditLog } from '@/lib/admin/audit-logs';
+import { fetchAppealStats, type AppealStats } from '@/lib/admin/appeals';
+import { RBACManager, PERMISSIONS } from '@/lib/auth/rbac';
+import { resolveAdminPermissions } from '@/lib/admin/roles';
+import { resolveOwnership, resolveScopeOwners, toInList, type ScopeContext } from '@/lib/admin/scope';
+import type {
+  ModerationContentType,
+  ModerationHistoryEntry,
+  ModerationPriority,
+  ModerationStatus,
+} from '@/lib/types/database.types';
+
+export interface ModerationItem {
+  id: string;
+  type: ModerationContentType;
+  status: ModerationStatus;
+  priority: ModerationPriority;
+  title: string;
+  description: string;
+  author: {
+    id: string;
+    name: string;
+    email: string;
+    avatar: string;
+  };
+  content: {
+    url?: string;
+    text?: string;
+    duration?: number;
+    thumbnail?: string;
+  };
+  reports: number;
+  reason?: string;
+  created_at: string;
+  reported_at?: string;
+  reviewed_at?: string;
+  claim: ModerationClaim | null;
+  moderation_history: ModerationHistoryEntry[];
+}
+
+export interface ModerationClaim {
+  moderatorId: string;
+  moderatorEmail: string;
+  claimedAt: string;
+  expiresAt: string;
+}
+
+export interface ModerationQueueStats {
+  pending: number;
+  approved: number;
+  rejected: number;
+  flagged: number;
+  todayReviewed: number;
+  avgReviewTime: string;
+  appeals?: AppealStats;
+}
+
+export interface PaginationInfo {
+  page: number;
+  limit: number;
+  total: number;
+  totalPages: number;
+  hasNextPage: boolean;
+  hasPreviousPage: boolean;
+}
+
+export interface ModerationListResponse {
+  items: ModerationItem[];
+  pagination: PaginationInfo;
+  filters: {
+    type?: string;
+    status?: string;
+    priority?: string;
+    sortBy?: string;
+  };
+  stats: ModerationQueueStats;
+}
+
+export type ModerationAction = 'approve' | 'reject' | 'flag';
+
+export interface ModerationActor {
+  id: string;
+  email: string;
+  ipAddress?: string | null;
+  userAgent?: string | null;
+}
+
+export interface ModerateContentResult {
+  success: boolean;
+  item?: ModerationItem;
+  error?: string;
+  conflict?: boolean;
+}
+
+export interface ClaimModerationResult {
+  success: boolean;
+  claim?: ModerationClaim | null;
+  error?: string;
+  status?: number;
+  conflict?: boolean;
+}
+
+interface ModerationFilters {
+  page?: number;
+  limit?: number;
+  type?: string;
+  status?: string;
+  priority?: string;
+  sortBy?: string;
+  // Items leased by anyone other than the viewer are hidden unless includeClaimed is set
+  viewerId?: string;
+  includeClaimed?: boolean;
+}
+
+export const DEFAULT_CLAIM_TTL_MINUTES = parseInt(process.env.MODERATION_CLAIM_TTL_MINUTES || '15');
+export const MAX_CLAIM_TTL_MINUTES = 120;
+
+const VALID_TYPES: ModerationContentType[] = ['video', 'comment', 'profile', 'audio'];
+const VALID_STATUSES: ModerationStatus[] = ['pending', 'approved', 'rejected', 'flagged'];
+const VALID_PRIORITIES: ModerationPriority[] = ['low', 'medium', 'high'];
+const VALID_SORTS = ['reports', 'date', 'oldest'];
+
+const ACTION_STATUS: Record<ModerationAction, ModerationStatus> = {
+  approve: 'approved',
+  reject: 'rejected',
+  flag: 'flagged',
+};
+
+const CONCURRENT_UPDATE_ERROR = 'Item was changed by another moderator. Reload it and try again';
+
+const MODERATION_ITEM_SELECT = `
+  id,
+  content_type,
+  user_id,
+  title,
+  description,
+  content,
+  status,
+  priority,
+  reason,
+  reports_count,
+  reported_at,
+  reviewed_by,
+  reviewed_at,
+  claimed_by,
+  claimed_by_email,
+  claimed_at,
+  claim_expires_at,
+  moderation_history,
+  created_at,
+  updated_at,
+  author:profiles!moderation_items_user_id_fkey (
+    id,
+    email,
+    full_name,
+    avatar_url
+  )
+`;
+
+export async function fetchModerationItems(
+  filters: ModerationFilters = {},
+  context?: ScopeContext
+): Promise<ModerationListResponse> {
+  try {
+    const page = Math.max(1, filters.page || 1);
+    const limit = Math.min(100, Math.max(1, filters.limit || 20));
+    const offset = (page - 1) * limit;
+
+    let query = supabase
+      .from('moderation_items')
+      .select(MODERATION_ITEM_SELECT, { count: 'exact' });
+
+    if (filters.type && filters.type !== 'all') {
+      query = query.eq('content_type', filters.type);
+    }
+
+    if (filters.status && filters.status !== 'all') {
+      query = query.eq('status', filters.status);
+    }
+
+    if (filters.priority && filters.priority !== 'all') {
+      query = query.eq('priority', filters.priority);
+    }
+
+    if (filters.viewerId && !filters.includeClaimed) {
+      query = query.or(
+        `claimed_by.is.null,claimed_by.eq.${filters.viewerId},claim_expires_at.lt.${new Date().toISOString()}`
+      );
+    }
+
+    // Scoped moderators see undecided items plus decisions made by themselves (or their team)
+    if (context) {
+      const owners = await resolveScopeOwners(context, 'moderation', 'read');
+      if (owners) {
+        query = owners.ids.length > 0
+          ? query.or(`reviewed_by.is.null,reviewed_by.in.${toInList(owners.ids)}`)
+          : query.is('reviewed_by', null);
+      }
+    }
+
+    // Apply sorting
+    switch (filters.sortBy) {
+      case 'reports':
+        query = query.order('reports_count', { ascending: false });
+        break;
+      case 'oldest':
+        query = query.order('created_at', { ascending: true });
+        break;
+      default:
+        query = query.order('created_at', { ascending: false });
+    }
+
+    const { data, count, error } = await query.range(offset, offset + limit - 1);
+
+    if (error) {
+      throw error;
+    }
+
+    const items = (data || []).map(mapModerationItem);
+
+    const total = count || 0;
+    const totalPages = Math.ceil(total / limit);
+
+    const stats = await fetchModerationStats();
+
+    return {
+      items,
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages,
+        hasNextPage: page < totalPages,
+        hasPreviousPage: page > 1,
+      },
+      filters: {
+        type: filters.type,
+        status: filters.status,
+        priority: filters.priority,
+        sortBy: filters.sortBy,
+      },
+      stats,
+    };
+  } catch (error) {
+    console.error('Error fetching moderation items:', error);
+    throw error;
+  }
+}
+
+export async function fetchModerationItemById(itemId: string): Promise<ModerationItem | null> {
+  const { data, error } = await supabase
+    .from('moderation_items')
+    .select(MODERATION_ITEM_SELECT)
+    .eq('id', itemId)
+    .single();
+
+  if (error || !data) {
+    return null;
+  }
+
+  return mapModerationItem(data);
+}
+
+/**
+ * Check a scoped moderation permission against one item
+ *
+ * The reviewer who decided an item owns it; undecided items are open to
+ * every scope so own-scoped moderators can still work the queue.
+ */
+export async function checkModerationAccess(
+  itemId: string,
+  action: 'read' | 'review' | 'assign',
+  context: ScopeContext
+): Promise<{ allowed: boolean; status?: number; error?: string }> {
+  const { data: item, error } = await supabase
+    .from('moderation_items')
+    .select('id, reviewed_by')
+    .eq('id', itemId)
+    .single();
+
+  if (error || !item) {
+    return { allowed: false, status: 404, error: 'Moderation item not found' };
+  }
+
+  const ownership = await resolveOwnership(context, { id: item.reviewed_by }, !item.reviewed_by);
+
+  if (!RBACManager.canAccessResource(context.permissions, 'moderation', action, ownership)) {
+    return { allowed: false, status: 403, error: 'This item was decided by a moderator outside your scope' };
+  }
+
+  return { allowed: true };
+}
+
+export async function fetchModerationStats(): Promise<ModerationQueueStats> {
+  try {
+    const countByStatus = async (status: ModerationStatus) => {
+      const { count } = await supabase
+        .from('moderation_items')
+        .select('*', { count: 'exact', head: true })
+        .eq('status', status);
+      return count || 0;
+    };
+
+    const [pending, approved, rejected, flagged] = await Promise.all(
+      VALID_STATUSES.map(countByStatus)
+    );
+
+    const startOfDay = new Date();
+    startOfDay.setHours(0, 0, 0, 0);
+
+    const { count: todayReviewed } = await supabase
+      .from('moderation_items')
+      .select('*', { count: 'exact', head: true })
+      .gte('reviewed_at', startOfDay.toISOString());
+
+    // Average time from submission to decision over the latest reviews
+    const { data: recentReviews } = await supabase
+      .from('moderation_items')
+      .select('created_at, reviewed_at')
+      .not('reviewed_at', 'is', null)
+      .order('reviewed_at', { ascending: false })
+      .limit(100);
+
+    const reviewDurations = (recentReviews || [])
+      .map((row: any) => new Date(row.reviewed_at).getTime() - new Date(row.created_at).getTime())
+      .filter((duration: number) => duration >= 0);
+
+    const avgReviewMs = reviewDurations.length > 0
+      ? reviewDurations.reduce((sum: number, duration: number) => sum + duration, 0) / reviewDurations.length
+      : 0;
+
+    const appeals = await fetchAppealStats();
+
+    return {
+      pending,
+      approved,
+      rejected,
+      flagged,
+      todayReviewed: todayReviewed || 0,
+      avgReviewTime: formatDuration(avgReviewMs),
+      appeals,
+    };
+  } catch (error) {
+    console.error('Error calculating moderation stats:', error);
+    return {
+      pending: 0,
+      approved: 0,
+      rejected: 0,
+      flagged: 0,
+      todayReviewed: 0,
+      avgReviewTime: '-',
+    };
+  }
+}
+
+export async function moderateContent(
+  itemId: string,
+  action: ModerationAction,
+  actor: ModerationActor,
+  reason?: string
+): Promise<ModerateContentResult> {
+  try {
+    const { data: current, error: fetchError } = await supabase
+      .from('moderation_items')
+      .select('id, user_id, status, reason, moderation_history, claimed_by, claimed_by_email, claim_expires_at, updated_at')
+      .eq('id', itemId)
+      .single();
+
+    if (fetchError || !current) {
+      return { success: false, error: 'Moderation item not found' };
+    }
+
+    const activeClaim = toActiveClaim(current);
+    if (activeClaim && activeClaim.moderatorId !== actor.id) {
+      return {
+        success: false,
+        conflict: true,
+        error: `Item is being reviewed by ${activeClaim.moderatorEmail}`,
+      };
+    }
+
+    const now = new Date().toISOString();
+    const newStatus = ACTION_STATUS[action];
+    const historyEntry: ModerationHistoryEntry = {
+      id: crypto.randomUUID(),
+      action,
+      moderator: actor.email,
+      moderator_id: actor.id,
+      timestamp: now,
+      ...(reason ? { reason } : {}),
+    };
+
+    const history: ModerationHistoryEntry[] = Array.isArray(current.moderation_history)
+      ? current.moderation_history
+      : [];
+
+    // Conditional on updated_at so a concurrent action's history entry is not overwritten
+    const { data: updated, error: updateError } = await supabase
+      .from('moderation_items')
+      .update({
+        status: newStatus,
+        reason: reason || null,
+        reviewed_by: actor.id,
+        reviewed_at: now,
+        // A decision ends the reviewer's lease
+        claimed_by: null,
+        claimed_by_email: null,
+        claimed_at: null,
+        claim_expires_at: null,
+        moderation_history: [...history, historyEntry],
+        updated_at: now,
+      })
+      .eq('id', itemId)
+      .eq('updated_at', current.updated_at)
+      .select('id');
+
+    if (updateError) {
+      throw updateError;
+    }
+
+    if (!updated || updated.length === 0) {
+      return { success: false, conflict: true, error: CONCURRENT_UPDATE_ERROR };
+    }
+
+    // Feeds the repeat-offender rule of the auto-moderation engine
+    if (newStatus === 'rejected' || newStatus === 'flagged') {
+      const { error: activityError } = await supabase
+        .from('activity_logs')
+        .insert({
+          user_id: current.user_id,
+          action: `content_${newStatus}`,
+          metadata: { moderation_item_id: itemId, reason: reason || null },
+        });
+
+      if (activityError) {
+        console.error('Error recording offense activity:', activityError);
+      }
+    }
+
+    await recordAuditLog({
+      adminUserId: actor.id,
+      action: `moderation_${action}`,
+      resourceType: 'moderation_item',
+      resourceId: itemId,
+      oldValues: { status: current.status, reason: current.reason },
+      newValues: { status: newStatus, reason: reason || null },
+      metadata: { moderator: actor.email },
+      ipAddress: actor.ipAddress,
+      userAgent: actor.userAgent,
+    });
+
+    const item = await fetchModerationItemById(itemId);
+
+    return { success: true, item: item || undefined };
+  } catch (error) {
+    console.error(`Error applying moderation action "${action}":`, error);
+    return { success: false, error: `Failed to ${action} content` };
+  }
+}
+
+export async function claimModerationItem(
+  itemId: string,
+  actor: ModerationActor,
+  ttlMinutes: number = DEFAULT_CLAIM_TTL_MINUTES
+): Promise<ClaimModerationResult> {
+  try {
+    const claimedAt = new Date();
+    const expiresAt = new Date(claimedAt.getTime() + clampClaimTtl(ttlMinutes) * 60 * 1000);
+
+    // The conditional update is the lock: it only matches rows that are free,
+    // already held by this moderator or whose lease has lapsed
+    const { data, error } = await supabase
+      .from('moderation_items')
+      .update({
+        claimed_by: actor.id,
+        claimed_by_email: actor.email,
+        claimed_at: claimedAt.toISOString(),
+        claim_expires_at: expiresAt.toISOString(),
+      })
+      .eq('id', itemId)
+      .or(`claimed_by.is.null,claimed_by.eq.${actor.id},claim_expires_at.lt.${claimedAt.toISOString()}`)
+      .select('claimed_by, claimed_by_email, claimed_at, claim_expires_at');
+
+    if (error) {
+      throw error;
+    }
+
+    if (data && data.length > 0) {
+      return { success: true, claim: toActiveClaim(data[0]) };
+    }
+
+    const { data: existing } = await supabase
+      .from('moderation_items')
+      .select('claimed_by, claimed_by_email, claimed_at, claim_expires_at')
+      .eq('id', itemId)
+      .single();
+
+    if (!existing) {
+      return { success: false, error: 'Moderation item not found' };
+    }
+
+    const heldBy = toActiveClaim(existing);
+    return {
+      success: false,
+      conflict: true,
+      claim: heldBy,
+      error: `Item is being reviewed by ${heldBy?.moderatorEmail || 'another moderator'}`,
+    };
+  } catch (error) {
+    console.error('Error claiming moderation item:', error);
+    return { success: false, error: 'Failed to claim moderation item' };
+  }
+}
+
+export async function releaseModerationItem(
+  itemId: string,
+  actor: ModerationActor,
+  options: { force?: boolean } = {}
+): Promise<ClaimModerationResult> {
+  try {
+    let query = supabase
+      .from('moderation_items')
+      .update({
+        claimed_by: null,
+        claimed_by_email: null,
+        claimed_at: null,
+        claim_expires_at: null,
+      })
+      .eq('id', itemId);
+
+    if (!options.force) {
+      query = query.eq('claimed_by', actor.id);
+    }
+
+    const { data, error } = await query.select('id');
+
+    if (error) {
+      throw error;
+    }
+
+    if (!data || data.length === 0) {
+      const item = await fetchModerationItemById(itemId);
+      if (!item) {
+        return { success: false, error: 'Moderation item not found' };
+      }
+      if (item.claim) {
+        return { success: false, conflict: true, claim: item.claim, error: 'Item is claimed by another moderator' };
+      }
+    }
+
+    return { success: true, claim: null };
+  } catch (error) {
+    console.error('Error releasing moderation item:', error);
+    return { success: false, error: 'Failed to release moderation item' };
+  }
+}
+
+/**
+ * Hand a moderation item to another admin
+ *
+ * The assignee must be an active admin who can review moderation items; their
+ * email is taken from admin_users rather than from the caller.
+ */
+export async function reassignModerationItem(
+  itemId: string,
+  assigneeId: string,
+  supervisor: ModerationActor,
+  ttlMinutes: number = DEFAULT_CLAIM_TTL_MINUTES
+): Promise<ClaimModerationResult> {
+  try {
+    const { data: assignee, error: assigneeError } = await supabase
+      .from('admin_users')
+      .select('id, email, role, custom_role_id, permissions, is_active')
+      .eq('id', assigneeId)
+      .maybeSingle();
+
+    if (assigneeError) {
+      throw assigneeError;
+    }
+
+    if (!assignee || !assignee.is_active) {
+      return { success: false, error: 'Assignee is not an active admin', status: 400 };
+    }
+
+    const { permissions } = await resolveAdminPermissions(assignee);
+    const { resource, action } = PERMISSIONS.MODERATION_REVIEW;
+    if (!RBACManager.hasPermissionIn(permissions, resource, action)) {
+      return { success: false, error: 'Assignee cannot review moderation items', status: 400 };
+    }
+
+    const { data: current, error: fetchError } = await supabase
+      .from('moderation_items')
+      .select('id, moderation_history, claimed_by, claimed_by_email, claimed_at, claim_expires_at, updated_at')
+      .eq('id', itemId)
+      .single();
+
+    if (fetchError || !current) {
+      return { success: false, error: 'Moderation item not found' };
+    }
+
+    const previousClaim = toActiveClaim(current);
+    const claimedAt = new Date();
+    const expiresAt = new Date(claimedAt.getTime() + clampClaimTtl(ttlMinutes) * 60 * 1000);
+
+    const historyEntry: ModerationHistoryEntry = {
+      id: crypto.randomUUID(),
+      action: 'reassign',
+      moderator: supervisor.email,
+      moderator_id: supervisor.id,
+      timestamp: claimedAt.toISOString(),
+      reason: previousClaim
+        ? `Reassigned from ${previousClaim.moderatorEmail} to ${assignee.email}`
+        : `Assigned to ${assignee.email}`,
+    };
+
+    const history: ModerationHistoryEntry[] = Array.isArray(current.moderation_history)
+      ? current.moderation_history
+      : [];
+
+    const { data: updated, error: updateError } = await supabase
+      .from('moderation_items')
+      .update({
+        claimed_by: assignee.id,
+        claimed_by_email: assignee.email,
+        claimed_at: claimedAt.toISOString(),
+        claim_expires_at: expiresAt.toISOString(),
+        moderation_history: [...history, historyEntry],
+        updated_at: claimedAt.toISOString(),
+      })
+      .eq('id', itemId)
+      .eq('updated_at', current.updated_at)
+      .select('id');
+
+    if (updateError) {
+      throw updateError;
+    }
+
+    if (!updated || updated.length === 0) {
+      return { success: false, conflict: true, error: CONCURRENT_UPDATE_ERROR };
+    }
+
+    await recordAuditLog({
+      adminUserId: supervisor.id,
+      action: 'moderation_reassign',
+      resourceType: 'moderation_item',
+      resourceId: itemId,
+      oldValues: { claimed_by: previousClaim?.moderatorId || null },
+      newValues: { claimed_by: assignee.id },
+      metadata: {
+        supervisor: supervisor.email,
+        previous_reviewer: previousClaim?.moderatorEmail || null,
+        assignee: assignee.email,
+      },
+      ipAddress: supervisor.ipAddress,
+      userAgent: supervisor.userAgent,
+    });
+
+    return {
+      success: true,
+      claim: {
+        moderatorId: assignee.id,
+        moderatorEmail: assignee.email,
+        claimedAt: claimedAt.toISOString(),
+        expiresAt: expiresAt.toISOString(),
+      },
+    };
+  } catch (error) {
+    console.error('Error reassigning moderation item:', error);
+    return { success: false, error: 'Failed to reassign moderation item' };
+  }
+}
+
+export async function validateModerationFilters(
+  filters: ModerationFilters = {}
+): Promise<{ isValid: boolean; errors?: string[] }> {
+  const errors: string[] = [];
+
+  if (filters.type && filters.type !== 'all' && !VALID_TYPES.includes(filters.type as ModerationContentType)) {
+    errors.push('Invalid content type');
+  }
+
+  if (filters.status && filters.status !== 'all' && !VALID_STATUSES.includes(filters.status as ModerationStatus)) {
+    errors.push('Invalid status');
+  }
+
+  if (filters.priority && filters.priority !== 'all' && !VALID_PRIORITIES.includes(filters.priority as ModerationPriority)) {
+    errors.push('Invalid priority');
+  }
+
+  if (filters.sortBy && !VALID_SORTS.includes(filters.sortBy)) {
+    errors.push('Invalid sort option');
+  }
+
+  if (filters.page !== undefined && filters.page < 1) {
+    errors.push('Page must be greater than 0');
+  }
+
+  if (filters.limit !== undefined && (filters.limit < 1 || filters.limit > 100)) {
+    errors.push('Limit must be between 1 and 100');
+  }
+
+  return {
+    isValid: errors.length === 0,
+    errors: errors.length > 0 ? errors : undefined,
+  };
+}
+
+function mapModerationItem(row: any): ModerationItem {
+  const author = Array.isArray(row.author) ? row.author[0] : row.author;
+  const authorName = author?.full_name || author?.email?.split('@')[0] || 'Unknown user';
+
+  return {
+    id: row.id,
+    type: row.content_type,
+    status: row.status,
+    priority: row.priority || 'medium',
+    title: row.title,
+    description: row.description || '',
+    author: {
+      id: row.user_id,
+      name: authorName,
+      email: author?.email || '',
+      avatar: author?.avatar_url || `https://ui-avatars.com/api/?name=${encodeURIComponent(authorName)}`,
+    },
+    content: row.content || {},
+    reports: row.reports_count || 0,
+    reason: row.reason || undefined,
+    created_at: row.created_at,
+    reported_at: row.reported_at || undefined,
+    reviewed_at: row.reviewed_at || undefined,
+    claim: toActiveClaim(row),
+    moderation_history: Array.isArray(row.moderation_history) ? row.moderation_history : [],
+  };
+}
+
+function toActiveClaim(row: any): ModerationClaim | null {
+  if (!row?.claimed_by || !row.claim_expires_at) {
+    return null;
+  }
+
+  // Expired leases are treated as if the item was never claimed
+  if (new Date(row.claim_expires_at).getTime() <= Date.now()) {
+    return null;
+  }
+
+  return {
+    moderatorId: row.claimed_by,
+    moderatorEmail: row.claimed_by_email || 'another moderator',
+    claimedAt: row.claimed_at || row.claim_expires_at,
+    expiresAt: row.claim_expires_at,
+  };
+}
+
+function clampClaimTtl(ttlMinutes: number): number {
+  if (!Number.isFinite(ttlMinutes) || ttlMinutes <= 0) {
+    return DEFAULT_CLAIM_TTL_MINUTES;
+  }
+  return Math.min(MAX_CLAIM_TTL_MINUTES, ttlMinutes);
+}
+
+function formatDuration(ms: number): string {
+  if (ms <= 0) {
+    return '-';
+  }
+
+  const totalMinutes = Math.round(ms / 60000);
+  if (totalMinutes < 1) {
+    return '<1m';
+  }
+
+  const hours = Math.floor(totalMinutes / 60);
+  const minutes = totalMinutes % 60;
+
+  if (hours === 0) {
+    return `${minutes}m`;
+  }
+
+  return minutes > 0 ? `${hours}h ${minutes}m` : `${hours}h`;
+}
@@ -0,0 +1,170 @@
+import { createClient } from '@supabase/supabase-js';
+import { createServiceRoleClient } from '@/lib/supabase/server';
+import { recordAuditLog } from '@/lib/admin/audit-logs';
+import { checkLoginAllowed, clearAccountFailures, getLockoutPolicy, recordLoginFailure } from '@/lib/admin/login-lockout';
+import { PasswordPolicyManager } from '@/lib/auth/password-policy';
+
+/**
+ * Admins changing their own password
+ *
+ * The current password is confirmed first, and wrong guesses count towards
+ * the same lockout as failed sign-ins, so a left-open dashboard cannot be
+ * used to take the account over. Changes are audited as `password_change`.
+ */
+
+export interface PasswordChangeInput {
+  currentPassword: string;
+  newPassword: string;
+}
+
+export interface PasswordActor {
+  id: string;
+  email: string;
+  sessionId?: string | null;
+  ipAddress?: string | null;
+  userAgent?: string | null;
+}
+
+export interface PasswordChangeResult {
+  success: boolean;
+  error?: string;
+  // Policy violations, listed for the form
+  errors?: string[];
+  status?: number;
+  retryAfterSeconds?: number;
+}
+
+/**
+ * Validate a change-password request body
+ */
+export function validatePasswordChangeInput(body: any): { isValid: boolean; errors?: string[]; input?: PasswordChangeInput } {
+  const errors: string[] = [];
+
+  if (!body || typeof body !== 'object') {
+    return { isValid: false, errors: ['Request body must be an object'] };
+  }
+
+  if (typeof body.currentPassword !== 'string' || !body.currentPassword) {
+    errors.push('Current password is required');
+  }
+
+  if (typeof body.newPassword !== 'string' || !body.newPassword) {
+    errors.push('New password is required');
+  }
+
+  if (errors.length > 0) {
+    return { isValid: false, errors };
+  }
+
+  return {
+    isValid: true,
+    input: { currentPassword: body.currentPassword, newPassword: body.newPassword },
+  };
+}
+
+/**
+ * Change the actor's own password after confirming the current one
+ */
+export async function changeAdminPassword(
+  input: PasswordChangeInput,
+  actor: PasswordActor
+): Promise<PasswordChangeResult> {
+  try {
+    const lockoutPolicy = await getLockoutPolicy();
+    const check = await checkLoginAllowed(actor.email, actor.ipAddress || null, lockoutPolicy);
+
+    if (!check.allowed) {
+      return {
+        success: false,
+        status: 429,
+        error: 'Too many incorrect passwords. Try again later.',
+        retryAfterSeconds: check.retryAfterSeconds,
+      };
+    }
+
+    if (!await confirmPassword(actor.email, input.currentPassword)) {
+      await recordLoginFailure(actor.email, actor.ipAddress || null, actor.id, lockoutPolicy);
+
+      await recordAuditLog({
+        adminUserId: actor.id,
+        action: 'password_change',
+        resourceType: 'admin_user',
+        resourceId: actor.id,
+        ipAddress: actor.ipAddress,
+        userAgent: actor.userAgent,
+        sessionId: actor.sessionId,
+        success: false,
+        errorMessage: 'Current password is incorrect',
+      });
+
+      return { success: false, status: 400, error: 'Current password is incorrect' };
+    }
+
+    await clearAccountFailures(actor.email);
+
+    if (input.newPassword === input.currentPassword) {
+      return { success: false, status: 400, error: 'Choose a password different from your current one' };
+    }
+
+    const serviceClient = createServiceRoleClient();
+    const { data: admin } = await serviceClient
+      .from('admin_users')
+      .select('full_name')
+      .eq('id', actor.id)
+      .single() as { data: { full_name: string | null } | null };
+
+    const policyCheck = await PasswordPolicyManager.checkPassword(input.newPassword, {
+      adminUserId: actor.id,
+      email: actor.email,
+      fullName: admin?.full_name,
+    });
+
+    if (!policyCheck.isValid) {
+      return { success: false, status: 400, error: 'Password does not meet the policy', errors: policyCheck.errors };
+    }
+
+    const { error: updateError } = await serviceClient.auth.admin.updateUserById(actor.id, {
+      password: input.newPassword,
+    });
+
+    if (updateError) {
+      console.error('Error updating admin password:', updateError);
+      return { success: false, status: 500, error: 'Failed to change password' };
+    }
+
+    await PasswordPolicyManager.recordPasswordChange(actor.id, input.newPassword);
+
+    await recordAuditLog({
+      adminUserId: actor.id,
+      action: 'password_change',
+      resourceType: 'admin_user',
+      resourceId: actor.id,
+      metadata: { email: actor.email },
+      ipAddress: actor.ipAddress,
+      userAgent: actor.userAgent,
+      sessionId: actor.sessionId,
+    });
+
+    return { success: true };
+  } catch (error) {
+    console.error('Error changing admin password:', error);
+    return { success: false, status: 500, error: 'Failed to change password' };
+  }
+}
+
+// Checked on a throwaway client so the caller's own session is left alone
+async function confirmPassword(email: string, password: string): Promise<boolean> {
+  const client = createClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+    { auth: { autoRefreshToken: false, persistSession: false } }
+  );
+
+  const { data, error } = await client.auth.signInWithPassword({ email, password });
+  if (error || !data.session) {
+    return false;
+  }
+
+  await client.auth.signOut({ scope: 'local' });
+  return true;
+}
@@ -0,0 +1,124 @@
+import { Worker } from 'node:worker_threads';
+
+/**
+ * Regex matching off the main thread
+ *
+ * JavaScript regexes backtrack, and no static check catches every pattern
+ * that can take exponential time. Admin-written patterns therefore run in a
+ * worker thread: a match that outlives its time limit terminates the worker,
+ * so a bad pattern costs one timeout instead of blocking the event loop. A
+ * fresh worker is started for the next match.
+ */
+
+export const REGEX_MATCH_TIMEOUT_MS = 100;
+
+// Plain CommonJS evaluated in the worker, so it needs no bundling
+const WORKER_SOURCE = `
+const { parentPort } = require('node:worker_threads');
+parentPort.on('message', ({ id, pattern, flags, text }) => {
+  try {
+    parentPort.postMessage({ id, matched: new RegExp(pattern, flags).test(text) });
+  } catch (error) {
+    parentPort.postMessage({ id, error: error instanceof Error ? error.message : String(error) });
+  }
+});
+`;
+
+export class RegexTimeoutError extends Error {
+  constructor(pattern: string, timeoutMs: number) {
+    super(`Pattern /${pattern}/ did not finish within ${timeoutMs}ms`);
+    this.name = 'RegexTimeoutError';
+  }
+}
+
+interface PendingMatch {
+  resolve: (matched: boolean) => void;
+  reject: (error: Error) => void;
+  timer: NodeJS.Timeout;
+}
+
+interface WorkerReply {
+  id: number;
+  matched?: boolean;
+  error?: string;
+}
+
+let worker: Worker | null = null;
+let nextId = 0;
+const pending = new Map<number, PendingMatch>();
+
+/**
+ * Test a pattern against text in the worker, rejecting with RegexTimeoutError
+ * when it takes longer than timeoutMs
+ */
+export function matchRegex(
+  pattern: string,
+  flags: string,
+  text: string,
+  timeoutMs: number = REGEX_MATCH_TIMEOUT_MS
+): Promise<boolean> {
+  const id = nextId++;
+  const current = startWorker();
+
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(() => {
+      pending.delete(id);
+      // The worker is stuck in this match; matches queued behind it fail with it
+      stopWorker(new Error('Regex worker restarted after a timed out match'));
+      reject(new RegexTimeoutError(pattern, timeoutMs));
+    }, timeoutMs);
+
+    pending.set(id, { resolve, reject, timer });
+    current.postMessage({ id, pattern, flags, text });
+  });
+}
+
+/**
+ * Terminate the worker, failing any matches still waiting on it
+ */
+export function stopWorker(reason: Error = new Error('Regex worker stopped')): void {
+  const stopped = worker;
+  worker = null;
+
+  pending.forEach(match => {
+    clearTimeout(match.timer);
+    match.reject(reason);
+  });
+  pending.clear();
+
+  stopped?.terminate();
+}
+
+function startWorker(): Worker {
+  if (worker) {
+    return worker;
+  }
+
+  const started = new Worker(WORKER_SOURCE, { eval: true });
+  // Pending matches hold timers, so an idle worker alone never keeps the process alive
+  started.unref();
+
+  started.on('message', ({ id, matched, error }: WorkerReply) => {
+    const match = pending.get(id);
+    if (!match) return;
+
+    pending.delete(id);
+    clearTimeout(match.timer);
+    if (error !== undefined) {
+      match.reject(new Error(error));
+    } else {
+      match.resolve(Boolean(matched));
+    }
+  });
+
+  started.on('error', error => {
+    if (worker === started) stopWorker(error);
+  });
+
+  started.on('exit', () => {
+    if (worker === started) stopWorker(new Error('Regex worker exited'));
+  });
+
+  worker = started;
+  return started;
+}
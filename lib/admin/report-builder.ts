@@ -0,0 +1,657 @@
+import { supabase } from '@/lib/supabase';
+import {
+  bindParameters,
+  bindReportQuery,
+  MAX_REPORT_ROWS,
+  type ReportParameterDefinition,
+} from '@/lib/admin/report-engine';
+import {
+  DATA_SOURCES,
+  REPORT_QUERY_SCHEMA,
+  resolveQueryField,
+  type DataSource,
+  type FieldType,
+  type ReportQuery,
+} from '@/lib/report-query';
+import {
+  fetchReportVersion,
+  recordInitialVersion,
+  rollbackToVersion,
+  saveReportVersion,
+  type SaveReportVersionResult,
+} from '@/lib/admin/report-versions';
+import type { ReportTemplate } from '@/lib/types/database.types';
+
+/**
+ * Server side of the report builder
+ *
+ * A ReportQuery from the builder is checked against REPORT_QUERY_SCHEMA and
+ * compiled to a single SELECT. It compiles to SQL rather than PostgREST
+ * calls because joins between sources and grouped aggregates cannot be
+ * expressed as PostgREST filters. Only whitelisted tables, columns and
+ * joins are emitted, every identifier is quoted, and filter values become
+ * named template parameters (`:filter_1`) that execute_report_query binds,
+ * so nothing the client sends is spliced into the SQL.
+ *
+ * Saving stores the SQL as a report_templates row whose parameters default
+ * to the builder's filter values, so reports and schedules using the
+ * template run through the normal report engine and can override them.
+ */
+
+export const REPORT_PREVIEW_ROW_CAP = parseInt(process.env.REPORT_PREVIEW_ROW_CAP || '50');
+
+const ALIAS_PATTERN = /^[A-Za-z_][A-Za-z0-9_]{0,62}$/;
+
+export interface CompiledReportQuery {
+  sql: string;
+  parameters: ReportParameterDefinition[];
+  columns: string[];
+}
+
+export interface CompileReportQueryOptions {
+  // Lower the query's own limit, e.g. for previews
+  maxRows?: number;
+}
+
+export interface ReportQueryValidation {
+  isValid: boolean;
+  errors?: string[];
+}
+
+export interface ReportQueryPreview {
+  success: boolean;
+  columns?: string[];
+  rows?: Record<string, any>[];
+  truncated?: boolean;
+  sql?: string;
+  error?: string;
+  details?: string[];
+  status?: number;
+}
+
+export interface SaveReportQueryResult {
+  success: boolean;
+  template?: ReportTemplate;
+  // Version created by an update, absent when nothing changed
+  version?: number;
+  error?: string;
+  details?: string[];
+  status?: number;
+}
+
+/**
+ * Changes to a report template; each one is recorded as a new version
+ */
+export interface UpdateReportTemplateRequest {
+  name?: string;
+  description?: string | null;
+  isActive?: boolean;
+  // Builder templates: recompiles sql_query and the parameters
+  query?: ReportQuery;
+  // Hand-written templates
+  sqlQuery?: string;
+  parameters?: ReportParameterDefinition[];
+  chartConfig?: Record<string, any>;
+  // Note stored with the new version
+  changeSummary?: string;
+}
+
+export interface ReportTemplateEditOptions {
+  // Caller holds reports:sql and may change hand-written SQL
+  allowRawSql?: boolean;
+}
+
+const RAW_SQL_FORBIDDEN = 'Changing the SQL of a hand-written template requires the reports:sql permission';
+
+/**
+ * Thrown by compileReportQuery with every problem found in the query
+ */
+export class ReportQueryError extends Error {
+  constructor(public readonly errors: string[]) {
+    super(errors[0] || 'Invalid report query');
+    this.name = 'ReportQueryError';
+  }
+}
+
+export function validateReportQuery(input: unknown): ReportQueryValidation {
+  try {
+    compileReportQuery(input);
+    return { isValid: true };
+  } catch (error) {
+    if (error instanceof ReportQueryError) {
+      return { isValid: false, errors: error.errors };
+    }
+    throw error;
+  }
+}
+
+/**
+ * Compile a builder query to SQL with named parameters
+ */
+export function compileReportQuery(input: unknown, options: CompileReportQueryOptions = {}): CompiledReportQuery {
+  const query = (input && typeof input === 'object' ? input : {}) as Partial<ReportQuery>;
+  const errors: string[] = [];
+
+  // Sources and joins
+  const requested = Array.isArray(query.dataSources) ? Array.from(new Set(query.dataSources)) : [];
+  const sources = requested.filter(source => DATA_SOURCES.includes(source));
+
+  requested
+    .filter(source => !DATA_SOURCES.includes(source))
+    .forEach(source => errors.push(`Unknown data source "${String(source)}"`));
+
+  if (requested.length === 0) {
+    errors.push('Choose at least one data source');
+  }
+
+  const fromClause = sources.map((source, index) => {
+    const table = `${quote(REPORT_QUERY_SCHEMA[source].table)} AS ${quote(source)}`;
+    if (index === 0) {
+      return `FROM ${table}`;
+    }
+
+    const joined = sources.slice(0, index);
+    const partner = joined.find(other => REPORT_QUERY_SCHEMA[source].joins[other]);
+    if (!partner) {
+      errors.push(`${sourceLabel(source)} cannot be combined with ${joined.map(sourceLabel).join(', ')}`);
+      return '';
+    }
+
+    const [own, theirs] = REPORT_QUERY_SCHEMA[source].joins[partner]!;
+    return `LEFT JOIN ${table} ON ${quote(source)}.${quote(own)} = ${quote(partner)}.${quote(theirs)}`;
+  });
+
+  const resolve = (reference: unknown, purpose: string) => {
+    const resolved = typeof reference === 'string' ? resolveQueryField(reference) : null;
+    if (!resolved || !sources.includes(resolved.source)) {
+      errors.push(`Unknown ${purpose} field "${String(reference)}"`);
+      return null;
+    }
+    return { ...resolved, reference: reference as string };
+  };
+
+  const outputName = (source: DataSource, name: string) => (sources.length > 1 ? `${source}_${name}` : name);
+
+  // Selected columns, grouping and aggregates
+  const select: string[] = [];
+  const columns: string[] = [];
+  // Field references and aliases that ORDER BY may use, by output column
+  const orderable = new Map<string, string>();
+
+  const addColumn = (expression: string, name: string, ...references: string[]) => {
+    if (columns.includes(name)) {
+      errors.push(`Column "${name}" appears more than once`);
+      return;
+    }
+    select.push(`${expression} AS ${quote(name)}`);
+    columns.push(name);
+    [name, ...references].forEach(reference => orderable.set(reference, name));
+  };
+
+  const groups = Array.isArray(query.aggregations) ? query.aggregations : [];
+  const groupRefs = Array.from(new Set([
+    ...(Array.isArray(query.groupBy) ? query.groupBy : []),
+    ...groups.map(group => group?.field),
+  ].filter(Boolean)));
+  const aggregations = groups.flatMap(group => (Array.isArray(group?.aggregations) ? group.aggregations : []));
+  const selectedFields = Array.isArray(query.selectedFields) ? query.selectedFields : [];
+  const grouped = groupRefs.length > 0 || aggregations.length > 0;
+  const groupBy: string[] = [];
+
+  if (grouped) {
+    selectedFields
+      .filter(reference => !groupRefs.includes(reference))
+      .forEach(reference => errors.push(`"${reference}" must be grouped or aggregated`));
+
+    groupRefs.forEach(reference => {
+      const resolved = resolve(reference, 'group by');
+      if (!resolved) return;
+
+      const expression = columnExpression(resolved.source, resolved.field);
+      groupBy.push(expression);
+      addColumn(expression, outputName(resolved.source, resolved.field.name), resolved.reference);
+    });
+
+    aggregations.forEach(aggregation => {
+      const compiled = compileAggregation(aggregation, sources, errors);
+      if (compiled) addColumn(compiled.expression, compiled.alias);
+    });
+  } else {
+    const references = selectedFields.length > 0
+      ? selectedFields
+      : sources.flatMap(source => REPORT_QUERY_SCHEMA[source].fields.map(field => `${source}.${field.name}`));
+
+    references.forEach(reference => {
+      const resolved = resolve(reference, 'selected');
+      if (!resolved) return;
+
+      addColumn(
+        columnExpression(resolved.source, resolved.field),
+        outputName(resolved.source, resolved.field.name),
+        resolved.reference
+      );
+    });
+  }
+
+  // Filters become parameters so their values are bound, never spliced
+  const conditions: string[] = [];
+  const parameters: ReportParameterDefinition[] = [];
+
+  const addParameter = (name: string, type: FieldType, value: unknown, label: string) => {
+    const definition = { name, type, required: true, default: value };
+    try {
+      bindParameters([definition], {});
+      parameters.push(definition);
+    } catch (error) {
+      errors.push(`Filter on ${label}: ${error instanceof Error ? error.message.replace(`Parameter "${name}"`, 'value') : 'invalid value'}`);
+    }
+    return placeholder(name, type);
+  };
+
+  (Array.isArray(query.filters) ? query.filters : []).forEach((filter, index) => {
+    const resolved = resolve(filter?.field, 'filter');
+    if (!resolved) return;
+
+    const { field } = resolved;
+    const label = `"${field.label}"`;
+    const name = `filter_${index + 1}`;
+    const column = columnExpression(resolved.source, field);
+    const ordered = field.type === 'number' || field.type === 'date';
+
+    switch (filter.operator) {
+      case 'equals':
+      case 'not_equals':
+        if (Array.isArray(filter.value)) {
+          errors.push(`Filter on ${label} takes a single value`);
+          return;
+        }
+        conditions.push(`${column} ${filter.operator === 'equals' ? '=' : '<>'} ${addParameter(name, field.type, filter.value, label)}`);
+        return;
+
+      case 'contains':
+        if (field.type !== 'string' || Array.isArray(filter.value)) {
+          errors.push(`Filter on ${label} cannot use "contains"`);
+          return;
+        }
+        // Wildcards in the value match literally
+        conditions.push(`${column} ILIKE '%' || replace(replace(replace(${addParameter(name, field.type, filter.value, label)}, '\\', '\\\\'), '%', '\\%'), '_', '\\_') || '%'`);
+        return;
+
+      case 'greater_than':
+      case 'less_than':
+        if (!ordered || Array.isArray(filter.value)) {
+          errors.push(`Filter on ${label} cannot use "${filter.operator.replace('_', ' ')}"`);
+          return;
+        }
+        conditions.push(`${column} ${filter.operator === 'greater_than' ? '>' : '<'} ${addParameter(name, field.type, filter.value, label)}`);
+        return;
+
+      case 'between':
+        if (!ordered || !Array.isArray(filter.value) || filter.value.length !== 2) {
+          errors.push(`Filter on ${label} needs a from and to value for "between"`);
+          return;
+        }
+        conditions.push(`${column} BETWEEN ${addParameter(`${name}_from`, field.type, filter.value[0], label)} AND ${addParameter(`${name}_to`, field.type, filter.value[1], label)}`);
+        return;
+
+      default:
+        errors.push(`Unknown filter operator "${String(filter?.operator)}"`);
+    }
+  });
+
+  // Ordering and limit
+  const orderBy = (Array.isArray(query.orderBy) ? query.orderBy : []).map(order => {
+    const column = orderable.get(order?.field);
+    if (!column) {
+      errors.push(`Cannot order by "${String(order?.field)}" because it is not in the results`);
+      return '';
+    }
+    return `${quote(column)} ${order.direction === 'desc' ? 'DESC' : 'ASC'}`;
+  });
+
+  let limit = MAX_REPORT_ROWS;
+  if (query.limit !== undefined && query.limit !== null) {
+    if (!Number.isInteger(query.limit) || query.limit < 1 || query.limit > MAX_REPORT_ROWS) {
+      errors.push(`Limit must be a whole number between 1 and ${MAX_REPORT_ROWS}`);
+    } else {
+      limit = query.limit;
+    }
+  }
+
+  if (errors.length > 0) {
+    throw new ReportQueryError(errors);
+  }
+
+  const sql = [
+    `SELECT ${select.join(', ')}`,
+    ...fromClause,
+    ...(conditions.length > 0 ? [`WHERE ${conditions.join(' AND ')}`] : []),
+    ...(groupBy.length > 0 ? [`GROUP BY ${groupBy.join(', ')}`] : []),
+    ...(orderBy.length > 0 ? [`ORDER BY ${orderBy.join(', ')}`] : []),
+    `LIMIT ${Math.min(limit, options.maxRows || limit)}`,
+  ].join('\n');
+
+  return { sql, parameters, columns };
+}
+
+/**
+ * Run a builder query and return its first rows
+ */
+export async function previewReportQuery(
+  input: unknown,
+  rowCap: number = REPORT_PREVIEW_ROW_CAP
+): Promise<ReportQueryPreview> {
+  let compiled: CompiledReportQuery;
+
+  try {
+    // One extra row tells us whether the preview was cut short
+    compiled = compileReportQuery(input, { maxRows: rowCap + 1 });
+  } catch (error) {
+    if (error instanceof ReportQueryError) {
+      return { success: false, error: 'Invalid report query', details: error.errors, status: 400 };
+    }
+    throw error;
+  }
+
+  const { query, params } = bindReportQuery(compiled.sql, bindParameters(compiled.parameters, {}));
+  const { data, error } = await supabase.rpc('execute_report_query', { query, params });
+
+  if (error) {
+    console.error('Error previewing report query:', error);
+    return { success: false, error: `Report query failed: ${error.message}`, status: 500 };
+  }
+
+  const rows: Record<string, any>[] = Array.isArray(data) ? data : [];
+
+  return {
+    success: true,
+    columns: compiled.columns,
+    rows: rows.slice(0, rowCap),
+    truncated: rows.length > rowCap,
+    sql: compileReportQuery(input).sql,
+  };
+}
+
+/**
+ * Save a builder query as a report template
+ */
+export async function saveReportQueryTemplate(input: unknown, createdBy: string): Promise<SaveReportQueryResult> {
+  let compiled: CompiledReportQuery;
+
+  try {
+    compiled = compileReportQuery(input);
+  } catch (error) {
+    if (error instanceof ReportQueryError) {
+      return { success: false, error: 'Invalid report query', details: error.errors, status: 400 };
+    }
+    throw error;
+  }
+
+  const query = input as ReportQuery;
+  const name = typeof query.name === 'string' ? query.name.trim() : '';
+
+  if (!name) {
+    return { success: false, error: 'Name is required', status: 400 };
+  }
+
+  if (name.length > 255) {
+    return { success: false, error: 'Name is too long (maximum 255 characters)', status: 400 };
+  }
+
+  const { data: existing } = await supabase
+    .from('report_templates')
+    .select('id')
+    .eq('name', name)
+    .maybeSingle();
+
+  if (existing) {
+    return { success: false, error: 'Report template with this name already exists', status: 409 };
+  }
+
+  const { data, error } = await supabase
+    .from('report_templates')
+    .insert({
+      name,
+      description: typeof query.description === 'string' ? query.description.trim() || null : null,
+      template_type: 'custom',
+      configuration: {
+        builder: query,
+        parameters: compiled.parameters,
+        columns: compiled.columns,
+      },
+      sql_query: compiled.sql,
+      chart_config: {},
+      is_active: true,
+      version: 1,
+      created_by: createdBy,
+      updated_by: createdBy,
+    })
+    .select()
+    .single();
+
+  if (error) {
+    console.error('Error saving report template:', error);
+    return { success: false, error: 'Failed to save report template', status: 500 };
+  }
+
+  await recordInitialVersion('template', data, createdBy);
+
+  return { success: true, template: data as ReportTemplate };
+}
+
+/**
+ * Edit a report template, recording the result as a new version
+ */
+export async function updateReportTemplate(
+  templateId: string,
+  requestData: UpdateReportTemplateRequest,
+  updatedBy: string,
+  options: ReportTemplateEditOptions = {}
+): Promise<SaveReportQueryResult> {
+  const { data: current, error } = await supabase
+    .from('report_templates')
+    .select('id, configuration, sql_query')
+    .eq('id', templateId)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error loading report template:', error);
+    return { success: false, error: 'Failed to load report template', status: 500 };
+  }
+
+  if (!current) {
+    return { success: false, error: 'Report template not found', status: 404 };
+  }
+
+  const changes: Record<string, any> = {};
+  const configuration = current.configuration || {};
+
+  if (requestData.name !== undefined) {
+    const name = requestData.name.trim();
+    if (!name || name.length > 255) {
+      return { success: false, error: 'Name must be between 1 and 255 characters', status: 400 };
+    }
+    changes.name = name;
+  }
+
+  if (requestData.description !== undefined) changes.description = requestData.description?.trim() || null;
+  if (requestData.isActive !== undefined) changes.is_active = requestData.isActive;
+  if (requestData.chartConfig !== undefined) changes.chart_config = requestData.chartConfig;
+
+  if (requestData.query !== undefined) {
+    if (!configuration.builder) {
+      return { success: false, error: 'Only report builder templates can be edited with a builder query', status: 400 };
+    }
+
+    try {
+      const compiled = compileReportQuery(requestData.query);
+      changes.sql_query = compiled.sql;
+      changes.configuration = {
+        ...configuration,
+        builder: requestData.query,
+        parameters: compiled.parameters,
+        columns: compiled.columns,
+      };
+    } catch (compileError) {
+      if (compileError instanceof ReportQueryError) {
+        return { success: false, error: 'Invalid report query', details: compileError.errors, status: 400 };
+      }
+      throw compileError;
+    }
+  } else if (requestData.sqlQuery !== undefined || requestData.parameters !== undefined) {
+    // The builder query is the source of truth for its SQL
+    if (configuration.builder) {
+      return { success: false, error: 'Edit report builder templates through their query', status: 400 };
+    }
+
+    if (requestData.sqlQuery !== undefined && requestData.sqlQuery !== current.sql_query && !options.allowRawSql) {
+      return { success: false, error: RAW_SQL_FORBIDDEN, status: 403 };
+    }
+
+    const sql = requestData.sqlQuery ?? current.sql_query ?? '';
+    const parameters: ReportParameterDefinition[] = requestData.parameters ?? configuration.parameters ?? [];
+
+    try {
+      // Checks the statement and that every placeholder is declared
+      bindReportQuery(sql, Object.fromEntries(parameters.map(parameter => [parameter.name, null])));
+    } catch (queryError) {
+      return { success: false, error: queryError instanceof Error ? queryError.message : 'Invalid query', status: 400 };
+    }
+
+    changes.sql_query = sql;
+    changes.configuration = { ...configuration, parameters };
+  }
+
+  const result = await saveReportVersion('template', templateId, changes, updatedBy, {
+    summary: requestData.changeSummary?.trim() || undefined,
+  });
+
+  if (!result.success) {
+    return { success: false, error: result.error, status: result.status };
+  }
+
+  return { success: true, template: result.row as ReportTemplate, version: result.version?.version };
+}
+
+/**
+ * Roll a template back to an earlier version
+ *
+ * Restoring different hand-written SQL counts as writing it. Builder
+ * templates are exempt when their SQL still compiles from the saved query.
+ */
+export async function rollbackReportTemplate(
+  templateId: string,
+  version: number,
+  updatedBy: string,
+  options: ReportTemplateEditOptions = {}
+): Promise<SaveReportVersionResult> {
+  if (!options.allowRawSql) {
+    const [target, { data: current }] = await Promise.all([
+      fetchReportVersion('template', templateId, version),
+      supabase.from('report_templates').select('sql_query').eq('id', templateId).maybeSingle(),
+    ]);
+
+    const sql = target?.snapshot.sql_query ?? null;
+    if (target && current && sql !== current.sql_query && !isCompiledBuilderSql(target.snapshot)) {
+      return { success: false, error: RAW_SQL_FORBIDDEN, status: 403 };
+    }
+  }
+
+  return rollbackToVersion('template', templateId, version, updatedBy);
+}
+
+function isCompiledBuilderSql(definition: Record<string, any>): boolean {
+  const builder = definition.configuration?.builder;
+  if (!builder) {
+    return !definition.sql_query;
+  }
+
+  try {
+    return compileReportQuery(builder).sql === definition.sql_query;
+  } catch {
+    return false;
+  }
+}
+
+function compileAggregation(
+  aggregation: { field?: unknown; type?: unknown; alias?: unknown },
+  sources: DataSource[],
+  errors: string[]
+): { expression: string; alias: string } | null {
+  const type = aggregation?.type;
+  const validTypes = ['count', 'sum', 'avg', 'min', 'max', 'distinct'];
+
+  if (typeof type !== 'string' || !validTypes.includes(type)) {
+    errors.push(`Unknown aggregation "${String(type)}"`);
+    return null;
+  }
+
+  if (aggregation.alias !== undefined && aggregation.alias !== '' &&
+    (typeof aggregation.alias !== 'string' || !ALIAS_PATTERN.test(aggregation.alias))) {
+    errors.push(`Aggregation name "${String(aggregation.alias)}" may only use letters, numbers and underscores`);
+    return null;
+  }
+
+  const alias = (alias: string) => (typeof aggregation.alias === 'string' && aggregation.alias) || alias;
+
+  if (type === 'count' && (aggregation.field === '*' || !aggregation.field)) {
+    return { expression: 'COUNT(*)', alias: alias('count') };
+  }
+
+  const resolved = typeof aggregation.field === 'string' ? resolveQueryField(aggregation.field) : null;
+  if (!resolved || !sources.includes(resolved.source)) {
+    errors.push(`Unknown aggregated field "${String(aggregation.field)}"`);
+    return null;
+  }
+
+  const { source, field } = resolved;
+  const column = columnExpression(source, field);
+  const name = alias(`${type}_${sources.length > 1 ? `${source}_` : ''}${field.name}`);
+
+  if ((type === 'sum' || type === 'avg') && field.type !== 'number') {
+    errors.push(`Cannot ${type === 'sum' ? 'sum' : 'average'} "${field.label}" because it is not a number`);
+    return null;
+  }
+
+  if ((type === 'min' || type === 'max') && field.type === 'boolean') {
+    errors.push(`Cannot take the ${type} of "${field.label}"`);
+    return null;
+  }
+
+  const expression = type === 'distinct'
+    ? `COUNT(DISTINCT ${column})`
+    : `${type.toUpperCase()}(${column})`;
+
+  return { expression, alias: name };
+}
+
+function columnExpression(source: DataSource, field: { column: string; type: FieldType }): string {
+  const [column, key] = field.column.split('->>');
+
+  if (key === undefined) {
+    return `${quote(source)}.${quote(column)}`;
+  }
+
+  // Values read out of JSON are text; cast them to the field's type
+  const value = `(${quote(source)}.${quote(column)}->>'${key.replace(/'/g, "''")}')`;
+  return field.type === 'string' ? value : `${value}${SQL_CASTS[field.type]}`;
+}
+
+const SQL_CASTS: Record<FieldType, string> = {
+  string: '',
+  number: '::numeric',
+  date: '::timestamptz',
+  boolean: '::boolean',
+};
+
+function placeholder(name: string, type: FieldType): string {
+  return `:${name}${SQL_CASTS[type]}`;
+}
+
+function quote(identifier: string): string {
+  return `"${identifier.replace(/"/g, '""')}"`;
+}
+
+function sourceLabel(source: DataSource): string {
+  return REPORT_QUERY_SCHEMA[source].label;
+}
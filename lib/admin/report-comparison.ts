@@ -0,0 +1,273 @@
+import { supabase } from '@/lib/supabase';
+import { diffDefinitions, fetchReportVersion, type FieldChange } from '@/lib/admin/report-versions';
+import type { ReportResultData } from '@/lib/admin/report-engine';
+import type { ReportVersionEntity } from '@/lib/types/database.types';
+
+/**
+ * Run-to-run comparison of a report
+ *
+ * Completed executions keep a result summary (row count, the template's
+ * headline numbers and totals of numeric columns) and the report and
+ * template versions they ran. Comparing two runs lines their metrics up and
+ * lists what changed in the definition between them, so a moved number can
+ * be put down to the data or to the report.
+ */
+
+export interface ColumnTotals {
+  count: number;
+  sum: number;
+  min: number;
+  max: number;
+  avg: number;
+}
+
+/**
+ * Stored in report_executions.result_summary
+ */
+export interface ReportResultSummary {
+  rowCount: number;
+  truncated: boolean;
+  // Numeric entries of the template's summary
+  summary: Record<string, number>;
+  // Totals of the result's numeric columns
+  columns: Record<string, ColumnTotals>;
+  parameters: Record<string, any>;
+}
+
+export interface MetricDelta {
+  metric: string;
+  label: string;
+  base: number | null;
+  target: number | null;
+  delta: number | null;
+  // Relative to the base run, null when the base is 0 or missing
+  percentChange: number | null;
+}
+
+export interface ComparedExecution {
+  id: string;
+  status: string;
+  startedAt: string;
+  completedAt: string | null;
+  reportVersion: number | null;
+  templateId: string | null;
+  templateVersion: number | null;
+}
+
+export interface DefinitionChanges {
+  // False when either run predates versioning, so changes cannot be ruled out
+  known: boolean;
+  report: FieldChange[];
+  template: FieldChange[];
+  parameters: FieldChange[];
+}
+
+export interface ExecutionComparison {
+  reportId: string;
+  base: ComparedExecution;
+  target: ComparedExecution;
+  definitionChanged: boolean;
+  changes: DefinitionChanges;
+  metrics: MetricDelta[];
+}
+
+export interface CompareExecutionsResult {
+  success: boolean;
+  comparison?: ExecutionComparison;
+  error?: string;
+  status?: number;
+}
+
+/**
+ * Summarise a run's result for later comparison
+ */
+export function summarizeReportResult(data: ReportResultData): ReportResultSummary {
+  const summary = Object.fromEntries(
+    Object.entries(data.summary || {}).filter(([, value]) => typeof value === 'number' && isFinite(value))
+  );
+
+  const columns: Record<string, ColumnTotals> = {};
+
+  for (const column of data.columns) {
+    const values = data.rows.map(row => toNumber(row[column]));
+
+    // Only columns that hold numbers in every non-empty cell
+    const present = data.rows.filter(row => row[column] !== null && row[column] !== undefined && row[column] !== '');
+    const numbers = values.filter((value): value is number => value !== null);
+    if (numbers.length === 0 || numbers.length !== present.length) {
+      continue;
+    }
+
+    const sum = numbers.reduce((total, value) => total + value, 0);
+    columns[column] = {
+      count: numbers.length,
+      sum,
+      min: Math.min(...numbers),
+      max: Math.max(...numbers),
+      avg: sum / numbers.length,
+    };
+  }
+
+  return {
+    rowCount: data.rowCount,
+    truncated: data.truncated,
+    summary,
+    columns,
+    parameters: data.parameters,
+  };
+}
+
+/**
+ * Compare two completed runs of the same report
+ */
+export async function compareReportExecutions(
+  reportId: string,
+  baseId: string,
+  targetId: string
+): Promise<CompareExecutionsResult> {
+  const { data, error } = await supabase
+    .from('report_executions')
+    .select('*')
+    .eq('report_id', reportId)
+    .in('id', [baseId, targetId]);
+
+  if (error) {
+    console.error('Error fetching report executions to compare:', error);
+    return { success: false, error: 'Failed to load executions', status: 500 };
+  }
+
+  const base = (data || []).find(row => row.id === baseId);
+  const target = (data || []).find(row => row.id === targetId);
+
+  if (!base || !target) {
+    return { success: false, error: 'Execution not found for this report', status: 404 };
+  }
+
+  for (const execution of [base, target]) {
+    if (execution.status !== 'completed' || !execution.result_summary) {
+      return {
+        success: false,
+        error: `Execution ${execution.id} has no recorded result to compare`,
+        status: 400,
+      };
+    }
+  }
+
+  const changes = await definitionChanges(base, target);
+
+  return {
+    success: true,
+    comparison: {
+      reportId,
+      base: toComparedExecution(base),
+      target: toComparedExecution(target),
+      definitionChanged: !changes.known || changes.report.length > 0 || changes.template.length > 0 || changes.parameters.length > 0,
+      changes,
+      metrics: compareMetrics(base.result_summary, target.result_summary),
+    },
+  };
+}
+
+async function definitionChanges(base: any, target: any): Promise<DefinitionChanges> {
+  const templateId = (execution: any) => execution.metadata?.template_id ?? null;
+
+  const parameters = diffDefinitions(base.result_summary.parameters || {}, target.result_summary.parameters || {});
+
+  // Runs from before versioning cannot be traced to a definition
+  if (base.report_version === null || target.report_version === null) {
+    return { known: false, report: [], template: [], parameters };
+  }
+
+  const report = await versionChanges('report', base.report_id, base.report_version, target.report_version);
+
+  // A switch to another template already shows as a template_id change on the report
+  let template: FieldChange[] | null = [];
+  if (templateId(base) && templateId(base) === templateId(target)) {
+    template = base.template_version === null || target.template_version === null
+      ? null
+      : await versionChanges('template', templateId(base), base.template_version, target.template_version);
+  }
+
+  return { known: report !== null && template !== null, report: report || [], template: template || [], parameters };
+}
+
+async function versionChanges(
+  entityType: ReportVersionEntity,
+  entityId: string,
+  fromVersion: number,
+  toVersion: number
+): Promise<FieldChange[] | null> {
+  if (fromVersion === toVersion) {
+    return [];
+  }
+
+  const [from, to] = await Promise.all([
+    fetchReportVersion(entityType, entityId, fromVersion),
+    fetchReportVersion(entityType, entityId, toVersion),
+  ]);
+
+  return from && to ? diffDefinitions(from.snapshot, to.snapshot) : null;
+}
+
+function compareMetrics(base: ReportResultSummary, target: ReportResultSummary): MetricDelta[] {
+  const metrics: MetricDelta[] = [metricDelta('rowCount', 'Rows', base.rowCount, target.rowCount)];
+
+  const summaryKeys = Array.from(new Set([...Object.keys(base.summary || {}), ...Object.keys(target.summary || {})]));
+  for (const key of summaryKeys) {
+    metrics.push(metricDelta(`summary.${key}`, humanize(key), base.summary?.[key], target.summary?.[key]));
+  }
+
+  const columns = Array.from(new Set([...Object.keys(base.columns || {}), ...Object.keys(target.columns || {})]));
+  for (const column of columns) {
+    metrics.push(metricDelta(`columns.${column}.sum`, `${humanize(column)} (total)`, base.columns?.[column]?.sum, target.columns?.[column]?.sum));
+    metrics.push(metricDelta(`columns.${column}.avg`, `${humanize(column)} (average)`, base.columns?.[column]?.avg, target.columns?.[column]?.avg));
+  }
+
+  return metrics;
+}
+
+function metricDelta(metric: string, label: string, base: number | undefined, target: number | undefined): MetricDelta {
+  const hasBoth = base !== undefined && target !== undefined;
+  const delta = hasBoth ? target! - base! : null;
+
+  return {
+    metric,
+    label,
+    base: base ?? null,
+    target: target ?? null,
+    delta,
+    percentChange: delta !== null && base ? (delta / Math.abs(base)) * 100 : null,
+  };
+}
+
+function toNumber(value: unknown): number | null {
+  if (typeof value === 'number') {
+    return isFinite(value) ? value : null;
+  }
+
+  // Numeric columns come back from Postgres as strings
+  if (typeof value === 'string' && value.trim() !== '' && isFinite(Number(value))) {
+    return Number(value);
+  }
+
+  return null;
+}
+
+function humanize(key: string): string {
+  return key
+    .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+    .replace(/_/g, ' ')
+    .replace(/^./, character => character.toUpperCase());
+}
+
+function toComparedExecution(row: any): ComparedExecution {
+  return {
+    id: row.id,
+    status: row.status,
+    startedAt: row.started_at,
+    completedAt: row.completed_at,
+    reportVersion: row.report_version,
+    templateId: row.metadata?.template_id ?? null,
+    templateVersion: row.template_version,
+  };
+}
@@ -0,0 +1,333 @@
+import { supabase } from '@/lib/supabase';
+import { getFileStore } from '@/lib/api/file-store';
+import { sendMail, type SendMailResult } from '@/lib/mail/mailer';
+import type { MailAttachment } from '@/lib/mail/mime';
+import { SmtpError } from '@/lib/mail/smtp';
+import {
+  exportReport,
+  parseExportFormat,
+  REPORT_CONTENT_TYPES,
+  type ReportExportResult,
+} from '@/lib/admin/report-exports';
+import type { ReportResultData } from '@/lib/admin/report-engine';
+import type { ReportDeliveryStatus, ReportSchedule } from '@/lib/types/database.types';
+
+/**
+ * Email delivery of scheduled reports
+ *
+ * After a scheduled run the report is exported in the schedule's
+ * delivery_format and mailed to its recipients with a summary, a signed
+ * download link and, when attach_file is set and the file is small enough,
+ * the file itself. Every recipient gets a report_deliveries row: `sent`
+ * once the relay accepts it, `bounced` when the relay refuses it for good
+ * (5xx) and `failed` for anything else.
+ */
+
+export const REPORT_EMAIL_ATTACHMENT_MAX_BYTES = parseInt(process.env.REPORT_EMAIL_ATTACHMENT_MAX_BYTES || '5242880');
+
+// Result rows shown in the email body
+const PREVIEW_ROWS = 10;
+const PREVIEW_COLUMNS = 6;
+
+const EMAIL_PATTERN = /^[^\s@<>]+@[^\s@<>]+\.[^\s@<>]+$/;
+
+export interface ReportDeliverySummary {
+  id: string;
+  scheduleId: string | null;
+  executionId: string | null;
+  recipient: string;
+  status: ReportDeliveryStatus;
+  messageId: string | null;
+  smtpCode: number | null;
+  smtpResponse: string | null;
+  errorMessage: string | null;
+  attached: boolean;
+  sentAt: string | null;
+  bouncedAt: string | null;
+  createdAt: string;
+}
+
+export interface DeliverReportResult {
+  success: boolean;
+  sent: number;
+  failed: number;
+  bounced: number;
+  error?: string;
+}
+
+/**
+ * Mail a scheduled run's result to the schedule's recipients
+ */
+export async function deliverScheduledReport(
+  schedule: ReportSchedule,
+  reportId: string,
+  result: { executionId?: string; data?: ReportResultData }
+): Promise<DeliverReportResult> {
+  const recipients = Array.from(new Set(
+    (schedule.recipients || []).map(recipient => recipient.trim().toLowerCase()).filter(Boolean)
+  ));
+
+  if (recipients.length === 0) {
+    return { success: true, sent: 0, failed: 0, bounced: 0 };
+  }
+
+  const deliveries = await createDeliveries(schedule, reportId, result.executionId, recipients);
+  const invalid = recipients.filter(recipient => !EMAIL_PATTERN.test(recipient));
+  const valid = recipients.filter(recipient => EMAIL_PATTERN.test(recipient));
+
+  await Promise.all(invalid.map(recipient => updateDelivery(deliveries.get(recipient), {
+    status: 'bounced',
+    error_message: 'Invalid email address',
+    bounced_at: new Date().toISOString(),
+  })));
+
+  if (valid.length === 0) {
+    return { success: false, sent: 0, failed: 0, bounced: invalid.length, error: 'No valid recipients' };
+  }
+
+  const format = parseExportFormat(schedule.delivery_format) || 'csv';
+  let sendResult: SendMailResult;
+  let attached = false;
+
+  try {
+    const exported = await exportReport(reportId, format);
+    if (!exported.success || !exported.downloadPath) {
+      throw new Error(exported.error || 'Failed to export report');
+    }
+
+    const attachment = schedule.attach_file ? await loadAttachment(exported) : null;
+    attached = !!attachment;
+
+    const email = renderReportEmail(schedule.name, result.data, {
+      url: new URL(exported.downloadPath, getAppUrl()).toString(),
+      expiresAt: exported.expiresAt!,
+      attached,
+    });
+
+    sendResult = await sendMail({
+      to: valid,
+      ...email,
+      attachments: attachment ? [attachment] : undefined,
+      headers: { 'X-Report-Schedule-ID': schedule.id },
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Failed to send report email';
+    console.error('Error delivering scheduled report:', error);
+
+    await Promise.all(valid.map(recipient => updateDelivery(deliveries.get(recipient), {
+      status: 'failed',
+      error_message: message,
+      smtp_code: error instanceof SmtpError ? error.code ?? null : null,
+    })));
+
+    return { success: false, sent: 0, failed: valid.length, bounced: invalid.length, error: message };
+  }
+
+  const now = new Date().toISOString();
+  const counts = { sent: 0, failed: 0, bounced: invalid.length };
+
+  await Promise.all(sendResult.recipients.map(outcome => {
+    const status: keyof typeof counts = outcome.accepted ? 'sent' : outcome.code >= 500 ? 'bounced' : 'failed';
+    counts[status]++;
+
+    return updateDelivery(deliveries.get(outcome.recipient), {
+      status,
+      message_id: sendResult.messageId,
+      smtp_code: outcome.code,
+      smtp_response: outcome.response,
+      error_message: outcome.accepted ? null : `Rejected by mail server: ${outcome.code} ${outcome.response}`,
+      attached: outcome.accepted && attached,
+      sent_at: outcome.accepted ? now : null,
+      bounced_at: status === 'bounced' ? now : null,
+    });
+  }));
+
+  return {
+    success: counts.sent > 0,
+    ...counts,
+    ...(counts.sent < recipients.length ? { error: `Delivered to ${counts.sent} of ${recipients.length} recipients` } : {}),
+  };
+}
+
+/**
+ * Most recent deliveries of a report, newest first
+ */
+export async function fetchReportDeliveries(reportId: string, limit = 50): Promise<ReportDeliverySummary[]> {
+  const { data, error } = await supabase
+    .from('report_deliveries')
+    .select('*')
+    .eq('report_id', reportId)
+    .order('created_at', { ascending: false })
+    .limit(limit);
+
+  if (error) {
+    console.error('Error fetching report deliveries:', error);
+    throw error;
+  }
+
+  return (data || []).map(toDeliverySummary);
+}
+
+/**
+ * Subject and bodies of a report email
+ */
+export function renderReportEmail(
+  name: string,
+  data: ReportResultData | undefined,
+  link: { url: string; expiresAt: string; attached: boolean }
+): { subject: string; text: string; html: string } {
+  const generatedAt = data?.generatedAt || new Date().toISOString();
+  const summary = Object.entries(data?.summary || {}).filter(([, value]) => typeof value !== 'object');
+  const columns = (data?.columns || []).slice(0, PREVIEW_COLUMNS);
+  const rows = (data?.rows || []).slice(0, PREVIEW_ROWS);
+  const rowCount = data?.rowCount ?? 0;
+  const fileLine = link.attached
+    ? 'The full report is attached and can also be downloaded here'
+    : 'Download the full report here';
+  const expiry = `(link expires ${new Date(link.expiresAt).toUTCString()})`;
+
+  const text = [
+    `${name}`,
+    `Generated ${new Date(generatedAt).toUTCString()} - ${rowCount} row${rowCount === 1 ? '' : 's'}${data?.truncated ? ' (truncated)' : ''}`,
+    '',
+    ...summary.map(([key, value]) => `${humanize(key)}: ${formatValue(value)}`),
+    ...(summary.length > 0 ? [''] : []),
+    ...(rows.length > 0
+      ? [columns.map(humanize).join(' | '), ...rows.map(row => columns.map(column => formatValue(row[column])).join(' | ')), '']
+      : []),
+    `${fileLine} ${expiry}:`,
+    link.url,
+  ].join('\n');
+
+  const html = `<!doctype html>
+<html>
+<body style="font-family: Arial, sans-serif; color: #111827;">
+  <h2 style="margin-bottom: 4px;">${escapeHtml(name)}</h2>
+  <p style="color: #6b7280; margin-top: 0;">Generated ${escapeHtml(new Date(generatedAt).toUTCString())} &middot; ${rowCount} row${rowCount === 1 ? '' : 's'}${data?.truncated ? ' (truncated)' : ''}</p>
+  ${summary.length > 0 ? `<table cellpadding="4" style="border-collapse: collapse; margin-bottom: 16px;">
+    ${summary.map(([key, value]) => `<tr><td style="color: #6b7280;">${escapeHtml(humanize(key))}</td><td><strong>${escapeHtml(formatValue(value))}</strong></td></tr>`).join('\n    ')}
+  </table>` : ''}
+  ${rows.length > 0 ? `<table cellpadding="6" style="border-collapse: collapse; font-size: 13px;">
+    <tr>${columns.map(column => `<th align="left" style="border-bottom: 1px solid #d1d5db;">${escapeHtml(humanize(column))}</th>`).join('')}</tr>
+    ${rows.map(row => `<tr>${columns.map(column => `<td style="border-bottom: 1px solid #f3f4f6;">${escapeHtml(formatValue(row[column]))}</td>`).join('')}</tr>`).join('\n    ')}
+  </table>
+  ${rowCount > rows.length ? `<p style="color: #6b7280;">Showing ${rows.length} of ${rowCount} rows.</p>` : ''}` : ''}
+  <p>${fileLine} ${escapeHtml(expiry)}:<br><a href="${escapeHtml(link.url)}">${escapeHtml(link.url)}</a></p>
+</body>
+</html>`;
+
+  return { subject: `Scheduled report: ${name}`, text, html };
+}
+
+async function createDeliveries(
+  schedule: ReportSchedule,
+  reportId: string,
+  executionId: string | undefined,
+  recipients: string[]
+): Promise<Map<string, string>> {
+  const { data, error } = await supabase
+    .from('report_deliveries')
+    .insert(recipients.map(recipient => ({
+      schedule_id: schedule.id,
+      report_id: reportId,
+      execution_id: executionId || null,
+      recipient,
+      status: 'pending',
+      attached: false,
+    })))
+    .select('id, recipient');
+
+  if (error) {
+    // Sending still goes ahead; only the per-recipient record is lost
+    console.error('Error recording report deliveries:', error);
+  }
+
+  return new Map((data || []).map((row: { id: string; recipient: string }) => [row.recipient, row.id]));
+}
+
+async function updateDelivery(deliveryId: string | undefined, changes: Record<string, any>) {
+  if (!deliveryId) {
+    return;
+  }
+
+  const { error } = await supabase
+    .from('report_deliveries')
+    .update(changes)
+    .eq('id', deliveryId);
+
+  if (error) {
+    console.error('Error updating report delivery:', error);
+  }
+}
+
+async function loadAttachment(exported: ReportExportResult): Promise<MailAttachment | null> {
+  if (!exported.fileKey || !exported.format || (exported.size || 0) > REPORT_EMAIL_ATTACHMENT_MAX_BYTES) {
+    return null;
+  }
+
+  const content = await getFileStore().get(exported.fileKey);
+  if (!content) {
+    return null;
+  }
+
+  return {
+    filename: exported.filename || `report.${exported.format}`,
+    content,
+    contentType: REPORT_CONTENT_TYPES[exported.format],
+  };
+}
+
+function getAppUrl(): string {
+  const url = process.env.APP_URL;
+
+  if (!url) {
+    throw new Error('Missing APP_URL environment variable');
+  }
+
+  return url;
+}
+
+function humanize(key: string): string {
+  return key
+    .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+    .replace(/_/g, ' ')
+    .replace(/^./, character => character.toUpperCase());
+}
+
+function formatValue(value: unknown): string {
+  if (value === null || value === undefined) {
+    return '';
+  }
+
+  if (typeof value === 'number') {
+    return value.toLocaleString('en-US');
+  }
+
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function toDeliverySummary(row: any): ReportDeliverySummary {
+  return {
+    id: row.id,
+    scheduleId: row.schedule_id,
+    executionId: row.execution_id,
+    recipient: row.recipient,
+    status: row.status,
+    messageId: row.message_id,
+    smtpCode: row.smtp_code,
+    smtpResponse: row.smtp_response,
+    errorMessage: row.error_message,
+    attached: row.attached,
+    sentAt: row.sent_at,
+    bouncedAt: row.bounced_at,
+    createdAt: row.created_at,
+  };
+}
@@ -0,0 +1,711 @@
+import { supabase } from '@/lib/supabase';
+import {
+  fetchDashboardStats,
+  fetchRecentActivity,
+  fetchRevenueData,
+  fetchSurveyAnalytics,
+  fetchUserGrowthData,
+} from '@/lib/analytics';
+import { summarizeReportResult } from '@/lib/admin/report-comparison';
+import { REPORT_QUERY_SCHEMA } from '@/lib/report-query';
+import type { ReportExecutionStatus, ReportTemplate } from '@/lib/types/database.types';
+
+/**
+ * Report execution engine
+ *
+ * A run loads the report's template, binds the report's parameters and
+ * filters into it, runs it and stores the result in reports.data. Every
+ * run is tracked in report_executions (pending -> running -> completed or
+ * failed) with its duration, which feeds reports.average_run_time, the
+ * report and template versions it ran and a summary of its result for
+ * run-to-run comparisons.
+ *
+ * Templates run either their sql_query, through the execute_report_query
+ * database function, or a built-in query picked by the report type for
+ * reports created without a template.
+ */
+
+// Rows kept in reports.data; larger results are truncated
+export const MAX_REPORT_ROWS = 10000;
+
+export const REPORT_EXECUTION_TIMEOUT_MS = 60 * 1000;
+
+// Completed runs averaged into average_run_time
+const AVERAGE_RUN_TIME_SAMPLE = 20;
+
+// Tables template SQL may read: the report builder's data sources
+export const REPORT_SQL_TABLES = Array.from(new Set(Object.values(REPORT_QUERY_SCHEMA).map(source => source.table)));
+
+// Set-returning functions allowed where a table would go
+const RELATION_FUNCTIONS = new Set([
+  'generate_series',
+  'unnest',
+  'json_array_elements',
+  'json_each',
+  'jsonb_array_elements',
+  'jsonb_array_elements_text',
+  'jsonb_each',
+  'jsonb_each_text',
+]);
+
+const FORBIDDEN_FUNCTION = /^(?:pg_|lo_|dblink)|^(?:current_setting|set_config)$|_to_xml/;
+
+// Keywords that end a FROM list; ON and USING do not, so a comma after a join condition is still checked
+const FROM_LIST_ENDS = new Set([
+  'where', 'group', 'having', 'order', 'limit', 'offset', 'window', 'union', 'intersect', 'except', 'fetch', 'select',
+]);
+
+const SQL_TOKEN = /"(?:[^"]|"")*"|[a-zA-Z_][\w$]*|\d+(?:\.\d+)?|\S/g;
+
+export type ReportParameterType = 'string' | 'number' | 'integer' | 'boolean' | 'date';
+
+/**
+ * Parameter declared in report_templates.configuration.parameters
+ */
+export interface ReportParameterDefinition {
+  name: string;
+  type?: ReportParameterType;
+  required?: boolean;
+  default?: unknown;
+}
+
+export interface ReportResultData {
+  columns: string[];
+  rows: Record<string, any>[];
+  rowCount: number;
+  truncated: boolean;
+  // Headline numbers for built-in templates that have them
+  summary?: Record<string, any>;
+  chart: Record<string, any>;
+  parameters: Record<string, any>;
+  templateId: string | null;
+  executionId: string;
+  generatedAt: string;
+}
+
+export interface ReportExecutionSummary {
+  id: string;
+  reportId: string | null;
+  scheduleId: string | null;
+  status: ReportExecutionStatus;
+  startedAt: string;
+  completedAt: string | null;
+  durationMs: number | null;
+  errorMessage: string | null;
+  rowCount: number | null;
+  triggeredBy: string | null;
+  reportVersion: number | null;
+  templateVersion: number | null;
+}
+
+export interface ExecuteReportOptions {
+  // Admin email, or null for scheduled runs
+  triggeredBy?: string | null;
+  scheduleId?: string | null;
+  // Laid over the report's own parameters and filters, e.g. a schedule's
+  overrides?: Record<string, any>;
+}
+
+export interface ExecuteReportResult {
+  success: boolean;
+  execution?: ReportExecutionSummary;
+  data?: ReportResultData;
+  error?: string;
+  status?: number;
+}
+
+export interface BoundQuery {
+  query: string;
+  params: Record<string, any>;
+}
+
+interface TemplateRun {
+  rows: Record<string, any>[];
+  summary?: Record<string, any>;
+}
+
+type BuiltInTemplate = (bindings: Record<string, any>) => Promise<TemplateRun>;
+
+// Used for reports created without a template, keyed by reports.type
+const BUILT_IN_TEMPLATES: Record<string, BuiltInTemplate> = {
+  async analytics() {
+    const stats = await fetchDashboardStats();
+    return {
+      rows: Object.entries(stats).map(([metric, value]) => ({ metric, value })),
+      summary: { ...stats },
+    };
+  },
+
+  async users() {
+    return { rows: await fetchUserGrowthData() };
+  },
+
+  async surveys(bindings) {
+    const { responseDistribution, completionTrend, surveysByCategory, ...summary } = await fetchSurveyAnalytics({
+      startDate: bindings.startDate,
+      endDate: bindings.endDate,
+      category: bindings.category,
+    });
+    return { rows: responseDistribution, summary };
+  },
+
+  async financial() {
+    const rows = await fetchRevenueData();
+    return {
+      rows,
+      summary: { totalRevenue: rows.reduce((total, row) => total + row.revenue, 0) },
+    };
+  },
+
+  async system(bindings) {
+    const limit = Number(bindings.limit) || 100;
+    return { rows: await fetchRecentActivity(Math.min(limit, MAX_REPORT_ROWS)) };
+  },
+};
+
+/**
+ * Run a report now and store its result
+ */
+export async function executeReport(
+  reportId: string,
+  options: ExecuteReportOptions = {}
+): Promise<ExecuteReportResult> {
+  const { data: report, error: reportError } = await supabase
+    .from('reports')
+    .select('id, type, template_id, parameters, filters, version')
+    .eq('id', reportId)
+    .single();
+
+  if (reportError || !report) {
+    return { success: false, error: 'Report not found', status: 404 };
+  }
+
+  const startedAt = Date.now();
+  const { data: execution, error: executionError } = await supabase
+    .from('report_executions')
+    .insert({
+      report_id: reportId,
+      schedule_id: options.scheduleId || null,
+      status: 'pending',
+      started_at: new Date(startedAt).toISOString(),
+      report_version: report.version || null,
+      metadata: { triggered_by: options.triggeredBy || null },
+    })
+    .select()
+    .single();
+
+  if (executionError || !execution) {
+    console.error('Error creating report execution:', executionError);
+    return { success: false, error: 'Failed to start report execution', status: 500 };
+  }
+
+  try {
+    await updateExecution(execution.id, { status: 'running' });
+
+    const template = await loadTemplate(report.template_id);
+    const bindings = bindParameters(
+      template?.configuration?.parameters,
+      { ...(report.parameters || {}), ...(report.filters || {}), ...(options.overrides || {}) }
+    );
+
+    const run = await withTimeout(runTemplate(template, report.type, bindings), REPORT_EXECUTION_TIMEOUT_MS);
+    const rows = run.rows.slice(0, MAX_REPORT_ROWS);
+    const completedAt = Date.now();
+
+    const data: ReportResultData = {
+      columns: collectColumns(rows),
+      rows,
+      rowCount: run.rows.length,
+      truncated: run.rows.length > rows.length,
+      ...(run.summary ? { summary: run.summary } : {}),
+      chart: template?.chart_config || {},
+      parameters: bindings,
+      templateId: template?.id || null,
+      executionId: execution.id,
+      generatedAt: new Date(completedAt).toISOString(),
+    };
+
+    const completed = await updateExecution(execution.id, {
+      status: 'completed',
+      completed_at: data.generatedAt,
+      duration_ms: completedAt - startedAt,
+      template_version: template?.version || null,
+      result_summary: summarizeReportResult(data),
+      metadata: {
+        ...execution.metadata,
+        row_count: data.rowCount,
+        truncated: data.truncated,
+        template_id: data.templateId,
+      },
+    });
+
+    const { error: saveError } = await supabase
+      .from('reports')
+      .update({
+        data,
+        error_message: null,
+        last_run_at: data.generatedAt,
+        generated_at: data.generatedAt,
+        average_run_time: await averageRunTime(reportId),
+      })
+      .eq('id', reportId);
+
+    if (saveError) {
+      throw saveError;
+    }
+
+    return { success: true, execution: completed, data };
+  } catch (error) {
+    const message = errorMessage(error);
+    const failedAt = Date.now();
+
+    const failed = await updateExecution(execution.id, {
+      status: 'failed',
+      completed_at: new Date(failedAt).toISOString(),
+      duration_ms: failedAt - startedAt,
+      error_message: message,
+    });
+
+    await supabase
+      .from('reports')
+      .update({ error_message: message, last_run_at: new Date(failedAt).toISOString() })
+      .eq('id', reportId);
+
+    return { success: false, execution: failed, error: message, status: 500 };
+  }
+}
+
+/**
+ * Most recent runs of a report, newest first
+ */
+export async function fetchReportExecutions(reportId: string, limit = 20): Promise<ReportExecutionSummary[]> {
+  const { data, error } = await supabase
+    .from('report_executions')
+    .select('*')
+    .eq('report_id', reportId)
+    .order('started_at', { ascending: false })
+    .limit(limit);
+
+  if (error) {
+    console.error('Error fetching report executions:', error);
+    throw error;
+  }
+
+  return (data || []).map(toExecutionSummary);
+}
+
+/**
+ * Check and coerce parameter values against a template's declarations
+ *
+ * Values without a declaration pass through unchanged.
+ */
+export function bindParameters(
+  definitions: ReportParameterDefinition[] | undefined,
+  values: Record<string, any>
+): Record<string, any> {
+  const bindings: Record<string, any> = { ...values };
+
+  for (const definition of definitions || []) {
+    const value = bindings[definition.name] ?? definition.default;
+
+    if (value === undefined || value === null || value === '') {
+      if (definition.required) {
+        throw new Error(`Parameter "${definition.name}" is required`);
+      }
+      delete bindings[definition.name];
+      continue;
+    }
+
+    bindings[definition.name] = coerceParameter(definition, value);
+  }
+
+  return bindings;
+}
+
+/**
+ * Turn a template's SQL into a query for execute_report_query
+ *
+ * Only a single SELECT (or WITH ... SELECT) is accepted. Named placeholders
+ * such as `:start_date` become `($1->>'start_date')`, so values travel as a
+ * JSON argument and never become part of the SQL text. Cast them where
+ * needed, e.g. `:start_date::date`.
+ */
+export function bindReportQuery(sql: string, bindings: Record<string, any>): BoundQuery {
+  const trimmed = sql.trim().replace(/;\s*$/, '');
+  const code = maskLiterals(trimmed);
+
+  if (!/^(select|with)\b/i.test(code.trim())) {
+    throw new Error('Report queries must start with SELECT or WITH');
+  }
+
+  if (code.includes(';')) {
+    throw new Error('Report queries must be a single statement');
+  }
+
+  const forbidden = code.match(/\b(insert|update|delete|merge|drop|alter|create|truncate|grant|revoke|copy|call|do|execute|vacuum|lock|set|reset|listen|notify|table)\b/i);
+  if (forbidden) {
+    throw new Error(`Report queries may not use ${forbidden[1].toUpperCase()}`);
+  }
+
+  checkQueryRelations(maskLiterals(trimmed, true));
+
+  const params: Record<string, any> = {};
+  let query = '';
+  let last = 0;
+
+  // Placeholders are found in the masked copy so literals and comments are left alone
+  for (const match of code.matchAll(/(?<![:\w]):([a-zA-Z_][a-zA-Z0-9_]*)/g)) {
+    const name = match[1];
+    if (!(name in bindings)) {
+      throw new Error(`No value for query parameter :${name}`);
+    }
+
+    params[name] = bindings[name];
+    query += trimmed.slice(last, match.index) + `($1->>'${name}')`;
+    last = match.index! + match[0].length;
+  }
+
+  return { query: query + trimmed.slice(last), params };
+}
+
+/**
+ * Refuse tables outside REPORT_SQL_TABLES and functions that reach the server
+ *
+ * execute_report_query may run with broad privileges, so this allowlist is what
+ * keeps hand-written template SQL away from auth, admin and system tables.
+ * Expects string literals and comments already blanked out.
+ */
+function checkQueryRelations(code: string): void {
+  const tokens = code.match(SQL_TOKEN) || [];
+  const cteNames = new Set(
+    Array.from(code.matchAll(/(?:\bwith(?:\s+recursive)?|,)\s*([a-zA-Z_]\w*)\s*(?:\([^()]*\)\s*)?as\s+(?:not\s+)?(?:materialized\s+)?\(/gi))
+      .map(match => match[1].toLowerCase())
+  );
+
+  // One frame per open parenthesis: whether it holds a query and whether a FROM list is open in it
+  const frames = [{ query: true, inFrom: false }];
+  let expectRelation = false;
+
+  for (let index = 0; index < tokens.length; index++) {
+    const token = tokens[index];
+    const word = token.toLowerCase();
+    const frame = frames[frames.length - 1];
+
+    if (token === '(') {
+      const next = tokens[index + 1]?.toLowerCase();
+      // A parenthesis where a table belongs holds a subquery or a join
+      frames.push({ query: expectRelation || next === 'select' || next === 'with', inFrom: expectRelation });
+      continue;
+    }
+
+    if (token === ')') {
+      if (frames.length > 1) frames.pop();
+      expectRelation = false;
+      continue;
+    }
+
+    if (isSqlIdentifier(token) && tokens[index + 1] === '(' && FORBIDDEN_FUNCTION.test(unquoteIdentifier(token))) {
+      throw new Error(`Report queries may not call ${unquoteIdentifier(token)}`);
+    }
+
+    if (expectRelation) {
+      if (word === 'lateral' || word === 'only') continue;
+      expectRelation = false;
+
+      if (word === 'select' || word === 'with') {
+        frame.inFrom = false;
+      } else if (isSqlIdentifier(token)) {
+        const parts = [unquoteIdentifier(token)];
+        while (tokens[index + 1] === '.' && isSqlIdentifier(tokens[index + 2] || '')) {
+          parts.push(unquoteIdentifier(tokens[index + 2]));
+          index += 2;
+        }
+
+        if (tokens[index + 1] === '(') {
+          if (parts.length > 1 || !RELATION_FUNCTIONS.has(parts[0])) {
+            throw new Error(`Report queries may not read from ${parts.join('.')}()`);
+          }
+        } else {
+          const [schema, table] = parts.length > 1 ? parts : [null, parts[0]];
+          const allowed = parts.length <= 2
+            && (schema === null || schema === 'public')
+            && (REPORT_SQL_TABLES.includes(table) || (schema === null && cteNames.has(table)));
+
+          if (!allowed) {
+            throw new Error(`Report queries may only read from ${REPORT_SQL_TABLES.join(', ')}; ${parts.join('.')} is not allowed`);
+          }
+        }
+        continue;
+      }
+    }
+
+    // JOIN also appears in parenthesized joins, which are not query frames
+    if (word === 'join') {
+      expectRelation = true;
+    } else if (!frame.query) {
+      continue;
+    } else if (word === 'from') {
+      frame.inFrom = true;
+      expectRelation = true;
+    } else if (token === ',' && frame.inFrom) {
+      expectRelation = true;
+    } else if (FROM_LIST_ENDS.has(word)) {
+      frame.inFrom = false;
+    }
+  }
+}
+
+function isSqlIdentifier(token: string): boolean {
+  return /^(?:"|[a-zA-Z_])/.test(token);
+}
+
+// Quoted identifiers keep their case; bare ones fold to lower case as in Postgres
+function unquoteIdentifier(token: string): string {
+  return token.startsWith('"') ? token.slice(1, -1).replace(/""/g, '"') : token.toLowerCase();
+}
+
+async function runTemplate(
+  template: ReportTemplate | null,
+  reportType: string,
+  bindings: Record<string, any>
+): Promise<TemplateRun> {
+  if (template?.sql_query) {
+    const { query, params } = bindReportQuery(template.sql_query, bindings);
+    const { data, error } = await supabase.rpc('execute_report_query', { query, params });
+
+    if (error) {
+      throw new Error(`Report query failed: ${error.message}`);
+    }
+
+    return { rows: Array.isArray(data) ? data : [] };
+  }
+
+  const builtIn = BUILT_IN_TEMPLATES[template?.configuration?.builtIn || reportType];
+  if (!builtIn) {
+    throw new Error(template ? 'Report template has no query' : `No built-in template for ${reportType} reports`);
+  }
+
+  return builtIn(bindings);
+}
+
+async function loadTemplate(templateId: string | null): Promise<ReportTemplate | null> {
+  if (!templateId) {
+    return null;
+  }
+
+  const { data, error } = await supabase
+    .from('report_templates')
+    .select('*')
+    .eq('id', templateId)
+    .single();
+
+  if (error || !data) {
+    throw new Error('Report template not found');
+  }
+
+  if (!data.is_active) {
+    throw new Error('Report template is inactive');
+  }
+
+  return data as ReportTemplate;
+}
+
+async function updateExecution(
+  executionId: string,
+  changes: Record<string, any>
+): Promise<ReportExecutionSummary | undefined> {
+  const { data, error } = await supabase
+    .from('report_executions')
+    .update(changes)
+    .eq('id', executionId)
+    .select()
+    .single();
+
+  if (error) {
+    console.error('Error updating report execution:', error);
+    return undefined;
+  }
+
+  return toExecutionSummary(data);
+}
+
+async function averageRunTime(reportId: string): Promise<number> {
+  const { data } = await supabase
+    .from('report_executions')
+    .select('duration_ms')
+    .eq('report_id', reportId)
+    .eq('status', 'completed')
+    .order('started_at', { ascending: false })
+    .limit(AVERAGE_RUN_TIME_SAMPLE);
+
+  const durations = (data || [])
+    .map((row: any) => row.duration_ms)
+    .filter((duration: unknown): duration is number => typeof duration === 'number');
+
+  if (durations.length === 0) {
+    return 0;
+  }
+
+  return Math.round(durations.reduce((total, duration) => total + duration, 0) / durations.length);
+}
+
+function coerceParameter(definition: ReportParameterDefinition, value: any): any {
+  switch (definition.type) {
+    case 'number':
+    case 'integer': {
+      const number = Number(value);
+      if (!Number.isFinite(number) || (definition.type === 'integer' && !Number.isInteger(number))) {
+        throw new Error(`Parameter "${definition.name}" must be ${definition.type === 'integer' ? 'an integer' : 'a number'}`);
+      }
+      return number;
+    }
+
+    case 'boolean':
+      if (typeof value === 'boolean') return value;
+      if (value === 'true' || value === 'false') return value === 'true';
+      throw new Error(`Parameter "${definition.name}" must be true or false`);
+
+    case 'date':
+      if (isNaN(new Date(value).getTime())) {
+        throw new Error(`Parameter "${definition.name}" must be a date`);
+      }
+      return new Date(value).toISOString();
+
+    default:
+      return String(value);
+  }
+}
+
+/**
+ * Blank out string literals, comments and quoted identifiers, keeping offsets
+ *
+ * Scans the way the Postgres lexer does, so nothing Postgres reads as code is
+ * blanked here: block comments nest, and escape strings (E'...') and
+ * dollar-quoted strings are refused outright rather than guessing where they
+ * end. A lone `$` is refused with them, which also rules out `$1` parameters.
+ */
+function maskLiterals(sql: string, keepIdentifiers = false): string {
+  let masked = '';
+  let index = 0;
+
+  while (index < sql.length) {
+    const char = sql[index];
+    let end: number;
+
+    if (char === "'" || char === '"') {
+      end = closingQuote(sql, index);
+      if (char === '"' && keepIdentifiers) {
+        masked += sql.slice(index, end);
+        index = end;
+        continue;
+      }
+    } else if (sql.startsWith('--', index)) {
+      end = sql.indexOf('\n', index);
+      if (end === -1) end = sql.length;
+    } else if (sql.startsWith('/*', index)) {
+      end = closingComment(sql, index);
+    } else if (/[a-zA-Z_\u0080-\uffff]/.test(char)) {
+      // Identifiers and keywords, which may contain `$` after their first character
+      const word = sql.slice(index).match(/^[\w$\u0080-\uffff]+/)![0];
+      if ((word === 'e' || word === 'E') && sql[index + 1] === "'") {
+        throw new Error("Report queries may not use escape strings (E'...')");
+      }
+      masked += word;
+      index += word.length;
+      continue;
+    } else if (char === '$') {
+      throw new Error('Report queries may not use dollar-quoted strings or $ parameters');
+    } else {
+      masked += char;
+      index++;
+      continue;
+    }
+
+    masked += ' '.repeat(end - index);
+    index = end;
+  }
+
+  return masked;
+}
+
+// Index just past the quote closing the one at start; a doubled quote is an escaped one
+function closingQuote(sql: string, start: number): number {
+  const quote = sql[start];
+  let index = start + 1;
+
+  while (index < sql.length) {
+    if (sql[index] === quote) {
+      if (sql[index + 1] !== quote) return index + 1;
+      index++;
+    }
+    index++;
+  }
+
+  throw new Error('Report query has an unterminated quote');
+}
+
+// Index just past the end of the block comment at start, counting nested comments
+function closingComment(sql: string, start: number): number {
+  let depth = 0;
+  let index = start;
+
+  while (index < sql.length) {
+    if (sql.startsWith('/*', index)) {
+      depth++;
+      index += 2;
+    } else if (sql.startsWith('*/', index)) {
+      depth--;
+      index += 2;
+      if (depth === 0) return index;
+    } else {
+      index++;
+    }
+  }
+
+  throw new Error('Report query has an unterminated comment');
+}
+
+function collectColumns(rows: Record<string, any>[]): string[] {
+  const columns = new Set<string>();
+  rows.forEach(row => Object.keys(row).forEach(column => columns.add(column)));
+  return Array.from(columns);
+}
+
+function withTimeout<T>(promise: Promise<T>, timeoutMs: number): Promise<T> {
+  let timer: NodeJS.Timeout;
+
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new Error(`Report execution timed out after ${timeoutMs / 1000}s`)), timeoutMs);
+  });
+
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+}
+
+function errorMessage(error: unknown): string {
+  if (error instanceof Error) {
+    return error.message;
+  }
+
+  if (error && typeof error === 'object' && 'message' in error) {
+    return String((error as { message: unknown }).message);
+  }
+
+  return 'Report execution failed';
+}
+
+function toExecutionSummary(row: any): ReportExecutionSummary {
+  return {
+    id: row.id,
+    reportId: row.report_id,
+    scheduleId: row.schedule_id,
+    status: row.status,
+    startedAt: row.started_at,
+    completedAt: row.completed_at,
+    durationMs: row.duration_ms,
+    errorMessage: row.error_message,
+    rowCount: row.metadata?.row_count ?? null,
+    triggeredBy: row.metadata?.triggered_by ?? null,
+    reportVersion: row.report_version ?? null,
+    templateVersion: row.template_version ?? null,
+  };
+}
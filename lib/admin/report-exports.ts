@@ -0,0 +1,258 @@
+import crypto from 'crypto';
+import { supabase } from '@/lib/supabase';
+import { getFileStore } from '@/lib/api/file-store';
+import { buildCSV, buildExcel, buildPDF, type ExportData, type ExportFile } from '@/lib/export-utils';
+import type { ReportResultData } from '@/lib/admin/report-engine';
+
+/**
+ * Report files and signed downloads
+ *
+ * Exporting renders the report's stored result (reports.data) to a file,
+ * saves it to the file store and issues a fresh access token from
+ * generate_report_access_token. The download link carries that token, its
+ * expiry and an HMAC over both, so a link cannot be extended or forged, and
+ * the token is checked again against reports.access_token/expires_at.
+ */
+
+export const REPORT_EXPORT_FORMATS = ['csv', 'xlsx', 'pdf'] as const;
+export type ReportExportFormat = typeof REPORT_EXPORT_FORMATS[number];
+
+export const REPORT_DOWNLOAD_TTL_HOURS = parseInt(process.env.REPORT_DOWNLOAD_TTL_HOURS || '24');
+
+const DOWNLOAD_PATH = '/api/reports/download';
+
+export const REPORT_CONTENT_TYPES: Record<ReportExportFormat, string> = {
+  csv: 'text/csv; charset=utf-8',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  pdf: 'application/pdf',
+};
+
+export interface ReportExportResult {
+  success: boolean;
+  // Path of the signed download link; resolve it against the app's origin
+  downloadPath?: string;
+  expiresAt?: string;
+  format?: ReportExportFormat;
+  size?: number;
+  // File store key and download name of the rendered file
+  fileKey?: string;
+  filename?: string;
+  error?: string;
+  status?: number;
+}
+
+export interface ReportDownload {
+  body: Uint8Array;
+  contentType: string;
+  filename: string;
+}
+
+export interface ReportDownloadResult {
+  success: boolean;
+  download?: ReportDownload;
+  error?: string;
+  status?: number;
+}
+
+/**
+ * Normalise a requested format; `excel` is accepted for older clients
+ */
+export function parseExportFormat(format: string | null | undefined): ReportExportFormat | null {
+  const normalized = format?.toLowerCase() === 'excel' ? 'xlsx' : format?.toLowerCase();
+  return REPORT_EXPORT_FORMATS.find(candidate => candidate === normalized) || null;
+}
+
+/**
+ * Render a report's latest result to a file and issue a signed download link
+ */
+export async function exportReport(
+  reportId: string,
+  format: ReportExportFormat
+): Promise<ReportExportResult> {
+  try {
+    const { data: report, error } = await supabase
+      .from('reports')
+      .select('id, name, data, file_url')
+      .eq('id', reportId)
+      .single();
+
+    if (error || !report) {
+      return { success: false, error: 'Report not found', status: 404 };
+    }
+
+    const result = report.data as ReportResultData | null;
+    if (!result?.rows) {
+      return { success: false, error: 'Run the report before exporting it', status: 409 };
+    }
+
+    const file = await renderReportFile(report.name, result, format);
+    const key = `reports/${reportId}/${slugify(report.name)}-${Date.now()}.${file.extension}`;
+    const stored = await getFileStore().put(key, file.content);
+
+    const { data: accessToken, error: tokenError } = await supabase.rpc('generate_report_access_token');
+    if (tokenError || !accessToken) {
+      throw tokenError || new Error('No access token generated');
+    }
+
+    const expiresAt = new Date(Date.now() + REPORT_DOWNLOAD_TTL_HOURS * 60 * 60 * 1000);
+
+    const { error: updateError } = await supabase
+      .from('reports')
+      .update({
+        file_url: stored.key,
+        file_size: stored.size,
+        access_token: accessToken,
+        expires_at: expiresAt.toISOString(),
+      })
+      .eq('id', reportId);
+
+    if (updateError) {
+      await getFileStore().delete(stored.key);
+      throw updateError;
+    }
+
+    // The previous file's link stopped working when its token was replaced
+    if (report.file_url && report.file_url !== stored.key) {
+      await getFileStore().delete(report.file_url).catch(deleteError => {
+        console.error('Error deleting previous report file:', deleteError);
+      });
+    }
+
+    return {
+      success: true,
+      downloadPath: signDownloadPath(accessToken, expiresAt.getTime()),
+      expiresAt: expiresAt.toISOString(),
+      format,
+      size: stored.size,
+      fileKey: stored.key,
+      filename: `${slugify(report.name)}.${file.extension}`,
+    };
+  } catch (error) {
+    console.error('Error exporting report:', error);
+    return { success: false, error: 'Failed to export report', status: 500 };
+  }
+}
+
+/**
+ * Resolve a signed download link to the report file it grants
+ */
+export async function resolveReportDownload(
+  token: string,
+  expires: string | null,
+  signature: string | null
+): Promise<ReportDownloadResult> {
+  const expiresAt = Number(expires);
+
+  if (!expires || !signature || !Number.isFinite(expiresAt) || !verifySignature(token, expiresAt, signature)) {
+    return { success: false, error: 'Invalid download link', status: 403 };
+  }
+
+  if (expiresAt <= Date.now()) {
+    return { success: false, error: 'Download link has expired', status: 410 };
+  }
+
+  const { data: report, error } = await supabase
+    .from('reports')
+    .select('id, name, file_url, expires_at, download_count')
+    .eq('access_token', token)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error resolving report download:', error);
+    return { success: false, error: 'Failed to download report', status: 500 };
+  }
+
+  // A newer export replaces the token, which revokes older links
+  if (!report || !report.file_url) {
+    return { success: false, error: 'Download link is no longer valid', status: 404 };
+  }
+
+  if (!report.expires_at || new Date(report.expires_at).getTime() <= Date.now()) {
+    return { success: false, error: 'Download link has expired', status: 410 };
+  }
+
+  const body = await getFileStore().get(report.file_url);
+  if (!body) {
+    return { success: false, error: 'Report file is no longer available', status: 404 };
+  }
+
+  const format = parseExportFormat(report.file_url.split('.').pop()) || 'csv';
+
+  await supabase
+    .from('reports')
+    .update({
+      download_count: (report.download_count || 0) + 1,
+      last_downloaded_at: new Date().toISOString(),
+    })
+    .eq('id', report.id);
+
+  return {
+    success: true,
+    download: {
+      body,
+      contentType: REPORT_CONTENT_TYPES[format],
+      filename: `${slugify(report.name)}.${format}`,
+    },
+  };
+}
+
+async function renderReportFile(
+  name: string,
+  result: ReportResultData,
+  format: ReportExportFormat
+): Promise<ExportFile> {
+  const data: ExportData = {
+    headers: result.columns,
+    rows: result.rows,
+    title: name,
+    metadata: {
+      Generated: result.generatedAt,
+      Rows: result.truncated ? `${result.rows.length} of ${result.rowCount}` : result.rowCount,
+    },
+  };
+
+  switch (format) {
+    case 'xlsx':
+      return buildExcel(data);
+    case 'pdf':
+      return buildPDF(data);
+    default:
+      return buildCSV(data);
+  }
+}
+
+function signDownloadPath(token: string, expiresAt: number): string {
+  const params = new URLSearchParams({
+    expires: String(expiresAt),
+    signature: sign(token, expiresAt),
+  });
+
+  return `${DOWNLOAD_PATH}/${encodeURIComponent(token)}?${params}`;
+}
+
+function sign(token: string, expiresAt: number): string {
+  return crypto
+    .createHmac('sha256', getSigningKey())
+    .update(`${token}.${expiresAt}`)
+    .digest('base64url');
+}
+
+function verifySignature(token: string, expiresAt: number, signature: string): boolean {
+  const expected = Buffer.from(sign(token, expiresAt));
+  const actual = Buffer.from(signature);
+  return expected.length === actual.length && crypto.timingSafeEqual(expected, actual);
+}
+
+function getSigningKey(): string {
+  const key = process.env.REPORT_DOWNLOAD_SECRET;
+
+  if (!key) {
+    throw new Error('Missing REPORT_DOWNLOAD_SECRET environment variable');
+  }
+
+  return key;
+}
+
+function slugify(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '').slice(0, 60) || 'report';
+}
@@ -0,0 +1,336 @@
+import crypto from 'crypto';
+import os from 'os';
+import { supabase } from '@/lib/supabase';
+import { invalidateCacheTags } from '@/lib/api/cache';
+import { nextCronOccurrence, parseCron, type CronSchedule } from '@/lib/cron';
+import { executeReport } from '@/lib/admin/report-engine';
+import { deliverScheduledReport, type DeliverReportResult } from '@/lib/admin/report-delivery';
+import type { ReportSchedule } from '@/lib/types/database.types';
+
+/**
+ * Report scheduler
+ *
+ * Each tick claims the active schedules whose next_run_at has passed, runs
+ * their report and moves next_run_at on to the cron expression's next
+ * occurrence. Any number of workers can tick at once: a schedule is claimed
+ * with a conditional update on its lease (claimed_by/claim_expires_at), so
+ * only one of them runs a given occurrence, and a worker that dies simply
+ * lets its lease lapse.
+ *
+ * A failed run is retried with exponential backoff up to
+ * REPORT_SCHEDULER_MAX_ATTEMPTS times, as long as the retry comes before the
+ * next occurrence. run_count counts every run and failure_count every
+ * failed one. Completed runs are mailed to the schedule's recipients, see
+ * report-delivery.ts.
+ */
+
+export const SCHEDULER_BATCH_SIZE = parseInt(process.env.REPORT_SCHEDULER_BATCH_SIZE || '10');
+// Must outlast a run (REPORT_EXECUTION_TIMEOUT_MS) and mailing its result
+export const SCHEDULER_LEASE_SECONDS = parseInt(process.env.REPORT_SCHEDULER_LEASE_SECONDS || '300');
+export const SCHEDULER_MAX_ATTEMPTS = parseInt(process.env.REPORT_SCHEDULER_MAX_ATTEMPTS || '3');
+export const SCHEDULER_RETRY_BASE_SECONDS = parseInt(process.env.REPORT_SCHEDULER_RETRY_BASE_SECONDS || '60');
+export const DEFAULT_SCHEDULE_TIMEZONE = process.env.REPORT_SCHEDULER_TIMEZONE || 'UTC';
+
+const MAX_RETRY_DELAY_MS = 60 * 60 * 1000;
+
+export type ScheduleRunStatus = 'completed' | 'retrying' | 'failed';
+
+export interface ScheduleRunResult {
+  scheduleId: string;
+  name: string;
+  status: ScheduleRunStatus;
+  executionId?: string;
+  error?: string;
+  // Emails sent to the schedule's recipients after a completed run
+  delivery?: DeliverReportResult;
+  nextRunAt: string | null;
+}
+
+export interface SchedulerTickOptions {
+  workerId?: string;
+  batchSize?: number;
+}
+
+export interface SchedulerTickResult {
+  workerId: string;
+  // Active schedules that had no next_run_at yet
+  primed: number;
+  claimed: number;
+  runs: ScheduleRunResult[];
+  startedAt: string;
+  completedAt: string;
+}
+
+/**
+ * Identify this process in claimed_by
+ */
+export function createWorkerId(): string {
+  return `${os.hostname()}:${process.pid}:${crypto.randomBytes(3).toString('hex')}`;
+}
+
+/**
+ * Next time a schedule is due after `after`, or null if its expression never fires again
+ */
+export function nextScheduleRun(
+  cronExpression: string,
+  timezone: string | null = DEFAULT_SCHEDULE_TIMEZONE,
+  after: Date = new Date()
+): string | null {
+  const next = nextCronOccurrence(parseCron(cronExpression, timezone || DEFAULT_SCHEDULE_TIMEZONE), after);
+  return next ? next.toISOString() : null;
+}
+
+/**
+ * Claim and run every due schedule, one at a time
+ */
+export async function runSchedulerTick(options: SchedulerTickOptions = {}): Promise<SchedulerTickResult> {
+  const workerId = options.workerId || createWorkerId();
+  const batchSize = Math.max(1, options.batchSize || SCHEDULER_BATCH_SIZE);
+  const startedAt = new Date();
+
+  const primed = await primeSchedules(batchSize);
+  const due = await fetchDueSchedules(batchSize, startedAt);
+  const runs: ScheduleRunResult[] = [];
+  let claimed = 0;
+
+  for (const candidate of due) {
+    const schedule = await claimSchedule(candidate, workerId);
+    if (!schedule) {
+      continue;
+    }
+
+    claimed++;
+    runs.push(await runSchedule(schedule, workerId));
+  }
+
+  return {
+    workerId,
+    primed,
+    claimed,
+    runs,
+    startedAt: startedAt.toISOString(),
+    completedAt: new Date().toISOString(),
+  };
+}
+
+/**
+ * Check a tick request's bearer token against REPORT_SCHEDULER_SECRET
+ */
+export function verifySchedulerSecret(authorization: string | null): boolean {
+  const secret = process.env.REPORT_SCHEDULER_SECRET;
+
+  if (!secret) {
+    throw new Error('Missing REPORT_SCHEDULER_SECRET environment variable');
+  }
+
+  const token = authorization?.replace(/^Bearer\s+/i, '') || '';
+  const expected = crypto.createHash('sha256').update(secret).digest();
+  const actual = crypto.createHash('sha256').update(token).digest();
+
+  return crypto.timingSafeEqual(expected, actual);
+}
+
+/**
+ * Give newly created or reactivated schedules their first next_run_at
+ */
+async function primeSchedules(limit: number): Promise<number> {
+  const { data, error } = await supabase
+    .from('report_schedules')
+    .select('id, cron_expression, timezone')
+    .eq('is_active', true)
+    .is('next_run_at', null)
+    .limit(limit);
+
+  if (error) {
+    console.error('Error fetching unscheduled report schedules:', error);
+    return 0;
+  }
+
+  let primed = 0;
+
+  for (const schedule of data || []) {
+    const cron = tryParseCron(schedule);
+    const changes = 'error' in cron
+      ? { is_active: false, last_error: cron.error }
+      : { next_run_at: nextCronOccurrence(cron.schedule)?.toISOString() ?? null };
+
+    // Only fill in rows nobody else primed in the meantime
+    const { data: updated, error: updateError } = await supabase
+      .from('report_schedules')
+      .update(changes)
+      .eq('id', schedule.id)
+      .is('next_run_at', null)
+      .select('id');
+
+    if (updateError) {
+      console.error('Error scheduling report schedule:', updateError);
+      continue;
+    }
+
+    if ('schedule' in cron && updated && updated.length > 0) primed++;
+  }
+
+  return primed;
+}
+
+async function fetchDueSchedules(limit: number, now: Date): Promise<ReportSchedule[]> {
+  const { data, error } = await supabase
+    .from('report_schedules')
+    .select('*')
+    .eq('is_active', true)
+    .lte('next_run_at', now.toISOString())
+    .or(`claim_expires_at.is.null,claim_expires_at.lt.${now.toISOString()}`)
+    .order('next_run_at', { ascending: true })
+    .limit(limit);
+
+  if (error) {
+    console.error('Error fetching due report schedules:', error);
+    throw error;
+  }
+
+  return (data || []) as ReportSchedule[];
+}
+
+async function claimSchedule(schedule: ReportSchedule, workerId: string): Promise<ReportSchedule | null> {
+  const claimedAt = new Date();
+  const expiresAt = new Date(claimedAt.getTime() + SCHEDULER_LEASE_SECONDS * 1000);
+
+  // The conditional update is the lock: it only matches while the lease is
+  // free and the occurrence we saw has not been run by another worker
+  const { data, error } = await supabase
+    .from('report_schedules')
+    .update({
+      claimed_by: workerId,
+      claim_expires_at: expiresAt.toISOString(),
+    })
+    .eq('id', schedule.id)
+    .eq('is_active', true)
+    .eq('next_run_at', schedule.next_run_at)
+    .or(`claim_expires_at.is.null,claim_expires_at.lt.${claimedAt.toISOString()}`)
+    .select('*');
+
+  if (error) {
+    console.error('Error claiming report schedule:', error);
+    return null;
+  }
+
+  return data && data.length > 0 ? (data[0] as ReportSchedule) : null;
+}
+
+async function runSchedule(schedule: ReportSchedule, workerId: string): Promise<ScheduleRunResult> {
+  const cron = tryParseCron(schedule);
+
+  if ('error' in cron) {
+    // Retrying cannot fix the expression, so stop until someone edits it
+    await finishSchedule(schedule, workerId, {
+      is_active: false,
+      next_run_at: null,
+      failure_count: (schedule.failure_count || 0) + 1,
+      last_error: cron.error,
+      retry_attempt: 0,
+    });
+    return { scheduleId: schedule.id, name: schedule.name, status: 'failed', error: cron.error, nextRunAt: null };
+  }
+
+  const result = schedule.report_id
+    ? await executeReport(schedule.report_id, {
+      scheduleId: schedule.id,
+      triggeredBy: null,
+      overrides: { ...(schedule.parameters || {}), ...(schedule.filters || {}) },
+    })
+    : { success: false, error: 'Schedule has no report to run', execution: undefined };
+
+  const ranAt = new Date();
+  const nextOccurrence = nextCronOccurrence(cron.schedule, ranAt);
+  const counters = {
+    run_count: (schedule.run_count || 0) + 1,
+    last_run_at: ranAt.toISOString(),
+  };
+
+  if (result.success && schedule.report_id) {
+    // A delivery problem is recorded per recipient and does not retry the run
+    const delivery = schedule.recipients?.length
+      ? await deliverScheduledReport(schedule, schedule.report_id, {
+        executionId: result.execution?.id,
+        data: result.data,
+      })
+      : undefined;
+
+    await finishSchedule(schedule, workerId, {
+      ...counters,
+      next_run_at: nextOccurrence?.toISOString() ?? null,
+      last_error: delivery?.error ? `Email delivery: ${delivery.error}` : null,
+      retry_attempt: 0,
+    });
+    await invalidateCacheTags(['reports', `report:${schedule.report_id}`]);
+
+    return {
+      scheduleId: schedule.id,
+      name: schedule.name,
+      status: 'completed',
+      executionId: result.execution?.id,
+      delivery,
+      nextRunAt: nextOccurrence?.toISOString() ?? null,
+    };
+  }
+
+  const error = result.error || 'Report execution failed';
+  const attempt = (schedule.retry_attempt || 0) + 1;
+  const retryAt = new Date(ranAt.getTime() + retryDelay(attempt));
+  const retry = attempt < SCHEDULER_MAX_ATTEMPTS && (!nextOccurrence || retryAt < nextOccurrence);
+  const nextRunAt = retry ? retryAt.toISOString() : nextOccurrence?.toISOString() ?? null;
+
+  await finishSchedule(schedule, workerId, {
+    ...counters,
+    next_run_at: nextRunAt,
+    failure_count: (schedule.failure_count || 0) + 1,
+    last_error: error,
+    retry_attempt: retry ? attempt : 0,
+  });
+
+  return {
+    scheduleId: schedule.id,
+    name: schedule.name,
+    status: retry ? 'retrying' : 'failed',
+    executionId: result.execution?.id,
+    error,
+    nextRunAt,
+  };
+}
+
+/**
+ * Record a run and release the lease, unless another worker has since taken it over
+ */
+async function finishSchedule(schedule: ReportSchedule, workerId: string, changes: Partial<ReportSchedule>) {
+  const { data, error } = await supabase
+    .from('report_schedules')
+    .update({ ...changes, claimed_by: null, claim_expires_at: null })
+    .eq('id', schedule.id)
+    .eq('claimed_by', workerId)
+    .select('id');
+
+  if (error) {
+    console.error('Error updating report schedule:', error);
+    return;
+  }
+
+  if (!data || data.length === 0) {
+    console.warn(`Lease on report schedule ${schedule.id} lapsed before its run finished`);
+  }
+}
+
+// Doubles with each attempt, plus up to 10% jitter so retries spread out
+function retryDelay(attempt: number): number {
+  const delay = Math.min(MAX_RETRY_DELAY_MS, SCHEDULER_RETRY_BASE_SECONDS * 1000 * 2 ** (attempt - 1));
+  return Math.round(delay * (1 + Math.random() * 0.1));
+}
+
+function tryParseCron(
+  schedule: Pick<ReportSchedule, 'cron_expression' | 'timezone'>
+): { schedule: CronSchedule } | { error: string } {
+  try {
+    return { schedule: parseCron(schedule.cron_expression, schedule.timezone || DEFAULT_SCHEDULE_TIMEZONE) };
+  } catch (error) {
+    return { error: error instanceof Error ? error.message : 'Invalid cron expression' };
+  }
+}
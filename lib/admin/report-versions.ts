@@ -0,0 +1,316 @@
+import { supabase } from '@/lib/supabase';
+import type { ReportVersionEntity } from '@/lib/types/database.types';
+
+/**
+ * Report definition history
+ *
+ * Reports and report templates are only changed through saveReportVersion,
+ * which bumps the row's `version` and writes the new definition to
+ * report_versions. Versions are never edited or deleted: rolling back
+ * writes an old definition back as a new version. Executions record the
+ * report and template versions they ran (see report-engine.ts), which is
+ * how a run-to-run comparison tells a changed definition from changed data.
+ */
+
+// Columns that make up a definition. Results, counters and scheduling are not versioned.
+export const VERSIONED_FIELDS: Record<ReportVersionEntity, string[]> = {
+  report: ['name', 'description', 'type', 'template_id', 'parameters', 'filters', 'is_public'],
+  template: ['name', 'description', 'template_type', 'configuration', 'sql_query', 'chart_config', 'is_active'],
+};
+
+const ENTITY_TABLES: Record<ReportVersionEntity, string> = {
+  report: 'reports',
+  template: 'report_templates',
+};
+
+const ENTITY_LABELS: Record<ReportVersionEntity, string> = {
+  report: 'Report',
+  template: 'Report template',
+};
+
+export interface ReportVersionSummary {
+  id: string;
+  entityType: ReportVersionEntity;
+  entityId: string;
+  version: number;
+  snapshot: Record<string, any>;
+  changedFields: string[];
+  changeSummary: string | null;
+  restoredFrom: number | null;
+  createdBy: string | null;
+  createdAt: string;
+}
+
+export interface FieldChange {
+  field: string;
+  before: unknown;
+  after: unknown;
+}
+
+export interface SaveReportVersionOptions {
+  summary?: string;
+  restoredFrom?: number;
+}
+
+export interface SaveReportVersionResult {
+  success: boolean;
+  // Absent when the changes left the definition as it was
+  version?: ReportVersionSummary;
+  row?: Record<string, any>;
+  error?: string;
+  status?: number;
+}
+
+/**
+ * Record the first version of a newly created report or template
+ */
+export async function recordInitialVersion(
+  entityType: ReportVersionEntity,
+  row: Record<string, any>,
+  createdBy: string | null
+): Promise<void> {
+  await insertVersion(entityType, row.id, 1, pickDefinition(entityType, row), {
+    changedFields: [],
+    summary: 'Created',
+    createdBy,
+  });
+}
+
+/**
+ * Change a report's or template's definition and record it as a new version
+ *
+ * Only VERSIONED_FIELDS are applied. The update is conditional on the
+ * version that was read, so of two concurrent edits the second gets a 409
+ * instead of silently overwriting the first.
+ */
+export async function saveReportVersion(
+  entityType: ReportVersionEntity,
+  entityId: string,
+  changes: Record<string, any>,
+  updatedBy: string,
+  options: SaveReportVersionOptions = {}
+): Promise<SaveReportVersionResult> {
+  const table = ENTITY_TABLES[entityType];
+  const { data: current, error } = await supabase
+    .from(table)
+    .select('*')
+    .eq('id', entityId)
+    .maybeSingle();
+
+  if (error) {
+    console.error(`Error loading ${table} row for versioning:`, error);
+    return { success: false, error: `Failed to load ${ENTITY_LABELS[entityType].toLowerCase()}`, status: 500 };
+  }
+
+  if (!current) {
+    return { success: false, error: `${ENTITY_LABELS[entityType]} not found`, status: 404 };
+  }
+
+  const before = pickDefinition(entityType, current);
+  const after = pickDefinition(entityType, { ...current, ...changes });
+  const changed = diffDefinitions(before, after);
+
+  if (changed.length === 0) {
+    return { success: true, row: current };
+  }
+
+  if (after.name !== before.name) {
+    const { data: duplicate } = await supabase
+      .from(table)
+      .select('id')
+      .eq('name', after.name)
+      .neq('id', entityId)
+      .maybeSingle();
+
+    if (duplicate) {
+      return { success: false, error: `${ENTITY_LABELS[entityType]} with this name already exists`, status: 409 };
+    }
+  }
+
+  const currentVersion: number = current.version || 0;
+
+  // Rows created before versioning get their current definition as version 1
+  if (currentVersion === 0) {
+    await insertVersion(entityType, entityId, 1, before, {
+      changedFields: [],
+      summary: 'Definition before versioning',
+      createdBy: current.updated_by || current.created_by || null,
+    });
+  }
+
+  const nextVersion = Math.max(currentVersion, 1) + 1;
+  let update = supabase
+    .from(table)
+    .update({ ...pickChanges(entityType, changes), version: nextVersion, updated_by: updatedBy })
+    .eq('id', entityId);
+
+  update = current.version === null || current.version === undefined
+    ? update.is('version', null)
+    : update.eq('version', currentVersion);
+
+  const { data: updated, error: updateError } = await update.select('*');
+
+  if (updateError) {
+    console.error(`Error updating ${table} row:`, updateError);
+    return { success: false, error: `Failed to update ${ENTITY_LABELS[entityType].toLowerCase()}`, status: 500 };
+  }
+
+  if (!updated || updated.length === 0) {
+    return {
+      success: false,
+      error: `${ENTITY_LABELS[entityType]} was changed by someone else, reload it and try again`,
+      status: 409,
+    };
+  }
+
+  const version = await insertVersion(entityType, entityId, nextVersion, after, {
+    changedFields: changed.map(change => change.field),
+    summary: options.summary || null,
+    restoredFrom: options.restoredFrom ?? null,
+    createdBy: updatedBy,
+  });
+
+  return { success: true, row: updated[0], version: version || undefined };
+}
+
+/**
+ * Restore an earlier definition as a new version
+ */
+export async function rollbackToVersion(
+  entityType: ReportVersionEntity,
+  entityId: string,
+  version: number,
+  updatedBy: string
+): Promise<SaveReportVersionResult> {
+  const target = await fetchReportVersion(entityType, entityId, version);
+
+  if (!target) {
+    return { success: false, error: `Version ${version} not found`, status: 404 };
+  }
+
+  return saveReportVersion(entityType, entityId, target.snapshot, updatedBy, {
+    summary: `Rolled back to version ${version}`,
+    restoredFrom: version,
+  });
+}
+
+/**
+ * Versions of a report or template, newest first
+ */
+export async function fetchReportVersions(
+  entityType: ReportVersionEntity,
+  entityId: string,
+  limit = 50
+): Promise<ReportVersionSummary[]> {
+  const { data, error } = await supabase
+    .from('report_versions')
+    .select('*')
+    .eq('entity_type', entityType)
+    .eq('entity_id', entityId)
+    .order('version', { ascending: false })
+    .limit(limit);
+
+  if (error) {
+    console.error('Error fetching report versions:', error);
+    throw error;
+  }
+
+  return (data || []).map(toVersionSummary);
+}
+
+export async function fetchReportVersion(
+  entityType: ReportVersionEntity,
+  entityId: string,
+  version: number
+): Promise<ReportVersionSummary | null> {
+  const { data, error } = await supabase
+    .from('report_versions')
+    .select('*')
+    .eq('entity_type', entityType)
+    .eq('entity_id', entityId)
+    .eq('version', version)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error fetching report version:', error);
+    throw error;
+  }
+
+  return data ? toVersionSummary(data) : null;
+}
+
+/**
+ * Fields that differ between two definitions
+ */
+export function diffDefinitions(before: Record<string, any>, after: Record<string, any>): FieldChange[] {
+  const fields = Array.from(new Set([...Object.keys(before), ...Object.keys(after)]));
+
+  return fields
+    .filter(field => stableStringify(before[field]) !== stableStringify(after[field]))
+    .map(field => ({ field, before: before[field] ?? null, after: after[field] ?? null }));
+}
+
+function pickDefinition(entityType: ReportVersionEntity, row: Record<string, any>): Record<string, any> {
+  return Object.fromEntries(VERSIONED_FIELDS[entityType].map(field => [field, row[field] ?? null]));
+}
+
+function pickChanges(entityType: ReportVersionEntity, changes: Record<string, any>): Record<string, any> {
+  return Object.fromEntries(
+    Object.entries(changes).filter(([field]) => VERSIONED_FIELDS[entityType].includes(field))
+  );
+}
+
+async function insertVersion(
+  entityType: ReportVersionEntity,
+  entityId: string,
+  version: number,
+  snapshot: Record<string, any>,
+  details: { changedFields: string[]; summary: string | null; restoredFrom?: number | null; createdBy: string | null }
+): Promise<ReportVersionSummary | null> {
+  const { data, error } = await supabase
+    .from('report_versions')
+    .insert({
+      entity_type: entityType,
+      entity_id: entityId,
+      version,
+      snapshot,
+      changed_fields: details.changedFields,
+      change_summary: details.summary,
+      restored_from: details.restoredFrom ?? null,
+      created_by: details.createdBy,
+    })
+    .select()
+    .single();
+
+  if (error) {
+    // The row itself has changed by now; the history just misses this entry
+    console.error('Error recording report version:', error);
+    return null;
+  }
+
+  return toVersionSummary(data);
+}
+
+// JSON with sorted keys, so reordered objects do not count as changes
+function stableStringify(value: unknown): string {
+  return JSON.stringify(value ?? null, (_key, nested) =>
+    nested && typeof nested === 'object' && !Array.isArray(nested)
+      ? Object.fromEntries(Object.keys(nested).sort().map(key => [key, nested[key]]))
+      : nested
+  );
+}
+
+function toVersionSummary(row: any): ReportVersionSummary {
+  return {
+    id: row.id,
+    entityType: row.entity_type,
+    entityId: row.entity_id,
+    version: row.version,
+    snapshot: row.snapshot || {},
+    changedFields: row.changed_fields || [],
+    changeSummary: row.change_summary,
+    restoredFrom: row.restored_from,
+    createdBy: row.created_by,
+    createdAt: row.created_at,
+  };
+}
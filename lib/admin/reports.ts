@@ -1,4 +1,8 @@
 import { supabase } from '@/lib/supabase';
+import { RBACManager } from '@/lib/auth/rbac';
+import { resolveOwnership, resolveScopeOwners, toInList, type ScopeContext } from '@/lib/admin/scope';
+import { executeReport, type ExecuteReportResult } from '@/lib/admin/report-engine';
+import { recordInitialVersion, saveReportVersion } from '@/lib/admin/report-versions';
 
 export interface Report {
   id: string;
@@ -22,6 +26,8 @@ export interface Report {
   isPublic: boolean;
   downloadCount: number;
   averageRunTime: number;
+  templateId: string | null;
+  version: number;
 }
 
 export interface PaginationInfo {
@@ -50,6 +56,8 @@ export interface CreateReportRequest {
   name: string;
   description: string;
   type: 'analytics' | 'users' | 'surveys' | 'financial' | 'system';
+  // Run a saved report_templates query instead of the type's built-in one
+  templateId?: string;
   scheduleConfig?: {
     frequency: 'daily' | 'weekly' | 'monthly' | 'custom';
     interval?: number;
@@ -67,6 +75,38 @@ export interface CreateReportResult {
   error?: string;
 }
 
+/**
+ * Definition fields of a report that can be edited; each edit is versioned
+ */
+export interface UpdateReportRequest {
+  name?: string;
+  description?: string;
+  type?: CreateReportRequest['type'];
+  templateId?: string | null;
+  parameters?: Record<string, any>;
+  filters?: Record<string, any>;
+  isPublic?: boolean;
+  // Note stored with the new version
+  changeSummary?: string;
+}
+
+export interface UpdateReportResult {
+  success: boolean;
+  report?: Report;
+  // Version created by the update, absent when nothing changed
+  version?: number;
+  error?: string;
+  status?: number;
+}
+
+export interface ReportAccessResult {
+  allowed: boolean;
+  status?: number;
+  error?: string;
+}
+
+export type ReportAccessAction = 'read' | 'update' | 'delete' | 'schedule';
+
 export interface ValidateScheduleResult {
   isValid: boolean;
   errors?: string[];
@@ -83,7 +123,10 @@ interface ReportsFilters {
   sortOrder?: 'asc' | 'desc';
 }
 
-export async function fetchReports(filters: ReportsFilters = {}): Promise<ReportsListResponse> {
+export async function fetchReports(
+  filters: ReportsFilters = {},
+  context?: ScopeContext
+): Promise<ReportsListResponse> {
   try {
     const page = Math.max(1, filters.page || 1);
     const limit = Math.min(100, Math.max(1, filters.limit || 25));
@@ -106,9 +149,21 @@ export async function fetchReports(filters: ReportsFilters = {}): Promise<Report
         created_by,
         is_public,
         download_count,
-        average_run_time
+        average_run_time,
+        template_id,
+        version
       `, { count: 'exact' });
 
+    // Scoped readers see their own (or their team's) reports plus public ones
+    if (context) {
+      const owners = await resolveScopeOwners(context, 'reports', 'read');
+      if (owners) {
+        query = owners.emails.length > 0
+          ? query.or(`is_public.eq.true,created_by.in.${toInList([...owners.emails, ...owners.ids])}`)
+          : query.eq('is_public', true);
+      }
+    }
+
     // Apply filters
     if (filters.status) {
       query = query.eq('status', filters.status);
@@ -138,23 +193,7 @@ export async function fetchReports(filters: ReportsFilters = {}): Promise<Report
       throw error;
     }
 
-    const reports: Report[] = (data || []).map((row: any) => ({
-      id: row.id,
-      name: row.name,
-      description: row.description,
-      type: row.type,
-      status: row.status,
-      createdAt: row.created_at,
-      updatedAt: row.updated_at,
-      lastRunAt: row.last_run_at,
-      nextRunAt: row.next_run_at,
-      scheduleConfig: row.schedule_config,
-      parameters: row.parameters || {},
-      createdBy: row.created_by,
-      isPublic: row.is_public || false,
-      downloadCount: row.download_count || 0,
-      averageRunTime: row.average_run_time || 0,
-    }));
+    const reports: Report[] = (data || []).map(toReport);
 
     const total = count || 0;
     const totalPages = Math.ceil(total / limit);
@@ -210,6 +249,7 @@ export async function createReport(
       name: requestData.name,
       description: requestData.description,
       type: requestData.type,
+      template_id: requestData.templateId || null,
       status: requestData.scheduleConfig ? 'scheduled' : 'inactive',
       schedule_config: requestData.scheduleConfig,
       parameters: requestData.parameters || {},
@@ -218,6 +258,7 @@ export async function createReport(
       next_run_at: nextRunAt,
       download_count: 0,
       average_run_time: 0,
+      version: 1,
     };
 
     const { data, error } = await supabase
@@ -230,31 +271,104 @@ export async function createReport(
       throw error;
     }
 
-    const createdReport: Report = {
-      id: data.id,
-      name: data.name,
-      description: data.description,
-      type: data.type,
-      status: data.status,
-      createdAt: data.created_at,
-      updatedAt: data.updated_at,
-      lastRunAt: data.last_run_at,
-      nextRunAt: data.next_run_at,
-      scheduleConfig: data.schedule_config,
-      parameters: data.parameters || {},
-      createdBy: data.created_by,
-      isPublic: data.is_public || false,
-      downloadCount: data.download_count || 0,
-      averageRunTime: data.average_run_time || 0,
-    };
+    await recordInitialVersion('report', data, createdBy);
 
-    return { success: true, report: createdReport };
+    return { success: true, report: toReport(data) };
   } catch (error) {
     console.error('Error creating report:', error);
     throw error;
   }
 }
 
+/**
+ * Edit a report's definition, recording the result as a new version
+ */
+export async function updateReport(
+  reportId: string,
+  requestData: UpdateReportRequest,
+  updatedBy: string
+): Promise<UpdateReportResult> {
+  const changes: Record<string, any> = {};
+  if (requestData.name !== undefined) changes.name = requestData.name.trim();
+  if (requestData.description !== undefined) changes.description = requestData.description.trim();
+  if (requestData.type !== undefined) changes.type = requestData.type;
+  if (requestData.templateId !== undefined) changes.template_id = requestData.templateId;
+  if (requestData.parameters !== undefined) changes.parameters = requestData.parameters;
+  if (requestData.filters !== undefined) changes.filters = requestData.filters;
+  if (requestData.isPublic !== undefined) changes.is_public = requestData.isPublic;
+
+  const result = await saveReportVersion('report', reportId, changes, updatedBy, {
+    summary: requestData.changeSummary?.trim() || undefined,
+  });
+
+  if (!result.success) {
+    return { success: false, error: result.error, status: result.status };
+  }
+
+  return { success: true, report: toReport(result.row), version: result.version?.version };
+}
+
+/**
+ * Check a scoped report permission against one report's creator
+ *
+ * created_by holds the creator's email; older rows may hold an admin ID.
+ */
+export async function checkReportAccess(
+  reportId: string,
+  action: ReportAccessAction,
+  context: ScopeContext
+): Promise<ReportAccessResult> {
+  const { data: report, error } = await supabase
+    .from('reports')
+    .select('id, created_by, is_public')
+    .eq('id', reportId)
+    .single();
+
+  if (error || !report) {
+    return { allowed: false, status: 404, error: 'Report not found' };
+  }
+
+  const ownership = await resolveOwnership(
+    context,
+    { id: report.created_by, email: report.created_by },
+    action === 'read' && !!report.is_public
+  );
+
+  if (!RBACManager.canAccessResource(context.permissions, 'reports', action, ownership)) {
+    return { allowed: false, status: 403, error: `You cannot ${action} reports created by other admins` };
+  }
+
+  return { allowed: true };
+}
+
+/**
+ * Check a scoped report permission against the template's creator
+ */
+export async function checkReportTemplateAccess(
+  templateId: string,
+  action: Exclude<ReportAccessAction, 'schedule'>,
+  context: ScopeContext
+): Promise<ReportAccessResult> {
+  const { data: template, error } = await supabase
+    .from('report_templates')
+    .select('id, created_by')
+    .eq('id', templateId)
+    .single();
+
+  if (error || !template) {
+    return { allowed: false, status: 404, error: 'Report template not found' };
+  }
+
+  // created_by holds the creator's email
+  const ownership = await resolveOwnership(context, { id: template.created_by, email: template.created_by });
+
+  if (!RBACManager.canAccessResource(context.permissions, 'reports', action, ownership)) {
+    return { allowed: false, status: 403, error: `You cannot ${action} report templates created by other admins` };
+  }
+
+  return { allowed: true };
+}
+
 export async function validateReportConfig(
   scheduleConfig?: CreateReportRequest['scheduleConfig']
 ): Promise<ValidateScheduleResult> {
@@ -303,74 +417,15 @@ export async function validateReportConfig(
   };
 }
 
-export async function runReport(reportId: string): Promise<{ success: boolean; error?: string }> {
+/**
+ * Run a report through the execution engine, recording who asked for it
+ */
+export async function runReport(reportId: string, triggeredBy?: string): Promise<ExecuteReportResult> {
   try {
-    // First get the current download count
-    const { data: currentReport, error: fetchError } = await supabase
-      .from('reports')
-      .select('download_count')
-      .eq('id', reportId)
-      .single();
-
-    if (fetchError) {
-      throw fetchError;
-    }
-
-    // Then update with incremented count
-    const { error } = await supabase
-      .from('reports')
-      .update({
-        last_run_at: new Date().toISOString(),
-        download_count: (currentReport?.download_count || 0) + 1,
-      })
-      .eq('id', reportId);
-
-    if (error) {
-      throw error;
-    }
-
-    return { success: true };
+    return await executeReport(reportId, { triggeredBy });
   } catch (error) {
     console.error('Error running report:', error);
-    return { success: false, error: 'Failed to run report' };
-  }
-}
-
-export async function exportReport(
-  reportId: string,
-  format: 'csv' | 'pdf' | 'excel'
-): Promise<{ success: boolean; url?: string; error?: string }> {
-  try {
-    // Mock implementation - in real app would generate the export
-    const { data: report, error } = await supabase
-      .from('reports')
-      .select('*')
-      .eq('id', reportId)
-      .single();
-
-    if (error || !report) {
-      return { success: false, error: 'Report not found' };
-    }
-
-    // Mock export URL
-    const mockUrl = `https://storage.example.com/exports/${reportId}.${format}`;
-
-    // Get current download count and update
-    const { data: currentReport } = await supabase
-      .from('reports')
-      .select('download_count')
-      .eq('id', reportId)
-      .single();
-
-    await supabase
-      .from('reports')
-      .update({ download_count: (currentReport?.download_count || 0) + 1 })
-      .eq('id', reportId);
-
-    return { success: true, url: mockUrl };
-  } catch (error) {
-    console.error('Error exporting report:', error);
-    return { success: false, error: 'Failed to export report' };
+    return { success: false, error: 'Failed to run report', status: 500 };
   }
 }
 
@@ -419,4 +474,26 @@ function calculateNextRunTime(scheduleConfig: NonNullable<CreateReportRequest['s
   }
 
   return nextRun.toISOString();
-}
\ No newline at end of file
+}
+
+function toReport(row: any): Report {
+  return {
+    id: row.id,
+    name: row.name,
+    description: row.description,
+    type: row.type,
+    status: row.status,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+    lastRunAt: row.last_run_at,
+    nextRunAt: row.next_run_at,
+    scheduleConfig: row.schedule_config,
+    parameters: row.parameters || {},
+    createdBy: row.created_by,
+    isPublic: row.is_public || false,
+    downloadCount: row.download_count || 0,
+    averageRunTime: row.average_run_time || 0,
+    templateId: row.template_id || null,
+    version: row.version || 0,
+  };
+}
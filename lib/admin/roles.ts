@@ -0,0 +1,637 @@
+import { supabase } from '@/lib/supabase';
+import { recordAuditLog } from '@/lib/admin/audit-logs';
+import {
+  RBACManager,
+  type Permission,
+  type PermissionDiff,
+  type PermissionOverrides,
+} from '@/lib/auth/rbac';
+import type { AdminCustomRole, AdminUser, AdminUserRole } from '@/lib/types/database.types';
+
+export interface CustomRole {
+  id: string;
+  name: string;
+  description: string | null;
+  inherits: AdminUserRole;
+  grants: string[];
+  revokes: string[];
+  // Effective "resource:action" keys after applying grants and revokes
+  permissions: string[];
+  assignedCount: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface AdminAccessEntry {
+  id: string;
+  email: string;
+  fullName: string | null;
+  role: AdminUserRole;
+  customRoleId: string | null;
+  overrides: PermissionOverrides;
+  permissions: string[];
+  isActive: boolean;
+}
+
+export interface EffectivePermissions {
+  permissions: Permission[];
+  customRole: Pick<CustomRole, 'id' | 'name' | 'inherits'> | null;
+  overrides: PermissionOverrides;
+}
+
+export interface CustomRoleInput {
+  name: string;
+  description: string | null;
+  inherits: AdminUserRole;
+  grants: string[];
+  revokes: string[];
+}
+
+export interface AdminAccessInput {
+  role: AdminUserRole;
+  customRoleId: string | null;
+  overrides: PermissionOverrides;
+}
+
+export interface RoleActor {
+  id: string;
+  email: string;
+  role: AdminUserRole;
+  permissions: Permission[];
+  ipAddress?: string | null;
+  userAgent?: string | null;
+}
+
+export interface RoleResult {
+  success: boolean;
+  role?: CustomRole;
+  diff?: PermissionDiff;
+  error?: string;
+  status?: number;
+}
+
+export interface AdminAccessResult {
+  success: boolean;
+  admin?: AdminAccessEntry;
+  diff?: PermissionDiff;
+  error?: string;
+  status?: number;
+}
+
+type AdminAccessSource = Pick<AdminUser, 'role' | 'permissions'> & { custom_role_id?: string | null };
+
+const ROLE_NAME_PATTERN = /^[a-z][a-z0-9_-]{1,49}$/;
+
+const ADMIN_ACCESS_SELECT = 'id, email, full_name, role, custom_role_id, permissions, is_active';
+
+/**
+ * Resolve the effective permission set for an admin row
+ *
+ * A dangling custom_role_id falls back to the built-in role rather than
+ * failing the request.
+ */
+export async function resolveAdminPermissions(admin: AdminAccessSource): Promise<EffectivePermissions> {
+  const overrides = RBACManager.normalizeOverrides(admin.permissions);
+  let customRole: AdminCustomRole | null = null;
+
+  if (admin.custom_role_id) {
+    const { data, error } = await supabase
+      .from('admin_custom_roles')
+      .select('*')
+      .eq('id', admin.custom_role_id)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error fetching custom role:', error);
+    } else {
+      customRole = data;
+    }
+  }
+
+  return {
+    permissions: RBACManager.resolvePermissions(admin.role, customRole, overrides),
+    customRole: customRole
+      ? { id: customRole.id, name: customRole.name, inherits: customRole.inherits }
+      : null,
+    overrides,
+  };
+}
+
+export async function fetchCustomRoles(): Promise<CustomRole[]> {
+  const [{ data: roles, error }, { data: assignments, error: assignmentError }] = await Promise.all([
+    supabase.from('admin_custom_roles').select('*').order('name', { ascending: true }),
+    supabase.from('admin_users').select('custom_role_id').not('custom_role_id', 'is', null),
+  ]);
+
+  if (error) {
+    throw error;
+  }
+
+  if (assignmentError) {
+    throw assignmentError;
+  }
+
+  const counts = new Map<string, number>();
+  (assignments || []).forEach((row: { custom_role_id: string }) => {
+    counts.set(row.custom_role_id, (counts.get(row.custom_role_id) || 0) + 1);
+  });
+
+  return (roles || []).map((row: AdminCustomRole) => mapCustomRole(row, counts.get(row.id) || 0));
+}
+
+export async function fetchAdminAccessEntries(): Promise<AdminAccessEntry[]> {
+  const [{ data: admins, error }, { data: roles, error: rolesError }] = await Promise.all([
+    supabase.from('admin_users').select(ADMIN_ACCESS_SELECT).order('email', { ascending: true }),
+    supabase.from('admin_custom_roles').select('*'),
+  ]);
+
+  if (error) {
+    throw error;
+  }
+
+  if (rolesError) {
+    throw rolesError;
+  }
+
+  const rolesById = new Map<string, AdminCustomRole>(
+    (roles || []).map((role: AdminCustomRole) => [role.id, role])
+  );
+
+  return (admins || []).map((row: any) =>
+    mapAdminAccess(row, row.custom_role_id ? rolesById.get(row.custom_role_id) || null : null)
+  );
+}
+
+export function validateCustomRoleInput(
+  body: any
+): { isValid: boolean; errors?: string[]; input?: CustomRoleInput } {
+  const errors: string[] = [];
+
+  if (!body || typeof body !== 'object') {
+    return { isValid: false, errors: ['Invalid request body'] };
+  }
+
+  const name = typeof body.name === 'string' ? body.name.trim().toLowerCase() : '';
+  if (!ROLE_NAME_PATTERN.test(name)) {
+    errors.push('Name must be 2-50 characters of lowercase letters, numbers, "-" or "_"');
+  } else if (RBACManager.isValidRole(name)) {
+    errors.push('Name clashes with a built-in role');
+  }
+
+  if (body.description !== undefined && body.description !== null && typeof body.description !== 'string') {
+    errors.push('Description must be a string');
+  }
+
+  if (!RBACManager.isValidRole(body.inherits)) {
+    errors.push('Inherited role must be one of the built-in roles');
+  }
+
+  const grants = validatePermissionKeys(body.grants, 'grants', errors);
+  const revokes = validatePermissionKeys(body.revokes, 'revokes', errors);
+
+  if (hasConflictingKeys(grants, revokes)) {
+    errors.push('A permission cannot be both granted and revoked');
+  }
+
+  if (errors.length > 0) {
+    return { isValid: false, errors };
+  }
+
+  return {
+    isValid: true,
+    input: {
+      name,
+      description: typeof body.description === 'string' && body.description.trim() ? body.description.trim() : null,
+      inherits: body.inherits,
+      grants,
+      revokes,
+    },
+  };
+}
+
+export function validateAdminAccessInput(
+  body: any
+): { isValid: boolean; errors?: string[]; input?: AdminAccessInput } {
+  const errors: string[] = [];
+
+  if (!body || typeof body !== 'object') {
+    return { isValid: false, errors: ['Invalid request body'] };
+  }
+
+  if (!RBACManager.isValidRole(body.role)) {
+    errors.push('Role must be one of the built-in roles');
+  }
+
+  if (body.customRoleId !== null && body.customRoleId !== undefined && typeof body.customRoleId !== 'string') {
+    errors.push('Custom role ID must be a string or null');
+  }
+
+  const overrides = body.overrides && typeof body.overrides === 'object' ? body.overrides : {};
+  const grant = validatePermissionKeys(overrides.grant, 'overrides.grant', errors);
+  const revoke = validatePermissionKeys(overrides.revoke, 'overrides.revoke', errors);
+
+  if (hasConflictingKeys(grant, revoke)) {
+    errors.push('A permission cannot be both granted and revoked');
+  }
+
+  if (errors.length > 0) {
+    return { isValid: false, errors };
+  }
+
+  return {
+    isValid: true,
+    input: {
+      role: body.role,
+      customRoleId: body.customRoleId || null,
+      overrides: { grant, revoke },
+    },
+  };
+}
+
+export async function createCustomRole(input: CustomRoleInput, actor: RoleActor): Promise<RoleResult> {
+  try {
+    const permissions = RBACManager.resolvePermissions(input.inherits, input);
+    const diff = RBACManager.diffPermissions([], permissions);
+
+    const escalation = checkEscalation(actor, diff);
+    if (escalation) {
+      return escalation;
+    }
+
+    const { data: created, error } = await supabase
+      .from('admin_custom_roles')
+      .insert({
+        name: input.name,
+        description: input.description,
+        inherits: input.inherits,
+        grants: input.grants,
+        revokes: input.revokes,
+        created_by: actor.id,
+        updated_by: actor.id,
+      })
+      .select('*')
+      .single();
+
+    if (error) {
+      if (error.code === '23505') {
+        return { success: false, status: 409, error: 'A role with this name already exists' };
+      }
+      throw error;
+    }
+
+    await recordAuditLog({
+      adminUserId: actor.id,
+      action: 'custom_role_create',
+      resourceType: 'admin_custom_role',
+      resourceId: created.id,
+      oldValues: null,
+      newValues: roleAuditValues(created),
+      metadata: { diff, actor: actor.email },
+      ipAddress: actor.ipAddress,
+      userAgent: actor.userAgent,
+    });
+
+    return { success: true, role: mapCustomRole(created, 0), diff };
+  } catch (error) {
+    console.error('Error creating custom role:', error);
+    return { success: false, status: 500, error: 'Failed to create role' };
+  }
+}
+
+export async function updateCustomRole(
+  roleId: string,
+  input: CustomRoleInput,
+  actor: RoleActor
+): Promise<RoleResult> {
+  try {
+    const { data: existing, error: fetchError } = await supabase
+      .from('admin_custom_roles')
+      .select('*')
+      .eq('id', roleId)
+      .single();
+
+    if (fetchError || !existing) {
+      return { success: false, status: 404, error: 'Role not found' };
+    }
+
+    const before = RBACManager.resolvePermissions(existing.inherits, existing);
+    const after = RBACManager.resolvePermissions(input.inherits, input);
+    const diff = RBACManager.diffPermissions(before, after);
+
+    const escalation = checkEscalation(actor, diff);
+    if (escalation) {
+      return escalation;
+    }
+
+    const { data: updated, error } = await supabase
+      .from('admin_custom_roles')
+      .update({
+        name: input.name,
+        description: input.description,
+        inherits: input.inherits,
+        grants: input.grants,
+        revokes: input.revokes,
+        updated_by: actor.id,
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', roleId)
+      .select('*')
+      .single();
+
+    if (error) {
+      if (error.code === '23505') {
+        return { success: false, status: 409, error: 'A role with this name already exists' };
+      }
+      throw error;
+    }
+
+    // Keep the built-in role column in step so role-only checks stay coherent
+    const { data: assigned, error: syncError } = await supabase
+      .from('admin_users')
+      .update({ role: input.inherits, updated_by: actor.id, updated_at: new Date().toISOString() })
+      .eq('custom_role_id', roleId)
+      .select('id');
+
+    if (syncError) {
+      throw syncError;
+    }
+
+    await recordAuditLog({
+      adminUserId: actor.id,
+      action: 'custom_role_update',
+      resourceType: 'admin_custom_role',
+      resourceId: roleId,
+      oldValues: roleAuditValues(existing),
+      newValues: roleAuditValues(updated),
+      metadata: {
+        diff,
+        affected_admins: (assigned || []).map((row: { id: string }) => row.id),
+        actor: actor.email,
+      },
+      ipAddress: actor.ipAddress,
+      userAgent: actor.userAgent,
+    });
+
+    return { success: true, role: mapCustomRole(updated, assigned?.length || 0), diff };
+  } catch (error) {
+    console.error('Error updating custom role:', error);
+    return { success: false, status: 500, error: 'Failed to update role' };
+  }
+}
+
+export async function deleteCustomRole(roleId: string, actor: RoleActor): Promise<RoleResult> {
+  try {
+    const { data: existing, error: fetchError } = await supabase
+      .from('admin_custom_roles')
+      .select('*')
+      .eq('id', roleId)
+      .single();
+
+    if (fetchError || !existing) {
+      return { success: false, status: 404, error: 'Role not found' };
+    }
+
+    const { count, error: countError } = await supabase
+      .from('admin_users')
+      .select('id', { count: 'exact', head: true })
+      .eq('custom_role_id', roleId);
+
+    if (countError) {
+      throw countError;
+    }
+
+    if ((count || 0) > 0) {
+      return {
+        success: false,
+        status: 409,
+        error: 'Reassign the admins using this role before deleting it',
+      };
+    }
+
+    const { error } = await supabase
+      .from('admin_custom_roles')
+      .delete()
+      .eq('id', roleId);
+
+    if (error) {
+      throw error;
+    }
+
+    const diff = RBACManager.diffPermissions(
+      RBACManager.resolvePermissions(existing.inherits, existing),
+      []
+    );
+
+    await recordAuditLog({
+      adminUserId: actor.id,
+      action: 'custom_role_delete',
+      resourceType: 'admin_custom_role',
+      resourceId: roleId,
+      oldValues: roleAuditValues(existing),
+      newValues: null,
+      metadata: { diff, actor: actor.email },
+      ipAddress: actor.ipAddress,
+      userAgent: actor.userAgent,
+    });
+
+    return { success: true, diff };
+  } catch (error) {
+    console.error('Error deleting custom role:', error);
+    return { success: false, status: 500, error: 'Failed to delete role' };
+  }
+}
+
+/**
+ * Change an admin's built-in role, custom role and per-user overrides
+ *
+ * Admins cannot edit their own access, manage someone holding permissions
+ * they lack, or hand out permissions they do not hold themselves.
+ */
+export async function updateAdminAccess(
+  adminId: string,
+  input: AdminAccessInput,
+  actor: RoleActor
+): Promise<AdminAccessResult> {
+  try {
+    if (adminId === actor.id) {
+      return { success: false, status: 403, error: 'You cannot change your own permissions' };
+    }
+
+    const { data: target, error: fetchError } = await supabase
+      .from('admin_users')
+      .select(ADMIN_ACCESS_SELECT)
+      .eq('id', adminId)
+      .single();
+
+    if (fetchError || !target) {
+      return { success: false, status: 404, error: 'Admin not found' };
+    }
+
+    let customRole: AdminCustomRole | null = null;
+    if (input.customRoleId) {
+      const { data, error } = await supabase
+        .from('admin_custom_roles')
+        .select('*')
+        .eq('id', input.customRoleId)
+        .maybeSingle();
+
+      if (error) {
+        throw error;
+      }
+
+      if (!data) {
+        return { success: false, status: 400, error: 'Custom role not found' };
+      }
+
+      customRole = data;
+    }
+
+    const current = await resolveAdminPermissions(target);
+
+    if (!RBACManager.hasAllPermissionsIn(actor.permissions, withExplicitScopes(current.permissions))) {
+      return {
+        success: false,
+        status: 403,
+        error: 'You cannot manage an admin who holds permissions you do not have',
+      };
+    }
+
+    // A custom role decides the built-in role it starts from
+    const role = customRole ? customRole.inherits : input.role;
+    const permissions = RBACManager.resolvePermissions(role, customRole, input.overrides);
+    const diff = RBACManager.diffPermissions(current.permissions, permissions);
+
+    const escalation = checkEscalation(actor, diff);
+    if (escalation) {
+      return escalation;
+    }
+
+    const { data: updated, error } = await supabase
+      .from('admin_users')
+      .update({
+        role,
+        custom_role_id: customRole?.id || null,
+        permissions: input.overrides,
+        updated_by: actor.id,
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', adminId)
+      .select(ADMIN_ACCESS_SELECT)
+      .single();
+
+    if (error) {
+      throw error;
+    }
+
+    await recordAuditLog({
+      adminUserId: actor.id,
+      action: 'admin_permissions_update',
+      resourceType: 'admin_user',
+      resourceId: adminId,
+      oldValues: {
+        role: target.role,
+        custom_role_id: target.custom_role_id || null,
+        permissions: current.overrides,
+      },
+      newValues: {
+        role,
+        custom_role_id: customRole?.id || null,
+        permissions: input.overrides,
+      },
+      metadata: { diff, target_email: target.email, actor: actor.email },
+      ipAddress: actor.ipAddress,
+      userAgent: actor.userAgent,
+    });
+
+    return { success: true, admin: mapAdminAccess(updated, customRole), diff };
+  } catch (error) {
+    console.error('Error updating admin permissions:', error);
+    return { success: false, status: 500, error: 'Failed to update admin permissions' };
+  }
+}
+
+function checkEscalation(actor: RoleActor, diff: PermissionDiff): RoleResult | null {
+  const notHeld = diff.added.filter(key => {
+    const permission = RBACManager.parsePermissionKey(key);
+    return !permission || !RBACManager.hasAllPermissionsIn(actor.permissions, withExplicitScopes([permission]));
+  });
+
+  if (notHeld.length === 0) {
+    return null;
+  }
+
+  return {
+    success: false,
+    status: 403,
+    error: `You cannot grant permissions you do not hold: ${notHeld.join(', ')}`,
+  };
+}
+
+// An unscoped permission reaches every record, so require 'all' when comparing
+function withExplicitScopes(permissions: Permission[]): Permission[] {
+  return permissions.map(permission => ({ ...permission, scope: permission.scope || 'all' }));
+}
+
+function validatePermissionKeys(value: unknown, field: string, errors: string[]): string[] {
+  if (value === undefined || value === null) {
+    return [];
+  }
+
+  if (!Array.isArray(value)) {
+    errors.push(`${field} must be an array`);
+    return [];
+  }
+
+  const unknown = value.filter(key => !RBACManager.isKnownPermissionKey(key));
+  if (unknown.length > 0) {
+    errors.push(`Unknown permissions in ${field}: ${unknown.join(', ')}`);
+    return [];
+  }
+
+  return Array.from(new Set(value as string[]));
+}
+
+function hasConflictingKeys(grants: string[], revokes: string[]): boolean {
+  const revoked = revokes.map(key => RBACManager.permissionBaseKey(key));
+  return grants.some(key => revoked.includes(RBACManager.permissionBaseKey(key)));
+}
+
+function roleAuditValues(row: AdminCustomRole): Record<string, any> {
+  return {
+    name: row.name,
+    description: row.description,
+    inherits: row.inherits,
+    grants: row.grants || [],
+    revokes: row.revokes || [],
+  };
+}
+
+function mapCustomRole(row: AdminCustomRole, assignedCount: number): CustomRole {
+  return {
+    id: row.id,
+    name: row.name,
+    description: row.description,
+    inherits: row.inherits,
+    grants: row.grants || [],
+    revokes: row.revokes || [],
+    permissions: RBACManager.toKeys(RBACManager.resolvePermissions(row.inherits, row)),
+    assignedCount,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+function mapAdminAccess(row: any, customRole: AdminCustomRole | null): AdminAccessEntry {
+  const overrides = RBACManager.normalizeOverrides(row.permissions);
+
+  return {
+    id: row.id,
+    email: row.email,
+    fullName: row.full_name || null,
+    role: row.role,
+    customRoleId: customRole?.id || null,
+    overrides,
+    permissions: RBACManager.toKeys(RBACManager.resolvePermissions(row.role, customRole, overrides)),
+    isActive: !!row.is_active,
+  };
+}
@@ -0,0 +1,107 @@
+import { supabase } from '@/lib/supabase';
+import { RBACManager, type Permission, type ResourceOwnership } from '@/lib/auth/rbac';
+import type { AdminRouteSession } from '@/lib/auth/guard';
+
+/**
+ * Who is asking, for own/team/all scoped permission checks
+ */
+export interface ScopeContext {
+  adminUserId: string;
+  email: string;
+  teamId: string | null;
+  permissions: Permission[];
+}
+
+/**
+ * Owners a scoped query may return; null means every owner
+ */
+export interface ScopeOwners {
+  ids: string[];
+  emails: string[];
+}
+
+export interface ResourceOwner {
+  id?: string | null;
+  email?: string | null;
+}
+
+export function toScopeContext(session: AdminRouteSession): ScopeContext {
+  return {
+    adminUserId: session.user.id,
+    email: session.user.email,
+    teamId: session.adminUser.team_id || null,
+    permissions: session.permissions,
+  };
+}
+
+export async function fetchTeamMembers(teamId: string): Promise<Array<{ id: string; email: string }>> {
+  const { data, error } = await supabase
+    .from('admin_users')
+    .select('id, email')
+    .eq('team_id', teamId);
+
+  if (error) {
+    throw error;
+  }
+
+  return data || [];
+}
+
+/**
+ * Owners whose records the caller may reach for a resource action
+ */
+export async function resolveScopeOwners(
+  context: ScopeContext,
+  resource: string,
+  action: string
+): Promise<ScopeOwners | null> {
+  const scope = RBACManager.getPermissionScope(context.permissions, resource, action);
+
+  if (scope === 'all') {
+    return null;
+  }
+
+  if (!scope) {
+    return { ids: [], emails: [] };
+  }
+
+  if (scope === 'team' && context.teamId) {
+    const members = await fetchTeamMembers(context.teamId);
+    return {
+      ids: members.map(member => member.id),
+      emails: members.map(member => member.email),
+    };
+  }
+
+  return { ids: [context.adminUserId], emails: [context.email] };
+}
+
+/**
+ * Compare a record's owner with the caller and the caller's team
+ */
+export async function resolveOwnership(
+  context: ScopeContext,
+  owner: ResourceOwner,
+  isOpen = false
+): Promise<ResourceOwnership> {
+  const isOwner = (!!owner.id && owner.id === context.adminUserId)
+    || (!!owner.email && owner.email === context.email);
+
+  if (isOwner || !context.teamId || (!owner.id && !owner.email)) {
+    return { isOwner, isTeammate: false, isOpen };
+  }
+
+  const members = await fetchTeamMembers(context.teamId);
+  const isTeammate = members.some(member =>
+    (!!owner.id && member.id === owner.id) || (!!owner.email && member.email === owner.email)
+  );
+
+  return { isOwner, isTeammate, isOpen };
+}
+
+/**
+ * PostgREST in-list with quoted values, safe for emails
+ */
+export function toInList(values: string[]): string {
+  return `(${values.map(value => `"${value.replace(/"/g, '\\"')}"`).join(',')})`;
+}
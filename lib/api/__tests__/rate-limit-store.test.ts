@@ -0,0 +1,323 @@
+/** @jest-environment node */
+import {
+  MemoryRateLimitStore,
+  RedisRateLimitStore,
+  createRateLimitStore,
+} from '@/lib/api/rate-limit-store';
+import { RedisError, RespRedisClient, type RedisArgument, type RedisClient, type RedisReply } from '@/lib/api/redis';
+
+/**
+ * In-memory RedisClient covering the commands the store sends
+ *
+ * Replies use Redis's own shapes (integers, bulk strings, flat WITHSCORES
+ * arrays). EVAL is recorded and answered from evalReply rather than run.
+ */
+class FakeRedisClient implements RedisClient {
+  readonly strings = new Map<string, string>();
+  readonly sortedSets = new Map<string, Map<string, number>>();
+  readonly hashes = new Map<string, Map<string, string>>();
+  readonly expiries = new Map<string, { at?: number; ttl?: number }>();
+  readonly commands: RedisArgument[][] = [];
+  readonly transactions: RedisArgument[][][] = [];
+  evalReply: RedisReply = [1, '9'];
+  down = false;
+
+  async command(args: RedisArgument[]): Promise<RedisReply> {
+    this.checkConnection();
+    this.commands.push(args);
+    return this.run(args);
+  }
+
+  async transaction(commands: RedisArgument[][]): Promise<RedisReply[]> {
+    this.checkConnection();
+    this.transactions.push(commands);
+    return commands.map(args => this.run(args));
+  }
+
+  async close(): Promise<void> {}
+
+  private checkConnection() {
+    if (this.down) {
+      throw new RedisError('Redis connection closed');
+    }
+  }
+
+  private sortedSet(key: string): Map<string, number> {
+    let set = this.sortedSets.get(key);
+    if (!set) {
+      set = new Map();
+      this.sortedSets.set(key, set);
+    }
+    return set;
+  }
+
+  private hash(key: string): Map<string, string> {
+    let hash = this.hashes.get(key);
+    if (!hash) {
+      hash = new Map();
+      this.hashes.set(key, hash);
+    }
+    return hash;
+  }
+
+  private byScore(key: string): Array<[string, number]> {
+    return Array.from(this.sortedSets.get(key) || []).sort((a, b) => a[1] - b[1]);
+  }
+
+  private run([name, key, ...args]: RedisArgument[]): RedisReply {
+    const k = String(key);
+
+    switch (String(name).toUpperCase()) {
+      case 'INCRBY': {
+        const value = Number(this.strings.get(k) || 0) + Number(args[0]);
+        this.strings.set(k, String(value));
+        return value;
+      }
+      case 'GET':
+        return this.strings.get(k) ?? null;
+      case 'DEL': {
+        const existed = [this.strings, this.sortedSets, this.hashes].filter(store => store.delete(k)).length;
+        return existed > 0 ? 1 : 0;
+      }
+      case 'PEXPIREAT':
+        this.expiries.set(k, { at: Number(args[0]) });
+        return 1;
+      case 'PEXPIRE':
+        this.expiries.set(k, { ttl: Number(args[0]) });
+        return 1;
+      case 'ZREMRANGEBYSCORE': {
+        const set = this.sortedSet(k);
+        const max = Number(args[1]);
+        let removed = 0;
+        set.forEach((score, member) => {
+          if (score <= max) {
+            set.delete(member);
+            removed++;
+          }
+        });
+        return removed;
+      }
+      case 'ZADD': {
+        const set = this.sortedSet(k);
+        const added = set.has(String(args[1])) ? 0 : 1;
+        set.set(String(args[1]), Number(args[0]));
+        return added;
+      }
+      case 'ZINCRBY': {
+        const set = this.sortedSet(k);
+        const score = (set.get(String(args[1])) || 0) + Number(args[0]);
+        set.set(String(args[1]), score);
+        return String(score);
+      }
+      case 'ZREM':
+        return this.sortedSet(k).delete(String(args[0])) ? 1 : 0;
+      case 'ZCARD':
+        return this.sortedSets.get(k)?.size || 0;
+      case 'ZRANGE':
+      case 'ZREVRANGE': {
+        const sorted = this.byScore(k);
+        if (String(name).toUpperCase() === 'ZREVRANGE') sorted.reverse();
+        const stop = Number(args[1]) < 0 ? sorted.length + Number(args[1]) : Number(args[1]);
+        return sorted
+          .slice(Number(args[0]), stop + 1)
+          .flatMap(([member, score]) => (args[2] === 'WITHSCORES' ? [member, String(score)] : [member]));
+      }
+      case 'HSET':
+        this.hash(k).set(String(args[0]), String(args[1]));
+        return 1;
+      case 'HMGET':
+        return args.map(field => this.hashes.get(k)?.get(String(field)) ?? null);
+      case 'EVAL':
+        return this.evalReply;
+      default:
+        throw new RedisError(`ERR unknown command '${name}'`);
+    }
+  }
+}
+
+describe('RedisRateLimitStore', () => {
+  let redis: FakeRedisClient;
+  let fallback: MemoryRateLimitStore;
+  let store: RedisRateLimitStore;
+
+  beforeEach(() => {
+    redis = new FakeRedisClient();
+    fallback = new MemoryRateLimitStore();
+    store = new RedisRateLimitStore(redis, fallback);
+  });
+
+  afterEach(() => {
+    fallback.dispose();
+  });
+
+  describe('counters', () => {
+    it('increments and sets the expiry in one transaction', async () => {
+      const expiresAt = Date.now() + 60000;
+
+      await expect(store.increment('rate_limit:api:1.2.3.4', expiresAt)).resolves.toBe(1);
+      await expect(store.increment('rate_limit:api:1.2.3.4', expiresAt, 4)).resolves.toBe(5);
+
+      expect(redis.transactions[0]).toEqual([
+        ['INCRBY', 'rate_limit:api:1.2.3.4', 1],
+        ['PEXPIREAT', 'rate_limit:api:1.2.3.4', expiresAt],
+      ]);
+      expect(redis.expiries.get('rate_limit:api:1.2.3.4')).toEqual({ at: expiresAt });
+    });
+
+    it('refunds with a negative amount', async () => {
+      const expiresAt = Date.now() + 60000;
+      await store.increment('key', expiresAt, 3);
+
+      await expect(store.increment('key', expiresAt, -1)).resolves.toBe(2);
+      await expect(store.get('key')).resolves.toBe(2);
+    });
+
+    it('reads missing counters as zero', async () => {
+      await expect(store.get('missing')).resolves.toBe(0);
+    });
+  });
+
+  describe('logs', () => {
+    it('drops entries at or before the window start and reports the oldest', async () => {
+      const expiresAt = Date.now() + 60000;
+
+      await store.appendLog('log', 'a', 1000, 0, expiresAt);
+      await store.appendLog('log', 'b', 2000, 0, expiresAt);
+      const state = await store.appendLog('log', 'c', 3000, 1000, expiresAt);
+
+      expect(state).toEqual({ count: 2, oldest: 2000 });
+      expect(redis.transactions[2]).toEqual([
+        ['ZREMRANGEBYSCORE', 'log', '-inf', 1000],
+        ['ZADD', 'log', 3000, 'c'],
+        ['ZCARD', 'log'],
+        ['ZRANGE', 'log', 0, 0, 'WITHSCORES'],
+        ['PEXPIREAT', 'log', expiresAt],
+      ]);
+    });
+
+    it('removes a single member', async () => {
+      await store.appendLog('log', 'a', 1000, 0, Date.now() + 60000);
+      await store.appendLog('log', 'b', 2000, 0, Date.now() + 60000);
+
+      await store.removeFromLog('log', 'a');
+
+      expect(Array.from(redis.sortedSets.get('log')!.keys())).toEqual(['b']);
+    });
+  });
+
+  describe('token buckets', () => {
+    it('runs the bucket script atomically with its arguments in order', async () => {
+      redis.evalReply = [1, '4.5'];
+
+      await expect(store.takeTokens('bucket', 1, 10, 0.01, 5000)).resolves.toEqual({ allowed: true, tokens: 4.5 });
+
+      const [command] = redis.commands;
+      expect(command[0]).toBe('EVAL');
+      expect(command.slice(2)).toEqual([1, 'bucket', 10, 0.01, 5000, 1]);
+    });
+
+    it('reports a refusal from the script', async () => {
+      redis.evalReply = [0, '0.25'];
+
+      await expect(store.takeTokens('bucket', 1, 10, 0.01, 5000)).resolves.toEqual({ allowed: false, tokens: 0.25 });
+    });
+  });
+
+  describe('limited-key stats', () => {
+    const now = Date.UTC(2026, 9, 19, 12);
+    const statsKey = 'rate_limit:stats:2026-10-19';
+
+    it('ranks keys by how often they were limited today', async () => {
+      await store.recordLimited('auth', '1.2.3.4', now);
+      await store.recordLimited('auth', '1.2.3.4', now + 1000);
+      await store.recordLimited('adminApi', 'user|with|pipes', now);
+
+      expect(redis.expiries.get(statsKey)).toEqual({ ttl: 2 * 24 * 60 * 60 * 1000 });
+      await expect(store.getTopLimited(10, now + 2000)).resolves.toEqual([
+        { limiter: 'auth', key: '1.2.3.4', count: 2, lastLimitedAt: new Date(now + 1000).toISOString() },
+        { limiter: 'adminApi', key: 'user|with|pipes', count: 1, lastLimitedAt: new Date(now).toISOString() },
+      ]);
+    });
+
+    it('asks Redis for only the requested number of keys', async () => {
+      await store.recordLimited('auth', 'a', now);
+      await store.recordLimited('auth', 'b', now);
+
+      await expect(store.getTopLimited(1, now)).resolves.toHaveLength(1);
+      expect(redis.commands).toContainEqual(['ZREVRANGE', statsKey, 0, 0, 'WITHSCORES']);
+    });
+
+    it('returns nothing for a day without limits', async () => {
+      await expect(store.getTopLimited(10, now)).resolves.toEqual([]);
+    });
+  });
+
+  describe('when Redis is unreachable', () => {
+    beforeEach(() => {
+      jest.spyOn(console, 'error').mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it('falls back to the in-memory store', async () => {
+      redis.down = true;
+      const expiresAt = Date.now() + 60000;
+
+      await expect(store.increment('key', expiresAt)).resolves.toBe(1);
+      await expect(store.increment('key', expiresAt)).resolves.toBe(2);
+      await expect(fallback.get('key')).resolves.toBe(2);
+      await expect(store.takeTokens('bucket', 1, 2, 0, 1000)).resolves.toEqual({ allowed: true, tokens: 1 });
+    });
+
+    it('resets the fallback as well as Redis', async () => {
+      const expiresAt = Date.now() + 60000;
+      redis.down = true;
+      await store.increment('key', expiresAt);
+
+      redis.down = false;
+      await store.increment('key', expiresAt);
+      await store.reset('key');
+
+      expect(redis.strings.has('key')).toBe(false);
+      await expect(fallback.get('key')).resolves.toBe(0);
+    });
+
+    it('throws without a fallback', async () => {
+      redis.down = true;
+      const strict = new RedisRateLimitStore(redis, null);
+
+      await expect(strict.get('key')).rejects.toThrow('Redis connection closed');
+    });
+  });
+});
+
+describe('createRateLimitStore', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('uses Redis when configured', () => {
+    const store = createRateLimitStore('redis', 'redis://127.0.0.1:6379');
+
+    expect(store).toBeInstanceOf(RedisRateLimitStore);
+  });
+
+  it('falls back to memory without a Redis URL or with an unknown type', () => {
+    const stores = [createRateLimitStore('redis', undefined), createRateLimitStore('dynamo', undefined)];
+
+    stores.forEach(store => {
+      expect(store.type).toBe('memory');
+      (store as MemoryRateLimitStore).dispose();
+    });
+  });
+
+  it('rejects non-Redis URLs', () => {
+    expect(() => new RespRedisClient('http://127.0.0.1:6379')).toThrow(RedisError);
+  });
+});
@@ -0,0 +1,265 @@
+/** @jest-environment node */
+import net from 'node:net';
+import { RedisError, RespRedisClient, type RedisClientOptions } from '@/lib/api/redis';
+
+type Handler = (args: string[], connection: FakeConnection) => string | null;
+
+interface FakeConnection {
+  socket: net.Socket;
+  commands: string[][];
+  inTransaction: string[][] | null;
+}
+
+/**
+ * In-process server speaking just enough RESP2 to answer RespRedisClient
+ *
+ * The handler returns the raw reply, or null to leave the command unanswered.
+ * MULTI/EXEC are handled here: queued commands answer +QUEUED and EXEC
+ * returns their replies as one array.
+ */
+class FakeRedisServer {
+  readonly connections: FakeConnection[] = [];
+  // Write replies one byte at a time to exercise partial reads
+  trickle = false;
+  private server = net.createServer(socket => this.accept(socket));
+
+  constructor(private readonly handler: Handler) {}
+
+  async listen(): Promise<number> {
+    await new Promise<void>(resolve => this.server.listen(0, '127.0.0.1', resolve));
+    return (this.server.address() as net.AddressInfo).port;
+  }
+
+  async close(): Promise<void> {
+    this.connections.forEach(connection => connection.socket.destroy());
+    await new Promise(resolve => this.server.close(resolve));
+  }
+
+  private accept(socket: net.Socket) {
+    const connection: FakeConnection = { socket, commands: [], inTransaction: null };
+    this.connections.push(connection);
+    let buffer: Buffer = Buffer.alloc(0);
+
+    socket.on('error', () => {});
+    socket.on('data', chunk => {
+      buffer = Buffer.concat([buffer, chunk]);
+
+      let parsed: { args: string[]; rest: Buffer } | null;
+      while ((parsed = parseCommand(buffer))) {
+        buffer = parsed.rest;
+        connection.commands.push(parsed.args);
+        const reply = this.reply(parsed.args, connection);
+        if (reply !== null) {
+          this.write(socket, reply);
+        }
+      }
+    });
+  }
+
+  private reply(args: string[], connection: FakeConnection): string | null {
+    const name = args[0].toUpperCase();
+
+    if (name === 'MULTI') {
+      connection.inTransaction = [];
+      return '+OK\r\n';
+    }
+
+    if (name === 'EXEC') {
+      const queued = connection.inTransaction || [];
+      connection.inTransaction = null;
+      return `*${queued.length}\r\n${queued.map(command => this.handler(command, connection) ?? '$-1\r\n').join('')}`;
+    }
+
+    if (connection.inTransaction) {
+      connection.inTransaction.push(args);
+      return '+QUEUED\r\n';
+    }
+
+    return this.handler(args, connection);
+  }
+
+  private write(socket: net.Socket, reply: string) {
+    if (!this.trickle) {
+      socket.write(reply);
+      return;
+    }
+
+    const bytes = Buffer.from(reply);
+    bytes.forEach((_, index) => setTimeout(() => socket.write(bytes.subarray(index, index + 1)), index));
+  }
+}
+
+// Lengths in RESP are byte counts, so parse the raw bytes
+function parseCommand(buffer: Buffer): { args: string[]; rest: Buffer } | null {
+  const readLine = (offset: number, prefix: string) => {
+    const end = buffer.indexOf('\r\n', offset);
+    if (end === -1 || buffer.toString('latin1', offset, offset + 1) !== prefix) return null;
+    return { value: Number(buffer.toString('latin1', offset + 1, end)), next: end + 2 };
+  };
+
+  const header = readLine(0, '*');
+  if (!header) return null;
+
+  const args: string[] = [];
+  let offset = header.next;
+  for (let i = 0; i < header.value; i++) {
+    const length = readLine(offset, '$');
+    if (!length) return null;
+
+    const end = length.next + length.value;
+    if (buffer.length < end + 2) return null;
+
+    args.push(buffer.toString('utf8', length.next, end));
+    offset = end + 2;
+  }
+
+  return { args, rest: buffer.subarray(offset) };
+}
+
+function bulk(value: string | null): string {
+  return value === null ? '$-1\r\n' : `$${Buffer.byteLength(value)}\r\n${value}\r\n`;
+}
+
+// Tiny key/value handler shared by most tests
+function keyValueHandler(): Handler {
+  const data = new Map<string, string>();
+
+  return ([name, key, value]) => {
+    switch (name.toUpperCase()) {
+      case 'AUTH':
+        return key === 's3cret' || value === 's3cret' ? '+OK\r\n' : '-WRONGPASS invalid username-password pair\r\n';
+      case 'SELECT':
+        return '+OK\r\n';
+      case 'SET':
+        data.set(key, value);
+        return '+OK\r\n';
+      case 'GET':
+        return bulk(data.get(key) ?? null);
+      case 'INCRBY': {
+        const next = Number(data.get(key) || 0) + Number(value);
+        data.set(key, String(next));
+        return `:${next}\r\n`;
+      }
+      case 'ZRANGE':
+        return `*2\r\n${bulk('member')}${bulk('1000')}`;
+      case 'HANG':
+        return null;
+      default:
+        return `-ERR unknown command '${name}'\r\n`;
+    }
+  };
+}
+
+describe('RespRedisClient', () => {
+  let server: FakeRedisServer;
+  let client: RespRedisClient | null = null;
+
+  afterEach(async () => {
+    await client?.close();
+    client = null;
+    await server.close();
+  });
+
+  async function connect(
+    handler: Handler = keyValueHandler(),
+    { auth = '', database = '', ...options }: RedisClientOptions & { auth?: string; database?: string } = {}
+  ) {
+    server = new FakeRedisServer(handler);
+    const port = await server.listen();
+    client = new RespRedisClient(`redis://${auth}127.0.0.1:${port}${database && `/${database}`}`, options);
+    return client;
+  }
+
+  it('sends commands and parses simple, integer, bulk and array replies', async () => {
+    const redis = await connect();
+
+    await expect(redis.command(['SET', 'greeting', 'héllo wörld'])).resolves.toBe('OK');
+    await expect(redis.command(['GET', 'greeting'])).resolves.toBe('héllo wörld');
+    await expect(redis.command(['GET', 'missing'])).resolves.toBeNull();
+    await expect(redis.command(['INCRBY', 'counter', 5])).resolves.toBe(5);
+    await expect(redis.command(['ZRANGE', 'log', 0, 0, 'WITHSCORES'])).resolves.toEqual(['member', '1000']);
+  });
+
+  it('keeps concurrent commands on one connection in order', async () => {
+    const redis = await connect();
+
+    const replies = await Promise.all(
+      Array.from({ length: 20 }, () => redis.command(['INCRBY', 'counter', 1]))
+    );
+
+    expect(replies).toEqual(Array.from({ length: 20 }, (_, index) => index + 1));
+    expect(server.connections).toHaveLength(1);
+  });
+
+  it('reassembles replies split across reads', async () => {
+    const redis = await connect();
+    server.trickle = true;
+
+    await redis.command(['SET', 'key', 'a longer value split byte by byte']);
+    await expect(redis.command(['GET', 'key'])).resolves.toBe('a longer value split byte by byte');
+  });
+
+  it('runs transactions inside MULTI/EXEC', async () => {
+    const redis = await connect();
+
+    await expect(redis.transaction([
+      ['INCRBY', 'counter', 2],
+      ['INCRBY', 'counter', 3],
+    ])).resolves.toEqual([2, 5]);
+
+    expect(server.connections[0].commands.map(([name]) => name)).toEqual(['MULTI', 'INCRBY', 'INCRBY', 'EXEC']);
+  });
+
+  it('fails a transaction when a queued command errors', async () => {
+    const redis = await connect();
+
+    await expect(redis.transaction([['INCRBY', 'counter', 1], ['BOGUS']])).rejects.toThrow(RedisError);
+  });
+
+  it('rejects error replies with RedisError and keeps the connection usable', async () => {
+    const redis = await connect();
+
+    await expect(redis.command(['BOGUS'])).rejects.toThrow("ERR unknown command 'BOGUS'");
+    await expect(redis.command(['INCRBY', 'counter', 1])).resolves.toBe(1);
+  });
+
+  it('authenticates and selects the database from the URL before any command', async () => {
+    const redis = await connect(keyValueHandler(), { auth: 'default:s3cret@', database: '2' });
+
+    await redis.command(['SET', 'key', 'value']);
+
+    expect(server.connections[0].commands).toEqual([
+      ['AUTH', 'default', 's3cret'],
+      ['SELECT', '2'],
+      ['SET', 'key', 'value'],
+    ]);
+  });
+
+  it('refuses to send commands when authentication fails', async () => {
+    const redis = await connect(keyValueHandler(), { auth: ':wrong@' });
+
+    await expect(redis.command(['GET', 'key'])).rejects.toThrow('WRONGPASS');
+    expect(server.connections[0].commands).toEqual([['AUTH', 'wrong']]);
+  });
+
+  it('times out unanswered commands and reconnects for the next one', async () => {
+    const redis = await connect(keyValueHandler(), { commandTimeoutMs: 50 });
+
+    await expect(redis.command(['HANG'])).rejects.toThrow('Redis command timed out');
+    await expect(redis.command(['INCRBY', 'counter', 1])).resolves.toBe(1);
+    expect(server.connections).toHaveLength(2);
+  });
+
+  it('reports an unreachable server', async () => {
+    // A port that was just freed, so nothing is listening on it
+    const closed = new FakeRedisServer(keyValueHandler());
+    const port = await closed.listen();
+    await closed.close();
+
+    const redis = await connect();
+    client = new RespRedisClient(`redis://127.0.0.1:${port}`, { connectTimeoutMs: 500 });
+
+    await expect(client.command(['GET', 'key'])).rejects.toThrow();
+    await redis.close();
+  });
+});
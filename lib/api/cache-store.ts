@@ -0,0 +1,361 @@
+import { supabase } from '@/lib/supabase';
+import { RespRedisClient, type RedisClient } from '@/lib/api/redis';
+
+/**
+ * Storage for cached API responses
+ *
+ * Entries carry tags (e.g. `users`, `report:<id>`) so a mutation can drop
+ * every response it affects without knowing their keys. Stores treat their
+ * own failures as misses: an outage makes the API slower, never wrong.
+ */
+export interface CacheStore {
+  readonly type: CacheStoreType;
+  get(key: string): Promise<CacheEntry | null>;
+  // Keep the entry until entry.expiresAt, indexed under each of entry.tags
+  set(key: string, entry: CacheEntry): Promise<void>;
+  delete(key: string): Promise<void>;
+  // Drop every entry carrying any of the tags; returns how many were removed
+  invalidateTags(tags: string[]): Promise<number>;
+}
+
+export type CacheStoreType = 'memory' | 'redis' | 'database';
+
+export interface CacheEntry {
+  body: string;
+  headers: Record<string, string>;
+  status: number;
+  etag: string;
+  storedAt: number;
+  // Served as-is until freshUntil, then as stale while it is revalidated
+  freshUntil: number;
+  expiresAt: number;
+  tags: string[];
+}
+
+/**
+ * Per-process store; entries are not shared across instances
+ */
+export class MemoryCacheStore implements CacheStore {
+  readonly type = 'memory' as const;
+  private entries = new Map<string, CacheEntry>();
+  private tagIndex = new Map<string, Set<string>>();
+  private cleanupInterval: NodeJS.Timeout;
+
+  constructor(cleanupIntervalMs = 60000) {
+    // Cleanup expired entries periodically
+    this.cleanupInterval = setInterval(() => this.cleanup(Date.now()), cleanupIntervalMs);
+    this.cleanupInterval.unref?.();
+  }
+
+  async get(key: string): Promise<CacheEntry | null> {
+    const entry = this.entries.get(key);
+
+    if (!entry) {
+      return null;
+    }
+
+    if (entry.expiresAt <= Date.now()) {
+      this.remove(key);
+      return null;
+    }
+
+    return entry;
+  }
+
+  async set(key: string, entry: CacheEntry): Promise<void> {
+    this.remove(key);
+    this.entries.set(key, entry);
+
+    entry.tags.forEach(tag => {
+      let keys = this.tagIndex.get(tag);
+      if (!keys) {
+        keys = new Set();
+        this.tagIndex.set(tag, keys);
+      }
+      keys.add(key);
+    });
+  }
+
+  async delete(key: string): Promise<void> {
+    this.remove(key);
+  }
+
+  async invalidateTags(tags: string[]): Promise<number> {
+    let removed = 0;
+
+    tags.forEach(tag => {
+      this.tagIndex.get(tag)?.forEach(key => {
+        if (this.remove(key)) removed++;
+      });
+      this.tagIndex.delete(tag);
+    });
+
+    return removed;
+  }
+
+  dispose() {
+    clearInterval(this.cleanupInterval);
+    this.entries.clear();
+    this.tagIndex.clear();
+  }
+
+  private remove(key: string): boolean {
+    const entry = this.entries.get(key);
+    if (!entry) {
+      return false;
+    }
+
+    this.entries.delete(key);
+    entry.tags.forEach(tag => {
+      const keys = this.tagIndex.get(tag);
+      keys?.delete(key);
+      if (keys?.size === 0) this.tagIndex.delete(tag);
+    });
+    return true;
+  }
+
+  private cleanup(now: number) {
+    this.entries.forEach((entry, key) => {
+      if (entry.expiresAt <= now) this.remove(key);
+    });
+  }
+}
+
+const REDIS_ENTRY_PREFIX = 'cache:entry:';
+const REDIS_TAG_PREFIX = 'cache:tag:';
+
+// Write the entry and add it to each tag set; a tag set lives as long as its longest entry
+const SET_ENTRY_SCRIPT = `
+local ttl = tonumber(ARGV[2])
+redis.call('SET', KEYS[1], ARGV[1], 'PX', ttl)
+for i = 2, #KEYS do
+  redis.call('SADD', KEYS[i], ARGV[3])
+  if redis.call('PTTL', KEYS[i]) < ttl then
+    redis.call('PEXPIRE', KEYS[i], ttl)
+  end
+end
+return 1
+`;
+
+const INVALIDATE_TAGS_SCRIPT = `
+local removed = 0
+for i = 1, #KEYS do
+  local members = redis.call('SMEMBERS', KEYS[i])
+  for _, member in ipairs(members) do
+    removed = removed + redis.call('DEL', ARGV[1] .. member)
+  end
+  redis.call('DEL', KEYS[i])
+end
+return removed
+`;
+
+/**
+ * Shared store backed by Redis
+ */
+export class RedisCacheStore implements CacheStore {
+  readonly type = 'redis' as const;
+
+  constructor(private readonly client: RedisClient) {}
+
+  async get(key: string): Promise<CacheEntry | null> {
+    try {
+      const value = await this.client.command(['GET', `${REDIS_ENTRY_PREFIX}${key}`]);
+      return typeof value === 'string' ? JSON.parse(value) : null;
+    } catch (error) {
+      console.error('Redis cache store unavailable, treating as a miss:', error);
+      return null;
+    }
+  }
+
+  async set(key: string, entry: CacheEntry): Promise<void> {
+    const ttl = entry.expiresAt - Date.now();
+    if (ttl <= 0) {
+      return;
+    }
+
+    try {
+      await this.client.command([
+        'EVAL',
+        SET_ENTRY_SCRIPT,
+        entry.tags.length + 1,
+        `${REDIS_ENTRY_PREFIX}${key}`,
+        ...entry.tags.map(tag => `${REDIS_TAG_PREFIX}${tag}`),
+        JSON.stringify(entry),
+        ttl,
+        key,
+      ]);
+    } catch (error) {
+      console.error('Error writing to Redis cache store:', error);
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    try {
+      await this.client.command(['DEL', `${REDIS_ENTRY_PREFIX}${key}`]);
+    } catch (error) {
+      console.error('Error deleting from Redis cache store:', error);
+    }
+  }
+
+  async invalidateTags(tags: string[]): Promise<number> {
+    if (tags.length === 0) {
+      return 0;
+    }
+
+    try {
+      const removed = await this.client.command([
+        'EVAL',
+        INVALIDATE_TAGS_SCRIPT,
+        tags.length,
+        ...tags.map(tag => `${REDIS_TAG_PREFIX}${tag}`),
+        REDIS_ENTRY_PREFIX,
+      ]);
+      return Number(removed) || 0;
+    } catch (error) {
+      // Entries outlive a failed invalidation until their TTL runs out
+      console.error('Error invalidating Redis cache tags:', error);
+      return 0;
+    }
+  }
+}
+
+// widget_data_cache rows written by the API cache, kept apart from widget data
+export const API_CACHE_WIDGET_ID = 'api_response_cache';
+
+/**
+ * Shared store backed by the widget_data_cache table
+ *
+ * Slower than Redis but needs no extra infrastructure. Tags live in the
+ * row metadata and expired rows are removed as they are read.
+ */
+export class DatabaseCacheStore implements CacheStore {
+  readonly type = 'database' as const;
+
+  async get(key: string): Promise<CacheEntry | null> {
+    const { data, error } = await supabase
+      .from('widget_data_cache')
+      .select('data, metadata, expires_at')
+      .eq('widget_id', API_CACHE_WIDGET_ID)
+      .eq('cache_key', key)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error reading database cache store:', error);
+      return null;
+    }
+
+    if (!data) {
+      return null;
+    }
+
+    if (new Date(data.expires_at).getTime() <= Date.now()) {
+      await this.delete(key);
+      return null;
+    }
+
+    return {
+      ...data.data,
+      tags: data.metadata?.tags || [],
+    } as CacheEntry;
+  }
+
+  async set(key: string, entry: CacheEntry): Promise<void> {
+    const { tags, ...response } = entry;
+
+    await this.delete(key);
+
+    const { error } = await supabase
+      .from('widget_data_cache')
+      .insert({
+        widget_id: API_CACHE_WIDGET_ID,
+        cache_key: key,
+        data: response,
+        metadata: { tags },
+        expires_at: new Date(entry.expiresAt).toISOString(),
+      });
+
+    if (error) {
+      console.error('Error writing to database cache store:', error);
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    const { error } = await supabase
+      .from('widget_data_cache')
+      .delete()
+      .eq('widget_id', API_CACHE_WIDGET_ID)
+      .eq('cache_key', key);
+
+    if (error) {
+      console.error('Error deleting from database cache store:', error);
+    }
+  }
+
+  async invalidateTags(tags: string[]): Promise<number> {
+    let removed = 0;
+
+    for (const tag of tags) {
+      const { data, error } = await supabase
+        .from('widget_data_cache')
+        .delete()
+        .eq('widget_id', API_CACHE_WIDGET_ID)
+        .contains('metadata', { tags: [tag] })
+        .select('id');
+
+      if (error) {
+        console.error('Error invalidating database cache tags:', error);
+        continue;
+      }
+
+      removed += data?.length || 0;
+    }
+
+    return removed;
+  }
+}
+
+let cacheStore: CacheStore | null = null;
+
+/**
+ * Store picked by CACHE_STORE (memory, redis or database; redis reads REDIS_URL)
+ */
+export function getCacheStore(): CacheStore {
+  if (!cacheStore) {
+    cacheStore = createCacheStore();
+  }
+
+  return cacheStore;
+}
+
+/**
+ * Replace the shared store, e.g. with one backed by a fake Redis client
+ */
+export function setCacheStore(store: CacheStore | null) {
+  cacheStore = store;
+}
+
+export function createCacheStore(
+  type: string | undefined = process.env.CACHE_STORE,
+  redisUrl: string | undefined = process.env.REDIS_URL
+): CacheStore {
+  const storeType = (type || 'memory').toLowerCase() as CacheStoreType;
+
+  if (storeType === 'redis') {
+    if (!redisUrl) {
+      console.warn('CACHE_STORE is redis but REDIS_URL is not set, using the in-memory store');
+      return new MemoryCacheStore();
+    }
+
+    return new RedisCacheStore(new RespRedisClient(redisUrl));
+  }
+
+  if (storeType === 'database') {
+    return new DatabaseCacheStore();
+  }
+
+  if (storeType !== 'memory') {
+    console.warn(`Unknown CACHE_STORE "${type}", using the in-memory store`);
+  }
+
+  return new MemoryCacheStore();
+}
@@ -1,38 +1,73 @@
-import { NextRequest, NextResponse } from 'next/server';
+import { createHash } from 'node:crypto';
+import { after, NextRequest, NextResponse } from 'next/server';
+import { getCacheStore, type CacheEntry, type CacheStoreType } from '@/lib/api/cache-store';
 
 interface CacheConfig {
+  name?: string; // Names the cache in keys and metrics
   ttl: number; // Time to live in milliseconds
+  staleWhileRevalidate?: number; // How long past ttl a stale entry may be served while it is refreshed
+  tags?: string[]; // Tags added to every entry
   keyGenerator?: (request: NextRequest) => string;
-  shouldCache?: (request: NextRequest, response: NextResponse) => boolean;
+  shouldCache?: (request: NextRequest, response: Response) => boolean;
   varyBy?: string[]; // Headers to vary cache by
 }
 
-interface CacheEntry {
-  data: any;
-  headers: Record<string, string>;
-  status: number;
-  timestamp: number;
-  ttl: number;
+export interface CacheOptions {
+  // Keeps entries apart per caller, e.g. an admin ID
+  scope?: string;
+  // Extra tags for this entry, e.g. `report:<id>`
+  tags?: string[];
 }
 
-interface CacheStore {
-  [key: string]: CacheEntry;
+export interface CacheLookup {
+  response: Response;
+  // Past its ttl; serve it, then revalidate
+  stale: boolean;
 }
 
-// In-memory cache store
-// In production, this should use Redis or another persistent cache
-const cacheStore: CacheStore = {};
-
-// Cleanup expired entries periodically
-setInterval(() => {
-  const now = Date.now();
-  Object.keys(cacheStore).forEach(key => {
-    const entry = cacheStore[key];
-    if (entry.timestamp + entry.ttl < now) {
-      delete cacheStore[key];
-    }
-  });
-}, 60000); // Cleanup every minute
+export interface CacheCounters {
+  hits: number;
+  staleHits: number;
+  misses: number;
+  notModified: number;
+  writes: number;
+  revalidations: number;
+  revalidationFailures: number;
+}
+
+export interface CacheMetrics {
+  store: CacheStoreType;
+  since: string;
+  caches: Record<string, CacheCounters & { hitRate: number }>;
+  invalidatedEntries: number;
+}
+
+// Counters are per process and reset on deploy
+const metricsSince = Date.now();
+const cacheCounters = new Map<string, CacheCounters>();
+let invalidatedEntries = 0;
+
+// Every cache created in this process, for invalidateAll
+const cacheNames = new Set<string>();
+
+function countersFor(name: string): CacheCounters {
+  let counters = cacheCounters.get(name);
+
+  if (!counters) {
+    counters = {
+      hits: 0,
+      staleHits: 0,
+      misses: 0,
+      notModified: 0,
+      writes: 0,
+      revalidations: 0,
+      revalidationFailures: 0,
+    };
+    cacheCounters.set(name, counters);
+  }
+
+  return counters;
+}
 
 /**
  * Default cache key generator
@@ -47,7 +82,7 @@ function defaultKeyGenerator(request: NextRequest): string {
 /**
  * Default function to determine if response should be cached
  */
-function defaultShouldCache(request: NextRequest, response: NextResponse): boolean {
+function defaultShouldCache(request: NextRequest, response: Response): boolean {
   // Only cache GET requests
   if (request.method !== 'GET') {
     return false;
@@ -66,60 +101,89 @@ function defaultShouldCache(request: NextRequest, response: NextResponse): boole
   return true;
 }
 
+/**
+ * Tag carried by every entry of a cache, used to clear the whole cache
+ */
+function cacheTag(name: string): string {
+  return `cache:${name}`;
+}
+
 /**
  * Create a caching middleware
  */
 export function createCache(config: CacheConfig) {
   const {
+    name = 'default',
     ttl,
+    staleWhileRevalidate = 0,
+    tags = [],
     keyGenerator = defaultKeyGenerator,
     shouldCache = defaultShouldCache,
     varyBy = [],
   } = config;
 
-  return {
+  cacheNames.add(name);
+
+  // Keys being revalidated by this process, so a burst of stale hits refreshes once
+  const revalidating = new Set<string>();
+
+  const entryKey = (request: NextRequest, scope?: string): string => {
+    let key = `${name}|${keyGenerator(request)}`;
+
+    if (scope) {
+      key += `:scope:${scope}`;
+    }
+
+    // Check if cache varies by specific headers
+    if (varyBy.length > 0) {
+      const varyKey = varyBy
+        .map(header => request.headers.get(header) || '')
+        .join('|');
+      key += `:vary:${hash(varyKey)}`;
+    }
+
+    return key;
+  };
+
+  const cache = {
+    name,
+
     /**
-     * Get cached response if available
+     * Get cached response if available, answering 304 when the caller's ETag matches
      */
-    async get(request: NextRequest): Promise<NextResponse | null> {
-      const key = keyGenerator(request);
-      const entry = cacheStore[key];
+    async get(request: NextRequest, options: CacheOptions = {}): Promise<CacheLookup | null> {
+      const counters = countersFor(name);
+      const entry = await getCacheStore().get(entryKey(request, options.scope));
 
       if (!entry) {
+        counters.misses++;
         return null;
       }
 
-      const now = Date.now();
-      if (entry.timestamp + entry.ttl < now) {
-        delete cacheStore[key];
-        return null;
+      const stale = entry.freshUntil <= Date.now();
+      if (stale) {
+        counters.staleHits++;
+      } else {
+        counters.hits++;
       }
 
-      // Check if cache varies by specific headers
-      if (varyBy.length > 0) {
-        const varyKey = varyBy
-          .map(header => request.headers.get(header) || '')
-          .join('|');
-
-        const varyEntry = cacheStore[`${key}:${varyKey}`];
-        if (varyEntry && varyEntry.timestamp + varyEntry.ttl >= now) {
-          return createResponseFromCache(varyEntry);
-        }
-        return null;
+      const response = conditionalResponse(request, createResponseFromCache(entry, stale), entry.etag);
+      if (response.status === 304) {
+        counters.notModified++;
       }
 
-      return createResponseFromCache(entry);
+      return { response, stale };
     },
 
     /**
      * Store response in cache
+     * @returns The stored entry's ETag, or null when the response was not cached
      */
-    async set(request: NextRequest, response: NextResponse): Promise<void> {
+    async set(request: NextRequest, response: Response, options: CacheOptions = {}): Promise<string | null> {
       if (!shouldCache(request, response)) {
-        return;
+        return null;
       }
 
-      const key = keyGenerator(request);
       const now = Date.now();
 
       // Clone response data
@@ -133,61 +197,114 @@ export function createCache(config: CacheConfig) {
       });
 
       const entry: CacheEntry = {
-        data,
+        body: data,
         headers,
         status: response.status,
-        timestamp: now,
-        ttl,
+        etag: `"${hash(data)}"`,
+        storedAt: now,
+        freshUntil: now + ttl,
+        expiresAt: now + ttl + staleWhileRevalidate,
+        tags: Array.from(new Set([cacheTag(name), ...tags, ...(options.tags || [])])),
       };
 
-      // Handle vary headers
-      if (varyBy.length > 0) {
-        const varyKey = varyBy
-          .map(header => request.headers.get(header) || '')
-          .join('|');
-        cacheStore[`${key}:${varyKey}`] = entry;
-      } else {
-        cacheStore[key] = entry;
-      }
+      await getCacheStore().set(entryKey(request, options.scope), entry);
+      countersFor(name).writes++;
+
+      return entry.etag;
     },
 
     /**
-     * Clear cache entries
+     * Refresh a stale entry with a new response from produce()
      */
-    clear(pattern?: string): void {
-      if (!pattern) {
-        // Clear all cache
-        Object.keys(cacheStore).forEach(key => delete cacheStore[key]);
+    async revalidate(
+      request: NextRequest,
+      produce: () => Promise<Response>,
+      options: CacheOptions = {}
+    ): Promise<void> {
+      const key = entryKey(request, options.scope);
+      if (revalidating.has(key)) {
         return;
       }
 
-      // Clear cache entries matching pattern
-      const regex = new RegExp(pattern);
-      Object.keys(cacheStore).forEach(key => {
-        if (regex.test(key)) {
-          delete cacheStore[key];
+      const counters = countersFor(name);
+      revalidating.add(key);
+
+      try {
+        const response = await produce();
+        counters.revalidations++;
+
+        if (response.ok) {
+          await cache.set(request, response, options);
+        } else {
+          // Don't keep serving an entry the handler no longer stands behind
+          await getCacheStore().delete(key);
         }
-      });
+      } catch (error) {
+        counters.revalidationFailures++;
+        console.error(`Error revalidating ${name} cache entry:`, error);
+      } finally {
+        revalidating.delete(key);
+      }
+    },
+
+    /**
+     * Clear every entry of this cache
+     */
+    async clear(): Promise<void> {
+      await invalidateCacheTags([cacheTag(name)]);
     },
   };
+
+  return cache;
+}
+
+function hash(value: string): string {
+  return createHash('sha1').update(value).digest('base64url');
 }
 
 /**
  * Create NextResponse from cache entry
  */
-function createResponseFromCache(entry: CacheEntry): NextResponse {
-  const response = new NextResponse(entry.data, {
+function createResponseFromCache(entry: CacheEntry, stale: boolean): NextResponse {
+  const response = new NextResponse(entry.body, {
     status: entry.status,
     headers: entry.headers,
   });
 
   // Add cache headers
-  response.headers.set('X-Cache', 'HIT');
-  response.headers.set('X-Cache-Date', new Date(entry.timestamp).toISOString());
+  response.headers.set('X-Cache', stale ? 'STALE' : 'HIT');
+  response.headers.set('X-Cache-Date', new Date(entry.storedAt).toISOString());
 
   return response;
 }
 
+/**
+ * Attach an ETag, answering 304 Not Modified when If-None-Match already has it
+ */
+export function conditionalResponse(request: NextRequest, response: Response, etag: string): Response {
+  response.headers.set('ETag', etag);
+
+  // Browsers keep the body but check back with If-None-Match before reusing it
+  if (!response.headers.has('cache-control')) {
+    response.headers.set('Cache-Control', 'private, no-cache');
+  }
+
+  const ifNoneMatch = request.headers.get('if-none-match');
+  const matches = ifNoneMatch
+    ?.split(',')
+    .map(value => value.trim().replace(/^W\//, ''))
+    .some(value => value === '*' || value === etag);
+
+  if (!matches) {
+    return response;
+  }
+
+  return new NextResponse(null, {
+    status: 304,
+    headers: response.headers,
+  });
+}
+
 /**
  * Cache key generator for admin endpoints
  */
@@ -198,7 +315,7 @@ export function adminCacheKeyGenerator(request: NextRequest): string {
 
   // Include admin token in cache key for user-specific data
   const adminToken = request.cookies.get('admin_token')?.value || 'anonymous';
-  return `admin_cache:${adminToken}:${request.method}:${pathname}${search}`;
+  return `admin_cache:${hash(adminToken)}:${request.method}:${pathname}${search}`;
 }
 
 /**
@@ -215,33 +332,45 @@ export function analyticsCacheKeyGenerator(request: NextRequest): string {
 export const cacheConfigs = {
   // Short-term cache for frequently accessed data
   short: {
+    name: 'short',
     ttl: 5 * 60 * 1000, // 5 minutes
+    staleWhileRevalidate: 60 * 1000, // 1 minute
   },
 
   // Medium-term cache for analytics data
   analytics: {
+    name: 'analytics',
     ttl: 15 * 60 * 1000, // 15 minutes
+    staleWhileRevalidate: 15 * 60 * 1000, // 15 minutes
+    tags: ['analytics'],
     keyGenerator: analyticsCacheKeyGenerator,
   },
 
   // Long-term cache for static/semi-static data
   long: {
+    name: 'long',
     ttl: 60 * 60 * 1000, // 1 hour
+    staleWhileRevalidate: 60 * 60 * 1000, // 1 hour
   },
 
   // User-specific cache for admin data
   admin: {
+    name: 'admin',
     ttl: 10 * 60 * 1000, // 10 minutes
+    tags: ['admin'],
     keyGenerator: adminCacheKeyGenerator,
     varyBy: ['authorization'],
   },
 
   // Reports cache (longer since reports don't change frequently)
   reports: {
+    name: 'reports',
     ttl: 30 * 60 * 1000, // 30 minutes
+    staleWhileRevalidate: 5 * 60 * 1000, // 5 minutes
+    tags: ['reports'],
     keyGenerator: adminCacheKeyGenerator,
   },
-};
+} satisfies Record<string, CacheConfig>;
 
 // Pre-configured cache instances
 export const shortCache = createCache(cacheConfigs.short);
@@ -256,24 +385,27 @@ export const reportsCache = createCache(cacheConfigs.reports);
 export async function withCache<T>(
   request: NextRequest,
   cache: ReturnType<typeof createCache>,
-  handler: () => Promise<NextResponse>
-): Promise<NextResponse> {
+  handler: () => Promise<Response>
+): Promise<Response> {
   // Try to get cached response
-  const cachedResponse = await cache.get(request);
-  if (cachedResponse) {
-    return cachedResponse;
+  const cached = await cache.get(request);
+  if (cached) {
+    if (cached.stale) {
+      after(() => cache.revalidate(request, handler));
+    }
+    return cached.response;
   }
 
   // Execute handler
   const response = await handler();
 
   // Cache the response
-  await cache.set(request, response);
+  const etag = await cache.set(request, response);
 
   // Add cache miss header
   response.headers.set('X-Cache', 'MISS');
 
-  return response;
+  return etag ? conditionalResponse(request, response, etag) : response;
 }
 
 /**
@@ -285,8 +417,41 @@ export function cacheMiddleware(config: CacheConfig | keyof typeof cacheConfigs)
 
   return {
     get: (request: NextRequest) => cache.get(request),
-    set: (request: NextRequest, response: NextResponse) => cache.set(request, response),
-    clear: (pattern?: string) => cache.clear(pattern),
+    set: (request: NextRequest, response: Response) => cache.set(request, response),
+    clear: () => cache.clear(),
+  };
+}
+
+/**
+ * Drop every cached response carrying any of the tags, across all caches
+ */
+export async function invalidateCacheTags(tags: string[]): Promise<void> {
+  if (tags.length === 0) {
+    return;
+  }
+
+  invalidatedEntries += await getCacheStore().invalidateTags(Array.from(new Set(tags)));
+}
+
+/**
+ * Hit/miss counters per cache, for the system health endpoint
+ */
+export function getCacheMetrics(): CacheMetrics {
+  const caches: CacheMetrics['caches'] = {};
+
+  cacheCounters.forEach((counters, name) => {
+    const lookups = counters.hits + counters.staleHits + counters.misses;
+    caches[name] = {
+      ...counters,
+      hitRate: lookups > 0 ? Math.round(((counters.hits + counters.staleHits) / lookups) * 1000) / 10 : 0,
+    };
+  });
+
+  return {
+    store: getCacheStore().type,
+    since: new Date(metricsSince).toISOString(),
+    caches,
+    invalidatedEntries,
   };
 }
 
@@ -297,45 +462,44 @@ export const cacheInvalidation = {
   /**
    * Invalidate all analytics caches
    */
-  invalidateAnalytics(): void {
-    analyticsCache.clear();
-    adminCache.clear('analytics');
+  invalidateAnalytics(): Promise<void> {
+    return invalidateCacheTags(['analytics']);
   },
 
   /**
    * Invalidate user-related caches
    */
-  invalidateUsers(): void {
-    adminCache.clear('users');
-    shortCache.clear('users');
+  invalidateUsers(): Promise<void> {
+    return invalidateCacheTags(['users']);
   },
 
   /**
    * Invalidate reports caches
    */
-  invalidateReports(): void {
-    reportsCache.clear();
-    adminCache.clear('reports');
+  invalidateReports(): Promise<void> {
+    return invalidateCacheTags(['reports']);
+  },
+
+  /**
+   * Invalidate cached responses for one report
+   */
+  invalidateReport(reportId: string): Promise<void> {
+    return invalidateCacheTags([`report:${reportId}`]);
   },
 
   /**
    * Invalidate all admin caches
    */
-  invalidateAdmin(): void {
-    adminCache.clear();
-    shortCache.clear('admin');
+  invalidateAdmin(): Promise<void> {
+    return invalidateCacheTags(['admin']);
   },
 
   /**
    * Invalidate all caches
    */
-  invalidateAll(): void {
-    shortCache.clear();
-    analyticsCache.clear();
-    longCache.clear();
-    adminCache.clear();
-    reportsCache.clear();
+  invalidateAll(): Promise<void> {
+    return invalidateCacheTags(Array.from(cacheNames, cacheTag));
   },
 };
 
-export default cacheMiddleware;
\ No newline at end of file
+export default cacheMiddleware;
@@ -0,0 +1,108 @@
+import { promises as fs } from 'node:fs';
+import path from 'node:path';
+
+/**
+ * Storage for generated files such as report exports
+ *
+ * Keys are relative, slash-separated paths like `reports/<id>/<file>.csv`.
+ * Files are only ever handed out through routes that check access, so
+ * drivers need not make them publicly reachable.
+ */
+export interface FileStore {
+  readonly type: FileStoreType;
+  put(key: string, body: Uint8Array | string): Promise<StoredFile>;
+  // Returns null when the file does not exist
+  get(key: string): Promise<Uint8Array | null>;
+  delete(key: string): Promise<void>;
+}
+
+export type FileStoreType = 'local';
+
+export interface StoredFile {
+  key: string;
+  size: number;
+}
+
+/**
+ * Files on the local disk under a root directory
+ *
+ * Only suitable when every instance shares that directory.
+ */
+export class LocalFileStore implements FileStore {
+  readonly type = 'local' as const;
+  private readonly root: string;
+
+  constructor(root: string) {
+    this.root = path.resolve(root);
+  }
+
+  async put(key: string, body: Uint8Array | string): Promise<StoredFile> {
+    const filePath = this.resolve(key);
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+
+    // Write then rename so readers never see a partial file
+    const tempPath = `${filePath}.${process.pid}.${Date.now()}.tmp`;
+    await fs.writeFile(tempPath, body);
+    await fs.rename(tempPath, filePath);
+
+    return { key, size: typeof body === 'string' ? Buffer.byteLength(body) : body.byteLength };
+  }
+
+  async get(key: string): Promise<Uint8Array | null> {
+    try {
+      return await fs.readFile(this.resolve(key));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.rm(this.resolve(key), { force: true });
+  }
+
+  private resolve(key: string): string {
+    const filePath = path.resolve(this.root, key);
+
+    if (!filePath.startsWith(this.root + path.sep)) {
+      throw new Error(`Invalid file key: ${key}`);
+    }
+
+    return filePath;
+  }
+}
+
+let fileStore: FileStore | null = null;
+
+/**
+ * Store picked by FILE_STORE (only `local` today, rooted at FILE_STORE_PATH)
+ */
+export function getFileStore(): FileStore {
+  if (!fileStore) {
+    fileStore = createFileStore();
+  }
+
+  return fileStore;
+}
+
+/**
+ * Replace the shared store, e.g. with one rooted in a temporary directory
+ */
+export function setFileStore(store: FileStore | null) {
+  fileStore = store;
+}
+
+export function createFileStore(
+  type: string | undefined = process.env.FILE_STORE,
+  root: string | undefined = process.env.FILE_STORE_PATH
+): FileStore {
+  const storeType = (type || 'local').toLowerCase() as FileStoreType;
+
+  if (storeType !== 'local') {
+    console.warn(`Unknown FILE_STORE "${type}", using the local filesystem store`);
+  }
+
+  return new LocalFileStore(root || path.join(process.cwd(), '.data', 'files'));
+}
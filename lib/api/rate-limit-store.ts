@@ -0,0 +1,434 @@
+import { RespRedisClient, type RedisClient } from '@/lib/api/redis';
+
+/**
+ * Storage for rate limiter state
+ *
+ * Each primitive must be atomic on its own: two instances hitting the same
+ * key at once must both see consistent results. The strategies in
+ * rate-limit-strategies.ts are built from these primitives.
+ */
+export interface RateLimitStore {
+  readonly type: RateLimitStoreType;
+  // Add amount (negative to refund) to a counter expiring at expiresAt; returns the new value
+  increment(key: string, expiresAt: number, amount?: number): Promise<number>;
+  get(key: string): Promise<number>;
+  // Record a hit in a timestamp log, dropping entries at or before windowStart
+  appendLog(key: string, member: string, timestamp: number, windowStart: number, expiresAt: number): Promise<RateLimitLogState>;
+  removeFromLog(key: string, member: string): Promise<void>;
+  // Take amount tokens (negative to return them) from a bucket refilling at refillPerMs
+  takeTokens(key: string, amount: number, capacity: number, refillPerMs: number, now: number): Promise<TokenBucketState>;
+  reset(key: string): Promise<void>;
+  recordLimited(limiter: string, key: string, now: number): Promise<void>;
+  getTopLimited(count: number, now: number): Promise<LimitedKeyStats[]>;
+}
+
+export type RateLimitStoreType = 'memory' | 'redis';
+
+export interface RateLimitLogState {
+  count: number;
+  oldest: number | null;
+}
+
+export interface TokenBucketState {
+  allowed: boolean;
+  tokens: number;
+}
+
+export interface LimitedKeyStats {
+  limiter: string;
+  key: string;
+  count: number;
+  lastLimitedAt: string | null;
+}
+
+const STATS_PREFIX = 'rate_limit:stats';
+const STATS_TTL_MS = 2 * 24 * 60 * 60 * 1000;
+
+// Limited-key stats are kept per UTC day
+function statsDay(now: number): string {
+  return new Date(now).toISOString().slice(0, 10);
+}
+
+function statsMember(limiter: string, key: string): string {
+  return `${limiter}|${key}`;
+}
+
+function parseStatsMember(member: string): { limiter: string; key: string } {
+  const separator = member.indexOf('|');
+  return separator === -1
+    ? { limiter: 'default', key: member }
+    : { limiter: member.slice(0, separator), key: member.slice(separator + 1) };
+}
+
+interface MemoryCounter {
+  value: number;
+  expiresAt: number;
+}
+
+interface MemoryLog {
+  entries: Array<{ member: string; timestamp: number }>;
+  expiresAt: number;
+}
+
+interface MemoryBucket {
+  tokens: number;
+  updatedAt: number;
+  expiresAt: number;
+}
+
+/**
+ * Per-process store; state resets on deploy and is not shared across instances
+ */
+export class MemoryRateLimitStore implements RateLimitStore {
+  readonly type = 'memory' as const;
+  private counters = new Map<string, MemoryCounter>();
+  private logs = new Map<string, MemoryLog>();
+  private buckets = new Map<string, MemoryBucket>();
+  private limited = new Map<string, Map<string, { count: number; lastLimitedAt: number }>>();
+  private cleanupInterval: NodeJS.Timeout;
+
+  constructor(cleanupIntervalMs = 60000) {
+    // Cleanup old entries periodically
+    this.cleanupInterval = setInterval(() => this.cleanup(Date.now()), cleanupIntervalMs);
+    this.cleanupInterval.unref?.();
+  }
+
+  async increment(key: string, expiresAt: number, amount = 1): Promise<number> {
+    const now = Date.now();
+    let counter = this.counters.get(key);
+
+    if (!counter || counter.expiresAt <= now) {
+      counter = { value: 0, expiresAt };
+      this.counters.set(key, counter);
+    }
+
+    counter.value += amount;
+    counter.expiresAt = expiresAt;
+    return counter.value;
+  }
+
+  async get(key: string): Promise<number> {
+    const counter = this.counters.get(key);
+    return counter && counter.expiresAt > Date.now() ? counter.value : 0;
+  }
+
+  async appendLog(
+    key: string,
+    member: string,
+    timestamp: number,
+    windowStart: number,
+    expiresAt: number
+  ): Promise<RateLimitLogState> {
+    let log = this.logs.get(key);
+
+    if (!log) {
+      log = { entries: [], expiresAt };
+      this.logs.set(key, log);
+    }
+
+    log.entries = log.entries.filter(entry => entry.timestamp > windowStart);
+    log.entries.push({ member, timestamp });
+    log.expiresAt = expiresAt;
+
+    return {
+      count: log.entries.length,
+      oldest: Math.min(...log.entries.map(entry => entry.timestamp)),
+    };
+  }
+
+  async removeFromLog(key: string, member: string): Promise<void> {
+    const log = this.logs.get(key);
+    if (log) {
+      log.entries = log.entries.filter(entry => entry.member !== member);
+    }
+  }
+
+  async takeTokens(
+    key: string,
+    amount: number,
+    capacity: number,
+    refillPerMs: number,
+    now: number
+  ): Promise<TokenBucketState> {
+    const bucket = this.buckets.get(key) || { tokens: capacity, updatedAt: now, expiresAt: now };
+    let tokens = Math.min(capacity, bucket.tokens + Math.max(0, now - bucket.updatedAt) * refillPerMs);
+
+    const allowed = tokens >= amount;
+    if (allowed) {
+      tokens = Math.min(capacity, tokens - amount);
+    }
+
+    // Full buckets need no state; keep it until it would have refilled
+    const refillMs = refillPerMs > 0 ? Math.ceil((capacity - tokens) / refillPerMs) : 0;
+    this.buckets.set(key, { tokens, updatedAt: now, expiresAt: now + refillMs });
+
+    return { allowed, tokens };
+  }
+
+  async reset(key: string): Promise<void> {
+    this.counters.delete(key);
+    this.logs.delete(key);
+    this.buckets.delete(key);
+  }
+
+  async recordLimited(limiter: string, key: string, now: number): Promise<void> {
+    const day = statsDay(now);
+    let stats = this.limited.get(day);
+
+    if (!stats) {
+      stats = new Map();
+      this.limited.set(day, stats);
+    }
+
+    const member = statsMember(limiter, key);
+    const entry = stats.get(member) || { count: 0, lastLimitedAt: now };
+    entry.count++;
+    entry.lastLimitedAt = now;
+    stats.set(member, entry);
+  }
+
+  async getTopLimited(count: number, now: number): Promise<LimitedKeyStats[]> {
+    const stats = this.limited.get(statsDay(now));
+    if (!stats) {
+      return [];
+    }
+
+    return Array.from(stats.entries())
+      .sort((a, b) => b[1].count - a[1].count)
+      .slice(0, count)
+      .map(([member, entry]) => ({
+        ...parseStatsMember(member),
+        count: entry.count,
+        lastLimitedAt: new Date(entry.lastLimitedAt).toISOString(),
+      }));
+  }
+
+  dispose() {
+    clearInterval(this.cleanupInterval);
+    this.counters.clear();
+    this.logs.clear();
+    this.buckets.clear();
+    this.limited.clear();
+  }
+
+  private cleanup(now: number) {
+    this.counters.forEach((counter, key) => {
+      if (counter.expiresAt <= now) this.counters.delete(key);
+    });
+    this.logs.forEach((log, key) => {
+      if (log.expiresAt <= now) this.logs.delete(key);
+    });
+    this.buckets.forEach((bucket, key) => {
+      if (bucket.expiresAt <= now) this.buckets.delete(key);
+    });
+
+    const today = statsDay(now);
+    this.limited.forEach((_, day) => {
+      if (day !== today) this.limited.delete(day);
+    });
+  }
+}
+
+// Refill, take and persist in one step; Lua keeps it atomic across instances
+const TAKE_TOKENS_SCRIPT = `
+local capacity = tonumber(ARGV[1])
+local rate = tonumber(ARGV[2])
+local now = tonumber(ARGV[3])
+local amount = tonumber(ARGV[4])
+local state = redis.call('HMGET', KEYS[1], 'tokens', 'ts')
+local tokens = tonumber(state[1]) or capacity
+local ts = tonumber(state[2]) or now
+tokens = math.min(capacity, tokens + math.max(0, now - ts) * rate)
+local allowed = 0
+if tokens >= amount then
+  tokens = math.min(capacity, tokens - amount)
+  allowed = 1
+end
+redis.call('HSET', KEYS[1], 'tokens', tostring(tokens), 'ts', tostring(now))
+local ttl = 1000
+if rate > 0 then
+  ttl = ttl + math.ceil((capacity - tokens) / rate)
+end
+redis.call('PEXPIRE', KEYS[1], ttl)
+return {allowed, tostring(tokens)}
+`;
+
+/**
+ * Shared store backed by Redis
+ *
+ * Falls back to a per-process store while Redis is unreachable, so an
+ * outage weakens limits to per-instance rather than lifting them.
+ */
+export class RedisRateLimitStore implements RateLimitStore {
+  readonly type = 'redis' as const;
+
+  constructor(
+    private readonly client: RedisClient,
+    private readonly fallback: RateLimitStore | null = new MemoryRateLimitStore()
+  ) {}
+
+  increment(key: string, expiresAt: number, amount = 1): Promise<number> {
+    return this.withFallback(async () => {
+      const [value] = await this.client.transaction([
+        ['INCRBY', key, amount],
+        ['PEXPIREAT', key, expiresAt],
+      ]);
+      return Number(value);
+    }, store => store.increment(key, expiresAt, amount));
+  }
+
+  get(key: string): Promise<number> {
+    return this.withFallback(async () => {
+      const value = await this.client.command(['GET', key]);
+      return Number(value) || 0;
+    }, store => store.get(key));
+  }
+
+  appendLog(
+    key: string,
+    member: string,
+    timestamp: number,
+    windowStart: number,
+    expiresAt: number
+  ): Promise<RateLimitLogState> {
+    return this.withFallback(async () => {
+      const [, , count, oldest] = await this.client.transaction([
+        ['ZREMRANGEBYSCORE', key, '-inf', windowStart],
+        ['ZADD', key, timestamp, member],
+        ['ZCARD', key],
+        ['ZRANGE', key, 0, 0, 'WITHSCORES'],
+        ['PEXPIREAT', key, expiresAt],
+      ]);
+      const oldestScore = Array.isArray(oldest) && oldest.length === 2 ? Number(oldest[1]) : null;
+      return { count: Number(count), oldest: oldestScore };
+    }, store => store.appendLog(key, member, timestamp, windowStart, expiresAt));
+  }
+
+  removeFromLog(key: string, member: string): Promise<void> {
+    return this.withFallback(async () => {
+      await this.client.command(['ZREM', key, member]);
+    }, store => store.removeFromLog(key, member));
+  }
+
+  takeTokens(
+    key: string,
+    amount: number,
+    capacity: number,
+    refillPerMs: number,
+    now: number
+  ): Promise<TokenBucketState> {
+    return this.withFallback(async () => {
+      const reply = await this.client.command([
+        'EVAL', TAKE_TOKENS_SCRIPT, 1, key, capacity, refillPerMs, now, amount,
+      ]);
+      const [allowed, tokens] = Array.isArray(reply) ? reply : [0, 0];
+      return { allowed: Number(allowed) === 1, tokens: Number(tokens) };
+    }, store => store.takeTokens(key, amount, capacity, refillPerMs, now));
+  }
+
+  async reset(key: string): Promise<void> {
+    await this.withFallback(async () => {
+      await this.client.command(['DEL', key]);
+    }, async () => undefined);
+
+    await this.fallback?.reset(key);
+  }
+
+  recordLimited(limiter: string, key: string, now: number): Promise<void> {
+    const statsKey = `${STATS_PREFIX}:${statsDay(now)}`;
+    const member = statsMember(limiter, key);
+
+    return this.withFallback(async () => {
+      await this.client.transaction([
+        ['ZINCRBY', statsKey, 1, member],
+        ['HSET', `${statsKey}:last`, member, now],
+        ['PEXPIRE', statsKey, STATS_TTL_MS],
+        ['PEXPIRE', `${statsKey}:last`, STATS_TTL_MS],
+      ]);
+    }, store => store.recordLimited(limiter, key, now));
+  }
+
+  getTopLimited(count: number, now: number): Promise<LimitedKeyStats[]> {
+    const statsKey = `${STATS_PREFIX}:${statsDay(now)}`;
+
+    return this.withFallback(async () => {
+      const reply = await this.client.command(['ZREVRANGE', statsKey, 0, count - 1, 'WITHSCORES']);
+      const flat = Array.isArray(reply) ? reply.map(String) : [];
+      const members: Array<{ member: string; count: number }> = [];
+      for (let i = 0; i + 1 < flat.length; i += 2) {
+        members.push({ member: flat[i], count: Number(flat[i + 1]) });
+      }
+
+      if (members.length === 0) {
+        return [];
+      }
+
+      const last = await this.client.command(['HMGET', `${statsKey}:last`, ...members.map(entry => entry.member)]);
+      const lastValues = Array.isArray(last) ? last : [];
+
+      return members.map((entry, index) => ({
+        ...parseStatsMember(entry.member),
+        count: entry.count,
+        lastLimitedAt: lastValues[index] ? new Date(Number(lastValues[index])).toISOString() : null,
+      }));
+    }, store => store.getTopLimited(count, now));
+  }
+
+  private async withFallback<T>(
+    run: () => Promise<T>,
+    fallback: (store: RateLimitStore) => Promise<T>
+  ): Promise<T> {
+    try {
+      return await run();
+    } catch (error) {
+      if (!this.fallback) {
+        throw error;
+      }
+
+      console.error('Redis rate limit store unavailable, using in-memory fallback:', error);
+      return fallback(this.fallback);
+    }
+  }
+}
+
+let rateLimitStore: RateLimitStore | null = null;
+
+/**
+ * Store picked by RATE_LIMIT_STORE (memory or redis, the latter reading REDIS_URL)
+ */
+export function getRateLimitStore(): RateLimitStore {
+  if (!rateLimitStore) {
+    rateLimitStore = createRateLimitStore();
+  }
+
+  return rateLimitStore;
+}
+
+/**
+ * Replace the shared store, e.g. with one backed by a fake Redis client
+ */
+export function setRateLimitStore(store: RateLimitStore | null) {
+  rateLimitStore = store;
+}
+
+export function createRateLimitStore(
+  type: string | undefined = process.env.RATE_LIMIT_STORE,
+  redisUrl: string | undefined = process.env.REDIS_URL
+): RateLimitStore {
+  const storeType = (type || 'memory').toLowerCase() as RateLimitStoreType;
+
+  if (storeType === 'redis') {
+    if (!redisUrl) {
+      console.warn('RATE_LIMIT_STORE is redis but REDIS_URL is not set, using the in-memory store');
+      return new MemoryRateLimitStore();
+    }
+
+    return new RedisRateLimitStore(new RespRedisClient(redisUrl));
+  }
+
+  if (storeType !== 'memory') {
+    console.warn(`Unknown RATE_LIMIT_STORE "${type}", using the in-memory store`);
+  }
+
+  return new MemoryRateLimitStore();
+}
@@ -0,0 +1,162 @@
+import type { RateLimitStore } from '@/lib/api/rate-limit-store';
+
+/**
+ * Rate limiting algorithms
+ *
+ * - fixed-window: one counter per aligned window; cheap, but allows up to
+ *   2x maxRequests across a window boundary
+ * - sliding-log: a timestamp per request; exact, memory grows with the limit
+ * - sliding-window: current and previous window counters weighted by how
+ *   far into the current window we are; close to exact at counter cost
+ * - token-bucket: maxRequests tokens refilled evenly over windowMs, with
+ *   bursts up to `burst` tokens
+ *
+ * Requests that end up limited are not counted against the caller.
+ */
+
+export type RateLimitStrategyName = 'fixed-window' | 'sliding-log' | 'sliding-window' | 'token-bucket';
+
+export const RATE_LIMIT_STRATEGIES: RateLimitStrategyName[] = [
+  'fixed-window',
+  'sliding-log',
+  'sliding-window',
+  'token-bucket',
+];
+
+export interface RateLimitWindow {
+  windowMs: number;
+  maxRequests: number;
+  // Token bucket capacity; defaults to maxRequests
+  burst?: number;
+}
+
+export interface RateLimitDecision {
+  limited: boolean;
+  remaining: number;
+  // When the caller's allowance is fully restored, in epoch milliseconds
+  resetTime: number;
+  // How long a limited caller should wait before retrying
+  retryAfterMs: number;
+  // Give the request back, for skipSuccessfulRequests/skipFailedRequests
+  refund: () => Promise<void>;
+}
+
+export interface RateLimitStrategy {
+  consume(store: RateLimitStore, key: string, limits: RateLimitWindow, now: number): Promise<RateLimitDecision>;
+}
+
+const noRefund = async () => undefined;
+
+const fixedWindow: RateLimitStrategy = {
+  async consume(store, key, { windowMs, maxRequests }, now) {
+    // Windows end on multiples of windowMs; a boundary itself starts a new window
+    const resetTime = Math.floor(now / windowMs) * windowMs + windowMs;
+    const requests = await store.increment(key, resetTime);
+    const refund = async () => {
+      await store.increment(key, resetTime, -1);
+    };
+
+    if (requests > maxRequests) {
+      await refund();
+      return { limited: true, remaining: 0, resetTime, retryAfterMs: resetTime - now, refund: noRefund };
+    }
+
+    return { limited: false, remaining: maxRequests - requests, resetTime, retryAfterMs: 0, refund };
+  },
+};
+
+const slidingLog: RateLimitStrategy = {
+  async consume(store, key, { windowMs, maxRequests }, now) {
+    const member = `${now}:${Math.random().toString(36).slice(2, 10)}`;
+    const { count, oldest } = await store.appendLog(key, member, now, now - windowMs, now + windowMs);
+    const refund = async () => {
+      await store.removeFromLog(key, member);
+    };
+
+    if (count > maxRequests) {
+      await refund();
+      // The oldest request leaving the window frees a slot
+      const retryAt = (oldest ?? now) + windowMs;
+      return { limited: true, remaining: 0, resetTime: now + windowMs, retryAfterMs: Math.max(0, retryAt - now), refund: noRefund };
+    }
+
+    return { limited: false, remaining: maxRequests - count, resetTime: now + windowMs, retryAfterMs: 0, refund };
+  },
+};
+
+const slidingWindow: RateLimitStrategy = {
+  async consume(store, key, { windowMs, maxRequests }, now) {
+    const windowIndex = Math.floor(now / windowMs);
+    const windowStart = windowIndex * windowMs;
+    const currentKey = `${key}:${windowIndex}`;
+    // The current counter is read again as the previous one next window
+    const expiresAt = windowStart + 2 * windowMs;
+
+    const [current, previous] = await Promise.all([
+      store.increment(currentKey, expiresAt),
+      store.get(`${key}:${windowIndex - 1}`),
+    ]);
+    const refund = async () => {
+      await store.increment(currentKey, expiresAt, -1);
+    };
+
+    const previousWeight = 1 - (now - windowStart) / windowMs;
+    const estimate = previous * previousWeight + current;
+    const resetTime = windowStart + windowMs;
+
+    if (estimate > maxRequests) {
+      await refund();
+
+      // Wait until the previous window's share has decayed enough for one more request
+      const headroom = maxRequests - current;
+      const retryAt = previous > 0 && headroom >= 0
+        ? windowStart + (1 - headroom / previous) * windowMs
+        : resetTime;
+      return { limited: true, remaining: 0, resetTime, retryAfterMs: Math.max(0, Math.ceil(retryAt - now)), refund: noRefund };
+    }
+
+    return {
+      limited: false,
+      remaining: Math.max(0, Math.floor(maxRequests - estimate)),
+      resetTime,
+      retryAfterMs: 0,
+      refund,
+    };
+  },
+};
+
+const tokenBucket: RateLimitStrategy = {
+  async consume(store, key, { windowMs, maxRequests, burst }, now) {
+    const capacity = burst ?? maxRequests;
+    const refillPerMs = maxRequests / windowMs;
+    const { allowed, tokens } = await store.takeTokens(key, 1, capacity, refillPerMs, now);
+    const resetTime = now + Math.ceil((capacity - tokens) / refillPerMs);
+
+    if (!allowed) {
+      return {
+        limited: true,
+        remaining: 0,
+        resetTime,
+        retryAfterMs: Math.ceil((1 - tokens) / refillPerMs),
+        refund: noRefund,
+      };
+    }
+
+    return {
+      limited: false,
+      remaining: Math.floor(tokens),
+      resetTime,
+      retryAfterMs: 0,
+      refund: async () => {
+        await store.takeTokens(key, -1, capacity, refillPerMs, Date.now());
+      },
+    };
+  },
+};
+
+export const rateLimitStrategies: Record<RateLimitStrategyName, RateLimitStrategy> = {
+  'fixed-window': fixedWindow,
+  'sliding-log': slidingLog,
+  'sliding-window': slidingWindow,
+  'token-bucket': tokenBucket,
+};
@@ -1,36 +1,40 @@
 import { NextRequest, NextResponse } from 'next/server';
-
-interface RateLimitConfig {
+import { createServerClient } from '@/lib/supabase/server';
+import {
+  getRateLimitStore,
+  type LimitedKeyStats,
+  type RateLimitStore,
+  type RateLimitStoreType,
+} from '@/lib/api/rate-limit-store';
+import { rateLimitStrategies, type RateLimitStrategyName } from '@/lib/api/rate-limit-strategies';
+
+export interface RateLimitConfig {
   windowMs: number; // Time window in milliseconds
   maxRequests: number; // Maximum number of requests per window
+  // Algorithm; defaults to fixed-window (see rate-limit-strategies.ts)
+  strategy?: RateLimitStrategyName;
+  // Token bucket capacity, defaults to maxRequests
+  burst?: number;
+  // Namespaces the limiter's keys and labels it in rate limit stats
+  name?: string;
   message?: string;
   statusCode?: number;
-  keyGenerator?: (request: NextRequest) => string;
+  keyGenerator?: (request: NextRequest) => string | Promise<string>;
   skipSuccessfulRequests?: boolean;
   skipFailedRequests?: boolean;
+  // Defaults to the shared store selected by RATE_LIMIT_STORE
+  store?: RateLimitStore;
 }
 
-interface RateLimitStore {
-  [key: string]: {
-    requests: number;
-    resetTime: number;
-  };
+export interface RateLimitResult {
+  limited: boolean;
+  response?: NextResponse;
+  // X-RateLimit-* values for the response that is let through
+  headers: Record<string, string>;
+  // Report the handler's response so skipped outcomes are given back
+  complete: (response: Response) => Promise<void>;
 }
 
-// In-memory store for rate limiting
-// In production, this should use Redis or another persistent store
-const rateLimitStore: RateLimitStore = {};
-
-// Cleanup old entries periodically
-setInterval(() => {
-  const now = Date.now();
-  Object.keys(rateLimitStore).forEach(key => {
-    if (rateLimitStore[key].resetTime < now) {
-      delete rateLimitStore[key];
-    }
-  });
-}, 60000); // Cleanup every minute
-
 /**
  * Create a rate limiting middleware
  * @param config Rate limiting configuration
@@ -40,34 +44,38 @@ export function createRateLimit(config: RateLimitConfig) {
   const {
     windowMs,
     maxRequests,
+    strategy = 'fixed-window',
+    burst,
+    name = 'default',
     message = 'Too many requests, please try again later.',
     statusCode = 429,
     keyGenerator = defaultKeyGenerator,
     skipSuccessfulRequests = false,
     skipFailedRequests = false,
+    store,
   } = config;
 
+  const algorithm = rateLimitStrategies[strategy];
+
   return async function rateLimit(
     request: NextRequest,
     response?: NextResponse
-  ): Promise<{ limited: boolean; response?: NextResponse }> {
-    const key = keyGenerator(request);
+  ): Promise<RateLimitResult> {
+    const limiterStore = store || getRateLimitStore();
+    const baseKey = await keyGenerator(request);
     const now = Date.now();
-    const resetTime = Math.ceil(now / windowMs) * windowMs;
-
-    // Get or create rate limit entry
-    if (!rateLimitStore[key] || rateLimitStore[key].resetTime <= now) {
-      rateLimitStore[key] = {
-        requests: 0,
-        resetTime,
-      };
-    }
 
-    const entry = rateLimitStore[key];
+    const decision = await algorithm.consume(
+      limiterStore,
+      `${baseKey}:${name}:${strategy}`,
+      { windowMs, maxRequests, burst },
+      now
+    );
 
-    // Check if rate limit is exceeded
-    if (entry.requests >= maxRequests) {
-      const retryAfter = Math.ceil((entry.resetTime - now) / 1000);
+    if (decision.limited) {
+      await limiterStore.recordLimited(name, baseKey, now).catch(error => {
+        console.error('Error recording rate limit stats:', error);
+      });
 
       const limitResponse = NextResponse.json(
         { error: message },
@@ -76,27 +84,38 @@ export function createRateLimit(config: RateLimitConfig) {
           headers: {
             'X-RateLimit-Limit': maxRequests.toString(),
             'X-RateLimit-Remaining': '0',
-            'X-RateLimit-Reset': entry.resetTime.toString(),
-            'Retry-After': retryAfter.toString(),
+            'X-RateLimit-Reset': decision.resetTime.toString(),
+            'Retry-After': Math.ceil(decision.retryAfterMs / 1000).toString(),
           },
         }
       );
 
-      return { limited: true, response: limitResponse };
+      return { limited: true, response: limitResponse, headers: {}, complete: async () => undefined };
     }
 
-    // Increment request count
-    entry.requests++;
+    const headers = {
+      'X-RateLimit-Limit': maxRequests.toString(),
+      'X-RateLimit-Remaining': decision.remaining.toString(),
+      'X-RateLimit-Reset': decision.resetTime.toString(),
+    };
 
     // Add rate limit headers to response if provided
     if (response) {
-      const remaining = Math.max(0, maxRequests - entry.requests);
-      response.headers.set('X-RateLimit-Limit', maxRequests.toString());
-      response.headers.set('X-RateLimit-Remaining', remaining.toString());
-      response.headers.set('X-RateLimit-Reset', entry.resetTime.toString());
+      for (const [name, value] of Object.entries(headers)) {
+        response.headers.set(name, value);
+      }
     }
 
-    return { limited: false };
+    return {
+      limited: false,
+      headers,
+      complete: async (handlerResponse: Response) => {
+        const succeeded = handlerResponse.status < 400;
+        if ((succeeded && skipSuccessfulRequests) || (!succeeded && skipFailedRequests)) {
+          await decision.refund();
+        }
+      },
+    };
   };
 }
 
@@ -120,11 +139,23 @@ function defaultKeyGenerator(request: NextRequest): string {
 }
 
 /**
- * Key generator using user ID from admin token
+ * Key generator using the authenticated admin's user ID
+ *
+ * Falls back to IP-based limiting for unauthenticated requests, so a
+ * forged or expired token never gets a fresh bucket of its own.
  */
-export function adminUserKeyGenerator(request: NextRequest): string {
-  // In a real implementation, you would extract user ID from the admin token
-  // For now, fall back to IP-based limiting
+export async function adminUserKeyGenerator(request: NextRequest): Promise<string> {
+  try {
+    const supabase = await createServerClient();
+    const { data: { user } } = await supabase.auth.getUser();
+
+    if (user) {
+      return `rate_limit:admin:${user.id}`;
+    }
+  } catch (error) {
+    console.error('Error resolving admin for rate limiting:', error);
+  }
+
   return defaultKeyGenerator(request);
 }
 
@@ -141,14 +172,21 @@ export function apiEndpointKeyGenerator(endpoint: string) {
 // Common rate limit configurations
 export const rateLimitConfigs = {
   // Strict rate limiting for authentication endpoints
+  // An exact log, so attempts cannot double up across a window boundary
   auth: {
+    name: 'auth',
+    strategy: 'sliding-log',
     windowMs: 15 * 60 * 1000, // 15 minutes
     maxRequests: 5,
     message: 'Too many authentication attempts, please try again later.',
+    // Only failed attempts count, so admins sharing an office IP can still sign in
+    skipSuccessfulRequests: true,
   },
 
   // Moderate rate limiting for general admin API
   adminApi: {
+    name: 'adminApi',
+    strategy: 'sliding-window',
     windowMs: 60 * 1000, // 1 minute
     maxRequests: 60,
     message: 'Too many API requests, please slow down.',
@@ -156,25 +194,49 @@ export const rateLimitConfigs = {
 
   // Generous rate limiting for analytics endpoints (they may be called frequently)
   analytics: {
+    name: 'analytics',
+    strategy: 'sliding-window',
     windowMs: 60 * 1000, // 1 minute
     maxRequests: 30,
     message: 'Too many analytics requests, please slow down.',
   },
 
-  // Strict rate limiting for report generation/export
+  // Strict rate limiting for report generation/export, refilled evenly through the minute
   reports: {
+    name: 'reports',
+    strategy: 'token-bucket',
     windowMs: 60 * 1000, // 1 minute
     maxRequests: 5,
     message: 'Too many report requests, please wait before generating another report.',
   },
 
+  // Signed report downloads, keyed by IP since recipients need not be admins
+  downloads: {
+    name: 'downloads',
+    strategy: 'sliding-window',
+    windowMs: 60 * 1000, // 1 minute
+    maxRequests: 20,
+    message: 'Too many download requests, please slow down.',
+  },
+
+  // Member appeals, keyed by IP since the caller is a member rather than an admin
+  appeals: {
+    name: 'appeals',
+    strategy: 'sliding-window',
+    windowMs: 15 * 60 * 1000, // 15 minutes
+    maxRequests: 10,
+    message: 'Too many appeal requests, please try again later.',
+  },
+
   // Very strict rate limiting for system operations
   system: {
+    name: 'system',
+    strategy: 'sliding-log',
     windowMs: 60 * 1000, // 1 minute
     maxRequests: 10,
     message: 'Too many system requests, please slow down.',
   },
-};
+} satisfies Record<string, RateLimitConfig>;
 
 // Pre-configured rate limiters
 export const authRateLimit = createRateLimit(rateLimitConfigs.auth);
@@ -183,6 +245,39 @@ export const analyticsRateLimit = createRateLimit(rateLimitConfigs.analytics);
 export const reportsRateLimit = createRateLimit(rateLimitConfigs.reports);
 export const systemRateLimit = createRateLimit(rateLimitConfigs.system);
 
+export interface RateLimitOverview {
+  store: RateLimitStoreType;
+  limiters: Array<{
+    name: string;
+    strategy: RateLimitStrategyName;
+    windowMs: number;
+    maxRequests: number;
+    burst: number | null;
+  }>;
+  // Keys limited most often today (UTC)
+  topLimited: LimitedKeyStats[];
+}
+
+/**
+ * Configured limiters and the keys hitting them most, for the system view
+ */
+export async function getRateLimitOverview(count = 20): Promise<RateLimitOverview> {
+  const store = getRateLimitStore();
+  const limiters = Object.values(rateLimitConfigs).map((config: RateLimitConfig) => ({
+    name: config.name || 'default',
+    strategy: config.strategy || 'fixed-window',
+    windowMs: config.windowMs,
+    maxRequests: config.maxRequests,
+    burst: config.burst ?? null,
+  }));
+
+  return {
+    store: store.type,
+    limiters,
+    topLimited: await store.getTopLimited(count, Date.now()),
+  };
+}
+
 /**
  * Utility function to apply rate limiting to an API route
  */
@@ -191,13 +286,25 @@ export async function withRateLimit<T>(
   rateLimiter: ReturnType<typeof createRateLimit>,
   handler: () => Promise<T>
 ): Promise<NextResponse | T> {
-  const { limited, response } = await rateLimiter(request);
+  const { limited, response, complete } = await rateLimiter(request);
 
   if (limited && response) {
     return response;
   }
 
-  return handler();
+  let result: T;
+  try {
+    result = await handler();
+  } catch (error) {
+    await complete(new Response(null, { status: 500 }));
+    throw error;
+  }
+
+  if (result instanceof Response) {
+    await complete(result);
+  }
+
+  return result;
 }
 
 /**
@@ -0,0 +1,334 @@
+import net from 'node:net';
+import tls from 'node:tls';
+
+/**
+ * Minimal Redis client speaking RESP2 over a single connection
+ *
+ * Only what the API layer needs: plain commands and MULTI/EXEC
+ * transactions. Works against redis-server or anything speaking the same
+ * protocol, and the RedisClient interface lets callers swap in a fake.
+ */
+
+export type RedisArgument = string | number;
+export type RedisReply = string | number | null | RedisReply[];
+
+export interface RedisClient {
+  command(args: RedisArgument[]): Promise<RedisReply>;
+  // Runs the commands inside MULTI/EXEC and returns each command's reply
+  transaction(commands: RedisArgument[][]): Promise<RedisReply[]>;
+  close(): Promise<void>;
+}
+
+export interface RedisClientOptions {
+  connectTimeoutMs?: number;
+  commandTimeoutMs?: number;
+}
+
+export class RedisError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RedisError';
+  }
+}
+
+interface PendingReply {
+  resolve: (reply: RedisReply) => void;
+  reject: (error: Error) => void;
+}
+
+interface ParsedReply {
+  value: RedisReply | RedisError;
+  offset: number;
+}
+
+const CRLF = '\r\n';
+
+export class RespRedisClient implements RedisClient {
+  // Ready socket, set once AUTH/SELECT have gone through
+  private socket: net.Socket | null = null;
+  // Socket whose events we still listen to, ready or not
+  private current: net.Socket | null = null;
+  private connecting: Promise<net.Socket> | null = null;
+  private buffer: Buffer = Buffer.alloc(0);
+  private pending: PendingReply[] = [];
+  private readonly url: URL;
+  private readonly connectTimeoutMs: number;
+  private readonly commandTimeoutMs: number;
+
+  constructor(url: string, options: RedisClientOptions = {}) {
+    this.url = new URL(url);
+    this.connectTimeoutMs = options.connectTimeoutMs ?? 2000;
+    this.commandTimeoutMs = options.commandTimeoutMs ?? 2000;
+
+    if (this.url.protocol !== 'redis:' && this.url.protocol !== 'rediss:') {
+      throw new RedisError(`Unsupported Redis URL protocol: ${this.url.protocol}`);
+    }
+  }
+
+  async command(args: RedisArgument[]): Promise<RedisReply> {
+    const [reply] = await this.send([args]);
+    return reply;
+  }
+
+  async transaction(commands: RedisArgument[][]): Promise<RedisReply[]> {
+    const replies = await this.send([['MULTI'], ...commands, ['EXEC']]);
+    const result = replies[replies.length - 1];
+
+    if (!Array.isArray(result)) {
+      throw new RedisError('Transaction aborted');
+    }
+
+    return result;
+  }
+
+  async close(): Promise<void> {
+    const socket = this.current;
+    this.socket = null;
+    this.current = null;
+    this.connecting = null;
+
+    if (socket && !socket.destroyed) {
+      await new Promise<void>(resolve => socket.end(resolve));
+    }
+  }
+
+  /**
+   * Write the commands in one go so concurrent callers never interleave
+   */
+  private async send(commands: RedisArgument[][]): Promise<RedisReply[]> {
+    const socket = await this.connect();
+    const replies = commands.map(() => this.enqueue());
+
+    socket.write(commands.map(encodeCommand).join(''));
+
+    // Settle every reply before surfacing the first error
+    const settled = await Promise.allSettled(replies);
+    const failed = settled.find(result => result.status === 'rejected');
+    if (failed) {
+      throw (failed as PromiseRejectedResult).reason;
+    }
+
+    return settled.map(result => (result as PromiseFulfilledResult<RedisReply>).value);
+  }
+
+  private enqueue(): Promise<RedisReply> {
+    return new Promise<RedisReply>((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.destroy(new RedisError('Redis command timed out'));
+      }, this.commandTimeoutMs);
+
+      this.pending.push({
+        resolve: reply => {
+          clearTimeout(timer);
+          resolve(reply);
+        },
+        reject: error => {
+          clearTimeout(timer);
+          reject(error);
+        },
+      });
+    });
+  }
+
+  private connect(): Promise<net.Socket> {
+    if (this.socket && !this.socket.destroyed) {
+      return Promise.resolve(this.socket);
+    }
+
+    if (this.connecting) {
+      return this.connecting;
+    }
+
+    const connecting = new Promise<net.Socket>((resolve, reject) => {
+      const port = Number(this.url.port) || 6379;
+      const host = this.url.hostname || '127.0.0.1';
+      const socket = this.url.protocol === 'rediss:'
+        ? tls.connect({ host, port, servername: host })
+        : net.connect({ host, port });
+
+      const timer = setTimeout(() => {
+        socket.destroy(new RedisError('Redis connection timed out'));
+      }, this.connectTimeoutMs);
+
+      this.current = socket;
+      socket.setNoDelay(true);
+      socket.on('data', chunk => {
+        if (socket === this.current) {
+          this.onData(chunk);
+        }
+      });
+      socket.on('error', error => {
+        clearTimeout(timer);
+        if (socket === this.current) {
+          this.destroy(error);
+        }
+        reject(error);
+      });
+      socket.on('close', () => {
+        clearTimeout(timer);
+        if (socket === this.current) {
+          this.destroy(new RedisError('Redis connection closed'));
+        }
+        reject(new RedisError('Redis connection closed'));
+      });
+      socket.once(this.url.protocol === 'rediss:' ? 'secureConnect' : 'connect', () => {
+        clearTimeout(timer);
+        resolve(socket);
+      });
+    })
+      .then(socket => this.handshake(socket))
+      .then(socket => {
+        // Only hand the socket out once AUTH/SELECT have gone through
+        this.socket = socket;
+        return socket;
+      })
+      .finally(() => {
+        this.connecting = null;
+      });
+
+    this.connecting = connecting;
+    return connecting;
+  }
+
+  private async handshake(socket: net.Socket): Promise<net.Socket> {
+    const commands: RedisArgument[][] = [];
+    const username = decodeURIComponent(this.url.username);
+    const password = decodeURIComponent(this.url.password);
+    const database = this.url.pathname.replace(/^\//, '');
+
+    if (password) {
+      commands.push(username ? ['AUTH', username, password] : ['AUTH', password]);
+    }
+
+    if (database) {
+      commands.push(['SELECT', database]);
+    }
+
+    if (commands.length > 0) {
+      const replies = commands.map(() => this.enqueue());
+      socket.write(commands.map(encodeCommand).join(''));
+      try {
+        await Promise.all(replies);
+      } catch (error) {
+        this.destroy(error as Error);
+        throw error;
+      }
+    }
+
+    return socket;
+  }
+
+  private onData(chunk: Buffer) {
+    this.buffer = this.buffer.length > 0 ? Buffer.concat([this.buffer, chunk]) : chunk;
+
+    let offset = 0;
+    while (offset < this.buffer.length) {
+      let parsed: ParsedReply | null;
+      try {
+        parsed = parseReply(this.buffer, offset);
+      } catch (error) {
+        this.destroy(error as Error);
+        return;
+      }
+
+      if (!parsed) {
+        break;
+      }
+
+      offset = parsed.offset;
+      const waiter = this.pending.shift();
+      if (waiter) {
+        if (parsed.value instanceof RedisError) {
+          waiter.reject(parsed.value);
+        } else {
+          waiter.resolve(parsed.value);
+        }
+      }
+    }
+
+    this.buffer = this.buffer.subarray(offset);
+  }
+
+  private destroy(error: Error) {
+    const socket = this.current;
+    this.socket = null;
+    this.current = null;
+    this.buffer = Buffer.alloc(0);
+
+    const pending = this.pending;
+    this.pending = [];
+    pending.forEach(waiter => waiter.reject(error));
+
+    if (socket && !socket.destroyed) {
+      socket.destroy();
+    }
+  }
+}
+
+function encodeCommand(args: RedisArgument[]): string {
+  let encoded = `*${args.length}${CRLF}`;
+  for (const arg of args) {
+    const value = String(arg);
+    encoded += `$${Buffer.byteLength(value)}${CRLF}${value}${CRLF}`;
+  }
+  return encoded;
+}
+
+/**
+ * Parse one reply starting at offset, or return null if it is incomplete
+ */
+function parseReply(buffer: Buffer, offset: number): ParsedReply | null {
+  const lineEnd = buffer.indexOf(CRLF, offset);
+  if (lineEnd === -1) {
+    return null;
+  }
+
+  const type = String.fromCharCode(buffer[offset]);
+  const line = buffer.toString('utf8', offset + 1, lineEnd);
+  const next = lineEnd + 2;
+
+  switch (type) {
+    case '+':
+      return { value: line, offset: next };
+    case '-':
+      return { value: new RedisError(line), offset: next };
+    case ':':
+      return { value: Number(line), offset: next };
+    case '$': {
+      const length = Number(line);
+      if (length === -1) {
+        return { value: null, offset: next };
+      }
+      if (buffer.length < next + length + 2) {
+        return null;
+      }
+      return { value: buffer.toString('utf8', next, next + length), offset: next + length + 2 };
+    }
+    case '*': {
+      const count = Number(line);
+      if (count === -1) {
+        return { value: null, offset: next };
+      }
+
+      const items: RedisReply[] = [];
+      let failure: RedisError | null = null;
+      let cursor = next;
+      for (let i = 0; i < count; i++) {
+        const item = parseReply(buffer, cursor);
+        if (!item) {
+          return null;
+        }
+        // Errors inside EXEC results surface as the whole transaction failing
+        if (item.value instanceof RedisError) {
+          failure = failure || item.value;
+        } else {
+          items.push(item.value);
+        }
+        cursor = item.offset;
+      }
+      return { value: failure || items, offset: cursor };
+    }
+    default:
+      throw new RedisError(`Unexpected Redis reply type: ${type}`);
+  }
+}
@@ -0,0 +1,277 @@
+import { after, NextRequest, NextResponse } from 'next/server';
+import { requireAdminPermission, type AdminRouteSession } from '@/lib/auth/guard';
+import type { Permission } from '@/lib/auth/rbac';
+import { createRateLimit, rateLimitConfigs, type RateLimitResult } from '@/lib/api/rate-limit';
+import {
+  adminCache,
+  analyticsCache,
+  conditionalResponse,
+  invalidateCacheTags,
+  longCache,
+  reportsCache,
+  shortCache,
+  type CacheOptions,
+} from '@/lib/api/cache';
+
+/**
+ * Composable wrapper for API route handlers
+ *
+ * Runs rate limiting, authentication and RBAC, response caching (with
+ * stale-while-revalidate and ETags) and tag-based cache invalidation around a handler, and turns anything it throws into the
+ * standard `{ error }` JSON envelope.
+ */
+
+export type RateLimitName = keyof typeof rateLimitConfigs;
+export type CacheName = 'short' | 'analytics' | 'long' | 'admin' | 'reports';
+// Cache tags, fixed or worked out from the route params
+export type CacheTags<P> = string[] | ((params: P) => string[]);
+
+const CACHES = {
+  short: shortCache,
+  analytics: analyticsCache,
+  long: longCache,
+  admin: adminCache,
+  reports: reportsCache,
+};
+
+/**
+ * Error a handler can throw to answer with a specific status
+ */
+export class ApiError extends Error {
+  constructor(
+    public readonly status: number,
+    message: string,
+    public readonly details?: string[],
+    public readonly code?: string
+  ) {
+    super(message);
+    this.name = 'ApiError';
+  }
+}
+
+interface RouteOptions<P> {
+  // Names the route in error logs, e.g. "ban user API"
+  name: string;
+  // Limiter from rateLimitConfigs; false to skip
+  rateLimit?: RateLimitName | false;
+  // Cache tags dropped after a successful (2xx) response
+  invalidates?: CacheTags<P>;
+}
+
+export interface AdminRouteOptions<P> extends RouteOptions<P> {
+  // Every listed permission is required; omit for any authenticated admin
+  permissions?: Permission[];
+  // Cache GET responses; entries are per admin unless shared
+  cache?: { name: CacheName; shared?: boolean; tags?: CacheTags<P> };
+  // Serve admins whose password has expired, e.g. the change-password route
+  allowExpiredPassword?: boolean;
+  // Serve admins who must still enroll a required second factor, e.g. 2FA setup
+  allowTwoFactorSetup?: boolean;
+}
+
+export type PublicRouteOptions<P> = RouteOptions<P>;
+
+export interface RouteContext<P> {
+  request: NextRequest;
+  params: P;
+}
+
+export interface AdminRouteContext<P> extends RouteContext<P> {
+  session: AdminRouteSession;
+}
+
+type RouteHandler<P> = (
+  request: NextRequest,
+  context: { params: Promise<P> }
+) => Promise<Response>;
+
+/**
+ * Wrap a route that requires an authenticated admin
+ *
+ * Authenticated routes are rate limited per admin and default to the
+ * adminApi limiter.
+ */
+export function withAdminRoute<P = Record<string, never>>(
+  options: AdminRouteOptions<P>,
+  handler: (context: AdminRouteContext<P>) => Promise<Response>
+): RouteHandler<P> {
+  return async (request, routeContext) => {
+    try {
+      const guard = await requireAdminPermission(...(options.permissions || []));
+      if (!guard.success) {
+        return guard.response;
+      }
+
+      const { session } = guard;
+      const params = await routeContext.params;
+
+      if (session.passwordExpired && !options.allowExpiredPassword) {
+        return NextResponse.json(
+          { error: 'Your password has expired. Choose a new one to continue.', code: 'PASSWORD_EXPIRED' },
+          { status: 403 }
+        );
+      }
+
+      if (session.twoFactorSetupRequired && !options.allowTwoFactorSetup) {
+        return NextResponse.json(
+          { error: 'Set up two-factor authentication to continue.', code: 'TWO_FACTOR_SETUP_REQUIRED' },
+          { status: 403 }
+        );
+      }
+
+      const limit = await applyRateLimit(
+        request,
+        options.rateLimit ?? 'adminApi',
+        `rate_limit:admin:${session.user.id}`
+      );
+      if (limit?.limited && limit.response) {
+        return limit.response;
+      }
+
+      const run = () => runHandler(options.name, () => handler({ request, session, params }));
+      const cache = options.cache && request.method === 'GET' ? CACHES[options.cache.name] : null;
+      const cacheOptions: CacheOptions = {
+        scope: options.cache?.shared ? undefined : session.user.id,
+        tags: resolveTags(options.cache?.tags, params),
+      };
+
+      if (cache) {
+        const cached = await cache.get(request, cacheOptions);
+        if (cached) {
+          // Serve the stale copy now and refresh it once the response is sent
+          if (cached.stale) {
+            after(() => cache.revalidate(request, run, cacheOptions));
+          }
+
+          await limit?.complete(cached.response);
+          return withRateLimitHeaders(cached.response, limit);
+        }
+      }
+
+      let response = await run();
+
+      if (cache && response.ok) {
+        const etag = await cache.set(request, response, cacheOptions);
+        response.headers.set('X-Cache', 'MISS');
+        if (etag) {
+          response = conditionalResponse(request, response, etag);
+        }
+      }
+
+      return finish(resolveTags(options.invalidates, params), response, limit);
+    } catch (error) {
+      return errorResponse(options.name, error);
+    }
+  };
+}
+
+/**
+ * Wrap a route open to unauthenticated callers, rate limited per IP
+ */
+export function withPublicRoute<P = Record<string, never>>(
+  options: PublicRouteOptions<P>,
+  handler: (context: RouteContext<P>) => Promise<Response>
+): RouteHandler<P> {
+  return async (request, routeContext) => {
+    try {
+      const params = await routeContext.params;
+
+      const limit = await applyRateLimit(request, options.rateLimit ?? false);
+      if (limit?.limited && limit.response) {
+        return limit.response;
+      }
+
+      const response = await runHandler(options.name, () => handler({ request, params }));
+
+      return finish(resolveTags(options.invalidates, params), response, limit);
+    } catch (error) {
+      return errorResponse(options.name, error);
+    }
+  };
+}
+
+/**
+ * Parse a JSON body, answering 400 with the usual message when it is invalid
+ */
+export async function readJsonBody<T = any>(request: Request): Promise<T> {
+  try {
+    return await request.json();
+  } catch {
+    throw new ApiError(400, 'Invalid JSON in request body');
+  }
+}
+
+async function applyRateLimit(
+  request: NextRequest,
+  name: RateLimitName | false,
+  key?: string
+): Promise<RateLimitResult | null> {
+  if (!name) {
+    return null;
+  }
+
+  const limiter = createRateLimit({
+    ...rateLimitConfigs[name],
+    ...(key ? { keyGenerator: () => key } : {}),
+  });
+
+  return limiter(request);
+}
+
+async function runHandler(name: string, run: () => Promise<Response>): Promise<Response> {
+  try {
+    return await run();
+  } catch (error) {
+    return errorResponse(name, error);
+  }
+}
+
+function resolveTags<P>(tags: CacheTags<P> | undefined, params: P): string[] {
+  if (!tags) {
+    return [];
+  }
+
+  return typeof tags === 'function' ? tags(params) : tags;
+}
+
+async function finish(
+  invalidates: string[],
+  response: Response,
+  limit: RateLimitResult | null
+): Promise<Response> {
+  if (response.ok && invalidates.length > 0) {
+    await invalidateCacheTags(invalidates);
+  }
+
+  await limit?.complete(response);
+  return withRateLimitHeaders(response, limit);
+}
+
+function withRateLimitHeaders(response: Response, limit: RateLimitResult | null): Response {
+  if (limit) {
+    for (const [name, value] of Object.entries(limit.headers)) {
+      response.headers.set(name, value);
+    }
+  }
+
+  return response;
+}
+
+function errorResponse(name: string, error: unknown): NextResponse {
+  if (error instanceof ApiError) {
+    return NextResponse.json(
+      {
+        error: error.message,
+        ...(error.code ? { code: error.code } : {}),
+        ...(error.details ? { details: error.details } : {}),
+      },
+      { status: error.status }
+    );
+  }
+
+  console.error(`Error in ${name}:`, error);
+  return NextResponse.json(
+    { error: 'Internal server error' },
+    { status: 500 }
+  );
+}
@@ -1,4 +1,6 @@
 import crypto from 'crypto';
+import { createClient } from '@supabase/supabase-js';
+import { recordAuditLog } from '@/lib/admin/audit-logs';
 
 /**
  * Two-Factor Authentication (2FA) utilities using TOTP (Time-based One-Time Password)
@@ -18,6 +20,22 @@ export interface TotpValidationResult {
   isValid: boolean;
   window?: number;
   usedWindow?: number;
+  // The code matched, but its time window was already consumed
+  replayed?: boolean;
+}
+
+export interface TwoFactorEnrollment {
+  success: boolean;
+  qrCodeUrl?: string;
+  manualEntryKey?: string;
+  error?: string;
+}
+
+export interface TwoFactorVerificationResult {
+  success: boolean;
+  method?: 'totp' | 'backup_code';
+  backupCodesRemaining?: number;
+  error?: string;
 }
 
 /**
@@ -27,9 +45,9 @@ const TOTP_CONFIG = {
   // Time window size in seconds (typically 30 seconds)
   timeWindow: 30,
   // Number of time windows to check (allows for clock skew)
-  windowSize: 2,
-  // Secret key length in bytes
-  secretLength: 32,
+  windowSize: 1,
+  // Secret key length in bytes (160 bits, as recommended by RFC 4226)
+  secretLength: 20,
   // Number of digits in TOTP code
   digits: 6,
   // Hash algorithm
@@ -38,6 +56,27 @@ const TOTP_CONFIG = {
   issuer: 'VowNow Admin',
 };
 
+// RFC 4648 base32 alphabet, the encoding authenticator apps expect
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+const ENCRYPTED_SECRET_VERSION = 'v1';
+
+// How long a started enrollment waits for its confirming code
+const ENROLLMENT_TTL_MS = 15 * 60 * 1000;
+
+/**
+ * Derive a 256-bit key for secret encryption and backup code hashing
+ */
+function getEncryptionKey(): Buffer {
+  const key = process.env.TWO_FACTOR_ENCRYPTION_KEY;
+
+  if (!key) {
+    throw new Error('Missing TWO_FACTOR_ENCRYPTION_KEY environment variable');
+  }
+
+  return crypto.createHash('sha256').update(key).digest();
+}
+
 /**
  * TOTP Utility Class
  */
@@ -46,8 +85,7 @@ export class TotpUtils {
    * Generate a new TOTP secret for a user
    */
   static generateSecret(userEmail: string): TotpSecret {
-    // Generate random secret (using hex for simplicity in demo)
-    const secret = crypto.randomBytes(TOTP_CONFIG.secretLength).toString('hex');
+    const secret = this.base32Encode(crypto.randomBytes(TOTP_CONFIG.secretLength));
 
     // Create manual entry key (formatted secret)
     const manualEntryKey = secret.match(/.{1,4}/g)?.join(' ') || secret;
@@ -88,8 +126,8 @@ export class TotpUtils {
     const codes: string[] = [];
 
     for (let i = 0; i < count; i++) {
-      // Generate 8-character alphanumeric code
-      const code = crypto.randomBytes(4).toString('hex').toUpperCase();
+      // 5 random bytes encode to exactly 8 base32 characters (40 bits)
+      const code = this.base32Encode(crypto.randomBytes(5));
       const formattedCode = `${code.slice(0, 4)}-${code.slice(4, 8)}`;
       codes.push(formattedCode);
     }
@@ -99,11 +137,14 @@ export class TotpUtils {
 
   /**
    * Validate TOTP code against secret
+   *
+   * Windows at or before `lastUsedWindow` are rejected so a code cannot be replayed.
    */
   static validateTotpCode(
     secret: string,
     code: string,
-    timestamp?: number
+    timestamp?: number,
+    lastUsedWindow?: number | null
   ): TotpValidationResult {
     if (!code || code.length !== TOTP_CONFIG.digits) {
       return { isValid: false };
@@ -118,6 +159,10 @@ export class TotpUtils {
       const expectedCode = this.generateTotpCode(secret, windowTime);
 
       if (this.constantTimeCompare(code, expectedCode)) {
+        if (lastUsedWindow !== undefined && lastUsedWindow !== null && windowTime <= lastUsedWindow) {
+          return { isValid: false, replayed: true };
+        }
+
         return {
           isValid: true,
           window: windowTime,
@@ -130,17 +175,62 @@ export class TotpUtils {
   }
 
   /**
-   * Decode secret (for demo purposes, using hex)
+   * Encode bytes as unpadded RFC 4648 base32
    */
-  private static decodeSecret(input: string): Buffer {
-    // For production, use a proper base32 library
-    // This demo uses hex encoding for simplicity
-    try {
-      return Buffer.from(input, 'hex');
-    } catch {
-      // Fallback to a simple conversion
-      return Buffer.from(input.slice(0, 32));
+  static base32Encode(buffer: Buffer): string {
+    let bits = 0;
+    let value = 0;
+    let output = '';
+
+    for (const byte of buffer) {
+      value = (value << 8) | byte;
+      bits += 8;
+
+      while (bits >= 5) {
+        output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+        bits -= 5;
+      }
     }
+
+    if (bits > 0) {
+      output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+    }
+
+    return output;
+  }
+
+  /**
+   * Decode RFC 4648 base32, ignoring case, spaces and padding
+   */
+  static base32Decode(input: string): Buffer {
+    const cleaned = input.toUpperCase().replace(/[\s=-]/g, '');
+    const bytes: number[] = [];
+    let bits = 0;
+    let value = 0;
+
+    for (const char of cleaned) {
+      const index = BASE32_ALPHABET.indexOf(char);
+      if (index === -1) {
+        throw new Error('Invalid base32 character');
+      }
+
+      value = (value << 5) | index;
+      bits += 5;
+
+      if (bits >= 8) {
+        bytes.push((value >>> (bits - 8)) & 255);
+        bits -= 8;
+      }
+    }
+
+    return Buffer.from(bytes);
+  }
+
+  /**
+   * Decode secret
+   */
+  private static decodeSecret(input: string): Buffer {
+    return this.base32Decode(input);
   }
 
   /**
@@ -151,8 +241,8 @@ export class TotpUtils {
     const timeBuffer = Buffer.alloc(8);
 
     // Write time window as big-endian 64-bit integer
-    timeBuffer.writeUInt32BE(0, 0);
-    timeBuffer.writeUInt32BE(timeWindow, 4);
+    timeBuffer.writeUInt32BE(Math.floor(timeWindow / 0x100000000), 0);
+    timeBuffer.writeUInt32BE(timeWindow >>> 0, 4);
 
     // Generate HMAC
     const hmac = crypto.createHmac(TOTP_CONFIG.algorithm, secretBuffer);
@@ -189,23 +279,31 @@ export class TotpUtils {
   }
 
   /**
-   * Validate backup code
+   * Hash a backup code for storage (keyed so leaked hashes cannot be brute forced offline)
+   */
+  static hashBackupCode(code: string): string {
+    const normalized = code.toUpperCase().replace(/[\s-]/g, '');
+    return crypto.createHmac('sha256', getEncryptionKey()).update(normalized).digest('hex');
+  }
+
+  /**
+   * Validate backup code against the stored hashes
    */
   static validateBackupCode(
-    backupCodes: string[],
+    backupCodeHashes: string[],
     providedCode: string
   ): { isValid: boolean; remainingCodes: string[] } {
-    const normalizedProvided = providedCode.toUpperCase().replace(/\s/g, '');
-    const codeIndex = backupCodes.findIndex(code =>
-      code.replace('-', '') === normalizedProvided.replace('-', '')
+    const providedHash = this.hashBackupCode(providedCode);
+    const codeIndex = backupCodeHashes.findIndex(hash =>
+      this.constantTimeCompare(hash, providedHash)
     );
 
     if (codeIndex === -1) {
-      return { isValid: false, remainingCodes: backupCodes };
+      return { isValid: false, remainingCodes: backupCodeHashes };
     }
 
     // Remove used backup code
-    const remainingCodes = [...backupCodes];
+    const remainingCodes = [...backupCodeHashes];
     remainingCodes.splice(codeIndex, 1);
 
     return { isValid: true, remainingCodes };
@@ -235,6 +333,61 @@ export class TotpUtils {
   static formatSecretForDisplay(secret: string): string {
     return secret.match(/.{1,4}/g)?.join(' ') || secret;
   }
+
+  /**
+   * Encrypt a secret for storage using AES-256-GCM
+   */
+  static encryptSecret(secret: string): string {
+    const iv = crypto.randomBytes(12);
+    const cipher = crypto.createCipheriv('aes-256-gcm', getEncryptionKey(), iv);
+    const encrypted = Buffer.concat([cipher.update(secret, 'utf8'), cipher.final()]);
+    const authTag = cipher.getAuthTag();
+
+    return [
+      ENCRYPTED_SECRET_VERSION,
+      iv.toString('base64'),
+      authTag.toString('base64'),
+      encrypted.toString('base64'),
+    ].join(':');
+  }
+
+  /**
+   * Decrypt a secret produced by encryptSecret
+   */
+  static decryptSecret(payload: string): string {
+    const [version, iv, authTag, encrypted] = payload.split(':');
+
+    if (version !== ENCRYPTED_SECRET_VERSION || !iv || !authTag || !encrypted) {
+      throw new Error('Unsupported 2FA secret format');
+    }
+
+    const decipher = crypto.createDecipheriv('aes-256-gcm', getEncryptionKey(), Buffer.from(iv, 'base64'));
+    decipher.setAuthTag(Buffer.from(authTag, 'base64'));
+
+    return Buffer.concat([
+      decipher.update(Buffer.from(encrypted, 'base64')),
+      decipher.final(),
+    ]).toString('utf8');
+  }
+}
+
+/**
+ * Service role client without next/headers so this module stays importable everywhere
+ */
+function getServiceClient() {
+  const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
+  const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+  if (!supabaseUrl || !supabaseServiceKey) {
+    throw new Error('Missing Supabase service role environment variables');
+  }
+
+  return createClient(supabaseUrl, supabaseServiceKey, {
+    auth: {
+      autoRefreshToken: false,
+      persistSession: false,
+    },
+  });
 }
 
 /**
@@ -250,16 +403,37 @@ export class TwoFactorManager {
     backupCodes: string[]
   ): Promise<{ success: boolean; error?: string }> {
     try {
-      // This would typically update the database
-      // For now, we'll simulate the operation
+      const supabase = getServiceClient();
+
+      const { error } = await supabase
+        .from('admin_users')
+        .update({
+          two_factor_enabled: true,
+          two_factor_secret: TotpUtils.encryptSecret(secret),
+          two_factor_backup_codes: backupCodes.map(code => TotpUtils.hashBackupCode(code)),
+          two_factor_last_used_window: null,
+          two_factor_enabled_at: new Date().toISOString(),
+          two_factor_pending_secret: null,
+          two_factor_pending_created_at: null,
+          updated_at: new Date().toISOString(),
+        })
+        .eq('id', userId);
+
+      if (error) {
+        throw error;
+      }
 
-      // In a real implementation, you would:
-      // 1. Update admin_users table to set two_factor_enabled = true
-      // 2. Store the encrypted secret and backup codes
-      // 3. Log the action in audit trail
+      await recordAuditLog({
+        adminUserId: userId,
+        action: '2fa_enabled',
+        resourceType: 'admin_user',
+        resourceId: userId,
+        newValues: { two_factor_enabled: true, backup_codes: backupCodes.length },
+      });
 
       return { success: true };
     } catch (error) {
+      console.error('Error enabling 2FA:', error);
       return { success: false, error: 'Failed to enable 2FA' };
     }
   }
@@ -271,11 +445,35 @@ export class TwoFactorManager {
     userId: string
   ): Promise<{ success: boolean; error?: string }> {
     try {
-      // This would typically update the database
-      // For now, we'll simulate the operation
+      const supabase = getServiceClient();
+
+      const { error } = await supabase
+        .from('admin_users')
+        .update({
+          two_factor_enabled: false,
+          two_factor_secret: null,
+          two_factor_backup_codes: [],
+          two_factor_last_used_window: null,
+          two_factor_enabled_at: null,
+          updated_at: new Date().toISOString(),
+        })
+        .eq('id', userId);
+
+      if (error) {
+        throw error;
+      }
+
+      await recordAuditLog({
+        adminUserId: userId,
+        action: '2fa_disabled',
+        resourceType: 'admin_user',
+        resourceId: userId,
+        newValues: { two_factor_enabled: false },
+      });
 
       return { success: true };
     } catch (error) {
+      console.error('Error disabling 2FA:', error);
       return { success: false, error: 'Failed to disable 2FA' };
     }
   }
@@ -291,14 +489,24 @@ export class TwoFactorManager {
     error?: string;
   }> {
     try {
-      // This would query the database for user's 2FA status
-      // For now, we'll return a default response
+      const supabase = getServiceClient();
+
+      const { data, error } = await supabase
+        .from('admin_users')
+        .select('two_factor_enabled, two_factor_backup_codes')
+        .eq('id', userId)
+        .single();
+
+      if (error || !data) {
+        throw error || new Error('Admin user not found');
+      }
 
       return {
-        enabled: false,
-        backupCodesRemaining: 0,
+        enabled: !!data.two_factor_enabled,
+        backupCodesRemaining: data.two_factor_backup_codes?.length || 0,
       };
     } catch (error) {
+      console.error('Error getting 2FA status:', error);
       return {
         enabled: false,
         backupCodesRemaining: 0,
@@ -318,20 +526,255 @@ export class TwoFactorManager {
     error?: string;
   }> {
     try {
+      const supabase = getServiceClient();
       const newBackupCodes = TotpUtils.generateBackupCodes();
 
-      // This would update the database with new backup codes
-      // For now, we'll return the generated codes
+      // Only accounts with 2FA enabled have backup codes to replace
+      const { data, error } = await supabase
+        .from('admin_users')
+        .update({
+          two_factor_backup_codes: newBackupCodes.map(code => TotpUtils.hashBackupCode(code)),
+          updated_at: new Date().toISOString(),
+        })
+        .eq('id', userId)
+        .eq('two_factor_enabled', true)
+        .select('id');
+
+      if (error) {
+        throw error;
+      }
+
+      if (!data || data.length === 0) {
+        return { success: false, error: '2FA is not enabled for this account' };
+      }
+
+      await recordAuditLog({
+        adminUserId: userId,
+        action: '2fa_backup_codes_regenerated',
+        resourceType: 'admin_user',
+        resourceId: userId,
+        newValues: { backup_codes: newBackupCodes.length },
+      });
 
+      // Plaintext codes are only ever returned here, once
       return {
         success: true,
         backupCodes: newBackupCodes,
       };
     } catch (error) {
+      console.error('Error regenerating backup codes:', error);
       return {
         success: false,
         error: 'Failed to regenerate backup codes',
       };
     }
   }
-}
\ No newline at end of file
+
+  /**
+   * Start enrollment: store a pending secret until the first code confirms it
+   */
+  static async startEnrollment(
+    userId: string,
+    userEmail: string
+  ): Promise<TwoFactorEnrollment> {
+    try {
+      const supabase = getServiceClient();
+      const { secret, qrCodeUrl, manualEntryKey } = TotpUtils.generateSecret(userEmail);
+
+      const { error } = await supabase
+        .from('admin_users')
+        .update({
+          two_factor_pending_secret: TotpUtils.encryptSecret(secret),
+          two_factor_pending_created_at: new Date().toISOString(),
+        })
+        .eq('id', userId);
+
+      if (error) {
+        throw error;
+      }
+
+      return { success: true, qrCodeUrl, manualEntryKey };
+    } catch (error) {
+      console.error('Error starting 2FA enrollment:', error);
+      return { success: false, error: 'Failed to start 2FA setup' };
+    }
+  }
+
+  /**
+   * Confirm enrollment with a valid code, then enable 2FA and issue backup codes
+   */
+  static async confirmEnrollment(
+    userId: string,
+    code: string
+  ): Promise<{ success: boolean; backupCodes?: string[]; error?: string }> {
+    try {
+      const supabase = getServiceClient();
+
+      const { data: adminUser, error } = await supabase
+        .from('admin_users')
+        .select('two_factor_pending_secret, two_factor_pending_created_at')
+        .eq('id', userId)
+        .single();
+
+      if (error || !adminUser?.two_factor_pending_secret || !adminUser.two_factor_pending_created_at) {
+        return { success: false, error: 'No 2FA setup in progress' };
+      }
+
+      if (Date.now() - new Date(adminUser.two_factor_pending_created_at).getTime() > ENROLLMENT_TTL_MS) {
+        return { success: false, error: '2FA setup expired, please start again' };
+      }
+
+      const secret = TotpUtils.decryptSecret(adminUser.two_factor_pending_secret);
+      const result = TotpUtils.validateTotpCode(secret, code);
+
+      if (!result.isValid || result.window === undefined) {
+        return { success: false, error: 'Invalid verification code' };
+      }
+
+      const backupCodes = TotpUtils.generateBackupCodes();
+      const enabled = await this.enableTwoFactor(userId, secret, backupCodes);
+
+      if (!enabled.success) {
+        return { success: false, error: enabled.error };
+      }
+
+      // The confirming code must not also work for the next login
+      await supabase
+        .from('admin_users')
+        .update({ two_factor_last_used_window: result.window })
+        .eq('id', userId);
+
+      return { success: true, backupCodes };
+    } catch (error) {
+      console.error('Error confirming 2FA enrollment:', error);
+      return { success: false, error: 'Failed to confirm 2FA setup' };
+    }
+  }
+
+  /**
+   * Whether the security settings require every admin to use 2FA
+   */
+  static async isTwoFactorRequired(): Promise<boolean> {
+    try {
+      const supabase = getServiceClient();
+
+      const { data } = await supabase
+        .from('system_settings')
+        .select('settings')
+        .eq('category', 'security')
+        .single();
+
+      return !!data?.settings?.two_factor_required_for_admins;
+    } catch (error) {
+      console.error('Error reading 2FA requirement:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Verify a TOTP or backup code against the stored 2FA state
+   */
+  static async verifyCode(
+    userId: string,
+    code: string
+  ): Promise<TwoFactorVerificationResult> {
+    try {
+      const supabase = getServiceClient();
+
+      const { data: adminUser, error } = await supabase
+        .from('admin_users')
+        .select('two_factor_enabled, two_factor_secret, two_factor_backup_codes, two_factor_last_used_window, updated_at')
+        .eq('id', userId)
+        .single();
+
+      if (error || !adminUser) {
+        return { success: false, error: 'User not found' };
+      }
+
+      if (!adminUser.two_factor_enabled || !adminUser.two_factor_secret) {
+        return { success: false, error: '2FA is not enabled for this account' };
+      }
+
+      const normalizedCode = code.replace(/\s/g, '');
+
+      if (/^\d{6}$/.test(normalizedCode)) {
+        const secret = TotpUtils.decryptSecret(adminUser.two_factor_secret);
+        const result = TotpUtils.validateTotpCode(
+          secret,
+          normalizedCode,
+          undefined,
+          adminUser.two_factor_last_used_window
+        );
+
+        if (result.replayed) {
+          return { success: false, error: 'Verification code has already been used' };
+        }
+
+        if (!result.isValid || result.window === undefined) {
+          return { success: false, error: 'Invalid verification code' };
+        }
+
+        // Only advance the window if no concurrent request consumed it first
+        const { data: consumed, error: updateError } = await supabase
+          .from('admin_users')
+          .update({ two_factor_last_used_window: result.window })
+          .eq('id', userId)
+          .or(`two_factor_last_used_window.is.null,two_factor_last_used_window.lt.${result.window}`)
+          .select('id');
+
+        if (updateError) {
+          throw updateError;
+        }
+
+        if (!consumed || consumed.length === 0) {
+          return { success: false, error: 'Verification code has already been used' };
+        }
+
+        return { success: true, method: 'totp' };
+      }
+
+      const backupCodes = adminUser.two_factor_backup_codes || [];
+      const backupResult = TotpUtils.validateBackupCode(backupCodes, normalizedCode);
+
+      if (!backupResult.isValid) {
+        return { success: false, error: 'Invalid verification code' };
+      }
+
+      // Optimistic lock on updated_at so a backup code cannot be spent twice
+      const { data: consumed, error: updateError } = await supabase
+        .from('admin_users')
+        .update({
+          two_factor_backup_codes: backupResult.remainingCodes,
+          updated_at: new Date().toISOString(),
+        })
+        .eq('id', userId)
+        .eq('updated_at', adminUser.updated_at)
+        .select('id');
+
+      if (updateError) {
+        throw updateError;
+      }
+
+      if (!consumed || consumed.length === 0) {
+        return { success: false, error: 'Verification code has already been used' };
+      }
+
+      await recordAuditLog({
+        adminUserId: userId,
+        action: '2fa_backup_code_used',
+        resourceType: 'admin_user',
+        resourceId: userId,
+        metadata: { backup_codes_remaining: backupResult.remainingCodes.length },
+      });
+
+      return {
+        success: true,
+        method: 'backup_code',
+        backupCodesRemaining: backupResult.remainingCodes.length,
+      };
+    } catch (error) {
+      console.error('Error verifying 2FA code:', error);
+      return { success: false, error: 'Failed to verify 2FA code' };
+    }
+  }
+}
@@ -0,0 +1,407 @@
+/** @jest-environment node */
+import { createHash, generateKeyPairSync, randomBytes, randomUUID, sign, type KeyObject } from 'crypto';
+import type {
+  AuthenticationResponseJSON,
+  PublicKeyCredentialCreationOptionsJSON,
+  PublicKeyCredentialRequestOptionsJSON,
+  RegistrationResponseJSON,
+} from '@simplewebauthn/server';
+import { WebAuthnManager, getWebAuthnConfig } from '@/lib/auth/webauthn';
+
+// In-memory stand-in for the two tables WebAuthnManager uses
+const mockTables: Record<string, Array<Record<string, any>>> = {};
+
+jest.mock('@supabase/supabase-js', () => ({
+  createClient: () => ({
+    from: (table: string) => new MockQuery(mockTables[table] ||= []),
+  }),
+}));
+
+type Filter = (row: Record<string, any>) => boolean;
+
+class MockQuery {
+  private operation: 'select' | 'insert' | 'update' | 'delete' = 'select';
+  private values: Record<string, any> = {};
+  private filters: Filter[] = [];
+  private headOnly = false;
+
+  constructor(private rows: Array<Record<string, any>>) {}
+
+  select(_columns?: string, options?: { head?: boolean }) {
+    this.headOnly = !!options?.head;
+    return this;
+  }
+
+  insert(values: Record<string, any>) {
+    this.operation = 'insert';
+    this.values = values;
+    return this;
+  }
+
+  update(values: Record<string, any>) {
+    this.operation = 'update';
+    this.values = values;
+    return this;
+  }
+
+  delete() {
+    this.operation = 'delete';
+    return this;
+  }
+
+  eq(column: string, value: unknown) {
+    this.filters.push(row => row[column] === value);
+    return this;
+  }
+
+  is(column: string, value: unknown) {
+    return this.eq(column, value);
+  }
+
+  order() {
+    return this;
+  }
+
+  async single() {
+    const rows = this.run().data || [];
+    return rows.length === 1 ? { data: rows[0], error: null } : { data: null, error: { message: 'Expected one row' } };
+  }
+
+  async maybeSingle() {
+    return { data: (this.run().data || [])[0] ?? null, error: null };
+  }
+
+  then<T>(resolve: (result: { data: any; count: number; error: null }) => T, reject?: (error: unknown) => T) {
+    return Promise.resolve(this.run()).then(resolve, reject);
+  }
+
+  private run() {
+    if (this.operation === 'insert') {
+      const row = { id: randomUUID(), created_at: new Date().toISOString(), ...this.values };
+      this.rows.push(row);
+      return { data: [{ ...row }], count: 1, error: null };
+    }
+
+    const matched = this.rows.filter(row => this.filters.every(filter => filter(row)));
+
+    if (this.operation === 'update') {
+      matched.forEach(row => Object.assign(row, this.values));
+    } else if (this.operation === 'delete') {
+      matched.forEach(row => this.rows.splice(this.rows.indexOf(row), 1));
+    }
+
+    return {
+      data: this.headOnly ? null : matched.map(row => ({ ...row })),
+      count: matched.length,
+      error: null,
+    };
+  }
+}
+
+/**
+ * Minimal CBOR encoder for attestation objects and COSE keys
+ */
+function cbor(value: unknown): Buffer {
+  const head = (major: number, length: number) => {
+    if (length < 24) return Buffer.from([(major << 5) | length]);
+    if (length < 256) return Buffer.from([(major << 5) | 24, length]);
+    return Buffer.from([(major << 5) | 25, length >> 8, length & 0xff]);
+  };
+
+  if (typeof value === 'number') {
+    return value >= 0 ? head(0, value) : head(1, -1 - value);
+  }
+  if (typeof value === 'string') {
+    const bytes = Buffer.from(value, 'utf8');
+    return Buffer.concat([head(3, bytes.length), bytes]);
+  }
+  if (Buffer.isBuffer(value)) {
+    return Buffer.concat([head(2, value.length), value]);
+  }
+  if (value instanceof Map) {
+    const entries = [...value.entries()].flatMap(([key, item]) => [cbor(key), cbor(item)]);
+    return Buffer.concat([head(5, value.size), ...entries]);
+  }
+
+  throw new Error(`Cannot CBOR-encode ${typeof value}`);
+}
+
+const sha256 = (data: Buffer | string) => createHash('sha256').update(data).digest();
+
+/**
+ * Software authenticator: one ES256 passkey answering register and get ceremonies
+ */
+class SoftwareAuthenticator {
+  readonly credentialId = randomBytes(16);
+  private counter = 0;
+  private userHandle: string | null = null;
+  private readonly privateKey: KeyObject;
+  private readonly publicKey: KeyObject;
+
+  constructor(private readonly origin: string) {
+    const keys = generateKeyPairSync('ec', { namedCurve: 'P-256' });
+    this.privateKey = keys.privateKey;
+    this.publicKey = keys.publicKey;
+  }
+
+  get id(): string {
+    return this.credentialId.toString('base64url');
+  }
+
+  register(options: PublicKeyCredentialCreationOptionsJSON): RegistrationResponseJSON {
+    this.userHandle = options.user.id;
+
+    const jwk = this.publicKey.export({ format: 'jwk' });
+    const coseKey = cbor(new Map<number, number | Buffer>([
+      [1, 2], // kty: EC2
+      [3, -7], // alg: ES256
+      [-1, 1], // crv: P-256
+      [-2, Buffer.from(jwk.x!, 'base64url')],
+      [-3, Buffer.from(jwk.y!, 'base64url')],
+    ]));
+
+    const credentialIdLength = Buffer.alloc(2);
+    credentialIdLength.writeUInt16BE(this.credentialId.length);
+
+    const authData = Buffer.concat([
+      this.authDataHeader(options.rp.id!, 0x45), // user present, user verified, attested credential data
+      Buffer.alloc(16), // AAGUID
+      credentialIdLength,
+      this.credentialId,
+      coseKey,
+    ]);
+
+    const clientDataJSON = this.clientData('webauthn.create', options.challenge);
+    const attestationObject = cbor(new Map<string, unknown>([
+      ['fmt', 'none'],
+      ['attStmt', new Map()],
+      ['authData', authData],
+    ]));
+
+    return {
+      id: this.id,
+      rawId: this.id,
+      type: 'public-key',
+      response: {
+        clientDataJSON: clientDataJSON.toString('base64url'),
+        attestationObject: attestationObject.toString('base64url'),
+        transports: ['internal'],
+      },
+      clientExtensionResults: {},
+    };
+  }
+
+  authenticate(
+    options: PublicKeyCredentialRequestOptionsJSON,
+    { userVerified = true }: { userVerified?: boolean } = {}
+  ): AuthenticationResponseJSON {
+    if (options.allowCredentials?.length && !options.allowCredentials.some(credential => credential.id === this.id)) {
+      throw new Error('NotAllowedError: no matching credential');
+    }
+
+    this.counter += 1;
+    const authenticatorData = this.authDataHeader(options.rpId!, userVerified ? 0x05 : 0x01);
+    const clientDataJSON = this.clientData('webauthn.get', options.challenge);
+    const signature = sign('sha256', Buffer.concat([authenticatorData, sha256(clientDataJSON)]), this.privateKey);
+
+    return {
+      id: this.id,
+      rawId: this.id,
+      type: 'public-key',
+      response: {
+        clientDataJSON: clientDataJSON.toString('base64url'),
+        authenticatorData: authenticatorData.toString('base64url'),
+        signature: signature.toString('base64url'),
+        userHandle: this.userHandle || undefined,
+      },
+      clientExtensionResults: {},
+    };
+  }
+
+  private authDataHeader(rpId: string, flags: number): Buffer {
+    const counter = Buffer.alloc(4);
+    counter.writeUInt32BE(this.counter);
+    return Buffer.concat([sha256(rpId), Buffer.from([flags]), counter]);
+  }
+
+  private clientData(type: string, challenge: string): Buffer {
+    return Buffer.from(JSON.stringify({ type, challenge, origin: this.origin, crossOrigin: false }));
+  }
+}
+
+const admin = { id: randomUUID(), email: 'admin@example.com' };
+const otherAdmin = { id: randomUUID(), email: 'other@example.com' };
+const origin = [getWebAuthnConfig().origin].flat()[0];
+
+async function registerPasskey(user = admin): Promise<SoftwareAuthenticator> {
+  const authenticator = new SoftwareAuthenticator(origin);
+  const start = await WebAuthnManager.startRegistration(user);
+  expect(start.success).toBe(true);
+
+  const result = await WebAuthnManager.finishRegistration(
+    user.id,
+    start.challengeId!,
+    authenticator.register(start.options!),
+    'Test key'
+  );
+  expect(result.success).toBe(true);
+
+  return authenticator;
+}
+
+describe('WebAuthnManager', () => {
+  beforeEach(() => {
+    for (const table of Object.keys(mockTables)) {
+      delete mockTables[table];
+    }
+  });
+
+  describe('registration', () => {
+    it('verifies the attestation and stores the passkey', async () => {
+      const start = await WebAuthnManager.startRegistration(admin);
+      const authenticator = new SoftwareAuthenticator(origin);
+
+      const result = await WebAuthnManager.finishRegistration(
+        admin.id,
+        start.challengeId!,
+        authenticator.register(start.options!),
+        '  Laptop  '
+      );
+
+      expect(result).toMatchObject({ success: true, credential: { name: 'Laptop', backedUp: false } });
+      expect(mockTables.admin_webauthn_credentials).toEqual([
+        expect.objectContaining({ admin_user_id: admin.id, credential_id: authenticator.id, counter: 0 }),
+      ]);
+      expect(mockTables.webauthn_challenges).toHaveLength(0);
+      await expect(WebAuthnManager.hasCredentials(admin.id)).resolves.toBe(true);
+    });
+
+    it('excludes passkeys the admin already has', async () => {
+      const authenticator = await registerPasskey();
+
+      const start = await WebAuthnManager.startRegistration(admin);
+
+      expect(start.options!.excludeCredentials).toEqual([
+        expect.objectContaining({ id: authenticator.id }),
+      ]);
+    });
+
+    it('refuses a challenge issued to another admin', async () => {
+      const start = await WebAuthnManager.startRegistration(otherAdmin);
+      const authenticator = new SoftwareAuthenticator(origin);
+
+      const result = await WebAuthnManager.finishRegistration(
+        admin.id,
+        start.challengeId!,
+        authenticator.register(start.options!)
+      );
+
+      expect(result).toEqual({ success: false, error: 'Registration challenge is invalid or expired' });
+      expect(mockTables.admin_webauthn_credentials || []).toHaveLength(0);
+    });
+
+    it('refuses an attestation made for another origin', async () => {
+      const start = await WebAuthnManager.startRegistration(admin);
+      const authenticator = new SoftwareAuthenticator('https://evil.example.com');
+
+      const result = await WebAuthnManager.finishRegistration(
+        admin.id,
+        start.challengeId!,
+        authenticator.register(start.options!)
+      );
+
+      expect(result.success).toBe(false);
+      expect(mockTables.admin_webauthn_credentials || []).toHaveLength(0);
+    });
+  });
+
+  describe('second factor', () => {
+    it('accepts an assertion from the admin who entered the password', async () => {
+      const authenticator = await registerPasskey();
+
+      const start = await WebAuthnManager.startAuthentication(admin.id);
+      expect(start.options!.allowCredentials).toEqual([expect.objectContaining({ id: authenticator.id })]);
+
+      const result = await WebAuthnManager.finishAuthentication(
+        start.challengeId!,
+        authenticator.authenticate(start.options!, { userVerified: false })
+      );
+
+      expect(result).toEqual({ success: true, userId: admin.id, passwordless: false });
+      expect(mockTables.admin_webauthn_credentials[0]).toMatchObject({ counter: 1, last_used_at: expect.any(String) });
+    });
+
+    it('refuses another admin\'s passkey', async () => {
+      await registerPasskey(admin);
+      const otherAuthenticator = await registerPasskey(otherAdmin);
+
+      const start = await WebAuthnManager.startAuthentication(admin.id);
+      const result = await WebAuthnManager.finishAuthentication(
+        start.challengeId!,
+        otherAuthenticator.authenticate({ ...start.options!, allowCredentials: undefined })
+      );
+
+      expect(result).toEqual({ success: false, error: 'Passkey does not belong to this account' });
+    });
+
+    it('does not start for an admin without passkeys', async () => {
+      const start = await WebAuthnManager.startAuthentication(admin.id);
+
+      expect(start).toEqual({ success: false, error: 'No passkeys registered for this account' });
+    });
+
+    it('answers each challenge only once', async () => {
+      const authenticator = await registerPasskey();
+      const start = await WebAuthnManager.startAuthentication(admin.id);
+      const assertion = authenticator.authenticate(start.options!);
+
+      await expect(WebAuthnManager.finishAuthentication(start.challengeId!, assertion))
+        .resolves.toMatchObject({ success: true });
+      await expect(WebAuthnManager.finishAuthentication(start.challengeId!, assertion))
+        .resolves.toEqual({ success: false, error: 'Authentication challenge is invalid or expired' });
+    });
+  });
+
+  describe('passwordless', () => {
+    it('resolves the admin from a discoverable, user-verified passkey', async () => {
+      const authenticator = await registerPasskey();
+
+      const start = await WebAuthnManager.startAuthentication();
+      expect(start.options!.allowCredentials).toBeUndefined();
+      expect(start.options!.userVerification).toBe('required');
+
+      const result = await WebAuthnManager.finishAuthentication(
+        start.challengeId!,
+        authenticator.authenticate(start.options!)
+      );
+
+      expect(result).toEqual({ success: true, userId: admin.id, passwordless: true });
+    });
+
+    it('requires user verification', async () => {
+      const authenticator = await registerPasskey();
+
+      const start = await WebAuthnManager.startAuthentication();
+      const result = await WebAuthnManager.finishAuthentication(
+        start.challengeId!,
+        authenticator.authenticate(start.options!, { userVerified: false })
+      );
+
+      expect(result.success).toBe(false);
+      expect(mockTables.admin_webauthn_credentials[0].counter).toBe(0);
+    });
+
+    it('refuses a passkey that was never registered', async () => {
+      await registerPasskey();
+      const stranger = new SoftwareAuthenticator(origin);
+
+      const start = await WebAuthnManager.startAuthentication();
+      const result = await WebAuthnManager.finishAuthentication(
+        start.challengeId!,
+        stranger.authenticate(start.options!)
+      );
+
+      expect(result).toEqual({ success: false, error: 'Unknown passkey' });
+    });
+  });
+});
@@ -0,0 +1,97 @@
+/**
+ * Offline list of breached and commonly chosen passwords
+ *
+ * Drawn from the most frequent entries of public breach corpora, plus words
+ * specific to this product. Bundled rather than fetched so the check works
+ * without network access, including from the reset script and the browser.
+ *
+ * Entries are lowercase. A password matches when it equals an entry or when
+ * it reduces to one after undoing common substitutions ("P@ssw0rd") and
+ * dropping the digits and symbols people tack on ("Summer2024!").
+ */
+
+const COMMON_PASSWORD_LIST = `
+123456 123456789 12345678 12345 1234567 1234567890 1234 123123 111111 000000
+654321 666666 121212 112233 123321 654321 7777777 888888 999999 555555
+11111111 123654 159753 147258369 987654321 1q2w3e4r 1q2w3e4r5t 1qaz2wsx
+1qazxsw2 zaq12wsx qwerty qwerty123 qwertyuiop qwert asdf asdfgh asdfghjkl
+zxcvbn zxcvbnm qazwsx azerty abc123 abcd1234 a1b2c3 aa123456 q1w2e3r4
+password passw0rd password1 password12 password123 pass pass123 passwort
+motdepasse contrasena wachtwoord senha parola haslo salasana losenord
+letmein welcome welcome1 hello hello123 login admin administrator root
+toor guest user test tester testing default changeme secret private
+master masterkey access iloveyou iloveu loveme lovely love princess
+sunshine shadow monkey dragon football baseball basketball soccer hockey
+soccer1 superman batman spiderman starwars pokemon naruto michael jordan
+jordan23 trustno1 whatever freedom mustang harley ranger buster tigger
+charlie daniel andrew thomas jessica ashley michelle nicole hannah amanda
+jennifer joshua matthew robert william taylor samantha maggie ginger
+cookie chocolate cheese pepper summer winter spring autumn fall
+january february march april may june july august september october
+november december monday friday sunday hunter killer ninja secret1
+computer internet google apple samsung microsoft windows linux
+qwerty1 qwerty12 abcdef abcdefg abcdefgh 1234qwer qwer1234 asdf1234
+zxcv1234 000000000 1111 2222 7777 1212 6969 696969 131313 252525
+987654 87654321 123456a 123456q a123456 q123456 123qwe qweasd
+qweasdzxc qazwsxedc 1q2w3e 3rjs1la7qe blink182 metallica slipknot
+liverpool chelsea arsenal barcelona realmadrid manchester yankees
+cowboys eagles steelers lakers packers flower flowers butterfly
+angel angels babygirl baby family friends forever heaven jesus
+christ god blessed faith hope victory success money rich lucky
+lucky7 diamond golden silver purple orange yellow banana apple1
+pumpkin strawberry peanut snoopy garfield mickey minnie disney
+matrix hacker phoenix legend warrior knight wizard merlin gandalf
+zaq1zaq1 trustme nothing anything something everything
+iloveyou1 iloveyou2 loveyou mylove lovelove sweetheart darling
+beautiful pretty cutie sexy hottie single married wedding bride
+groom fiance fiancee engaged marriage husband wife honey sweetie
+vownow vownow1 vownowadmin admin1 admin12 admin123 admin1234
+administrator1 superadmin moderator support staff manager office
+company business service system server database backup
+correcthorsebatterystaple
+`;
+
+const COMMON_PASSWORDS: ReadonlySet<string> = new Set(COMMON_PASSWORD_LIST.trim().split(/\s+/));
+
+// Substitutions undone before the base word is compared
+const SUBSTITUTIONS: Record<string, string> = {
+  '@': 'a',
+  '4': 'a',
+  '8': 'b',
+  '3': 'e',
+  '6': 'g',
+  '1': 'i',
+  '!': 'i',
+  '0': 'o',
+  '$': 's',
+  '5': 's',
+  '7': 't',
+};
+
+/**
+ * Whether a password is on the list or is a thinly disguised variant of an entry
+ */
+export function isCommonPassword(password: string): boolean {
+  const lowered = password.toLowerCase();
+
+  if (COMMON_PASSWORDS.has(lowered)) {
+    return true;
+  }
+
+  const trimmed = lowered.replace(/[^a-z]+$/, '');
+  const candidates = [
+    // "Welcome2024!" and "!!admin" come down to the word they decorate
+    trimmed.replace(/^[^a-z]+/, ''),
+    // "P@ssw0rd1" and "l3tm3in" come down to the word they disguise
+    unsubstitute(lowered),
+    unsubstitute(trimmed),
+  ];
+
+  return candidates.some(candidate => candidate.length >= 4 && COMMON_PASSWORDS.has(candidate));
+}
+
+function unsubstitute(value: string): string {
+  return value
+    .replace(/[@483610!$57]/g, character => SUBSTITUTIONS[character])
+    .replace(/[^a-z]/g, '');
+}
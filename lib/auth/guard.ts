@@ -0,0 +1,158 @@
+import { NextResponse } from 'next/server';
+import { ServerSessionManager } from '@/lib/auth/session';
+import { RBACManager, type Permission } from '@/lib/auth/rbac';
+import { resolveAdminPermissions, type EffectivePermissions } from '@/lib/admin/roles';
+import { resolveRequestImpersonation, type ImpersonationSession } from '@/lib/admin/impersonation';
+import { PasswordPolicyManager } from '@/lib/auth/password-policy';
+import { TwoFactorManager } from '@/lib/auth/2fa';
+import { WebAuthnManager } from '@/lib/auth/webauthn';
+import type { AdminUser, AdminUserRole } from '@/lib/types/database.types';
+
+/**
+ * Server-side RBAC guard for admin API routes
+ *
+ * Resolves the caller's effective permissions (built-in role, custom role
+ * and per-admin overrides) and checks them, returning structured 401/403
+ * responses on failure. Requests made while impersonating a user are
+ * audited with both identities. Admins with TOTP or a passkey must have
+ * passed it on this login session. Admins whose password has expired, or
+ * who have yet to enroll a required second factor, are flagged so
+ * withAdminRoute can hold them to fixing that first.
+ */
+
+export interface AdminRouteSession {
+  user: {
+    id: string;
+    email: string;
+    role: AdminUserRole;
+  };
+  adminUser: AdminUser;
+  permissions: Permission[];
+  customRole: EffectivePermissions['customRole'];
+  impersonation: ImpersonationSession | null;
+  // admin_login_sessions ID, for audit entries
+  sessionId: string | null;
+  // Past password_expiry_days; only routes that allow it will serve the admin
+  passwordExpired: boolean;
+  // This login session passed TOTP or a passkey
+  twoFactorVerified: boolean;
+  // 2FA is required but the admin has no factor; only enrollment routes serve them
+  twoFactorSetupRequired: boolean;
+}
+
+export type AdminGuardResult =
+  | { success: true; session: AdminRouteSession }
+  | { success: false; response: NextResponse };
+
+export interface ForbiddenResponseBody {
+  error: string;
+  code: 'FORBIDDEN';
+  role: AdminUserRole;
+  customRole: string | null;
+  required: Array<Pick<Permission, 'resource' | 'action'>>;
+}
+
+/**
+ * Require an authenticated admin holding every listed permission
+ *
+ * Call without permissions for routes any admin may use, such as managing
+ * their own 2FA.
+ */
+export async function requireAdminPermission(
+  ...permissions: Permission[]
+): Promise<AdminGuardResult> {
+  const sessionResult = await ServerSessionManager.getCurrentSession();
+
+  if (!sessionResult.success) {
+    return {
+      success: false,
+      response: NextResponse.json(
+        { error: 'Unauthorized', code: sessionResult.error.code || 'UNAUTHORIZED' },
+        { status: 401 }
+      ),
+    };
+  }
+
+  const { user, adminUser, twoFactorVerified } = sessionResult.session;
+  const [effective, impersonation, passwordPolicy, secondFactor] = await Promise.all([
+    resolveAdminPermissions(adminUser),
+    resolveRequestImpersonation({
+      id: user.id,
+      email: user.email || adminUser.email,
+    }),
+    PasswordPolicyManager.getPolicy(),
+    twoFactorVerified ? 'verified' as const : checkSecondFactor(adminUser),
+  ]);
+
+  if (secondFactor === 'enrolled') {
+    return {
+      success: false,
+      response: NextResponse.json(
+        { error: 'Two-factor verification required', code: 'TWO_FACTOR_REQUIRED' },
+        { status: 401 }
+      ),
+    };
+  }
+
+  const session: AdminRouteSession = {
+    user: {
+      id: user.id,
+      email: user.email || adminUser.email,
+      role: adminUser.role,
+    },
+    adminUser,
+    permissions: effective.permissions,
+    customRole: effective.customRole,
+    impersonation,
+    sessionId: sessionResult.session.sessionId,
+    passwordExpired: PasswordPolicyManager.getPasswordStatus(adminUser, passwordPolicy).expired,
+    twoFactorVerified,
+    twoFactorSetupRequired: secondFactor === 'setup_required',
+  };
+
+  if (!RBACManager.hasAllPermissionsIn(session.permissions, permissions)) {
+    return { success: false, response: forbiddenResponse(session, permissions) };
+  }
+
+  return { success: true, session };
+}
+
+/**
+ * Structured 403 naming the permissions the caller lacks
+ */
+export function forbiddenResponse(
+  session: AdminRouteSession,
+  permissions: Permission[]
+): NextResponse<ForbiddenResponseBody> {
+  return NextResponse.json(
+    {
+      error: 'Forbidden',
+      code: 'FORBIDDEN' as const,
+      role: session.user.role,
+      customRole: session.customRole?.name || null,
+      required: permissions
+        .filter(permission => !RBACManager.hasPermissionIn(session.permissions, permission.resource, permission.action))
+        .map(({ resource, action }) => ({ resource, action })),
+    },
+    { status: 403 }
+  );
+}
+
+/**
+ * Why an unverified login session may or may not go on
+ *
+ * "enrolled" admins owe their TOTP code or passkey; "setup_required" ones
+ * have neither while 2FA is required for all admins.
+ */
+async function checkSecondFactor(adminUser: AdminUser): Promise<'enrolled' | 'setup_required' | 'not_required'> {
+  const [hasPasskeys, required] = await Promise.all([
+    WebAuthnManager.hasCredentials(adminUser.id),
+    TwoFactorManager.isTwoFactorRequired(),
+  ]);
+
+  if (adminUser.two_factor_enabled || hasPasskeys) {
+    return 'enrolled';
+  }
+
+  return required ? 'setup_required' : 'not_required';
+}
@@ -0,0 +1,212 @@
+import crypto from 'crypto';
+import { createClient } from '@supabase/supabase-js';
+import {
+  isPasswordExpired,
+  passwordExpiresAt,
+  resolvePasswordPolicy,
+  validatePasswordRules,
+  type PasswordContext,
+  type PasswordPolicy,
+} from '@/lib/auth/password-rules';
+
+/**
+ * Admin password policy enforcement
+ *
+ * Every place an admin password is set (changing it, accepting an invite,
+ * scripts/reset-admin-password.ts) checks it here, then records it with
+ * recordPasswordChange so it counts towards expiry and reuse. Previous
+ * passwords are kept in admin_password_history as salted scrypt hashes,
+ * separate from the bcrypt hash Supabase Auth keeps for signing in.
+ */
+
+export interface PasswordCheckResult {
+  isValid: boolean;
+  errors?: string[];
+}
+
+export interface PasswordStatus {
+  changedAt: string;
+  // Null when passwords never expire
+  expiresAt: string | null;
+  expired: boolean;
+}
+
+// scrypt cost parameters; stored with each hash so they can be raised later
+const SCRYPT_COST = 16384;
+const SCRYPT_BLOCK_SIZE = 8;
+const SCRYPT_KEY_LENGTH = 32;
+
+function getServiceClient() {
+  const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
+  const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+  if (!supabaseUrl || !supabaseServiceKey) {
+    throw new Error('Missing Supabase service role configuration');
+  }
+
+  return createClient(supabaseUrl, supabaseServiceKey, {
+    auth: { autoRefreshToken: false, persistSession: false },
+  });
+}
+
+export class PasswordPolicyManager {
+  /**
+   * The policy from the security settings
+   */
+  static async getPolicy(): Promise<PasswordPolicy> {
+    const { data, error } = await getServiceClient()
+      .from('system_settings')
+      .select('settings')
+      .eq('category', 'security')
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error loading password policy:', error);
+    }
+
+    return resolvePasswordPolicy(data?.settings);
+  }
+
+  /**
+   * Check a new password against the policy and, for an existing admin,
+   * against their recent passwords
+   */
+  static async checkPassword(
+    password: string,
+    context: PasswordContext & { adminUserId?: string | null },
+    policy?: PasswordPolicy
+  ): Promise<PasswordCheckResult> {
+    const resolved = policy || await this.getPolicy();
+    const errors = validatePasswordRules(password, resolved, context);
+
+    if (errors.length === 0 && context.adminUserId &&
+        await this.isRecentlyUsed(context.adminUserId, password, resolved)) {
+      errors.push(`Password must not be one of your last ${resolved.historyCount} passwords`);
+    }
+
+    return errors.length > 0 ? { isValid: false, errors } : { isValid: true };
+  }
+
+  /**
+   * Whether the password matches one of the admin's last historyCount passwords
+   */
+  static async isRecentlyUsed(adminUserId: string, password: string, policy: PasswordPolicy): Promise<boolean> {
+    if (policy.historyCount <= 0) {
+      return false;
+    }
+
+    const { data, error } = await getServiceClient()
+      .from('admin_password_history')
+      .select('password_hash')
+      .eq('admin_user_id', adminUserId)
+      .order('created_at', { ascending: false })
+      .limit(policy.historyCount);
+
+    if (error) {
+      console.error('Error loading password history:', error);
+      throw error;
+    }
+
+    for (const entry of data || []) {
+      if (await verifyPasswordHash(password, entry.password_hash)) {
+        return true;
+      }
+    }
+
+    return false;
+  }
+
+  /**
+   * Record a password that has just been set, restarting its expiry
+   *
+   * History beyond what the policy compares against is pruned.
+   */
+  static async recordPasswordChange(adminUserId: string, password: string, policy?: PasswordPolicy): Promise<void> {
+    const resolved = policy || await this.getPolicy();
+    const supabase = getServiceClient();
+
+    const { error: insertError } = await supabase
+      .from('admin_password_history')
+      .insert({ admin_user_id: adminUserId, password_hash: await hashPassword(password) });
+
+    if (insertError) {
+      console.error('Error recording password history:', insertError);
+      throw insertError;
+    }
+
+    const { error: updateError } = await supabase
+      .from('admin_users')
+      .update({ password_changed_at: new Date().toISOString() })
+      .eq('id', adminUserId);
+
+    if (updateError) {
+      console.error('Error updating password change time:', updateError);
+      throw updateError;
+    }
+
+    const { data: stale } = await supabase
+      .from('admin_password_history')
+      .select('id')
+      .eq('admin_user_id', adminUserId)
+      .order('created_at', { ascending: false })
+      .range(Math.max(resolved.historyCount, 1), 1000);
+
+    if (stale && stale.length > 0) {
+      await supabase
+        .from('admin_password_history')
+        .delete()
+        .in('id', stale.map(entry => entry.id));
+    }
+  }
+
+  /**
+   * When the admin's password was set and when it expires
+   */
+  static getPasswordStatus(
+    admin: { password_changed_at?: string | null; created_at: string },
+    policy: PasswordPolicy
+  ): PasswordStatus {
+    const changedAt = admin.password_changed_at || admin.created_at;
+
+    return {
+      changedAt,
+      expiresAt: passwordExpiresAt(changedAt, policy),
+      expired: isPasswordExpired(admin, policy),
+    };
+  }
+}
+
+async function hashPassword(password: string): Promise<string> {
+  const salt = crypto.randomBytes(16);
+  const hash = await scrypt(password, salt, SCRYPT_COST, SCRYPT_BLOCK_SIZE);
+  return ['scrypt', SCRYPT_COST, SCRYPT_BLOCK_SIZE, salt.toString('base64'), hash.toString('base64')].join('$');
+}
+
+async function verifyPasswordHash(password: string, stored: string): Promise<boolean> {
+  const [algorithm, cost, blockSize, salt, hash] = stored.split('$');
+  if (algorithm !== 'scrypt' || !salt || !hash) {
+    return false;
+  }
+
+  const expected = Buffer.from(hash, 'base64');
+  const actual = await scrypt(password, Buffer.from(salt, 'base64'), parseInt(cost), parseInt(blockSize), expected.length);
+  return actual.length === expected.length && crypto.timingSafeEqual(actual, expected);
+}
+
+function scrypt(
+  password: string,
+  salt: Buffer,
+  cost: number,
+  blockSize: number,
+  keyLength = SCRYPT_KEY_LENGTH
+): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    crypto.scrypt(password, salt, keyLength, { N: cost, r: blockSize, p: 1 }, (error, key) => {
+      if (error) {
+        reject(error);
+      } else {
+        resolve(key);
+      }
+    });
+  });
+}
@@ -0,0 +1,159 @@
+import { isCommonPassword } from '@/lib/auth/common-passwords';
+
+/**
+ * Admin password rules
+ *
+ * The composition rules and password_expiry_days come from the security
+ * settings; the reuse window is password_history_count, falling back to
+ * PASSWORD_HISTORY_COUNT. Kept free of server-only imports so middleware.ts,
+ * the reset script and the browser share it; reuse checks against stored
+ * hashes live in lib/auth/password-policy.ts.
+ */
+
+export const DEFAULT_PASSWORD_MIN_LENGTH = 8;
+export const DEFAULT_PASSWORD_EXPIRY_DAYS = 90;
+export const DEFAULT_PASSWORD_HISTORY_COUNT = parseInt(process.env.PASSWORD_HISTORY_COUNT || '5');
+
+// Supabase Auth hashes with bcrypt, which ignores anything past 72 bytes
+export const PASSWORD_MAX_LENGTH = 72;
+
+export interface PasswordPolicy {
+  minLength: number;
+  requireUppercase: boolean;
+  requireLowercase: boolean;
+  requireNumbers: boolean;
+  requireSpecial: boolean;
+  // 0 when passwords never expire
+  expiryDays: number;
+  // How many previous passwords cannot be reused; 0 allows any
+  historyCount: number;
+}
+
+// Who the password is for, so it can be checked for their own details
+export interface PasswordContext {
+  email?: string | null;
+  fullName?: string | null;
+}
+
+/**
+ * Policy from the security settings row's `settings`
+ */
+export function resolvePasswordPolicy(settings: Record<string, any> | null | undefined): PasswordPolicy {
+  return {
+    minLength: Math.min(
+      wholeNumber(settings?.password_min_length, DEFAULT_PASSWORD_MIN_LENGTH) || DEFAULT_PASSWORD_MIN_LENGTH,
+      PASSWORD_MAX_LENGTH
+    ),
+    requireUppercase: flag(settings?.password_require_uppercase, true),
+    requireLowercase: flag(settings?.password_require_lowercase, true),
+    requireNumbers: flag(settings?.password_require_numbers, true),
+    requireSpecial: flag(settings?.password_require_special, false),
+    expiryDays: wholeNumber(settings?.password_expiry_days, DEFAULT_PASSWORD_EXPIRY_DAYS),
+    historyCount: wholeNumber(settings?.password_history_count, DEFAULT_PASSWORD_HISTORY_COUNT),
+  };
+}
+
+/**
+ * Problems with a password under the policy, empty when it is acceptable
+ */
+export function validatePasswordRules(
+  password: string,
+  policy: PasswordPolicy,
+  context: PasswordContext = {}
+): string[] {
+  const errors: string[] = [];
+
+  if (password.length < policy.minLength) {
+    errors.push(`Password must be at least ${policy.minLength} characters`);
+  }
+
+  if (new TextEncoder().encode(password).length > PASSWORD_MAX_LENGTH) {
+    errors.push(`Password must be at most ${PASSWORD_MAX_LENGTH} characters`);
+  }
+
+  if (policy.requireUppercase && !/[A-Z]/.test(password)) {
+    errors.push('Password must contain an uppercase letter');
+  }
+
+  if (policy.requireLowercase && !/[a-z]/.test(password)) {
+    errors.push('Password must contain a lowercase letter');
+  }
+
+  if (policy.requireNumbers && !/[0-9]/.test(password)) {
+    errors.push('Password must contain a number');
+  }
+
+  if (policy.requireSpecial && !/[^A-Za-z0-9]/.test(password)) {
+    errors.push('Password must contain a special character');
+  }
+
+  if (isCommonPassword(password)) {
+    errors.push('Password is too common or has appeared in a data breach');
+  }
+
+  if (containsPersonalDetails(password, context)) {
+    errors.push('Password must not contain your name or email address');
+  }
+
+  return errors;
+}
+
+/**
+ * The requirements in words, for forms to list
+ */
+export function describePasswordPolicy(policy: PasswordPolicy): string[] {
+  return [
+    `At least ${policy.minLength} characters`,
+    ...(policy.requireUppercase ? ['An uppercase letter'] : []),
+    ...(policy.requireLowercase ? ['A lowercase letter'] : []),
+    ...(policy.requireNumbers ? ['A number'] : []),
+    ...(policy.requireSpecial ? ['A special character'] : []),
+    'Not a common or breached password, and not your name or email',
+    ...(policy.historyCount > 0 ? [`Not one of your last ${policy.historyCount} passwords`] : []),
+  ];
+}
+
+/**
+ * When a password set at `changedAt` expires, or null if passwords never do
+ */
+export function passwordExpiresAt(changedAt: string, policy: PasswordPolicy): string | null {
+  if (policy.expiryDays <= 0) {
+    return null;
+  }
+
+  return new Date(new Date(changedAt).getTime() + policy.expiryDays * 24 * 60 * 60 * 1000).toISOString();
+}
+
+/**
+ * Whether an admin must choose a new password before carrying on
+ *
+ * Admins who have never changed their password are measured from when
+ * their account was created.
+ */
+export function isPasswordExpired(
+  admin: { password_changed_at?: string | null; created_at: string },
+  policy: PasswordPolicy,
+  now = Date.now()
+): boolean {
+  const expiresAt = passwordExpiresAt(admin.password_changed_at || admin.created_at, policy);
+  return !!expiresAt && new Date(expiresAt).getTime() <= now;
+}
+
+function containsPersonalDetails(password: string, context: PasswordContext): boolean {
+  const lowered = password.toLowerCase();
+  const parts = [
+    context.email?.split('@')[0],
+    ...(context.fullName?.split(/\s+/) || []),
+  ];
+
+  return parts.some(part => !!part && part.length >= 3 && lowered.includes(part.toLowerCase()));
+}
+
+function wholeNumber(value: unknown, fallback: number): number {
+  const parsed = typeof value === 'number' ? value : parseInt(String(value ?? ''));
+  return isFinite(parsed) && parsed >= 0 ? Math.floor(parsed) : fallback;
+}
+
+function flag(value: unknown, fallback: boolean): boolean {
+  return typeof value === 'boolean' ? value : fallback;
+}
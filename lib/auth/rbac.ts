@@ -7,15 +7,53 @@ import type { AdminUserRole } from '@/lib/types/database.types';
 export interface Permission {
   resource: string;
   action: string;
+  // PermissionScope; omitted means 'all'
   scope?: string;
 }
 
+/**
+ * How far a permission reaches: records the admin owns, records owned by
+ * their team (admin_users.team_id), or every record
+ */
+export type PermissionScope = 'own' | 'team' | 'all';
+
+export const PERMISSION_SCOPES: PermissionScope[] = ['own', 'team', 'all'];
+
+// Resources whose permissions can be narrowed below 'all'
+export const SCOPED_RESOURCES = ['reports', 'presets', 'moderation'];
+
+export interface ResourceOwnership {
+  isOwner: boolean;
+  // The owner shares the caller's team
+  isTeammate: boolean;
+  // Readable at any scope, e.g. public reports or shared presets
+  isOpen?: boolean;
+}
+
 export interface RolePermissions {
   role: AdminUserRole;
   permissions: Permission[];
   inherits?: AdminUserRole[];
 }
 
+// Custom roles start from a built-in role and add or remove "resource:action" keys
+export interface CustomRoleDefinition {
+  inherits: AdminUserRole;
+  grants: string[];
+  revokes: string[];
+}
+
+// Per-admin overrides stored in admin_users.permissions
+export interface PermissionOverrides {
+  grant: string[];
+  revoke: string[];
+}
+
+export interface PermissionDiff {
+  added: string[];
+  removed: string[];
+}
+
 // Define permissions for each resource
 export const PERMISSIONS = {
   // User management
@@ -35,6 +73,19 @@ export const PERMISSIONS = {
   REPORTS_UPDATE: { resource: 'reports', action: 'update' },
   REPORTS_DELETE: { resource: 'reports', action: 'delete' },
   REPORTS_SCHEDULE: { resource: 'reports', action: 'schedule' },
+  // Write the SQL of hand-written report templates; super admins only by default
+  REPORTS_SQL: { resource: 'reports', action: 'sql' },
+
+  // Saved filter presets
+  PRESETS_READ: { resource: 'presets', action: 'read' },
+  PRESETS_CREATE: { resource: 'presets', action: 'create' },
+  PRESETS_UPDATE: { resource: 'presets', action: 'update' },
+  PRESETS_DELETE: { resource: 'presets', action: 'delete' },
+
+  // Content moderation
+  MODERATION_READ: { resource: 'moderation', action: 'read' },
+  MODERATION_REVIEW: { resource: 'moderation', action: 'review' },
+  MODERATION_ASSIGN: { resource: 'moderation', action: 'assign' },
 
   // System settings
   SETTINGS_READ: { resource: 'settings', action: 'read' },
@@ -79,6 +130,12 @@ export const ROLE_PERMISSIONS: Record<AdminUserRole, RolePermissions> = {
       PERMISSIONS.REPORTS_UPDATE,
       PERMISSIONS.REPORTS_DELETE,
       PERMISSIONS.REPORTS_SCHEDULE,
+      PERMISSIONS.PRESETS_READ,
+      PERMISSIONS.PRESETS_CREATE,
+      PERMISSIONS.PRESETS_UPDATE,
+      PERMISSIONS.PRESETS_DELETE,
+      PERMISSIONS.MODERATION_READ,
+      PERMISSIONS.MODERATION_REVIEW,
       PERMISSIONS.SETTINGS_READ,
       PERMISSIONS.SETTINGS_UPDATE,
       PERMISSIONS.ADMINS_READ,
@@ -86,16 +143,21 @@ export const ROLE_PERMISSIONS: Record<AdminUserRole, RolePermissions> = {
     ],
   },
 
+  // Analysts work on their own reports and presets, plus anything public
   analyst: {
     role: 'analyst',
     permissions: [
       PERMISSIONS.USERS_READ,
       PERMISSIONS.ANALYTICS_READ,
       PERMISSIONS.ANALYTICS_EXPORT,
-      PERMISSIONS.REPORTS_READ,
+      { ...PERMISSIONS.REPORTS_READ, scope: 'own' },
       PERMISSIONS.REPORTS_CREATE,
-      PERMISSIONS.REPORTS_UPDATE,
-      PERMISSIONS.REPORTS_SCHEDULE,
+      { ...PERMISSIONS.REPORTS_UPDATE, scope: 'own' },
+      { ...PERMISSIONS.REPORTS_SCHEDULE, scope: 'own' },
+      { ...PERMISSIONS.PRESETS_READ, scope: 'own' },
+      PERMISSIONS.PRESETS_CREATE,
+      { ...PERMISSIONS.PRESETS_UPDATE, scope: 'own' },
+      { ...PERMISSIONS.PRESETS_DELETE, scope: 'own' },
     ],
   },
 
@@ -104,15 +166,64 @@ export const ROLE_PERMISSIONS: Record<AdminUserRole, RolePermissions> = {
     permissions: [
       PERMISSIONS.USERS_READ,
       PERMISSIONS.ANALYTICS_READ,
-      PERMISSIONS.REPORTS_READ,
+      { ...PERMISSIONS.REPORTS_READ, scope: 'own' },
+      { ...PERMISSIONS.PRESETS_READ, scope: 'own' },
+      PERMISSIONS.PRESETS_CREATE,
+      { ...PERMISSIONS.PRESETS_UPDATE, scope: 'own' },
+      { ...PERMISSIONS.PRESETS_DELETE, scope: 'own' },
     ],
   },
 };
 
+const ALL_PERMISSIONS: Permission[] = Object.values(PERMISSIONS);
+
+const PERMISSION_BY_KEY = new Map<string, Permission>(
+  ALL_PERMISSIONS.map(permission => [`${permission.resource}:${permission.action}`, permission])
+);
+
+// Narrower scopes rank lower; a broader held scope satisfies a narrower request
+const SCOPE_RANK: Record<PermissionScope, number> = { own: 1, team: 2, all: 3 };
+
+function isPermissionScope(value: unknown): value is PermissionScope {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(SCOPE_RANK, value);
+}
+
+function scopeCovers(held: string | undefined, requested: string | undefined): boolean {
+  if (!requested) return true;
+  const heldScope = held || 'all';
+  if (!isPermissionScope(heldScope) || !isPermissionScope(requested)) {
+    return heldScope === requested;
+  }
+  return SCOPE_RANK[heldScope] >= SCOPE_RANK[requested];
+}
+
+// Route-based permissions mapping
+const ROUTE_PERMISSIONS: Record<string, { resource: string; action: string }> = {
+  '/admin/dashboard': { resource: 'analytics', action: 'read' },
+  '/admin/users': { resource: 'users', action: 'read' },
+  '/admin/users/create': { resource: 'users', action: 'create' },
+  '/admin/users/edit': { resource: 'users', action: 'update' },
+  '/admin/users/impersonation': { resource: 'users', action: 'impersonate' },
+  '/admin/analytics': { resource: 'analytics', action: 'read' },
+  '/admin/reports': { resource: 'reports', action: 'read' },
+  '/admin/reports/create': { resource: 'reports', action: 'create' },
+  '/admin/moderation': { resource: 'moderation', action: 'read' },
+  '/admin/settings': { resource: 'settings', action: 'read' },
+  '/admin/settings/system': { resource: 'settings', action: 'system' },
+  '/admin/audit': { resource: 'audit', action: 'read' },
+};
+
 /**
  * RBAC Manager Class
  */
 export class RBACManager {
+  /**
+   * Check that a stored role is one of the known admin roles
+   */
+  static isValidRole(role: unknown): role is AdminUserRole {
+    return typeof role === 'string' && Object.prototype.hasOwnProperty.call(ROLE_PERMISSIONS, role);
+  }
+
   /**
    * Check if a role has a specific permission
    */
@@ -122,16 +233,7 @@ export class RBACManager {
     action: string,
     scope?: string
   ): boolean {
-    const rolePermissions = ROLE_PERMISSIONS[role];
-    if (!rolePermissions) return false;
-
-    return rolePermissions.permissions.some(permission => {
-      const resourceMatch = permission.resource === resource;
-      const actionMatch = permission.action === action;
-      const scopeMatch = !scope || !permission.scope || permission.scope === scope;
-
-      return resourceMatch && actionMatch && scopeMatch;
-    });
+    return this.hasPermissionIn(this.getRolePermissions(role), resource, action, scope);
   }
 
   /**
@@ -196,25 +298,18 @@ export class RBACManager {
    * Check if role can perform action on specific route
    */
   static canAccessRoute(role: AdminUserRole, route: string): boolean {
-    // Route-based permissions mapping
-    const routePermissions: Record<string, { resource: string; action: string }> = {
-      '/admin/dashboard': { resource: 'analytics', action: 'read' },
-      '/admin/users': { resource: 'users', action: 'read' },
-      '/admin/users/create': { resource: 'users', action: 'create' },
-      '/admin/users/edit': { resource: 'users', action: 'update' },
-      '/admin/analytics': { resource: 'analytics', action: 'read' },
-      '/admin/reports': { resource: 'reports', action: 'read' },
-      '/admin/reports/create': { resource: 'reports', action: 'create' },
-      '/admin/settings': { resource: 'settings', action: 'read' },
-      '/admin/settings/system': { resource: 'settings', action: 'system' },
-      '/admin/audit': { resource: 'audit', action: 'read' },
-    };
+    return this.canAccessRouteWith(this.getRolePermissions(role), route);
+  }
 
+  /**
+   * Check route access against an already resolved permission set
+   */
+  static canAccessRouteWith(permissions: Permission[], route: string): boolean {
     // Find the most specific route match
     let matchedRoute = '';
     let matchedPermission = null;
 
-    for (const [routePath, permission] of Object.entries(routePermissions)) {
+    for (const [routePath, permission] of Object.entries(ROUTE_PERMISSIONS)) {
       if (route.startsWith(routePath) && routePath.length > matchedRoute.length) {
         matchedRoute = routePath;
         matchedPermission = permission;
@@ -223,10 +318,209 @@ export class RBACManager {
 
     if (!matchedPermission) {
       // Default to analytics read for unmapped admin routes
-      return this.hasPermission(role, 'analytics', 'read');
+      return this.hasPermissionIn(permissions, 'analytics', 'read');
+    }
+
+    return this.hasPermissionIn(permissions, matchedPermission.resource, matchedPermission.action);
+  }
+
+  /**
+   * Check a resolved permission set, as returned by resolvePermissions
+   */
+  static hasPermissionIn(
+    permissions: Permission[],
+    resource: string,
+    action: string,
+    scope?: string
+  ): boolean {
+    return permissions.some(permission => {
+      const resourceMatch = permission.resource === resource;
+      const actionMatch = permission.action === action;
+      const scopeMatch = scopeCovers(permission.scope, scope);
+
+      return resourceMatch && actionMatch && scopeMatch;
+    });
+  }
+
+  /**
+   * Broadest scope held for a resource action, or null when not held at all
+   */
+  static getPermissionScope(
+    permissions: Permission[],
+    resource: string,
+    action: string
+  ): PermissionScope | null {
+    let broadest: PermissionScope | null = null;
+
+    for (const permission of permissions) {
+      if (permission.resource !== resource || permission.action !== action) continue;
+
+      const scope = isPermissionScope(permission.scope) ? permission.scope : 'all';
+      if (!broadest || SCOPE_RANK[scope] > SCOPE_RANK[broadest]) {
+        broadest = scope;
+      }
+    }
+
+    return broadest;
+  }
+
+  /**
+   * Check a resource action against a specific record's ownership
+   */
+  static canAccessResource(
+    permissions: Permission[],
+    resource: string,
+    action: string,
+    ownership: ResourceOwnership
+  ): boolean {
+    const scope = this.getPermissionScope(permissions, resource, action);
+
+    if (!scope) return false;
+    if (scope === 'all' || ownership.isOpen || ownership.isOwner) return true;
+
+    return scope === 'team' && ownership.isTeammate;
+  }
+
+  /**
+   * Check that a resolved permission set holds every listed permission
+   */
+  static hasAllPermissionsIn(
+    permissions: Permission[],
+    required: Array<{ resource: string; action: string; scope?: string }>
+  ): boolean {
+    return required.every(permission =>
+      this.hasPermissionIn(permissions, permission.resource, permission.action, permission.scope)
+    );
+  }
+
+  /**
+   * Stable key used when storing permissions: "resource:action", with a
+   * ":own" or ":team" suffix for narrowed scopes
+   */
+  static permissionKey(permission: { resource: string; action: string; scope?: string }): string {
+    const base = `${permission.resource}:${permission.action}`;
+    return permission.scope && permission.scope !== 'all' ? `${base}:${permission.scope}` : base;
+  }
+
+  /**
+   * The "resource:action" part of a key, without its scope
+   */
+  static permissionBaseKey(key: string): string {
+    return key.split(':').slice(0, 2).join(':');
+  }
+
+  static parsePermissionKey(key: string): Permission | null {
+    const [resource, action, scope, ...rest] = key.split(':');
+    const permission = PERMISSION_BY_KEY.get(`${resource}:${action}`);
+
+    if (!permission || rest.length > 0) return null;
+    if (scope === undefined || scope === 'all') return permission;
+    if (!isPermissionScope(scope) || !SCOPED_RESOURCES.includes(resource)) return null;
+
+    return { ...permission, scope };
+  }
+
+  /**
+   * All known unscoped permission keys, in PERMISSIONS order
+   */
+  static getAllPermissionKeys(): string[] {
+    return ALL_PERMISSIONS.map(permission => this.permissionKey(permission));
+  }
+
+  static isKnownPermissionKey(key: unknown): key is string {
+    return typeof key === 'string' && this.parsePermissionKey(key) !== null;
+  }
+
+  /**
+   * Map stored keys back to permissions, dropping unknown keys and keeping
+   * the broadest scope when a permission appears more than once
+   */
+  static fromKeys(keys: string[]): Permission[] {
+    const parsed = keys
+      .map(key => this.parsePermissionKey(key))
+      .filter((permission): permission is Permission => permission !== null);
+
+    return this.collapse(parsed);
+  }
+
+  static toKeys(permissions: Permission[]): string[] {
+    return this.collapse(permissions).map(permission => this.permissionKey(permission));
+  }
+
+  /**
+   * Parse the admin_users.permissions column into grant/revoke lists
+   */
+  static normalizeOverrides(value: unknown): PermissionOverrides {
+    const source = (value && typeof value === 'object' ? value : {}) as Record<string, unknown>;
+    const pick = (list: unknown) =>
+      Array.isArray(list) ? Array.from(new Set(list.filter(key => this.isKnownPermissionKey(key)))) : [];
+
+    return { grant: pick(source.grant), revoke: pick(source.revoke) };
+  }
+
+  /**
+   * Compute the effective permission set for an admin
+   *
+   * Layers apply in order: the built-in role (or the custom role's base),
+   * the custom role's grants and revokes, then the admin's own overrides.
+   * Within a layer a revoke wins over a grant of the same key.
+   */
+  static resolvePermissions(
+    role: AdminUserRole,
+    customRole?: CustomRoleDefinition | null,
+    overrides?: PermissionOverrides | null
+  ): Permission[] {
+    const baseRole = customRole && this.isValidRole(customRole.inherits) ? customRole.inherits : role;
+    // Keyed by "resource:action"; a grant replaces the scope held below it
+    const held = new Map<string, Permission>(
+      this.collapse(this.getRolePermissions(baseRole)).map(permission => [
+        this.permissionKey({ resource: permission.resource, action: permission.action }),
+        permission,
+      ])
+    );
+
+    const applyLayer = (grant: string[], revoke: string[]) => {
+      grant.forEach(key => {
+        const permission = this.parsePermissionKey(key);
+        if (permission) held.set(this.permissionBaseKey(key), permission);
+      });
+      revoke.forEach(key => held.delete(this.permissionBaseKey(key)));
+    };
+
+    if (customRole) {
+      applyLayer(customRole.grants || [], customRole.revokes || []);
     }
 
-    return this.hasPermission(role, matchedPermission.resource, matchedPermission.action);
+    if (overrides) {
+      applyLayer(overrides.grant || [], overrides.revoke || []);
+    }
+
+    return this.collapse(Array.from(held.values()));
+  }
+
+  /**
+   * One entry per resource action in PERMISSIONS order, at its broadest scope
+   */
+  private static collapse(permissions: Permission[]): Permission[] {
+    return ALL_PERMISSIONS.flatMap(base => {
+      const scope = this.getPermissionScope(permissions, base.resource, base.action);
+      if (!scope) return [];
+      return [scope === 'all' ? base : { ...base, scope }];
+    });
+  }
+
+  /**
+   * Keys gained and lost when moving from one permission set to another
+   */
+  static diffPermissions(before: Permission[], after: Permission[]): PermissionDiff {
+    const beforeKeys = this.toKeys(before);
+    const afterKeys = this.toKeys(after);
+
+    // A scope change shows up as one key removed and another added
+    return {
+      added: afterKeys.filter(key => !beforeKeys.includes(key)),
+      removed: beforeKeys.filter(key => !afterKeys.includes(key)),
+    };
   }
 
   /**
@@ -283,6 +577,9 @@ export const PermissionChecks = {
   canViewAudit: (role: AdminUserRole) =>
     RBACManager.hasPermission(role, 'audit', 'read'),
 
+  canAssignModeration: (role: AdminUserRole) =>
+    RBACManager.hasPermission(role, 'moderation', 'assign'),
+
   canManageAdmins: (role: AdminUserRole) =>
     RBACManager.hasPermission(role, 'admins', 'update'),
 
@@ -0,0 +1,83 @@
+/**
+ * Login session lifetimes
+ *
+ * A session ends after session_timeout_minutes without activity (page loads,
+ * API writes and the "stay signed in" heartbeat; background GETs do not
+ * count) and, regardless of activity, session_absolute_timeout_hours after
+ * sign-in. Both come from the security settings. Kept free of server-only
+ * imports so middleware.ts, the API guard and the browser share it.
+ */
+
+export const DEFAULT_IDLE_TIMEOUT_MINUTES = 60;
+export const DEFAULT_ABSOLUTE_TIMEOUT_HOURS = 12;
+
+// How long before expiry the dashboard warns
+export const SESSION_WARNING_SECONDS = 120;
+
+export interface SessionTimeouts {
+  idleMinutes: number;
+  absoluteHours: number;
+}
+
+export type LoginSessionState = 'active' | 'revoked' | 'idle_timeout' | 'expired';
+
+export interface LoginSessionTimes {
+  created_at: string;
+  last_active_at: string;
+  revoked_at: string | null;
+}
+
+export interface LoginSessionExpiry {
+  idleExpiresAt: string;
+  absoluteExpiresAt: string;
+  // The earlier of the two
+  expiresAt: string;
+}
+
+/**
+ * Timeouts from the security settings row's `settings`
+ */
+export function resolveSessionTimeouts(settings: Record<string, any> | null | undefined): SessionTimeouts {
+  return {
+    idleMinutes: positiveNumber(settings?.session_timeout_minutes, DEFAULT_IDLE_TIMEOUT_MINUTES),
+    absoluteHours: positiveNumber(settings?.session_absolute_timeout_hours, DEFAULT_ABSOLUTE_TIMEOUT_HOURS),
+  };
+}
+
+export function loginSessionExpiry(session: LoginSessionTimes, timeouts: SessionTimeouts): LoginSessionExpiry {
+  const idle = new Date(session.last_active_at).getTime() + timeouts.idleMinutes * 60 * 1000;
+  const absolute = new Date(session.created_at).getTime() + timeouts.absoluteHours * 60 * 60 * 1000;
+
+  return {
+    idleExpiresAt: new Date(idle).toISOString(),
+    absoluteExpiresAt: new Date(absolute).toISOString(),
+    expiresAt: new Date(Math.min(idle, absolute)).toISOString(),
+  };
+}
+
+export function evaluateLoginSession(
+  session: LoginSessionTimes,
+  timeouts: SessionTimeouts,
+  now = Date.now()
+): LoginSessionState {
+  if (session.revoked_at) {
+    return 'revoked';
+  }
+
+  const expiry = loginSessionExpiry(session, timeouts);
+
+  if (new Date(expiry.absoluteExpiresAt).getTime() <= now) {
+    return 'expired';
+  }
+
+  if (new Date(expiry.idleExpiresAt).getTime() <= now) {
+    return 'idle_timeout';
+  }
+
+  return 'active';
+}
+
+function positiveNumber(value: unknown, fallback: number): number {
+  const parsed = typeof value === 'number' ? value : parseFloat(String(value ?? ''));
+  return isFinite(parsed) && parsed > 0 ? parsed : fallback;
+}
@@ -1,13 +1,60 @@
 import { cookies } from 'next/headers';
+import { createClient } from '@supabase/supabase-js';
 import { createServerClient, createServiceRoleClient } from '@/lib/supabase/server';
 import { createBrowserClient } from '@/lib/supabase/client';
+import { RBACManager } from '@/lib/auth/rbac';
+import {
+  evaluateLoginSession,
+  loginSessionExpiry,
+  resolveSessionTimeouts,
+  SESSION_WARNING_SECONDS,
+  type LoginSessionExpiry,
+  type LoginSessionState,
+} from '@/lib/auth/session-timeouts';
 import type { User } from '@supabase/supabase-js';
-import type { AdminUser } from '@/lib/types/database.types';
+import type { AdminUser, LoginSessionEndReason, TwoFactorMethod } from '@/lib/types/database.types';
+
+// httpOnly cookie holding the admin_login_sessions ID; middleware.ts refuses revoked ones
+export const LOGIN_SESSION_COOKIE = 'admin-session-id';
+
+// How long after the password step the second factor is accepted
+const PENDING_TWO_FACTOR_MS = 5 * 60 * 1000;
 
 export interface AdminSession {
   user: User;
   adminUser: AdminUser;
+  // Whether this browser's login session passed the second factor
+  twoFactorVerified: boolean;
+  // admin_login_sessions row this browser signed in with
+  sessionId: string | null;
+}
+
+export interface LoginSessionSummary {
+  id: string;
+  adminUserId: string;
+  adminEmail?: string | null;
+  device: string | null;
+  ipAddress: string | null;
+  userAgent: string | null;
   twoFactorVerified: boolean;
+  twoFactorMethod: TwoFactorMethod | null;
+  createdAt: string;
+  lastActiveAt: string;
+  revokedAt: string | null;
+  revokeReason: LoginSessionEndReason | null;
+  current?: boolean;
+}
+
+export interface LoginSessionStatus extends Partial<LoginSessionExpiry> {
+  state: LoginSessionState;
+  twoFactorVerified?: boolean;
+  idleTimeoutMinutes?: number;
+  warningSeconds?: number;
+}
+
+export interface LoginSessionClient {
+  ipAddress: string | null;
+  userAgent: string | null;
 }
 
 export interface SessionError {
@@ -42,45 +89,47 @@ export class ServerSessionManager {
         };
       }
 
-      // Get admin user data from profiles table
+      // Roles live on admin_users; profiles only knows admin/super_admin
       const serviceClient = createServiceRoleClient();
-      const { data: profile, error: profileError } = await serviceClient
-        .from('profiles')
-        .select('*')
+      const { data: adminRow, error: adminError } = await serviceClient
+        .from('admin_users')
+        .select('id, user_id, email, full_name, role, permissions, custom_role_id, team_id, is_active, two_factor_enabled, password_changed_at, last_login_at, created_by, updated_by, created_at, updated_at')
         .eq('id', user.id)
         .single() as { data: any | null; error: any };
 
-      if (profileError || !profile) {
+      if (adminError || !adminRow) {
         return {
           success: false,
-          error: { error: 'User profile not found', code: 'NOT_ADMIN' },
+          error: { error: 'Admin user not found', code: 'NOT_ADMIN' },
         };
       }
 
-      // Check if user has admin role
-      if (!['admin', 'super_admin'].includes(profile.role as string)) {
+      // Check if user has one of the four admin roles
+      if (!RBACManager.isValidRole(adminRow.role)) {
         return {
           success: false,
           error: { error: 'User is not an admin', code: 'NOT_ADMIN' },
         };
       }
 
-      // Map profile to AdminUser type
       const typedAdminUser: AdminUser = {
-        id: profile.id,
-        user_id: profile.id,
-        email: profile.email || user.email || '',
-        full_name: profile.full_name || null,
-        role: profile.role,
-        permissions: profile.permissions || {},
-        is_active: profile.status === 'active',
-        two_factor_enabled: false,
+        id: adminRow.id,
+        user_id: adminRow.user_id || adminRow.id,
+        email: adminRow.email || user.email || '',
+        full_name: adminRow.full_name || null,
+        role: adminRow.role,
+        permissions: adminRow.permissions || {},
+        custom_role_id: adminRow.custom_role_id || null,
+        team_id: adminRow.team_id || null,
+        is_active: !!adminRow.is_active,
+        two_factor_enabled: !!adminRow.two_factor_enabled,
         two_factor_secret: undefined,
-        last_login_at: profile.last_login_at || null,
-        created_by: profile.created_by || null,
-        updated_by: profile.updated_by || null,
-        created_at: profile.created_at,
-        updated_at: profile.updated_at
+        password_changed_at: adminRow.password_changed_at || null,
+        last_login_at: adminRow.last_login_at || null,
+        created_by: adminRow.created_by || null,
+        updated_by: adminRow.updated_by || null,
+        created_at: adminRow.created_at,
+        updated_at: adminRow.updated_at
       };
       if (!typedAdminUser.is_active) {
         return {
@@ -89,26 +138,17 @@ export class ServerSessionManager {
         };
       }
 
-      // Check 2FA verification status
+      // Revoked and timed-out sessions; middleware.ts refuses them too
       const cookieStore = await cookies();
-      const twoFactorCookie = cookieStore.get('admin-2fa-verified');
-      let twoFactorVerified = false;
-
-      if (twoFactorCookie && typedAdminUser.two_factor_enabled) {
-        try {
-          const twoFactorData = JSON.parse(twoFactorCookie.value);
-          const now = Date.now();
-          const sessionAge = now - twoFactorData.timestamp;
-          const oneHour = 60 * 60 * 1000;
-
-          twoFactorVerified = sessionAge <= oneHour && twoFactorData.userId === user.id;
-        } catch {
-          // Invalid 2FA cookie format
-          twoFactorVerified = false;
-        }
-      } else if (!typedAdminUser.two_factor_enabled) {
-        // 2FA not enabled, consider as verified
-        twoFactorVerified = true;
+      const sessionId = cookieStore.get(LOGIN_SESSION_COOKIE)?.value || null;
+      const { state, twoFactorVerified } = await this.getLoginSessionStatus(sessionId, user.id);
+      if (state !== 'active') {
+        return {
+          success: false,
+          error: state === 'revoked'
+            ? { error: 'Session has been signed out', code: 'SESSION_REVOKED' }
+            : { error: 'Session has expired', code: 'SESSION_EXPIRED' },
+        };
       }
 
       return {
@@ -116,7 +156,8 @@ export class ServerSessionManager {
         session: {
           user,
           adminUser: typedAdminUser,
-          twoFactorVerified,
+          twoFactorVerified: !!twoFactorVerified,
+          sessionId,
         },
       };
     } catch (error) {
@@ -128,31 +169,225 @@ export class ServerSessionManager {
   }
 
   /**
-   * Set 2FA verification cookie
+   * Record a new sign-in and give this browser its session cookie
    */
-  static async setTwoFactorVerified(userId: string): Promise<void> {
-    const cookieStore = await cookies();
-    const twoFactorData = {
-      userId,
-      timestamp: Date.now(),
-      verified: true,
-    };
+  static async startLoginSession(
+    adminUserId: string,
+    client: LoginSessionClient,
+    twoFactor: { verified: boolean; method?: TwoFactorMethod } = { verified: false }
+  ): Promise<string | null> {
+    const supabase = getServiceClient();
+    const { data, error } = await supabase
+      .from('admin_login_sessions')
+      .insert({
+        admin_user_id: adminUserId,
+        device: sessionUtils.describeDevice(client.userAgent),
+        ip_address: client.ipAddress,
+        user_agent: client.userAgent,
+        two_factor_verified: twoFactor.verified,
+        two_factor_method: twoFactor.method ?? null,
+        revoked_at: null,
+        revoked_by: null,
+        revoke_reason: null,
+      })
+      .select('id')
+      .single() as { data: { id: string } | null; error: any };
+
+    if (error || !data) {
+      console.error('Error recording login session:', error);
+      return null;
+    }
 
-    cookieStore.set('admin-2fa-verified', JSON.stringify(twoFactorData), {
+    const cookieStore = await cookies();
+    cookieStore.set(LOGIN_SESSION_COOKIE, data.id, {
       httpOnly: true,
       secure: process.env.NODE_ENV === 'production',
       sameSite: 'lax',
-      maxAge: 60 * 60, // 1 hour
-      path: '/admin',
+      maxAge: 60 * 60 * 24 * 7, // 1 week
+      path: '/',
     });
+
+    return data.id;
   }
 
   /**
-   * Clear 2FA verification cookie
+   * Record that this browser's session passed the second factor
    */
-  static async clearTwoFactorVerified(): Promise<void> {
+  static async markLoginSessionVerified(adminUserId: string, method: TwoFactorMethod): Promise<void> {
     const cookieStore = await cookies();
-    cookieStore.delete('admin-2fa-verified');
+    const sessionId = cookieStore.get(LOGIN_SESSION_COOKIE)?.value;
+    if (!sessionId) return;
+
+    const supabase = getServiceClient();
+    const { error } = await supabase
+      .from('admin_login_sessions')
+      .update({ two_factor_verified: true, two_factor_method: method })
+      .eq('id', sessionId)
+      .eq('admin_user_id', adminUserId)
+      .is('revoked_at', null);
+
+    if (error) {
+      console.error('Error recording 2FA on login session:', error);
+    }
+  }
+
+  /**
+   * Admin who entered their password in this browser and still owes the second factor
+   *
+   * The login route starts the login session before 2FA, so an unverified
+   * row owned by the Supabase session user is the pending sign-in.
+   */
+  static async getPendingTwoFactorUser(): Promise<string | null> {
+    const supabase = await createServerClient();
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) return null;
+
+    const cookieStore = await cookies();
+    const sessionId = cookieStore.get(LOGIN_SESSION_COOKIE)?.value;
+    if (!sessionId) return null;
+
+    const { data: loginSession, error } = await getServiceClient()
+      .from('admin_login_sessions')
+      .select('admin_user_id, two_factor_verified, created_at, revoked_at')
+      .eq('id', sessionId)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error checking pending sign-in:', error);
+      return null;
+    }
+
+    if (!loginSession ||
+        loginSession.admin_user_id !== user.id ||
+        loginSession.revoked_at ||
+        loginSession.two_factor_verified ||
+        Date.now() - new Date(loginSession.created_at).getTime() > PENDING_TWO_FACTOR_MS) {
+      return null;
+    }
+
+    return user.id;
+  }
+
+  /**
+   * Sessions that have not been revoked, most recently active first
+   *
+   * Lists one admin's sessions, or every admin's when no ID is given.
+   */
+  static async listLoginSessions(adminUserId?: string): Promise<LoginSessionSummary[]> {
+    const supabase = getServiceClient();
+    let query = supabase
+      .from('admin_login_sessions')
+      .select('*, admin:admin_users!admin_user_id(email)')
+      .is('revoked_at', null)
+      .order('last_active_at', { ascending: false })
+      .limit(200);
+
+    if (adminUserId) {
+      query = query.eq('admin_user_id', adminUserId);
+    }
+
+    const { data, error } = await query;
+
+    if (error) {
+      console.error('Error fetching login sessions:', error);
+      throw error;
+    }
+
+    return (data || []).map(toLoginSessionSummary);
+  }
+
+  /**
+   * Whether a login session is live, and when it will time out
+   */
+  static async getLoginSessionStatus(sessionId: string | null, adminUserId: string): Promise<LoginSessionStatus> {
+    if (!sessionId) {
+      return { state: 'revoked' };
+    }
+
+    const supabase = getServiceClient();
+    const [{ data: loginSession, error }, { data: securitySettings }] = await Promise.all([
+      supabase
+        .from('admin_login_sessions')
+        .select('admin_user_id, two_factor_verified, created_at, last_active_at, revoked_at')
+        .eq('id', sessionId)
+        .maybeSingle(),
+      supabase
+        .from('system_settings')
+        .select('settings')
+        .eq('category', 'security')
+        .maybeSingle(),
+    ]);
+
+    if (error) {
+      console.error('Error checking login session:', error);
+      return { state: 'revoked' };
+    }
+
+    if (!loginSession || loginSession.admin_user_id !== adminUserId) {
+      return { state: 'revoked' };
+    }
+
+    const timeouts = resolveSessionTimeouts(securitySettings?.settings);
+
+    return {
+      state: evaluateLoginSession(loginSession, timeouts),
+      twoFactorVerified: !!loginSession.two_factor_verified,
+      ...loginSessionExpiry(loginSession, timeouts),
+      idleTimeoutMinutes: timeouts.idleMinutes,
+      warningSeconds: SESSION_WARNING_SECONDS,
+    };
+  }
+
+  /**
+   * A single login session, revoked or not
+   */
+  static async getLoginSession(sessionId: string): Promise<LoginSessionSummary | null> {
+    const supabase = getServiceClient();
+    const { data, error } = await supabase
+      .from('admin_login_sessions')
+      .select('*, admin:admin_users!admin_user_id(email)')
+      .eq('id', sessionId)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error fetching login session:', error);
+      throw error;
+    }
+
+    return data ? toLoginSessionSummary(data) : null;
+  }
+
+  /**
+   * Revoke sessions so middleware turns them away on their next request
+   *
+   * Pass a session ID to revoke one session, or null for all of the admin's
+   * sessions. Returns the IDs that were revoked.
+   */
+  static async revokeLoginSessions(
+    adminUserId: string,
+    sessionId: string | null,
+    revokedBy: string,
+    reason: LoginSessionEndReason
+  ): Promise<string[]> {
+    const supabase = getServiceClient();
+    let query = supabase
+      .from('admin_login_sessions')
+      .update({ revoked_at: new Date().toISOString(), revoked_by: revokedBy, revoke_reason: reason })
+      .eq('admin_user_id', adminUserId)
+      .is('revoked_at', null);
+
+    if (sessionId) {
+      query = query.eq('id', sessionId);
+    }
+
+    const { data, error } = await query.select('id') as { data: Array<{ id: string }> | null; error: any };
+
+    if (error) {
+      console.error('Error revoking login sessions:', error);
+      throw error;
+    }
+
+    return (data || []).map(row => row.id);
   }
 
   /**
@@ -160,7 +395,19 @@ export class ServerSessionManager {
    */
   static async clearSession(): Promise<void> {
     const cookieStore = await cookies();
-    cookieStore.delete('admin-2fa-verified');
+    cookieStore.delete('admin-impersonation');
+
+    // End this browser's entry in the session inventory
+    const sessionId = cookieStore.get(LOGIN_SESSION_COOKIE)?.value;
+    if (sessionId) {
+      const serviceClient = getServiceClient();
+      await serviceClient
+        .from('admin_login_sessions')
+        .update({ revoked_at: new Date().toISOString(), revoke_reason: 'logout' })
+        .eq('id', sessionId)
+        .is('revoked_at', null);
+      cookieStore.delete(LOGIN_SESSION_COOKIE);
+    }
 
     // Clear Supabase auth cookies
     const supabase = await createServerClient();
@@ -320,10 +567,75 @@ export const sessionUtils = {
     return twoFactorRoutes.some(route => pathname.startsWith(route));
   },
 
+  /**
+   * Short "Browser on OS" label for a user agent
+   */
+  describeDevice(userAgent: string | null): string | null {
+    if (!userAgent) return null;
+
+    const browsers: Array<[RegExp, string]> = [
+      [/Edg\//, 'Edge'],
+      [/OPR\//, 'Opera'],
+      [/Firefox\//, 'Firefox'],
+      [/Chrome\//, 'Chrome'],
+      [/Safari\//, 'Safari'],
+    ];
+    const systems: Array<[RegExp, string]> = [
+      [/iPhone|iPad/, 'iOS'],
+      [/Android/, 'Android'],
+      [/Windows/, 'Windows'],
+      [/Mac OS X|Macintosh/, 'macOS'],
+      [/CrOS/, 'ChromeOS'],
+      [/Linux/, 'Linux'],
+    ];
+
+    const browser = browsers.find(([pattern]) => pattern.test(userAgent))?.[1];
+    const system = systems.find(([pattern]) => pattern.test(userAgent))?.[1];
+
+    if (!browser && !system) return 'Unknown device';
+    return [browser || 'Unknown browser', system].filter(Boolean).join(' on ');
+  },
+
   /**
    * Generate session token
    */
   generateSessionId(): string {
     return `session_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
   },
-};
\ No newline at end of file
+};
+
+// admin_login_sessions is not in the typed client's schema
+function getServiceClient() {
+  const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
+  const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+  if (!supabaseUrl || !supabaseServiceKey) {
+    throw new Error('Missing Supabase service role environment variables');
+  }
+
+  return createClient(supabaseUrl, supabaseServiceKey, {
+    auth: {
+      autoRefreshToken: false,
+      persistSession: false,
+    },
+  });
+}
+
+function toLoginSessionSummary(row: any): LoginSessionSummary {
+  const admin = Array.isArray(row.admin) ? row.admin[0] : row.admin;
+
+  return {
+    id: row.id,
+    adminUserId: row.admin_user_id,
+    adminEmail: admin?.email ?? null,
+    device: row.device,
+    ipAddress: row.ip_address,
+    userAgent: row.user_agent,
+    twoFactorVerified: !!row.two_factor_verified,
+    twoFactorMethod: row.two_factor_method,
+    createdAt: row.created_at,
+    lastActiveAt: row.last_active_at,
+    revokedAt: row.revoked_at,
+    revokeReason: row.revoke_reason,
+  };
+}
@@ -0,0 +1,545 @@
+import { createClient } from '@supabase/supabase-js';
+import {
+  generateRegistrationOptions,
+  generateAuthenticationOptions,
+  verifyRegistrationResponse,
+  verifyAuthenticationResponse,
+} from '@simplewebauthn/server';
+import type {
+  AuthenticationResponseJSON,
+  AuthenticatorTransportFuture,
+  PublicKeyCredentialCreationOptionsJSON,
+  PublicKeyCredentialRequestOptionsJSON,
+  RegistrationResponseJSON,
+} from '@simplewebauthn/server';
+import type {
+  AdminWebAuthnCredential,
+  WebAuthnChallenge,
+  WebAuthnChallengeType,
+} from '@/lib/types/database.types';
+
+/**
+ * WebAuthn (FIDO2 / passkey) utilities for admin accounts
+ *
+ * Passkeys can be used as a second factor after a password, or on their own
+ * for passwordless login. WebAuthnUtils holds the pure ceremony logic so it can
+ * be driven by a software authenticator; WebAuthnManager adds persistence.
+ */
+
+export interface WebAuthnConfig {
+  rpName: string;
+  rpID: string;
+  origin: string | string[];
+  // How long a challenge stays valid in milliseconds
+  challengeTtl: number;
+  // Client-side ceremony timeout in milliseconds
+  timeout: number;
+}
+
+export interface WebAuthnUserInfo {
+  id: string;
+  email: string;
+}
+
+export type WebAuthnCredentialRecord = Pick<
+  AdminWebAuthnCredential,
+  'credential_id' | 'public_key' | 'counter' | 'transports' | 'device_type' | 'backed_up'
+>;
+
+export interface WebAuthnRegistrationVerification {
+  verified: boolean;
+  credential?: WebAuthnCredentialRecord;
+  error?: string;
+}
+
+export interface WebAuthnAuthenticationVerification {
+  verified: boolean;
+  newCounter?: number;
+  userVerified?: boolean;
+  error?: string;
+}
+
+export interface WebAuthnCredentialSummary {
+  id: string;
+  name: string;
+  deviceType: AdminWebAuthnCredential['device_type'];
+  backedUp: boolean;
+  createdAt: string;
+  lastUsedAt: string | null;
+}
+
+export interface WebAuthnCeremonyStart<T> {
+  success: boolean;
+  challengeId?: string;
+  options?: T;
+  error?: string;
+}
+
+export interface WebAuthnLoginResult {
+  success: boolean;
+  userId?: string;
+  // True when the passkey was used without a preceding password
+  passwordless?: boolean;
+  error?: string;
+}
+
+/**
+ * Read relying party settings from the environment
+ */
+export function getWebAuthnConfig(): WebAuthnConfig {
+  const origins = (process.env.WEBAUTHN_ORIGIN || 'http://localhost:3000')
+    .split(',')
+    .map(origin => origin.trim())
+    .filter(Boolean);
+
+  return {
+    rpName: process.env.WEBAUTHN_RP_NAME || 'VowNow Admin',
+    rpID: process.env.WEBAUTHN_RP_ID || 'localhost',
+    origin: origins.length === 1 ? origins[0] : origins,
+    challengeTtl: 5 * 60 * 1000,
+    timeout: 60 * 1000,
+  };
+}
+
+/**
+ * Stateless WebAuthn ceremony helpers
+ */
+export class WebAuthnUtils {
+  /**
+   * Build registration options, excluding credentials the admin already has
+   */
+  static async buildRegistrationOptions(
+    user: WebAuthnUserInfo,
+    existingCredentials: Pick<AdminWebAuthnCredential, 'credential_id' | 'transports'>[],
+    config: WebAuthnConfig = getWebAuthnConfig()
+  ): Promise<PublicKeyCredentialCreationOptionsJSON> {
+    return generateRegistrationOptions({
+      rpName: config.rpName,
+      rpID: config.rpID,
+      userName: user.email,
+      userID: new TextEncoder().encode(user.id),
+      timeout: config.timeout,
+      attestationType: 'none',
+      excludeCredentials: existingCredentials.map(credential => ({
+        id: credential.credential_id,
+        transports: credential.transports as AuthenticatorTransportFuture[],
+      })),
+      authenticatorSelection: {
+        // Discoverable credentials are what make passwordless login possible
+        residentKey: 'preferred',
+        userVerification: 'preferred',
+      },
+    });
+  }
+
+  /**
+   * Build authentication options; without credentials the browser offers any discoverable passkey
+   */
+  static async buildAuthenticationOptions(
+    credentials: Pick<AdminWebAuthnCredential, 'credential_id' | 'transports'>[] | null,
+    config: WebAuthnConfig = getWebAuthnConfig()
+  ): Promise<PublicKeyCredentialRequestOptionsJSON> {
+    return generateAuthenticationOptions({
+      rpID: config.rpID,
+      timeout: config.timeout,
+      allowCredentials: credentials?.map(credential => ({
+        id: credential.credential_id,
+        transports: credential.transports as AuthenticatorTransportFuture[],
+      })),
+      userVerification: credentials ? 'preferred' : 'required',
+    });
+  }
+
+  /**
+   * Verify an attestation response against the issued challenge
+   */
+  static async verifyRegistration(
+    response: RegistrationResponseJSON,
+    expectedChallenge: string,
+    config: WebAuthnConfig = getWebAuthnConfig()
+  ): Promise<WebAuthnRegistrationVerification> {
+    try {
+      const verification = await verifyRegistrationResponse({
+        response,
+        expectedChallenge,
+        expectedOrigin: config.origin,
+        expectedRPID: config.rpID,
+        requireUserVerification: false,
+      });
+
+      if (!verification.verified) {
+        return { verified: false, error: 'Passkey registration could not be verified' };
+      }
+
+      const { credential, credentialDeviceType, credentialBackedUp } = verification.registrationInfo;
+
+      return {
+        verified: true,
+        credential: {
+          credential_id: credential.id,
+          public_key: Buffer.from(credential.publicKey).toString('base64url'),
+          counter: credential.counter,
+          transports: credential.transports || response.response.transports || [],
+          device_type: credentialDeviceType,
+          backed_up: credentialBackedUp,
+        },
+      };
+    } catch (error) {
+      return {
+        verified: false,
+        error: error instanceof Error ? error.message : 'Passkey registration could not be verified',
+      };
+    }
+  }
+
+  /**
+   * Verify an assertion response against a stored credential
+   */
+  static async verifyAuthentication(
+    response: AuthenticationResponseJSON,
+    expectedChallenge: string,
+    credential: WebAuthnCredentialRecord,
+    requireUserVerification: boolean,
+    config: WebAuthnConfig = getWebAuthnConfig()
+  ): Promise<WebAuthnAuthenticationVerification> {
+    try {
+      const verification = await verifyAuthenticationResponse({
+        response,
+        expectedChallenge,
+        expectedOrigin: config.origin,
+        expectedRPID: config.rpID,
+        requireUserVerification,
+        credential: {
+          id: credential.credential_id,
+          publicKey: new Uint8Array(Buffer.from(credential.public_key, 'base64url')),
+          counter: credential.counter,
+          transports: credential.transports as AuthenticatorTransportFuture[],
+        },
+      });
+
+      if (!verification.verified) {
+        return { verified: false, error: 'Passkey could not be verified' };
+      }
+
+      return {
+        verified: true,
+        newCounter: verification.authenticationInfo.newCounter,
+        userVerified: verification.authenticationInfo.userVerified,
+      };
+    } catch (error) {
+      return {
+        verified: false,
+        error: error instanceof Error ? error.message : 'Passkey could not be verified',
+      };
+    }
+  }
+}
+
+/**
+ * Service role client without next/headers, matching lib/auth/2fa.ts
+ */
+function getServiceClient() {
+  const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
+  const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+  if (!supabaseUrl || !supabaseServiceKey) {
+    throw new Error('Missing Supabase service role environment variables');
+  }
+
+  return createClient(supabaseUrl, supabaseServiceKey, {
+    auth: {
+      autoRefreshToken: false,
+      persistSession: false,
+    },
+  });
+}
+
+/**
+ * Passkey registration, login and management backed by Supabase
+ */
+export class WebAuthnManager {
+  /**
+   * Start registering a new passkey for an admin
+   */
+  static async startRegistration(
+    user: WebAuthnUserInfo
+  ): Promise<WebAuthnCeremonyStart<PublicKeyCredentialCreationOptionsJSON>> {
+    try {
+      const existing = await this.getCredentials(user.id);
+      const options = await WebAuthnUtils.buildRegistrationOptions(user, existing);
+      const challengeId = await this.storeChallenge('registration', options.challenge, user.id);
+
+      return { success: true, challengeId, options };
+    } catch (error) {
+      console.error('Error starting passkey registration:', error);
+      return { success: false, error: 'Failed to start passkey registration' };
+    }
+  }
+
+  /**
+   * Verify and store a new passkey
+   */
+  static async finishRegistration(
+    userId: string,
+    challengeId: string,
+    response: RegistrationResponseJSON,
+    name?: string
+  ): Promise<{ success: boolean; credential?: WebAuthnCredentialSummary; error?: string }> {
+    try {
+      const challenge = await this.consumeChallenge(challengeId, 'registration');
+
+      if (!challenge || challenge.admin_user_id !== userId) {
+        return { success: false, error: 'Registration challenge is invalid or expired' };
+      }
+
+      const verification = await WebAuthnUtils.verifyRegistration(response, challenge.challenge);
+
+      if (!verification.verified || !verification.credential) {
+        return { success: false, error: verification.error };
+      }
+
+      const supabase = getServiceClient();
+      const { data, error } = await supabase
+        .from('admin_webauthn_credentials')
+        .insert({
+          admin_user_id: userId,
+          ...verification.credential,
+          name: name?.trim() || 'Passkey',
+          last_used_at: null,
+        })
+        .select()
+        .single();
+
+      if (error || !data) {
+        throw error || new Error('Failed to store passkey');
+      }
+
+      return { success: true, credential: mapCredential(data) };
+    } catch (error) {
+      console.error('Error finishing passkey registration:', error);
+      return { success: false, error: 'Failed to register passkey' };
+    }
+  }
+
+  /**
+   * Start a login ceremony; pass a user ID for second-factor use, omit it for passwordless login
+   */
+  static async startAuthentication(
+    userId?: string
+  ): Promise<WebAuthnCeremonyStart<PublicKeyCredentialRequestOptionsJSON>> {
+    try {
+      let credentials: AdminWebAuthnCredential[] | null = null;
+
+      if (userId) {
+        credentials = await this.getCredentials(userId);
+
+        if (credentials.length === 0) {
+          return { success: false, error: 'No passkeys registered for this account' };
+        }
+      }
+
+      const options = await WebAuthnUtils.buildAuthenticationOptions(credentials);
+      const challengeId = await this.storeChallenge('authentication', options.challenge, userId || null);
+
+      return { success: true, challengeId, options };
+    } catch (error) {
+      console.error('Error starting passkey authentication:', error);
+      return { success: false, error: 'Failed to start passkey authentication' };
+    }
+  }
+
+  /**
+   * Verify a passkey assertion and resolve the admin it belongs to
+   */
+  static async finishAuthentication(
+    challengeId: string,
+    response: AuthenticationResponseJSON
+  ): Promise<WebAuthnLoginResult> {
+    try {
+      const challenge = await this.consumeChallenge(challengeId, 'authentication');
+
+      if (!challenge) {
+        return { success: false, error: 'Authentication challenge is invalid or expired' };
+      }
+
+      const supabase = getServiceClient();
+      const { data: credential } = await supabase
+        .from('admin_webauthn_credentials')
+        .select('*')
+        .eq('credential_id', response.id)
+        .maybeSingle();
+
+      if (!credential) {
+        return { success: false, error: 'Unknown passkey' };
+      }
+
+      // Second-factor challenges are bound to the admin who entered the password
+      if (challenge.admin_user_id && credential.admin_user_id !== challenge.admin_user_id) {
+        return { success: false, error: 'Passkey does not belong to this account' };
+      }
+
+      const passwordless = !challenge.admin_user_id;
+      const verification = await WebAuthnUtils.verifyAuthentication(
+        response,
+        challenge.challenge,
+        credential,
+        passwordless
+      );
+
+      if (!verification.verified) {
+        return { success: false, error: verification.error };
+      }
+
+      // Conditional on the old counter so a cloned authenticator racing us loses
+      const { data: updated } = await supabase
+        .from('admin_webauthn_credentials')
+        .update({
+          counter: verification.newCounter,
+          last_used_at: new Date().toISOString(),
+          updated_at: new Date().toISOString(),
+        })
+        .eq('id', credential.id)
+        .eq('counter', credential.counter)
+        .select('id');
+
+      if (!updated || updated.length === 0) {
+        return { success: false, error: 'Passkey was used concurrently, please try again' };
+      }
+
+      return { success: true, userId: credential.admin_user_id, passwordless };
+    } catch (error) {
+      console.error('Error finishing passkey authentication:', error);
+      return { success: false, error: 'Failed to verify passkey' };
+    }
+  }
+
+  /**
+   * List an admin's passkeys without key material
+   */
+  static async listCredentials(userId: string): Promise<WebAuthnCredentialSummary[]> {
+    const credentials = await this.getCredentials(userId);
+    return credentials.map(mapCredential);
+  }
+
+  /**
+   * Whether the admin has at least one passkey
+   */
+  static async hasCredentials(userId: string): Promise<boolean> {
+    try {
+      const supabase = getServiceClient();
+      const { count } = await supabase
+        .from('admin_webauthn_credentials')
+        .select('id', { count: 'exact', head: true })
+        .eq('admin_user_id', userId);
+
+      return (count || 0) > 0;
+    } catch (error) {
+      console.error('Error checking passkeys:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Remove one of the admin's passkeys
+   */
+  static async deleteCredential(
+    userId: string,
+    credentialId: string
+  ): Promise<{ success: boolean; error?: string }> {
+    try {
+      const supabase = getServiceClient();
+      const { data, error } = await supabase
+        .from('admin_webauthn_credentials')
+        .delete()
+        .eq('id', credentialId)
+        .eq('admin_user_id', userId)
+        .select('id');
+
+      if (error) {
+        throw error;
+      }
+
+      if (!data || data.length === 0) {
+        return { success: false, error: 'Passkey not found' };
+      }
+
+      return { success: true };
+    } catch (error) {
+      console.error('Error deleting passkey:', error);
+      return { success: false, error: 'Failed to delete passkey' };
+    }
+  }
+
+  private static async getCredentials(userId: string): Promise<AdminWebAuthnCredential[]> {
+    const supabase = getServiceClient();
+    const { data, error } = await supabase
+      .from('admin_webauthn_credentials')
+      .select('*')
+      .eq('admin_user_id', userId)
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      throw error;
+    }
+
+    return (data || []) as AdminWebAuthnCredential[];
+  }
+
+  private static async storeChallenge(
+    type: WebAuthnChallengeType,
+    challenge: string,
+    userId: string | null
+  ): Promise<string> {
+    const supabase = getServiceClient();
+    const { data, error } = await supabase
+      .from('webauthn_challenges')
+      .insert({
+        admin_user_id: userId,
+        type,
+        challenge,
+        expires_at: new Date(Date.now() + getWebAuthnConfig().challengeTtl).toISOString(),
+      })
+      .select('id')
+      .single();
+
+    if (error || !data) {
+      throw error || new Error('Failed to store WebAuthn challenge');
+    }
+
+    return data.id;
+  }
+
+  /**
+   * Delete and return a challenge so each one can only be answered once
+   */
+  private static async consumeChallenge(
+    challengeId: string,
+    type: WebAuthnChallengeType
+  ): Promise<WebAuthnChallenge | null> {
+    const supabase = getServiceClient();
+    const { data } = await supabase
+      .from('webauthn_challenges')
+      .delete()
+      .eq('id', challengeId)
+      .eq('type', type)
+      .select('*')
+      .maybeSingle();
+
+    if (!data || new Date(data.expires_at).getTime() < Date.now()) {
+      return null;
+    }
+
+    return data as WebAuthnChallenge;
+  }
+}
+
+function mapCredential(credential: AdminWebAuthnCredential): WebAuthnCredentialSummary {
+  return {
+    id: credential.id,
+    name: credential.name,
+    deviceType: credential.device_type,
+    backedUp: credential.backed_up,
+    createdAt: credential.created_at,
+    lastUsedAt: credential.last_used_at,
+  };
+}
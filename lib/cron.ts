@@ -0,0 +1,381 @@
+/**
+ * Cron expressions
+ *
+ * Standard five-field expressions (minute hour day-of-month month
+ * day-of-week) with lists, ranges, steps, month and weekday names, the
+ * `@daily`-style macros, `L` for the last day of the month and `5L` / `1#2`
+ * for the last or nth weekday of the month. As in Vixie cron, when both day
+ * fields are restricted a day matching either one fires.
+ *
+ * Expressions are evaluated in an IANA time zone. A time skipped by a
+ * daylight saving change fires shifted forward by the length of the gap
+ * (02:30 becomes 03:30), and a time repeated by one fires only once.
+ */
+
+export interface CronSchedule {
+  expression: string;
+  timezone: string;
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>;
+  lastDayOfMonth: boolean;
+  // Weekday -> 'last' or the nth occurrence(s) within the month
+  nthWeekdays: Map<number, Set<number | 'last'>>;
+  dayOfMonthRestricted: boolean;
+  dayOfWeekRestricted: boolean;
+}
+
+export class CronParseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CronParseError';
+  }
+}
+
+const MACROS: Record<string, string> = {
+  '@yearly': '0 0 1 1 *',
+  '@annually': '0 0 1 1 *',
+  '@monthly': '0 0 1 * *',
+  '@weekly': '0 0 * * 0',
+  '@daily': '0 0 * * *',
+  '@midnight': '0 0 * * *',
+  '@hourly': '0 * * * *',
+};
+
+const MONTH_NAMES = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+const WEEKDAY_NAMES = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+
+// How far ahead to look before deciding an expression never fires (e.g. 30 2 *)
+const MAX_SEARCH_YEARS = 8;
+
+interface FieldSpec {
+  label: string;
+  min: number;
+  max: number;
+  names?: string[];
+  // Offset added to a name's index, e.g. 1 for months
+  nameOffset?: number;
+}
+
+const FIELDS: FieldSpec[] = [
+  { label: 'minute', min: 0, max: 59 },
+  { label: 'hour', min: 0, max: 23 },
+  { label: 'day of month', min: 1, max: 31 },
+  { label: 'month', min: 1, max: 12, names: MONTH_NAMES, nameOffset: 1 },
+  // 7 is accepted as Sunday
+  { label: 'day of week', min: 0, max: 7, names: WEEKDAY_NAMES, nameOffset: 0 },
+];
+
+/**
+ * Parse an expression for a time zone, throwing CronParseError when invalid
+ */
+export function parseCron(expression: string, timezone = 'UTC'): CronSchedule {
+  if (!isValidTimeZone(timezone)) {
+    throw new CronParseError(`Unknown time zone "${timezone}"`);
+  }
+
+  const trimmed = expression.trim();
+  const source = MACROS[trimmed.toLowerCase()] || trimmed;
+  const parts = source.split(/\s+/);
+
+  if (parts.length !== 5) {
+    throw new CronParseError('Cron expressions need five fields: minute hour day-of-month month day-of-week');
+  }
+
+  const [minuteField, hourField, dayOfMonthField, monthField, dayOfWeekField] = parts;
+
+  const dayOfMonth = parseDayOfMonth(dayOfMonthField);
+  const dayOfWeek = parseDayOfWeek(dayOfWeekField);
+
+  return {
+    expression: trimmed,
+    timezone,
+    minutes: parseField(minuteField, FIELDS[0]),
+    hours: parseField(hourField, FIELDS[1]),
+    daysOfMonth: dayOfMonth.days,
+    months: parseField(monthField, FIELDS[3]),
+    daysOfWeek: dayOfWeek.days,
+    lastDayOfMonth: dayOfMonth.last,
+    nthWeekdays: dayOfWeek.nth,
+    dayOfMonthRestricted: dayOfMonthField !== '*' && dayOfMonthField !== '?',
+    dayOfWeekRestricted: dayOfWeekField !== '*' && dayOfWeekField !== '?',
+  };
+}
+
+/**
+ * Check an expression, returning the parse error message if it is invalid
+ */
+export function validateCron(expression: string, timezone = 'UTC'): string | null {
+  try {
+    parseCron(expression, timezone);
+    return null;
+  } catch (error) {
+    return error instanceof Error ? error.message : 'Invalid cron expression';
+  }
+}
+
+/**
+ * First time strictly after `after` that the schedule fires, or null if it never does
+ */
+export function nextCronOccurrence(schedule: CronSchedule, after: Date = new Date()): Date | null {
+  // Work in wall-clock time for the zone, stored in the UTC fields of `wall`
+  const wall = toWallClock(after, schedule.timezone);
+  wall.setUTCSeconds(0, 0);
+  wall.setUTCMinutes(wall.getUTCMinutes() + 1);
+
+  const lastYear = wall.getUTCFullYear() + MAX_SEARCH_YEARS;
+
+  while (wall.getUTCFullYear() <= lastYear) {
+    if (!schedule.months.has(wall.getUTCMonth() + 1)) {
+      wall.setUTCMonth(wall.getUTCMonth() + 1, 1);
+      wall.setUTCHours(0, 0, 0, 0);
+      continue;
+    }
+
+    if (!matchesDay(schedule, wall)) {
+      wall.setUTCDate(wall.getUTCDate() + 1);
+      wall.setUTCHours(0, 0, 0, 0);
+      continue;
+    }
+
+    if (!schedule.hours.has(wall.getUTCHours())) {
+      wall.setUTCHours(wall.getUTCHours() + 1, 0, 0, 0);
+      continue;
+    }
+
+    if (!schedule.minutes.has(wall.getUTCMinutes())) {
+      wall.setUTCMinutes(wall.getUTCMinutes() + 1, 0, 0);
+      continue;
+    }
+
+    const instant = fromWallClock(wall, schedule.timezone);
+    if (instant.getTime() > after.getTime()) {
+      return instant;
+    }
+
+    // The second pass through a repeated hour, already run
+    wall.setUTCMinutes(wall.getUTCMinutes() + 1, 0, 0);
+  }
+
+  return null;
+}
+
+export function isValidTimeZone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function parseField(field: string, spec: FieldSpec): Set<number> {
+  const values = new Set<number>();
+
+  for (const part of field.split(',')) {
+    const [range, stepText] = part.split('/');
+    const step = stepText === undefined ? 1 : parseNumber(stepText, spec, 'step');
+
+    if (step < 1) {
+      throw new CronParseError(`Invalid ${spec.label} step "${stepText}"`);
+    }
+
+    let start: number;
+    let end: number;
+
+    if (range === '*' || range === '?') {
+      start = spec.min;
+      end = spec.max;
+    } else if (range.includes('-')) {
+      const [from, to] = range.split('-');
+      start = parseValue(from, spec);
+      end = parseValue(to, spec);
+    } else {
+      start = parseValue(range, spec);
+      // `5/15` means every 15 starting at 5
+      end = stepText === undefined ? start : spec.max;
+    }
+
+    if (start > end) {
+      throw new CronParseError(`Invalid ${spec.label} range "${range}"`);
+    }
+
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+
+  return values;
+}
+
+function parseDayOfMonth(field: string): { days: Set<number>; last: boolean } {
+  const parts = field.split(',');
+  const last = parts.some(part => part.toUpperCase() === 'L');
+  const rest = parts.filter(part => part.toUpperCase() !== 'L');
+
+  return {
+    days: rest.length > 0 ? parseField(rest.join(','), FIELDS[2]) : new Set(),
+    last,
+  };
+}
+
+function parseDayOfWeek(field: string): { days: Set<number>; nth: Map<number, Set<number | 'last'>> } {
+  const spec = FIELDS[4];
+  const nth = new Map<number, Set<number | 'last'>>();
+  const plain: string[] = [];
+
+  for (const part of field.split(',')) {
+    const hash = part.match(/^(\w+)#(\d)$/);
+    const last = part.match(/^(\w+)L$/i);
+
+    if (hash) {
+      const occurrence = Number(hash[2]);
+      if (occurrence < 1 || occurrence > 5) {
+        throw new CronParseError(`Invalid day of week occurrence "${part}"`);
+      }
+      addNthWeekday(nth, parseValue(hash[1], spec) % 7, occurrence);
+    } else if (last) {
+      addNthWeekday(nth, parseValue(last[1], spec) % 7, 'last');
+    } else {
+      plain.push(part);
+    }
+  }
+
+  const days = new Set<number>();
+  if (plain.length > 0) {
+    // Fold Sunday-as-7 onto 0
+    parseField(plain.join(','), spec).forEach(day => days.add(day % 7));
+  }
+
+  return { days, nth };
+}
+
+function addNthWeekday(nth: Map<number, Set<number | 'last'>>, weekday: number, occurrence: number | 'last') {
+  const occurrences = nth.get(weekday) || new Set();
+  occurrences.add(occurrence);
+  nth.set(weekday, occurrences);
+}
+
+function parseValue(text: string, spec: FieldSpec): number {
+  const nameIndex = spec.names?.indexOf(text.toLowerCase()) ?? -1;
+  if (nameIndex >= 0) {
+    return nameIndex + (spec.nameOffset || 0);
+  }
+
+  return parseNumber(text, spec, 'value');
+}
+
+function parseNumber(text: string, spec: FieldSpec, kind: 'value' | 'step'): number {
+  if (!/^\d+$/.test(text)) {
+    throw new CronParseError(`Invalid ${spec.label} ${kind} "${text}"`);
+  }
+
+  const value = Number(text);
+  if (kind === 'value' && (value < spec.min || value > spec.max)) {
+    throw new CronParseError(`${capitalize(spec.label)} must be between ${spec.min} and ${spec.max}, got ${value}`);
+  }
+
+  return value;
+}
+
+function matchesDay(schedule: CronSchedule, wall: Date): boolean {
+  const dayOfMonthMatch = matchesDayOfMonth(schedule, wall);
+  const dayOfWeekMatch = matchesDayOfWeek(schedule, wall);
+
+  if (schedule.dayOfMonthRestricted && schedule.dayOfWeekRestricted) {
+    return dayOfMonthMatch || dayOfWeekMatch;
+  }
+
+  if (schedule.dayOfMonthRestricted) {
+    return dayOfMonthMatch;
+  }
+
+  if (schedule.dayOfWeekRestricted) {
+    return dayOfWeekMatch;
+  }
+
+  return true;
+}
+
+function matchesDayOfMonth(schedule: CronSchedule, wall: Date): boolean {
+  const day = wall.getUTCDate();
+  return schedule.daysOfMonth.has(day) || (schedule.lastDayOfMonth && day === daysInMonth(wall));
+}
+
+function matchesDayOfWeek(schedule: CronSchedule, wall: Date): boolean {
+  const weekday = wall.getUTCDay();
+
+  if (schedule.daysOfWeek.has(weekday)) {
+    return true;
+  }
+
+  const occurrences = schedule.nthWeekdays.get(weekday);
+  if (!occurrences) {
+    return false;
+  }
+
+  const day = wall.getUTCDate();
+  return occurrences.has(Math.ceil(day / 7)) || (occurrences.has('last') && day + 7 > daysInMonth(wall));
+}
+
+function daysInMonth(wall: Date): number {
+  return new Date(Date.UTC(wall.getUTCFullYear(), wall.getUTCMonth() + 1, 0)).getUTCDate();
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function getFormatter(timezone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timezone);
+
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone: timezone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric',
+    });
+    formatters.set(timezone, formatter);
+  }
+
+  return formatter;
+}
+
+/**
+ * The zone's wall-clock time at an instant, as a Date whose UTC fields hold it
+ */
+function toWallClock(instant: Date, timezone: string): Date {
+  const parts: Record<string, number> = {};
+  getFormatter(timezone)
+    .formatToParts(instant)
+    .forEach(part => {
+      if (part.type !== 'literal') parts[part.type] = Number(part.value);
+    });
+
+  return new Date(Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second));
+}
+
+/**
+ * The instant a wall-clock time occurs in a zone, taking the earlier one when it repeats
+ */
+function fromWallClock(wall: Date, timezone: string): Date {
+  const offsetAt = (time: number) => toWallClock(new Date(time), timezone).getTime() - Math.floor(time / 1000) * 1000;
+
+  // Try both offsets in effect around the time; in a gap neither fits and
+  // the later guess lands just after it
+  const earlier = wall.getTime() - offsetAt(wall.getTime() - 24 * 60 * 60 * 1000);
+  const later = wall.getTime() - offsetAt(wall.getTime() + 24 * 60 * 60 * 1000);
+  const candidates = [earlier, later].sort((a, b) => a - b);
+
+  const exact = candidates.find(time => toWallClock(new Date(time), timezone).getTime() === wall.getTime());
+  return new Date(exact ?? candidates[1]);
+}
+
+function capitalize(text: string): string {
+  return text.charAt(0).toUpperCase() + text.slice(1);
+}
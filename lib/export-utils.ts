@@ -1,4 +1,4 @@
-import { ExportFormat } from '@/components/admin/ExportButton'
+import type { ExportFormat } from '@/components/admin/ExportButton'
 
 export interface ExportData {
   headers?: string[]
@@ -8,8 +8,23 @@ export interface ExportData {
   metadata?: Record<string, any>
 }
 
-export const exportToCSV = (data: ExportData): void => {
-  const { headers, rows, filename = 'export' } = data
+export interface ExportFile {
+  content: string | Uint8Array
+  mimeType: string
+  extension: string
+}
+
+// Builders return file contents and run in the browser and on the server alike
+
+const escapeCSVValue = (value: any): string => {
+  const val = value !== null && typeof value === 'object' ? JSON.stringify(value) : value ?? ''
+  return typeof val === 'string' && /[",\n\r]/.test(val)
+    ? `"${val.replace(/"/g, '""')}"`
+    : String(val)
+}
+
+export const buildCSV = (data: ExportData): ExportFile => {
+  const { headers, rows } = data
 
   let csvContent = ''
 
@@ -21,48 +36,119 @@ export const exportToCSV = (data: ExportData): void => {
 
   rows.forEach(row => {
     const values = headers
-      ? headers.map(h => {
-          const value = row[h] ?? ''
-          return typeof value === 'string' && value.includes(',')
-            ? `"${value.replace(/"/g, '""')}"`
-            : value
-        })
-      : Object.values(row).map(value => {
-          const val = value ?? ''
-          return typeof val === 'string' && val.includes(',')
-            ? `"${val.replace(/"/g, '""')}"`
-            : val
-        })
+      ? headers.map(h => escapeCSVValue(row[h]))
+      : Object.values(row).map(escapeCSVValue)
     csvContent += values.join(',') + '\n'
   })
 
-  const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' })
-  const link = document.createElement('a')
-  const url = URL.createObjectURL(blob)
-
-  link.setAttribute('href', url)
-  link.setAttribute('download', `${filename}.csv`)
-  link.style.visibility = 'hidden'
-
-  document.body.appendChild(link)
-  link.click()
-  document.body.removeChild(link)
+  return { content: csvContent, mimeType: 'text/csv;charset=utf-8;', extension: 'csv' }
 }
 
-export const exportToJSON = (data: ExportData): void => {
-  const { rows, filename = 'export', metadata } = data
+export const buildJSON = (data: ExportData): ExportFile => {
+  const { rows, metadata } = data
 
   const exportObject = metadata
     ? { metadata, data: rows }
     : rows
 
-  const jsonString = JSON.stringify(exportObject, null, 2)
-  const blob = new Blob([jsonString], { type: 'application/json' })
+  return {
+    content: JSON.stringify(exportObject, null, 2),
+    mimeType: 'application/json',
+    extension: 'json'
+  }
+}
+
+export const buildExcel = async (data: ExportData): Promise<ExportFile> => {
+  const { headers, rows, title } = data
+  const xlsx = await import('xlsx')
+
+  const worksheet = headers
+    ? xlsx.utils.json_to_sheet(rows, { header: headers })
+    : xlsx.utils.json_to_sheet(rows)
+
+  const workbook = xlsx.utils.book_new()
+  // Sheet names are limited to 31 characters
+  xlsx.utils.book_append_sheet(workbook, worksheet, (title || 'Sheet1').slice(0, 31))
+
+  const content: ArrayBuffer = xlsx.write(workbook, { type: 'array', bookType: 'xlsx' })
+
+  return {
+    content: new Uint8Array(content),
+    mimeType: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+    extension: 'xlsx'
+  }
+}
+
+export const buildPDF = async (data: ExportData): Promise<ExportFile> => {
+  const { headers, rows, title, metadata } = data
+
+  const { jsPDF } = await import('jspdf')
+  const { autoTable } = await import('jspdf-autotable')
+
+  const doc = new jsPDF()
+  const pageWidth = doc.internal.pageSize.getWidth()
+
+  if (title) {
+    doc.setFontSize(18)
+    doc.text(title, pageWidth / 2, 20, { align: 'center' })
+  }
+
+  let tableStart = title ? 35 : 20
+
+  if (metadata) {
+    let yPosition = tableStart
+    doc.setFontSize(10)
+    Object.entries(metadata).forEach(([key, value]) => {
+      doc.text(`${key}: ${value}`, 14, yPosition)
+      yPosition += 6
+    })
+    tableStart = yPosition + 9
+  }
+
+  const tableHeaders = headers || (rows.length > 0 ? Object.keys(rows[0]) : [])
+  const tableRows = rows.map(row =>
+    headers
+      ? headers.map(h => formatPDFCell(row[h]))
+      : Object.values(row).map(formatPDFCell)
+  )
+
+  autoTable(doc, {
+    head: [tableHeaders],
+    body: tableRows,
+    startY: tableStart,
+    theme: 'grid',
+    styles: {
+      fontSize: 8,
+      cellPadding: 2
+    },
+    headStyles: {
+      fillColor: [66, 139, 202],
+      textColor: 255
+    },
+    alternateRowStyles: {
+      fillColor: [245, 245, 245]
+    }
+  })
+
+  return {
+    content: new Uint8Array(doc.output('arraybuffer')),
+    mimeType: 'application/pdf',
+    extension: 'pdf'
+  }
+}
+
+const formatPDFCell = (value: any): string => {
+  if (value === null || value === undefined) return ''
+  return typeof value === 'object' ? JSON.stringify(value) : String(value)
+}
+
+const saveFile = (file: ExportFile, filename: string): void => {
+  const blob = new Blob([file.content as BlobPart], { type: file.mimeType })
   const link = document.createElement('a')
   const url = URL.createObjectURL(blob)
 
   link.setAttribute('href', url)
-  link.setAttribute('download', `${filename}.json`)
+  link.setAttribute('download', `${filename}.${file.extension}`)
   link.style.visibility = 'hidden'
 
   document.body.appendChild(link)
@@ -70,20 +156,17 @@ export const exportToJSON = (data: ExportData): void => {
   document.body.removeChild(link)
 }
 
-export const exportToExcel = async (data: ExportData): Promise<void> => {
-  const { headers, rows, filename = 'export', title } = data
-
-  try {
-    const xlsx = await import('xlsx')
-
-    const worksheet = headers
-      ? xlsx.utils.json_to_sheet(rows, { header: headers })
-      : xlsx.utils.json_to_sheet(rows)
+export const exportToCSV = (data: ExportData): void => {
+  saveFile(buildCSV(data), data.filename || 'export')
+}
 
-    const workbook = xlsx.utils.book_new()
-    xlsx.utils.book_append_sheet(workbook, worksheet, title || 'Sheet1')
+export const exportToJSON = (data: ExportData): void => {
+  saveFile(buildJSON(data), data.filename || 'export')
+}
 
-    xlsx.writeFile(workbook, `${filename}.xlsx`)
+export const exportToExcel = async (data: ExportData): Promise<void> => {
+  try {
+    saveFile(await buildExcel(data), data.filename || 'export')
   } catch (error) {
     console.error('Failed to export to Excel. xlsx library may not be installed:', error)
     exportToCSV(data)
@@ -91,55 +174,8 @@ export const exportToExcel = async (data: ExportData): Promise<void> => {
 }
 
 export const exportToPDF = async (data: ExportData): Promise<void> => {
-  const { headers, rows, filename = 'export', title, metadata } = data
-
   try {
-    const jsPDF = (await import('jspdf')).default
-    await import('jspdf-autotable')
-
-    const doc = new jsPDF()
-    const pageWidth = doc.internal.pageSize.getWidth()
-
-    if (title) {
-      doc.setFontSize(18)
-      doc.text(title, pageWidth / 2, 20, { align: 'center' })
-    }
-
-    if (metadata) {
-      let yPosition = title ? 35 : 20
-      doc.setFontSize(10)
-      Object.entries(metadata).forEach(([key, value]) => {
-        doc.text(`${key}: ${value}`, 14, yPosition)
-        yPosition += 6
-      })
-    }
-
-    const tableHeaders = headers || (rows.length > 0 ? Object.keys(rows[0]) : [])
-    const tableRows = rows.map(row =>
-      headers
-        ? headers.map(h => row[h] ?? '')
-        : Object.values(row).map(v => v ?? '')
-    )
-
-    ;(doc as any).autoTable({
-      head: [tableHeaders],
-      body: tableRows,
-      startY: title ? (metadata ? 50 : 35) : (metadata ? 35 : 20),
-      theme: 'grid',
-      styles: {
-        fontSize: 8,
-        cellPadding: 2
-      },
-      headStyles: {
-        fillColor: [66, 139, 202],
-        textColor: 255
-      },
-      alternateRowStyles: {
-        fillColor: [245, 245, 245]
-      }
-    })
-
-    doc.save(`${filename}.pdf`)
+    saveFile(await buildPDF(data), data.filename || 'export')
   } catch (error) {
     console.error('Failed to export to PDF. jspdf library may not be installed:', error)
     exportToCSV(data)
@@ -0,0 +1,121 @@
+import { supabase } from '@/lib/supabase';
+import { buildMimeMessage, type MailAddress, type MailMessage } from '@/lib/mail/mime';
+import { sendSmtpMessage, type SmtpOptions, type SmtpRecipientResult } from '@/lib/mail/smtp';
+
+/**
+ * Outgoing mail
+ *
+ * Uses the SMTP settings saved under Settings > Notifications (the
+ * `notifications` row of system_settings). SMTP_* and MAIL_FROM_ADDRESS
+ * environment variables take precedence, which is how a local sink such
+ * as Mailpit (SMTP_HOST=localhost SMTP_PORT=1025) is wired in for testing.
+ */
+
+export interface MailSettings {
+  smtp: SmtpOptions;
+  from: MailAddress;
+  replyTo?: string;
+}
+
+export interface SendMailResult {
+  messageId: string;
+  recipients: SmtpRecipientResult[];
+}
+
+/**
+ * Fields of NotificationSettings the mailer reads
+ */
+interface NotificationMailSettings {
+  email_notifications_enabled?: boolean;
+  email_provider?: string;
+  email_from_address?: string;
+  email_from_name?: string;
+  email_reply_to?: string;
+  smtp_host?: string;
+  smtp_port?: number;
+  smtp_username?: string;
+  smtp_password?: string;
+  smtp_secure?: boolean;
+}
+
+export class MailConfigurationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'MailConfigurationError';
+  }
+}
+
+/**
+ * Resolve the SMTP relay and sender, throwing MailConfigurationError when mail cannot be sent
+ */
+export async function loadMailSettings(): Promise<MailSettings> {
+  const { data, error } = await supabase
+    .from('system_settings')
+    .select('settings')
+    .eq('category', 'notifications')
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error loading notification settings:', error);
+  }
+
+  const saved: NotificationMailSettings = data?.settings || {};
+  const host = process.env.SMTP_HOST || saved.smtp_host;
+  const fromAddress = process.env.MAIL_FROM_ADDRESS || saved.email_from_address;
+
+  if (!process.env.SMTP_HOST) {
+    if (saved.email_notifications_enabled === false) {
+      throw new MailConfigurationError('Email notifications are disabled');
+    }
+
+    if (saved.email_provider && saved.email_provider !== 'smtp') {
+      throw new MailConfigurationError(`Email provider "${saved.email_provider}" is not supported, only SMTP`);
+    }
+  }
+
+  if (!host) {
+    throw new MailConfigurationError('No SMTP host is configured');
+  }
+
+  if (!fromAddress) {
+    throw new MailConfigurationError('No sender address is configured');
+  }
+
+  const secure = process.env.SMTP_SECURE ? process.env.SMTP_SECURE === 'true' : !!saved.smtp_secure;
+
+  return {
+    smtp: {
+      host,
+      port: parseInt(process.env.SMTP_PORT || String(saved.smtp_port || (secure ? 465 : 587))),
+      secure,
+      username: process.env.SMTP_USERNAME || saved.smtp_username || undefined,
+      password: process.env.SMTP_PASSWORD || saved.smtp_password || undefined,
+    },
+    from: { address: fromAddress, name: saved.email_from_name || undefined },
+    replyTo: saved.email_reply_to || undefined,
+  };
+}
+
+/**
+ * Send one message to all of its recipients, reporting each recipient's outcome
+ *
+ * Throws when the relay cannot be reached or refuses the sender; refusals
+ * of individual recipients are reported instead.
+ */
+export async function sendMail(
+  message: Omit<MailMessage, 'from'> & { from?: MailAddress },
+  settings?: MailSettings
+): Promise<SendMailResult> {
+  const resolved = settings || await loadMailSettings();
+  const from = message.from || resolved.from;
+
+  const { messageId, raw } = buildMimeMessage({
+    ...message,
+    from,
+    replyTo: message.replyTo || resolved.replyTo,
+  });
+
+  const result = await sendSmtpMessage(resolved.smtp, { from: from.address, to: message.to }, raw);
+
+  return { messageId, recipients: result.recipients };
+}
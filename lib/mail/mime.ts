@@ -0,0 +1,126 @@
+import crypto from 'node:crypto';
+
+/**
+ * RFC 5322 / MIME message building
+ *
+ * Bodies and attachments are base64 encoded so any content survives
+ * 7-bit relays; headers with non-ASCII text use RFC 2047 encoded words.
+ */
+
+export interface MailAddress {
+  address: string;
+  name?: string;
+}
+
+export interface MailAttachment {
+  filename: string;
+  content: Uint8Array | string;
+  contentType: string;
+}
+
+export interface MailMessage {
+  from: MailAddress;
+  to: string[];
+  replyTo?: string;
+  subject: string;
+  text: string;
+  html?: string;
+  attachments?: MailAttachment[];
+  headers?: Record<string, string>;
+}
+
+export interface BuiltMessage {
+  messageId: string;
+  raw: string;
+}
+
+const CRLF = '\r\n';
+
+export function buildMimeMessage(message: MailMessage): BuiltMessage {
+  const domain = message.from.address.split('@')[1] || 'localhost';
+  const messageId = `<${crypto.randomUUID()}@${domain}>`;
+
+  const headers: Record<string, string> = {
+    From: formatAddress(message.from),
+    To: message.to.join(', '),
+    ...(message.replyTo ? { 'Reply-To': message.replyTo } : {}),
+    Subject: encodeHeader(message.subject),
+    Date: new Date().toUTCString().replace('GMT', '+0000'),
+    'Message-ID': messageId,
+    'MIME-Version': '1.0',
+    ...message.headers,
+  };
+
+  const body = message.html
+    ? multipart('alternative', [textPart(message.text, 'text/plain'), textPart(message.html, 'text/html')])
+    : textPart(message.text, 'text/plain');
+
+  const content = message.attachments?.length
+    ? multipart('mixed', [body, ...message.attachments.map(attachmentPart)])
+    : body;
+
+  const raw = Object.entries(headers)
+    .map(([name, value]) => `${name}: ${value}`)
+    .concat(content)
+    .join(CRLF);
+
+  return { messageId, raw };
+}
+
+export function formatAddress(address: MailAddress): string {
+  if (!address.name) {
+    return address.address;
+  }
+
+  const name = /^[\x20-\x7e]*$/.test(address.name)
+    ? `"${address.name.replace(/(["\\])/g, '\\$1')}"`
+    : encodeHeader(address.name);
+
+  return `${name} <${address.address}>`;
+}
+
+function encodeHeader(value: string): string {
+  if (/^[\x20-\x7e]*$/.test(value)) {
+    return value;
+  }
+
+  return `=?UTF-8?B?${Buffer.from(value).toString('base64')}?=`;
+}
+
+// Each part is its headers, a blank line and its body
+function textPart(text: string, contentType: string): string {
+  return [
+    `Content-Type: ${contentType}; charset=utf-8`,
+    'Content-Transfer-Encoding: base64',
+    '',
+    base64Lines(text),
+  ].join(CRLF);
+}
+
+function attachmentPart(attachment: MailAttachment): string {
+  const filename = attachment.filename.replace(/["\\\r\n]/g, '_');
+
+  return [
+    `Content-Type: ${attachment.contentType}; name="${filename}"`,
+    'Content-Transfer-Encoding: base64',
+    `Content-Disposition: attachment; filename="${filename}"`,
+    '',
+    base64Lines(attachment.content),
+  ].join(CRLF);
+}
+
+function multipart(subtype: 'mixed' | 'alternative', parts: string[]): string {
+  const boundary = `----=_Part_${crypto.randomBytes(12).toString('hex')}`;
+
+  return [
+    `Content-Type: multipart/${subtype}; boundary="${boundary}"`,
+    '',
+    ...parts.map(part => `--${boundary}${CRLF}${part}`),
+    `--${boundary}--`,
+  ].join(CRLF);
+}
+
+function base64Lines(content: Uint8Array | string): string {
+  const encoded = Buffer.from(content).toString('base64');
+  return encoded.match(/.{1,76}/g)?.join(CRLF) || '';
+}
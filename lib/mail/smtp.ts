@@ -0,0 +1,327 @@
+import net from 'node:net';
+import os from 'node:os';
+import tls from 'node:tls';
+
+/**
+ * Minimal SMTP client
+ *
+ * Speaks just enough ESMTP to hand one message to a relay: EHLO, STARTTLS
+ * when offered (or implicit TLS), AUTH PLAIN/LOGIN, then one MAIL FROM, a
+ * RCPT TO per recipient and DATA. Each recipient's RCPT reply is kept, so
+ * callers can tell which addresses the server took and which it refused.
+ * Works against any relay, including local sinks such as Mailpit.
+ */
+
+export interface SmtpOptions {
+  host: string;
+  port: number;
+  // Implicit TLS from the first byte (usually port 465); otherwise STARTTLS is used when offered
+  secure?: boolean;
+  // Refuse to send over a connection STARTTLS could not upgrade
+  requireTLS?: boolean;
+  username?: string;
+  password?: string;
+  // Name sent with EHLO
+  clientName?: string;
+  connectTimeoutMs?: number;
+  commandTimeoutMs?: number;
+  tlsOptions?: tls.ConnectionOptions;
+}
+
+export interface SmtpEnvelope {
+  from: string;
+  to: string[];
+}
+
+export interface SmtpReply {
+  code: number;
+  message: string;
+}
+
+export interface SmtpRecipientResult {
+  recipient: string;
+  accepted: boolean;
+  code: number;
+  response: string;
+}
+
+export interface SmtpSendResult {
+  recipients: SmtpRecipientResult[];
+  // Final reply to DATA, absent when no recipient was accepted
+  response?: string;
+}
+
+export class SmtpError extends Error {
+  constructor(message: string, public readonly code?: number) {
+    super(message);
+    this.name = 'SmtpError';
+  }
+
+  // 5xx replies are permanent; retrying the same message will not help
+  get permanent(): boolean {
+    return this.code !== undefined && this.code >= 500;
+  }
+}
+
+const CRLF = '\r\n';
+
+/**
+ * Deliver a raw RFC 5322 message to every envelope recipient over one connection
+ */
+export async function sendSmtpMessage(
+  options: SmtpOptions,
+  envelope: SmtpEnvelope,
+  message: string
+): Promise<SmtpSendResult> {
+  const connection = await SmtpConnection.open(options);
+
+  try {
+    await connection.expect(connection.read(), 220, 'greeting');
+
+    let extensions = await connection.hello(options.clientName || os.hostname());
+
+    if (!options.secure && extensions.has('STARTTLS')) {
+      await connection.expect(connection.command('STARTTLS'), 220, 'STARTTLS');
+      await connection.upgrade(options);
+      extensions = await connection.hello(options.clientName || os.hostname());
+    } else if (!options.secure && options.requireTLS) {
+      throw new SmtpError('Server does not support STARTTLS');
+    }
+
+    if (options.username) {
+      await connection.authenticate(extensions, options.username, options.password || '');
+    }
+
+    await connection.expect(connection.command(`MAIL FROM:<${envelope.from}>`), 250, 'MAIL FROM');
+
+    const recipients: SmtpRecipientResult[] = [];
+    for (const recipient of envelope.to) {
+      const reply = await connection.command(`RCPT TO:<${recipient}>`);
+      recipients.push({
+        recipient,
+        accepted: reply.code === 250 || reply.code === 251,
+        code: reply.code,
+        response: reply.message,
+      });
+    }
+
+    if (!recipients.some(result => result.accepted)) {
+      await connection.command('RSET').catch(() => undefined);
+      return { recipients };
+    }
+
+    await connection.expect(connection.command('DATA'), 354, 'DATA');
+    const reply = await connection.command(`${dotStuff(message)}${CRLF}.`);
+
+    // A refused message fails every recipient the server had accepted
+    if (reply.code !== 250) {
+      return {
+        recipients: recipients.map(result => result.accepted
+          ? { ...result, accepted: false, code: reply.code, response: reply.message }
+          : result),
+        response: reply.message,
+      };
+    }
+
+    return { recipients, response: reply.message };
+  } finally {
+    await connection.quit();
+  }
+}
+
+class SmtpConnection {
+  private socket: net.Socket;
+  private buffer = '';
+  private lines: string[] = [];
+  private replies: SmtpReply[] = [];
+  private waiter: { resolve: (reply: SmtpReply) => void; reject: (error: Error) => void } | null = null;
+  private failure: Error | null = null;
+  private readonly commandTimeoutMs: number;
+
+  private constructor(socket: net.Socket, commandTimeoutMs: number) {
+    this.socket = socket;
+    this.commandTimeoutMs = commandTimeoutMs;
+    this.attach(socket);
+  }
+
+  static open(options: SmtpOptions): Promise<SmtpConnection> {
+    return new Promise((resolve, reject) => {
+      const socket = options.secure
+        ? tls.connect({ host: options.host, port: options.port, servername: options.host, ...options.tlsOptions })
+        : net.connect({ host: options.host, port: options.port });
+
+      const timer = setTimeout(() => {
+        socket.destroy(new SmtpError('SMTP connection timed out'));
+      }, options.connectTimeoutMs ?? 10000);
+
+      socket.once('error', error => {
+        clearTimeout(timer);
+        reject(error);
+      });
+      // The greeting is read through the connection, so attach before it arrives
+      const connection = new SmtpConnection(socket, options.commandTimeoutMs ?? 30000);
+      socket.once(options.secure ? 'secureConnect' : 'connect', () => {
+        clearTimeout(timer);
+        resolve(connection);
+      });
+    });
+  }
+
+  read(): Promise<SmtpReply> {
+    const reply = this.replies.shift();
+    if (reply) {
+      return Promise.resolve(reply);
+    }
+
+    if (this.failure) {
+      return Promise.reject(this.failure);
+    }
+
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.fail(new SmtpError('SMTP command timed out'));
+      }, this.commandTimeoutMs);
+
+      this.waiter = {
+        resolve: value => {
+          clearTimeout(timer);
+          resolve(value);
+        },
+        reject: error => {
+          clearTimeout(timer);
+          reject(error);
+        },
+      };
+    });
+  }
+
+  command(line: string): Promise<SmtpReply> {
+    this.socket.write(line + CRLF);
+    return this.read();
+  }
+
+  async expect(pending: Promise<SmtpReply>, code: number, step: string): Promise<SmtpReply> {
+    const reply = await pending;
+    if (reply.code !== code) {
+      throw new SmtpError(`SMTP ${step} failed: ${reply.code} ${reply.message}`, reply.code);
+    }
+    return reply;
+  }
+
+  /**
+   * Send EHLO (falling back to HELO) and return the advertised extensions
+   */
+  async hello(name: string): Promise<Map<string, string>> {
+    const reply = await this.command(`EHLO ${name}`);
+
+    if (reply.code !== 250) {
+      await this.expect(this.command(`HELO ${name}`), 250, 'HELO');
+      return new Map();
+    }
+
+    const extensions = new Map<string, string>();
+    reply.message.split('\n').slice(1).forEach(line => {
+      const [keyword, ...params] = line.trim().split(' ');
+      extensions.set(keyword.toUpperCase(), params.join(' '));
+    });
+    return extensions;
+  }
+
+  async authenticate(extensions: Map<string, string>, username: string, password: string) {
+    const mechanisms = (extensions.get('AUTH') || '').toUpperCase().split(' ');
+
+    if (mechanisms.includes('PLAIN') || !mechanisms.includes('LOGIN')) {
+      const credentials = Buffer.from(`\0${username}\0${password}`).toString('base64');
+      await this.expect(this.command(`AUTH PLAIN ${credentials}`), 235, 'authentication');
+      return;
+    }
+
+    await this.expect(this.command('AUTH LOGIN'), 334, 'authentication');
+    await this.expect(this.command(Buffer.from(username).toString('base64')), 334, 'authentication');
+    await this.expect(this.command(Buffer.from(password).toString('base64')), 235, 'authentication');
+  }
+
+  upgrade(options: SmtpOptions): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const secured = tls.connect({ socket: this.socket, servername: options.host, ...options.tlsOptions });
+      secured.once('error', reject);
+      secured.once('secureConnect', () => {
+        secured.off('error', reject);
+        this.attach(secured);
+        resolve();
+      });
+    });
+  }
+
+  async quit() {
+    if (!this.failure && !this.socket.destroyed) {
+      await this.command('QUIT').catch(() => undefined);
+    }
+    this.socket.destroy();
+  }
+
+  private attach(socket: net.Socket) {
+    this.socket.removeAllListeners('data');
+    this.socket = socket;
+    this.buffer = '';
+
+    // Left as buffers: setEncoding would break a later STARTTLS upgrade
+    socket.on('data', (chunk: Buffer) => this.onData(chunk.toString('utf8')));
+    socket.on('error', error => this.fail(error));
+    socket.on('close', () => this.fail(new SmtpError('SMTP connection closed')));
+  }
+
+  private onData(chunk: string) {
+    this.buffer += chunk;
+
+    let lineEnd: number;
+    while ((lineEnd = this.buffer.indexOf('\n')) !== -1) {
+      const line = this.buffer.slice(0, lineEnd).replace(/\r$/, '');
+      this.buffer = this.buffer.slice(lineEnd + 1);
+      this.lines.push(line);
+
+      // "250-..." continues a reply, "250 ..." ends it
+      if (line.length <= 3 || line[3] !== '-') {
+        const reply = {
+          code: Number(line.slice(0, 3)),
+          message: this.lines.map(part => part.slice(4)).join('\n'),
+        };
+        this.lines = [];
+        this.deliver(reply);
+      }
+    }
+  }
+
+  private deliver(reply: SmtpReply) {
+    const waiter = this.waiter;
+    if (waiter) {
+      this.waiter = null;
+      waiter.resolve(reply);
+    } else {
+      this.replies.push(reply);
+    }
+  }
+
+  private fail(error: Error) {
+    if (this.failure) {
+      return;
+    }
+
+    this.failure = error;
+    const waiter = this.waiter;
+    this.waiter = null;
+    waiter?.reject(error);
+    this.socket.destroy();
+  }
+}
+
+/**
+ * Normalise line endings and escape lines starting with a dot (RFC 5321 4.5.2)
+ */
+function dotStuff(message: string): string {
+  return message
+    .replace(/\r?\n/g, CRLF)
+    .split(CRLF)
+    .map(line => (line.startsWith('.') ? `.${line}` : line))
+    .join(CRLF);
+}
@@ -8,6 +8,7 @@ export interface PresenceData {
   online_at: string
   session_start: string
   current_page?: string
+  reviewing_item_id?: string | null
   metadata?: Record<string, any>
 }
 
@@ -106,6 +107,21 @@ class AdminPresenceManager {
     }
   }
 
+  /**
+   * Broadcast the moderation item this admin is reviewing (null when done)
+   */
+  async setReviewingItem(itemId: string | null) {
+    if (!this.channel || !this.userId) return
+
+    const currentPresence = this.presenceState[this.userId]?.[0]
+    if (currentPresence) {
+      await this.trackPresence({
+        ...currentPresence,
+        reviewing_item_id: itemId,
+      })
+    }
+  }
+
   /**
    * Handle page changes
    */
@@ -268,6 +284,15 @@ class AdminPresenceManager {
     return admins
   }
 
+  /**
+   * Get other admins currently reviewing the given moderation item
+   */
+  getReviewers(itemId: string): PresenceData[] {
+    return this.getOnlineAdmins().filter(
+      (admin) => admin.reviewing_item_id === itemId && admin.user_id !== this.userId
+    )
+  }
+
   /**
    * Get online admin count
    */
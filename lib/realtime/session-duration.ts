@@ -184,6 +184,8 @@ export class IdleTracker {
   private idleTimer: NodeJS.Timeout | null = null
   private lastActivity = new Date()
   private onIdleCallback?: () => void
+  private readonly activityEvents = ['mousedown', 'mousemove', 'keypress', 'scroll', 'touchstart']
+  private readonly handleActivity = () => this.resetTimer()
 
   constructor(maxIdleMinutes = 30, onIdle?: () => void) {
     this.maxIdleTime = maxIdleMinutes * 60 * 1000
@@ -195,9 +197,8 @@ export class IdleTracker {
 
     // Track user activity
     if (typeof window !== 'undefined') {
-      const events = ['mousedown', 'mousemove', 'keypress', 'scroll', 'touchstart']
-      events.forEach(event => {
-        document.addEventListener(event, () => this.resetTimer(), true)
+      this.activityEvents.forEach(event => {
+        document.addEventListener(event, this.handleActivity, true)
       })
     }
 
@@ -233,6 +234,12 @@ export class IdleTracker {
       clearInterval(this.idleTimer)
       this.idleTimer = null
     }
+
+    if (typeof window !== 'undefined') {
+      this.activityEvents.forEach(event => {
+        document.removeEventListener(event, this.handleActivity, true)
+      })
+    }
   }
 
   getIdleTime(): number {
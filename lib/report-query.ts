@@ -0,0 +1,160 @@
+/**
+ * Report builder queries
+ *
+ * The shape ReportBuilder edits and the whitelist of data sources and
+ * fields it may use. Shared by the builder UI and the server-side compiler
+ * (lib/admin/report-builder.ts), which only ever emits the tables, columns
+ * and joins declared here.
+ */
+
+export type DataSource = 'users' | 'content' | 'transactions' | 'analytics' | 'logs';
+export type AggregationType = 'count' | 'sum' | 'avg' | 'min' | 'max' | 'distinct';
+export type FilterOperator = 'equals' | 'not_equals' | 'contains' | 'greater_than' | 'less_than' | 'between';
+export type FieldType = 'string' | 'number' | 'date' | 'boolean';
+
+export interface DataField {
+  name: string;
+  type: FieldType;
+  label: string;
+}
+
+export interface QueryFilter {
+  id: string;
+  // `source.field`
+  field: string;
+  operator: FilterOperator;
+  value: string | number | boolean | [string | number, string | number];
+}
+
+export interface QueryAggregation {
+  field: string;
+  type: AggregationType;
+  alias?: string;
+}
+
+// Aggregations computed for each value of `field`
+export interface QueryGroup {
+  field: string;
+  aggregations: QueryAggregation[];
+}
+
+export interface ReportQuery {
+  name: string;
+  description: string;
+  dataSources: DataSource[];
+  selectedFields: string[];
+  filters: QueryFilter[];
+  groupBy?: string[];
+  aggregations?: QueryGroup[];
+  orderBy?: Array<{ field: string; direction: 'asc' | 'desc' }>;
+  limit?: number;
+}
+
+interface SchemaField extends DataField {
+  // Column on the source's table, or a `metadata->>key` path into a JSON column
+  column: string;
+}
+
+interface DataSourceSchema {
+  label: string;
+  table: string;
+  fields: SchemaField[];
+  // How the source joins to other sources: source -> [own column, their column]
+  joins: Partial<Record<DataSource, [string, string]>>;
+}
+
+export const REPORT_QUERY_SCHEMA: Record<DataSource, DataSourceSchema> = {
+  users: {
+    label: 'Users',
+    table: 'profiles',
+    fields: [
+      { name: 'id', type: 'string', label: 'User ID', column: 'id' },
+      { name: 'email', type: 'string', label: 'Email', column: 'email' },
+      { name: 'created_at', type: 'date', label: 'Registration Date', column: 'created_at' },
+      { name: 'last_login', type: 'date', label: 'Last Login', column: 'last_seen_at' },
+      { name: 'status', type: 'string', label: 'Status', column: 'status' },
+      { name: 'role', type: 'string', label: 'Role', column: 'role' },
+    ],
+    joins: {
+      content: ['id', 'user_id'],
+      transactions: ['id', 'user_id'],
+      analytics: ['id', 'user_id'],
+    },
+  },
+  content: {
+    label: 'Content',
+    table: 'moderation_items',
+    fields: [
+      { name: 'id', type: 'string', label: 'Content ID', column: 'id' },
+      { name: 'title', type: 'string', label: 'Title', column: 'title' },
+      { name: 'type', type: 'string', label: 'Type', column: 'content_type' },
+      { name: 'author_id', type: 'string', label: 'Author ID', column: 'user_id' },
+      { name: 'status', type: 'string', label: 'Status', column: 'status' },
+      { name: 'created_at', type: 'date', label: 'Created Date', column: 'created_at' },
+      { name: 'reports_count', type: 'number', label: 'Report Count', column: 'reports_count' },
+    ],
+    joins: {
+      users: ['user_id', 'id'],
+    },
+  },
+  transactions: {
+    label: 'Transactions',
+    table: 'transactions',
+    fields: [
+      { name: 'id', type: 'string', label: 'Transaction ID', column: 'id' },
+      { name: 'user_id', type: 'string', label: 'User ID', column: 'user_id' },
+      { name: 'amount', type: 'number', label: 'Amount', column: 'amount' },
+      { name: 'currency', type: 'string', label: 'Currency', column: 'currency' },
+      { name: 'status', type: 'string', label: 'Status', column: 'status' },
+      { name: 'created_at', type: 'date', label: 'Date', column: 'created_at' },
+    ],
+    joins: {
+      users: ['user_id', 'id'],
+    },
+  },
+  analytics: {
+    label: 'Analytics',
+    table: 'activity_logs',
+    fields: [
+      { name: 'event_type', type: 'string', label: 'Event Type', column: 'action' },
+      { name: 'user_id', type: 'string', label: 'User ID', column: 'user_id' },
+      { name: 'session_id', type: 'string', label: 'Session ID', column: 'metadata->>session_id' },
+      { name: 'page_url', type: 'string', label: 'Page URL', column: 'metadata->>page_url' },
+      { name: 'timestamp', type: 'date', label: 'Timestamp', column: 'created_at' },
+      { name: 'duration', type: 'number', label: 'Duration (ms)', column: 'metadata->>duration' },
+    ],
+    joins: {
+      users: ['user_id', 'id'],
+    },
+  },
+  logs: {
+    label: 'Admin Logs',
+    table: 'audit_logs',
+    fields: [
+      { name: 'action', type: 'string', label: 'Action', column: 'action' },
+      { name: 'resource_type', type: 'string', label: 'Resource', column: 'resource_type' },
+      { name: 'success', type: 'boolean', label: 'Succeeded', column: 'success' },
+      { name: 'error_message', type: 'string', label: 'Error', column: 'error_message' },
+      { name: 'timestamp', type: 'date', label: 'Timestamp', column: 'created_at' },
+      { name: 'admin_id', type: 'string', label: 'Admin ID', column: 'admin_user_id' },
+      { name: 'ip_address', type: 'string', label: 'IP Address', column: 'ip_address' },
+    ],
+    joins: {},
+  },
+};
+
+export const DATA_SOURCES = Object.keys(REPORT_QUERY_SCHEMA) as DataSource[];
+
+/**
+ * Look up a `source.field` reference in the whitelist
+ */
+export function resolveQueryField(reference: string): { source: DataSource; field: SchemaField } | null {
+  const [source, name, ...rest] = reference.split('.');
+
+  if (rest.length > 0 || !DATA_SOURCES.includes(source as DataSource)) {
+    return null;
+  }
+
+  const field = REPORT_QUERY_SCHEMA[source as DataSource].fields.find(candidate => candidate.name === name);
+  return field ? { source: source as DataSource, field } : null;
+}
@@ -31,6 +31,27 @@ export type ReportTemplateType = 'analytics' | 'demographic' | 'conversion' | 'c
 
 export type ReportExecutionStatus = 'pending' | 'running' | 'completed' | 'failed';
 
+export type ReportDeliveryStatus = 'pending' | 'sent' | 'failed' | 'bounced';
+export type ReportVersionEntity = 'report' | 'template';
+
+export type ModerationContentType = 'video' | 'comment' | 'profile' | 'audio';
+
+export type ModerationStatus = 'pending' | 'approved' | 'rejected' | 'flagged';
+
+export type ModerationPriority = 'low' | 'medium' | 'high';
+
+export type AppealSubjectType = 'ban' | 'moderation_item';
+
+export type AppealStatus = 'pending' | 'approved' | 'denied';
+
+export type LoginLockoutScope = 'account' | 'ip';
+
+export type LoginSessionEndReason = 'logout' | 'revoked' | 'revoked_all' | 'idle_timeout' | 'expired';
+
+export type TwoFactorMethod = 'totp' | 'backup_code' | 'webauthn';
+
+export type WebAuthnChallengeType = 'registration' | 'authentication';
+
 // =====================================================
 // BASE TYPES
 // =====================================================
@@ -53,15 +74,143 @@ export interface AdminUser extends DatabaseBaseTable {
   email: string;
   full_name: string | null;
   role: AdminUserRole;
+  // Per-admin overrides: { grant: string[]; revoke: string[] } of "resource:action" keys
   permissions: Record<string, any>;
+  // Optional custom role layered on top of the built-in role
+  custom_role_id?: string | null;
+  // Admins sharing a team_id can reach each other's records through 'team' scoped permissions
+  team_id?: string | null;
   is_active: boolean;
   two_factor_enabled?: boolean;
-  two_factor_secret?: string;
+  // AES-256-GCM encrypted base32 secret, see lib/auth/2fa.ts
+  two_factor_secret?: string | null;
+  // HMAC-SHA256 hashes of the unused backup codes
+  two_factor_backup_codes?: string[];
+  two_factor_last_used_window?: number | null;
+  two_factor_enabled_at?: string | null;
+  // Encrypted secret awaiting its first valid code during enrollment
+  two_factor_pending_secret?: string | null;
+  two_factor_pending_created_at?: string | null;
+  // Last password change; password_expiry_days counts from here (or created_at)
+  password_changed_at?: string | null;
   last_login_at: string | null;
   created_by: string | null;
   updated_by: string | null;
 }
 
+export interface AdminCustomRole extends DatabaseBaseTable {
+  name: string;
+  description: string | null;
+  // Built-in role the custom role starts from
+  inherits: AdminUserRole;
+  // "resource:action" keys added to or removed from the inherited role
+  grants: string[];
+  revokes: string[];
+  created_by: string | null;
+  updated_by: string | null;
+}
+
+export interface AdminFilterPreset extends DatabaseBaseTable {
+  admin_user_id: string;
+  name: string;
+  description: string | null;
+  category: string | null;
+  filters: Record<string, any>;
+  // Shared presets are readable by every admin holding presets:read
+  is_shared: boolean;
+}
+
+export interface AdminWebAuthnCredential extends DatabaseTimestamps {
+  id: string;
+  admin_user_id: string;
+  // Base64URL credential ID and COSE public key, as issued by the authenticator
+  credential_id: string;
+  public_key: string;
+  counter: number;
+  transports: string[];
+  device_type: 'singleDevice' | 'multiDevice';
+  backed_up: boolean;
+  name: string;
+  last_used_at: string | null;
+}
+
+export type ImpersonationEndReason = 'manual' | 'expired' | 'replaced' | 'logout';
+
+export interface AdminImpersonationSession {
+  id: string;
+  admin_user_id: string;
+  // profiles.id of the VowNow user being viewed
+  target_user_id: string;
+  reason: string;
+  started_at: string;
+  expires_at: string;
+  ended_at: string | null;
+  end_reason: ImpersonationEndReason | null;
+  ip_address: string | null;
+  user_agent: string | null;
+}
+
+export interface AdminLoginSession {
+  id: string;
+  admin_user_id: string;
+  // Short "Browser on OS" label derived from the user agent
+  device: string | null;
+  ip_address: string | null;
+  user_agent: string | null;
+  two_factor_verified: boolean;
+  two_factor_method: TwoFactorMethod | null;
+  created_at: string;
+  last_active_at: string;
+  revoked_at: string | null;
+  revoked_by: string | null;
+  revoke_reason: LoginSessionEndReason | null;
+}
+
+export interface WebAuthnChallenge {
+  id: string;
+  // Null for passwordless login, where the admin is not known yet
+  admin_user_id: string | null;
+  type: WebAuthnChallengeType;
+  challenge: string;
+  expires_at: string;
+  created_at: string;
+}
+
+export interface LoginLockout extends DatabaseBaseTable {
+  scope: LoginLockoutScope;
+  // Lowercased email for account scope, client IP for ip scope; unique per scope
+  identifier: string;
+  // Set when the email belongs to an admin
+  admin_user_id: string | null;
+  failed_attempts: number;
+  last_failed_at: string | null;
+  locked_until: string | null;
+  unlocked_by: string | null;
+  unlocked_at: string | null;
+}
+
+export interface AdminPasswordHistory {
+  id: string;
+  admin_user_id: string;
+  // scrypt hash of a previous password, see lib/auth/password-policy.ts
+  password_hash: string;
+  created_at: string;
+}
+
+export interface AdminInvite extends DatabaseBaseTable {
+  email: string;
+  full_name: string | null;
+  role: AdminUserRole;
+  // SHA-256 of the token emailed in the invite link; the token itself is never stored
+  token_hash: string;
+  invited_by: string | null;
+  expires_at: string;
+  accepted_at: string | null;
+  accepted_admin_id: string | null;
+  revoked_at: string | null;
+  revoked_by: string | null;
+}
+
 export interface AuditLog extends DatabaseTimestamps {
   id: string;
   admin_user_id: string;
@@ -87,6 +236,8 @@ export interface ReportTemplate extends DatabaseBaseTable {
   sql_query: string | null;
   chart_config: Record<string, any>;
   is_active: boolean;
+  // Latest report_versions entry; 0 until the template is first versioned
+  version: number;
   created_by: string | null;
   updated_by: string | null;
 }
@@ -108,24 +259,38 @@ export interface Report extends DatabaseBaseTable {
   download_count: number;
   last_downloaded_at: string | null;
   generated_at: string | null;
+  // Latest report_versions entry; 0 until the report is first versioned
+  version: number;
   created_by: string | null;
   updated_by: string | null;
 }
 
 export interface ReportSchedule extends DatabaseBaseTable {
   template_id: string;
+  // Report whose result the schedule refreshes
+  report_id: string | null;
   name: string;
   description: string | null;
   cron_expression: string;
+  // IANA zone the cron expression is evaluated in
+  timezone: string;
   parameters: Record<string, any>;
   filters: Record<string, any>;
   recipients: string[];
+  // Export format mailed to recipients: csv, xlsx or pdf
+  delivery_format: string;
+  // Attach the file when it is small enough; a signed link is always included
+  attach_file: boolean;
   is_active: boolean;
   last_run_at: string | null;
   next_run_at: string | null;
   run_count: number;
   failure_count: number;
   last_error: string | null;
+  // Failed attempts at the current occurrence, reset once it succeeds or is given up
+  retry_attempt: number;
+  claimed_by: string | null;
+  claim_expires_at: string | null;
   created_by: string | null;
   updated_by: string | null;
 }
@@ -139,9 +304,44 @@ export interface ReportExecution extends DatabaseTimestamps {
   completed_at: string | null;
   duration_ms: number | null;
   error_message: string | null;
+  // Definition versions the run used
+  report_version: number | null;
+  template_version: number | null;
+  // Row count, headline numbers and column totals of a completed run
+  result_summary: Record<string, any> | null;
   metadata: Record<string, any>;
 }
 
+// Immutable snapshot of a report or report template definition
+export interface ReportVersion extends DatabaseTimestamps {
+  id: string;
+  entity_type: ReportVersionEntity;
+  entity_id: string;
+  version: number;
+  snapshot: Record<string, any>;
+  changed_fields: string[];
+  change_summary: string | null;
+  // Version whose definition a rollback restored
+  restored_from: number | null;
+  created_by: string | null;
+}
+
+export interface ReportDelivery extends DatabaseBaseTable {
+  schedule_id: string | null;
+  report_id: string | null;
+  execution_id: string | null;
+  recipient: string;
+  status: ReportDeliveryStatus;
+  message_id: string | null;
+  // Last SMTP reply for this recipient
+  smtp_code: number | null;
+  smtp_response: string | null;
+  error_message: string | null;
+  attached: boolean;
+  sent_at: string | null;
+  bounced_at: string | null;
+}
+
 export interface DashboardWidget extends DatabaseBaseTable {
   name: string;
   description: string | null;
@@ -182,6 +382,64 @@ export interface WidgetDataCache extends DatabaseTimestamps {
   expires_at: string;
 }
 
+export interface ModerationHistoryEntry {
+  id: string;
+  action: string;
+  moderator: string;
+  moderator_id: string | null;
+  timestamp: string;
+  reason?: string;
+}
+
+export interface ModerationItem extends DatabaseBaseTable {
+  content_type: ModerationContentType;
+  user_id: string;
+  title: string;
+  description: string | null;
+  content: {
+    url?: string;
+    text?: string;
+    duration?: number;
+    thumbnail?: string;
+  };
+  status: ModerationStatus;
+  priority: ModerationPriority;
+  reason: string | null;
+  reports_count: number;
+  reported_at: string | null;
+  reviewed_by: string | null;
+  reviewed_at: string | null;
+  claimed_by: string | null;
+  claimed_by_email: string | null;
+  claimed_at: string | null;
+  claim_expires_at: string | null;
+  auto_moderated_at: string | null;
+  auto_moderation_score: number | null;
+  moderation_history: ModerationHistoryEntry[];
+}
+
+export interface ModerationAppeal extends DatabaseBaseTable {
+  user_id: string;
+  subject_type: AppealSubjectType;
+  moderation_item_id: string | null;
+  original_decider_id: string | null;
+  message: string;
+  status: AppealStatus;
+  decided_by: string | null;
+  decided_at: string | null;
+  decision_reason: string | null;
+  sla_due_at: string;
+}
+
+export interface UserNotification extends DatabaseBaseTable {
+  user_id: string;
+  type: string;
+  title: string;
+  body: string;
+  metadata: Record<string, any>;
+  read_at: string | null;
+}
+
 // =====================================================
 // VIEW INTERFACES (for analytics materialized views)
 // =====================================================
@@ -406,9 +664,15 @@ export interface Database {
     Tables: {
       admin_users: {
         Row: AdminUser;
-        Insert: Omit<AdminUser, 'id' | 'created_at' | 'updated_at'>;
+        // id is the Supabase Auth user's ID, so it is always supplied
+        Insert: Omit<AdminUser, 'created_at' | 'updated_at'>;
         Update: Partial<Omit<AdminUser, 'id' | 'created_at' | 'updated_at'>>;
       };
+      admin_custom_roles: {
+        Row: AdminCustomRole;
+        Insert: Omit<AdminCustomRole, 'id' | 'created_at' | 'updated_at'>;
+        Update: Partial<Omit<AdminCustomRole, 'id' | 'created_at' | 'updated_at'>>;
+      };
       audit_logs: {
         Row: AuditLog;
         Insert: Omit<AuditLog, 'id' | 'created_at'>;
@@ -434,6 +698,16 @@ export interface Database {
         Insert: Omit<ReportExecution, 'id' | 'created_at' | 'updated_at'>;
         Update: Partial<Omit<ReportExecution, 'id' | 'created_at' | 'updated_at'>>;
       };
+      report_deliveries: {
+        Row: ReportDelivery;
+        Insert: Omit<ReportDelivery, 'id' | 'created_at' | 'updated_at'>;
+        Update: Partial<Omit<ReportDelivery, 'id' | 'created_at' | 'updated_at'>>;
+      };
+      report_versions: {
+        Row: ReportVersion;
+        Insert: Omit<ReportVersion, 'id' | 'created_at' | 'updated_at'>;
+        Update: never; // Versions are immutable
+      };
       dashboard_widgets: {
         Row: DashboardWidget;
         Insert: Omit<DashboardWidget, 'id' | 'created_at' | 'updated_at'>;
@@ -449,6 +723,61 @@ export interface Database {
         Insert: Omit<WidgetDataCache, 'id' | 'created_at' | 'updated_at'>;
         Update: Partial<Omit<WidgetDataCache, 'id' | 'created_at' | 'updated_at'>>;
       };
+      moderation_items: {
+        Row: ModerationItem;
+        Insert: Omit<ModerationItem, 'id' | 'created_at' | 'updated_at'>;
+        Update: Partial<Omit<ModerationItem, 'id' | 'created_at' | 'updated_at'>>;
+      };
+      moderation_appeals: {
+        Row: ModerationAppeal;
+        Insert: Omit<ModerationAppeal, 'id' | 'created_at' | 'updated_at'>;
+        Update: Partial<Omit<ModerationAppeal, 'id' | 'created_at' | 'updated_at'>>;
+      };
+      user_notifications: {
+        Row: UserNotification;
+        Insert: Omit<UserNotification, 'id' | 'created_at' | 'updated_at'>;
+        Update: Partial<Omit<UserNotification, 'id' | 'created_at' | 'updated_at'>>;
+      };
+      admin_filter_presets: {
+        Row: AdminFilterPreset;
+        Insert: Omit<AdminFilterPreset, 'id' | 'created_at' | 'updated_at'>;
+        Update: Partial<Omit<AdminFilterPreset, 'id' | 'created_at' | 'updated_at'>>;
+      };
+      admin_webauthn_credentials: {
+        Row: AdminWebAuthnCredential;
+        Insert: Omit<AdminWebAuthnCredential, 'id' | 'created_at' | 'updated_at'>;
+        Update: Partial<Omit<AdminWebAuthnCredential, 'id' | 'created_at' | 'updated_at'>>;
+      };
+      admin_impersonation_sessions: {
+        Row: AdminImpersonationSession;
+        Insert: Omit<AdminImpersonationSession, 'id' | 'started_at'>;
+        Update: Partial<Pick<AdminImpersonationSession, 'ended_at' | 'end_reason'>>;
+      };
+      admin_login_sessions: {
+        Row: AdminLoginSession;
+        Insert: Omit<AdminLoginSession, 'id' | 'created_at' | 'last_active_at'>;
+        Update: Partial<Pick<AdminLoginSession, 'last_active_at' | 'two_factor_verified' | 'two_factor_method' | 'revoked_at' | 'revoked_by' | 'revoke_reason'>>;
+      };
+      login_lockouts: {
+        Row: LoginLockout;
+        Insert: Omit<LoginLockout, 'id' | 'created_at' | 'updated_at'>;
+        Update: Partial<Omit<LoginLockout, 'id' | 'created_at'>>;
+      };
+      admin_password_history: {
+        Row: AdminPasswordHistory;
+        Insert: Omit<AdminPasswordHistory, 'id' | 'created_at'>;
+        Update: never;
+      };
+      admin_invites: {
+        Row: AdminInvite;
+        Insert: Omit<AdminInvite, 'id' | 'created_at' | 'updated_at'>;
+        Update: Partial<Omit<AdminInvite, 'id' | 'created_at'>>;
+      };
+      webauthn_challenges: {
+        Row: WebAuthnChallenge;
+        Insert: Omit<WebAuthnChallenge, 'id' | 'created_at'>;
+        Update: Partial<Omit<WebAuthnChallenge, 'id' | 'created_at'>>;
+      };
     };
     Views: {
       user_analytics: {
@@ -508,6 +837,11 @@ export interface Database {
         Args: {};
         Returns: string;
       };
+      // Runs one read-only SELECT with $1 bound to params, returning its rows
+      execute_report_query: {
+        Args: { query: string; params: Record<string, any> };
+        Returns: Record<string, any>[];
+      };
       get_index_usage_stats: {
         Args: {};
         Returns: IndexUsageStats[];
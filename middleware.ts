@@ -1,6 +1,20 @@
 import { NextResponse } from 'next/server';
 import type { NextRequest } from 'next/server';
-import { createClient } from '@supabase/supabase-js';
+import { createClient, type SupabaseClient } from '@supabase/supabase-js';
+import { RBACManager } from '@/lib/auth/rbac';
+import { evaluateLoginSession, resolveSessionTimeouts, type LoginSessionState } from '@/lib/auth/session-timeouts';
+import { isPasswordExpired, resolvePasswordPolicy } from '@/lib/auth/password-rules';
+
+const AUTH_COOKIE = 'sb-nukophdrrycvhivztujf-auth-token';
+
+// admin_login_sessions ID set at sign-in (see ServerSessionManager.startLoginSession)
+const LOGIN_SESSION_COOKIE = 'admin-session-id';
+
+// Where admins with an expired password are sent
+const CHANGE_PASSWORD_PATH = '/admin/change-password';
+
+// How often a session's last activity is written back
+const LAST_ACTIVE_INTERVAL_MS = 60 * 1000;
 
 // Admin routes that require authentication
 const ADMIN_PROTECTED_ROUTES = [
@@ -11,17 +25,105 @@ const ADMIN_PROTECTED_ROUTES = [
   '/admin/reports',
   '/admin/settings',
   '/admin/audit',
+  '/admin/sessions',
+  CHANGE_PASSWORD_PATH,
 ];
 
 // Public admin routes that don't require authentication
 const ADMIN_PUBLIC_ROUTES = [
   '/admin/login',
   '/admin/login/2fa',
+  '/admin/invite',
+];
+
+// Admin API writes still allowed while impersonating a user
+const IMPERSONATION_WRITE_ROUTES = [
+  '/api/admin/impersonation',
+  '/api/admin/auth/logout',
+  '/api/admin/auth/session/heartbeat',
+];
+
+// Admin API routes an admin who must still enroll a required second factor may use
+const TWO_FACTOR_SETUP_ROUTES = [
+  '/api/admin/auth/2fa/setup',
+  '/api/admin/auth/2fa/confirm',
+  '/api/admin/auth/2fa/status',
+  '/api/admin/auth/webauthn/register',
+  '/api/admin/auth/password',
+  '/api/admin/auth/session/heartbeat',
+];
+
+// Sign-in steps, called before the login session exists or while ending it
+const LOGIN_SESSION_EXEMPT_ROUTES = [
+  '/api/admin/auth/login',
+  '/api/admin/auth/2fa/verify',
+  '/api/admin/auth/webauthn/authenticate',
+  '/api/admin/auth/logout',
 ];
 
 export async function middleware(request: NextRequest) {
   const { pathname } = request.nextUrl;
 
+  if (pathname.startsWith('/api/admin')) {
+    const isWrite = !['GET', 'HEAD', 'OPTIONS'].includes(request.method);
+
+    // Revoked and timed-out sessions are turned away on their next call
+    const authToken = request.cookies.get(AUTH_COOKIE);
+    if (authToken && !LOGIN_SESSION_EXEMPT_ROUTES.some(route => pathname.startsWith(route))) {
+      const userId = readTokenUserId(authToken.value);
+      const adminSupabase = createServiceClient();
+
+      const { state, twoFactorVerified }: LoginSessionCheck = userId && adminSupabase
+        ? await checkLoginSession(adminSupabase, request.cookies.get(LOGIN_SESSION_COOKIE)?.value, userId, isWrite)
+        : { state: 'revoked', twoFactorVerified: false };
+
+      if (state !== 'active') {
+        const expired = state === 'idle_timeout' || state === 'expired';
+        return clearSessionCookies(NextResponse.json(
+          expired
+            ? { error: 'Your session has expired', code: 'SESSION_EXPIRED' }
+            : { error: 'This session has been signed out', code: 'SESSION_REVOKED' },
+          { status: 401 }
+        ));
+      }
+
+      // Signed in with a password but not yet past TOTP or a passkey
+      if (!twoFactorVerified && userId && adminSupabase) {
+        const secondFactor = await checkSecondFactor(adminSupabase, userId);
+
+        if (secondFactor === 'enrolled') {
+          return NextResponse.json(
+            { error: 'Two-factor verification required', code: 'TWO_FACTOR_REQUIRED' },
+            { status: 401 }
+          );
+        }
+
+        if (secondFactor === 'setup_required' && !TWO_FACTOR_SETUP_ROUTES.some(route => pathname.startsWith(route))) {
+          return NextResponse.json(
+            { error: 'Set up two-factor authentication to continue.', code: 'TWO_FACTOR_SETUP_REQUIRED' },
+            { status: 403 }
+          );
+        }
+      }
+    }
+
+    // Impersonation sessions are read-only
+    if (isWrite &&
+        request.cookies.get('admin-impersonation') &&
+        !IMPERSONATION_WRITE_ROUTES.some(route => pathname.startsWith(route))) {
+      return NextResponse.json(
+        { error: 'Impersonation sessions are read-only. End impersonation to make changes.', code: 'IMPERSONATION_READ_ONLY' },
+        { status: 403 }
+      );
+    }
+
+    // Let route handlers record which endpoint an impersonated request hit
+    const requestHeaders = new Headers(request.headers);
+    requestHeaders.set('x-admin-request-method', request.method);
+    requestHeaders.set('x-admin-request-path', pathname);
+    return NextResponse.next({ request: { headers: requestHeaders } });
+  }
+
   // Skip middleware for non-admin routes, static files, and API routes
   if (!pathname.startsWith('/admin') ||
       pathname.startsWith('/_next') ||
@@ -47,7 +149,7 @@ export async function middleware(request: NextRequest) {
   try {
     // Get the auth token from cookies
     const cookieStore = request.cookies;
-    const authToken = cookieStore.get('sb-nukophdrrycvhivztujf-auth-token');
+    const authToken = cookieStore.get(AUTH_COOKIE);
 
     if (!authToken) {
       // No auth token, redirect to login
@@ -91,7 +193,7 @@ export async function middleware(request: NextRequest) {
       return NextResponse.redirect(redirectUrl);
     }
 
-    // Use service role to check profile (bypasses RLS)
+    // Use service role to check admin role (bypasses RLS)
     const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!;
     const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY!;
 
@@ -103,86 +205,101 @@ export async function middleware(request: NextRequest) {
 
     const adminSupabase = createClient(supabaseUrl, supabaseServiceKey);
 
-    // Check if user has admin role in profiles table
-    const { data: profile, error: profileError } = await adminSupabase
-      .from('profiles')
-      .select('role, status')
-      .eq('id', payload.sub)
-      .single();
+    // Role and 2FA state live on admin_users
+    const [
+      { data: adminRow, error: adminError },
+      { count: passkeyCount },
+      { data: securitySettings },
+      loginSession,
+    ] = await Promise.all([
+      adminSupabase
+        .from('admin_users')
+        .select('role, is_active, two_factor_enabled, permissions, password_changed_at, created_at, custom_role:admin_custom_roles(inherits, grants, revokes)')
+        .eq('id', payload.sub)
+        .single(),
+      adminSupabase
+        .from('admin_webauthn_credentials')
+        .select('id', { count: 'exact', head: true })
+        .eq('admin_user_id', payload.sub),
+      adminSupabase
+        .from('system_settings')
+        .select('settings')
+        .eq('category', 'security')
+        .maybeSingle(),
+      checkLoginSession(adminSupabase, request.cookies.get(LOGIN_SESSION_COOKIE)?.value, payload.sub, true),
+    ]);
 
-    if (profileError || !profile) {
-      // User exists but profile not found
+    if (adminError || !adminRow || !RBACManager.isValidRole(adminRow.role)) {
+      // User exists but is not an admin
       const redirectUrl = new URL('/admin/login', request.url);
       redirectUrl.searchParams.set('error', 'unauthorized');
       return NextResponse.redirect(redirectUrl);
     }
 
-    // Check if user has admin role
-    if (!['admin', 'super_admin'].includes(profile.role)) {
-      // User exists but is not an admin
+    if (!adminRow.is_active) {
+      // Admin account is not active
       const redirectUrl = new URL('/admin/login', request.url);
-      redirectUrl.searchParams.set('error', 'unauthorized');
+      redirectUrl.searchParams.set('error', 'deactivated');
       return NextResponse.redirect(redirectUrl);
     }
 
-    if (profile.status !== 'active') {
-      // Admin account is not active
+    if (loginSession.state !== 'active') {
+      // Timed out, signed out from another device, revoked by a super admin, or unknown
       const redirectUrl = new URL('/admin/login', request.url);
-      redirectUrl.searchParams.set('error', 'deactivated');
+      redirectUrl.searchParams.set('error', 'session');
+      return clearSessionCookies(NextResponse.redirect(redirectUrl));
+    }
+
+    // Passkeys count as a second factor alongside TOTP
+    const hasSecondFactor = !!adminRow.two_factor_enabled || (passkeyCount || 0) > 0;
+
+    // Enrolled admins finish signing in with their second factor before anything else
+    if (hasSecondFactor && !loginSession.twoFactorVerified) {
+      const redirectUrl = new URL('/admin/login/2fa', request.url);
+      redirectUrl.searchParams.set('redirect', pathname);
+      return NextResponse.redirect(redirectUrl);
+    }
+
+    // Then an expired password has to be replaced
+    if (pathname !== CHANGE_PASSWORD_PATH &&
+        isPasswordExpired(adminRow, resolvePasswordPolicy(securitySettings?.settings))) {
+      const redirectUrl = new URL(CHANGE_PASSWORD_PATH, request.url);
+      redirectUrl.searchParams.set('expired', '1');
       return NextResponse.redirect(redirectUrl);
     }
 
-    // For backward compatibility with 2FA checks
     const adminUser = {
-      role: profile.role,
-      is_active: profile.status === 'active',
-      two_factor_enabled: false // Set to false since profiles table doesn't have this field
+      role: adminRow.role,
+      is_active: adminRow.is_active,
+      two_factor_enabled: hasSecondFactor,
     };
 
-    // Check 2FA requirement for sensitive routes
-    const requiresTwoFactor = [
-      '/admin/users',
-      '/admin/settings',
-      '/admin/audit',
-    ].some(route => pathname.startsWith(route));
-
-    if (requiresTwoFactor && adminUser.two_factor_enabled) {
-      // Check if 2FA session is valid
-      const twoFactorCookie = request.cookies.get('admin-2fa-verified');
-      if (!twoFactorCookie) {
-        const redirectUrl = new URL('/admin/login/2fa', request.url);
-        redirectUrl.searchParams.set('redirect', pathname);
-        return NextResponse.redirect(redirectUrl);
-      }
+    // Keep admins out of pages their effective permissions cannot use
+    const customRole = Array.isArray(adminRow.custom_role) ? adminRow.custom_role[0] : adminRow.custom_role;
+    const permissions = RBACManager.resolvePermissions(
+      adminUser.role,
+      customRole || null,
+      RBACManager.normalizeOverrides(adminRow.permissions)
+    );
 
-      // Verify 2FA session timestamp (valid for 1 hour)
-      try {
-        const twoFactorData = JSON.parse(twoFactorCookie.value);
-        const now = Date.now();
-        const sessionAge = now - twoFactorData.timestamp;
-        const oneHour = 60 * 60 * 1000;
-
-        if (sessionAge > oneHour) {
-          const redirectUrl = new URL('/admin/login/2fa', request.url);
-          redirectUrl.searchParams.set('redirect', pathname);
-          const response = NextResponse.redirect(redirectUrl);
-          response.cookies.delete('admin-2fa-verified');
-          return response;
-        }
-      } catch {
-        // Invalid 2FA cookie format
-        const redirectUrl = new URL('/admin/login/2fa', request.url);
-        redirectUrl.searchParams.set('redirect', pathname);
-        const response = NextResponse.redirect(redirectUrl);
-        response.cookies.delete('admin-2fa-verified');
-        return response;
-      }
+    if (!RBACManager.canAccessRouteWith(permissions, pathname)) {
+      const redirectUrl = new URL('/admin/dashboard', request.url);
+      redirectUrl.searchParams.set('error', 'forbidden');
+      return NextResponse.redirect(redirectUrl);
+    }
+
+    // Force enrollment when 2FA is required for all admins
+    if (securitySettings?.settings?.two_factor_required_for_admins && !adminUser.two_factor_enabled) {
+      const redirectUrl = new URL('/admin/login/2fa', request.url);
+      redirectUrl.searchParams.set('setup', '1');
+      redirectUrl.searchParams.set('redirect', pathname);
+      return NextResponse.redirect(redirectUrl);
     }
 
     // Add user info to headers for downstream components
     const response = NextResponse.next();
     response.headers.set('x-admin-user-id', payload.sub);
-    response.headers.set('x-admin-user-role', profile.role);
+    response.headers.set('x-admin-user-role', adminUser.role);
 
     return response;
 
@@ -196,11 +313,135 @@ export async function middleware(request: NextRequest) {
   }
 }
 
+interface LoginSessionCheck {
+  state: LoginSessionState;
+  // Set by the 2FA and passkey verify routes, or at a passwordless sign-in
+  twoFactorVerified: boolean;
+}
+
+/**
+ * State of a login session, ending it when it has timed out
+ *
+ * Page loads and API writes count as activity; background GETs do not, so
+ * polling cannot keep an unattended dashboard signed in.
+ */
+async function checkLoginSession(
+  adminSupabase: SupabaseClient,
+  sessionId: string | undefined,
+  userId: string,
+  recordActivity: boolean
+): Promise<LoginSessionCheck> {
+  const revoked: LoginSessionCheck = { state: 'revoked', twoFactorVerified: false };
+
+  if (!sessionId || !/^[0-9a-f-]{36}$/i.test(sessionId)) {
+    return revoked;
+  }
+
+  const [{ data: loginSession, error }, { data: securitySettings }] = await Promise.all([
+    adminSupabase
+      .from('admin_login_sessions')
+      .select('admin_user_id, two_factor_verified, created_at, last_active_at, revoked_at')
+      .eq('id', sessionId)
+      .maybeSingle(),
+    adminSupabase
+      .from('system_settings')
+      .select('settings')
+      .eq('category', 'security')
+      .maybeSingle(),
+  ]);
+
+  if (error) {
+    console.error('Error checking login session:', error);
+    return revoked;
+  }
+
+  if (!loginSession || loginSession.admin_user_id !== userId) {
+    return revoked;
+  }
+
+  const state = evaluateLoginSession(loginSession, resolveSessionTimeouts(securitySettings?.settings));
+
+  if (state === 'idle_timeout' || state === 'expired') {
+    await adminSupabase
+      .from('admin_login_sessions')
+      .update({ revoked_at: new Date().toISOString(), revoke_reason: state })
+      .eq('id', sessionId)
+      .is('revoked_at', null);
+  } else if (state === 'active' && recordActivity &&
+      Date.now() - new Date(loginSession.last_active_at).getTime() > LAST_ACTIVE_INTERVAL_MS) {
+    await adminSupabase
+      .from('admin_login_sessions')
+      .update({ last_active_at: new Date().toISOString() })
+      .eq('id', sessionId);
+  }
+
+  return { state, twoFactorVerified: !!loginSession.two_factor_verified };
+}
+
+/**
+ * Whether an admin whose session skipped the second factor owes one
+ *
+ * Mirrors the guard in lib/auth/guard.ts: "enrolled" admins have TOTP or a
+ * passkey, "setup_required" ones have neither while 2FA is required.
+ */
+async function checkSecondFactor(
+  adminSupabase: SupabaseClient,
+  userId: string
+): Promise<'enrolled' | 'setup_required' | 'not_required'> {
+  const [{ data: adminRow }, { count: passkeyCount }, { data: securitySettings }] = await Promise.all([
+    adminSupabase
+      .from('admin_users')
+      .select('two_factor_enabled')
+      .eq('id', userId)
+      .maybeSingle(),
+    adminSupabase
+      .from('admin_webauthn_credentials')
+      .select('id', { count: 'exact', head: true })
+      .eq('admin_user_id', userId),
+    adminSupabase
+      .from('system_settings')
+      .select('settings')
+      .eq('category', 'security')
+      .maybeSingle(),
+  ]);
+
+  if (adminRow?.two_factor_enabled || (passkeyCount || 0) > 0) {
+    return 'enrolled';
+  }
+
+  return securitySettings?.settings?.two_factor_required_for_admins ? 'setup_required' : 'not_required';
+}
+
+function createServiceClient(): SupabaseClient | null {
+  const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
+  const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+  return supabaseUrl && supabaseServiceKey ? createClient(supabaseUrl, supabaseServiceKey) : null;
+}
+
+// User ID from the Supabase auth cookie, unverified; the session row is what is trusted
+function readTokenUserId(cookieValue: string): string | null {
+  try {
+    const [jwtToken] = JSON.parse(decodeURIComponent(cookieValue));
+    const base64 = jwtToken.split('.')[1].replace(/-/g, '+').replace(/_/g, '/');
+    return JSON.parse(atob(base64)).sub || null;
+  } catch {
+    return null;
+  }
+}
+
+function clearSessionCookies<T extends NextResponse>(response: T): T {
+  response.cookies.delete(AUTH_COOKIE);
+  response.cookies.delete(LOGIN_SESSION_COOKIE);
+  return response;
+}
+
 export const config = {
   matcher: [
     /*
-     * Match all admin routes
+     * Match all admin routes and admin API routes
      */
     '/admin/:path*',
+    '/api/admin/:path*',
   ],
 };
\ No newline at end of file
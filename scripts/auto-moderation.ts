@@ -0,0 +1,61 @@
+import dotenv from 'dotenv';
+import path from 'path';
+
+// Load environment variables
+dotenv.config({ path: path.resolve(__dirname, '../.env.local') });
+
+// How often to score newly queued items
+const POLL_INTERVAL_MS = parseInt(process.env.AUTO_MODERATION_POLL_MS || '60000');
+const BATCH_SIZE = parseInt(process.env.AUTO_MODERATION_BATCH_SIZE || '50');
+
+let stopping = false;
+let wake: (() => void) | null = null;
+
+function stop(signal: string) {
+  console.log(`${signal} received, stopping after the current batch...`);
+  stopping = true;
+  wake?.();
+}
+
+process.on('SIGINT', () => stop('SIGINT'));
+process.on('SIGTERM', () => stop('SIGTERM'));
+
+async function runWorker() {
+  if (!process.env.NEXT_PUBLIC_SUPABASE_URL || !process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY) {
+    console.error('Missing required environment variables');
+    process.exit(1);
+  }
+
+  // Imported after dotenv so the Supabase client sees the environment
+  const { runAutoModeration } = await import('@/lib/admin/moderation-rules');
+  const once = process.argv.includes('--once');
+
+  console.log(`Auto-moderation worker started${once ? ' for a single batch' : ''}`);
+
+  while (!stopping) {
+    try {
+      const decisions = await runAutoModeration(BATCH_SIZE);
+
+      decisions.forEach(decision => {
+        console.log(`[${decision.outcome}] ${decision.title} (${decision.itemId}), score ${decision.score}, ${decision.priority} priority`);
+      });
+    } catch (error) {
+      console.error('Auto-moderation batch failed:', error);
+    }
+
+    if (once) break;
+
+    await new Promise<void>(resolve => {
+      const timer = setTimeout(resolve, POLL_INTERVAL_MS);
+      wake = () => {
+        clearTimeout(timer);
+        resolve();
+      };
+    });
+  }
+
+  console.log('Auto-moderation worker stopped');
+  process.exit(0);
+}
+
+runWorker();
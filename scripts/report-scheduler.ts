@@ -0,0 +1,62 @@
+import dotenv from 'dotenv';
+import path from 'path';
+
+// Load environment variables
+dotenv.config({ path: path.resolve(__dirname, '../.env.local') });
+
+// How often to look for due schedules; cron resolution is one minute
+const POLL_INTERVAL_MS = parseInt(process.env.REPORT_SCHEDULER_POLL_MS || '30000');
+
+let stopping = false;
+let wake: (() => void) | null = null;
+
+function stop(signal: string) {
+  console.log(`${signal} received, stopping after the current tick...`);
+  stopping = true;
+  wake?.();
+}
+
+process.on('SIGINT', () => stop('SIGINT'));
+process.on('SIGTERM', () => stop('SIGTERM'));
+
+async function runWorker() {
+  if (!process.env.NEXT_PUBLIC_SUPABASE_URL || !process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY) {
+    console.error('Missing required environment variables');
+    process.exit(1);
+  }
+
+  // Imported after dotenv so the Supabase client sees the environment
+  const { createWorkerId, runSchedulerTick } = await import('@/lib/admin/report-scheduler');
+  const workerId = createWorkerId();
+  const once = process.argv.includes('--once');
+
+  console.log(`Report scheduler ${workerId} started${once ? ' for a single tick' : ''}`);
+
+  while (!stopping) {
+    try {
+      const result = await runSchedulerTick({ workerId });
+
+      result.runs.forEach(run => {
+        const detail = run.error ? `: ${run.error}` : '';
+        console.log(`[${run.status}] ${run.name} (${run.scheduleId})${detail}, next run ${run.nextRunAt || 'never'}`);
+      });
+    } catch (error) {
+      console.error('Scheduler tick failed:', error);
+    }
+
+    if (once) break;
+
+    await new Promise<void>(resolve => {
+      const timer = setTimeout(resolve, POLL_INTERVAL_MS);
+      wake = () => {
+        clearTimeout(timer);
+        resolve();
+      };
+    });
+  }
+
+  console.log('Report scheduler stopped');
+  process.exit(0);
+}
+
+runWorker();
@@ -20,9 +20,20 @@ const supabase = createClient(supabaseUrl, supabaseServiceKey, {
   },
 });
 
+// Usage: npx tsx scripts/reset-admin-password.ts <email> [password]
+// The password may come from ADMIN_PASSWORD instead, keeping it out of shell history
 async function resetAdminPassword() {
-  const email = 'admin@vownow.com';
-  const newPassword = 'Admin@123456'; // The password you want to use
+  const email = process.argv[2];
+  const newPassword = process.argv[3] || process.env.ADMIN_PASSWORD;
+
+  if (!email || !newPassword) {
+    console.error('Usage: npx tsx scripts/reset-admin-password.ts <email> [password]');
+    console.error('Pass the password as the second argument or in ADMIN_PASSWORD');
+    process.exit(1);
+  }
+
+  // Imported after dotenv so the Supabase client sees the environment
+  const { PasswordPolicyManager } = await import('@/lib/auth/password-policy');
 
   console.log('Resetting admin password...\n');
 
@@ -37,6 +48,25 @@ async function resetAdminPassword() {
 
     const adminUser = users.users.find(u => u.email === email);
 
+    // The same policy the dashboard enforces, including reuse for existing admins
+    const { data: adminRow } = adminUser
+      ? await supabase.from('admin_users').select('id, full_name').eq('id', adminUser.id).maybeSingle()
+      : { data: null };
+
+    const policy = await PasswordPolicyManager.getPolicy();
+    const check = await PasswordPolicyManager.checkPassword(newPassword, {
+      adminUserId: adminRow?.id,
+      email,
+      fullName: adminRow?.full_name,
+    }, policy);
+
+    if (!check.isValid) {
+      console.error('❌ Password does not meet the password policy:');
+      check.errors?.forEach(error => console.error(`   - ${error}`));
+      process.exitCode = 1;
+      return;
+    }
+
     if (!adminUser) {
       console.log('Admin user not found. Creating new admin user...');
 
@@ -92,6 +122,11 @@ async function resetAdminPassword() {
 
       console.log('✅ Password reset successfully');
 
+      if (adminRow) {
+        await PasswordPolicyManager.recordPasswordChange(adminRow.id, newPassword, policy);
+        console.log('✅ Password history updated');
+      }
+
       // Ensure profile exists with admin role
       const { data: profile, error: profileFetchError } = await supabase
         .from('profiles')
@@ -151,7 +186,6 @@ async function resetAdminPassword() {
     console.log('\n========================================');
     console.log('Admin credentials:');
     console.log('Email:', email);
-    console.log('Password:', newPassword);
     console.log('========================================');
     console.log('\nYou can now login at http://localhost:3001/admin/login');
 